@@ -0,0 +1,197 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.Authorization;
+using BIReportingCopilot.Core.Interfaces.Business;
+using BIReportingCopilot.Core.Interfaces.Security;
+using BIReportingCopilot.Core.DTOs;
+using System.Security.Claims;
+
+namespace BIReportingCopilot.API.Controllers;
+
+/// <summary>
+/// Business metadata governance endpoints used by the metadata management UI
+/// </summary>
+[ApiController]
+[Route("api/business-metadata")]
+[Authorize]
+public class BusinessMetadataController : ControllerBase
+{
+    private readonly ILogger<BusinessMetadataController> _logger;
+    private readonly IAuditService _auditService;
+    private readonly IGlossaryManagementService _glossaryService;
+
+    private static readonly HashSet<string> RelationshipTypes = new()
+    {
+        "synonym", "antonym", "broader", "narrower", "related", "partOf", "hasA"
+    };
+
+    public BusinessMetadataController(
+        ILogger<BusinessMetadataController> logger,
+        IAuditService auditService,
+        IGlossaryManagementService glossaryService)
+    {
+        _logger = logger;
+        _auditService = auditService;
+        _glossaryService = glossaryService;
+    }
+
+    #region Glossary Relationships
+
+    /// <summary>
+    /// Get the relationships of a glossary term to other terms
+    /// </summary>
+    [HttpGet("glossary/{termId:long}/relationships")]
+    public async Task<ActionResult<List<GlossaryTermRelationshipDto>>> GetGlossaryRelationships(long termId)
+    {
+        try
+        {
+            var relationships = await _glossaryService.GetGlossaryRelationshipsAsync(termId);
+            return Ok(relationships);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting relationships of glossary term {TermId}", termId);
+            return StatusCode(500, new { error = "Failed to retrieve glossary relationships", details = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Link a glossary term to another term; linking the same pair and type again returns the existing link
+    /// </summary>
+    [HttpPost("glossary/{termId:long}/relationships")]
+    public async Task<ActionResult<GlossaryTermRelationshipDto>> CreateGlossaryRelationship(long termId, [FromBody] CreateGlossaryRelationshipRequest request)
+    {
+        try
+        {
+            if (!RelationshipTypes.Contains(request.RelationshipType))
+            {
+                return BadRequest(new { error = $"Unknown relationship type '{request.RelationshipType}'" });
+            }
+
+            if (request.RelatedTermId == termId)
+            {
+                return BadRequest(new { error = "A term can't be related to itself" });
+            }
+
+            var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value ?? "system";
+            _logger.LogInformation("Linking glossary term {TermId} to {RelatedTermId} by user {UserId}", termId, request.RelatedTermId, userId);
+
+            var relationship = await _glossaryService.AddGlossaryRelationshipAsync(termId, request, userId);
+
+            if (relationship == null)
+            {
+                return NotFound(new { error = $"Glossary term {termId} or {request.RelatedTermId} not found" });
+            }
+
+            return Ok(relationship);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error linking glossary term {TermId}", termId);
+            return StatusCode(500, new { error = "Failed to create glossary relationship", details = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Remove a relationship from a glossary term
+    /// </summary>
+    [HttpDelete("glossary/{termId:long}/relationships/{relationshipId:long}")]
+    public async Task<ActionResult> DeleteGlossaryRelationship(long termId, long relationshipId)
+    {
+        try
+        {
+            var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value ?? "system";
+            var removed = await _glossaryService.RemoveGlossaryRelationshipAsync(termId, relationshipId, userId);
+
+            if (!removed)
+            {
+                return NotFound(new { error = $"Relationship {relationshipId} of glossary term {termId} not found" });
+            }
+
+            return Ok(new { success = true, message = "Relationship removed" });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error removing relationship {RelationshipId} from glossary term {TermId}", relationshipId, termId);
+            return StatusCode(500, new { error = "Failed to delete glossary relationship", details = ex.Message });
+        }
+    }
+
+    #endregion
+
+    #region PII
+
+    /// <summary>
+    /// Record that a user revealed masked PII columns of a query result.
+    /// The client only unmasks the columns once this has succeeded.
+    /// </summary>
+    [HttpPost("pii/reveal-audit")]
+    public async Task<IActionResult> RecordPiiReveal([FromBody] PiiRevealRequest request)
+    {
+        try
+        {
+            if (request.Columns == null || request.Columns.Count == 0)
+            {
+                return BadRequest(new { success = false, error = "At least one column is required" });
+            }
+
+            if (string.IsNullOrWhiteSpace(request.Reason))
+            {
+                return BadRequest(new { success = false, error = "A reason is required to reveal personal data" });
+            }
+
+            var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value ?? "system";
+            var auditId = Guid.NewGuid().ToString();
+            var revealedAt = DateTime.UtcNow;
+
+            _logger.LogInformation("User {UserId} revealing PII columns {Columns}",
+                userId, string.Join(", ", request.Columns.Select(c => c.Column)));
+
+            await _auditService.LogAsync(
+                "PII_REVEAL",
+                userId,
+                "QueryResult",
+                auditId,
+                new
+                {
+                    columns = request.Columns,
+                    reason = request.Reason.Trim(),
+                    maskingStrategy = request.MaskingStrategy,
+                    sql = request.Sql,
+                    context = request.Context,
+                    revealedAt
+                },
+                HttpContext.Connection.RemoteIpAddress?.ToString(),
+                Request.Headers.UserAgent.ToString());
+
+            return Ok(new { success = true, auditId, revealedAt });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error recording PII reveal");
+            return StatusCode(500, new { success = false, error = "Failed to record PII reveal" });
+        }
+    }
+
+    #endregion
+}
+
+/// <summary>
+/// Masked columns a user asked to reveal, with the reason given
+/// </summary>
+public class PiiRevealRequest
+{
+    public List<PiiRevealColumn> Columns { get; set; } = new();
+    public string Reason { get; set; } = string.Empty;
+    public string MaskingStrategy { get; set; } = string.Empty;
+    public string? Sql { get; set; }
+    public string? Context { get; set; }
+}
+
+/// <summary>
+/// A result column and the business columns (schema.table.column) it was derived from
+/// </summary>
+public class PiiRevealColumn
+{
+    public string Column { get; set; } = string.Empty;
+    public List<string> Sources { get; set; } = new();
+}
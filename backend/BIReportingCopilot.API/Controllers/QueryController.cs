@@ -14,6 +14,7 @@ using BIReportingCopilot.API.Hubs;
 using System.Security.Claims;
 using System.Runtime.CompilerServices;
 using System.Diagnostics;
+using System.Text.Json;
 using SchemaService = BIReportingCopilot.Core.Interfaces.Schema.ISchemaService;
 using IContextManager = BIReportingCopilot.Core.Interfaces.IContextManager;
 // Process Flow and Business Context imports
@@ -361,15 +362,18 @@ public class QueryController : ControllerBase
         {
             var userId = GetCurrentUserId();
             _logger.LogInformation("🚀 [ENHANCED] ENDPOINT HIT - Processing enhanced query for user {UserId}: {Query} [TraceId: {TraceId}]", userId, request.Query, traceId);
-            _logger.LogInformation("💬 [CHAT] Request details - ExecuteQuery: {ExecuteQuery}, IncludeAlternatives: {IncludeAlternatives}, IncludeSemanticAnalysis: {IncludeSemanticAnalysis}",
-                request.ExecuteQuery, request.IncludeAlternatives, request.IncludeSemanticAnalysis);
+            _logger.LogInformation("💬 [CHAT] Request details - ExecuteQuery: {ExecuteQuery}, IncludeAlternatives: {IncludeAlternatives}, IncludeSemanticAnalysis: {IncludeSemanticAnalysis}, ConversationId: {ConversationId}, Clarifications: {ClarificationCount}",
+                request.ExecuteQuery, request.IncludeAlternatives, request.IncludeSemanticAnalysis, request.ConversationId, request.Clarifications?.Count ?? 0);
+
+            // The AI pipeline only sees the question, so chosen term meanings and conversation focus travel with it
+            var question = BuildContextualQuestion(request);
 
             // 🔍 STEP 1: Start AI Transparency Tracking
             _logger.LogInformation("🔍 [TRANSPARENCY] Starting transparency tracking for query [TraceId: {TraceId}]", traceId);
 
             // 🧠 STEP 2: Enhanced Business Context Analysis
             _logger.LogInformation("🧠 [BUSINESS-CONTEXT] Analyzing business context for query [TraceId: {TraceId}]", traceId);
-            var businessProfile = await _businessContextAnalyzer.AnalyzeUserQuestionAsync(request.Query, userId);
+            var businessProfile = await _businessContextAnalyzer.AnalyzeUserQuestionAsync(question, userId);
 
             // 💰 STEP 3: Token Budget Management
             _logger.LogInformation("💰 [TOKEN-BUDGET] Managing token budget for query [TraceId: {TraceId}]", traceId);
@@ -388,7 +392,9 @@ public class QueryController : ControllerBase
                 _logger.LogInformation("🔍 [TRANSPARENCY] Query processing start - Intent: {Intent}, Confidence: {Confidence}, Tokens: {Tokens} [TraceId: {TraceId}]",
                     businessProfile.Intent.Type, businessProfile.ConfidenceScore, tokenBudget.AvailableContextTokens, traceId);
 
-                processedQuery = await _queryProcessor.ProcessQueryAsync(request.Query, userId, cts.Token);
+                processedQuery = string.IsNullOrWhiteSpace(request.PreferredModel)
+                    ? await _queryProcessor.ProcessQueryAsync(question, userId, cts.Token)
+                    : await GenerateSqlWithModelAsync(question, request.PreferredModel, businessProfile, userId, request.SessionId, cts.Token);
 
                 // Log successful processing
                 _logger.LogInformation("🔍 [TRANSPARENCY] Query processing complete - SQL: {HasSql}, Confidence: {Confidence}, Time: {Time}ms [TraceId: {TraceId}]",
@@ -469,7 +475,7 @@ public class QueryController : ControllerBase
                 !string.IsNullOrEmpty(processedQuery.GeneratedSql), tokenBudget.AvailableContextTokens, processedQuery.ConfidenceScore, traceId);
 
             // 🔍 STEP 5: Create Process Flow Trace (CONSOLIDATED INTEGRATION)
-            await CreateProcessFlowTraceAsync(request.Query, processedQuery, businessProfile, tokenBudget, traceId, userId);
+            await CreateProcessFlowTraceAsync(request.Query, processedQuery, businessProfile, tokenBudget, traceId, userId, request.SessionId);
 
             // 📈 STEP 7: Analytics Logging
             await LogQueryAnalyticsAsync(request.Query, processedQuery, businessProfile, tokenBudget, traceId, userId, queryResult);
@@ -712,7 +718,7 @@ public class QueryController : ControllerBase
             var queryId = Guid.NewGuid().ToString();
 
             // Execute the SQL query
-            var queryResult = await _sqlQueryService.ExecuteSelectQueryAsync(request.Sql, request.Options ?? new QueryOptions());
+            var queryResult = await _sqlQueryService.ExecuteSelectQueryAsync(request.Sql, BuildSqlExecutionOptions(request));
 
             var executionTime = (int)(DateTime.UtcNow - startTime).TotalMilliseconds;
 
@@ -747,6 +753,85 @@ public class QueryController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Stream every row of a raw SQL query as NDJSON, for exports larger than the rows loaded with a result
+    /// </summary>
+    /// <remarks>
+    /// The rows come from a single reader over one execution, so the export sees one consistent
+    /// result instead of pages stitched together from separate runs.
+    /// </remarks>
+    /// <param name="request">The SQL execution request; MaxRows is ignored</param>
+    /// <param name="cancellationToken">Cancelled when the client aborts the export</param>
+    [HttpPost("execute-sql/stream")]
+    public async Task<IActionResult> StreamRawSQL([FromBody] SqlExecutionRequest request, CancellationToken cancellationToken)
+    {
+        var userId = GetCurrentUserId();
+
+        if (string.IsNullOrWhiteSpace(request.Sql))
+        {
+            return BadRequest(new { error = "SQL query is required" });
+        }
+
+        if (!request.Sql.Trim().StartsWith("SELECT", StringComparison.OrdinalIgnoreCase) ||
+            !await _streamingQueryService.ValidateSqlAsync(request.Sql))
+        {
+            return BadRequest(new { error = "Only SELECT statements are allowed" });
+        }
+
+        var options = BuildSqlExecutionOptions(request);
+        options.MaxRows = int.MaxValue;
+
+        _logger.LogInformation("Streaming raw SQL export for user {UserId}: {SQL}", userId, request.Sql.Substring(0, Math.Min(100, request.Sql.Length)));
+
+        Response.ContentType = "application/x-ndjson";
+        var rowCount = 0;
+        try
+        {
+            await foreach (var row in _streamingQueryService.ExecuteSelectQueryStreamingAsync(request.Sql, options, cancellationToken))
+            {
+                await System.Text.Json.JsonSerializer.SerializeAsync(Response.Body, row, cancellationToken: cancellationToken);
+                await Response.Body.WriteAsync(NdjsonLineBreak, cancellationToken);
+
+                if (++rowCount % 1000 == 0)
+                {
+                    await Response.Body.FlushAsync(cancellationToken);
+                }
+            }
+        }
+        catch (OperationCanceledException) when (cancellationToken.IsCancellationRequested)
+        {
+            _logger.LogInformation("Raw SQL export for user {UserId} cancelled after {RowCount} rows", userId, rowCount);
+            return new EmptyResult();
+        }
+        catch (Exception ex) when (rowCount == 0 && !Response.HasStarted)
+        {
+            _logger.LogError(ex, "Error streaming raw SQL");
+            return StatusCode(500, new { error = "Failed to execute SQL query", details = ex.Message });
+        }
+
+        _logger.LogInformation("Raw SQL export for user {UserId} completed - Rows: {RowCount}", userId, rowCount);
+        return new EmptyResult();
+    }
+
+    private static readonly byte[] NdjsonLineBreak = { (byte)'\n' };
+
+    /// <summary>
+    /// Parameters sent beside the SQL are bound along with any already in the options
+    /// </summary>
+    private static QueryOptions BuildSqlExecutionOptions(SqlExecutionRequest request)
+    {
+        var options = request.Options ?? new QueryOptions();
+        if (request.Parameters?.Count > 0)
+        {
+            options.Parameters = new Dictionary<string, object>(options.Parameters ?? new Dictionary<string, object>(), StringComparer.OrdinalIgnoreCase);
+            foreach (var (name, value) in request.Parameters)
+            {
+                options.Parameters[name] = value ?? DBNull.Value;
+            }
+        }
+        return options;
+    }
+
     #endregion
 
     #region Admin Operations
@@ -1413,6 +1498,79 @@ public class QueryController : ControllerBase
         return result;
     }
 
+    /// <summary>
+    /// Generates SQL with a model the user picked (a cheaper model from the cost
+    /// pre-flight, or the model a ProcessFlow replay compares against)
+    /// </summary>
+    private async Task<QueryProcessingResult> GenerateSqlWithModelAsync(
+        string question,
+        string modelId,
+        BIReportingCopilot.Core.Models.BusinessContext.BusinessContextProfile businessProfile,
+        string userId,
+        string? sessionId,
+        CancellationToken cancellationToken)
+    {
+        var stopwatch = Stopwatch.StartNew();
+        _logger.LogInformation("🤖 [ENHANCED] Generating SQL with preferred model {ModelId} for user {UserId}", modelId, userId);
+
+        var response = await _mediator.Send(new GenerateSqlCommand
+        {
+            Question = question,
+            Schema = await _schemaService.GetSchemaMetadataAsync(),
+            UserId = userId,
+            SessionId = sessionId ?? string.Empty,
+            ModelId = modelId.Trim(),
+            BusinessProfile = businessProfile
+        }, cancellationToken);
+
+        if (!response.Success)
+        {
+            throw new InvalidOperationException(response.Error ?? $"SQL generation with model {modelId} failed");
+        }
+
+        return new QueryProcessingResult
+        {
+            GeneratedSql = response.Sql,
+            ConfidenceScore = response.Confidence,
+            ProcessingTime = stopwatch.Elapsed
+        };
+    }
+
+    /// <summary>
+    /// Appends the meanings the user picked for ambiguous terms and the tables the
+    /// conversation is focused on to the question sent to the AI pipeline
+    /// </summary>
+    private static string BuildContextualQuestion(EnhancedQueryRequest request)
+    {
+        var notes = new List<string>();
+
+        var clarifications = (request.Clarifications ?? new List<TermClarification>())
+            .Where(c => !string.IsNullOrWhiteSpace(c.Term) && !string.IsNullOrWhiteSpace(c.Meaning))
+            .Select(c => $"\"{c.Term.Trim()}\" means {c.Meaning.Trim()}")
+            .ToList();
+        if (clarifications.Count > 0)
+        {
+            notes.Add($"In this question {string.Join("; ", clarifications)}.");
+        }
+
+        if (request.Context is { ValueKind: JsonValueKind.Object } context &&
+            context.TryGetProperty("selectedTables", out var tables) &&
+            tables.ValueKind == JsonValueKind.Array)
+        {
+            var tableNames = tables.EnumerateArray()
+                .Where(t => t.ValueKind == JsonValueKind.String)
+                .Select(t => t.GetString())
+                .Where(t => !string.IsNullOrWhiteSpace(t))
+                .ToList();
+            if (tableNames.Count > 0)
+            {
+                notes.Add($"The conversation so far used the tables {string.Join(", ", tableNames)}.");
+            }
+        }
+
+        return notes.Count == 0 ? request.Query : $"{request.Query}\n\n{string.Join("\n", notes)}";
+    }
+
     /// <summary>
     /// Create process flow trace for AI query processing - CONSOLIDATED INTEGRATION
     /// </summary>
@@ -1422,19 +1580,21 @@ public class QueryController : ControllerBase
         BIReportingCopilot.Core.Models.BusinessContext.BusinessContextProfile businessProfile,
         BIReportingCopilot.Infrastructure.BusinessContext.Enhanced.TokenBudget tokenBudget,
         string traceId,
-        string userId)
+        string userId,
+        string? sessionId = null)
     {
         try
         {
             _logger.LogInformation("🔍 [PROCESS-FLOW] Creating process flow trace {TraceId} for user {UserId}", traceId, userId);
 
             // Start process flow session using the ProcessFlowTracker
-            var sessionId = await _processFlowTracker.StartSessionAsync(
+            sessionId = await _processFlowTracker.StartSessionAsync(
                 userId,
                 userQuestion,
                 "enhanced",
                 conversationId: null,
-                messageId: traceId);
+                messageId: traceId,
+                sessionId: sessionId);
 
             // Track business context analysis step with full details
             await _processFlowTracker.TrackStepAsync(ProcessFlowSteps.SemanticAnalysis, async () => {
@@ -1753,6 +1913,35 @@ public class EnhancedQueryRequest
     public bool ExecuteQuery { get; set; } = true;
     public bool IncludeAlternatives { get; set; } = true;
     public bool IncludeSemanticAnalysis { get; set; } = true;
+    /// <summary>
+    /// Process flow session id the client has already subscribed to for live steps
+    /// </summary>
+    public string? SessionId { get; set; }
+    /// <summary>
+    /// Chat conversation the question was asked in
+    /// </summary>
+    public string? ConversationId { get; set; }
+    /// <summary>
+    /// The conversation's context (selected tables, filters, query history) as the chat keeps it
+    /// </summary>
+    public JsonElement? Context { get; set; }
+    /// <summary>
+    /// Meanings the user picked for ambiguous terms in the question
+    /// </summary>
+    public List<TermClarification>? Clarifications { get; set; }
+    /// <summary>
+    /// Model id to generate the SQL with instead of the configured default
+    /// </summary>
+    public string? PreferredModel { get; set; }
+}
+
+/// <summary>
+/// Meaning chosen for an ambiguous term
+/// </summary>
+public class TermClarification
+{
+    public string Term { get; set; } = string.Empty;
+    public string Meaning { get; set; } = string.Empty;
 }
 
 /// <summary>
@@ -1882,6 +2071,11 @@ public class SqlExecutionRequest
     public string Sql { get; set; } = string.Empty;
     public string? SessionId { get; set; }
     public QueryOptions? Options { get; set; }
+
+    /// <summary>
+    /// Values bound to @name placeholders in the SQL, keyed by name with or without the @
+    /// </summary>
+    public Dictionary<string, object?>? Parameters { get; set; }
 }
 
 /// <summary>
@@ -738,6 +738,77 @@ public class ResourceManagementController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Record a question sent past the chat's budget pre-flight warning or block
+    /// </summary>
+    [HttpPost("cost/budget-overrides")]
+    public async Task<IActionResult> RecordBudgetOverride([FromBody] BudgetOverrideRequest request)
+    {
+        if (string.IsNullOrWhiteSpace(request.BudgetId) || string.IsNullOrWhiteSpace(request.Reason))
+        {
+            return BadRequest(new { success = false, error = "A budget and a reason are required" });
+        }
+
+        if (request.Level != "warn" && request.Level != "block")
+        {
+            return BadRequest(new { success = false, error = "Level must be 'warn' or 'block'" });
+        }
+
+        try
+        {
+            var recorded = await _costManagementService.RecordBudgetOverrideAsync(new BudgetOverride
+            {
+                BudgetId = request.BudgetId,
+                UserId = GetCurrentUserId(),
+                QueryId = request.QueryId,
+                Query = request.Query,
+                EstimatedCost = request.EstimatedCost,
+                ProjectedUsagePercentage = request.ProjectedUsagePercentage,
+                Level = request.Level,
+                Reason = request.Reason.Trim()
+            });
+
+            return Ok(new
+            {
+                success = true,
+                @override = recorded
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error recording override of budget {BudgetId}", request.BudgetId);
+            return StatusCode(500, new { success = false, error = "Failed to record budget override" });
+        }
+    }
+
+    /// <summary>
+    /// Get budget pre-flight overrides (admin only)
+    /// </summary>
+    [HttpGet("cost/budget-overrides")]
+    [Authorize(Roles = "Admin")]
+    public async Task<IActionResult> GetBudgetOverrides(
+        [FromQuery] string? budgetId = null,
+        [FromQuery] DateTime? startDate = null,
+        [FromQuery] DateTime? endDate = null)
+    {
+        try
+        {
+            var overrides = await _costManagementService.GetBudgetOverridesAsync(budgetId, startDate, endDate);
+
+            return Ok(new
+            {
+                success = true,
+                overrides = overrides,
+                total = overrides.Count
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting budget overrides");
+            return StatusCode(500, new { success = false, error = "Failed to retrieve budget overrides" });
+        }
+    }
+
     /// <summary>
     /// Get cost optimization recommendations
     /// </summary>
@@ -829,6 +900,20 @@ public class CostPredictionRequest
     public ModelSelectionCriteria Criteria { get; set; } = new();
 }
 
+/// <summary>
+/// Request model for recording a budget pre-flight override
+/// </summary>
+public class BudgetOverrideRequest
+{
+    public string BudgetId { get; set; } = string.Empty;
+    public string QueryId { get; set; } = string.Empty;
+    public string Query { get; set; } = string.Empty;
+    public decimal EstimatedCost { get; set; }
+    public decimal ProjectedUsagePercentage { get; set; }
+    public string Level { get; set; } = string.Empty;
+    public string Reason { get; set; } = string.Empty;
+}
+
 /// <summary>
 /// Request model for checking quota
 /// </summary>
@@ -69,3 +69,31 @@ public class CreateBusinessGlossaryRequest
 
     public bool IsActive { get; set; } = true;
 }
+
+/// <summary>
+/// Typed link from a glossary term to another term, shown in the glossary graph
+/// </summary>
+public class GlossaryTermRelationshipDto
+{
+    public long Id { get; set; }
+    public long RelatedTermId { get; set; }
+    public string RelatedTermName { get; set; } = string.Empty;
+    public string RelationshipType { get; set; } = string.Empty; // synonym, antonym, broader, narrower, related, partOf, hasA
+    public string Description { get; set; } = string.Empty;
+}
+
+/// <summary>
+/// Create glossary term relationship request DTO
+/// </summary>
+public class CreateGlossaryRelationshipRequest
+{
+    [Required]
+    public long RelatedTermId { get; set; }
+
+    [Required]
+    [StringLength(20)]
+    public string RelationshipType { get; set; } = string.Empty;
+
+    [StringLength(500)]
+    public string Description { get; set; } = string.Empty;
+}
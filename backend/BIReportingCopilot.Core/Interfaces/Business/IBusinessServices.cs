@@ -50,6 +50,9 @@ public interface IGlossaryManagementService
     Task<bool> DeleteGlossaryTermAsync(long id, CancellationToken cancellationToken = default);
     Task<List<BusinessGlossaryDto>> SearchGlossaryTermsAsync(string searchTerm, CancellationToken cancellationToken = default);
     Task<BIReportingCopilot.Core.Models.GlossaryStatistics> GetGlossaryStatisticsAsync(CancellationToken cancellationToken = default);
+    Task<List<GlossaryTermRelationshipDto>> GetGlossaryRelationshipsAsync(long termId, CancellationToken cancellationToken = default);
+    Task<GlossaryTermRelationshipDto?> AddGlossaryRelationshipAsync(long termId, CreateGlossaryRelationshipRequest request, string userId, CancellationToken cancellationToken = default);
+    Task<bool> RemoveGlossaryRelationshipAsync(long termId, long relationshipId, string userId, CancellationToken cancellationToken = default);
 }
 
 /// <summary>
@@ -22,6 +22,8 @@ public interface ICostManagementService
     Task<bool> DeleteBudgetAsync(string budgetId, CancellationToken cancellationToken = default);
     Task<bool> CheckBudgetLimitAsync(string userId, decimal additionalCost, CancellationToken cancellationToken = default);
     Task<List<BudgetManagement>> GetBudgetsNearLimitAsync(decimal threshold = 0.8m, CancellationToken cancellationToken = default);
+    Task<BudgetOverride> RecordBudgetOverrideAsync(BudgetOverride budgetOverride, CancellationToken cancellationToken = default);
+    Task<List<BudgetOverride>> GetBudgetOverridesAsync(string? budgetId = null, DateTime? startDate = null, DateTime? endDate = null, CancellationToken cancellationToken = default);
 
     // Cost Prediction
     Task<CostPrediction> PredictCostAsync(string queryId, string userId, ModelSelectionCriteria criteria, CancellationToken cancellationToken = default);
@@ -50,6 +50,25 @@ public class BudgetManagement
     public DateTime UpdatedAt { get; set; } = DateTime.UtcNow;
 }
 
+/// <summary>
+/// A question the user sent although the chat's budget pre-flight warned about
+/// or blocked it, with the reason they gave
+/// </summary>
+public class BudgetOverride
+{
+    public string Id { get; set; } = string.Empty;
+    public string BudgetId { get; set; } = string.Empty;
+    public string? BudgetName { get; set; }
+    public string UserId { get; set; } = string.Empty;
+    public string QueryId { get; set; } = string.Empty;
+    public string Query { get; set; } = string.Empty;
+    public decimal EstimatedCost { get; set; }
+    public decimal ProjectedUsagePercentage { get; set; }
+    public string Level { get; set; } = string.Empty; // warn, block
+    public string Reason { get; set; } = string.Empty;
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+}
+
 /// <summary>
 /// Budget period enumeration
 /// </summary>
@@ -1,6 +1,9 @@
+using Microsoft.AspNetCore.SignalR;
 using Microsoft.Extensions.Logging;
+using BIReportingCopilot.Core.DTOs;
 using BIReportingCopilot.Core.Interfaces.Services;
 using BIReportingCopilot.Core.Models.ProcessFlow;
+using BIReportingCopilot.Infrastructure.Hubs;
 using System.Text.Json;
 
 namespace BIReportingCopilot.Infrastructure.AI.Core;
@@ -12,22 +15,27 @@ public class ProcessFlowTracker
 {
     private readonly IProcessFlowService _processFlowService;
     private readonly ILogger<ProcessFlowTracker> _logger;
+    private readonly IHubContext<TransparencyHub>? _hubContext;
+    private readonly Dictionary<string, DateTime> _stepStartTimes = new();
     private string? _currentSessionId;
     private string? _currentUserId;
 
-    public ProcessFlowTracker(IProcessFlowService processFlowService, ILogger<ProcessFlowTracker> logger)
+    public ProcessFlowTracker(IProcessFlowService processFlowService, ILogger<ProcessFlowTracker> logger, IHubContext<TransparencyHub>? hubContext = null)
     {
         _processFlowService = processFlowService;
         _logger = logger;
+        _hubContext = hubContext;
     }
 
     /// <summary>
-    /// Start tracking a new process flow session
+    /// Start tracking a new process flow session. Pass the id the client is
+    /// already subscribed to so it receives the steps live.
     /// </summary>
-    public async Task<string> StartSessionAsync(string userId, string query, string queryType = "enhanced", string? conversationId = null, string? messageId = null)
+    public async Task<string> StartSessionAsync(string userId, string query, string queryType = "enhanced", string? conversationId = null, string? messageId = null, string? sessionId = null)
     {
-        _currentSessionId = $"session-{DateTime.UtcNow:yyyyMMdd-HHmmss}-{Guid.NewGuid().ToString("N")[..8]}";
+        _currentSessionId = sessionId ?? $"session-{DateTime.UtcNow:yyyyMMdd-HHmmss}-{Guid.NewGuid().ToString("N")[..8]}";
         _currentUserId = userId;
+        _stepStartTimes.Clear();
 
         await _processFlowService.StartSessionAsync(_currentSessionId, userId, query, queryType, conversationId, messageId);
 
@@ -60,6 +68,7 @@ public class ProcessFlowTracker
             Status = ProcessFlowStatus.Running,
             StartTime = DateTime.UtcNow
         };
+        _stepStartTimes[stepId] = stepUpdate.StartTime.Value;
 
         await _processFlowService.AddOrUpdateStepAsync(_currentSessionId, stepUpdate);
         await LogAsync(stepId, ProcessFlowLogLevel.Info, $"Step {stepDefinition.Name} started", source: "ProcessFlowTracker");
@@ -92,6 +101,7 @@ public class ProcessFlowTracker
 
         var stepDefinition = ProcessFlowStepDefinitions.Steps.GetValueOrDefault(stepId);
         await LogAsync(stepId, ProcessFlowLogLevel.Info, $"Step {stepDefinition?.Name ?? stepId} completed successfully", source: "ProcessFlowTracker");
+        await BroadcastStepAsync(stepId, success: true, confidence);
 
         _logger.LogDebug("✅ [PROCESS-FLOW-TRACKER] Completed step {StepId}", stepId);
     }
@@ -112,6 +122,7 @@ public class ProcessFlowTracker
         }) : null;
 
         await LogAsync(stepId, ProcessFlowLogLevel.Error, $"Step failed: {errorMessage}", details, "ProcessFlowTracker");
+        await BroadcastStepAsync(stepId, success: false, confidence: null, errorMessage);
 
         _logger.LogError("❌ [PROCESS-FLOW-TRACKER] Step {StepId} failed: {ErrorMessage}", stepId, errorMessage);
     }
@@ -210,12 +221,64 @@ public class ProcessFlowTracker
         }
 
         await _processFlowService.CompleteSessionAsync(_currentSessionId, completion);
+        var sessionId = _currentSessionId;
+        await BroadcastAsync(hubContext => TransparencyHub.SendTraceCompleted(hubContext, sessionId, new TransparencyTraceDto
+        {
+            TraceId = sessionId,
+            UserId = _currentUserId ?? string.Empty,
+            UserQuestion = session?.Query ?? string.Empty,
+            OverallConfidence = (double)(overallConfidence ?? 0),
+            Success = status == ProcessFlowStatus.Completed,
+            CreatedAt = session?.StartTime ?? completion.EndTime
+        }));
 
         _logger.LogInformation("🏁 [PROCESS-FLOW-TRACKER] Session {SessionId} completed with status {Status}", _currentSessionId, status);
 
         // Reset current session
         _currentSessionId = null;
         _currentUserId = null;
+        _stepStartTimes.Clear();
+    }
+
+    /// <summary>
+    /// Push a finished step to viewers subscribed to the session's trace
+    /// </summary>
+    private Task BroadcastStepAsync(string stepId, bool success, decimal? confidence, string? errorMessage = null)
+    {
+        var stepDefinition = ProcessFlowStepDefinitions.Steps.GetValueOrDefault(stepId);
+        var endTime = DateTime.UtcNow;
+        var step = new PromptConstructionStepDto
+        {
+            Id = stepId,
+            StepName = stepDefinition?.Name ?? stepId,
+            StepOrder = stepDefinition?.Order ?? 0,
+            StartTime = _stepStartTimes.GetValueOrDefault(stepId, endTime),
+            EndTime = endTime,
+            Success = success,
+            Confidence = (double)(confidence ?? 0)
+        };
+        if (errorMessage != null)
+        {
+            step.Details["error"] = errorMessage;
+        }
+
+        var sessionId = _currentSessionId!;
+        return BroadcastAsync(hubContext => TransparencyHub.SendStepCompleted(hubContext, sessionId, step));
+    }
+
+    private async Task BroadcastAsync(Func<IHubContext<TransparencyHub>, Task> send)
+    {
+        if (_hubContext == null) return;
+
+        try
+        {
+            await send(_hubContext);
+        }
+        catch (Exception ex)
+        {
+            // Live updates are best effort; the session is persisted either way
+            _logger.LogWarning(ex, "⚠️ [PROCESS-FLOW-TRACKER] Failed to broadcast update for session {SessionId}", _currentSessionId);
+        }
     }
 
     /// <summary>
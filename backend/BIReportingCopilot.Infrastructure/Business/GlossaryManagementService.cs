@@ -273,6 +273,109 @@ public class GlossaryManagementService : IGlossaryManagementService
 
     #endregion
 
+    #region Relationship Operations
+
+    public async Task<List<GlossaryTermRelationshipDto>> GetGlossaryRelationshipsAsync(long termId, CancellationToken cancellationToken = default)
+    {
+        try
+        {
+            return await _context.BusinessGlossaryRelationships
+                .Where(r => r.TermId == termId && r.RelatedTerm.IsActive)
+                .OrderBy(r => r.Id)
+                .Select(r => new GlossaryTermRelationshipDto
+                {
+                    Id = r.Id,
+                    RelatedTermId = r.RelatedTermId,
+                    RelatedTermName = r.RelatedTerm.Term,
+                    RelationshipType = r.RelationshipType,
+                    Description = r.Description
+                })
+                .ToListAsync(cancellationToken);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting relationships of glossary term {TermId}", termId);
+            throw;
+        }
+    }
+
+    public async Task<GlossaryTermRelationshipDto?> AddGlossaryRelationshipAsync(long termId, CreateGlossaryRelationshipRequest request, string userId, CancellationToken cancellationToken = default)
+    {
+        try
+        {
+            var term = await _context.BusinessGlossary
+                .FirstOrDefaultAsync(g => g.Id == termId && g.IsActive, cancellationToken);
+            var related = await _context.BusinessGlossary
+                .FirstOrDefaultAsync(g => g.Id == request.RelatedTermId && g.IsActive, cancellationToken);
+
+            if (term == null || related == null)
+                return null;
+
+            var entity = await _context.BusinessGlossaryRelationships
+                .FirstOrDefaultAsync(r => r.TermId == termId
+                    && r.RelatedTermId == related.Id
+                    && r.RelationshipType == request.RelationshipType, cancellationToken);
+
+            if (entity == null)
+            {
+                entity = new BusinessGlossaryRelationshipEntity
+                {
+                    TermId = termId,
+                    RelatedTermId = related.Id,
+                    RelationshipType = request.RelationshipType,
+                    Description = request.Description,
+                    CreatedBy = userId,
+                    CreatedDate = DateTime.UtcNow
+                };
+                _context.BusinessGlossaryRelationships.Add(entity);
+                await _context.SaveChangesAsync(cancellationToken);
+
+                _logger.LogInformation("Linked glossary term {Term} to {RelatedTerm} as {RelationshipType}",
+                    term.Term, related.Term, request.RelationshipType);
+            }
+
+            return new GlossaryTermRelationshipDto
+            {
+                Id = entity.Id,
+                RelatedTermId = related.Id,
+                RelatedTermName = related.Term,
+                RelationshipType = entity.RelationshipType,
+                Description = entity.Description
+            };
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error adding relationship to glossary term {TermId}", termId);
+            throw;
+        }
+    }
+
+    public async Task<bool> RemoveGlossaryRelationshipAsync(long termId, long relationshipId, string userId, CancellationToken cancellationToken = default)
+    {
+        try
+        {
+            var entity = await _context.BusinessGlossaryRelationships
+                .FirstOrDefaultAsync(r => r.Id == relationshipId && r.TermId == termId, cancellationToken);
+
+            if (entity == null)
+                return false;
+
+            _context.BusinessGlossaryRelationships.Remove(entity);
+            await _context.SaveChangesAsync(cancellationToken);
+
+            _logger.LogInformation("Removed relationship {RelationshipId} from glossary term {TermId} by user {UserId}",
+                relationshipId, termId, userId);
+            return true;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error removing relationship {RelationshipId} from glossary term {TermId}", relationshipId, termId);
+            throw;
+        }
+    }
+
+    #endregion
+
     #region Helper Methods
 
     private static BusinessGlossaryDto MapGlossaryToDto(BusinessGlossaryEntity entity)
@@ -385,6 +385,86 @@ public class CostManagementService : ICostManagementService
         }
     }
 
+    public async Task<BudgetOverride> RecordBudgetOverrideAsync(BudgetOverride budgetOverride, CancellationToken cancellationToken = default)
+    {
+        try
+        {
+            var entity = new BudgetOverrideEntity
+            {
+                BudgetId = budgetOverride.BudgetId,
+                UserId = budgetOverride.UserId,
+                QueryId = budgetOverride.QueryId,
+                Query = budgetOverride.Query,
+                EstimatedCost = budgetOverride.EstimatedCost,
+                ProjectedUsagePercentage = budgetOverride.ProjectedUsagePercentage,
+                Level = budgetOverride.Level,
+                Reason = budgetOverride.Reason,
+                CreatedDate = DateTime.UtcNow,
+                CreatedBy = budgetOverride.UserId
+            };
+
+            _context.BudgetOverrides.Add(entity);
+            await _context.SaveChangesAsync(cancellationToken);
+
+            budgetOverride.Id = entity.Id.ToString();
+            budgetOverride.CreatedAt = entity.CreatedDate;
+
+            _logger.LogInformation("User {UserId} overrode budget {BudgetId} pre-flight ({Level}): {Reason}",
+                budgetOverride.UserId, budgetOverride.BudgetId, budgetOverride.Level, budgetOverride.Reason);
+
+            return budgetOverride;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error recording override of budget {BudgetId}", budgetOverride.BudgetId);
+            throw;
+        }
+    }
+
+    public async Task<List<BudgetOverride>> GetBudgetOverridesAsync(string? budgetId = null, DateTime? startDate = null, DateTime? endDate = null, CancellationToken cancellationToken = default)
+    {
+        try
+        {
+            var query = _context.BudgetOverrides.AsQueryable();
+
+            if (!string.IsNullOrEmpty(budgetId))
+                query = query.Where(o => o.BudgetId == budgetId);
+
+            if (startDate.HasValue)
+                query = query.Where(o => o.CreatedDate >= startDate.Value);
+
+            if (endDate.HasValue)
+                query = query.Where(o => o.CreatedDate <= endDate.Value);
+
+            var entities = await query
+                .OrderByDescending(o => o.CreatedDate)
+                .ToListAsync(cancellationToken);
+
+            var budgetNames = await _context.BudgetManagement
+                .ToDictionaryAsync(b => b.Id.ToString(), b => b.Name, cancellationToken);
+
+            return entities.Select(entity => new BudgetOverride
+            {
+                Id = entity.Id.ToString(),
+                BudgetId = entity.BudgetId,
+                BudgetName = budgetNames.GetValueOrDefault(entity.BudgetId),
+                UserId = entity.UserId,
+                QueryId = entity.QueryId,
+                Query = entity.Query,
+                EstimatedCost = entity.EstimatedCost,
+                ProjectedUsagePercentage = entity.ProjectedUsagePercentage,
+                Level = entity.Level,
+                Reason = entity.Reason,
+                CreatedAt = entity.CreatedDate
+            }).ToList();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting budget overrides for {BudgetId}", budgetId);
+            return new List<BudgetOverride>();
+        }
+    }
+
     #endregion
 
     #region Cost Prediction
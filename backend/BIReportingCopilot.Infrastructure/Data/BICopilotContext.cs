@@ -49,6 +49,7 @@ public class BICopilotContext : DbContext
     public DbSet<BusinessColumnInfoEntity> BusinessColumnInfo { get; set; }
     public DbSet<QueryPatternEntity> QueryPatterns { get; set; }
     public DbSet<BusinessGlossaryEntity> BusinessGlossary { get; set; }
+    public DbSet<BusinessGlossaryRelationshipEntity> BusinessGlossaryRelationships { get; set; }
 
     // Enhanced semantic layer entities
     public DbSet<SemanticSchemaMappingEntity> SemanticSchemaMappings { get; set; }
@@ -83,6 +84,7 @@ public class BICopilotContext : DbContext
     // Cost Control and Optimization entities
     public DbSet<Entities.CostTrackingEntity> CostTracking { get; set; }
     public DbSet<Entities.BudgetManagementEntity> BudgetManagement { get; set; }
+    public DbSet<Entities.BudgetOverrideEntity> BudgetOverrides { get; set; }
     public DbSet<Entities.ResourceUsageEntity> ResourceUsage { get; set; }
     public DbSet<Entities.PerformanceMetricsEntity> PerformanceMetricsEntries { get; set; }
     public DbSet<Entities.CacheStatisticsEntity> CacheStatistics { get; set; }
@@ -413,6 +415,22 @@ public class BICopilotContext : DbContext
                 .HasDatabaseName("IX_BusinessGlossary_Category");
         });
 
+        modelBuilder.Entity<BusinessGlossaryRelationshipEntity>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.HasIndex(e => new { e.TermId, e.RelatedTermId, e.RelationshipType })
+                .HasDatabaseName("IX_BusinessGlossaryRelationships_Term_Related_Type")
+                .IsUnique();
+            entity.HasOne<BusinessGlossaryEntity>()
+                .WithMany()
+                .HasForeignKey(e => e.TermId)
+                .OnDelete(DeleteBehavior.Cascade);
+            entity.HasOne(e => e.RelatedTerm)
+                .WithMany()
+                .HasForeignKey(e => e.RelatedTermId)
+                .OnDelete(DeleteBehavior.NoAction);
+        });
+
         // AITuningSettings indexes
         modelBuilder.Entity<AITuningSettingsEntity>(entity =>
         {
@@ -893,6 +911,21 @@ Return only the SQL query without any explanation or markdown formatting.",
             entity.Property(e => e.AlertThreshold).HasPrecision(5, 2);
         });
 
+        modelBuilder.Entity<Entities.BudgetOverrideEntity>(entity =>
+        {
+            entity.ToTable("LLMBudgetOverrides");
+            entity.HasKey(e => e.Id);
+            entity.HasIndex(e => new { e.BudgetId, e.CreatedDate });
+            entity.Property(e => e.BudgetId).IsRequired().HasMaxLength(256);
+            entity.Property(e => e.UserId).IsRequired().HasMaxLength(256);
+            entity.Property(e => e.QueryId).HasMaxLength(256);
+            entity.Property(e => e.Query).IsRequired().HasColumnType("nvarchar(max)");
+            entity.Property(e => e.EstimatedCost).HasPrecision(18, 8);
+            entity.Property(e => e.ProjectedUsagePercentage).HasPrecision(9, 2);
+            entity.Property(e => e.Level).IsRequired().HasMaxLength(10);
+            entity.Property(e => e.Reason).IsRequired().HasMaxLength(1000);
+        });
+
         // Configure other cost management entities with appropriate table mappings
         modelBuilder.Entity<Entities.ResourceUsageEntity>(entity =>
         {
@@ -96,6 +96,43 @@ public class BudgetManagementEntity : BaseEntity
     public bool IsActive { get; set; } = true;
 }
 
+/// <summary>
+/// A question sent past the chat's budget pre-flight warning or block
+/// </summary>
+public class BudgetOverrideEntity : BaseEntity
+{
+    [Key]
+    public long Id { get; set; }
+
+    [Required]
+    [MaxLength(256)]
+    public string BudgetId { get; set; } = string.Empty;
+
+    [Required]
+    [MaxLength(256)]
+    public string UserId { get; set; } = string.Empty;
+
+    [MaxLength(256)]
+    public string QueryId { get; set; } = string.Empty;
+
+    [Required]
+    public string Query { get; set; } = string.Empty;
+
+    [Column(TypeName = "decimal(18,8)")]
+    public decimal EstimatedCost { get; set; }
+
+    [Column(TypeName = "decimal(9,2)")]
+    public decimal ProjectedUsagePercentage { get; set; }
+
+    [Required]
+    [MaxLength(10)]
+    public string Level { get; set; } = string.Empty; // warn, block
+
+    [Required]
+    [MaxLength(1000)]
+    public string Reason { get; set; } = string.Empty;
+}
+
 /// <summary>
 /// Resource usage tracking entity
 /// </summary>
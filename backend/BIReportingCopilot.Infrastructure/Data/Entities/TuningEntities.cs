@@ -342,6 +342,30 @@ public class BusinessGlossaryEntity : BaseEntity
     }
 }
 
+/// <summary>
+/// Typed link between two glossary terms (synonym, broader, partOf, ...)
+/// </summary>
+[Table("BusinessGlossaryRelationships")]
+public class BusinessGlossaryRelationshipEntity : BaseEntity
+{
+    [Key]
+    public long Id { get; set; }
+
+    public long TermId { get; set; }
+
+    public long RelatedTermId { get; set; }
+
+    [Required]
+    [MaxLength(20)]
+    public string RelationshipType { get; set; } = string.Empty; // synonym, antonym, broader, narrower, related, partOf, hasA
+
+    [MaxLength(500)]
+    public string Description { get; set; } = string.Empty;
+
+    [ForeignKey(nameof(RelatedTermId))]
+    public virtual BusinessGlossaryEntity RelatedTerm { get; set; } = null!;
+}
+
 [Table("AITuningSettings")]
 public class AITuningSettingsEntity : BaseEntity
 {
@@ -92,6 +92,33 @@ BEGIN
     PRINT '✅ BusinessGlossary table already exists';
 END
 
+-- Create BusinessGlossaryRelationships table if it doesn't exist
+IF NOT EXISTS (SELECT * FROM sys.objects WHERE object_id = OBJECT_ID(N'[dbo].[BusinessGlossaryRelationships]') AND type in (N'U'))
+BEGIN
+    PRINT 'Creating BusinessGlossaryRelationships table...';
+    CREATE TABLE [dbo].[BusinessGlossaryRelationships] (
+        [Id] bigint IDENTITY(1,1) NOT NULL,
+        [TermId] bigint NOT NULL,
+        [RelatedTermId] bigint NOT NULL,
+        [RelationshipType] nvarchar(20) NOT NULL,
+        [Description] nvarchar(500) NULL,
+        [CreatedDate] datetime2 NOT NULL DEFAULT GETUTCDATE(),
+        [UpdatedDate] datetime2 NULL,
+        [CreatedBy] nvarchar(256) NULL,
+        [UpdatedBy] nvarchar(256) NULL,
+        CONSTRAINT [PK_BusinessGlossaryRelationships] PRIMARY KEY CLUSTERED ([Id] ASC),
+        CONSTRAINT [FK_BusinessGlossaryRelationships_Term] FOREIGN KEY ([TermId]) REFERENCES [dbo].[BusinessGlossary] ([Id]) ON DELETE CASCADE,
+        CONSTRAINT [FK_BusinessGlossaryRelationships_RelatedTerm] FOREIGN KEY ([RelatedTermId]) REFERENCES [dbo].[BusinessGlossary] ([Id])
+    );
+    CREATE UNIQUE NONCLUSTERED INDEX [IX_BusinessGlossaryRelationships_Term_Related_Type]
+        ON [dbo].[BusinessGlossaryRelationships] ([TermId] ASC, [RelatedTermId] ASC, [RelationshipType] ASC);
+    PRINT '✅ BusinessGlossaryRelationships table created';
+END
+ELSE
+BEGIN
+    PRINT '✅ BusinessGlossaryRelationships table already exists';
+END
+
 -- Create SchemaMetadata table if it doesn't exist
 IF NOT EXISTS (SELECT * FROM sys.objects WHERE object_id = OBJECT_ID(N'[dbo].[SchemaMetadata]') AND type in (N'U'))
 BEGIN
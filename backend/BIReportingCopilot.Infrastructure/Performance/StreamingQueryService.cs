@@ -106,6 +106,15 @@ public class StreamingQueryResult : IAsyncEnumerable<Dictionary<string, object>>
             CommandTimeout = _options.TimeoutSeconds
         };
 
+        if (_options.Parameters != null)
+        {
+            foreach (var (name, value) in _options.Parameters)
+            {
+                var parameterName = name.StartsWith('@') ? name : "@" + name;
+                command.Parameters.AddWithValue(parameterName, Query.SqlQueryService.ToParameterValue(value));
+            }
+        }
+
         using var reader = await command.ExecuteReaderAsync(
             CommandBehavior.SequentialAccess,
             cancellationToken);
@@ -341,6 +341,15 @@ public class SqlQueryService : ISqlQueryService
         using var command = new SqlCommand(sql, connection);
         command.CommandTimeout = options?.TimeoutSeconds ?? 30;
 
+        if (options?.Parameters != null)
+        {
+            foreach (var (name, value) in options.Parameters)
+            {
+                var parameterName = name.StartsWith('@') ? name : "@" + name;
+                command.Parameters.AddWithValue(parameterName, ToParameterValue(value));
+            }
+        }
+
         using var reader = await command.ExecuteReaderAsync(cancellationToken);
 
         var columns = new List<ColumnMetadata>();
@@ -403,6 +412,29 @@ public class SqlQueryService : ISqlQueryService
         return result;
     }
 
+    /// <summary>
+    /// Parameter values from request bodies arrive as JsonElement, which SqlClient cannot bind
+    /// </summary>
+    internal static object ToParameterValue(object? value)
+    {
+        if (value is not JsonElement element)
+        {
+            return value ?? DBNull.Value;
+        }
+
+        return element.ValueKind switch
+        {
+            JsonValueKind.String => element.GetString() ?? (object)DBNull.Value,
+            JsonValueKind.Number when element.TryGetInt64(out var integer) => integer,
+            JsonValueKind.Number when element.TryGetDecimal(out var number) => number,
+            JsonValueKind.Number => element.GetDouble(),
+            JsonValueKind.True => true,
+            JsonValueKind.False => false,
+            JsonValueKind.Null or JsonValueKind.Undefined => DBNull.Value,
+            _ => element.GetRawText()
+        };
+    }
+
     private async Task LogQueryPerformanceAsync(string sql, QueryResult result, long executionTimeMs)
     {
         try
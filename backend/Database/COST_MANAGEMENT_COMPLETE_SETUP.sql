@@ -89,6 +89,33 @@ BEGIN TRY
     ELSE
         PRINT 'LLMBudgetManagement table already exists';
 
+    -- Questions sent past the chat's budget pre-flight, for admin review
+    IF NOT EXISTS (SELECT * FROM sys.objects WHERE object_id = OBJECT_ID(N'[dbo].[LLMBudgetOverrides]') AND type in (N'U'))
+    BEGIN
+        CREATE TABLE [dbo].[LLMBudgetOverrides] (
+            [Id] BIGINT IDENTITY(1,1) NOT NULL,
+            [BudgetId] NVARCHAR(256) NOT NULL,
+            [UserId] NVARCHAR(256) NOT NULL,
+            [QueryId] NVARCHAR(256) NULL,
+            [Query] NVARCHAR(MAX) NOT NULL,
+            [EstimatedCost] DECIMAL(18,8) NOT NULL DEFAULT 0,
+            [ProjectedUsagePercentage] DECIMAL(9,2) NOT NULL DEFAULT 0,
+            [Level] NVARCHAR(10) NOT NULL,
+            [Reason] NVARCHAR(1000) NOT NULL,
+            [CreatedDate] DATETIME2(7) NOT NULL DEFAULT GETUTCDATE(),
+            [UpdatedDate] DATETIME2(7) NULL,
+            [CreatedBy] NVARCHAR(256) NULL,
+            [UpdatedBy] NVARCHAR(256) NULL,
+            CONSTRAINT [PK_LLMBudgetOverrides] PRIMARY KEY CLUSTERED ([Id] ASC)
+        );
+
+        CREATE NONCLUSTERED INDEX [IX_LLMBudgetOverrides_BudgetId_CreatedDate] ON [dbo].[LLMBudgetOverrides] ([BudgetId] ASC, [CreatedDate] DESC);
+
+        PRINT 'Created LLMBudgetOverrides table with indexes';
+    END
+    ELSE
+        PRINT 'LLMBudgetOverrides table already exists';
+
     -- =====================================================
     -- 3. Resource Usage Table
     -- =====================================================
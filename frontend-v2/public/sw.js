@@ -199,22 +199,37 @@ self.addEventListener('sync', (event) => {
   }
 })
 
-// Sync offline queries when back online
+// Sync offline queries when back online. The questions are queued in
+// IndexedDB by the app, which sends them with the user's session; the worker
+// asks an open window to do that and keeps the sync pending (so the browser
+// retries it later) until the window reports the queue is empty.
 async function syncOfflineQueries() {
-  try {
-    const clients = await self.clients.matchAll()
-    
-    clients.forEach(client => {
-      client.postMessage({
-        type: 'SYNC_OFFLINE_QUERIES',
-        timestamp: Date.now()
-      })
-    })
-    
-    console.log('[SW] Offline queries sync completed')
-  } catch (error) {
-    console.error('[SW] Failed to sync offline queries:', error)
+  const clients = await self.clients.matchAll({ type: 'window' })
+
+  if (clients.length === 0) {
+    throw new Error('No open window to send queued questions')
   }
+
+  const remaining = await new Promise((resolve, reject) => {
+    const channel = new MessageChannel()
+    const timeout = setTimeout(() => reject(new Error('Timed out waiting for queued questions to send')), 60000)
+
+    channel.port1.onmessage = (event) => {
+      clearTimeout(timeout)
+      resolve(event.data && typeof event.data.remaining === 'number' ? event.data.remaining : 0)
+    }
+
+    clients[0].postMessage({
+      type: 'SYNC_OFFLINE_QUERIES',
+      timestamp: Date.now()
+    }, [channel.port2])
+  })
+
+  if (remaining > 0) {
+    throw new Error(`${remaining} queued questions still to send`)
+  }
+
+  console.log('[SW] Offline queries sync completed')
 }
 
 // Sync offline analytics when back online
@@ -44,6 +44,7 @@ import {
   type UpdateGlossaryTermRequest,
 } from '@shared/store/api/businessApi'
 import type { ColumnsType } from 'antd/es/table'
+import { GlossaryGraphExplorer } from './GlossaryGraphExplorer'
 
 const { Text, Title } = Typography
 const { TextArea } = Input
@@ -541,24 +542,7 @@ export const EnhancedBusinessGlossary: React.FC = () => {
           key="relationships"
         >
           <Card title="Term Relationships">
-            {selectedTerm ? (
-              <div>
-                <Title level={5}>{selectedTerm.term}</Title>
-                <Text>{selectedTerm.definition}</Text>
-                {/* Relationship visualization would go here */}
-                <div style={{ marginTop: 16, textAlign: 'center', padding: 40 }}>
-                  <Text type="secondary">
-                    Relationship visualization component would be implemented here
-                  </Text>
-                </div>
-              </div>
-            ) : (
-              <div style={{ textAlign: 'center', padding: 40 }}>
-                <Text type="secondary">
-                  Select a term from the list to view its relationships
-                </Text>
-              </div>
-            )}
+            <GlossaryGraphExplorer {...(selectedTerm && { focusTermId: selectedTerm.id })} />
           </Card>
         </TabPane>
       </Tabs>
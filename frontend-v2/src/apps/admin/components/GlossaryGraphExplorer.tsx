@@ -0,0 +1,635 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import * as d3 from 'd3'
+import {
+  Alert,
+  Button,
+  Card,
+  Checkbox,
+  Col,
+  Descriptions,
+  Empty,
+  Input,
+  InputNumber,
+  Modal,
+  Row,
+  Segmented,
+  Select,
+  Space,
+  Spin,
+  Switch,
+  Tag,
+  Typography,
+  message,
+} from 'antd'
+import {
+  AimOutlined,
+  ApartmentOutlined,
+  DeploymentUnitOutlined,
+  NodeExpandOutlined,
+  SwapRightOutlined,
+} from '@ant-design/icons'
+import {
+  useGetEnhancedBusinessGlossaryQuery,
+  useGetEnhancedBusinessDomainsQuery,
+  useCreateGlossaryTermRelationshipMutation,
+  useDeleteGlossaryTermRelationshipMutation,
+} from '@shared/store/api/businessApi'
+import {
+  TERM_RELATIONSHIP_TYPES,
+  buildGlossaryGraph,
+  describePathStep,
+  filterGlossaryGraph,
+  findGlossaryPath,
+  glossaryLayers,
+  neighbourhood,
+  termNodeId,
+  type GlossaryEdgeType,
+  type GlossaryGraphEdge,
+  type GlossaryGraphNode,
+  type GlossaryNodeKind,
+  type TermRelationshipType,
+} from '@shared/utils/glossaryGraph'
+
+const { Text } = Typography
+
+// The graph needs the whole glossary, not the page the list shows
+const GRAPH_PAGE_SIZE = 1000
+const GRAPH_HEIGHT = 560
+const LAYER_SPACING = 110
+
+const NODE_KINDS: { value: GlossaryNodeKind; label: string; color: string; radius: number }[] = [
+  { value: 'term', label: 'Terms', color: '#1890ff', radius: 12 },
+  { value: 'domain', label: 'Domains', color: '#722ed1', radius: 16 },
+  { value: 'table', label: 'Tables', color: '#13c2c2', radius: 10 },
+  { value: 'column', label: 'Columns', color: '#8c8c8c', radius: 7 },
+]
+
+const EDGE_TYPES: { value: GlossaryEdgeType; label: string; color: string }[] = [
+  { value: 'synonym', label: 'Synonym', color: '#52c41a' },
+  { value: 'antonym', label: 'Antonym', color: '#ff4d4f' },
+  { value: 'broader', label: 'Broader', color: '#fa8c16' },
+  { value: 'narrower', label: 'Narrower', color: '#faad14' },
+  { value: 'related', label: 'Related', color: '#1890ff' },
+  { value: 'partOf', label: 'Part of', color: '#eb2f96' },
+  { value: 'hasA', label: 'Has a', color: '#c41d7f' },
+  { value: 'hierarchy', label: 'Hierarchy', color: '#d48806' },
+  { value: 'inDomain', label: 'In domain', color: '#b37feb' },
+  { value: 'subDomainOf', label: 'Sub-domain', color: '#722ed1' },
+  { value: 'mapsToTable', label: 'Mapped table', color: '#13c2c2' },
+  { value: 'mapsToColumn', label: 'Mapped column', color: '#5cdbd3' },
+  { value: 'columnOf', label: 'Column of', color: '#bfbfbf' },
+]
+
+// Drawn as arrows; the rest read the same both ways
+const DIRECTED_TYPES = new Set<GlossaryEdgeType>(['broader', 'narrower', 'partOf', 'hasA', 'inDomain', 'subDomainOf', 'mapsToTable', 'mapsToColumn', 'columnOf'])
+
+const kindStyle = (kind: GlossaryNodeKind) => NODE_KINDS.find(option => option.value === kind)!
+const edgeColor = (type: GlossaryEdgeType) => EDGE_TYPES.find(option => option.value === type)?.color ?? '#d9d9d9'
+
+type Layout = 'force' | 'layered'
+
+interface SimNode extends d3.SimulationNodeDatum {
+  id: string
+  node: GlossaryGraphNode
+}
+
+interface SimLink extends d3.SimulationLinkDatum<SimNode> {
+  edge: GlossaryGraphEdge
+}
+
+interface PendingLink {
+  source: GlossaryGraphNode
+  target: GlossaryGraphNode
+}
+
+interface GlossaryGraphExplorerProps {
+  // Term to centre the graph on, e.g. the one picked in the list
+  focusTermId?: number
+}
+
+/**
+ * GlossaryGraphExplorer - Knowledge graph of glossary terms, their domains
+ * and the tables and columns they map to. Finds how two nodes are connected,
+ * expands neighbourhoods on demand and, in edit mode, creates relationships
+ * by dragging from one term to another.
+ */
+export const GlossaryGraphExplorer: React.FC<GlossaryGraphExplorerProps> = ({ focusTermId }) => {
+  const svgRef = useRef<SVGSVGElement>(null)
+  // Positions survive re-renders so the graph doesn't jump when it changes
+  const positionsRef = useRef(new Map<string, { x: number; y: number }>())
+
+  const [layout, setLayout] = useState<Layout>('force')
+  const [edgeTypes, setEdgeTypes] = useState<GlossaryEdgeType[]>(EDGE_TYPES.map(option => option.value))
+  const [nodeKinds, setNodeKinds] = useState<GlossaryNodeKind[]>(['term', 'domain', 'table'])
+  const [focus, setFocus] = useState<string>()
+  const [expanded, setExpanded] = useState<string[]>([])
+  const [depth, setDepth] = useState(2)
+  const [selectedId, setSelectedId] = useState<string>()
+  const [pathFrom, setPathFrom] = useState<string>()
+  const [pathTo, setPathTo] = useState<string>()
+  const [isEditing, setIsEditing] = useState(false)
+  const [pendingLink, setPendingLink] = useState<PendingLink | null>(null)
+  const [linkType, setLinkType] = useState<TermRelationshipType>('related')
+  const [linkDescription, setLinkDescription] = useState('')
+
+  const { data: glossaryData, isLoading: isLoadingTerms } = useGetEnhancedBusinessGlossaryQuery({
+    page: 1,
+    pageSize: GRAPH_PAGE_SIZE,
+    includeRelationships: true,
+  })
+  const { data: domainsData, isLoading: isLoadingDomains } = useGetEnhancedBusinessDomainsQuery({
+    pageSize: GRAPH_PAGE_SIZE,
+    includeSubDomains: true,
+  })
+  const [createRelationship, { isLoading: isCreating }] = useCreateGlossaryTermRelationshipMutation()
+  const [deleteRelationship] = useDeleteGlossaryTermRelationshipMutation()
+
+  useEffect(() => {
+    if (focusTermId === undefined) return
+    setFocus(termNodeId(focusTermId))
+    setSelectedId(termNodeId(focusTermId))
+    setExpanded([])
+  }, [focusTermId])
+
+  const graph = useMemo(
+    () => buildGlossaryGraph(glossaryData?.data ?? [], domainsData?.data ?? []),
+    [glossaryData, domainsData]
+  )
+  const nodesById = useMemo(() => new Map(graph.nodes.map(node => [node.id, node])), [graph])
+
+  const filtered = useMemo(
+    () => filterGlossaryGraph(graph, edgeTypes, nodeKinds, [focus, pathFrom, pathTo].filter((id): id is string => !!id)),
+    [graph, edgeTypes, nodeKinds, focus, pathFrom, pathTo]
+  )
+
+  const path = useMemo(
+    () => (pathFrom && pathTo ? findGlossaryPath(filtered, pathFrom, pathTo) : undefined),
+    [filtered, pathFrom, pathTo]
+  )
+  const pathNodeIds = useMemo(() => new Set(path?.flatMap(step => [step.from.id, step.to.id]) ?? []), [path])
+  const pathEdgeIds = useMemo(() => new Set(path?.map(step => step.edge.id) ?? []), [path])
+
+  const visible = useMemo(() => {
+    if (!focus) return filtered
+    const ids = neighbourhood(filtered, [focus, ...expanded], depth)
+    pathNodeIds.forEach(id => ids.add(id))
+    return {
+      nodes: filtered.nodes.filter(node => ids.has(node.id)),
+      edges: filtered.edges.filter(edge => ids.has(edge.source) && ids.has(edge.target)),
+    }
+  }, [filtered, focus, expanded, depth, pathNodeIds])
+
+  // d3 handlers outlive renders, so they read the latest callbacks from here
+  const handlersRef = useRef({
+    select: (_node: GlossaryGraphNode) => {},
+    expand: (_node: GlossaryGraphNode) => {},
+    link: (_link: PendingLink) => {},
+    unlink: (_edge: GlossaryGraphEdge) => {},
+  })
+  handlersRef.current = {
+    select: (node) => setSelectedId(node.id),
+    expand: (node) => {
+      if (!focus) setFocus(node.id)
+      else setExpanded(current => (current.includes(node.id) ? current : [...current, node.id]))
+    },
+    link: (link) => {
+      setLinkType('related')
+      setLinkDescription('')
+      setPendingLink(link)
+    },
+    unlink: (edge) => {
+      const owner = nodesById.get(edge.source)
+      if (owner?.termId === undefined || edge.relationshipId === undefined) return
+      const target = nodesById.get(edge.target)
+      Modal.confirm({
+        title: 'Remove relationship',
+        content: `Remove "${owner.label} ${edge.type} ${target?.label ?? ''}"?`,
+        okButtonProps: { danger: true },
+        onOk: async () => {
+          try {
+            await deleteRelationship({ termId: owner.termId!, relationshipId: edge.relationshipId! }).unwrap()
+            message.success('Relationship removed')
+          } catch (error) {
+            console.error('Failed to remove relationship:', error)
+            message.error('Failed to remove relationship')
+          }
+        },
+      })
+    },
+  }
+
+  useEffect(() => {
+    const svgElement = svgRef.current
+    if (!svgElement) return
+
+    const width = svgElement.clientWidth || 800
+    const height = GRAPH_HEIGHT
+    const positions = positionsRef.current
+    const layers = layout === 'layered' ? glossaryLayers(visible) : undefined
+    const hasPath = pathEdgeIds.size > 0
+
+    const svg = d3.select(svgElement)
+    svg.selectAll('*').remove()
+
+    svg.append('defs')
+      .selectAll('marker')
+      .data(EDGE_TYPES.filter(option => DIRECTED_TYPES.has(option.value)))
+      .join('marker')
+      .attr('id', option => `glossary-arrow-${option.value}`)
+      .attr('viewBox', '0 -4 8 8')
+      .attr('refX', 8)
+      .attr('markerWidth', 6)
+      .attr('markerHeight', 6)
+      .attr('orient', 'auto')
+      .append('path')
+      .attr('d', 'M0,-4L8,0L0,4')
+      .attr('fill', option => option.color)
+
+    const root = svg.append('g')
+    svg.call(
+      d3.zoom<SVGSVGElement, unknown>()
+        .scaleExtent([0.2, 4])
+        .on('zoom', (event) => root.attr('transform', event.transform.toString()))
+    ).on('dblclick.zoom', null)
+
+    const simNodes: SimNode[] = visible.nodes.map(node => ({ id: node.id, node, ...positions.get(node.id) }))
+    const simLinks: SimLink[] = visible.edges.map(edge => ({ source: edge.source, target: edge.target, edge }))
+
+    const simulation = d3.forceSimulation<SimNode>(simNodes)
+      .force('link', d3.forceLink<SimNode, SimLink>(simLinks).id(node => node.id).distance(90))
+      .force('charge', d3.forceManyBody<SimNode>().strength(-260))
+      .force('collide', d3.forceCollide<SimNode>().radius(node => kindStyle(node.node.kind).radius + 14))
+
+    // Nodes that were already placed only need to settle around the new ones
+    if (simNodes.length > 0 && simNodes.every(node => node.x !== undefined)) simulation.alpha(0.3)
+
+    if (layers) {
+      simulation
+        .force('y', d3.forceY<SimNode>(node => 40 + (layers.get(node.id) ?? 0) * LAYER_SPACING).strength(1))
+        .force('x', d3.forceX<SimNode>(width / 2).strength(0.04))
+    } else {
+      simulation.force('center', d3.forceCenter(width / 2, height / 2))
+    }
+
+    const isDimmed = (id: string) => hasPath && !pathNodeIds.has(id)
+
+    const link = root.append('g')
+      .selectAll<SVGLineElement, SimLink>('line')
+      .data(simLinks)
+      .join('line')
+      .attr('stroke', d => edgeColor(d.edge.type))
+      .attr('stroke-width', d => (pathEdgeIds.has(d.edge.id) ? 4 : 1.5))
+      .attr('stroke-opacity', d => (hasPath && !pathEdgeIds.has(d.edge.id) ? 0.15 : 0.8))
+      .attr('marker-end', d => (DIRECTED_TYPES.has(d.edge.type) ? `url(#glossary-arrow-${d.edge.type})` : null))
+      .style('cursor', d => (isEditing && d.edge.relationshipId !== undefined ? 'pointer' : 'default'))
+      .on('click', (_event, d) => {
+        if (isEditing) handlersRef.current.unlink(d.edge)
+      })
+    link.append('title').text(d => `${d.edge.type}${d.edge.description ? `: ${d.edge.description}` : ''}`)
+
+    const draft = root.append('line')
+      .attr('stroke', '#1890ff')
+      .attr('stroke-width', 2)
+      .attr('stroke-dasharray', '4 3')
+      .style('display', 'none')
+
+    const node = root.append('g')
+      .selectAll<SVGGElement, SimNode>('g')
+      .data(simNodes)
+      .join('g')
+      .style('cursor', 'pointer')
+      .attr('opacity', d => (isDimmed(d.id) ? 0.25 : 1))
+      .on('click', (_event, d) => handlersRef.current.select(d.node))
+      .on('dblclick', (event, d) => {
+        event.stopPropagation()
+        handlersRef.current.expand(d.node)
+      })
+
+    node.append('circle')
+      .attr('r', d => kindStyle(d.node.kind).radius)
+      .attr('fill', d => kindStyle(d.node.kind).color)
+
+    node.append('text')
+      .text(d => d.node.label)
+      .attr('x', d => kindStyle(d.node.kind).radius + 4)
+      .attr('y', 4)
+      .attr('font-size', 11)
+      .attr('fill', '#262626')
+      .style('pointer-events', 'none')
+
+    node.append('title').text(d => d.node.description ?? d.node.label)
+
+    const nodeAt = (x: number, y: number, except: SimNode) =>
+      simNodes.find(candidate =>
+        candidate !== except &&
+        candidate.node.kind === 'term' &&
+        Math.hypot((candidate.x ?? 0) - x, (candidate.y ?? 0) - y) <= kindStyle('term').radius + 8
+      )
+
+    // Dragging moves nodes; in edit mode it draws a relationship from one term to another
+    node.call(
+      d3.drag<SVGGElement, SimNode>()
+        .on('start', (event, d) => {
+          if (isEditing) {
+            if (d.node.kind !== 'term') return
+            draft.style('display', null).attr('x1', d.x ?? 0).attr('y1', d.y ?? 0).attr('x2', d.x ?? 0).attr('y2', d.y ?? 0)
+            return
+          }
+          if (!event.active) simulation.alphaTarget(0.3).restart()
+          d.fx = d.x
+          d.fy = d.y
+        })
+        .on('drag', (event, d) => {
+          if (isEditing) {
+            if (d.node.kind === 'term') draft.attr('x2', event.x).attr('y2', event.y)
+            return
+          }
+          d.fx = event.x
+          d.fy = event.y
+        })
+        .on('end', (event, d) => {
+          if (isEditing) {
+            draft.style('display', 'none')
+            const target = d.node.kind === 'term' ? nodeAt(event.x, event.y, d) : undefined
+            if (target) handlersRef.current.link({ source: d.node, target: target.node })
+            return
+          }
+          if (!event.active) simulation.alphaTarget(0)
+          d.fx = null
+          d.fy = null
+        })
+    )
+
+    simulation.on('tick', () => {
+      link
+        .attr('x1', d => (d.source as SimNode).x ?? 0)
+        .attr('y1', d => (d.source as SimNode).y ?? 0)
+        .attr('x2', d => {
+          const source = d.source as SimNode
+          const target = d.target as SimNode
+          // Stop at the target's edge so the arrow head stays visible
+          const dx = (target.x ?? 0) - (source.x ?? 0)
+          const dy = (target.y ?? 0) - (source.y ?? 0)
+          const length = Math.hypot(dx, dy) || 1
+          return (target.x ?? 0) - (dx / length) * kindStyle(target.node.kind).radius
+        })
+        .attr('y2', d => {
+          const source = d.source as SimNode
+          const target = d.target as SimNode
+          const dx = (target.x ?? 0) - (source.x ?? 0)
+          const dy = (target.y ?? 0) - (source.y ?? 0)
+          const length = Math.hypot(dx, dy) || 1
+          return (target.y ?? 0) - (dy / length) * kindStyle(target.node.kind).radius
+        })
+      node.attr('transform', d => `translate(${d.x ?? 0},${d.y ?? 0})`)
+      simNodes.forEach(d => positions.set(d.id, { x: d.x ?? 0, y: d.y ?? 0 }))
+    })
+
+    return () => {
+      simulation.stop()
+    }
+  }, [visible, layout, isEditing, pathEdgeIds, pathNodeIds])
+
+  // Selection only restyles nodes; redrawing would restart the layout
+  useEffect(() => {
+    if (!svgRef.current) return
+    const isHighlighted = (d: SimNode) => d.id === selectedId || d.id === focus
+    d3.select(svgRef.current)
+      .selectAll<SVGCircleElement, SimNode>('circle')
+      .attr('stroke', d => (isHighlighted(d) ? '#000' : '#fff'))
+      .attr('stroke-width', d => (isHighlighted(d) ? 3 : 1.5))
+  }, [selectedId, focus, visible, layout, isEditing, pathEdgeIds, pathNodeIds])
+
+  const handleCreateLink = async () => {
+    if (!pendingLink?.source.termId || !pendingLink.target.termId) return
+    try {
+      await createRelationship({
+        termId: pendingLink.source.termId,
+        relatedTermId: pendingLink.target.termId,
+        relationshipType: linkType,
+        ...(linkDescription.trim() && { description: linkDescription.trim() }),
+      }).unwrap()
+      message.success('Relationship added')
+      setPendingLink(null)
+    } catch (error) {
+      console.error('Failed to add relationship:', error)
+      message.error('Failed to add relationship')
+    }
+  }
+
+  const nodeOptions = useMemo(
+    () => graph.nodes
+      .map(node => ({ value: node.id, label: `${node.label} (${node.kind})` }))
+      .sort((a, b) => a.label.localeCompare(b.label)),
+    [graph]
+  )
+
+  const selected = selectedId ? nodesById.get(selectedId) : undefined
+  const selectedNeighbours = useMemo(
+    () => (selectedId ? neighbourhood(filtered, [selectedId], 1).size - 1 : 0),
+    [filtered, selectedId]
+  )
+
+  if (isLoadingTerms || isLoadingDomains) {
+    return (
+      <div style={{ textAlign: 'center', padding: 40 }}>
+        <Spin tip="Loading glossary graph..." />
+      </div>
+    )
+  }
+
+  if (graph.nodes.length === 0) {
+    return <Empty description="No glossary terms to show" />
+  }
+
+  return (
+    <div>
+      <Card size="small" style={{ marginBottom: 16 }}>
+        <Space direction="vertical" style={{ width: '100%' }}>
+          <Space wrap>
+            <Segmented
+              value={layout}
+              onChange={(value) => setLayout(value as Layout)}
+              options={[
+                { value: 'force', label: 'Force', icon: <DeploymentUnitOutlined /> },
+                { value: 'layered', label: 'Hierarchy', icon: <ApartmentOutlined /> },
+              ]}
+            />
+            <Select
+              showSearch
+              allowClear
+              placeholder="Focus on..."
+              style={{ width: 240 }}
+              value={focus}
+              options={nodeOptions}
+              optionFilterProp="label"
+              onChange={(value?: string) => {
+                setFocus(value)
+                setExpanded([])
+              }}
+            />
+            <Space size={4}>
+              <Text type="secondary">Hops</Text>
+              <InputNumber min={1} max={5} value={depth} onChange={(value) => setDepth(value ?? 1)} disabled={!focus} />
+            </Space>
+            <Space size={4}>
+              <Switch checked={isEditing} onChange={setIsEditing} />
+              <Text>Edit relationships</Text>
+            </Space>
+          </Space>
+
+          <Checkbox.Group
+            value={nodeKinds}
+            onChange={(values) => setNodeKinds(values as GlossaryNodeKind[])}
+            options={NODE_KINDS.map(kind => ({
+              value: kind.value,
+              label: <Tag color={kind.color}>{kind.label}</Tag>,
+            }))}
+          />
+          <Checkbox.Group
+            value={edgeTypes}
+            onChange={(values) => setEdgeTypes(values as GlossaryEdgeType[])}
+            options={EDGE_TYPES.map(type => ({
+              value: type.value,
+              label: <span style={{ borderBottom: `2px solid ${type.color}` }}>{type.label}</span>,
+            }))}
+          />
+
+          <Space wrap>
+            <Text strong>How is</Text>
+            <Select
+              showSearch
+              allowClear
+              placeholder="e.g. ARPU"
+              style={{ width: 220 }}
+              value={pathFrom}
+              options={nodeOptions}
+              optionFilterProp="label"
+              onChange={setPathFrom}
+            />
+            <Text strong>related to</Text>
+            <Select
+              showSearch
+              allowClear
+              placeholder="e.g. Deposits"
+              style={{ width: 220 }}
+              value={pathTo}
+              options={nodeOptions}
+              optionFilterProp="label"
+              onChange={setPathTo}
+            />
+          </Space>
+        </Space>
+      </Card>
+
+      {isEditing && (
+        <Alert
+          type="info"
+          showIcon
+          style={{ marginBottom: 16 }}
+          message="Drag from one term to another to add a relationship; click a relationship line to remove it."
+        />
+      )}
+
+      {path === null && (
+        <Alert type="warning" showIcon style={{ marginBottom: 16 }} message="These aren't connected through the relationships shown" />
+      )}
+      {path && path.length > 0 && (
+        <Alert
+          type="success"
+          showIcon
+          style={{ marginBottom: 16 }}
+          message={`Connected in ${path.length} step${path.length === 1 ? '' : 's'}`}
+          description={
+            <Space direction="vertical" size={2}>
+              {path.map(step => (
+                <Text key={step.edge.id}>
+                  <SwapRightOutlined /> {describePathStep(step)}
+                </Text>
+              ))}
+            </Space>
+          }
+        />
+      )}
+
+      <Row gutter={16}>
+        <Col span={selected ? 18 : 24}>
+          <Card size="small" bodyStyle={{ padding: 0 }}>
+            <svg ref={svgRef} width="100%" height={GRAPH_HEIGHT} style={{ display: 'block' }} />
+          </Card>
+          <Text type="secondary" style={{ fontSize: 12 }}>
+            {visible.nodes.length} of {graph.nodes.length} nodes · double-click a node to expand its neighbours · scroll to zoom
+          </Text>
+        </Col>
+        {selected && (
+          <Col span={6}>
+            <Card
+              size="small"
+              title={selected.label}
+              extra={<Tag color={kindStyle(selected.kind).color}>{selected.kind}</Tag>}
+            >
+              <Descriptions column={1} size="small">
+                {selected.description && <Descriptions.Item label="Definition">{selected.description}</Descriptions.Item>}
+                <Descriptions.Item label="Neighbours">{selectedNeighbours}</Descriptions.Item>
+              </Descriptions>
+              <Space direction="vertical" style={{ width: '100%', marginTop: 8 }}>
+                <Button
+                  block
+                  icon={<AimOutlined />}
+                  onClick={() => {
+                    setFocus(selected.id)
+                    setExpanded([])
+                  }}
+                >
+                  Focus here
+                </Button>
+                <Button block icon={<NodeExpandOutlined />} onClick={() => handlersRef.current.expand(selected)}>
+                  Expand neighbours
+                </Button>
+                <Space.Compact block>
+                  <Button style={{ width: '50%' }} onClick={() => setPathFrom(selected.id)}>Path from</Button>
+                  <Button style={{ width: '50%' }} onClick={() => setPathTo(selected.id)}>Path to</Button>
+                </Space.Compact>
+              </Space>
+            </Card>
+          </Col>
+        )}
+      </Row>
+
+      <Modal
+        open={!!pendingLink}
+        title="Add relationship"
+        okText="Add"
+        confirmLoading={isCreating}
+        onOk={handleCreateLink}
+        onCancel={() => setPendingLink(null)}
+      >
+        {pendingLink && (
+          <Space direction="vertical" style={{ width: '100%' }}>
+            <Space wrap>
+              <Tag color="blue">{pendingLink.source.label}</Tag>
+              <Select
+                value={linkType}
+                onChange={setLinkType}
+                style={{ width: 140 }}
+                options={TERM_RELATIONSHIP_TYPES.map(type => ({
+                  value: type,
+                  label: EDGE_TYPES.find(option => option.value === type)?.label ?? type,
+                }))}
+              />
+              <Tag color="blue">{pendingLink.target.label}</Tag>
+            </Space>
+            <Input
+              value={linkDescription}
+              onChange={(event) => setLinkDescription(event.target.value)}
+              placeholder="Description (optional)"
+              maxLength={500}
+            />
+          </Space>
+        )}
+      </Modal>
+    </div>
+  )
+}
+
+export default GlossaryGraphExplorer
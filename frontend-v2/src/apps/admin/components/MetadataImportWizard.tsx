@@ -0,0 +1,567 @@
+import React, { useMemo, useState } from 'react'
+import * as XLSX from 'xlsx'
+import {
+  Alert,
+  Button,
+  Modal,
+  Progress,
+  Radio,
+  Select,
+  Space,
+  Statistic,
+  Steps,
+  Table,
+  Tag,
+  Tooltip,
+  Typography,
+  Upload,
+  message,
+  Row,
+  Col,
+} from 'antd'
+import {
+  CheckCircleOutlined,
+  CloseCircleOutlined,
+  DownloadOutlined,
+  InboxOutlined,
+  WarningOutlined,
+} from '@ant-design/icons'
+import type { ColumnsType } from 'antd/es/table'
+import {
+  useGetEnhancedBusinessTablesQuery,
+  useGetEnhancedBusinessGlossaryQuery,
+  useValidateEnhancedBusinessTableMutation,
+  useCreateEnhancedBusinessTableMutation,
+  useUpdateEnhancedBusinessTableMutation,
+  useUpdateBusinessColumnMutation,
+  useCreateEnhancedGlossaryTermMutation,
+  useUpdateEnhancedGlossaryTermMutation,
+} from '@shared/store/api/businessApi'
+import {
+  IMPORT_FIELDS,
+  diffImport,
+  readSpreadsheetFile,
+  suggestImportMapping,
+  toCreateGlossaryTermRequest,
+  toCreateTableRequest,
+  toUpdateColumnRequest,
+  toUpdateGlossaryTermRequest,
+  toUpdateTableRequest,
+  type ImportAction,
+  type ImportChange,
+  type ImportMapping,
+  type ImportTarget,
+  type ImportValue,
+  type ParsedSheet,
+} from '@shared/utils/metadataImport'
+
+const { Text } = Typography
+const { Dragger } = Upload
+
+// Current metadata is diffed in full, so it's loaded in one page
+const METADATA_PAGE_SIZE = 1000
+// Rows written at once; keeps a large sheet from flooding the API
+const IMPORT_BATCH_SIZE = 10
+
+const TARGET_LABELS: Record<ImportTarget, string> = {
+  table: 'Table metadata',
+  column: 'Column metadata',
+  glossary: 'Glossary terms',
+}
+
+const ACTION_TAGS: Record<ImportAction, { color: string; label: string }> = {
+  create: { color: 'green', label: 'Create' },
+  update: { color: 'blue', label: 'Update' },
+  unchanged: { color: 'default', label: 'Unchanged' },
+  invalid: { color: 'red', label: 'Invalid' },
+}
+
+interface ImportRowResult {
+  rowNumber: number
+  key: string
+  action: ImportAction
+  success: boolean
+  message: string
+}
+
+interface MetadataImportWizardProps {
+  visible: boolean
+  onClose: () => void
+}
+
+const formatValue = (value?: ImportValue) => {
+  if (value === undefined) return <Text type="secondary">—</Text>
+  if (Array.isArray(value)) return value.join('; ') || <Text type="secondary">(empty)</Text>
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  return value
+}
+
+const errorMessage = (error: unknown) => {
+  const data = (error as { data?: { message?: string } })?.data
+  return data?.message ?? (error instanceof Error ? error.message : 'Request failed')
+}
+
+const isErrorSeverity = (severity: string) => ['error', 'critical', 'high'].includes(severity.toLowerCase())
+
+/**
+ * MetadataImportWizard - Imports table, column and glossary metadata from
+ * CSV/XLSX sheets: map the sheet's columns, review a dry-run diff against the
+ * current metadata, then apply the accepted rows in batches
+ */
+export const MetadataImportWizard: React.FC<MetadataImportWizardProps> = ({ visible, onClose }) => {
+  const [step, setStep] = useState(0)
+  const [target, setTarget] = useState<ImportTarget>('table')
+  const [fileName, setFileName] = useState<string>()
+  const [sheets, setSheets] = useState<ParsedSheet[]>([])
+  const [sheetName, setSheetName] = useState<string>()
+  const [mapping, setMapping] = useState<ImportMapping>({})
+  const [changes, setChanges] = useState<ImportChange[]>([])
+  const [selectedRows, setSelectedRows] = useState<number[]>([])
+  const [isValidating, setIsValidating] = useState(false)
+  const [isApplying, setIsApplying] = useState(false)
+  const [results, setResults] = useState<ImportRowResult[]>([])
+
+  const { data: tablesResponse, isFetching: isLoadingTables } = useGetEnhancedBusinessTablesQuery(
+    { pageSize: METADATA_PAGE_SIZE },
+    { skip: !visible || target === 'glossary' }
+  )
+  const { data: glossaryResponse, isFetching: isLoadingGlossary } = useGetEnhancedBusinessGlossaryQuery(
+    { page: 1, pageSize: METADATA_PAGE_SIZE },
+    { skip: !visible || target !== 'glossary' }
+  )
+
+  const [validateTable] = useValidateEnhancedBusinessTableMutation()
+  const [createTable] = useCreateEnhancedBusinessTableMutation()
+  const [updateTable] = useUpdateEnhancedBusinessTableMutation()
+  const [updateColumn] = useUpdateBusinessColumnMutation()
+  const [createTerm] = useCreateEnhancedGlossaryTermMutation()
+  const [updateTerm] = useUpdateEnhancedGlossaryTermMutation()
+
+  const tables = tablesResponse?.data ?? []
+  const glossary = glossaryResponse?.data ?? []
+  const sheet = sheets.find(candidate => candidate.name === sheetName)
+  const fields = IMPORT_FIELDS[target]
+  const missingIdentity = fields.filter(field => field.identity && !mapping[field.key])
+
+  const reset = () => {
+    setStep(0)
+    setFileName(undefined)
+    setSheets([])
+    setSheetName(undefined)
+    setMapping({})
+    setChanges([])
+    setSelectedRows([])
+    setResults([])
+  }
+
+  const handleClose = () => {
+    if (isApplying) return
+    reset()
+    onClose()
+  }
+
+  const selectSheet = (name: string, available: ParsedSheet[] = sheets, importTarget: ImportTarget = target) => {
+    setSheetName(name)
+    const selected = available.find(candidate => candidate.name === name)
+    setMapping(selected ? suggestImportMapping(selected.headers, importTarget) : {})
+  }
+
+  const handleFile = async (file: File) => {
+    try {
+      const parsed = await readSpreadsheetFile(file)
+      if (parsed.length === 0) {
+        message.error('The file has no rows to import')
+        return false
+      }
+      setFileName(file.name)
+      setSheets(parsed)
+      selectSheet(parsed[0]!.name, parsed)
+    } catch (error) {
+      console.error('Failed to read spreadsheet:', error)
+      message.error('Could not read the file; use CSV or Excel (.xlsx)')
+    }
+    // Parsed in the browser, never uploaded as is
+    return false
+  }
+
+  // Table-level checks from the backend, applied to every row of the table
+  const validateTables = async (diffed: ImportChange[]): Promise<ImportChange[]> => {
+    const tableRows = new Map<string, ImportChange>()
+    diffed
+      .filter(change => change.action !== 'invalid' && change.schemaName && change.tableName)
+      .forEach(change => tableRows.set(`${change.schemaName}.${change.tableName}`.toLowerCase(), change))
+
+    const findings = new Map<string, { errors: string[]; warnings: string[] }>()
+    const entries = [...tableRows.entries()]
+    for (let index = 0; index < entries.length; index += IMPORT_BATCH_SIZE) {
+      await Promise.all(entries.slice(index, index + IMPORT_BATCH_SIZE).map(async ([key, change]) => {
+        try {
+          const response = await validateTable({
+            ...(change.tableId !== undefined && { tableId: change.tableId }),
+            schemaName: change.schemaName!,
+            tableName: change.tableName!,
+            validateBusinessRules: true,
+            validateDataQuality: false,
+            validateRelationships: false,
+          }).unwrap()
+          const { issues, warnings } = response.data
+          findings.set(key, {
+            errors: issues.filter(issue => isErrorSeverity(issue.severity)).map(issue => issue.message),
+            warnings: [
+              ...issues.filter(issue => !isErrorSeverity(issue.severity)).map(issue => issue.message),
+              ...warnings.map(warning => warning.message),
+            ],
+          })
+        } catch (error) {
+          findings.set(key, { errors: [], warnings: [`Couldn't validate the table: ${errorMessage(error)}`] })
+        }
+      }))
+    }
+
+    return diffed.map(change => {
+      const finding = findings.get(`${change.schemaName}.${change.tableName}`.toLowerCase())
+      if (!finding) return change
+      const errors = [...change.errors, ...finding.errors]
+      return {
+        ...change,
+        errors,
+        warnings: [...change.warnings, ...finding.warnings],
+        action: errors.length > 0 ? 'invalid' : change.action,
+      }
+    })
+  }
+
+  const runDryRun = async () => {
+    if (!sheet) return
+    setIsValidating(true)
+    try {
+      const diffed = diffImport(sheet, mapping, target, { tables, glossary })
+      const validated = target === 'glossary' ? diffed : await validateTables(diffed)
+      setChanges(validated)
+      setSelectedRows(validated.filter(change => change.action === 'create' || change.action === 'update').map(change => change.rowNumber))
+      setStep(2)
+    } finally {
+      setIsValidating(false)
+    }
+  }
+
+  const applyChange = async (change: ImportChange): Promise<string> => {
+    if (target === 'glossary') {
+      if (change.action === 'create') {
+        await createTerm(toCreateGlossaryTermRequest(change.values)).unwrap()
+        return 'Term created'
+      }
+      await updateTerm({ ...toUpdateGlossaryTermRequest(change), id: change.targetId! }).unwrap()
+      return `Updated ${change.changes.length} field${change.changes.length === 1 ? '' : 's'}`
+    }
+
+    const table = tables.find(candidate => candidate.id === change.tableId)
+    if (target === 'table') {
+      if (change.action === 'create' || !table) {
+        await createTable(toCreateTableRequest(change.values)).unwrap()
+        return 'Table metadata created'
+      }
+      await updateTable({ id: table.id, ...toUpdateTableRequest(table, change.values) }).unwrap()
+      return `Updated ${change.changes.length} field${change.changes.length === 1 ? '' : 's'}`
+    }
+
+    const column = table?.columns?.find(candidate => candidate.id === change.targetId)
+    if (!column) throw new Error('Column no longer exists')
+    await updateColumn({ columnId: column.id, ...toUpdateColumnRequest(column, change) }).unwrap()
+    return `Updated ${change.changes.length} field${change.changes.length === 1 ? '' : 's'}`
+  }
+
+  const applyChanges = async () => {
+    const accepted = changes.filter(change => selectedRows.includes(change.rowNumber))
+    setIsApplying(true)
+    setResults([])
+    setStep(3)
+
+    const collected: ImportRowResult[] = []
+    for (let index = 0; index < accepted.length; index += IMPORT_BATCH_SIZE) {
+      const batch = accepted.slice(index, index + IMPORT_BATCH_SIZE)
+      const settled = await Promise.allSettled(batch.map(applyChange))
+      settled.forEach((outcome, position) => {
+        const change = batch[position]!
+        collected.push({
+          rowNumber: change.rowNumber,
+          key: change.key,
+          action: change.action,
+          success: outcome.status === 'fulfilled',
+          message: outcome.status === 'fulfilled' ? outcome.value : errorMessage(outcome.reason),
+        })
+      })
+      setResults([...collected])
+    }
+
+    setIsApplying(false)
+    const failed = collected.filter(result => !result.success).length
+    if (failed > 0) message.warning(`${collected.length - failed} rows applied, ${failed} failed`)
+    else message.success(`${collected.length} rows applied`)
+  }
+
+  const downloadReport = () => {
+    const report = results.map(result => ({
+      Row: result.rowNumber,
+      Key: result.key,
+      Action: ACTION_TAGS[result.action].label,
+      Status: result.success ? 'Applied' : 'Failed',
+      Message: result.message,
+    }))
+    const workbook = XLSX.utils.book_new()
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(report), 'Import results')
+    XLSX.writeFile(workbook, `metadata-import-report-${new Date().toISOString().slice(0, 10)}.xlsx`)
+  }
+
+  const counts = useMemo(() => {
+    const byAction: Record<ImportAction, number> = { create: 0, update: 0, unchanged: 0, invalid: 0 }
+    changes.forEach(change => { byAction[change.action] += 1 })
+    return byAction
+  }, [changes])
+
+  const changeColumns: ColumnsType<ImportChange> = [
+    { title: 'Row', dataIndex: 'rowNumber', key: 'rowNumber', width: 70 },
+    { title: 'Entry', dataIndex: 'key', key: 'key', render: (key: string) => <Text strong>{key || '—'}</Text> },
+    {
+      title: 'Action',
+      dataIndex: 'action',
+      key: 'action',
+      width: 110,
+      filters: Object.entries(ACTION_TAGS).map(([value, tag]) => ({ text: tag.label, value })),
+      onFilter: (value, change) => change.action === value,
+      render: (action: ImportAction) => <Tag color={ACTION_TAGS[action].color}>{ACTION_TAGS[action].label}</Tag>,
+    },
+    {
+      title: 'Changes',
+      key: 'changes',
+      render: (_, change) => (change.changes.length > 0 ? change.changes.map(item => item.label).join(', ') : '—'),
+    },
+    {
+      title: 'Issues',
+      key: 'issues',
+      width: 220,
+      render: (_, change) => (
+        <Space direction="vertical" size={0}>
+          {change.errors.map(error => (
+            <Text key={error} type="danger"><CloseCircleOutlined /> {error}</Text>
+          ))}
+          {change.warnings.map(warning => (
+            <Text key={warning} type="warning"><WarningOutlined /> {warning}</Text>
+          ))}
+        </Space>
+      ),
+    },
+  ]
+
+  const resultColumns: ColumnsType<ImportRowResult> = [
+    { title: 'Row', dataIndex: 'rowNumber', key: 'rowNumber', width: 70 },
+    { title: 'Entry', dataIndex: 'key', key: 'key' },
+    {
+      title: 'Action',
+      dataIndex: 'action',
+      key: 'action',
+      width: 110,
+      render: (action: ImportAction) => <Tag color={ACTION_TAGS[action].color}>{ACTION_TAGS[action].label}</Tag>,
+    },
+    {
+      title: 'Result',
+      key: 'result',
+      render: (_, result) => (
+        <Space>
+          {result.success
+            ? <CheckCircleOutlined style={{ color: '#52c41a' }} />
+            : <CloseCircleOutlined style={{ color: '#ff4d4f' }} />}
+          <Text type={result.success ? undefined : 'danger'}>{result.message}</Text>
+        </Space>
+      ),
+    },
+  ]
+
+  const renderUpload = () => (
+    <Space direction="vertical" style={{ width: '100%' }} size="large">
+      <Radio.Group
+        value={target}
+        onChange={(event) => {
+          const next = event.target.value as ImportTarget
+          setTarget(next)
+          if (sheetName) selectSheet(sheetName, sheets, next)
+        }}
+        optionType="button"
+        buttonStyle="solid"
+        options={Object.entries(TARGET_LABELS).map(([value, label]) => ({ value, label }))}
+      />
+      <Dragger accept=".csv,.xlsx,.xls" multiple={false} showUploadList={false} beforeUpload={handleFile}>
+        <p className="ant-upload-drag-icon"><InboxOutlined /></p>
+        <p className="ant-upload-text">{fileName ?? 'Click or drag a CSV or Excel file here'}</p>
+        <p className="ant-upload-hint">
+          One row per {target === 'glossary' ? 'term' : target}. Separate list values with semicolons.
+        </p>
+      </Dragger>
+      {sheets.length > 1 && (
+        <Space>
+          <Text>Sheet</Text>
+          <Select
+            value={sheetName}
+            style={{ width: 240 }}
+            onChange={(name) => selectSheet(name)}
+            options={sheets.map(candidate => ({ value: candidate.name, label: `${candidate.name} (${candidate.rows.length} rows)` }))}
+          />
+        </Space>
+      )}
+    </Space>
+  )
+
+  const renderMapping = () => (
+    <Space direction="vertical" style={{ width: '100%' }}>
+      <Text type="secondary">
+        Match the sheet's columns to metadata fields. Unmapped fields and blank cells keep their current values.
+      </Text>
+      {missingIdentity.length > 0 && (
+        <Alert type="warning" showIcon message={`Map ${missingIdentity.map(field => field.label).join(', ')} to identify each row`} />
+      )}
+      <Table
+        size="small"
+        pagination={false}
+        rowKey="key"
+        dataSource={fields}
+        scroll={{ y: 360 }}
+        columns={[
+          {
+            title: 'Field',
+            dataIndex: 'label',
+            key: 'label',
+            render: (label: string, field) => (
+              <Space>
+                <Text strong={field.identity}>{label}</Text>
+                {field.type === 'list' && <Tag>list</Tag>}
+                {field.type === 'boolean' && <Tag>yes/no</Tag>}
+              </Space>
+            ),
+          },
+          {
+            title: 'Sheet column',
+            key: 'header',
+            render: (_, field) => (
+              <Select
+                allowClear
+                placeholder="Not imported"
+                style={{ width: '100%' }}
+                value={mapping[field.key]}
+                onChange={(header?: string) => {
+                  const next = { ...mapping }
+                  if (header) next[field.key] = header
+                  else delete next[field.key]
+                  setMapping(next)
+                }}
+                options={(sheet?.headers ?? []).filter(Boolean).map(header => ({ value: header, label: header }))}
+              />
+            ),
+          },
+        ]}
+      />
+    </Space>
+  )
+
+  const renderDryRun = () => (
+    <Space direction="vertical" style={{ width: '100%' }}>
+      <Row gutter={16}>
+        {(Object.keys(ACTION_TAGS) as ImportAction[]).map(action => (
+          <Col span={6} key={action}>
+            <Statistic title={ACTION_TAGS[action].label} value={counts[action]} />
+          </Col>
+        ))}
+      </Row>
+      <Text type="secondary">Nothing has been written yet. Untick rows you don't want to apply.</Text>
+      <Table
+        size="small"
+        rowKey="rowNumber"
+        dataSource={changes}
+        columns={changeColumns}
+        pagination={{ pageSize: 10, showSizeChanger: false }}
+        rowSelection={{
+          selectedRowKeys: selectedRows,
+          onChange: (keys) => setSelectedRows(keys as number[]),
+          getCheckboxProps: (change) => ({ disabled: change.action === 'invalid' || change.action === 'unchanged' }),
+        }}
+        expandable={{
+          rowExpandable: (change) => change.changes.length > 0,
+          expandedRowRender: (change) => (
+            <Table
+              size="small"
+              pagination={false}
+              rowKey="field"
+              dataSource={change.changes}
+              columns={[
+                { title: 'Field', dataIndex: 'label', key: 'label', width: 180 },
+                { title: 'Current', dataIndex: 'before', key: 'before', render: formatValue },
+                { title: 'Imported', dataIndex: 'after', key: 'after', render: formatValue },
+              ]}
+            />
+          ),
+        }}
+      />
+    </Space>
+  )
+
+  const accepted = selectedRows.length
+  const renderResults = () => (
+    <Space direction="vertical" style={{ width: '100%' }}>
+      <Progress percent={accepted > 0 ? Math.round((results.length / accepted) * 100) : 100} status={isApplying ? 'active' : undefined} />
+      <Table size="small" rowKey="rowNumber" dataSource={results} columns={resultColumns} pagination={{ pageSize: 10 }} />
+    </Space>
+  )
+
+  const footer = [
+    <Button key="close" onClick={handleClose} disabled={isApplying}>
+      {step === 3 ? 'Close' : 'Cancel'}
+    </Button>,
+    step > 0 && step < 3 && (
+      <Button key="back" onClick={() => setStep(step - 1)}>Back</Button>
+    ),
+    step === 0 && (
+      <Button key="next" type="primary" disabled={!sheet || isLoadingTables || isLoadingGlossary} onClick={() => setStep(1)}>
+        Next
+      </Button>
+    ),
+    step === 1 && (
+      <Button key="dry-run" type="primary" disabled={missingIdentity.length > 0} loading={isValidating} onClick={runDryRun}>
+        Dry run
+      </Button>
+    ),
+    step === 2 && (
+      <Button key="apply" type="primary" disabled={accepted === 0} onClick={applyChanges}>
+        Apply {accepted} row{accepted === 1 ? '' : 's'}
+      </Button>
+    ),
+    step === 3 && !isApplying && results.length > 0 && (
+      <Tooltip key="report" title="Row-by-row results as a spreadsheet">
+        <Button icon={<DownloadOutlined />} onClick={downloadReport}>Download report</Button>
+      </Tooltip>
+    ),
+  ].filter(Boolean)
+
+  return (
+    <Modal
+      title="Import Business Metadata"
+      open={visible}
+      onCancel={handleClose}
+      width={960}
+      footer={footer}
+      maskClosable={false}
+      destroyOnClose
+    >
+      <Steps
+        current={step}
+        size="small"
+        style={{ marginBottom: 24 }}
+        items={[{ title: 'Upload' }, { title: 'Map columns' }, { title: 'Dry run' }, { title: 'Apply' }]}
+      />
+      {step === 0 && renderUpload()}
+      {step === 1 && renderMapping()}
+      {step === 2 && renderDryRun()}
+      {step === 3 && renderResults()}
+    </Modal>
+  )
+}
+
+export default MetadataImportWizard
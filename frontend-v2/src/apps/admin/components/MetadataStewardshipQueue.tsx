@@ -0,0 +1,310 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import {
+  Card,
+  Col,
+  Empty,
+  Progress,
+  Row,
+  Select,
+  Space,
+  Table,
+  Tag,
+  Tooltip,
+  Typography,
+  message,
+} from 'antd'
+import { TeamOutlined, UserOutlined } from '@ant-design/icons'
+import type { ColumnsType } from 'antd/es/table'
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip as RechartsTooltip, XAxis, YAxis, Legend } from 'recharts'
+import {
+  useGetEnhancedBusinessMetadataStatisticsQuery,
+  useUpdateEnhancedBusinessTableMutation,
+  type BusinessTableInfo,
+} from '@shared/store/api/businessApi'
+import { useGetQueryHistoryQuery } from '@shared/store/api/queryApi'
+import {
+  COMPLETENESS_CRITERIA,
+  STEWARDSHIP_THRESHOLD,
+  buildStewardshipQueue,
+  countTableUsage,
+  loadCompletenessHistory,
+  recordCompletenessSnapshot,
+  saveCompletenessHistory,
+  toCompletenessSnapshot,
+  type CompletenessSnapshot,
+  type MetadataCompleteness,
+  type StewardshipItem,
+} from '@shared/utils/metadataCompleteness'
+import { toUpdateTableRequest } from '@shared/utils/metadataImport'
+
+const { Text } = Typography
+
+// Recent queries used to weigh how much each table matters
+const QUERY_HISTORY_LIMIT = 500
+
+const UNASSIGNED = '__unassigned__'
+
+const criterionLabels = Object.fromEntries(COMPLETENESS_CRITERIA.map(info => [info.key, info.label]))
+
+const scoreColor = (score: number) => (score > 80 ? '#52c41a' : score > 60 ? '#faad14' : '#ff4d4f')
+
+interface MetadataStewardshipQueueProps {
+  tables: BusinessTableInfo[]
+  completeness: MetadataCompleteness
+  loading?: boolean
+}
+
+interface OwnerProgress {
+  owner: string
+  tables: number
+  queued: number
+  averageScore: number
+}
+
+/**
+ * MetadataStewardshipQueue - Under-documented tables ranked by query usage,
+ * with owner assignment and completeness progress over time
+ */
+export const MetadataStewardshipQueue: React.FC<MetadataStewardshipQueueProps> = ({ tables, completeness, loading }) => {
+  const [ownerFilter, setOwnerFilter] = useState<string>()
+  const [ownerSearch, setOwnerSearch] = useState('')
+  const [assigningTableId, setAssigningTableId] = useState<number>()
+  const [history, setHistory] = useState<CompletenessSnapshot[]>(() => loadCompletenessHistory())
+
+  const { data: queryHistory, isLoading: historyLoading } = useGetQueryHistoryQuery({ page: 1, limit: QUERY_HISTORY_LIMIT })
+  const { data: statistics } = useGetEnhancedBusinessMetadataStatisticsQuery()
+  const [updateTable] = useUpdateEnhancedBusinessTableMutation()
+
+  const usage = useMemo(() => countTableUsage(queryHistory?.queries ?? [], tables), [queryHistory, tables])
+  const queue = useMemo(() => buildStewardshipQueue(completeness.tables, usage), [completeness, usage])
+
+  // One snapshot a day is enough to show the trend
+  useEffect(() => {
+    if (loading || tables.length === 0) return
+    setHistory(current => {
+      const next = recordCompletenessSnapshot(current, toCompletenessSnapshot(completeness, queue.length))
+      saveCompletenessHistory(next)
+      return next
+    })
+  }, [completeness, queue.length, loading, tables.length])
+
+  const owners = useMemo(() => {
+    const names = new Set<string>([
+      ...tables.map(table => table.businessOwner ?? '').filter(Boolean),
+      ...(statistics?.mostActiveUsers ?? []),
+    ])
+    return [...names].sort((a, b) => a.localeCompare(b))
+  }, [tables, statistics])
+
+  const ownerProgress = useMemo<OwnerProgress[]>(() => {
+    const byOwner = new Map<string, { scores: number[]; queued: number }>()
+    completeness.tables.forEach(table => {
+      const owner = table.businessOwner || 'Unassigned'
+      const entry = byOwner.get(owner) ?? { scores: [], queued: 0 }
+      entry.scores.push(table.score)
+      if (table.score < STEWARDSHIP_THRESHOLD) entry.queued += 1
+      byOwner.set(owner, entry)
+    })
+    return [...byOwner.entries()]
+      .map(([owner, { scores, queued }]) => ({
+        owner,
+        tables: scores.length,
+        queued,
+        averageScore: Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length),
+      }))
+      .sort((a, b) => b.queued - a.queued || a.owner.localeCompare(b.owner))
+  }, [completeness])
+
+  const filteredQueue = queue.filter(item => {
+    if (!ownerFilter) return true
+    if (ownerFilter === UNASSIGNED) return !item.businessOwner
+    return item.businessOwner === ownerFilter
+  })
+
+  const assignOwner = async (item: StewardshipItem, owner: string) => {
+    const table = tables.find(candidate => candidate.id === item.tableId)
+    if (!table) return
+    setAssigningTableId(item.tableId)
+    try {
+      await updateTable({ id: table.id, ...toUpdateTableRequest(table, {}), businessOwner: owner }).unwrap()
+      message.success(`${owner} now owns ${item.schemaName}.${item.tableName}`)
+    } catch (error) {
+      console.error('Failed to assign owner:', error)
+      message.error('Failed to assign owner')
+    } finally {
+      setAssigningTableId(undefined)
+    }
+  }
+
+  const ownerOptions = [...owners, ...(ownerSearch && !owners.includes(ownerSearch) ? [ownerSearch] : [])]
+    .map(owner => ({ value: owner, label: owner }))
+
+  const columns: ColumnsType<StewardshipItem> = [
+    {
+      title: '#',
+      key: 'rank',
+      width: 50,
+      render: (_, item) => queue.indexOf(item) + 1,
+    },
+    {
+      title: 'Table',
+      key: 'table',
+      render: (_, item) => (
+        <Space direction="vertical" size={0}>
+          <Text strong>{item.tableName}</Text>
+          <Text type="secondary" style={{ fontSize: '12px' }}>{item.schemaName}</Text>
+        </Space>
+      ),
+    },
+    {
+      title: 'Completeness',
+      dataIndex: 'score',
+      key: 'score',
+      width: 160,
+      sorter: (a, b) => a.score - b.score,
+      render: (score: number) => <Progress percent={score} size="small" strokeColor={scoreColor(score)} />,
+    },
+    {
+      title: 'Queries',
+      dataIndex: 'usage',
+      key: 'usage',
+      width: 90,
+      sorter: (a, b) => a.usage - b.usage,
+      render: (count: number) => (
+        <Tooltip title={`Referenced by ${count} of the last ${queryHistory?.queries.length ?? 0} queries`}>
+          <Text>{count}</Text>
+        </Tooltip>
+      ),
+    },
+    {
+      title: 'Gaps',
+      dataIndex: 'missing',
+      key: 'missing',
+      render: (missing: StewardshipItem['missing']) => (
+        <Space size={[0, 4]} wrap>
+          {missing.map(key => <Tag key={key}>{criterionLabels[key]}</Tag>)}
+        </Space>
+      ),
+    },
+    {
+      title: 'Owner',
+      key: 'owner',
+      width: 200,
+      render: (_, item) => (
+        <Select
+          showSearch
+          size="small"
+          style={{ width: '100%' }}
+          placeholder="Assign owner"
+          value={item.businessOwner || undefined}
+          loading={assigningTableId === item.tableId}
+          disabled={assigningTableId === item.tableId}
+          options={ownerOptions}
+          onSearch={setOwnerSearch}
+          onChange={(owner: string) => {
+            setOwnerSearch('')
+            if (owner !== item.businessOwner) assignOwner(item, owner)
+          }}
+        />
+      ),
+    },
+  ]
+
+  return (
+    <Row gutter={[16, 16]}>
+      <Col span={24}>
+        <Card
+          title={
+            <Space>
+              <TeamOutlined />
+              <span>Stewardship Queue ({queue.length})</span>
+            </Space>
+          }
+          extra={
+            <Select
+              allowClear
+              placeholder="All owners"
+              style={{ width: 200 }}
+              value={ownerFilter}
+              onChange={setOwnerFilter}
+              options={[
+                { value: UNASSIGNED, label: 'Unassigned' },
+                ...owners.map(owner => ({ value: owner, label: owner })),
+              ]}
+            />
+          }
+        >
+          <Text type="secondary" style={{ display: 'block', marginBottom: 12 }}>
+            Tables scoring below {STEWARDSHIP_THRESHOLD}%, most-queried and least-documented first
+          </Text>
+          <Table
+            columns={columns}
+            dataSource={filteredQueue}
+            rowKey="tableId"
+            size="small"
+            loading={loading || historyLoading}
+            pagination={{ pageSize: 10, showSizeChanger: false }}
+            locale={{ emptyText: <Empty description="Every table meets the completeness target" /> }}
+          />
+        </Card>
+      </Col>
+
+      <Col xs={24} lg={14}>
+        <Card title="Completeness Over Time">
+          {history.length > 1 ? (
+            <ResponsiveContainer width="100%" height={260}>
+              <LineChart data={history}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" />
+                <YAxis yAxisId="score" domain={[0, 100]} unit="%" />
+                <YAxis yAxisId="queue" orientation="right" allowDecimals={false} />
+                <RechartsTooltip />
+                <Legend />
+                <Line yAxisId="score" type="monotone" dataKey="average" name="Average completeness" stroke="#1890ff" />
+                <Line yAxisId="queue" type="monotone" dataKey="queueSize" name="Tables in queue" stroke="#faad14" />
+              </LineChart>
+            </ResponsiveContainer>
+          ) : (
+            <Empty description="The trend builds up as the report is opened on different days" />
+          )}
+        </Card>
+      </Col>
+
+      <Col xs={24} lg={10}>
+        <Card title="Progress by Owner">
+          <Table
+            dataSource={ownerProgress}
+            rowKey="owner"
+            size="small"
+            pagination={false}
+            scroll={{ y: 220 }}
+            columns={[
+              {
+                title: 'Owner',
+                dataIndex: 'owner',
+                key: 'owner',
+                render: (owner: string) => (
+                  <Space>
+                    <UserOutlined />
+                    {owner === 'Unassigned' ? <Text type="secondary">{owner}</Text> : owner}
+                  </Space>
+                ),
+              },
+              { title: 'Tables', dataIndex: 'tables', key: 'tables', width: 70 },
+              { title: 'Queued', dataIndex: 'queued', key: 'queued', width: 75 },
+              {
+                title: 'Average',
+                dataIndex: 'averageScore',
+                key: 'averageScore',
+                width: 110,
+                render: (score: number) => <Progress percent={score} size="small" strokeColor={scoreColor(score)} />,
+              },
+            ]}
+          />
+        </Card>
+      </Col>
+    </Row>
+  )
+}
+
+export default MetadataStewardshipQueue
@@ -1,4 +1,4 @@
-import React from 'react'
+import React, { useMemo, useState } from 'react'
 import {
   Card,
   Row,
@@ -12,7 +12,9 @@ import {
   Space,
   Statistic,
   Table,
-  Tooltip
+  Tooltip,
+  Modal,
+  InputNumber
 } from 'antd'
 import {
   CheckCircleOutlined,
@@ -20,14 +22,34 @@ import {
   CloseCircleOutlined,
   ReloadOutlined,
   DownloadOutlined,
-  WarningOutlined
+  WarningOutlined,
+  SlidersOutlined
 } from '@ant-design/icons'
 import { useValidateSemanticMetadataQuery } from '@shared/store/api/semanticApi'
+import { useGetEnhancedBusinessTablesQuery } from '@shared/store/api/businessApi'
+import {
+  COMPLETENESS_CRITERIA,
+  DEFAULT_COMPLETENESS_WEIGHTS,
+  loadCompletenessWeights,
+  saveCompletenessWeights,
+  scoreMetadata,
+  type CompletenessWeights
+} from '@shared/utils/metadataCompleteness'
+import { MetadataStewardshipQueue } from './MetadataStewardshipQueue'
 
 const { Title, Text } = Typography
 
 export const MetadataValidationReport: React.FC = () => {
   const { data: validationData, isLoading, refetch } = useValidateSemanticMetadataQuery()
+  // Scored client-side, so every table is loaded
+  const { data: tablesResponse, isLoading: tablesLoading, refetch: refetchTables } = useGetEnhancedBusinessTablesQuery({ page: 1, pageSize: 1000 })
+  const [weights, setWeights] = useState<CompletenessWeights>(() => loadCompletenessWeights())
+  const [weightsModalVisible, setWeightsModalVisible] = useState(false)
+  const [draftWeights, setDraftWeights] = useState<CompletenessWeights>(weights)
+
+  const tables = useMemo(() => tablesResponse?.data ?? [], [tablesResponse])
+  const completeness = useMemo(() => scoreMetadata(tables, weights), [tables, weights])
+  const hasTables = tables.length > 0
 
   const getIssueIcon = (severity: 'error' | 'warning') => {
     return severity === 'error' ? (
@@ -107,8 +129,32 @@ export const MetadataValidationReport: React.FC = () => {
     },
   ]
 
-  const coverageColor = mockValidationData.coverage > 80 ? '#52c41a' : 
-                       mockValidationData.coverage > 60 ? '#faad14' : '#ff4d4f'
+  const coverage = hasTables ? completeness.average : mockValidationData.coverage
+  const coverageColor = coverage > 80 ? '#52c41a' : 
+                       coverage > 60 ? '#faad14' : '#ff4d4f'
+
+  // Biggest weighted gaps first
+  const recommendations = COMPLETENESS_CRITERIA
+    .map(info => {
+      const criterion = completeness.criteria.find(item => item.key === info.key)!
+      const remaining = criterion.total - criterion.populated
+      const impact = weights[info.key] * (100 - criterion.coverage)
+      return {
+        title: info.action,
+        description: `${remaining} ${info.scope === 'table' ? 'tables' : 'columns'} still missing ${info.label.toLowerCase()}`,
+        priority: impact >= 1000 ? 'High' : impact >= 400 ? 'Medium' : 'Low',
+        remaining,
+        impact,
+      }
+    })
+    .filter(item => item.remaining > 0 && item.impact > 0)
+    .sort((a, b) => b.impact - a.impact)
+
+  const saveWeights = () => {
+    setWeights(draftWeights)
+    saveCompletenessWeights(draftWeights)
+    setWeightsModalVisible(false)
+  }
 
   return (
     <div>
@@ -126,9 +172,12 @@ export const MetadataValidationReport: React.FC = () => {
             showIcon
             action={
               <Space>
-                <Button size="small" icon={<ReloadOutlined />} onClick={() => refetch()}>
+                <Button size="small" icon={<ReloadOutlined />} onClick={() => { refetch(); refetchTables() }}>
                   Refresh
                 </Button>
+                <Button size="small" icon={<SlidersOutlined />} onClick={() => { setDraftWeights(weights); setWeightsModalVisible(true) }}>
+                  Scoring Weights
+                </Button>
                 <Button size="small" icon={<DownloadOutlined />}>
                   Export Report
                 </Button>
@@ -143,13 +192,13 @@ export const MetadataValidationReport: React.FC = () => {
         <Col xs={24} sm={12} lg={6}>
           <Card>
             <Statistic
-              title="Metadata Coverage"
-              value={mockValidationData.coverage}
+              title="Metadata Completeness"
+              value={coverage}
               suffix="%"
               valueStyle={{ color: coverageColor }}
             />
             <Progress 
-              percent={mockValidationData.coverage} 
+              percent={coverage} 
               strokeColor={coverageColor}
               size="small"
               showInfo={false}
@@ -226,18 +275,13 @@ export const MetadataValidationReport: React.FC = () => {
           <Card title="Coverage by Category">
             <List
               size="small"
-              dataSource={[
-                { category: 'Business Purpose', coverage: 85, total: 120 },
-                { category: 'Column Meanings', coverage: 72, total: 450 },
-                { category: 'Natural Language Aliases', coverage: 60, total: 120 },
-                { category: 'Business Rules', coverage: 45, total: 120 },
-                { category: 'Data Quality Scores', coverage: 90, total: 450 },
-              ]}
+              loading={tablesLoading}
+              dataSource={completeness.criteria}
               renderItem={item => (
                 <List.Item>
                   <div style={{ width: '100%' }}>
                     <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: 4 }}>
-                      <Text>{item.category}</Text>
+                      <Text>{item.label}</Text>
                       <Text>{item.coverage}%</Text>
                     </div>
                     <Progress 
@@ -247,7 +291,7 @@ export const MetadataValidationReport: React.FC = () => {
                       strokeColor={item.coverage > 80 ? '#52c41a' : item.coverage > 60 ? '#faad14' : '#ff4d4f'}
                     />
                     <Text type="secondary" style={{ fontSize: '11px' }}>
-                      {Math.round(item.total * item.coverage / 100)} of {item.total} items
+                      {item.populated} of {item.total} {COMPLETENESS_CRITERIA.find(info => info.key === item.key)?.scope === 'table' ? 'tables' : 'columns'}
                     </Text>
                   </div>
                 </List.Item>
@@ -259,33 +303,9 @@ export const MetadataValidationReport: React.FC = () => {
           <Card title="Recommendations">
             <List
               size="small"
-              dataSource={[
-                {
-                  title: 'Complete Missing Business Purposes',
-                  description: 'Add business purpose descriptions to 18 tables',
-                  priority: 'High',
-                },
-                {
-                  title: 'Update Column Business Meanings',
-                  description: 'Define business meanings for 126 columns',
-                  priority: 'High',
-                },
-                {
-                  title: 'Add Natural Language Aliases',
-                  description: 'Create user-friendly aliases for 48 tables',
-                  priority: 'Medium',
-                },
-                {
-                  title: 'Review Data Quality Scores',
-                  description: 'Update quality scores for 45 columns',
-                  priority: 'Medium',
-                },
-                {
-                  title: 'Document Business Rules',
-                  description: 'Add business rules for 66 tables',
-                  priority: 'Low',
-                },
-              ]}
+              loading={tablesLoading}
+              dataSource={recommendations}
+              locale={{ emptyText: 'Metadata is complete' }}
               renderItem={item => (
                 <List.Item>
                   <div>
@@ -308,6 +328,49 @@ export const MetadataValidationReport: React.FC = () => {
           </Card>
         </Col>
       </Row>
+
+      {/* Stewardship */}
+      <div style={{ marginTop: 24 }}>
+        <MetadataStewardshipQueue tables={tables} completeness={completeness} loading={tablesLoading} />
+      </div>
+
+      <Modal
+        title="Completeness Scoring Weights"
+        open={weightsModalVisible}
+        onOk={saveWeights}
+        onCancel={() => setWeightsModalVisible(false)}
+        okText="Save"
+        footer={(_, { OkBtn, CancelBtn }) => (
+          <Space>
+            <Button onClick={() => setDraftWeights(DEFAULT_COMPLETENESS_WEIGHTS)}>Reset</Button>
+            <CancelBtn />
+            <OkBtn />
+          </Space>
+        )}
+      >
+        <Text type="secondary">
+          Weights are relative: each criterion counts in proportion to its share of the total. Set one to 0 to leave it out.
+        </Text>
+        <List
+          size="small"
+          style={{ marginTop: 12 }}
+          dataSource={COMPLETENESS_CRITERIA}
+          renderItem={info => (
+            <List.Item
+              extra={
+                <InputNumber
+                  min={0}
+                  max={100}
+                  value={draftWeights[info.key]}
+                  onChange={(value) => setDraftWeights({ ...draftWeights, [info.key]: value ?? 0 })}
+                />
+              }
+            >
+              <List.Item.Meta title={info.label} description={info.scope === 'table' ? 'Per table' : 'Share of columns'} />
+            </List.Item>
+          )}
+        />
+      </Modal>
     </div>
   )
 }
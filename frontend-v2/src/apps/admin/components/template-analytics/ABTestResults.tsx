@@ -24,6 +24,7 @@ import {
 } from '@ant-design/icons'
 import dayjs from 'dayjs'
 import { useGetABTestsQuery } from '@shared/store/api/templateAnalyticsApi'
+import { analyzeTest } from '@shared/utils/abTestStatistics'
 
 const { Title, Text } = Typography
 const { RangePicker } = DatePicker
@@ -41,11 +42,9 @@ export const ABTestResults: React.FC<ABTestResultsProps> = ({ onViewDetails }) =
   const getWinnerTag = (test: any) => {
     if (test.status !== 'completed') return null
     
-    const originalRate = test.originalSuccessRate
-    const variantRate = test.variantSuccessRate
-    const isSignificant = test.statisticalSignificance >= 0.95
+    const { winner, recommendation, comparisons } = analyzeTest(test)
     
-    if (!isSignificant) {
+    if (recommendation !== 'implement_variant' && recommendation !== 'keep_original') {
       return (
         <Tag color="orange" icon={<InfoCircleOutlined />}>
           Inconclusive
@@ -53,10 +52,12 @@ export const ABTestResults: React.FC<ABTestResultsProps> = ({ onViewDetails }) =
       )
     }
     
-    if (variantRate > originalRate) {
+    if (winner) {
       return (
         <Tag color="green" icon={<CheckCircleOutlined />}>
-          Variant Won
+          {comparisons.length > 1
+            ? `${comparisons.find(comparison => comparison.key === winner)?.label} Won`
+            : 'Variant Won'}
         </Tag>
       )
     } else {
@@ -159,8 +160,10 @@ export const ABTestResults: React.FC<ABTestResultsProps> = ({ onViewDetails }) =
       title: 'Statistical Significance',
       key: 'significance',
       render: (record: any) => {
-        const significance = record.statisticalSignificance
-        const isSignificant = significance >= 0.95
+        // Smallest p-value across variants, judged against the corrected threshold
+        const { comparisons, adjustedAlpha } = analyzeTest(record)
+        const pValue = Math.min(1, ...comparisons.map(comparison => comparison.successRate.pValue))
+        const isSignificant = comparisons.some(comparison => comparison.successRate.significant)
         
         return (
           <div style={{ textAlign: 'center' }}>
@@ -169,8 +172,12 @@ export const ABTestResults: React.FC<ABTestResultsProps> = ({ onViewDetails }) =
               fontWeight: 600,
               color: isSignificant ? '#52c41a' : '#fa8c16'
             }}>
-              {(significance * 100).toFixed(1)}%
+              p = {pValue < 0.0001 ? '< 0.0001' : pValue.toFixed(4)}
             </div>
+            <Text type="secondary" style={{ fontSize: '12px' }}>
+              α = {adjustedAlpha.toPrecision(2)}
+            </Text>
+            <br />
             <Tag 
               color={isSignificant ? 'green' : 'orange'}
               size="small"
@@ -235,10 +242,11 @@ export const ABTestResults: React.FC<ABTestResultsProps> = ({ onViewDetails }) =
   const getResultsSummary = () => {
     const tests = getFilteredTests()
     const completedTests = tests.filter(test => test.status === 'completed')
-    const significantTests = completedTests.filter(test => test.statisticalSignificance >= 0.95)
-    const variantWins = significantTests.filter(test => 
-      test.variantSuccessRate > test.originalSuccessRate
+    const outcomes = completedTests.map(test => analyzeTest(test))
+    const significantTests = outcomes.filter(outcome =>
+      outcome.recommendation === 'implement_variant' || outcome.recommendation === 'keep_original'
     )
+    const variantWins = significantTests.filter(outcome => outcome.winner)
     
     return {
       total: tests.length,
@@ -1,47 +1,66 @@
-import React from 'react'
-import { 
-  Modal, 
-  Card, 
-  Row, 
-  Col, 
-  Statistic, 
-  Progress, 
-  Typography, 
-  Tag, 
-  Alert, 
-  Divider,
+import React, { useMemo, useState } from 'react'
+import {
+  Modal,
+  Card,
+  Row,
+  Col,
+  Statistic,
+  Progress,
+  Typography,
+  Tag,
+  Alert,
   Space,
-  Button
+  Button,
+  Table,
+  Select,
+  Tooltip
 } from 'antd'
-import { 
-  TrophyOutlined, 
-  RiseOutlined, 
+import {
+  RiseOutlined,
   FallOutlined,
   InfoCircleOutlined,
   CheckCircleOutlined,
   CloseCircleOutlined
 } from '@ant-design/icons'
-import { PerformanceLineChart, PerformanceBarChart } from '@shared/components/charts/PerformanceChart'
+import { PerformanceBarChart } from '@shared/components/charts/PerformanceChart'
 import { useGetABTestAnalysisQuery } from '@shared/store/api/templateAnalyticsApi'
+import type { ABTestDetails } from '@shared/types/templateAnalytics'
+import {
+  analyzeExperiment,
+  analyzeTest,
+  armsFromTest,
+  type SequentialMethod,
+  type VariantComparison
+} from '@shared/utils/abTestStatistics'
 
-const { Title, Text } = Typography
+const { Text } = Typography
 
 interface StatisticalAnalysisPanelProps {
   visible: boolean
   onCancel: () => void
-  testData: any
+  testData: ABTestDetails | null
 }
 
+const percent = (value: number, digits = 1) => `${(value * 100).toFixed(digits)}%`
+const formatPValue = (pValue: number) => (pValue < 0.0001 ? '< 0.0001' : pValue.toFixed(4))
+
 export const StatisticalAnalysisPanel: React.FC<StatisticalAnalysisPanelProps> = ({
   visible,
   onCancel,
   testData
 }) => {
-  const { data: analysis, isLoading } = useGetABTestAnalysisQuery(
-    testData?.id, 
+  const [sequentialMethod, setSequentialMethod] = useState<SequentialMethod>('obrien-fleming')
+  const { data: analysis } = useGetABTestAnalysisQuery(
+    testData?.id ?? 0,
     { skip: !testData?.id }
   )
 
+  const arms = useMemo(() => (testData ? armsFromTest(testData, analysis) : []), [testData, analysis])
+  const stats = useMemo(
+    () => (testData ? analyzeTest(testData, analysis, sequentialMethod) : analyzeExperiment([])),
+    [testData, analysis, sequentialMethod]
+  )
+
   if (!testData) return null
 
   const getRecommendationColor = (recommendation: string) => {
@@ -74,30 +93,64 @@ export const StatisticalAnalysisPanel: React.FC<StatisticalAnalysisPanelProps> =
     }
   }
 
-  const calculateImprovement = () => {
-    if (!analysis) return 0
-    const originalRate = analysis.originalMetrics.successRate
-    const variantRate = analysis.variantMetrics.successRate
-    return ((variantRate - originalRate) / originalRate * 100)
-  }
+  const control = arms[0]
+  const isMultiVariant = stats.comparisons.length > 1
+  // The comparison shown in detail: the winner, otherwise the best-performing variant
+  const focus: VariantComparison | undefined =
+    stats.comparisons.find(comparison => comparison.key === stats.winner) ??
+    [...stats.comparisons].sort((a, b) => b.successRate.difference - a.successRate.difference)[0]
+  const isStatisticallySignificant = Boolean(focus?.successRate.significant)
+  const totalSamples = arms.reduce((sum, arm) => sum + arm.trials, 0)
 
-  const isStatisticallySignificant = analysis?.statisticalSignificance >= 0.95
+  const comparisonData = arms.map(arm => ({
+    arm: arm.label,
+    successRate: arm.trials > 0 ? (arm.successes / arm.trials) * 100 : 0
+  }))
 
-  const comparisonData = [
+  const variantColumns = [
+    {
+      title: 'Variant',
+      dataIndex: 'label',
+      key: 'label',
+      render: (label: string, record: VariantComparison) => (
+        <Space>
+          <Text strong>{label}</Text>
+          {record.key === stats.winner && <Tag color="green">Winner</Tag>}
+        </Space>
+      )
+    },
+    {
+      title: 'Success Rate',
+      key: 'rate',
+      render: (record: VariantComparison) => percent(record.successRate.variantRate)
+    },
+    {
+      title: 'Lift',
+      key: 'lift',
+      render: (record: VariantComparison) => (
+        <Text style={{ color: record.successRate.difference >= 0 ? '#52c41a' : '#f5222d' }}>
+          {record.successRate.relativeLift >= 0 ? '+' : ''}{percent(record.successRate.relativeLift)}
+        </Text>
+      )
+    },
     {
-      metric: 'Success Rate',
-      original: analysis?.originalMetrics.successRate * 100 || 0,
-      variant: analysis?.variantMetrics.successRate * 100 || 0
+      title: 'P-Value',
+      key: 'pValue',
+      render: (record: VariantComparison) => (
+        <Tag color={record.successRate.significant ? 'green' : 'default'}>
+          {formatPValue(record.successRate.pValue)}
+        </Tag>
+      )
     },
     {
-      metric: 'Avg Confidence',
-      original: analysis?.originalMetrics.averageConfidenceScore * 100 || 0,
-      variant: analysis?.variantMetrics.averageConfidenceScore * 100 || 0
+      title: 'P(Beat Control)',
+      key: 'bayes',
+      render: (record: VariantComparison) => percent(record.probabilityToBeatControl)
     },
     {
-      metric: 'Response Time',
-      original: analysis?.originalMetrics.averageResponseTime || 0,
-      variant: analysis?.variantMetrics.averageResponseTime || 0
+      title: 'Power',
+      key: 'power',
+      render: (record: VariantComparison) => percent(record.power, 0)
     }
   ]
 
@@ -127,15 +180,15 @@ export const StatisticalAnalysisPanel: React.FC<StatisticalAnalysisPanelProps> =
             <Col span={6}>
               <Statistic
                 title="Total Samples"
-                value={testData.originalUsageCount + testData.variantUsageCount}
+                value={totalSamples}
                 suffix={`/ ${testData.minimumSampleSize}`}
               />
             </Col>
             <Col span={6}>
               <Statistic
-                title="Traffic Split"
-                value={`${testData.trafficSplitPercent}%`}
-                suffix="Variant"
+                title="Variants"
+                value={stats.comparisons.length}
+                suffix={isMultiVariant ? 'vs control' : `(${testData.trafficSplitPercent}% traffic)`}
               />
             </Col>
             <Col span={6}>
@@ -148,22 +201,26 @@ export const StatisticalAnalysisPanel: React.FC<StatisticalAnalysisPanelProps> =
         </Card>
 
         {/* Statistical Significance */}
-        {analysis && (
+        {focus && (
           <Alert
             message={
-              <Space>
-                <span>Statistical Significance:</span>
-                <Tag 
+              <Space wrap>
+                <span>Success rate:</span>
+                <Tag
                   color={isStatisticallySignificant ? 'green' : 'orange'}
                   icon={isStatisticallySignificant ? <CheckCircleOutlined /> : <InfoCircleOutlined />}
                 >
-                  {(analysis.statisticalSignificance * 100).toFixed(1)}%
+                  {isStatisticallySignificant ? 'Significant' : 'Not significant'}
                 </Tag>
-                <span>P-Value: {analysis.pValue.toFixed(4)}</span>
+                <span>z = {focus.successRate.zScore.toFixed(2)}</span>
+                <span>P-Value: {formatPValue(focus.successRate.pValue)}</span>
+                <Tooltip title="Significance threshold after correcting for multiple variants and for looking at a running test">
+                  <span>α = {stats.adjustedAlpha.toPrecision(2)}</span>
+                </Tooltip>
               </Space>
             }
             description={
-              isStatisticallySignificant 
+              isStatisticallySignificant
                 ? "The results are statistically significant. You can be confident in the findings."
                 : "The results are not yet statistically significant. Consider running the test longer."
             }
@@ -173,114 +230,190 @@ export const StatisticalAnalysisPanel: React.FC<StatisticalAnalysisPanelProps> =
           />
         )}
 
+        {/* Sequential testing */}
+        {testData.status === 'running' && (
+          <Card size="small" title="Interim Look" style={{ marginBottom: '16px' }}>
+            <Row gutter={16} align="middle">
+              <Col span={10}>
+                <Text type="secondary">Progress to planned sample</Text>
+                <Progress percent={Math.round(stats.informationFraction * 100)} size="small" />
+              </Col>
+              <Col span={7}>
+                <Statistic
+                  title="Threshold this look"
+                  value={stats.adjustedAlpha.toPrecision(2)}
+                  suffix={`of ${stats.alpha.toFixed(2)}`}
+                />
+              </Col>
+              <Col span={7}>
+                <Text type="secondary">Peeking correction</Text>
+                <Select
+                  value={sequentialMethod}
+                  onChange={setSequentialMethod}
+                  style={{ width: '100%' }}
+                  options={[
+                    { value: 'obrien-fleming', label: "O'Brien-Fleming" },
+                    { value: 'pocock', label: 'Pocock' },
+                    { value: 'none', label: 'None (fixed horizon)' }
+                  ]}
+                />
+              </Col>
+            </Row>
+          </Card>
+        )}
+
         {/* Performance Comparison */}
-        <Row gutter={16} style={{ marginBottom: '16px' }}>
-          <Col span={12}>
-            <Card title="Original Template Performance">
-              <Row gutter={16}>
-                <Col span={12}>
-                  <Statistic
-                    title="Success Rate"
-                    value={(testData.originalSuccessRate * 100).toFixed(1)}
-                    suffix="%"
-                    valueStyle={{ color: '#1890ff' }}
-                  />
-                </Col>
-                <Col span={12}>
-                  <Statistic
-                    title="Sample Size"
-                    value={testData.originalUsageCount}
-                    valueStyle={{ color: '#1890ff' }}
-                  />
-                </Col>
-              </Row>
-            </Card>
-          </Col>
-          <Col span={12}>
-            <Card title="Variant Template Performance">
-              <Row gutter={16}>
-                <Col span={12}>
-                  <Statistic
-                    title="Success Rate"
-                    value={(testData.variantSuccessRate * 100).toFixed(1)}
-                    suffix="%"
-                    valueStyle={{ color: '#52c41a' }}
-                    prefix={
-                      calculateImprovement() > 0 ? <RiseOutlined /> : 
-                      calculateImprovement() < 0 ? <FallOutlined /> : null
-                    }
-                  />
-                </Col>
-                <Col span={12}>
-                  <Statistic
-                    title="Sample Size"
-                    value={testData.variantUsageCount}
-                    valueStyle={{ color: '#52c41a' }}
-                  />
-                </Col>
-              </Row>
-            </Card>
-          </Col>
-        </Row>
+        {isMultiVariant ? (
+          <Card title={`Variants vs ${control?.label ?? 'Original'} (${control ? percent(control.successes / Math.max(1, control.trials)) : '—'} success)`} style={{ marginBottom: '16px' }}>
+            <Table
+              columns={variantColumns}
+              dataSource={stats.comparisons}
+              rowKey="key"
+              pagination={false}
+              size="small"
+            />
+          </Card>
+        ) : (
+          <Row gutter={16} style={{ marginBottom: '16px' }}>
+            {arms.map((arm, index) => (
+              <Col span={12} key={arm.key}>
+                <Card title={`${arm.label} Template Performance`}>
+                  <Row gutter={16}>
+                    <Col span={12}>
+                      <Statistic
+                        title="Success Rate"
+                        value={arm.trials > 0 ? ((arm.successes / arm.trials) * 100).toFixed(1) : '0.0'}
+                        suffix="%"
+                        valueStyle={{ color: index === 0 ? '#1890ff' : '#52c41a' }}
+                        prefix={
+                          index > 0 && focus
+                            ? focus.successRate.difference > 0 ? <RiseOutlined /> : focus.successRate.difference < 0 ? <FallOutlined /> : null
+                            : null
+                        }
+                      />
+                    </Col>
+                    <Col span={12}>
+                      <Statistic
+                        title="Sample Size"
+                        value={arm.trials}
+                        valueStyle={{ color: index === 0 ? '#1890ff' : '#52c41a' }}
+                      />
+                    </Col>
+                  </Row>
+                </Card>
+              </Col>
+            ))}
+          </Row>
+        )}
 
         {/* Improvement Metrics */}
-        {analysis && (
-          <Card title="Performance Improvement" style={{ marginBottom: '16px' }}>
+        {focus && (
+          <Card title={isMultiVariant ? `Performance Improvement: ${focus.label}` : 'Performance Improvement'} style={{ marginBottom: '16px' }}>
             <Row gutter={16}>
-              <Col span={8}>
+              <Col span={6}>
                 <Statistic
                   title="Relative Improvement"
-                  value={calculateImprovement().toFixed(2)}
+                  value={(focus.successRate.relativeLift * 100).toFixed(2)}
                   suffix="%"
-                  valueStyle={{ 
-                    color: calculateImprovement() > 0 ? '#52c41a' : '#f5222d' 
+                  valueStyle={{
+                    color: focus.successRate.difference > 0 ? '#52c41a' : '#f5222d'
                   }}
                   prefix={
-                    calculateImprovement() > 0 ? <RiseOutlined /> : <FallOutlined />
+                    focus.successRate.difference > 0 ? <RiseOutlined /> : <FallOutlined />
                   }
                 />
               </Col>
-              <Col span={8}>
-                <Statistic
-                  title="Effect Size"
-                  value={analysis.effectSize.toFixed(3)}
-                  valueStyle={{ color: '#722ed1' }}
-                />
+              <Col span={6}>
+                <Tooltip title="Cohen's h for the difference in success rates">
+                  <Statistic
+                    title="Effect Size"
+                    value={focus.successRate.effectSize.toFixed(3)}
+                    valueStyle={{ color: '#722ed1' }}
+                  />
+                </Tooltip>
               </Col>
-              <Col span={8}>
+              <Col span={6}>
                 <div>
                   <Text strong>Confidence Interval</Text>
-                  <div style={{ fontSize: '24px', fontWeight: 600, color: '#fa8c16' }}>
-                    [{analysis.confidenceInterval.lower.toFixed(2)}, {analysis.confidenceInterval.upper.toFixed(2)}]
+                  <div style={{ fontSize: '20px', fontWeight: 600, color: '#fa8c16' }}>
+                    [{(focus.successRate.confidenceInterval.lower * 100).toFixed(2)}, {(focus.successRate.confidenceInterval.upper * 100).toFixed(2)}] pp
                   </div>
                 </div>
               </Col>
+              <Col span={6}>
+                <Tooltip title="Bayesian posterior probability with uniform priors">
+                  <Statistic
+                    title="Probability to Beat Control"
+                    value={(focus.probabilityToBeatControl * 100).toFixed(1)}
+                    suffix="%"
+                    valueStyle={{ color: focus.probabilityToBeatControl >= 0.95 ? '#52c41a' : '#1890ff' }}
+                  />
+                </Tooltip>
+              </Col>
             </Row>
           </Card>
         )}
 
+        {/* Response Time */}
+        {focus && (
+          <Card title="Response Time (Welch's t-test)" style={{ marginBottom: '16px' }}>
+            {focus.responseTime ? (
+              <Row gutter={16}>
+                <Col span={6}>
+                  <Statistic
+                    title="Difference"
+                    value={focus.responseTime.difference.toFixed(0)}
+                    suffix="ms"
+                    valueStyle={{ color: focus.responseTime.difference <= 0 ? '#52c41a' : '#f5222d' }}
+                  />
+                </Col>
+                <Col span={6}>
+                  <Statistic title="t" value={focus.responseTime.tStatistic.toFixed(2)} suffix={`(df ${focus.responseTime.degreesOfFreedom.toFixed(0)})`} />
+                </Col>
+                <Col span={6}>
+                  <Statistic
+                    title="P-Value"
+                    value={formatPValue(focus.responseTime.pValue)}
+                    valueStyle={{ color: focus.responseTime.significant ? '#52c41a' : undefined }}
+                  />
+                </Col>
+                <Col span={6}>
+                  <Text strong>Confidence Interval</Text>
+                  <div style={{ fontSize: '20px', fontWeight: 600, color: '#fa8c16' }}>
+                    [{focus.responseTime.confidenceInterval.lower.toFixed(0)}, {focus.responseTime.confidenceInterval.upper.toFixed(0)}] ms
+                  </div>
+                </Col>
+              </Row>
+            ) : (
+              <Text type="secondary">
+                Response time spread is not reported for this test, so the difference in means can't be tested.
+              </Text>
+            )}
+          </Card>
+        )}
+
         {/* Recommendation */}
-        {analysis && (
+        {focus && (
           <Card title="Recommendation" style={{ marginBottom: '16px' }}>
             <Space direction="vertical" style={{ width: '100%' }}>
-              <Tag 
-                color={getRecommendationColor(analysis.recommendation)}
-                icon={getRecommendationIcon(analysis.recommendation)}
+              <Tag
+                color={getRecommendationColor(stats.recommendation)}
+                icon={getRecommendationIcon(stats.recommendation)}
                 style={{ fontSize: '16px', padding: '8px 16px' }}
               >
-                {getRecommendationText(analysis.recommendation)}
+                {getRecommendationText(stats.recommendation)}
               </Tag>
-              
-              {analysis.recommendation === 'implement_variant' && (
+
+              {stats.recommendation === 'implement_variant' && (
                 <Alert
-                  message="Variant is performing significantly better"
+                  message={`${focus.label} is performing significantly better`}
                   description="The variant template shows statistically significant improvement. Consider implementing it as the new default."
                   type="success"
                   showIcon
                 />
               )}
-              
-              {analysis.recommendation === 'keep_original' && (
+
+              {stats.recommendation === 'keep_original' && (
                 <Alert
                   message="Original template is performing better"
                   description="The original template is performing better than the variant. Keep using the original template."
@@ -288,8 +421,8 @@ export const StatisticalAnalysisPanel: React.FC<StatisticalAnalysisPanelProps> =
                   showIcon
                 />
               )}
-              
-              {analysis.recommendation === 'continue_test' && (
+
+              {stats.recommendation === 'continue_test' && (
                 <Alert
                   message="Continue testing for more data"
                   description="The test needs more samples to reach statistical significance. Continue running the test."
@@ -297,16 +430,22 @@ export const StatisticalAnalysisPanel: React.FC<StatisticalAnalysisPanelProps> =
                   showIcon
                 />
               )}
+
+              {analysis && analysis.recommendation !== stats.recommendation && (
+                <Text type="secondary">
+                  The server analysis recommends “{getRecommendationText(analysis.recommendation)}” without the peeking and multiple-variant corrections.
+                </Text>
+              )}
             </Space>
           </Card>
         )}
 
         {/* Performance Comparison Chart */}
-        <Card title="Performance Comparison">
+        <Card title="Success Rate by Arm">
           <PerformanceBarChart
             data={comparisonData}
-            xAxisKey="metric"
-            yAxisKey="original"
+            xAxisKey="arm"
+            yAxisKey="successRate"
             height={300}
             color="#1890ff"
           />
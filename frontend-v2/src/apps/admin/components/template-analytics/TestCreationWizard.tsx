@@ -19,8 +19,11 @@ import {
   ExperimentOutlined, 
   SettingOutlined, 
   CheckCircleOutlined,
-  InfoCircleOutlined
+  InfoCircleOutlined,
+  PlusOutlined,
+  MinusCircleOutlined
 } from '@ant-design/icons'
+import { requiredSampleSize } from '@shared/utils/abTestStatistics'
 
 const { Step } = Steps
 const { Title, Text, Paragraph } = Typography
@@ -41,6 +44,28 @@ export const TestCreationWizard: React.FC<TestCreationWizardProps> = ({
   const [form] = Form.useForm()
   const [formData, setFormData] = useState<any>({})
 
+  const confidenceLevel = Form.useWatch('confidenceLevel', form) ?? 95
+  const trafficSplit = Form.useWatch('trafficSplit', form) ?? 50
+  const baselineRate = Form.useWatch('baselineRate', form) ?? 80
+  const minimumDetectableEffect = Form.useWatch('minimumDetectableEffect', form) ?? 5
+  const desiredPower = Form.useWatch('desiredPower', form) ?? 80
+
+  // Sample size needed to detect the chosen lift, sized for the smallest
+  // variant's share of traffic and corrected for the number of variants
+  const additionalVariants: Array<{ trafficSplit?: number }> = formData.additionalVariants ?? []
+  const variantShares = [trafficSplit, ...additionalVariants.map(variant => variant.trafficSplit ?? 0)]
+  const controlShare = 100 - variantShares.reduce((sum, share) => sum + share, 0)
+  const sampleSizePlan = controlShare > 0
+    ? requiredSampleSize({
+        baselineRate: baselineRate / 100,
+        minimumDetectableEffect: minimumDetectableEffect / 100,
+        alpha: 1 - confidenceLevel / 100,
+        power: desiredPower / 100,
+        allocationRatio: Math.min(...variantShares) / controlShare,
+        variantCount: variantShares.length
+      })
+    : undefined
+
   const handleNext = async () => {
     try {
       const values = await form.validateFields()
@@ -163,6 +188,41 @@ export const TestCreationWizard: React.FC<TestCreationWizardProps> = ({
                 placeholder="Describe the key changes in this variant..."
               />
             </Form.Item>
+
+            <Form.List name="additionalVariants">
+              {(fields, { add, remove }) => (
+                <>
+                  {fields.map((field, index) => (
+                    <Card
+                      key={field.key}
+                      size="small"
+                      title={`Variant ${String.fromCharCode(66 + index + 1)}`}
+                      extra={<MinusCircleOutlined onClick={() => remove(field.name)} />}
+                      style={{ marginBottom: '16px' }}
+                    >
+                      <Form.Item
+                        name={[field.name, 'content']}
+                        label="Template Content"
+                        rules={[{ required: true, message: 'Please enter variant content' }]}
+                      >
+                        <TextArea rows={4} style={{ fontFamily: 'monospace' }} />
+                      </Form.Item>
+                      <Form.Item
+                        name={[field.name, 'trafficSplit']}
+                        label="Traffic (%)"
+                        initialValue={10}
+                        rules={[{ required: true, message: 'Please enter traffic share' }]}
+                      >
+                        <InputNumber min={1} max={90} style={{ width: '100%' }} />
+                      </Form.Item>
+                    </Card>
+                  ))}
+                  <Button type="dashed" block icon={<PlusOutlined />} onClick={() => add()}>
+                    Add Another Variant
+                  </Button>
+                </>
+              )}
+            </Form.List>
           </Form>
         </div>
       )
@@ -181,7 +241,16 @@ export const TestCreationWizard: React.FC<TestCreationWizardProps> = ({
                   name="trafficSplit"
                   label="Traffic Split (%)"
                   initialValue={50}
-                  rules={[{ required: true, message: 'Please enter traffic split' }]}
+                  rules={[
+                    { required: true, message: 'Please enter traffic split' },
+                    {
+                      validator: (_, value) =>
+                        controlShare > 0 || value === undefined
+                          ? Promise.resolve()
+                          : Promise.reject(new Error('Variants leave no traffic for the original'))
+                    }
+                  ]}
+                  extra={additionalVariants.length > 0 ? `First variant; original keeps ${Math.max(0, controlShare)}%` : undefined}
                 >
                   <Select size="large">
                     <Select.Option value={10}>10% Variant / 90% Original</Select.Option>
@@ -199,7 +268,7 @@ export const TestCreationWizard: React.FC<TestCreationWizardProps> = ({
                 >
                   <InputNumber
                     min={100}
-                    max={10000}
+                    max={1000000}
                     step={100}
                     style={{ width: '100%' }}
                     size="large"
@@ -238,12 +307,61 @@ export const TestCreationWizard: React.FC<TestCreationWizardProps> = ({
               </Col>
             </Row>
 
-            <Alert
-              message="Statistical Power"
-              description="With these settings, you'll need approximately 1000 samples to detect a 5% improvement with 95% confidence."
-              type="info"
-              showIcon
-            />
+            <Divider orientation="left">Sample Size Planner</Divider>
+
+            <Row gutter={16}>
+              <Col span={8}>
+                <Form.Item name="baselineRate" label="Current Success Rate (%)" initialValue={80}>
+                  <InputNumber min={1} max={99} style={{ width: '100%' }} />
+                </Form.Item>
+              </Col>
+              <Col span={8}>
+                <Form.Item name="minimumDetectableEffect" label="Smallest Lift to Detect (%)" initialValue={5}>
+                  <InputNumber min={1} max={100} style={{ width: '100%' }} />
+                </Form.Item>
+              </Col>
+              <Col span={8}>
+                <Form.Item name="desiredPower" label="Power (%)" initialValue={80}>
+                  <Select>
+                    <Select.Option value={80}>80%</Select.Option>
+                    <Select.Option value={90}>90%</Select.Option>
+                    <Select.Option value={95}>95%</Select.Option>
+                  </Select>
+                </Form.Item>
+              </Col>
+            </Row>
+
+            {sampleSizePlan ? (
+              <Alert
+                message="Statistical Power"
+                description={
+                  <Space direction="vertical">
+                    <Text>
+                      To detect a {baselineRate}% → {(sampleSizePlan.variantRate * 100).toFixed(1)}% change
+                      with {desiredPower}% power at {confidenceLevel}% confidence you need about{' '}
+                      <Text strong>{sampleSizePlan.total.toLocaleString()}</Text> samples
+                      ({sampleSizePlan.perControl.toLocaleString()} original,{' '}
+                      {sampleSizePlan.perVariant.toLocaleString()} per variant).
+                    </Text>
+                    <Button
+                      size="small"
+                      onClick={() => form.setFieldValue('minimumSampleSize', sampleSizePlan.total)}
+                    >
+                      Use as Minimum Sample Size
+                    </Button>
+                  </Space>
+                }
+                type="info"
+                showIcon
+              />
+            ) : (
+              <Alert
+                message="Statistical Power"
+                description="Give the original some traffic and a lift that stays below 100% success to size the test."
+                type="warning"
+                showIcon
+              />
+            )}
           </Form>
         </div>
       )
@@ -280,7 +398,11 @@ export const TestCreationWizard: React.FC<TestCreationWizardProps> = ({
             <Row gutter={16}>
               <Col span={8}>
                 <Text strong>Traffic Split:</Text>
-                <div>{formData.trafficSplit}% Variant</div>
+                <div>
+                  {additionalVariants.length > 0
+                    ? `${variantShares.map(share => `${share}%`).join(' / ')} across ${variantShares.length} variants`
+                    : `${formData.trafficSplit}% Variant`}
+                </div>
               </Col>
               <Col span={8}>
                 <Text strong>Sample Size:</Text>
@@ -5,11 +5,13 @@ import {
   WalletOutlined,
   LineChartOutlined,
   BulbOutlined,
-  BarChartOutlined
+  BarChartOutlined,
+  AuditOutlined
 } from '@ant-design/icons'
 import { PageLayout } from '@shared/components/core/Layout'
 import { CostDashboard } from '@shared/components/cost/CostDashboard'
 import { BudgetManagementComponent } from '@shared/components/cost/BudgetManagement'
+import { BudgetOverridesTable } from '@shared/components/cost/BudgetOverridesTable'
 import { useCostMetrics, useCostAlerts } from '@shared/hooks/useCostMetrics'
 
 const { Title, Text } = Typography
@@ -208,6 +210,16 @@ export default function CostManagement() {
       ),
       children: <BudgetManagementComponent />
     },
+    {
+      key: 'overrides',
+      label: (
+        <span>
+          <AuditOutlined />
+          Budget Overrides
+        </span>
+      ),
+      children: <BudgetOverridesTable />
+    },
     {
       key: 'analytics',
       label: (
@@ -30,6 +30,7 @@ import {
   SettingOutlined,
   FilterOutlined,
   ExportOutlined,
+  ImportOutlined,
   AppstoreOutlined,
   EyeOutlined,
   DatabaseOutlined,
@@ -51,6 +52,7 @@ import ValidationDashboard from '../components/ValidationDashboard'
 import QualityScoreVisualization from '../components/QualityScoreVisualization'
 import MetadataAnalyticsDashboard from '../components/MetadataAnalyticsDashboard'
 import MetadataExportManager from '../components/MetadataExportManager'
+import MetadataImportWizard from '../components/MetadataImportWizard'
 import EnhancedAPITester from '../components/EnhancedAPITester'
 import AccessibleBusinessMetadata from '../components/AccessibleBusinessMetadata'
 import VirtualizedBusinessTable from '../components/VirtualizedBusinessTable'
@@ -74,6 +76,7 @@ export const EnhancedBusinessMetadata: React.FC = () => {
   const [advancedSearchVisible, setAdvancedSearchVisible] = useState(false)
   const [validationDrawerVisible, setValidationDrawerVisible] = useState(false)
   const [exportModalVisible, setExportModalVisible] = useState(false)
+  const [importModalVisible, setImportModalVisible] = useState(false)
   const [selectedTableForValidation, setSelectedTableForValidation] = useState<BusinessTableInfo | null>(null)
   const [activeTab, setActiveTab] = useState('tables')
   const [tableToDelete, setTableToDelete] = useState<BusinessTableInfo | null>(null)
@@ -310,6 +313,9 @@ export const EnhancedBusinessMetadata: React.FC = () => {
           <Button icon={<ReloadOutlined />} onClick={handleRefresh} loading={tablesLoading}>
             Refresh
           </Button>
+          <Button icon={<ImportOutlined />} onClick={() => setImportModalVisible(true)}>
+            Import
+          </Button>
           <Button icon={<ExportOutlined />} onClick={() => setExportModalVisible(true)}>
             Export
           </Button>
@@ -736,6 +742,12 @@ export const EnhancedBusinessMetadata: React.FC = () => {
         onClose={() => setExportModalVisible(false)}
         selectedTableIds={selectedTableIds}
       />
+
+      {/* Import Wizard */}
+      <MetadataImportWizard
+        visible={importModalVisible}
+        onClose={() => setImportModalVisible(false)}
+      />
     </PageLayout>
   )
 }
@@ -26,7 +26,6 @@ import {
 import {
   Dashboard,
   SecurityProvider,
-  PWAManager,
   usePWA,
   InstallButton,
   OfflineStatus,
@@ -417,13 +416,11 @@ const EnterpriseDashboardContent: React.FC = () => {
   )
 }
 
-// Wrap with all providers for enterprise features
+// Wrap with all providers for enterprise features (PWAManager wraps the whole app)
 export default function EnterpriseDashboard() {
   return (
     <SecurityProvider>
-      <PWAManager enablePushNotifications autoUpdate>
-        <EnterpriseDashboardContent />
-      </PWAManager>
+      <EnterpriseDashboardContent />
     </SecurityProvider>
   )
 }
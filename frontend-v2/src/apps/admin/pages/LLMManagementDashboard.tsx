@@ -22,12 +22,14 @@ import {
   DatabaseOutlined,
   ApiOutlined,
   RobotOutlined,
-  EyeOutlined
+  EyeOutlined,
+  BranchesOutlined
 } from '@ant-design/icons'
 import { AIFeatureWrapper } from '@shared/components/ai/common/AIFeatureWrapper'
 import {
   LLMProviderManager,
   LLMModelsManager,
+  LLMRoutingPolicyManager,
   ModelPerformanceAnalytics,
   CostOptimizationPanel,
   AIConfigurationManager
@@ -47,6 +49,7 @@ const { Title, Text } = Typography
  * Features:
  * - Real-time provider health monitoring
  * - Model configuration management
+ * - Routing policy simulator with fallback chains
  * - Performance analytics and metrics
  * - Cost tracking and optimization
  * - Usage analytics and reporting
@@ -174,6 +177,18 @@ export const LLMManagementDashboard: React.FC = () => {
         />
       )
     },
+    {
+      key: 'routing',
+      label: (
+        <Space>
+          <BranchesOutlined />
+          <span>Routing Simulator</span>
+        </Space>
+      ),
+      children: (
+        <LLMRoutingPolicyManager showSimulator={true} />
+      )
+    },
     {
       key: 'performance',
       label: (
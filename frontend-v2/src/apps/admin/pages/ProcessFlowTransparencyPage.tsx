@@ -11,7 +11,11 @@ import {
   Select,
   DatePicker,
   Statistic,
-  Badge
+  Badge,
+  Table,
+  Input,
+  Tag,
+  Tooltip
 } from 'antd'
 import {
   EyeOutlined,
@@ -24,21 +28,38 @@ import {
   ThunderboltOutlined,
   DollarOutlined,
   ClockCircleOutlined,
-  CheckCircleOutlined
+  CheckCircleOutlined,
+  DiffOutlined,
+  RedoOutlined
 } from '@ant-design/icons'
 import {
   ProcessFlowDashboard,
   ProcessFlowAnalytics,
   ProcessFlowSessionViewer,
+  ProcessFlowSessionComparison,
+  ProcessFlowReplayModal,
   TokenUsageAnalyzer,
   PerformanceMetricsViewer
 } from '@shared/components/ai/transparency'
-import { useGetProcessFlowDashboardQuery, useGetProcessFlowAnalyticsQuery } from '@shared/store/api/transparencyApi'
+import {
+  useGetProcessFlowDashboardQuery,
+  useGetProcessFlowAnalyticsQuery,
+  useGetProcessFlowSessionsQuery
+} from '@shared/store/api/transparencyApi'
 import dayjs from 'dayjs'
 
 const { Title, Text } = Typography
 const { RangePicker } = DatePicker
 
+type SessionListItem = {
+  sessionId: string
+  userQuery: string
+  status: string
+  overallConfidence?: number
+  totalDurationMs?: number
+  startTime: string
+}
+
 /**
  * ProcessFlowTransparencyPage - Dedicated admin page for ProcessFlow transparency
  * 
@@ -55,6 +76,12 @@ export const ProcessFlowTransparencyPage: React.FC = () => {
   const [timeRange, setTimeRange] = useState(7)
   const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null)
   const [dateRange, setDateRange] = useState<[dayjs.Dayjs, dayjs.Dayjs] | null>(null)
+  const [sessionSearch, setSessionSearch] = useState('')
+  const [sessionPage, setSessionPage] = useState(1)
+  // Sessions ticked for comparison, in the order they were picked (A then B)
+  const [compareSelection, setCompareSelection] = useState<string[]>([])
+  const [comparedSessions, setComparedSessions] = useState<[string, string] | null>(null)
+  const [replaySession, setReplaySession] = useState<SessionListItem | null>(null)
 
   // API queries
   const { data: dashboardData, isLoading: dashboardLoading, refetch: refetchDashboard } = 
@@ -79,11 +106,36 @@ export const ProcessFlowTransparencyPage: React.FC = () => {
       })
     })
 
+  const { data: sessionsData, isFetching: sessionsLoading, refetch: refetchSessions } =
+    useGetProcessFlowSessionsQuery({
+      page: sessionPage,
+      pageSize: 10,
+      ...(sessionSearch && { search: sessionSearch }),
+      ...(dateRange && {
+        dateFrom: dateRange[0].format('YYYY-MM-DD'),
+        dateTo: dateRange[1].format('YYYY-MM-DD')
+      }),
+      sortBy: 'startTime',
+      sortOrder: 'desc'
+    })
+
   const isLoading = dashboardLoading || analyticsLoading
 
   const handleRefresh = () => {
     refetchDashboard()
     refetchAnalytics()
+    refetchSessions()
+  }
+
+  const openComparison = (baseSessionId: string, candidateSessionId: string) => {
+    setComparedSessions([baseSessionId, candidateSessionId])
+    setActiveTab('compare')
+  }
+
+  const handleReplayed = (baseSessionId: string, replaySessionId: string) => {
+    setReplaySession(null)
+    refetchSessions()
+    openComparison(baseSessionId, replaySessionId)
   }
 
   const handleTimeRangeChange = (value: number) => {
@@ -204,12 +256,120 @@ export const ProcessFlowTransparencyPage: React.FC = () => {
     <div>
       <Alert
         message="Session Viewer"
-        description="Select a session ID to view detailed ProcessFlow information, steps, logs, and transparency data."
+        description="Select a session to view detailed ProcessFlow information, steps, logs, and transparency data. Tick two sessions to compare them, or replay one with another model."
         type="info"
         showIcon
         style={{ marginBottom: 16 }}
       />
       
+      <Card
+        style={{ marginBottom: 16 }}
+        title="Sessions"
+        extra={
+          <Space>
+            <Input.Search
+              placeholder="Search questions"
+              allowClear
+              onSearch={value => {
+                setSessionSearch(value)
+                setSessionPage(1)
+              }}
+              style={{ width: 240 }}
+            />
+            <Tooltip title="Tick two sessions; the first ticked is A">
+              <Button
+                type="primary"
+                icon={<DiffOutlined />}
+                disabled={compareSelection.length !== 2}
+                onClick={() => openComparison(compareSelection[0]!, compareSelection[1]!)}
+              >
+                Compare
+              </Button>
+            </Tooltip>
+          </Space>
+        }
+      >
+        <Table<SessionListItem>
+          size="small"
+          rowKey="sessionId"
+          loading={sessionsLoading}
+          dataSource={sessionsData?.sessions ?? []}
+          rowSelection={{
+            selectedRowKeys: compareSelection,
+            hideSelectAll: true,
+            onSelect: (record, selected) =>
+              setCompareSelection(prev =>
+                selected
+                  ? [...prev.filter(id => id !== record.sessionId), record.sessionId].slice(-2)
+                  : prev.filter(id => id !== record.sessionId)
+              )
+          }}
+          onRow={record => ({
+            onClick: () => setSelectedSessionId(record.sessionId),
+            style: { cursor: 'pointer' }
+          })}
+          pagination={{
+            current: sessionPage,
+            pageSize: 10,
+            total: sessionsData?.total ?? 0,
+            onChange: setSessionPage,
+            showSizeChanger: false
+          }}
+          columns={[
+            {
+              title: 'Question',
+              dataIndex: 'userQuery',
+              ellipsis: true,
+              render: (text: string, record) => (
+                <Space>
+                  {compareSelection.indexOf(record.sessionId) >= 0 && (
+                    <Tag color={compareSelection.indexOf(record.sessionId) === 0 ? 'blue' : 'purple'}>
+                      {compareSelection.indexOf(record.sessionId) === 0 ? 'A' : 'B'}
+                    </Tag>
+                  )}
+                  <Text strong={record.sessionId === selectedSessionId}>{text}</Text>
+                </Space>
+              )
+            },
+            {
+              title: 'Status',
+              dataIndex: 'status',
+              width: 110,
+              render: (status: string) => <Tag>{status}</Tag>
+            },
+            {
+              title: 'Duration',
+              dataIndex: 'totalDurationMs',
+              width: 100,
+              render: (ms?: number) => (ms !== undefined ? `${ms}ms` : '—')
+            },
+            {
+              title: 'Started',
+              dataIndex: 'startTime',
+              width: 170,
+              render: (time: string) => dayjs(time).format('YYYY-MM-DD HH:mm')
+            },
+            {
+              title: '',
+              key: 'replay',
+              width: 100,
+              render: (_: unknown, record) => (
+                <Button
+                  size="small"
+                  icon={<RedoOutlined />}
+                  onClick={event => {
+                    event.stopPropagation()
+                    setReplaySession(record)
+                  }}
+                >
+                  Replay
+                </Button>
+              )
+            }
+          ]}
+        />
+      </Card>
+
       {selectedSessionId ? (
         <ProcessFlowSessionViewer
           sessionId={selectedSessionId}
@@ -224,7 +384,7 @@ export const ProcessFlowTransparencyPage: React.FC = () => {
             <DatabaseOutlined style={{ fontSize: '48px', color: '#d9d9d9', marginBottom: '16px' }} />
             <Title level={4}>No Session Selected</Title>
             <Text type="secondary">
-              Enter a session ID to view detailed ProcessFlow information
+              Pick a session above to view detailed ProcessFlow information
             </Text>
           </div>
         </Card>
@@ -232,6 +392,25 @@ export const ProcessFlowTransparencyPage: React.FC = () => {
     </div>
   )
 
+  const renderCompareTab = () =>
+    comparedSessions ? (
+      <ProcessFlowSessionComparison
+        baseSessionId={comparedSessions[0]}
+        candidateSessionId={comparedSessions[1]}
+        onSwap={() => setComparedSessions([comparedSessions[1], comparedSessions[0]])}
+      />
+    ) : (
+      <Card>
+        <div style={{ textAlign: 'center', padding: '60px 0' }}>
+          <DiffOutlined style={{ fontSize: '48px', color: '#d9d9d9', marginBottom: '16px' }} />
+          <Title level={4}>No Sessions to Compare</Title>
+          <Text type="secondary">
+            Tick two sessions in the Session Viewer, or replay a session with another model
+          </Text>
+        </div>
+      </Card>
+    )
+
   const tabItems = [
     {
       key: 'dashboard',
@@ -282,6 +461,16 @@ export const ProcessFlowTransparencyPage: React.FC = () => {
         </Space>
       ),
       children: renderSessionViewerTab()
+    },
+    {
+      key: 'compare',
+      label: (
+        <Space>
+          <DiffOutlined />
+          <span>Compare</span>
+        </Space>
+      ),
+      children: renderCompareTab()
     }
   ]
 
@@ -361,6 +550,15 @@ export const ProcessFlowTransparencyPage: React.FC = () => {
         items={tabItems}
         size="large"
       />
+
+      {replaySession && (
+        <ProcessFlowReplayModal
+          open
+          session={replaySession}
+          onCancel={() => setReplaySession(null)}
+          onReplayed={handleReplayed}
+        />
+      )}
     </div>
   )
 }
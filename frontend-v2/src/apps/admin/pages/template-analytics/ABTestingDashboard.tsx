@@ -39,6 +39,7 @@ import {
   useGetABTestRecommendationsQuery
 } from '@shared/store/api/templateAnalyticsApi'
 import { MetricCard } from '@shared/components/charts/PerformanceChart'
+import { analyzeTest } from '@shared/utils/abTestStatistics'
 
 import TestCreationWizard from '../../components/template-analytics/TestCreationWizard'
 import StatisticalAnalysisPanel from '../../components/template-analytics/StatisticalAnalysisPanel'
@@ -75,7 +76,13 @@ export const ABTestingDashboard: React.FC = () => {
         endDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(), // 30 days
         createdBy: 'current-user', // Get from auth context
         minimumSampleSize: values.minimumSampleSize || 1000,
-        confidenceLevel: values.confidenceLevel || 95
+        confidenceLevel: values.confidenceLevel || 95,
+        ...(values.additionalVariants?.length && {
+          additionalVariants: values.additionalVariants.map((variant: any) => ({
+            templateContent: variant.content,
+            trafficSplitPercent: variant.trafficSplit
+          }))
+        })
       }).unwrap()
 
       setIsCreateModalVisible(false)
@@ -126,12 +133,16 @@ export const ABTestingDashboard: React.FC = () => {
     )
   }
 
-  const getSignificanceIndicator = (significance?: number) => {
-    if (!significance) return null
+  const getSignificanceIndicator = (test: any) => {
+    if (!test.originalUsageCount && !test.variantUsageCount && !test.variants?.length) return null
     
-    const isSignificant = significance >= 0.95
+    const { comparisons, adjustedAlpha, informationFraction } = analyzeTest(test)
+    const pValue = Math.min(1, ...comparisons.map(comparison => comparison.successRate.pValue))
+    const isSignificant = comparisons.some(comparison => comparison.successRate.significant)
     return (
-      <Tooltip title={`Statistical significance: ${(significance * 100).toFixed(1)}%`}>
+      <Tooltip
+        title={`p = ${pValue.toFixed(4)} against α = ${adjustedAlpha.toPrecision(2)} at ${Math.round(informationFraction * 100)}% of the planned sample`}
+      >
         <Tag color={isSignificant ? 'green' : 'orange'}>
           {isSignificant ? 'Significant' : 'Not Significant'}
         </Tag>
@@ -198,7 +209,7 @@ export const ABTestingDashboard: React.FC = () => {
               {((record.variantSuccessRate || 0) * 100).toFixed(1)}%
             </Text>
           </div>
-          {getSignificanceIndicator(record.statisticalSignificance)}
+          {getSignificanceIndicator(record)}
         </div>
       )
     },
@@ -251,8 +262,8 @@ export const ABTestingDashboard: React.FC = () => {
   const getDashboardMetrics = () => {
     const totalActive = activeTests?.length || 0
     const totalCompleted = completedTests?.length || 0
-    const significantTests = activeTests?.filter(test => 
-      test.statisticalSignificance && test.statisticalSignificance >= 0.95
+    const significantTests = activeTests?.filter(test =>
+      analyzeTest(test).comparisons.some(comparison => comparison.successRate.significant)
     ).length || 0
 
     return {
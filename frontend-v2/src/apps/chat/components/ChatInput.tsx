@@ -10,7 +10,8 @@ import {
   Tooltip,
   Dropdown,
   AutoComplete,
-  Mentions
+  Mentions,
+  message
 } from 'antd'
 import {
   SendOutlined,
@@ -37,13 +38,21 @@ import {
   useGetQueryTemplatesQuery,
   useGetBusinessContextQuery
 } from '@shared/store/api/chatApi'
+import { selectIsAdmin } from '@shared/store/auth'
 import type { QuerySuggestion } from '@shared/types/chat'
+import { useCostPreflight, type CostPreflight } from '../hooks/useCostPreflight'
+import { CostPreflightModal } from './CostPreflightModal'
 
 const { TextArea } = Input
 const { Text } = Typography
 
+export interface ChatSendOptions {
+  // Model picked over the default to stay within budget
+  preferredModel?: string
+}
+
 interface ChatInputProps {
-  onSend: (message: string) => void
+  onSend: (message: string, options?: ChatSendOptions) => void
   disabled?: boolean
   placeholder?: string
   maxLength?: number
@@ -64,8 +73,11 @@ export const ChatInput: React.FC<ChatInputProps> = ({
   const recentQueries = useAppSelector(selectRecentQueries)
   const favoriteQueries = useAppSelector(selectFavoriteQueries)
   const settings = useAppSelector(selectChatSettings)
+  const isAdmin = useAppSelector(selectIsAdmin)
 
   const [isRecording, setIsRecording] = useState(false)
+  const [preflight, setPreflight] = useState<CostPreflight | null>(null)
+  const { checkCost, recordOverride, isChecking, isRecording: isRecordingOverride } = useCostPreflight()
 
   // API queries for suggestions
   const { data: querySuggestions } = useGetQuerySuggestionsQuery(
@@ -103,12 +115,35 @@ export const ChatInput: React.FC<ChatInputProps> = ({
     }
   }
 
-  const handleSend = () => {
-    if (inputValue.trim() && !disabled) {
-      onSend(inputValue.trim())
-      dispatch(chatActions.setInputValue(''))
-      dispatch(chatActions.setShowSuggestions(false))
-      inputRef.current?.focus()
+  const send = (text: string, options?: ChatSendOptions) => {
+    onSend(text, options)
+    dispatch(chatActions.setInputValue(''))
+    dispatch(chatActions.setShowSuggestions(false))
+    setPreflight(null)
+    inputRef.current?.focus()
+  }
+
+  const handleSend = async () => {
+    const text = inputValue.trim()
+    if (!text || disabled || isChecking) return
+
+    // Check the estimated cost against the user's budgets before sending
+    const result = await checkCost(text)
+    if (result.level === 'ok') {
+      send(text)
+    } else {
+      setPreflight(result)
+    }
+  }
+
+  const handleOverride = async (reason: string) => {
+    if (!preflight) return
+    try {
+      await recordOverride(preflight, reason)
+      send(preflight.query)
+    } catch (error) {
+      console.error('Failed to record budget override:', error)
+      message.error('Could not record the budget override, so the question was not sent')
     }
   }
 
@@ -343,6 +378,7 @@ export const ChatInput: React.FC<ChatInputProps> = ({
             type="primary"
             icon={<SendOutlined />}
             onClick={handleSend}
+            loading={isChecking}
             disabled={disabled || !inputValue.trim()}
           >
             Send
@@ -350,6 +386,15 @@ export const ChatInput: React.FC<ChatInputProps> = ({
         </Space>
       </Space.Compact>
 
+      <CostPreflightModal
+        preflight={preflight}
+        canOverrideBlock={isAdmin}
+        submitting={isRecordingOverride}
+        onOverride={handleOverride}
+        onUseModel={(modelId) => preflight && send(preflight.query, { preferredModel: modelId })}
+        onCancel={() => setPreflight(null)}
+      />
+
       {/* Character Count */}
       <div style={{ textAlign: 'right', marginTop: 4 }}>
         <Text type="secondary" style={{ fontSize: '11px' }}>
@@ -1,5 +1,5 @@
-import React, { useState, useRef, useEffect } from 'react'
-import { Button, Input, Typography, Card, Space, Spin, message, Tooltip } from 'antd'
+import React, { useState, useRef, useEffect, useMemo } from 'react'
+import { Button, Input, Typography, Card, Space, Spin, message, Tooltip, Modal, Form, Alert } from 'antd'
 import {
   SendOutlined,
   StarOutlined,
@@ -10,21 +10,27 @@ import {
   ApiOutlined
 } from '@ant-design/icons'
 import { MessageList } from './MessageList'
-import { ChatInput } from './ChatInput'
+import { ChatInput, type ChatSendOptions } from './ChatInput'
 import { StreamingProgress } from './StreamingProgress'
 import { ConnectionStatus } from './ConnectionStatus'
 import { ProcessFlowViewer } from './ProcessFlowViewer'
+import { ClarificationCard } from './ClarificationCard'
 import { useProcessFlow } from '../hooks/useProcessFlow'
+import { useConversationBranching } from '../hooks/useConversationBranching'
+import { useAmbiguityResolution } from '../hooks/useAmbiguityResolution'
+import { useOfflineChat } from '../hooks/useOfflineChat'
 import { useAppSelector, useAppDispatch } from '@shared/hooks'
 import { 
   selectMessages, 
   selectCurrentConversation, 
   selectIsLoading,
   selectStreamingProgress,
+  selectConversations,
   chatActions 
 } from '@shared/store/chat'
-import { useSendMessageMutation, useExecuteEnhancedQueryMutation } from '@shared/store/api/chatApi'
+import { useSendMessageMutation, useSaveMessagesMutation, useExecuteEnhancedQueryMutation } from '@shared/store/api/chatApi'
 import { socketService } from '@shared/services/socketService'
+import type { ChatMessage, Conversation } from '@shared/types/chat'
 
 const { Title, Text } = Typography
 
@@ -35,6 +41,11 @@ interface ChatInterfaceProps {
   className?: string
 }
 
+interface SendOptions extends ChatSendOptions {
+  conversation?: Conversation | null
+  parentMessageId?: string
+}
+
 export const ChatInterface: React.FC<ChatInterfaceProps> = ({
   conversationId,
   showHeader = true,
@@ -46,20 +57,52 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
   const currentConversation = useAppSelector(selectCurrentConversation)
   const isLoading = useAppSelector(selectIsLoading)
   const streamingProgress = useAppSelector(selectStreamingProgress)
+  const conversations = useAppSelector(selectConversations)
   
   const [sendMessage] = useSendMessageMutation()
+  const [saveMessages] = useSaveMessagesMutation()
   const [executeEnhancedQuery] = useExecuteEnhancedQueryMutation()
   const [isFirstVisit, setIsFirstVisit] = useState(false)
+  const { forkFromMessage, isForking } = useConversationBranching()
+  const {
+    pendingClarification,
+    resolveAmbiguities,
+    rememberClarifications,
+    clearPendingClarification
+  } = useAmbiguityResolution()
+  const { isOnline, queuedCount, queueQuestion } = useOfflineChat(async (item) => {
+    const clarifications = await resolveAmbiguities(item.query, item.messageId)
+    // A clarification card pauses it; answering the card sends it
+    if (!clarifications) return true
+    return executeQuery(item.query, item.messageId, clarifications)
+  })
+  const [branchMessageId, setBranchMessageId] = useState<string | null>(null)
+  const [branchForm] = Form.useForm<{ label?: string; question?: string }>()
+  // Models picked in the cost pre-flight, keyed by the message they were picked for
+  const preferredModelsRef = useRef<Record<string, string>>({})
+  // Answers arrive after the question was added, so they look it up in the latest messages
+  const messagesRef = useRef(messages)
+  messagesRef.current = messages
+
+  // Branches forked from answers in this conversation, keyed by message id
+  const branchCounts = useMemo(() => {
+    const counts: Record<string, number> = {}
+    conversations.forEach(conversation => {
+      const branch = conversation.branch
+      if (branch && branch.parentConversationId === currentConversation?.id) {
+        counts[branch.forkedFromMessageId] = (counts[branch.forkedFromMessageId] ?? 0) + 1
+      }
+    })
+    return counts
+  }, [conversations, currentConversation?.id])
 
   // Process Flow Management
   const {
-    processData,
+    sessionId: processFlowSessionId,
     isVisible: isProcessFlowVisible,
     showProcessFlow,
-    hideProcessFlow,
-    updateStep,
-    setTransparencyData
-  } = useProcessFlow({ enableRealTime: true })
+    hideProcessFlow
+  } = useProcessFlow()
 
   // Example queries for first-time users
   const exampleQueries = [
@@ -103,32 +146,74 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     }
   }, [conversationId])
 
-  const handleSendMessage = async (content: string) => {
+  const handleSendMessage = async (content: string, options: SendOptions = {}) => {
     if (!content.trim()) return
 
-    try {
-      // Create optimistic message
-      const tempMessage = {
-        id: `temp-${Date.now()}`,
-        content,
-        type: 'user' as const,
-        timestamp: new Date().toISOString(),
-        status: 'sending' as const
-      }
+    // A fork is sent before the selectors catch up, so it passes its own conversation
+    const conversation = options.conversation ?? currentConversation
+    const parentMessageId = options.parentMessageId ?? messages[messages.length - 1]?.id
 
-      dispatch(chatActions.addMessage(tempMessage))
+    // Create optimistic message; its id is kept so answers and branches can point back to it
+    const tempMessage: ChatMessage = {
+      id: `user-${Date.now()}`,
+      conversationId: conversation?.id ?? conversationId ?? '',
+      content,
+      type: 'user',
+      timestamp: new Date(),
+      status: 'sending',
+      parentMessageId
+    }
+    const queuedAt = tempMessage.timestamp.toISOString()
 
-      // Show process flow for enhanced queries
-      const sessionId = `session-${Date.now()}`;
-      showProcessFlow(sessionId, {
-        query: content,
-        userId: 'current-user' // Replace with actual user ID
-      });
+    if (options.preferredModel) {
+      preferredModelsRef.current[tempMessage.id] = options.preferredModel
+    }
 
-      // Execute enhanced query with streaming support
+    // Offline, the question waits in the queue until the connection returns
+    if (!isOnline) {
+      dispatch(chatActions.addMessage({
+        ...tempMessage,
+        status: 'queued',
+        offline: { queuedAt }
+      }))
+      await queueQuestion(tempMessage.id, content, queuedAt)
+      return
+    }
+
+    dispatch(chatActions.addMessage(tempMessage))
+
+    // Pause on a clarification card if the question has unresolved ambiguous terms
+    const clarifications = await resolveAmbiguities(content, tempMessage.id, conversation)
+    if (clarifications) {
+      await executeQuery(content, tempMessage.id, clarifications, options.conversation)
+    }
+  }
+
+  const executeQuery = async (
+    content: string,
+    messageId: string,
+    clarifications: Record<string, string>,
+    conversationOverride?: Conversation | null
+  ): Promise<boolean> => {
+    const conversation = conversationOverride ?? currentConversation
+    const targetConversationId = conversationOverride?.id || conversationId || currentConversation?.id
+    // Kept by message so it survives a pause for clarification
+    const preferredModel = preferredModelsRef.current[messageId]
+    delete preferredModelsRef.current[messageId]
+
+    // Subscribe before sending so the ProcessFlow steps show up while the query runs
+    const sessionId = `session-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+    await socketService.joinQuerySession(sessionId)
+    showProcessFlow(sessionId)
+
+    try {
       const result = await executeEnhancedQuery({
         query: content,
-        conversationId: conversationId || currentConversation?.id,
+        sessionId,
+        conversationId: targetConversationId,
+        context: conversation?.context,
+        clarifications: Object.keys(clarifications).length > 0 ? clarifications : undefined,
+        preferredModel,
         options: {
           includeSemanticAnalysis: true,
           enableStreaming: true,
@@ -136,27 +221,31 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
         }
       }).unwrap()
 
-      // Update with real message
+      // The response describes the answer only, so the question keeps its own id
       dispatch(chatActions.updateMessage({
-        id: tempMessage.id,
-        updates: {
-          id: result.message.id,
-          status: 'delivered'
-        }
+        id: messageId,
+        updates: { status: 'delivered' }
       }))
 
-      // Add the AI response message
-      if (result.message.type === 'assistant') {
-        dispatch(chatActions.addMessage(result.message))
+      // Add the AI response message as the question's child, keeping the session its ProcessFlow was traced under
+      const answer: ChatMessage = {
+        ...result.message,
+        parentMessageId: messageId,
+        metadata: { ...result.message.metadata, sessionId: result.sessionId ?? sessionId }
+      }
+      if (answer.type === 'assistant') {
+        dispatch(chatActions.addMessage(answer))
       }
 
-      // Join query group to receive real-time updates if sessionId is provided
-      if (result.sessionId) {
-        console.log('🔗 Joining query group for real-time updates:', result.sessionId)
-        socketService.joinQuerySession(result.sessionId)
-      } else {
-        console.log('ℹ️ No sessionId provided - streaming not available for this query')
+      // Save the exchange under the client ids that answers and branches point to
+      const question = messagesRef.current.find(m => m.id === messageId)
+      if (targetConversationId && question) {
+        const exchange = [{ ...question, status: 'delivered' as const }, ...(answer.type === 'assistant' ? [answer] : [])]
+        saveMessages({ conversationId: targetConversationId, messages: exchange })
+          .unwrap()
+          .catch(error => console.error('Failed to save messages:', error))
       }
+      return true
 
     } catch (error: any) {
       console.error('Failed to send message:', error)
@@ -164,7 +253,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
       
       // Update message with error status
       dispatch(chatActions.updateMessage({
-        id: `temp-${Date.now()}`,
+        id: messageId,
         updates: {
           status: 'error',
           error: {
@@ -173,9 +262,42 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
           }
         }
       }))
+      return false
+    } finally {
+      // Steps have all been broadcast once the response is back
+      socketService.leaveQuerySession(sessionId)
     }
   }
 
+  // The conversation a paused question was asked in, which may be a fork that is not current yet
+  const getClarificationConversation = () =>
+    conversations.find(conv => conv.id === pendingClarification?.conversationId) ?? null
+
+  const handleClarificationSubmit = (choices: Record<string, string>, remember: boolean) => {
+    if (!pendingClarification) return
+
+    if (remember) {
+      rememberClarifications(choices)
+    }
+    clearPendingClarification()
+    executeQuery(pendingClarification.query, pendingClarification.messageId, {
+      ...pendingClarification.resolved,
+      ...choices
+    }, getClarificationConversation())
+  }
+
+  const handleClarificationSkip = () => {
+    if (!pendingClarification) return
+
+    clearPendingClarification()
+    executeQuery(
+      pendingClarification.query,
+      pendingClarification.messageId,
+      pendingClarification.resolved,
+      getClarificationConversation()
+    )
+  }
+
   const handleExampleClick = (example: string) => {
     handleSendMessage(example)
   }
@@ -187,15 +309,34 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
   }
 
   const handleShowProcessFlow = (messageId: string) => {
-    // Find the message to get its content
-    const message = messages.find(m => m.id === messageId);
-    if (message) {
-      const sessionId = `msg-${messageId}`;
-      showProcessFlow(sessionId, {
-        query: message.content,
-        userId: 'current-user', // Replace with actual user ID
-        status: 'completed' // Since this is a historical message
-      });
+    // Messages answered through ProcessFlow carry their session id
+    const sessionId = messages.find(m => m.id === messageId)?.metadata?.sessionId
+    if (sessionId) {
+      showProcessFlow(sessionId)
+    } else {
+      message.info('No process flow was recorded for this message')
+    }
+  }
+
+  const handleBranch = (messageId: string) => {
+    branchForm.resetFields()
+    setBranchMessageId(messageId)
+  }
+
+  const handleCreateBranch = async () => {
+    if (!branchMessageId) return
+
+    const { label, question } = await branchForm.validateFields()
+    const fork = await forkFromMessage(branchMessageId, { label })
+    if (!fork) {
+      message.error('Failed to create branch')
+      return
+    }
+
+    setBranchMessageId(null)
+    message.success('Branch created')
+    if (question?.trim()) {
+      handleSendMessage(question, { conversation: fork, parentMessageId: branchMessageId })
     }
   }
 
@@ -265,14 +406,12 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
 
           {/* Process Flow Button */}
           <div style={{ marginTop: '12px' }}>
-            <Tooltip title="View detailed process flow and AI transparency">
+            <Tooltip title={processFlowSessionId ? 'View the last query\'s process flow and AI transparency' : 'Ask a question to see its process flow'}>
               <Button
                 type="text"
                 icon={<EyeOutlined />}
-                onClick={() => showProcessFlow('demo-session', {
-                  query: 'Demo query to show process flow',
-                  userId: 'demo-user'
-                })}
+                disabled={!processFlowSessionId}
+                onClick={() => processFlowSessionId && showProcessFlow(processFlowSessionId)}
                 style={{
                   display: 'flex',
                   alignItems: 'center',
@@ -376,6 +515,22 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
             isLoading={isLoading}
             onRerun={handleSendMessage}
             onShowProcessFlow={handleShowProcessFlow}
+            onBranch={currentConversation ? handleBranch : undefined}
+            branchCounts={branchCounts}
+          />
+        </div>
+      )}
+
+      {/* Ambiguity Clarification */}
+      {pendingClarification && (
+        <div style={{ padding: '16px 20px 0' }}>
+          <ClarificationCard
+            key={pendingClarification.messageId}
+            query={pendingClarification.query}
+            ambiguities={pendingClarification.ambiguities}
+            resolved={pendingClarification.resolved}
+            onSubmit={handleClarificationSubmit}
+            onSkip={handleClarificationSkip}
           />
         </div>
       )}
@@ -395,18 +550,58 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
         padding: '16px 20px 20px',
         borderTop: !showWelcomeState ? '1px solid #f0f0f0' : 'none'
       }}>
+        {(!isOnline || queuedCount > 0) && (
+          <Alert
+            type={isOnline ? 'info' : 'warning'}
+            showIcon
+            style={{ marginBottom: 12 }}
+            message={
+              isOnline
+                ? `${queuedCount} queued question${queuedCount === 1 ? '' : 's'} waiting to send; each is sent when its conversation is open.`
+                : `You're offline. Cached conversations are read-only${
+                    queuedCount > 0 ? `; ${queuedCount} question${queuedCount === 1 ? ' is' : 's are'} queued` : ''
+                  }, and new questions will be sent when you're back online.`
+            }
+          />
+        )}
         <ChatInput
           onSend={handleSendMessage}
-          disabled={isLoading}
+          disabled={isLoading || !!pendingClarification}
           placeholder="Ask me anything about your data..."
         />
       </div>
 
+      {/* Branch Modal */}
+      <Modal
+        title="Branch from this answer"
+        open={!!branchMessageId}
+        onOk={handleCreateBranch}
+        onCancel={() => setBranchMessageId(null)}
+        okText="Create branch"
+        confirmLoading={isForking}
+        destroyOnClose
+      >
+        <Text type="secondary" style={{ display: 'block', marginBottom: 16 }}>
+          The branch keeps the conversation up to this answer, along with its selected tables and filters.
+        </Text>
+        <Form form={branchForm} layout="vertical">
+          <Form.Item name="label" label="Branch name">
+            <Input placeholder="e.g. EMEA only" maxLength={60} />
+          </Form.Item>
+          <Form.Item name="question" label="Follow-up question">
+            <Input.TextArea
+              placeholder="What if we filter to EMEA instead?"
+              autoSize={{ minRows: 2, maxRows: 4 }}
+            />
+          </Form.Item>
+        </Form>
+      </Modal>
+
       {/* Process Flow Viewer */}
       <ProcessFlowViewer
-        visible={isProcessFlowVisible}
+        visible={isProcessFlowVisible && !!processFlowSessionId}
         onClose={hideProcessFlow}
-        processData={processData}
+        sessionId={processFlowSessionId ?? ''}
         realTimeUpdates={true}
       />
     </div>
@@ -0,0 +1,109 @@
+import React, { useState } from 'react'
+import { Alert, Button, Card, Checkbox, Radio, Space, Tag, Typography } from 'antd'
+import { QuestionCircleOutlined } from '@ant-design/icons'
+import { normalizeTerm, type QueryAmbiguity, type TermClarifications } from '@shared/utils/ambiguityResolution'
+
+const { Text } = Typography
+
+interface ClarificationCardProps {
+  query: string
+  ambiguities: QueryAmbiguity[]
+  resolved?: TermClarifications
+  loading?: boolean
+  onSubmit: (choices: TermClarifications, remember: boolean) => void
+  onSkip: () => void
+}
+
+/**
+ * ClarificationCard - Asks which meaning an ambiguous term has before SQL is generated
+ */
+export const ClarificationCard: React.FC<ClarificationCardProps> = ({
+  query,
+  ambiguities,
+  resolved = {},
+  loading = false,
+  onSubmit,
+  onSkip,
+}) => {
+  const [choices, setChoices] = useState<TermClarifications>({})
+  const [remember, setRemember] = useState(true)
+
+  const isComplete = ambiguities.every(ambiguity => choices[normalizeTerm(ambiguity.term)])
+  const resolvedEntries = Object.entries(resolved)
+
+  return (
+    <Card
+      size="small"
+      title={
+        <Space>
+          <QuestionCircleOutlined style={{ color: '#faad14' }} />
+          <span>Which did you mean?</span>
+        </Space>
+      }
+      style={{ borderColor: '#ffe58f', background: '#fffbe6', borderRadius: 12 }}
+    >
+      <Space direction="vertical" style={{ width: '100%' }} size="middle">
+        <Text type="secondary">"{query}"</Text>
+
+        {ambiguities.map(ambiguity => {
+          const key = normalizeTerm(ambiguity.term)
+          return (
+            <div key={key}>
+              <Text strong>"{ambiguity.term}"</Text>
+              {ambiguity.suggestedClarification && (
+                <Text type="secondary" style={{ display: 'block', fontSize: '12px' }}>
+                  {ambiguity.suggestedClarification}
+                </Text>
+              )}
+              <Radio.Group
+                value={choices[key]}
+                onChange={(e) => setChoices(prev => ({ ...prev, [key]: e.target.value }))}
+                style={{ marginTop: 8 }}
+              >
+                <Space direction="vertical">
+                  {ambiguity.possibleMeanings.map(meaning => (
+                    <Radio key={meaning} value={meaning}>{meaning}</Radio>
+                  ))}
+                </Space>
+              </Radio.Group>
+            </div>
+          )
+        })}
+
+        {resolvedEntries.length > 0 && (
+          <Alert
+            type="info"
+            showIcon
+            message={
+              <Space wrap size={4}>
+                <Text style={{ fontSize: '12px' }}>Using your earlier choices:</Text>
+                {resolvedEntries.map(([term, meaning]) => (
+                  <Tag key={term}>{term}: {meaning}</Tag>
+                ))}
+              </Space>
+            }
+          />
+        )}
+
+        <Space style={{ width: '100%', justifyContent: 'space-between' }}>
+          <Checkbox checked={remember} onChange={(e) => setRemember(e.target.checked)}>
+            Remember my choices
+          </Checkbox>
+          <Space>
+            <Button onClick={onSkip} disabled={loading}>
+              Skip
+            </Button>
+            <Button
+              type="primary"
+              onClick={() => onSubmit(choices, remember)}
+              disabled={!isComplete}
+              loading={loading}
+            >
+              Continue
+            </Button>
+          </Space>
+        </Space>
+      </Space>
+    </Card>
+  )
+}
@@ -397,7 +397,8 @@ export const ComprehensiveChatInterface: React.FC<ComprehensiveChatInterfaceProp
     const panelWidth = settings.compactMode ? 300 : 400
     const showPanel = settings.showTransparency || 
                      settings.showBusinessContext || 
-                     settings.showPerformanceMetrics
+                     settings.showPerformanceMetrics ||
+                     settings.showConversationHistory
 
     if (!showPanel) return null
 
@@ -435,6 +436,20 @@ export const ComprehensiveChatInterface: React.FC<ComprehensiveChatInterfaceProp
             {renderQuickSettings()}
             <Divider />
             {renderTransparencyPanel()}
+            {settings.showConversationHistory && (
+              <>
+                <Divider />
+                <ConversationHistory showFavorites={false} />
+              </>
+            )}
+            {settings.showQuerySuggestions && (
+              <>
+                <Divider />
+                <QuerySuggestions
+                  onSuggestionSelect={(query) => dispatch(chatActions.setInputValue(query))}
+                />
+              </>
+            )}
           </div>
         </Card>
       </Col>
@@ -444,7 +459,8 @@ export const ComprehensiveChatInterface: React.FC<ComprehensiveChatInterfaceProp
   const renderMainChat = () => {
     const showPanel = settings.showTransparency || 
                      settings.showBusinessContext || 
-                     settings.showPerformanceMetrics
+                     settings.showPerformanceMetrics ||
+                     settings.showConversationHistory
     
     return (
       <Col span={showPanel ? 18 : 24} style={{ height: '100%' }}>
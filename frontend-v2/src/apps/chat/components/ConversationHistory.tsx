@@ -1,4 +1,4 @@
-import React, { useState } from 'react'
+import React, { useMemo, useState } from 'react'
 import { Card, Space, Typography, List, Avatar, Button, Tag, Tooltip, Input } from 'antd'
 import {
   HistoryOutlined,
@@ -7,8 +7,18 @@ import {
   DeleteOutlined,
   StarOutlined,
   StarFilled,
-  ClockCircleOutlined
+  ClockCircleOutlined,
+  BranchesOutlined
 } from '@ant-design/icons'
+import { useAppDispatch, useAppSelector } from '@shared/hooks'
+import { chatActions, selectConversations, selectCurrentConversation } from '@shared/store/chat'
+import {
+  buildConversationTree,
+  countBranches,
+  filterConversationTree,
+  type ConversationTreeNode
+} from '@shared/utils/conversationBranching'
+import type { Conversation } from '@shared/types/chat'
 
 const { Text } = Typography
 const { Search } = Input
@@ -20,16 +30,6 @@ export interface ConversationHistoryProps {
   className?: string
 }
 
-interface Conversation {
-  id: string
-  title: string
-  lastMessage: string
-  timestamp: string
-  messageCount: number
-  isFavorite: boolean
-  tags: string[]
-}
-
 /**
  * ConversationHistory - Browse and manage conversation history
  */
@@ -42,47 +42,39 @@ export const ConversationHistory: React.FC<ConversationHistoryProps> = ({
   const [searchQuery, setSearchQuery] = useState('')
   const [showOnlyFavorites, setShowOnlyFavorites] = useState(false)
 
-  const conversations: Conversation[] = [
-    {
-      id: 'conv-1',
-      title: 'Sales Analysis Q4 2023',
-      lastMessage: 'Show me quarterly sales by region',
-      timestamp: '2024-01-15T10:30:00Z',
-      messageCount: 12,
-      isFavorite: true,
-      tags: ['sales', 'quarterly']
-    },
-    {
-      id: 'conv-2',
-      title: 'Product Performance Review',
-      lastMessage: 'What are the top performing products?',
-      timestamp: '2024-01-14T15:20:00Z',
-      messageCount: 8,
-      isFavorite: false,
-      tags: ['products', 'performance']
-    },
-    {
-      id: 'conv-3',
-      title: 'Customer Segmentation',
-      lastMessage: 'Analyze customer segments by revenue',
-      timestamp: '2024-01-13T09:15:00Z',
-      messageCount: 15,
-      isFavorite: true,
-      tags: ['customers', 'segmentation']
-    }
-  ]
-
-  const filteredConversations = conversations.filter(conv => {
+  const dispatch = useAppDispatch()
+  const conversations = useAppSelector(selectConversations)
+  const currentConversation = useAppSelector(selectCurrentConversation)
+
+  const isFavorite = (conversation: Conversation) => conversation.tags.includes('favorite')
+  const getLastMessage = (conversation: Conversation) =>
+    conversation.context.queryHistory[0] ?? conversation.summary ?? ''
+
+  // Branches are nested under the conversation they were forked from
+  const conversationTree = useMemo(() => buildConversationTree(conversations), [conversations])
+
+  const filteredTree = filterConversationTree(conversationTree, conv => {
     const matchesSearch = !searchQuery || 
       conv.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      conv.lastMessage.toLowerCase().includes(searchQuery.toLowerCase())
+      getLastMessage(conv).toLowerCase().includes(searchQuery.toLowerCase())
     
-    const matchesFavorites = !showOnlyFavorites || conv.isFavorite
+    const matchesFavorites = !showOnlyFavorites || isFavorite(conv)
     
     return matchesSearch && matchesFavorites
   })
 
-  const formatTimestamp = (timestamp: string) => {
+  // Depth-first so each branch sits directly below its parent
+  const flattenTree = (nodes: ConversationTreeNode[]): ConversationTreeNode[] =>
+    nodes.flatMap(node => [node, ...flattenTree(node.children)])
+
+  const filteredConversations = flattenTree(filteredTree)
+
+  const handleSelect = (conversation: Conversation) => {
+    dispatch(chatActions.setCurrentConversation(conversation))
+    onConversationSelect?.(conversation.id)
+  }
+
+  const formatTimestamp = (timestamp: Date | string) => {
     const date = new Date(timestamp)
     const now = new Date()
     const diffMs = now.getTime() - date.getTime()
@@ -139,20 +131,24 @@ export const ConversationHistory: React.FC<ConversationHistoryProps> = ({
           <List
             size="small"
             dataSource={filteredConversations}
-            renderItem={(conversation) => (
+            rowKey={(node) => node.conversation.id}
+            renderItem={({ conversation, depth, children }) => (
               <List.Item
                 style={{ 
                   padding: '8px 0',
+                  paddingLeft: depth * 16,
                   cursor: 'pointer',
-                  borderRadius: '4px'
+                  borderRadius: '4px',
+                  borderLeft: depth > 0 ? '2px solid #d3adf7' : undefined,
+                  background: conversation.id === currentConversation?.id ? '#f0f5ff' : undefined
                 }}
-                onClick={() => onConversationSelect?.(conversation.id)}
+                onClick={() => handleSelect(conversation)}
                 actions={[
-                  <Tooltip key="favorite" title={conversation.isFavorite ? 'Remove from favorites' : 'Add to favorites'}>
+                  <Tooltip key="favorite" title={isFavorite(conversation) ? 'Remove from favorites' : 'Add to favorites'}>
                     <Button
                       type="text"
                       size="small"
-                      icon={conversation.isFavorite ? <StarFilled style={{ color: '#faad14' }} /> : <StarOutlined />}
+                      icon={isFavorite(conversation) ? <StarFilled style={{ color: '#faad14' }} /> : <StarOutlined />}
                       onClick={(e) => handleToggleFavorite(conversation.id, e)}
                     />
                   </Tooltip>,
@@ -171,14 +167,14 @@ export const ConversationHistory: React.FC<ConversationHistoryProps> = ({
                   avatar={
                     <Avatar 
                       size="small" 
-                      icon={<MessageOutlined />}
-                      style={{ backgroundColor: '#1890ff' }}
+                      icon={conversation.branch ? <BranchesOutlined /> : <MessageOutlined />}
+                      style={{ backgroundColor: conversation.branch ? '#722ed1' : '#1890ff' }}
                     />
                   }
                   title={
                     <Space style={{ width: '100%', justifyContent: 'space-between' }}>
                       <Text strong style={{ fontSize: '12px' }}>
-                        {conversation.title}
+                        {conversation.branch?.label ?? conversation.title}
                       </Text>
                       <Text type="secondary" style={{ fontSize: '10px' }}>
                         {conversation.messageCount} msgs
@@ -188,11 +184,18 @@ export const ConversationHistory: React.FC<ConversationHistoryProps> = ({
                   description={
                     <Space direction="vertical" style={{ width: '100%' }}>
                       <Text type="secondary" style={{ fontSize: '11px' }}>
-                        {conversation.lastMessage}
+                        {getLastMessage(conversation)}
                       </Text>
                       
                       <Space style={{ width: '100%', justifyContent: 'space-between' }}>
                         <Space>
+                          {children.length > 0 && (
+                            <Tooltip title="Branches forked from this conversation">
+                              <Tag icon={<BranchesOutlined />} color="purple" style={{ fontSize: '9px' }}>
+                                {countBranches(children)}
+                              </Tag>
+                            </Tooltip>
+                          )}
                           {conversation.tags.map(tag => (
                             <Tag key={tag} size="small" style={{ fontSize: '9px' }}>
                               {tag}
@@ -203,7 +206,7 @@ export const ConversationHistory: React.FC<ConversationHistoryProps> = ({
                         <Space>
                           <ClockCircleOutlined style={{ fontSize: '10px' }} />
                           <Text type="secondary" style={{ fontSize: '10px' }}>
-                            {formatTimestamp(conversation.timestamp)}
+                            {formatTimestamp(conversation.updatedAt)}
                           </Text>
                         </Space>
                       </Space>
@@ -233,7 +236,10 @@ export const ConversationHistory: React.FC<ConversationHistoryProps> = ({
                 Total: {conversations.length} conversations
               </Text>
               <Text style={{ fontSize: '11px' }}>
-                Favorites: {conversations.filter(c => c.isFavorite).length}
+                Branches: {conversations.filter(c => c.branch).length}
+              </Text>
+              <Text style={{ fontSize: '11px' }}>
+                Favorites: {conversations.filter(isFavorite).length}
               </Text>
             </Space>
           </Card>
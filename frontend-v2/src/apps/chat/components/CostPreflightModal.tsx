@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react'
+import { Alert, Button, Card, Descriptions, Input, Modal, Progress, Space, Tag, Typography } from 'antd'
+import { DollarOutlined, SwapOutlined } from '@ant-design/icons'
+import type { CostPreflight } from '../hooks/useCostPreflight'
+
+const { Text } = Typography
+const { TextArea } = Input
+
+interface CostPreflightModalProps {
+  preflight: CostPreflight | null
+  canOverrideBlock: boolean
+  submitting?: boolean
+  onOverride: (reason: string) => void
+  onUseModel: (modelId: string) => void
+  onCancel: () => void
+}
+
+const formatCost = (amount: number) =>
+  `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 4 })}`
+
+const formatPercentage = (value: number) => (Number.isFinite(value) ? `${value.toFixed(1)}%` : '∞')
+
+/**
+ * CostPreflightModal - Stops a question that would push a budget past its
+ * alert or block threshold, offering a cheaper model or a recorded override
+ */
+export const CostPreflightModal: React.FC<CostPreflightModalProps> = ({
+  preflight,
+  canOverrideBlock,
+  submitting = false,
+  onOverride,
+  onUseModel,
+  onCancel,
+}) => {
+  const [reason, setReason] = useState('')
+
+  useEffect(() => {
+    setReason('')
+  }, [preflight?.queryId])
+
+  const limiting = preflight?.limiting
+  if (!preflight || !limiting) return null
+
+  const blocked = preflight.level === 'block'
+  const { budget } = limiting
+  const { suggestion } = preflight
+  const reasonRequired = blocked
+  const canOverride = !blocked || canOverrideBlock
+
+  return (
+    <Modal
+      open
+      title={
+        <Space>
+          <DollarOutlined />
+          <span>{blocked ? 'Budget limit reached' : 'Approaching budget limit'}</span>
+        </Space>
+      }
+      onCancel={onCancel}
+      footer={[
+        <Button key="cancel" onClick={onCancel}>
+          Cancel
+        </Button>,
+        suggestion && (
+          <Button
+            key="cheaper"
+            type={blocked ? 'primary' : 'default'}
+            icon={<SwapOutlined />}
+            onClick={() => onUseModel(suggestion.model.modelId)}
+            disabled={submitting}
+          >
+            Use {suggestion.model.displayName || suggestion.model.name}
+          </Button>
+        ),
+        canOverride && (
+          <Button
+            key="override"
+            type={blocked ? 'default' : 'primary'}
+            danger={blocked}
+            loading={submitting}
+            disabled={reasonRequired && !reason.trim()}
+            onClick={() => onOverride(reason.trim())}
+          >
+            {blocked ? 'Override and send' : 'Send anyway'}
+          </Button>
+        ),
+      ]}
+    >
+      <Space direction="vertical" style={{ width: '100%' }} size="middle">
+        <Alert
+          type={blocked ? 'error' : 'warning'}
+          showIcon
+          message={
+            blocked
+              ? `This question would take "${budget.name}" past its ${budget.blockThreshold}% limit.`
+              : `This question would take "${budget.name}" past its ${budget.alertThreshold}% alert threshold.`
+          }
+          description={blocked && !canOverrideBlock ? 'Only an administrator can override this limit.' : undefined}
+        />
+
+        <Text type="secondary">"{preflight.query}"</Text>
+
+        <Descriptions size="small" column={2} bordered>
+          <Descriptions.Item label="Estimated cost">
+            {formatCost(preflight.estimatedCost)}
+            {preflight.prediction && (
+              <Text type="secondary" style={{ fontSize: '12px', marginLeft: 4 }}>
+                (~{preflight.prediction.estimatedTokens.toLocaleString()} tokens)
+              </Text>
+            )}
+          </Descriptions.Item>
+          <Descriptions.Item label="Remaining">
+            {formatCost(budget.budgetAmount - budget.spentAmount)} of {formatCost(budget.budgetAmount)}
+          </Descriptions.Item>
+        </Descriptions>
+
+        <div>
+          <Text style={{ fontSize: '12px' }}>
+            Usage {formatPercentage(limiting.usagePercentage)} → {formatPercentage(limiting.projectedUsagePercentage)}
+          </Text>
+          <Progress
+            percent={Math.min(limiting.projectedUsagePercentage, 100)}
+            success={{ percent: Math.min(limiting.usagePercentage, 100) }}
+            status={blocked ? 'exception' : 'active'}
+            showInfo={false}
+            size="small"
+          />
+        </div>
+
+        {suggestion && (
+          <Card size="small" style={{ background: '#f6ffed', borderColor: '#b7eb8f' }}>
+            <Space direction="vertical" size={2}>
+              <Text strong>
+                <SwapOutlined /> {suggestion.model.displayName || suggestion.model.name} costs about{' '}
+                {formatCost(suggestion.estimatedCost)}
+              </Text>
+              <Space size={4}>
+                <Tag color="green">Saves {formatCost(suggestion.savings)}</Tag>
+                {suggestion.model.useCase && <Tag>{suggestion.model.useCase}</Tag>}
+                {suggestion.level === 'warn' && <Tag color="orange">Still above the alert threshold</Tag>}
+              </Space>
+            </Space>
+          </Card>
+        )}
+
+        {canOverride && (
+          <div>
+            <Text strong style={{ fontSize: '12px' }}>
+              Reason for overriding{reasonRequired ? '' : ' (optional)'}
+            </Text>
+            <TextArea
+              value={reason}
+              onChange={event => setReason(event.target.value)}
+              placeholder="Why does this question need to run now? Overrides are recorded for administrators."
+              autoSize={{ minRows: 2, maxRows: 4 }}
+              maxLength={500}
+            />
+          </div>
+        )}
+      </Space>
+    </Modal>
+  )
+}
+
+export default CostPreflightModal
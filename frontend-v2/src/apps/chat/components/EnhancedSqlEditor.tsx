@@ -14,11 +14,12 @@ import {
   ExclamationCircleOutlined
 } from '@ant-design/icons'
 import Editor, { Monaco } from '@monaco-editor/react'
-import type { editor } from 'monaco-editor'
-import { useAppSelector } from '@shared/hooks'
+import type { editor, IDisposable } from 'monaco-editor'
+import { useAppSelector, useSchemaAwareSql } from '@shared/hooks'
 import { selectChatSettings } from '@shared/store/chat'
 import { useGetBusinessTablesQuery } from '@shared/store/api/businessApi'
 import { useGetBusinessContextQuery } from '@shared/store/api/chatApi'
+import { analyzeSqlSafety } from '@sql'
 
 const { Text } = Typography
 
@@ -43,6 +44,8 @@ interface EnhancedSqlEditorProps {
 interface ValidationError {
   line: number
   column: number
+  endLine: number
+  endColumn: number
   message: string
   severity: 'error' | 'warning' | 'info'
 }
@@ -77,6 +80,13 @@ export const EnhancedSqlEditor: React.FC<EnhancedSqlEditorProps> = ({
     { query: value },
     { skip: !enableBusinessContext || value.length < 3 }
   )
+  const { registerProviders } = useSchemaAwareSql({
+    enabled: enableAutocomplete,
+    contextTerms: businessContext?.glossaryTerms ?? [],
+  })
+  const providersRef = useRef<IDisposable | null>(null)
+
+  useEffect(() => () => providersRef.current?.dispose(), [])
 
   const handleEditorDidMount = useCallback((editor: editor.IStandaloneCodeEditor, monaco: Monaco) => {
     editorRef.current = editor
@@ -85,9 +95,10 @@ export const EnhancedSqlEditor: React.FC<EnhancedSqlEditorProps> = ({
     // Configure SQL language with enhanced features
     setupSqlLanguage(monaco)
     
-    // Set up business context autocomplete
+    // Schema-aware completions and hover cards
     if (enableAutocomplete) {
-      setupAutocomplete(monaco, editor)
+      providersRef.current?.dispose()
+      providersRef.current = registerProviders(monaco)
     }
 
     // Set up validation
@@ -103,7 +114,7 @@ export const EnhancedSqlEditor: React.FC<EnhancedSqlEditorProps> = ({
       editor.setValue(placeholder)
       editor.setSelection(new monaco.Selection(1, 1, 1, placeholder.length))
     }
-  }, [value, placeholder, enableAutocomplete, enableValidation])
+  }, [value, placeholder, enableAutocomplete, enableValidation, registerProviders])
 
   const setupSqlLanguage = (monaco: Monaco) => {
     // Enhanced SQL language configuration
@@ -185,313 +196,41 @@ export const EnhancedSqlEditor: React.FC<EnhancedSqlEditorProps> = ({
     })
   }
 
-  const setupAutocomplete = (monaco: Monaco, editor: editor.IStandaloneCodeEditor) => {
-    // Register completion provider with business context
-    monaco.languages.registerCompletionItemProvider('sql', {
-      provideCompletionItems: (model, position) => {
-        const word = model.getWordUntilPosition(position)
-        const range = {
-          startLineNumber: position.lineNumber,
-          endLineNumber: position.lineNumber,
-          startColumn: word.startColumn,
-          endColumn: word.endColumn,
-        }
-
-        const suggestions: any[] = []
-        const lineText = model.getLineContent(position.lineNumber)
-        const beforeCursor = lineText.substring(0, position.column - 1)
-
-        // Context-aware suggestions based on SQL structure
-        const isAfterSelect = /\bSELECT\s+$/i.test(beforeCursor)
-        const isAfterFrom = /\bFROM\s+$/i.test(beforeCursor)
-        const isAfterWhere = /\bWHERE\s+$/i.test(beforeCursor)
-        const isAfterJoin = /\b(JOIN|INNER\s+JOIN|LEFT\s+JOIN|RIGHT\s+JOIN)\s+$/i.test(beforeCursor)
-
-        // SQL Keywords with context awareness
-        const sqlKeywords = [
-          { keyword: 'SELECT', contexts: ['start'] },
-          { keyword: 'FROM', contexts: ['after_select'] },
-          { keyword: 'WHERE', contexts: ['after_from'] },
-          { keyword: 'JOIN', contexts: ['after_from'] },
-          { keyword: 'INNER JOIN', contexts: ['after_from'] },
-          { keyword: 'LEFT JOIN', contexts: ['after_from'] },
-          { keyword: 'RIGHT JOIN', contexts: ['after_from'] },
-          { keyword: 'GROUP BY', contexts: ['after_where'] },
-          { keyword: 'ORDER BY', contexts: ['after_where'] },
-          { keyword: 'HAVING', contexts: ['after_group'] },
-          { keyword: 'LIMIT', contexts: ['after_order'] },
-          { keyword: 'UNION', contexts: ['after_complete'] },
-          { keyword: 'DISTINCT', contexts: ['after_select'] },
-          { keyword: 'COUNT', contexts: ['after_select'] },
-          { keyword: 'SUM', contexts: ['after_select'] },
-          { keyword: 'AVG', contexts: ['after_select'] },
-          { keyword: 'MIN', contexts: ['after_select'] },
-          { keyword: 'MAX', contexts: ['after_select'] }
-        ]
-
-        sqlKeywords.forEach(({ keyword }) => {
-          suggestions.push({
-            label: keyword,
-            kind: monaco.languages.CompletionItemKind.Keyword,
-            insertText: keyword,
-            range,
-            sortText: '0' + keyword, // Prioritize keywords
-          })
-        })
-
-        // Business tables and columns with enhanced context
-        if (businessTables) {
-          businessTables.forEach(table => {
-            const tableFullName = `${table.schemaName}.${table.tableName}`
-
-            // Table suggestions (prioritize after FROM/JOIN)
-            if (isAfterFrom || isAfterJoin || !isAfterSelect) {
-              suggestions.push({
-                label: tableFullName,
-                kind: monaco.languages.CompletionItemKind.Class,
-                insertText: tableFullName,
-                detail: `Table: ${table.businessPurpose}`,
-                documentation: {
-                  value: `**Business Purpose:** ${table.businessPurpose}\n\n**Domain:** ${table.domainClassification}\n\n**Row Count:** ${table.estimatedRowCount || 'Unknown'}\n\n**Last Updated:** ${table.lastUpdated || 'Unknown'}`,
-                },
-                range,
-                sortText: isAfterFrom || isAfterJoin ? '1' + tableFullName : '3' + tableFullName,
-              })
-
-              // Table alias suggestion
-              suggestions.push({
-                label: `${tableFullName} AS ${table.tableName.toLowerCase()}`,
-                kind: monaco.languages.CompletionItemKind.Class,
-                insertText: `${tableFullName} AS ${table.tableName.toLowerCase()}`,
-                detail: `Table with alias`,
-                range,
-                sortText: '2' + tableFullName,
-              })
-            }
-
-            // Column suggestions (prioritize after SELECT/WHERE)
-            table.columns?.forEach(column => {
-              const columnDetail = `${table.tableName}.${column.columnName} (${column.businessDataType})`
-
-              suggestions.push({
-                label: column.columnName,
-                kind: monaco.languages.CompletionItemKind.Field,
-                insertText: column.columnName,
-                detail: columnDetail,
-                documentation: {
-                  value: `**Business Meaning:** ${column.businessMeaning}\n\n**Data Type:** ${column.businessDataType}\n\n**Nullable:** ${column.isNullable ? 'Yes' : 'No'}\n\n**Sample Values:** ${column.sampleValues?.join(', ') || 'N/A'}`,
-                },
-                range,
-                sortText: isAfterSelect ? '1' + column.columnName : '2' + column.columnName,
-              })
-
-              // Qualified column name
-              suggestions.push({
-                label: `${table.tableName}.${column.columnName}`,
-                kind: monaco.languages.CompletionItemKind.Field,
-                insertText: `${table.tableName}.${column.columnName}`,
-                detail: columnDetail,
-                range,
-                sortText: '3' + column.columnName,
-              })
-
-              // Common aggregations for numeric columns
-              if (column.businessDataType?.toLowerCase().includes('number') ||
-                  column.businessDataType?.toLowerCase().includes('decimal') ||
-                  column.businessDataType?.toLowerCase().includes('int')) {
-                ['COUNT', 'SUM', 'AVG', 'MIN', 'MAX'].forEach(func => {
-                  suggestions.push({
-                    label: `${func}(${column.columnName})`,
-                    kind: monaco.languages.CompletionItemKind.Function,
-                    insertText: `${func}(${column.columnName})`,
-                    detail: `${func} of ${column.columnName}`,
-                    range,
-                    sortText: '4' + func + column.columnName,
-                  })
-                })
-              }
-            })
-          })
-        }
-
-        // Business context suggestions
-        if (businessContext) {
-          businessContext.glossaryTerms?.forEach(term => {
-            suggestions.push({
-              label: term.term,
-              kind: monaco.languages.CompletionItemKind.Reference,
-              insertText: `'${term.term}'`,
-              detail: 'Business Term',
-              documentation: {
-                value: `**Definition:** ${term.definition}`,
-              },
-              range,
-              sortText: '5' + term.term,
-            })
-          })
-        }
-
-        // SQL Functions and operators
-        const sqlFunctions = [
-          'COALESCE', 'ISNULL', 'NULLIF', 'CAST', 'CONVERT', 'SUBSTRING', 'TRIM',
-          'UPPER', 'LOWER', 'LENGTH', 'ROUND', 'FLOOR', 'CEIL', 'ABS', 'POWER',
-          'SQRT', 'NOW', 'GETDATE', 'DATEADD', 'DATEDIFF', 'YEAR', 'MONTH', 'DAY'
-        ]
-
-        sqlFunctions.forEach(func => {
-          suggestions.push({
-            label: func,
-            kind: monaco.languages.CompletionItemKind.Function,
-            insertText: `${func}($1)`,
-            insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
-            detail: `SQL Function`,
-            range,
-            sortText: '6' + func,
-          })
-        })
-
-        // Common SQL patterns as snippets
-        const sqlSnippets = [
-          {
-            label: 'SELECT with JOIN',
-            insertText: 'SELECT $1\nFROM $2\nJOIN $3 ON $4 = $5',
-            detail: 'SELECT statement with JOIN',
-          },
-          {
-            label: 'GROUP BY with COUNT',
-            insertText: 'SELECT $1, COUNT(*) as count\nFROM $2\nGROUP BY $1\nORDER BY count DESC',
-            detail: 'GROUP BY with count',
-          },
-          {
-            label: 'Date range filter',
-            insertText: "WHERE $1 BETWEEN '$2' AND '$3'",
-            detail: 'Date range WHERE clause',
-          }
-        ]
-
-        sqlSnippets.forEach(snippet => {
-          suggestions.push({
-            label: snippet.label,
-            kind: monaco.languages.CompletionItemKind.Snippet,
-            insertText: snippet.insertText,
-            insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
-            detail: snippet.detail,
-            range,
-            sortText: '7' + snippet.label,
-          })
-        })
-
-        return { suggestions }
-      },
-    })
-
-    // Register hover provider for business context
-    monaco.languages.registerHoverProvider('sql', {
-      provideHover: (model, position) => {
-        const word = model.getWordAtPosition(position)
-        if (!word) return null
-
-        // Find business context for the word
-        const table = businessTables?.find(t =>
-          t.tableName.toLowerCase() === word.word.toLowerCase() ||
-          t.columns?.some(c => c.columnName.toLowerCase() === word.word.toLowerCase())
-        )
-
-        if (table) {
-          const column = table.columns?.find(c =>
-            c.columnName.toLowerCase() === word.word.toLowerCase()
-          )
-
-          if (column) {
-            return {
-              range: new monaco.Range(
-                position.lineNumber,
-                word.startColumn,
-                position.lineNumber,
-                word.endColumn
-              ),
-              contents: [
-                { value: `**${table.tableName}.${column.columnName}**` },
-                { value: `**Business Meaning:** ${column.businessMeaning}` },
-                { value: `**Data Type:** ${column.businessDataType}` },
-                { value: `**Nullable:** ${column.isNullable ? 'Yes' : 'No'}` },
-                ...(column.sampleValues ? [{ value: `**Sample Values:** ${column.sampleValues.join(', ')}` }] : [])
-              ]
-            }
-          } else if (table.tableName.toLowerCase() === word.word.toLowerCase()) {
-            return {
-              range: new monaco.Range(
-                position.lineNumber,
-                word.startColumn,
-                position.lineNumber,
-                word.endColumn
-              ),
-              contents: [
-                { value: `**${table.schemaName}.${table.tableName}**` },
-                { value: `**Business Purpose:** ${table.businessPurpose}` },
-                { value: `**Domain:** ${table.domainClassification}` },
-                { value: `**Estimated Rows:** ${table.estimatedRowCount || 'Unknown'}` }
-              ]
-            }
-          }
-        }
-
-        return null
-      }
-    })
-  }
-
   const setupValidation = (monaco: Monaco, editor: editor.IStandaloneCodeEditor) => {
     // Set up real-time validation
     const validateSQL = async (sql: string) => {
       if (!sql.trim()) {
         setValidationErrors([])
+        monaco.editor.setModelMarkers(editor.getModel()!, 'sql-validation', [])
         return
       }
 
       setIsValidating(true)
       
       try {
-        // Basic SQL syntax validation
-        const errors: ValidationError[] = []
-        
-        // Check for common SQL errors
-        const lines = sql.split('\n')
-        lines.forEach((line, index) => {
-          // Check for missing semicolon at end of statements
-          if (line.trim().match(/^(SELECT|INSERT|UPDATE|DELETE|CREATE|ALTER|DROP)/i) && 
-              !line.trim().endsWith(';') && 
-              index === lines.length - 1) {
-            errors.push({
-              line: index + 1,
-              column: line.length + 1,
-              message: 'Consider adding a semicolon at the end of the statement',
-              severity: 'info',
-            })
-          }
-          
-          // Check for potential SQL injection patterns
-          if (line.includes("'") && line.includes('+')) {
-            errors.push({
-              line: index + 1,
-              column: line.indexOf("'") + 1,
-              message: 'Potential SQL injection vulnerability detected',
-              severity: 'warning',
-            })
-          }
-        })
+        // Parse the query and check it against the read-only policy
+        const { diagnostics } = analyzeSqlSafety(sql)
+        const errors: ValidationError[] = diagnostics.map(diagnostic => ({
+          line: diagnostic.startLineNumber,
+          column: diagnostic.startColumn,
+          endLine: diagnostic.endLineNumber,
+          endColumn: diagnostic.endColumn,
+          message: diagnostic.message,
+          severity: diagnostic.severity,
+        }))
 
         setValidationErrors(errors)
         
         // Set Monaco markers
-        const markers = errors.map(error => ({
-          startLineNumber: error.line,
-          startColumn: error.column,
-          endLineNumber: error.line,
-          endColumn: error.column + 1,
-          message: error.message,
-          severity: error.severity === 'error' ? monaco.MarkerSeverity.Error :
-                   error.severity === 'warning' ? monaco.MarkerSeverity.Warning :
+        const markers = diagnostics.map(diagnostic => ({
+          startLineNumber: diagnostic.startLineNumber,
+          startColumn: diagnostic.startColumn,
+          endLineNumber: diagnostic.endLineNumber,
+          endColumn: diagnostic.endColumn,
+          message: diagnostic.message,
+          code: diagnostic.code,
+          severity: diagnostic.severity === 'error' ? monaco.MarkerSeverity.Error :
+                   diagnostic.severity === 'warning' ? monaco.MarkerSeverity.Warning :
                    monaco.MarkerSeverity.Info,
         }))
         
@@ -12,7 +12,8 @@ import {
   DeleteOutlined,
   FlagOutlined,
   EyeOutlined,
-  ApiOutlined
+  ApiOutlined,
+  BranchesOutlined
 } from '@ant-design/icons'
 import type { ChatMessage } from '@shared/types/chat'
 
@@ -27,6 +28,7 @@ interface MessageActionsProps {
   onReport?: (messageId: string) => void
   onExport?: (messageId: string) => void
   onShowProcessFlow?: (messageId: string) => void
+  onBranch?: (messageId: string) => void
 }
 
 export const MessageActions: React.FC<MessageActionsProps> = ({
@@ -40,6 +42,7 @@ export const MessageActions: React.FC<MessageActionsProps> = ({
   onReport,
   onExport,
   onShowProcessFlow,
+  onBranch,
 }) => {
   const isUser = message.type === 'user'
   const isAssistant = message.type === 'assistant'
@@ -116,6 +119,20 @@ export const MessageActions: React.FC<MessageActionsProps> = ({
     )
   }
 
+  // Branch action - fork the conversation from an AI answer
+  if (isAssistant && onBranch) {
+    primaryActions.push(
+      <Tooltip key="branch" title="Branch from here">
+        <Button
+          type="text"
+          size="small"
+          icon={<BranchesOutlined />}
+          onClick={() => onBranch(message.id)}
+        />
+      </Tooltip>
+    )
+  }
+
   // Share action
   if (onShare) {
     secondaryActions.push({
@@ -25,7 +25,9 @@ import {
   DownloadOutlined,
   ClockCircleOutlined,
   DatabaseOutlined,
-  BugOutlined
+  BugOutlined,
+  BranchesOutlined,
+  CloudUploadOutlined
 } from '@ant-design/icons'
 import { formatDistanceToNow } from 'date-fns'
 import { SqlEditor, Chart } from '@shared/components/core'
@@ -46,6 +48,8 @@ interface MessageItemProps {
   onRerun?: (query: string) => void
   onEdit?: (messageId: string) => void
   onShowProcessFlow?: (messageId: string) => void
+  onBranch?: (messageId: string) => void
+  branchCount?: number
 }
 
 export const MessageItem: React.FC<MessageItemProps> = ({
@@ -55,6 +59,8 @@ export const MessageItem: React.FC<MessageItemProps> = ({
   onRerun,
   onEdit,
   onShowProcessFlow,
+  onBranch,
+  branchCount = 0,
 }) => {
   const dispatch = useAppDispatch()
   const [showDetails, setShowDetails] = useState(false)
@@ -158,12 +164,28 @@ export const MessageItem: React.FC<MessageItemProps> = ({
   }
 
   const renderStatusIndicator = () => {
+    if (message.status === 'queued') {
+      return (
+        <Tooltip title={`Queued offline ${message.offline ? formatDistanceToNow(new Date(message.offline.queuedAt), { addSuffix: true }) : ''}; sent when you're back online`}>
+          <Tag icon={<CloudUploadOutlined />} color="gold">Queued</Tag>
+        </Tooltip>
+      )
+    }
+
     if (message.status === 'sending') {
-      return <Progress type="circle" size={16} percent={50} showInfo={false} />
+      return (
+        <Tooltip title={message.offline ? 'Sending queued question' : 'Pending'}>
+          <Progress type="circle" size={16} percent={50} showInfo={false} />
+        </Tooltip>
+      )
     }
     
     if (message.status === 'error') {
-      return <Tag color="red">Error</Tag>
+      return (
+        <Tooltip title={message.error?.message}>
+          <Tag color="red">Error</Tag>
+        </Tooltip>
+      )
     }
     
     if (message.metadata?.confidence !== undefined) {
@@ -208,6 +230,25 @@ export const MessageItem: React.FC<MessageItemProps> = ({
     )
   }
 
+  const renderQueueConflicts = () => {
+    const conflicts = message.offline?.conflicts
+    if (!conflicts || conflicts.length === 0) return null
+
+    return (
+      <Alert
+        type="info"
+        showIcon
+        style={{ marginTop: 8 }}
+        message="Sent from the offline queue"
+        description={
+          <ul style={{ margin: 0, paddingLeft: 16 }}>
+            {conflicts.map(conflict => <li key={conflict}>{conflict}</li>)}
+          </ul>
+        }
+      />
+    )
+  }
+
   const renderContent = () => {
     if (isError && message.error) {
       return (
@@ -232,6 +273,8 @@ export const MessageItem: React.FC<MessageItemProps> = ({
         <Paragraph style={{ margin: 0, whiteSpace: 'pre-wrap' }}>
           {message.content}
         </Paragraph>
+
+        {renderQueueConflicts()}
         
         {message.sql && (
           <div style={{ marginTop: 12 }}>
@@ -320,6 +363,11 @@ export const MessageItem: React.FC<MessageItemProps> = ({
             {message.isFavorite && (
               <StarFilled style={{ color: '#faad14' }} />
             )}
+            {branchCount > 0 && (
+              <Tooltip title={`${branchCount} branch${branchCount === 1 ? '' : 'es'} forked from this answer`}>
+                <Tag icon={<BranchesOutlined />} color="purple">{branchCount}</Tag>
+              </Tooltip>
+            )}
           </Space>
         }
         actions={[
@@ -332,6 +380,7 @@ export const MessageItem: React.FC<MessageItemProps> = ({
             onRerun={handleRerun}
             onEdit={onEdit}
             onShowProcessFlow={onShowProcessFlow}
+            onBranch={onBranch}
           />
         ]}
       >
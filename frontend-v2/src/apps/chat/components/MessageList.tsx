@@ -90,6 +90,8 @@ interface MessageListProps {
   onEdit?: (messageId: string) => void
   onDelete?: (messageId: string) => void
   onShowProcessFlow?: (messageId: string) => void
+  onBranch?: (messageId: string) => void
+  branchCounts?: Record<string, number>
   className?: string
 }
 
@@ -101,6 +103,8 @@ export const MessageList: React.FC<MessageListProps> = ({
   onEdit,
   onDelete,
   onShowProcessFlow,
+  onBranch,
+  branchCounts = {},
   className = ''
 }) => {
   const messagesEndRef = useRef<HTMLDivElement>(null)
@@ -208,6 +212,8 @@ export const MessageList: React.FC<MessageListProps> = ({
                 onEdit={onEdit}
                 onDelete={onDelete}
                 onShowProcessFlow={onShowProcessFlow}
+                onBranch={onBranch}
+                branchCount={branchCounts[message.id]}
               />
             ))}
           </div>
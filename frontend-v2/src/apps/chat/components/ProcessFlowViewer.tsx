@@ -13,7 +13,8 @@ import {
   Divider,
   Alert,
   Spin,
-  Badge
+  Badge,
+  Tabs
 } from 'antd';
 import {
   ClockCircleOutlined,
@@ -33,6 +34,9 @@ import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { tomorrow } from 'react-syntax-highlighter/dist/esm/styles/prism';
 import type { ProcessFlowSession, ProcessFlowStep, ProcessFlowLog } from '@shared/types/transparency';
 import { useProcessFlowSession } from '@shared/store/api/transparencyApi';
+import { ProcessFlowTimeline } from '@shared/components/ai/transparency';
+import { useLiveProcessFlow } from '@shared/components/ai/transparency/hooks/useLiveProcessFlow';
+import { mergeSteps } from '@shared/utils/processFlowTimeline';
 
 const { Title, Text, Paragraph } = Typography;
 
@@ -75,7 +79,8 @@ const ProcessStepCard: React.FC<{
   step: ProcessFlowStep;
   level?: number;
   logs?: ProcessFlowLog[];
-}> = ({ step, level = 0, logs = [] }) => {
+  allSteps?: ProcessFlowStep[];
+}> = ({ step, level = 0, logs = [], allSteps = [] }) => {
   const [expanded, setExpanded] = useState(false);
 
   // Get step-specific logs
@@ -84,14 +89,16 @@ const ProcessStepCard: React.FC<{
   // Check if we have details to show
   const hasDetails = step.inputData || step.outputData || step.errorMessage || stepLogs.length > 0;
 
+  const subSteps = allSteps.filter(candidate => candidate.parentStepId === step.stepId);
+
   return (
     <Card
       size="small"
       style={{
         marginLeft: level * 16,
         marginBottom: 8,
-        border: `1px solid ${getStepColor(stepStatus)}20`,
-        borderLeft: `4px solid ${getStepColor(stepStatus)}`
+        border: `1px solid ${getStepColor(step.status)}20`,
+        borderLeft: `4px solid ${getStepColor(step.status)}`
       }}
     >
       <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start' }}>
@@ -106,6 +113,12 @@ const ProcessStepCard: React.FC<{
             {step.confidence && (
               <Tag color="purple">{(step.confidence * 100).toFixed(1)}%</Tag>
             )}
+            {step.attempt !== undefined && step.attempt > 1 && (
+              <Tag color="gold">Attempt {step.attempt}</Tag>
+            )}
+            {step.tokensUsed !== undefined && (
+              <Tag>{step.tokensUsed.toLocaleString()} tokens</Tag>
+            )}
           </Space>
           <div style={{ marginTop: 4 }}>
             <Text type="secondary" style={{ fontSize: '12px' }}>
@@ -193,10 +206,16 @@ const ProcessStepCard: React.FC<{
         </div>
       )}
 
-      {step.subSteps && step.subSteps.length > 0 && (
+      {subSteps.length > 0 && (
         <div style={{ marginTop: 12 }}>
-          {step.subSteps.map((subStep) => (
-            <ProcessStepCard key={subStep.id} step={subStep} level={level + 1} />
+          {subSteps.map((subStep) => (
+            <ProcessStepCard
+              key={subStep.stepId}
+              step={subStep}
+              level={level + 1}
+              logs={logs}
+              allSteps={allSteps}
+            />
           ))}
         </div>
       )}
@@ -210,26 +229,32 @@ export const ProcessFlowViewer: React.FC<ProcessFlowViewerProps> = ({
   sessionId,
   realTimeUpdates = false
 }) => {
-  const [currentStep, setCurrentStep] = useState<string | null>(null);
+  const [activeView, setActiveView] = useState('timeline');
 
   // Use ProcessFlow session data
   const {
     session,
-    steps,
+    steps: savedSteps,
     logs,
     transparency,
     isLoading,
-    error
+    error,
+    refetch
   } = useProcessFlowSession(sessionId);
 
+  // Only follow sessions that can still change
+  const followLive = realTimeUpdates && visible && (!session || session.status === 'InProgress' || session.status === 'NotStarted');
+  const live = useLiveProcessFlow(sessionId, followLive);
+  const steps = mergeSteps(savedSteps, live.steps);
+
+  // Pick up the final saved state once the trace reports it's done
   useEffect(() => {
-    if (session && realTimeUpdates) {
-      const runningStep = steps.find(step => step.status === 'InProgress');
-      setCurrentStep(runningStep?.stepId || null);
+    if (live.status === 'completed') {
+      refetch();
     }
-  }, [session, steps, realTimeUpdates]);
+  }, [live.status, refetch]);
 
-  if (isLoading) {
+  if (isLoading && steps.length === 0) {
     return (
       <Drawer
         title="ProcessFlow Session"
@@ -248,7 +273,7 @@ export const ProcessFlowViewer: React.FC<ProcessFlowViewerProps> = ({
     );
   }
 
-  if (error) {
+  if (error && steps.length === 0) {
     return (
       <Drawer
         title="ProcessFlow Session"
@@ -258,18 +283,27 @@ export const ProcessFlowViewer: React.FC<ProcessFlowViewerProps> = ({
         open={visible}
       >
         <div style={{ textAlign: 'center', padding: '40px' }}>
-          <Alert
-            message="Error Loading ProcessFlow Session"
-            description="Failed to load ProcessFlow session data"
-            type="error"
-            showIcon
-          />
+          {live.status === 'connecting' || live.status === 'live' ? (
+            <>
+              <Spin />
+              <div style={{ marginTop: 16 }}>
+                <Text type="secondary">Waiting for the first step to complete...</Text>
+              </div>
+            </>
+          ) : (
+            <Alert
+              message="Error Loading ProcessFlow Session"
+              description="Failed to load ProcessFlow session data"
+              type="error"
+              showIcon
+            />
+          )}
         </div>
       </Drawer>
     );
   }
 
-  if (!session) {
+  if (!session && steps.length === 0) {
     return (
       <Drawer
         title="ProcessFlow Session"
@@ -288,6 +322,11 @@ export const ProcessFlowViewer: React.FC<ProcessFlowViewerProps> = ({
   const completedSteps = steps.filter(s => s.status === 'Completed').length;
   const totalSteps = steps.length;
   const progressPercent = totalSteps > 0 ? (completedSteps / totalSteps) * 100 : 0;
+  const sessionStatus = live.status === 'completed'
+    ? (live.completion?.success ? 'Completed' : 'Failed')
+    : session?.status ?? 'InProgress';
+  const isRunning = sessionStatus === 'InProgress';
+  const topLevelSteps = steps.filter(step => !step.parentStepId || !steps.some(other => other.stepId === step.parentStepId));
 
   return (
     <Drawer
@@ -295,7 +334,7 @@ export const ProcessFlowViewer: React.FC<ProcessFlowViewerProps> = ({
         <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
           <ApiOutlined />
           <span>ProcessFlow Session</span>
-          {realTimeUpdates && session.status === 'InProgress' && (
+          {live.status === 'live' && isRunning && (
             <Badge status="processing" text="Live" />
           )}
         </div>
@@ -306,28 +345,30 @@ export const ProcessFlowViewer: React.FC<ProcessFlowViewerProps> = ({
       open={visible}
       extra={
         <Space>
-          <Tag color="blue">Session: {session.sessionId.slice(-8)}</Tag>
-          <Tag color={session.status === 'Completed' ? 'green' : session.status === 'Failed' ? 'red' : 'orange'}>
-            {session.status.toUpperCase()}
+          <Tag color="blue">Session: {sessionId.slice(-8)}</Tag>
+          <Tag color={sessionStatus === 'Completed' ? 'green' : sessionStatus === 'Failed' ? 'red' : 'orange'}>
+            {sessionStatus.toUpperCase()}
           </Tag>
         </Space>
       }
     >
       <div style={{ padding: '0 0 24px' }}>
         {/* Query Information */}
-        <Card style={{ marginBottom: 16 }}>
-          <Title level={5}>Query Information</Title>
-          <Paragraph style={{ margin: 0, fontSize: '14px' }}>
-            <Text strong>Query:</Text> {session.userQuery}
-          </Paragraph>
-          <div style={{ marginTop: 8, display: 'flex', gap: '16px', fontSize: '12px' }}>
-            <Text type="secondary">User: {session.userId}</Text>
-            <Text type="secondary">Started: {new Date(session.startTime).toLocaleTimeString()}</Text>
-            {session.totalDurationMs && (
-              <Text type="secondary">Duration: {formatDuration(session.totalDurationMs)}</Text>
-            )}
-          </div>
-        </Card>
+        {session && (
+          <Card style={{ marginBottom: 16 }}>
+            <Title level={5}>Query Information</Title>
+            <Paragraph style={{ margin: 0, fontSize: '14px' }}>
+              <Text strong>Query:</Text> {session.userQuery}
+            </Paragraph>
+            <div style={{ marginTop: 8, display: 'flex', gap: '16px', fontSize: '12px' }}>
+              <Text type="secondary">User: {session.userId}</Text>
+              <Text type="secondary">Started: {new Date(session.startTime).toLocaleTimeString()}</Text>
+              {session.totalDurationMs && (
+                <Text type="secondary">Duration: {formatDuration(session.totalDurationMs)}</Text>
+              )}
+            </div>
+          </Card>
+        )}
 
         {/* Progress Overview */}
         <Card style={{ marginBottom: 16 }}>
@@ -337,8 +378,8 @@ export const ProcessFlowViewer: React.FC<ProcessFlowViewerProps> = ({
           </div>
           <Progress
             percent={progressPercent}
-            status={session.status === 'Failed' ? 'exception' : session.status === 'InProgress' ? 'active' : 'success'}
-            strokeColor={session.status === 'Failed' ? '#ff4d4f' : '#52c41a'}
+            status={sessionStatus === 'Failed' ? 'exception' : isRunning ? 'active' : 'success'}
+            strokeColor={sessionStatus === 'Failed' ? '#ff4d4f' : '#52c41a'}
           />
         </Card>
 
@@ -378,7 +419,7 @@ export const ProcessFlowViewer: React.FC<ProcessFlowViewerProps> = ({
         {/* Process Steps */}
         <Card>
           <Title level={5}>Process Steps</Title>
-          {session.status === 'InProgress' && (
+          {isRunning && live.status === 'live' && (
             <Alert
               message="ProcessFlow is running"
               description="Steps will update in real-time as they complete"
@@ -387,16 +428,51 @@ export const ProcessFlowViewer: React.FC<ProcessFlowViewerProps> = ({
               style={{ marginBottom: 16 }}
             />
           )}
+          {isRunning && (live.status === 'unavailable' || live.status === 'idle') && (
+            <Alert
+              message="No live data"
+              description="Live step updates aren't available for this session. Showing the last saved state."
+              type="warning"
+              showIcon
+              style={{ marginBottom: 16 }}
+              action={
+                <Button size="small" onClick={refetch}>
+                  Refresh
+                </Button>
+              }
+            />
+          )}
 
-          <div style={{ maxHeight: '60vh', overflow: 'auto' }}>
-            {steps.map((step) => (
-              <ProcessStepCard
-                key={step.stepId}
-                step={step}
-                logs={logs}
-              />
-            ))}
-          </div>
+          <Tabs
+            activeKey={activeView}
+            onChange={setActiveView}
+            size="small"
+            items={[
+              {
+                key: 'timeline',
+                label: 'Timeline',
+                children: (
+                  <ProcessFlowTimeline steps={steps} live={live.status === 'live'} />
+                )
+              },
+              {
+                key: 'steps',
+                label: `Steps (${steps.length})`,
+                children: (
+                  <div style={{ maxHeight: '60vh', overflow: 'auto' }}>
+                    {topLevelSteps.map((step) => (
+                      <ProcessStepCard
+                        key={step.stepId}
+                        step={step}
+                        logs={logs}
+                        allSteps={steps}
+                      />
+                    ))}
+                  </div>
+                )
+              }
+            ]}
+          />
         </Card>
       </div>
     </Drawer>
@@ -30,6 +30,8 @@ import {
 } from '@ant-design/icons'
 import { DataTable } from '@shared/components/core/DataTable'
 import { Chart } from '@shared/components/core/Chart'
+import { PiiMaskingNotice } from '@shared/components/security/PiiMaskingNotice'
+import { usePiiMasking } from '@shared/hooks/usePiiMasking'
 import type { ChatMessage } from '@shared/types/chat'
 
 const { Text, Title } = Typography
@@ -64,6 +66,12 @@ export const QueryResultsViewer: React.FC<QueryResultsViewerProps> = ({
     return results
   }, [results])
 
+  // Personal data stays masked on screen and in exports unless revealed
+  const resultColumns = useMemo(() => (processedData.length ? Object.keys(processedData[0]) : []), [processedData])
+  const masking = usePiiMasking(resultColumns, { ...(sql && { sql }), context: 'chat-results' })
+  const { maskRecords } = masking
+  const displayData = useMemo(() => maskRecords(processedData), [maskRecords, processedData])
+
   const columns = useMemo(() => {
     if (!processedData.length) return []
     return Object.keys(processedData[0]).map(key => ({
@@ -138,12 +146,12 @@ export const QueryResultsViewer: React.FC<QueryResultsViewerProps> = ({
   // Export functionality
   const handleExport = (format: string) => {
     if (onExport) {
-      onExport(format, processedData)
+      onExport(format, displayData)
     } else {
       // Default export logic
       const dataStr = format === 'json' 
-        ? JSON.stringify(processedData, null, 2)
-        : convertToCSV(processedData)
+        ? JSON.stringify(displayData, null, 2)
+        : convertToCSV(displayData)
       
       const blob = new Blob([dataStr], { 
         type: format === 'json' ? 'application/json' : 'text/csv' 
@@ -348,6 +356,8 @@ export const QueryResultsViewer: React.FC<QueryResultsViewerProps> = ({
         </div>
       )}
 
+      <PiiMaskingNotice masking={masking} style={{ margin: '16px 16px 0' }} />
+
       {/* Main Content */}
       <Tabs
         activeKey={activeTab}
@@ -364,7 +374,7 @@ export const QueryResultsViewer: React.FC<QueryResultsViewerProps> = ({
             ),
             children: (
               <DataTable
-                data={processedData}
+                data={displayData}
                 columns={columns}
                 loading={false}
                 pagination={true}
@@ -387,7 +397,7 @@ export const QueryResultsViewer: React.FC<QueryResultsViewerProps> = ({
             children: (
               <div style={{ padding: '16px 0' }}>
                 <Chart
-                  data={processedData}
+                  data={displayData}
                   columns={columns.map(col => col.key)}
                   config={{
                     type: chartType,
@@ -1,5 +1,5 @@
-import React, { useState } from 'react'
-import { Card, Space, Typography, Button, Tag, List, Avatar, Tooltip } from 'antd'
+import React, { useCallback, useState } from 'react'
+import { Card, Space, Typography, Button, Tag, List, Avatar, Tooltip, Modal } from 'antd'
 import {
   BulbOutlined,
   HistoryOutlined,
@@ -8,6 +8,15 @@ import {
   QuestionCircleOutlined,
   SendOutlined
 } from '@ant-design/icons'
+import { useLazyGetSchemaTableDetailsQuery } from '@shared/store/api/businessApi'
+import {
+  renderTemplate,
+  resolveTemplateValues,
+  validateTemplateValues,
+  type TemplateOption,
+  type TemplateVariableSpec,
+} from '@shared/utils/queryTemplateEngine'
+import { TemplateVariableForm } from './TemplateVariableForm'
 
 const { Text } = Typography
 
@@ -26,6 +35,10 @@ interface QuerySuggestion {
   usage: number
   confidence: number
   description?: string
+  /** Question template with `{{variable}}` placeholders, filled in before sending */
+  template?: string
+  variables?: TemplateVariableSpec[]
+  defaults?: Record<string, unknown>
 }
 
 /**
@@ -39,6 +52,10 @@ export const QuerySuggestions: React.FC<QuerySuggestionsProps> = ({
   className = ''
 }) => {
   const [selectedCategory, setSelectedCategory] = useState<string>('smart')
+  const [activeTemplate, setActiveTemplate] = useState<QuerySuggestion | null>(null)
+  const [templateValues, setTemplateValues] = useState<Record<string, unknown>>({})
+  const [templateErrors, setTemplateErrors] = useState<Record<string, string>>({})
+  const [fetchTableDetails] = useLazyGetSchemaTableDetailsQuery()
 
   const suggestions: QuerySuggestion[] = [
     {
@@ -62,10 +79,103 @@ export const QuerySuggestions: React.FC<QuerySuggestionsProps> = ({
       category: 'template',
       usage: 78,
       confidence: 0.89,
-      description: 'Comparison template'
-    }
+      description: 'Comparison template',
+      template: 'Compare {{metric}} between {{startDate}} and {{endDate}}{{#if country}} for {{country}}{{/if}}',
+      variables: [
+        {
+          name: 'metric',
+          type: 'select',
+          label: 'Metric',
+          required: true,
+          options: ['deposits', 'revenue', 'active players', 'registrations'],
+        },
+        { name: 'startDate', type: 'date', label: 'From', required: true },
+        { name: 'endDate', type: 'date', label: 'To', required: true },
+        {
+          name: 'country',
+          type: 'select',
+          label: 'Country',
+          description: 'Leave empty for all countries',
+          required: false,
+          optionsSource: { table: 'tbl_Countries', column: 'country_name' },
+        },
+      ],
+    },
+    {
+      id: 'template-2',
+      text: 'Show me the top [N] players by [metric]',
+      category: 'template',
+      usage: 64,
+      confidence: 0.86,
+      description: 'Ranking template',
+      template: 'Show me the top {{limit}} players by {{metric}}{{#if period}} for {{period}}{{/if}}',
+      defaults: { limit: 10 },
+      variables: [
+        {
+          name: 'limit',
+          type: 'number',
+          label: 'Number of players',
+          required: true,
+          validation: { min: 1, max: 100 },
+        },
+        {
+          name: 'metric',
+          type: 'select',
+          label: 'Metric',
+          required: true,
+          options: ['deposits', 'bets', 'wins', 'net gaming revenue'],
+        },
+        {
+          name: 'period',
+          type: 'select',
+          label: 'Period',
+          required: false,
+          options: ['last week', 'last month', 'last quarter', 'last year'],
+        },
+      ],
+    },
   ]
 
+  const loadOptions = useCallback(async (variable: TemplateVariableSpec): Promise<TemplateOption[]> => {
+    if (!variable.optionsSource) return variable.options ?? []
+
+    const { table, column } = variable.optionsSource
+    const [schemaName, tableName] = table.includes('.') ? table.split('.') : ['dbo', table]
+    const details = await fetchTableDetails({ schemaName, tableName }, true).unwrap()
+    return details.columns?.find(info => info.columnName === column)?.sampleValues ?? []
+  }, [fetchTableDetails])
+
+  const handleSelect = (suggestion: QuerySuggestion) => {
+    if (!suggestion.template || !suggestion.variables?.length) {
+      onSuggestionSelect?.(suggestion.text)
+      return
+    }
+
+    setTemplateValues(resolveTemplateValues(suggestion.variables, {}, suggestion.defaults))
+    setTemplateErrors({})
+    setActiveTemplate(suggestion)
+  }
+
+  const handleTemplateValueChange = (name: string, value: unknown) => {
+    setTemplateValues(prev => ({ ...prev, [name]: value }))
+    setTemplateErrors(prev => {
+      const { [name]: _cleared, ...rest } = prev
+      return rest
+    })
+  }
+
+  const handleTemplateSubmit = () => {
+    if (!activeTemplate?.template || !activeTemplate.variables) return
+
+    const values = resolveTemplateValues(activeTemplate.variables, templateValues, activeTemplate.defaults)
+    const errors = validateTemplateValues(activeTemplate.variables, values)
+    setTemplateErrors(errors)
+    if (Object.keys(errors).length > 0) return
+
+    onSuggestionSelect?.(renderTemplate(activeTemplate.template, values))
+    setActiveTemplate(null)
+  }
+
   const getCategoryIcon = (category: string) => {
     switch (category) {
       case 'popular': return <TrendingUpOutlined />
@@ -121,7 +231,7 @@ export const QuerySuggestions: React.FC<QuerySuggestionsProps> = ({
                     type="text"
                     size="small"
                     icon={<SendOutlined />}
-                    onClick={() => onSuggestionSelect?.(suggestion.text)}
+                    onClick={() => handleSelect(suggestion)}
                   />
                 ]}
               >
@@ -154,6 +264,25 @@ export const QuerySuggestions: React.FC<QuerySuggestionsProps> = ({
           />
         </Space>
       </Card>
+
+      <Modal
+        title={activeTemplate?.description ?? 'Fill in template'}
+        open={!!activeTemplate}
+        onOk={handleTemplateSubmit}
+        onCancel={() => setActiveTemplate(null)}
+        okText="Use Query"
+        destroyOnClose
+      >
+        {activeTemplate?.variables && (
+          <TemplateVariableForm
+            variables={activeTemplate.variables}
+            values={templateValues}
+            errors={templateErrors}
+            onChange={handleTemplateValueChange}
+            loadOptions={loadOptions}
+          />
+        )}
+      </Modal>
     </div>
   )
 }
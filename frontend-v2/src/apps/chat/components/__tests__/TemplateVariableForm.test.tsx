@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+import { renderToStaticMarkup } from 'react-dom/server'
+import type { TemplateVariableSpec } from '@shared/utils/queryTemplateEngine'
+import { TemplateVariableForm } from '../TemplateVariableForm'
+
+const variables: TemplateVariableSpec[] = [
+  { name: 'country', type: 'string', required: true, label: 'Country' },
+  { name: 'limit', type: 'number', required: false, label: 'Limit', validation: { min: 1, max: 100 } },
+  { name: 'since', type: 'date', required: false, label: 'Since' },
+  { name: 'statuses', type: 'multiselect', required: false, label: 'Statuses', options: ['Open', { label: 'Closed (final)', value: 'Closed' }] },
+]
+
+const render = (values: Record<string, unknown>, errors?: Record<string, string>) =>
+  renderToStaticMarkup(
+    <TemplateVariableForm variables={variables} values={values} onChange={() => undefined} {...(errors && { errors })} />
+  )
+
+// Rendered on the server, so this covers markup; the legacy frontend's copy of the test drives the inputs in jsdom
+describe('TemplateVariableForm', () => {
+  it('renders a typed input per variable', () => {
+    const html = render({ country: 'France', limit: 5, since: '2024-05-01', statuses: ['Closed'] })
+    expect(html).toContain('placeholder="Enter country" class="ant-input')
+    expect(html).toMatch(/aria-valuemin="1" aria-valuemax="100"[^>]*value="5"/)
+    expect(html).toContain('value="2024-05-01"')
+    expect(html).toContain('title="Closed (final)"')
+  })
+
+  it('marks fields with validation errors', () => {
+    // The help text itself animates in on the client
+    const html = render({}, { country: 'Country is required' })
+    expect(html).toContain('ant-form-item-has-error')
+    expect(html).toMatch(/placeholder="Enter country" class="[^"]*ant-input-status-error/)
+  })
+})
@@ -0,0 +1,134 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { renderToStaticMarkup } from 'react-dom/server'
+import type { Conversation } from '@shared/types/chat'
+import { useAmbiguityResolution } from '../useAmbiguityResolution'
+
+const analyze = vi.fn()
+const updateContext = vi.fn()
+const dispatch = vi.fn()
+let state: any
+
+vi.mock('@shared/hooks', () => ({
+  useAppDispatch: () => dispatch,
+  useAppSelector: (selector: (state: any) => unknown) => selector(state),
+}))
+
+vi.mock('@shared/store/api/chatApi', () => ({
+  useAnalyzeQuerySemanticsMutation: () => [analyze],
+  useUpdateConversationContextMutation: () => [updateContext],
+}))
+
+const conversation = (id: string, termClarifications?: Record<string, string>): Conversation => ({
+  id,
+  title: id,
+  createdAt: new Date('2026-10-19T08:00:00Z'),
+  updatedAt: new Date('2026-10-19T08:00:00Z'),
+  messageCount: 0,
+  isActive: true,
+  tags: [],
+  userId: 'u1',
+  context: { queryHistory: [], commonPatterns: [], ...(termClarifications && { termClarifications }) },
+})
+
+const analysis = {
+  ambiguities: [
+    { term: 'revenue', possibleMeanings: ['gross revenue', 'net revenue'], suggestedClarification: 'Which revenue?' },
+    { term: 'active', possibleMeanings: ['logged in this week', 'deposited this month'], suggestedClarification: '' },
+  ],
+}
+
+// Rendered once on the server; the returned callbacks keep working after the render
+const renderHook = () => {
+  let result: ReturnType<typeof useAmbiguityResolution> | undefined
+  const Probe = () => {
+    result = useAmbiguityResolution()
+    return null
+  }
+  renderToStaticMarkup(<Probe />)
+  return result!
+}
+
+const resolved = (value: unknown) => ({ unwrap: () => Promise.resolve(value) })
+
+describe('useAmbiguityResolution', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    const store = new Map<string, string>()
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+    })
+    state = {
+      auth: { user: { id: 'u1' } },
+      chat: {
+        settings: { enableSemanticAnalysis: true },
+        currentConversation: conversation('c1', { revenue: 'net revenue' }),
+        pendingClarification: null,
+      },
+    }
+    analyze.mockReturnValue(resolved(analysis))
+    updateContext.mockReturnValue(resolved({}))
+  })
+
+  it('pauses on the terms left unresolved and records the conversation the question was asked in', async () => {
+    const { resolveAmbiguities } = renderHook()
+
+    await expect(resolveAmbiguities('revenue of active players', 'm1')).resolves.toBeNull()
+    expect(dispatch).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'chat/setPendingClarification',
+      payload: {
+        messageId: 'm1',
+        query: 'revenue of active players',
+        conversationId: 'c1',
+        ambiguities: [analysis.ambiguities[1]],
+        resolved: { revenue: 'net revenue' },
+      },
+    }))
+  })
+
+  it('resolves from the conversation passed in rather than the current one', async () => {
+    const fork = conversation('fork', { revenue: 'gross revenue', active: 'deposited this month' })
+    const { resolveAmbiguities } = renderHook()
+
+    await expect(resolveAmbiguities('revenue of active players', 'm1', fork)).resolves.toEqual({
+      revenue: 'gross revenue',
+      active: 'deposited this month',
+    })
+    expect(dispatch).not.toHaveBeenCalled()
+  })
+
+  it('applies choices the user saved earlier', async () => {
+    state.chat.currentConversation = conversation('c1')
+    renderHook().rememberClarifications({ revenue: 'gross revenue', active: 'logged in this week' })
+
+    await expect(renderHook().resolveAmbiguities('revenue of active players', 'm2')).resolves.toEqual({
+      revenue: 'gross revenue',
+      active: 'logged in this week',
+    })
+    expect(updateContext).toHaveBeenCalledWith({
+      conversationId: 'c1',
+      context: expect.objectContaining({
+        termClarifications: { revenue: 'gross revenue', active: 'logged in this week' },
+      }),
+    })
+  })
+
+  it('does not save choices without a signed-in user', async () => {
+    state.auth.user = null
+    renderHook().rememberClarifications({ active: 'logged in this week' })
+
+    state.auth.user = { id: 'u1' }
+    await expect(renderHook().resolveAmbiguities('revenue of active players', 'm3')).resolves.toBeNull()
+    expect(localStorage.getItem('chat-term-clarifications:u1')).toBeNull()
+  })
+
+  it('sends the question without clarifications when the check fails or is turned off', async () => {
+    analyze.mockReturnValue({ unwrap: () => Promise.reject(new Error('offline')) })
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+    await expect(renderHook().resolveAmbiguities('revenue', 'm4')).resolves.toEqual({ revenue: 'net revenue' })
+
+    state.chat.settings.enableSemanticAnalysis = false
+    await expect(renderHook().resolveAmbiguities('revenue', 'm5')).resolves.toEqual({})
+    expect(dispatch).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,104 @@
+import { useCallback } from 'react'
+import { useAppDispatch, useAppSelector } from '@shared/hooks'
+import { selectUser } from '@shared/store/auth'
+import {
+  chatActions,
+  selectChatSettings,
+  selectCurrentConversation,
+  selectPendingClarification,
+} from '@shared/store/chat'
+import { useAnalyzeQuerySemanticsMutation, useUpdateConversationContextMutation } from '@shared/store/api/chatApi'
+import {
+  extractAmbiguities,
+  loadRememberedClarifications,
+  partitionAmbiguities,
+  saveRememberedClarifications,
+  type TermClarifications,
+} from '@shared/utils/ambiguityResolution'
+import type { Conversation, PendingClarification } from '@shared/types/chat'
+
+interface AmbiguityResolutionHook {
+  pendingClarification: PendingClarification | null
+  resolveAmbiguities: (query: string, messageId: string, conversation?: Conversation | null) => Promise<TermClarifications | null>
+  rememberClarifications: (choices: TermClarifications) => void
+  clearPendingClarification: () => void
+}
+
+/**
+ * Checks a question for ambiguous terms before it is sent for SQL generation.
+ * Terms the user already clarified are resolved from the conversation context
+ * and their saved choices; anything left pauses the chat on a clarification card.
+ */
+export const useAmbiguityResolution = (): AmbiguityResolutionHook => {
+  const dispatch = useAppDispatch()
+  const user = useAppSelector(selectUser)
+  const settings = useAppSelector(selectChatSettings)
+  const currentConversation = useAppSelector(selectCurrentConversation)
+  const pendingClarification = useAppSelector(selectPendingClarification)
+  const [analyzeQuerySemantics] = useAnalyzeQuerySemanticsMutation()
+  const [updateConversationContext] = useUpdateConversationContextMutation()
+
+  // Saved choices are per user; signed out, only the conversation's own choices apply
+  const userId = user?.id
+
+  /**
+   * Resolves to the clarifications to send with the query, or null when the
+   * user has to answer first.
+   */
+  const resolveAmbiguities = useCallback(async (
+    query: string,
+    messageId: string,
+    conversation: Conversation | null = currentConversation
+  ) => {
+    if (!settings.enableSemanticAnalysis) return {}
+
+    const remembered = {
+      ...(userId ? loadRememberedClarifications(userId) : {}),
+      ...conversation?.context.termClarifications,
+    }
+
+    let analysis: any
+    try {
+      analysis = await analyzeQuerySemantics({ query }).unwrap()
+    } catch (error) {
+      // Analysis is advisory; never block the question on it
+      console.warn('Ambiguity check failed, continuing without it:', error)
+      return remembered
+    }
+
+    const { resolved, unresolved } = partitionAmbiguities(extractAmbiguities(analysis), remembered)
+    if (unresolved.length === 0) return resolved
+
+    dispatch(chatActions.setPendingClarification({
+      messageId,
+      query,
+      conversationId: conversation?.id,
+      ambiguities: unresolved,
+      resolved,
+    }))
+    return null
+  }, [settings.enableSemanticAnalysis, userId, currentConversation, analyzeQuerySemantics, dispatch])
+
+  const rememberClarifications = useCallback((choices: TermClarifications) => {
+    if (Object.keys(choices).length === 0) return
+
+    if (userId) saveRememberedClarifications(userId, choices)
+    dispatch(chatActions.rememberTermClarifications(choices))
+
+    if (currentConversation) {
+      updateConversationContext({
+        conversationId: currentConversation.id,
+        context: {
+          ...currentConversation.context,
+          termClarifications: { ...currentConversation.context.termClarifications, ...choices },
+        },
+      }).unwrap().catch(error => console.error('Failed to save term clarifications:', error))
+    }
+  }, [userId, currentConversation, updateConversationContext, dispatch])
+
+  const clearPendingClarification = useCallback(() => {
+    dispatch(chatActions.setPendingClarification(null))
+  }, [dispatch])
+
+  return { pendingClarification, resolveAmbiguities, rememberClarifications, clearPendingClarification }
+}
@@ -0,0 +1,97 @@
+import { useCallback, useState } from 'react'
+import { useAppDispatch, useAppSelector } from '@shared/hooks'
+import { chatActions, selectCurrentConversation, selectMessages } from '@shared/store/chat'
+import {
+  useCreateConversationMutation,
+  useDeleteConversationMutation,
+  useSaveMessagesMutation,
+  useUpdateConversationMutation,
+} from '@shared/store/api/chatApi'
+import {
+  buildBranchContext,
+  copyTranscriptToBranch,
+  createBranchTitle,
+  getBranchTranscript,
+} from '@shared/utils/conversationBranching'
+import type { Conversation, ConversationBranch } from '@shared/types/chat'
+
+interface ForkOptions {
+  label?: string
+}
+
+interface ConversationBranchingHook {
+  forkFromMessage: (messageId: string, options?: ForkOptions) => Promise<Conversation | null>
+  isForking: boolean
+}
+
+/**
+ * Forks the current conversation at an assistant answer.
+ * The fork is created on the server with the parent's context and lineage,
+ * its transcript is saved under the original message ids, and the parent is
+ * updated with the new branch id.
+ */
+export const useConversationBranching = (): ConversationBranchingHook => {
+  const dispatch = useAppDispatch()
+  const currentConversation = useAppSelector(selectCurrentConversation)
+  const messages = useAppSelector(selectMessages)
+  const [createConversation] = useCreateConversationMutation()
+  const [updateConversation] = useUpdateConversationMutation()
+  const [deleteConversation] = useDeleteConversationMutation()
+  const [saveMessages] = useSaveMessagesMutation()
+  const [isForking, setIsForking] = useState(false)
+
+  const forkFromMessage = useCallback(async (messageId: string, options: ForkOptions = {}) => {
+    if (!currentConversation) return null
+
+    const transcript = getBranchTranscript(messages, messageId)
+    if (transcript.length === 0) return null
+
+    const branch: ConversationBranch = {
+      parentConversationId: currentConversation.id,
+      rootConversationId: currentConversation.branch?.rootConversationId ?? currentConversation.id,
+      forkedFromMessageId: messageId,
+      label: options.label?.trim() || undefined,
+      createdAt: new Date(),
+    }
+
+    setIsForking(true)
+    try {
+      const conversation = await createConversation({
+        title: createBranchTitle(currentConversation.title, options.label),
+        context: buildBranchContext(currentConversation.context, transcript),
+        branch,
+      }).unwrap()
+
+      // Older backends may not echo the branch back
+      const forked: Conversation = { ...conversation, branch: conversation.branch ?? branch }
+
+      try {
+        await saveMessages({
+          conversationId: forked.id,
+          messages: copyTranscriptToBranch(transcript, forked.id),
+        }).unwrap()
+      } catch (error) {
+        // A branch without its transcript would reload empty, so drop it
+        await deleteConversation(forked.id).unwrap().catch(() => undefined)
+        throw error
+      }
+
+      dispatch(chatActions.forkConversation({ conversation: forked, fromMessageId: messageId }))
+
+      // The fork already exists, so a failed parent update only loses the back-link
+      await updateConversation({
+        id: currentConversation.id,
+        updates: { branchIds: [...(currentConversation.branchIds ?? []), forked.id] },
+      }).unwrap().catch(error => console.error('Failed to record branch on parent conversation:', error))
+
+      return forked
+    } catch (error) {
+      console.error('Failed to fork conversation:', error)
+      return null
+    } finally {
+      setIsForking(false)
+    }
+  }, [currentConversation, messages, createConversation, updateConversation, deleteConversation, saveMessages, dispatch])
+
+  return { forkFromMessage, isForking }
+}
@@ -0,0 +1,85 @@
+import { useCallback } from 'react'
+import {
+  useGetBudgetsQuery,
+  usePredictCostMutation,
+  useRecordBudgetOverrideMutation
+} from '@shared/store/api/costApi'
+import { useGetModelsQuery } from '@shared/store/api/llmManagementApi'
+import {
+  checkBudgets,
+  estimateQueryComplexity,
+  suggestCheaperModel,
+  type ModelSuggestion,
+  type PreflightResult
+} from '@shared/utils/costPreflight'
+import type { CostPrediction } from '@shared/types/cost'
+
+export interface CostPreflight extends PreflightResult {
+  query: string
+  queryId: string
+  prediction?: CostPrediction
+  suggestion?: ModelSuggestion
+}
+
+interface CostPreflightHook {
+  checkCost: (query: string) => Promise<CostPreflight>
+  recordOverride: (preflight: CostPreflight, reason: string) => Promise<void>
+  isChecking: boolean
+  isRecording: boolean
+}
+
+/**
+ * Estimates what a question will cost before it is sent and checks it against
+ * the user's active budgets. Only runs the prediction when a budget applies;
+ * if the prediction fails the question goes through rather than leaving the
+ * chat unable to send.
+ */
+export const useCostPreflight = (): CostPreflightHook => {
+  const { data: budgetsData } = useGetBudgetsQuery()
+  const { data: models = [] } = useGetModelsQuery({})
+  const [predictCost, { isLoading: isChecking }] = usePredictCostMutation()
+  const [recordBudgetOverride, { isLoading: isRecording }] = useRecordBudgetOverrideMutation()
+
+  const checkCost = useCallback(async (query: string): Promise<CostPreflight> => {
+    const budgets = budgetsData?.budgets ?? []
+    const queryId = `preflight-${Date.now()}`
+    const unchecked: CostPreflight = { query, queryId, level: 'ok', estimatedCost: 0, checks: [] }
+    if (checkBudgets(budgets, 0).checks.length === 0) return unchecked
+
+    try {
+      const { prediction } = await predictCost({
+        queryId,
+        criteria: { queryComplexity: estimateQueryComplexity(query), priority: 'Balanced' }
+      }).unwrap()
+
+      const result = checkBudgets(budgets, prediction.estimatedCost)
+      const suggestion = result.level === 'ok' ? undefined : suggestCheaperModel(models, prediction, budgets)
+      return { ...result, query, queryId, prediction, ...(suggestion && { suggestion }) }
+    } catch (error) {
+      console.warn('Cost pre-flight estimate unavailable:', error)
+      return unchecked
+    }
+  }, [budgetsData, models, predictCost])
+
+  const recordOverride = useCallback(async (preflight: CostPreflight, reason: string) => {
+    const { limiting } = preflight
+    if (!limiting || limiting.level === 'ok') return
+
+    await recordBudgetOverride({
+      budgetId: limiting.budget.id,
+      queryId: preflight.queryId,
+      query: preflight.query,
+      estimatedCost: preflight.estimatedCost,
+      projectedUsagePercentage: limiting.projectedUsagePercentage,
+      level: limiting.level,
+      reason
+    }).unwrap()
+  }, [recordBudgetOverride])
+
+  return {
+    checkCost,
+    recordOverride,
+    isChecking,
+    isRecording
+  }
+}
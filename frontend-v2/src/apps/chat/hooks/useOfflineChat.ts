@@ -0,0 +1,151 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useAppDispatch, useAppSelector } from '@shared/hooks'
+import { chatActions, selectCurrentConversation, selectMessages } from '@shared/store/chat'
+import { useLazyGetSchemaSummaryQuery } from '@shared/store/api/businessApi'
+import { usePWA } from '@shared/components/pwa/PWAManager'
+import { offlineStore } from '@shared/services/offlineStore'
+import { checkQueuedQuestion, createQueuedQuestion } from '@shared/utils/offlineQueue'
+import type { QueuedQuestion } from '@shared/types/chat'
+
+// Transcripts are written to the offline cache once they settle
+const CACHE_DELAY_MS = 1000
+
+interface OfflineChatHook {
+  isOnline: boolean
+  queuedCount: number
+  queueQuestion: (messageId: string, query: string, queuedAt: string) => Promise<void>
+}
+
+/**
+ * Keeps the chat usable offline: transcripts and their recent results are
+ * cached in IndexedDB and restored when the app starts offline, and questions
+ * asked offline are queued and sent, with conflict notes, once the connection
+ * returns (directly when the page is open, otherwise through background sync).
+ *
+ * `send` resolves to false when a queued question couldn't be sent.
+ */
+export const useOfflineChat = (send: (item: QueuedQuestion) => Promise<boolean>): OfflineChatHook => {
+  const dispatch = useAppDispatch()
+  const messages = useAppSelector(selectMessages)
+  const currentConversation = useAppSelector(selectCurrentConversation)
+  const { isOnline, registerSyncHandler, syncOfflineData } = usePWA()
+  const [loadSchemaSummary] = useLazyGetSchemaSummaryQuery()
+  const [queuedCount, setQueuedCount] = useState(0)
+
+  // The sync handler outlives renders, so it reads the latest state from refs
+  const messagesRef = useRef(messages)
+  const conversationIdRef = useRef(currentConversation?.id)
+  const sendRef = useRef(send)
+  const flushingRef = useRef(false)
+  messagesRef.current = messages
+  conversationIdRef.current = currentConversation?.id
+  sendRef.current = send
+
+  // Restore cached conversations and the queue when starting offline
+  useEffect(() => {
+    if (!offlineStore.isSupported()) return
+
+    offlineStore.getQueue().then(queue => setQueuedCount(queue.length)).catch(() => undefined)
+    if (navigator.onLine) return
+
+    offlineStore.getConversations()
+      .then(cached => {
+        if (cached.length > 0) dispatch(chatActions.hydrateFromOfflineCache(cached))
+      })
+      .catch(error => console.warn('Could not load cached conversations:', error))
+  }, [dispatch])
+
+  // Cache the transcript, results included, once it stops changing
+  useEffect(() => {
+    if (!currentConversation || messages.length === 0) return undefined
+
+    const timer = setTimeout(() => {
+      offlineStore.saveConversation(currentConversation, messages).catch(error => {
+        console.warn('Could not cache conversation for offline use:', error)
+      })
+    }, CACHE_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [currentConversation, messages])
+
+  const queueQuestion = useCallback(async (messageId: string, query: string, queuedAt: string) => {
+    const item = createQueuedQuestion({ messageId, query, queuedAt }, messagesRef.current, conversationIdRef.current)
+    await offlineStore.enqueue(item)
+    setQueuedCount(count => count + 1)
+    // Lets the browser send the queue when the connection returns, even in the background
+    syncOfflineData()
+  }, [syncOfflineData])
+
+  /**
+   * Sends the current conversation's queued questions, oldest first. Other
+   * conversations' questions wait until they are opened, since answers are
+   * added to the open transcript. Resolves to how many are still queued.
+   */
+  const flushQueue = useCallback(async (): Promise<number> => {
+    const queue = await offlineStore.getQueue()
+    if (flushingRef.current || !navigator.onLine) return queue.length
+
+    flushingRef.current = true
+    try {
+      const pending = queue.filter(item => item.conversationId === conversationIdRef.current)
+      if (pending.length > 0) {
+        const schemaSummary = await loadSchemaSummary().unwrap().catch(() => undefined)
+
+        for (const item of pending) {
+          const { conflicts, duplicateOf } = checkQueuedQuestion(item, messagesRef.current, {
+            schemaUpdatedAt: schemaSummary?.lastUpdated
+          })
+          const offline = { queuedAt: item.queuedAt, ...(conflicts.length > 0 && { conflicts }) }
+
+          if (duplicateOf) {
+            dispatch(chatActions.updateMessage({
+              id: item.messageId,
+              updates: {
+                status: 'error',
+                offline: { queuedAt: item.queuedAt },
+                error: {
+                  code: 'QUEUED_DUPLICATE',
+                  message: 'Not sent: you asked this again after queuing it.',
+                  retryable: true
+                }
+              }
+            }))
+            await offlineStore.dequeue(item.messageId)
+            continue
+          }
+
+          dispatch(chatActions.updateMessage({ id: item.messageId, updates: { status: 'sending', offline } }))
+          const sent = await sendRef.current(item)
+
+          if (!sent && !navigator.onLine) {
+            // Dropped offline again; keep it for the next sync
+            dispatch(chatActions.updateMessage({ id: item.messageId, updates: { status: 'queued' } }))
+            break
+          }
+          // A question the server rejected stays on screen with its error and retry
+          await offlineStore.dequeue(item.messageId)
+        }
+      }
+    } finally {
+      flushingRef.current = false
+    }
+
+    const remaining = (await offlineStore.getQueue()).length
+    setQueuedCount(remaining)
+    return remaining
+  }, [dispatch, loadSchemaSummary])
+
+  useEffect(() => registerSyncHandler(flushQueue), [registerSyncHandler, flushQueue])
+
+  // Send anything queued for a conversation as soon as it is open and online
+  useEffect(() => {
+    if (isOnline && queuedCount > 0) {
+      flushQueue().catch(error => console.error('Failed to send queued questions:', error))
+    }
+  }, [isOnline, currentConversation?.id, queuedCount, flushQueue])
+
+  return {
+    isOnline,
+    queuedCount,
+    queueQuestion
+  }
+}
@@ -108,6 +108,7 @@ export const ChatPage: React.FC = () => {
       const result = await sendMessage({
         content,
         conversationId: currentConversation?.id,
+        clarifications: currentConversation?.context.termClarifications,
         type: 'user'
       }).unwrap()
 
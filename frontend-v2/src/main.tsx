@@ -9,6 +9,7 @@ import { ReactQueryDevtools } from '@tanstack/react-query-devtools'
 import { store, persistor } from '@shared/store'
 import { antdTheme } from '@shared/theme'
 import { LoadingSpinner } from '@shared/components/LoadingSpinner'
+import { PWAManager } from '@shared/components/pwa/PWAManager'
 import App from './App'
 import './index.css'
 
@@ -34,7 +35,9 @@ ReactDOM.createRoot(document.getElementById('root')!).render(
           <BrowserRouter>
             <ConfigProvider theme={antdTheme}>
               <AntdApp>
-                <App />
+                <PWAManager enableServiceWorker={import.meta.env.PROD}>
+                  <App />
+                </PWAManager>
                 {import.meta.env.DEV && <ReactQueryDevtools initialIsOpen={false} />}
               </AntdApp>
             </ConfigProvider>
@@ -0,0 +1,600 @@
+import React, { useMemo, useState } from 'react'
+import {
+  Alert,
+  Button,
+  Card,
+  Col,
+  Descriptions,
+  Empty,
+  Form,
+  Input,
+  Modal,
+  Radio,
+  Row,
+  Select,
+  Slider,
+  Space,
+  Switch,
+  Table,
+  Tag,
+  Timeline,
+  Tooltip,
+  Typography
+} from 'antd'
+import {
+  ArrowDownOutlined,
+  ArrowUpOutlined,
+  BranchesOutlined,
+  DeleteOutlined,
+  EditOutlined,
+  ExperimentOutlined,
+  PlusOutlined,
+  UndoOutlined
+} from '@ant-design/icons'
+import type { ColumnsType } from 'antd/es/table'
+import {
+  useGetModelsQuery,
+  useGetProvidersQuery,
+  useGetProviderHealthQuery,
+  type LLMModelConfig,
+  type LLMProviderStatus,
+  type LLMRoutingPolicy,
+  type LLMRoutingRule
+} from '@shared/store/api/llmManagementApi'
+import type { BudgetPreflightLevel, QueryComplexity } from '@shared/types/cost'
+import { estimateQueryComplexity } from '@shared/utils/costPreflight'
+import {
+  DEFAULT_ROUTING_POLICY,
+  ROUTING_BUDGET_STATES,
+  ROUTING_COMPLEXITIES,
+  ROUTING_ROLES,
+  ROUTING_USE_CASES,
+  routeRequest,
+  validateRoutingPolicy,
+  type RoutingCandidateStatus,
+  type RoutingRequest
+} from '@shared/utils/llmRouting'
+
+const { Text } = Typography
+
+export interface LLMRoutingPolicyManagerProps {
+  showSimulator?: boolean
+}
+
+type HealthOverride = 'actual' | LLMProviderStatus['status']
+
+interface RuleFormValues {
+  name: string
+  useCases?: string[]
+  complexities?: QueryComplexity[]
+  roles?: string[]
+  budgetStates?: BudgetPreflightLevel[]
+  modelChain: string[]
+  strategy: LLMRoutingRule['strategy']
+  // Cost gets the rest of the 100
+  latencyWeight: number
+}
+
+const COMPLEXITY_LABELS: Record<QueryComplexity, string> = {
+  simple: 'Simple',
+  medium: 'Medium',
+  complex: 'Complex',
+  very_complex: 'Very complex'
+}
+
+const BUDGET_STATE_LABELS: Record<BudgetPreflightLevel, string> = {
+  ok: 'Within budget',
+  warn: 'Near limit',
+  block: 'Over limit'
+}
+
+const CANDIDATE_COLORS: Record<RoutingCandidateStatus, string> = {
+  selected: 'green',
+  available: 'blue',
+  degraded: 'orange',
+  skipped: 'red'
+}
+
+const HEALTH_COLORS: Record<LLMProviderStatus['status'], string> = {
+  healthy: 'green',
+  degraded: 'orange',
+  unhealthy: 'red',
+  offline: 'red'
+}
+
+const newRuleId = () => `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`
+
+/**
+ * LLMRoutingPolicyManager - Routing policy simulator for LLM Management
+ *
+ * Drafts a policy in the browser and shows where it would send a request.
+ * Nothing is saved or applied: live requests still use each use case's
+ * default model.
+ *
+ * Features:
+ * - Ordered rules by use case, query complexity, user role and budget state
+ * - Fallback chains used when providers are degraded or offline
+ * - Latency/cost-weighted selection
+ * - Simulator showing where a request would be routed and why
+ */
+export const LLMRoutingPolicyManager: React.FC<LLMRoutingPolicyManagerProps> = ({
+  showSimulator = true
+}) => {
+  const { data: models = [] } = useGetModelsQuery({})
+  const { data: providers = [] } = useGetProvidersQuery()
+  const { data: health = [] } = useGetProviderHealthQuery()
+
+  const [policy, setPolicy] = useState<LLMRoutingPolicy>(DEFAULT_ROUTING_POLICY)
+  const [editingRule, setEditingRule] = useState<LLMRoutingRule | null>(null)
+  const [ruleModalVisible, setRuleModalVisible] = useState(false)
+  const [form] = Form.useForm<RuleFormValues>()
+
+  // Simulator inputs
+  const [simulation, setSimulation] = useState<RoutingRequest>({
+    useCase: 'analysis',
+    complexity: 'medium',
+    roles: ['Analyst'],
+    budgetState: 'ok'
+  })
+  const [question, setQuestion] = useState('')
+  const [healthOverrides, setHealthOverrides] = useState<Record<string, HealthOverride>>({})
+
+  const modelLabel = (modelId: string) => {
+    const model = models.find(candidate => candidate.modelId === modelId)
+    return model?.displayName || model?.name || modelId
+  }
+
+  const providerStatus = (providerId: string) => health.find(status => status.providerId === providerId)?.status
+
+  const modelOptions = models.map(model => ({
+    value: model.modelId,
+    label: `${model.displayName || model.name} (${providers.find(p => p.providerId === model.providerId)?.name ?? model.providerId})`,
+    disabled: !model.isEnabled
+  }))
+
+  const useCaseOptions = [...new Set([...ROUTING_USE_CASES, ...models.map(model => model.useCase).filter((useCase): useCase is string => !!useCase)])]
+    .map(useCase => ({ value: useCase, label: useCase }))
+
+  const problems = useMemo(() => validateRoutingPolicy(policy, models), [policy, models])
+
+  const simulatedHealth = useMemo(() => providers.map<LLMProviderStatus>(provider => {
+    const actual = health.find(status => status.providerId === provider.providerId)
+    const override = healthOverrides[provider.providerId]
+    if (!override || override === 'actual') {
+      return actual ?? { providerId: provider.providerId, isHealthy: true, status: 'healthy', lastChecked: '' }
+    }
+    return {
+      ...(actual ?? { providerId: provider.providerId, lastChecked: '' }),
+      isHealthy: override === 'healthy',
+      status: override
+    }
+  }), [providers, health, healthOverrides])
+
+  const decision = useMemo(
+    () => routeRequest(policy, simulation, { models, providers, health: simulatedHealth }),
+    [policy, simulation, models, providers, simulatedHealth]
+  )
+
+  // Rule editing
+  const openRuleEditor = (rule?: LLMRoutingRule) => {
+    setEditingRule(rule ?? null)
+    form.setFieldsValue(rule ? {
+      name: rule.name,
+      useCases: rule.conditions.useCases ?? [],
+      complexities: rule.conditions.complexities ?? [],
+      roles: rule.conditions.roles ?? [],
+      budgetStates: rule.conditions.budgetStates ?? [],
+      modelChain: rule.modelChain,
+      strategy: rule.strategy,
+      latencyWeight: rule.latencyWeight
+    } : {
+      name: '',
+      useCases: [],
+      complexities: [],
+      roles: [],
+      budgetStates: [],
+      modelChain: [],
+      strategy: 'ordered',
+      latencyWeight: 50
+    })
+    setRuleModalVisible(true)
+  }
+
+  const handleSaveRule = async () => {
+    try {
+      const values = await form.validateFields()
+      const rule: LLMRoutingRule = {
+        id: editingRule?.id ?? newRuleId(),
+        name: values.name,
+        isEnabled: editingRule?.isEnabled ?? true,
+        conditions: {
+          ...(values.useCases?.length && { useCases: values.useCases }),
+          ...(values.complexities?.length && { complexities: values.complexities }),
+          ...(values.roles?.length && { roles: values.roles }),
+          ...(values.budgetStates?.length && { budgetStates: values.budgetStates })
+        },
+        modelChain: values.modelChain,
+        strategy: values.strategy,
+        latencyWeight: values.latencyWeight,
+        costWeight: 100 - values.latencyWeight
+      }
+      setPolicy({
+        ...policy,
+        rules: editingRule
+          ? policy.rules.map(existing => (existing.id === rule.id ? rule : existing))
+          : [...policy.rules, rule]
+      })
+      setRuleModalVisible(false)
+    } catch (error) {
+      console.error('Invalid routing rule:', error)
+    }
+  }
+
+  const moveRule = (index: number, offset: number) => {
+    const rules = [...policy.rules]
+    const [rule] = rules.splice(index, 1)
+    rules.splice(index + offset, 0, rule!)
+    setPolicy({ ...policy, rules })
+  }
+
+  const isDraftEmpty = policy === DEFAULT_ROUTING_POLICY
+
+  const renderChain = (chain: string[]) => (
+    <Space size={[0, 4]} wrap>
+      {chain.map((modelId, index) => {
+        const model = models.find(candidate => candidate.modelId === modelId)
+        const status = model ? providerStatus(model.providerId) : undefined
+        return (
+          <Tooltip key={modelId} title={status ? `Provider ${status}` : 'No health data'}>
+            <Tag color={status ? HEALTH_COLORS[status] : 'default'}>
+              {index + 1}. {modelLabel(modelId)}
+            </Tag>
+          </Tooltip>
+        )
+      })}
+    </Space>
+  )
+
+  const renderConditions = (rule: LLMRoutingRule) => {
+    const { useCases, complexities, roles, budgetStates } = rule.conditions
+    const tags = [
+      ...(useCases ?? []).map(value => <Tag key={`u-${value}`} color="purple">{value}</Tag>),
+      ...(complexities ?? []).map(value => <Tag key={`c-${value}`} color="geekblue">{COMPLEXITY_LABELS[value]}</Tag>),
+      ...(roles ?? []).map(value => <Tag key={`r-${value}`} color="cyan">{value}</Tag>),
+      ...(budgetStates ?? []).map(value => <Tag key={`b-${value}`} color="gold">{BUDGET_STATE_LABELS[value]}</Tag>)
+    ]
+    return tags.length > 0 ? <Space size={[0, 4]} wrap>{tags}</Space> : <Text type="secondary">Every request</Text>
+  }
+
+  const columns: ColumnsType<LLMRoutingRule> = [
+    {
+      title: '#',
+      key: 'order',
+      width: 90,
+      render: (_, __, index) => (
+        <Space size={0}>
+          <Text>{index + 1}</Text>
+          <Button type="text" size="small" icon={<ArrowUpOutlined />} disabled={index === 0} onClick={() => moveRule(index, -1)} />
+          <Button type="text" size="small" icon={<ArrowDownOutlined />} disabled={index === policy.rules.length - 1} onClick={() => moveRule(index, 1)} />
+        </Space>
+      )
+    },
+    { title: 'Rule', dataIndex: 'name', key: 'name', render: (name: string) => <Text strong>{name}</Text> },
+    { title: 'When', key: 'conditions', render: (_, rule) => renderConditions(rule) },
+    { title: 'Models (fallback order)', key: 'chain', render: (_, rule) => renderChain(rule.modelChain) },
+    {
+      title: 'Selection',
+      key: 'strategy',
+      width: 150,
+      render: (_, rule) => rule.strategy === 'weighted'
+        ? <Tooltip title={`Latency ${rule.latencyWeight} / cost ${rule.costWeight}`}><Tag>Weighted</Tag></Tooltip>
+        : <Tag>First available</Tag>
+    },
+    {
+      title: 'Enabled',
+      key: 'isEnabled',
+      width: 80,
+      render: (_, rule) => (
+        <Switch
+          size="small"
+          checked={rule.isEnabled}
+          onChange={(isEnabled) => setPolicy({
+            ...policy,
+            rules: policy.rules.map(existing => (existing.id === rule.id ? { ...existing, isEnabled } : existing))
+          })}
+        />
+      )
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      width: 100,
+      render: (_, rule) => (
+        <Space>
+          <Button type="text" size="small" icon={<EditOutlined />} onClick={() => openRuleEditor(rule)} />
+          <Button
+            type="text"
+            size="small"
+            danger
+            icon={<DeleteOutlined />}
+            onClick={() => setPolicy({ ...policy, rules: policy.rules.filter(existing => existing.id !== rule.id) })}
+          />
+        </Space>
+      )
+    }
+  ]
+
+  const renderSimulator = () => (
+    <Card
+      title={
+        <Space>
+          <ExperimentOutlined />
+          <span>Routing Simulator</span>
+        </Space>
+      }
+      extra={<Text type="secondary">Uses the draft policy above</Text>}
+    >
+      <Row gutter={24}>
+        <Col xs={24} lg={12}>
+          <Form layout="vertical">
+            <Form.Item label="Question" extra="Optional; sets the complexity the way the cost pre-flight estimates it">
+              <Input.TextArea
+                rows={2}
+                value={question}
+                placeholder="e.g. Compare monthly deposits by country over the last year"
+                onChange={(event) => {
+                  setQuestion(event.target.value)
+                  if (event.target.value.trim()) {
+                    setSimulation({ ...simulation, complexity: estimateQueryComplexity(event.target.value) })
+                  }
+                }}
+              />
+            </Form.Item>
+            <Row gutter={16}>
+              <Col span={12}>
+                <Form.Item label="Use case">
+                  <Select value={simulation.useCase} options={useCaseOptions} onChange={(useCase) => setSimulation({ ...simulation, useCase })} />
+                </Form.Item>
+              </Col>
+              <Col span={12}>
+                <Form.Item label="Complexity">
+                  <Select
+                    value={simulation.complexity}
+                    options={ROUTING_COMPLEXITIES.map(value => ({ value, label: COMPLEXITY_LABELS[value] }))}
+                    onChange={(complexity) => setSimulation({ ...simulation, complexity })}
+                  />
+                </Form.Item>
+              </Col>
+              <Col span={12}>
+                <Form.Item label="User roles">
+                  <Select
+                    mode="tags"
+                    value={simulation.roles}
+                    options={ROUTING_ROLES.map(value => ({ value, label: value }))}
+                    onChange={(roles) => setSimulation({ ...simulation, roles })}
+                  />
+                </Form.Item>
+              </Col>
+              <Col span={12}>
+                <Form.Item label="Budget state">
+                  <Select
+                    value={simulation.budgetState}
+                    options={ROUTING_BUDGET_STATES.map(value => ({ value, label: BUDGET_STATE_LABELS[value] }))}
+                    onChange={(budgetState) => setSimulation({ ...simulation, budgetState })}
+                  />
+                </Form.Item>
+              </Col>
+            </Row>
+            <Form.Item label="Provider health" extra="Override a provider's status to rehearse a fallback">
+              <Space direction="vertical" style={{ width: '100%' }}>
+                {providers.map(provider => (
+                  <Row key={provider.providerId} align="middle" gutter={8}>
+                    <Col span={10}><Text>{provider.name}</Text></Col>
+                    <Col span={14}>
+                      <Select
+                        size="small"
+                        style={{ width: '100%' }}
+                        value={healthOverrides[provider.providerId] ?? 'actual'}
+                        onChange={(override: HealthOverride) => setHealthOverrides({ ...healthOverrides, [provider.providerId]: override })}
+                        options={[
+                          { value: 'actual', label: `Actual (${providerStatus(provider.providerId) ?? 'unknown'})` },
+                          { value: 'healthy', label: 'Healthy' },
+                          { value: 'degraded', label: 'Degraded' },
+                          { value: 'offline', label: 'Offline' }
+                        ]}
+                      />
+                    </Col>
+                  </Row>
+                ))}
+              </Space>
+            </Form.Item>
+          </Form>
+        </Col>
+        <Col xs={24} lg={12}>
+          {decision.model ? (
+            <Alert
+              type={decision.usedFallback ? 'warning' : 'success'}
+              showIcon
+              message={`Routes to ${modelLabel(decision.model.modelId)} on ${decision.provider?.name ?? decision.model.providerId}`}
+              description={decision.usedFallback ? 'Earlier models in the chain are unavailable, so this is a fallback' : undefined}
+              style={{ marginBottom: 16 }}
+            />
+          ) : (
+            <Alert type="error" showIcon message="No available model" description="Every model in the chain is unavailable or the chain is empty" style={{ marginBottom: 16 }} />
+          )}
+          <Descriptions size="small" column={1} style={{ marginBottom: 16 }}>
+            <Descriptions.Item label="Matched rule">
+              {decision.rule ? decision.rule.name : <Text type="secondary">None, default chain</Text>}
+            </Descriptions.Item>
+            <Descriptions.Item label="Selection">
+              {decision.rule?.strategy === 'weighted'
+                ? `Weighted (latency ${decision.rule.latencyWeight} / cost ${decision.rule.costWeight})`
+                : 'First available in chain'}
+            </Descriptions.Item>
+          </Descriptions>
+          {decision.candidates.length > 0 ? (
+            <Timeline
+              items={decision.candidates.map(candidate => ({
+                color: CANDIDATE_COLORS[candidate.status],
+                children: (
+                  <Space direction="vertical" size={0}>
+                    <Space>
+                      <Text strong>{modelLabel(candidate.modelId)}</Text>
+                      <Tag color={CANDIDATE_COLORS[candidate.status]}>{candidate.status}</Tag>
+                    </Space>
+                    <Text type="secondary" style={{ fontSize: '12px' }}>
+                      {candidate.reason}
+                      {candidate.latencyMs !== undefined && ` · ${candidate.latencyMs}ms`}
+                      {candidate.model && ` · $${candidate.model.costPerToken}/token`}
+                      {candidate.score !== undefined && ` · score ${candidate.score}`}
+                    </Text>
+                  </Space>
+                )
+              }))}
+            />
+          ) : (
+            <Empty description="The chain is empty" />
+          )}
+        </Col>
+      </Row>
+    </Card>
+  )
+
+  return (
+    <Space direction="vertical" size="large" style={{ width: '100%' }}>
+      <Card
+        title={
+          <Space>
+            <BranchesOutlined />
+            <span>Routing Policy Draft</span>
+            <Tag color="blue">Simulation only</Tag>
+          </Space>
+        }
+        extra={
+          <Space>
+            <Button icon={<UndoOutlined />} disabled={isDraftEmpty} onClick={() => setPolicy(DEFAULT_ROUTING_POLICY)}>
+              Reset
+            </Button>
+            <Button type="primary" icon={<PlusOutlined />} onClick={() => openRuleEditor()}>
+              Add Rule
+            </Button>
+          </Space>
+        }
+      >
+        <Alert
+          type="info"
+          showIcon
+          message="This policy is not applied to live requests"
+          description="Use it to try out rules and fallback chains in the simulator. The draft isn't saved, and queries keep using each use case's default model from the Models tab."
+          style={{ marginBottom: 16 }}
+        />
+        {problems.length > 0 && (
+          <Alert
+            type="warning"
+            showIcon
+            message="Policy issues"
+            description={<ul style={{ margin: 0, paddingLeft: 20 }}>{problems.map(problem => <li key={problem}>{problem}</li>)}</ul>}
+            style={{ marginBottom: 16 }}
+          />
+        )}
+        <Text type="secondary" style={{ display: 'block', marginBottom: 12 }}>
+          Rules are checked top to bottom and the first match routes the request. Models on unhealthy or offline providers are skipped, so each chain is also its fallback order.
+        </Text>
+        <Table
+          columns={columns}
+          dataSource={policy.rules}
+          rowKey="id"
+          size="small"
+          pagination={false}
+          locale={{ emptyText: 'No rules yet; every request uses the default chain' }}
+        />
+        <Row gutter={16} align="middle" style={{ marginTop: 16 }}>
+          <Col xs={24} lg={16}>
+            <Space direction="vertical" style={{ width: '100%' }} size={4}>
+              <Text strong>Default chain</Text>
+              <Select
+                mode="multiple"
+                style={{ width: '100%' }}
+                placeholder="Models for requests no rule matches, in fallback order"
+                value={policy.defaultChain}
+                options={modelOptions}
+                onChange={(defaultChain) => setPolicy({ ...policy, defaultChain })}
+              />
+            </Space>
+          </Col>
+          <Col xs={24} lg={8}>
+            <Space>
+              <Switch checked={policy.avoidDegraded} onChange={(avoidDegraded) => setPolicy({ ...policy, avoidDegraded })} />
+              <Tooltip title="Skip models on degraded providers while a healthy one is left in the chain">
+                <Text>Avoid degraded providers</Text>
+              </Tooltip>
+            </Space>
+          </Col>
+        </Row>
+      </Card>
+
+      {showSimulator && renderSimulator()}
+
+      <Modal
+        title={editingRule ? 'Edit Routing Rule' : 'Add Routing Rule'}
+        open={ruleModalVisible}
+        onOk={handleSaveRule}
+        onCancel={() => setRuleModalVisible(false)}
+        okText={editingRule ? 'Update' : 'Add'}
+        width={640}
+      >
+        <Form form={form} layout="vertical">
+          <Form.Item name="name" label="Name" rules={[{ required: true, message: 'Name the rule' }]}>
+            <Input placeholder="e.g. Complex analysis" />
+          </Form.Item>
+          <Text type="secondary">Leave a condition empty to match any value.</Text>
+          <Row gutter={16} style={{ marginTop: 8 }}>
+            <Col span={12}>
+              <Form.Item name="useCases" label="Use cases">
+                <Select mode="tags" options={useCaseOptions} placeholder="Any" />
+              </Form.Item>
+            </Col>
+            <Col span={12}>
+              <Form.Item name="complexities" label="Query complexity">
+                <Select mode="multiple" options={ROUTING_COMPLEXITIES.map(value => ({ value, label: COMPLEXITY_LABELS[value] }))} placeholder="Any" />
+              </Form.Item>
+            </Col>
+            <Col span={12}>
+              <Form.Item name="roles" label="User roles">
+                <Select mode="tags" options={ROUTING_ROLES.map(value => ({ value, label: value }))} placeholder="Any" />
+              </Form.Item>
+            </Col>
+            <Col span={12}>
+              <Form.Item name="budgetStates" label="Budget state">
+                <Select mode="multiple" options={ROUTING_BUDGET_STATES.map(value => ({ value, label: BUDGET_STATE_LABELS[value] }))} placeholder="Any" />
+              </Form.Item>
+            </Col>
+          </Row>
+          <Form.Item
+            name="modelChain"
+            label="Models"
+            extra="In fallback order: the next one is used when a provider is degraded or offline"
+            rules={[{ required: true, type: 'array', min: 1, message: 'Pick at least one model' }]}
+          >
+            <Select mode="multiple" options={modelOptions} placeholder="Select models" />
+          </Form.Item>
+          <Form.Item name="strategy" label="Selection">
+            <Radio.Group>
+              <Radio value="ordered">First available</Radio>
+              <Radio value="weighted">Weighted by latency and cost</Radio>
+            </Radio.Group>
+          </Form.Item>
+          <Form.Item noStyle shouldUpdate={(previous, current) => previous.strategy !== current.strategy}>
+            {({ getFieldValue }) => getFieldValue('strategy') === 'weighted' && (
+              <Form.Item name="latencyWeight" label="Trade-off" extra="Left favours cheaper models, right favours faster ones">
+                <Slider min={0} max={100} marks={{ 0: 'Cost', 50: 'Balanced', 100: 'Latency' }} />
+              </Form.Item>
+            )}
+          </Form.Item>
+        </Form>
+      </Modal>
+    </Space>
+  )
+}
+
+export default LLMRoutingPolicyManager
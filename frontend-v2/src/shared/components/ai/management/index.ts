@@ -6,6 +6,9 @@ export type { LLMProviderManagerProps } from './LLMProviderManager'
 
 export { default as LLMModelsManager } from './LLMModelsManager'
 
+export { default as LLMRoutingPolicyManager } from './LLMRoutingPolicyManager'
+export type { LLMRoutingPolicyManagerProps } from './LLMRoutingPolicyManager'
+
 export { default as ModelPerformanceAnalytics } from './ModelPerformanceAnalytics'
 export type { ModelPerformanceAnalyticsProps } from './ModelPerformanceAnalytics'
 
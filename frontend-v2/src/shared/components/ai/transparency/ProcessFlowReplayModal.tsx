@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Modal, Select, Typography, Space, Alert, Tag, message } from 'antd';
+import { RedoOutlined } from '@ant-design/icons';
+import type { ProcessFlowSession } from '@shared/types/transparency';
+import { useExecuteEnhancedQueryMutation } from '@shared/store/api/chatApi';
+import { useGetModelsQuery } from '@shared/store/api/llmManagementApi';
+
+const { Text, Paragraph } = Typography;
+
+export interface ProcessFlowReplayModalProps {
+  session: Pick<ProcessFlowSession, 'sessionId' | 'userQuery'> & { transparency?: ProcessFlowSession['transparency'] };
+  open: boolean;
+  onCancel: () => void;
+  /** Called with the new session once the replay has run */
+  onReplayed: (baseSessionId: string, replaySessionId: string) => void;
+}
+
+/**
+ * ProcessFlowReplayModal - Re-submits a session's question with a chosen
+ * model so the two runs can be compared step by step. The replay runs through
+ * the enhanced query endpoint, which records its ProcessFlow trace under the
+ * session id sent with it.
+ */
+export const ProcessFlowReplayModal: React.FC<ProcessFlowReplayModalProps> = ({
+  session,
+  open,
+  onCancel,
+  onReplayed
+}) => {
+  const [model, setModel] = useState<string | undefined>(undefined);
+  const { data: models, isLoading: modelsLoading } = useGetModelsQuery({});
+  const [executeEnhancedQuery, { isLoading, error }] = useExecuteEnhancedQueryMutation();
+
+  const handleReplay = async () => {
+    const replaySessionId = `replay-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+    try {
+      await executeEnhancedQuery({
+        query: session.userQuery,
+        sessionId: replaySessionId,
+        ...(model && { preferredModel: model }),
+        options: { includeSemanticAnalysis: true }
+      }).unwrap();
+      message.success('Replay finished');
+      onReplayed(session.sessionId, replaySessionId);
+    } catch (err) {
+      console.error('ProcessFlow replay failed:', err);
+      message.error('Replay failed');
+    }
+  };
+
+  return (
+    <Modal
+      title={<Space><RedoOutlined />Replay Session</Space>}
+      open={open}
+      onCancel={onCancel}
+      onOk={handleReplay}
+      okText="Replay and Compare"
+      confirmLoading={isLoading}
+      destroyOnClose
+    >
+      <Space direction="vertical" style={{ width: '100%' }}>
+        <div>
+          <Text type="secondary">Question</Text>
+          <Paragraph ellipsis={{ rows: 3, expandable: true }} style={{ marginBottom: 0 }}>
+            {session.userQuery}
+          </Paragraph>
+        </div>
+
+        <div>
+          <Text type="secondary">Model</Text>
+          {session.transparency?.model && (
+            <Text type="secondary"> (original run: <Tag>{session.transparency.model}</Tag>)</Text>
+          )}
+          <Select
+            style={{ width: '100%' }}
+            placeholder="Default model"
+            allowClear
+            loading={modelsLoading}
+            value={model}
+            onChange={setModel}
+            options={(models ?? [])
+              .filter(item => item.isEnabled)
+              .map(item => ({ value: item.modelId, label: item.displayName || item.name }))}
+          />
+        </div>
+
+        {error && (
+          <Alert
+            type="error"
+            showIcon
+            message="Replay failed"
+            description="The question could not be re-run. Check the model is available and try again."
+          />
+        )}
+      </Space>
+    </Modal>
+  );
+};
+
+export default ProcessFlowReplayModal;
@@ -0,0 +1,380 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Card,
+  Typography,
+  Space,
+  Tag,
+  Button,
+  Alert,
+  Spin,
+  Statistic,
+  Row,
+  Col,
+  Table,
+  Switch,
+  Empty
+} from 'antd';
+import {
+  SwapOutlined,
+  ArrowUpOutlined,
+  ArrowDownOutlined,
+  DiffOutlined
+} from '@ant-design/icons';
+import type { ProcessFlowSession } from '@shared/types/transparency';
+import { useProcessFlowSession } from '@shared/store/api/transparencyApi';
+import { compareSessions, type StepComparison, type TextDiff } from '@shared/utils/processFlowDiff';
+
+const { Title, Text, Paragraph } = Typography;
+
+export interface ProcessFlowSessionComparisonProps {
+  baseSessionId: string;
+  candidateSessionId: string;
+  onSwap?: () => void;
+  className?: string;
+  testId?: string;
+}
+
+const formatDuration = (ms?: number) => {
+  if (ms === undefined) return 'N/A';
+  if (Math.abs(ms) < 1000) return `${ms}ms`;
+  return `${(ms / 1000).toFixed(2)}s`;
+};
+
+const formatSigned = (value: number, format: (value: number) => string) =>
+  `${value > 0 ? '+' : value < 0 ? '−' : ''}${format(Math.abs(value))}`;
+
+/**
+ * Renders a signed change. `lowerIsBetter` colours decreases green, for
+ * durations, tokens and cost; confidence increases are the improvement.
+ */
+const DeltaTag: React.FC<{ value?: number; format: (value: number) => string; lowerIsBetter?: boolean }> = ({
+  value,
+  format,
+  lowerIsBetter = true
+}) => {
+  if (value === undefined) return <Text type="secondary">—</Text>;
+  if (value === 0) return <Tag>no change</Tag>;
+  const improved = lowerIsBetter ? value < 0 : value > 0;
+  return (
+    <Tag color={improved ? 'green' : 'red'} icon={value > 0 ? <ArrowUpOutlined /> : <ArrowDownOutlined />}>
+      {formatSigned(value, format)}
+    </Tag>
+  );
+};
+
+const DIFF_COLORS = {
+  added: { background: '#e6ffed', marker: '+' },
+  removed: { background: '#ffeef0', marker: '-' },
+  equal: { background: 'transparent', marker: ' ' }
+};
+
+/** Unified line diff, optionally collapsed to the changed lines */
+const DiffView: React.FC<{ diff: TextDiff; changesOnly?: boolean; emptyText?: string }> = ({
+  diff,
+  changesOnly = false,
+  emptyText = 'Nothing recorded in either session'
+}) => {
+  if (diff.lines.length === 0) {
+    return <Text type="secondary">{emptyText}</Text>;
+  }
+  const lines = changesOnly ? diff.lines.filter(line => line.type !== 'equal') : diff.lines;
+  if (lines.length === 0) {
+    return <Text type="secondary">Identical in both sessions</Text>;
+  }
+
+  return (
+    <div style={{ maxHeight: 320, overflow: 'auto', border: '1px solid #f0f0f0', borderRadius: 4 }}>
+      {lines.map((line, index) => (
+        <div
+          key={index}
+          style={{
+            display: 'flex',
+            fontFamily: 'monospace',
+            fontSize: '11px',
+            background: DIFF_COLORS[line.type].background,
+            whiteSpace: 'pre-wrap',
+            wordBreak: 'break-all'
+          }}
+        >
+          <span style={{ width: 36, color: '#bfbfbf', textAlign: 'right', paddingRight: 4, flexShrink: 0 }}>
+            {line.baseLine ?? ''}
+          </span>
+          <span style={{ width: 36, color: '#bfbfbf', textAlign: 'right', paddingRight: 4, flexShrink: 0 }}>
+            {line.candidateLine ?? ''}
+          </span>
+          <span style={{ width: 14, flexShrink: 0 }}>{DIFF_COLORS[line.type].marker}</span>
+          <span>{line.text}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const SessionSummary: React.FC<{ label: string; session: ProcessFlowSession }> = ({ label, session }) => (
+  <Card size="small" title={<Space><Tag color={label === 'A' ? 'blue' : 'purple'}>{label}</Tag><Text code>{session.sessionId}</Text></Space>}>
+    <Paragraph ellipsis={{ rows: 2 }} style={{ marginBottom: 8 }}>{session.userQuery}</Paragraph>
+    <Space wrap>
+      <Tag>{session.status}</Tag>
+      {session.transparency?.model && <Tag color="geekblue">{session.transparency.model}</Tag>}
+      {session.transparency?.temperature !== undefined && <Tag>temp {session.transparency.temperature}</Tag>}
+      <Text type="secondary" style={{ fontSize: '12px' }}>{new Date(session.startTime).toLocaleString()}</Text>
+    </Space>
+  </Card>
+);
+
+/**
+ * ProcessFlowSessionComparison - Step-by-step diff of two ProcessFlow sessions
+ *
+ * Session A is the baseline and B the candidate; every delta reads as
+ * "B compared with A".
+ */
+export const ProcessFlowSessionComparison: React.FC<ProcessFlowSessionComparisonProps> = ({
+  baseSessionId,
+  candidateSessionId,
+  onSwap,
+  className,
+  testId = 'processflow-session-comparison'
+}) => {
+  const [changesOnly, setChangesOnly] = useState(false);
+  const base = useProcessFlowSession(baseSessionId);
+  const candidate = useProcessFlowSession(candidateSessionId);
+
+  const comparison = useMemo(
+    () => (base.session && candidate.session ? compareSessions(base.session, candidate.session) : undefined),
+    [base.session, candidate.session]
+  );
+
+  if (base.isLoading || candidate.isLoading) {
+    return (
+      <div style={{ textAlign: 'center', padding: '40px' }}>
+        <Spin size="large" />
+        <div style={{ marginTop: 16 }}>
+          <Text type="secondary">Loading ProcessFlow sessions...</Text>
+        </div>
+      </div>
+    );
+  }
+
+  if (base.error || candidate.error || !base.session || !candidate.session || !comparison) {
+    return (
+      <Alert
+        message="Error Loading Sessions"
+        description="Both sessions need to load before they can be compared"
+        type="error"
+        showIcon
+        action={
+          <Button
+            size="small"
+            onClick={() => {
+              base.refetch();
+              candidate.refetch();
+            }}
+          >
+            Retry
+          </Button>
+        }
+      />
+    );
+  }
+
+  const a = base.session.transparency;
+  const b = candidate.session.transparency;
+
+  const stepColumns = [
+    {
+      title: 'Step',
+      key: 'step',
+      render: (_: unknown, row: StepComparison) => (
+        <Space direction="vertical" size={0}>
+          <Text strong>{row.name}</Text>
+          <Text type="secondary" style={{ fontSize: '12px' }}>{row.stepType}</Text>
+        </Space>
+      )
+    },
+    {
+      title: 'Status',
+      key: 'status',
+      render: (_: unknown, row: StepComparison) => (
+        <Space size={4}>
+          <Tag>{row.base?.status ?? 'not run'}</Tag>
+          <SwapOutlined style={{ color: '#bfbfbf' }} />
+          <Tag color={row.statusChanged ? 'orange' : undefined}>{row.candidate?.status ?? 'not run'}</Tag>
+        </Space>
+      )
+    },
+    {
+      title: 'Duration',
+      key: 'duration',
+      render: (_: unknown, row: StepComparison) => (
+        <Space size={4}>
+          <Text>{formatDuration(row.base?.durationMs)} → {formatDuration(row.candidate?.durationMs)}</Text>
+          <DeltaTag value={row.durationDeltaMs} format={formatDuration} />
+        </Space>
+      )
+    },
+    {
+      title: 'Confidence',
+      key: 'confidence',
+      render: (_: unknown, row: StepComparison) => (
+        <DeltaTag
+          value={row.confidenceDelta}
+          format={value => `${(value * 100).toFixed(1)}pp`}
+          lowerIsBetter={false}
+        />
+      )
+    },
+    {
+      title: 'Changes',
+      key: 'changes',
+      render: (_: unknown, row: StepComparison) => (
+        <Space size={4}>
+          {row.inputDiff.changed && <Tag color="gold">input</Tag>}
+          {row.outputDiff.changed && <Tag color="gold">output</Tag>}
+          {!row.inputDiff.changed && !row.outputDiff.changed && <Text type="secondary">—</Text>}
+        </Space>
+      )
+    }
+  ];
+
+  const steps = changesOnly
+    ? comparison.steps.filter(step =>
+        step.statusChanged || step.inputDiff.changed || step.outputDiff.changed || !!step.durationDeltaMs
+      )
+    : comparison.steps;
+
+  return (
+    <div className={className} data-testid={testId}>
+      <Row gutter={16} align="middle" style={{ marginBottom: 16 }}>
+        <Col flex="auto">
+          <SessionSummary label="A" session={base.session} />
+        </Col>
+        <Col>
+          <Button icon={<SwapOutlined />} onClick={onSwap} disabled={!onSwap} title="Swap A and B" />
+        </Col>
+        <Col flex="auto">
+          <SessionSummary label="B" session={candidate.session} />
+        </Col>
+      </Row>
+
+      {!comparison.sameQuestion && (
+        <Alert
+          message="These sessions answered different questions"
+          description="Differences below reflect the question as well as the prompt or model."
+          type="warning"
+          showIcon
+          style={{ marginBottom: 16 }}
+        />
+      )}
+
+      {/* Overall deltas */}
+      <Card style={{ marginBottom: 16 }}>
+        <Title level={5}>B vs A</Title>
+        <Row gutter={[16, 16]}>
+          <Col span={4}>
+            <Statistic title="Duration" value={formatDuration(candidate.session.totalDurationMs)} />
+            <DeltaTag value={comparison.durationDeltaMs} format={formatDuration} />
+          </Col>
+          <Col span={4}>
+            <Statistic
+              title="Confidence"
+              value={candidate.session.overallConfidence !== undefined ? candidate.session.overallConfidence * 100 : '—'}
+              precision={1}
+              suffix={candidate.session.overallConfidence !== undefined ? '%' : undefined}
+            />
+            <DeltaTag
+              value={comparison.confidenceDelta}
+              format={value => `${(value * 100).toFixed(1)}pp`}
+              lowerIsBetter={false}
+            />
+          </Col>
+          <Col span={4}>
+            <Statistic title="Prompt Tokens" value={b?.promptTokens ?? '—'} />
+            <DeltaTag value={comparison.promptTokensDelta} format={value => value.toLocaleString()} />
+          </Col>
+          <Col span={4}>
+            <Statistic title="Completion Tokens" value={b?.completionTokens ?? '—'} />
+            <DeltaTag value={comparison.completionTokensDelta} format={value => value.toLocaleString()} />
+          </Col>
+          <Col span={4}>
+            <Statistic title="Total Tokens" value={b?.totalTokens ?? '—'} />
+            <DeltaTag value={comparison.totalTokensDelta} format={value => value.toLocaleString()} />
+          </Col>
+          <Col span={4}>
+            <Statistic title="Estimated Cost" value={b?.estimatedCost ?? '—'} precision={4} prefix="$" />
+            <DeltaTag value={comparison.costDelta} format={value => `$${value.toFixed(4)}`} />
+          </Col>
+        </Row>
+        {(comparison.modelChanged || comparison.temperatureChanged) && (
+          <div style={{ marginTop: 12 }}>
+            <Space wrap>
+              {comparison.modelChanged && (
+                <Tag color="geekblue">model: {a?.model ?? 'unknown'} → {b?.model ?? 'unknown'}</Tag>
+              )}
+              {comparison.temperatureChanged && (
+                <Tag>temperature: {a?.temperature ?? '—'} → {b?.temperature ?? '—'}</Tag>
+              )}
+            </Space>
+          </div>
+        )}
+      </Card>
+
+      {/* SQL */}
+      <Card
+        style={{ marginBottom: 16 }}
+        title={
+          <Space>
+            <DiffOutlined />
+            <span>Generated SQL</span>
+            {comparison.sqlDiff.changed && (
+              <Text type="secondary" style={{ fontSize: '12px' }}>
+                +{comparison.sqlDiff.added} / −{comparison.sqlDiff.removed}
+              </Text>
+            )}
+          </Space>
+        }
+      >
+        <DiffView diff={comparison.sqlDiff} emptyText="Neither session generated SQL" />
+      </Card>
+
+      {/* Steps */}
+      <Card
+        title={`Process Steps (${comparison.steps.length})`}
+        extra={
+          <Space>
+            <Text type="secondary">Changes only</Text>
+            <Switch size="small" checked={changesOnly} onChange={setChangesOnly} />
+          </Space>
+        }
+      >
+        {steps.length === 0 ? (
+          <Empty description="No step differences" />
+        ) : (
+          <Table
+            size="small"
+            rowKey="key"
+            pagination={false}
+            columns={stepColumns}
+            dataSource={steps}
+            expandable={{
+              rowExpandable: row => row.inputDiff.lines.length > 0 || row.outputDiff.lines.length > 0,
+              expandedRowRender: row => (
+                <Row gutter={16}>
+                  <Col span={12}>
+                    <Text strong>Input / Prompt</Text>
+                    <DiffView diff={row.inputDiff} changesOnly={changesOnly} />
+                  </Col>
+                  <Col span={12}>
+                    <Text strong>Output</Text>
+                    <DiffView diff={row.outputDiff} changesOnly={changesOnly} />
+                  </Col>
+                </Row>
+              )
+            }}
+          />
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default ProcessFlowSessionComparison;
@@ -0,0 +1,215 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Typography, Space, Tag, Tooltip, Empty, Switch } from 'antd';
+import { FireOutlined, RedoOutlined, ForkOutlined } from '@ant-design/icons';
+import type { ProcessFlowStep } from '@shared/types/transparency';
+import { buildTimeline, type TimelineRow } from '@shared/utils/processFlowTimeline';
+
+const { Text } = Typography;
+
+export interface ProcessFlowTimelineProps {
+  steps: ProcessFlowStep[];
+  /** Keeps running bars growing while steps are in progress */
+  live?: boolean;
+  labelWidth?: number;
+  className?: string;
+  testId?: string;
+}
+
+const STATUS_COLORS: Record<ProcessFlowStep['status'], string> = {
+  Completed: '#52c41a',
+  InProgress: '#1890ff',
+  Failed: '#ff4d4f',
+  Skipped: '#bfbfbf',
+  NotStarted: '#d9d9d9'
+};
+
+const CRITICAL_COLOR = '#fa541c';
+
+const formatDuration = (ms: number) => {
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  return `${(ms / 1000).toFixed(2)}s`;
+};
+
+/** Four to six evenly spaced, round tick values across the axis */
+const axisTicks = (totalMs: number): number[] => {
+  if (totalMs <= 0) return [0];
+  const rough = totalMs / 5;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const step = [1, 2, 5, 10].map(factor => factor * magnitude).find(value => value >= rough) ?? rough;
+  const ticks: number[] = [];
+  for (let tick = 0; tick <= totalMs; tick += step) ticks.push(tick);
+  return ticks;
+};
+
+const RowTooltip: React.FC<{ row: TimelineRow }> = ({ row }) => (
+  <div style={{ fontSize: '12px' }}>
+    <div><strong>{row.step.name}</strong> ({row.step.stepType})</div>
+    <div>Status: {row.step.status}</div>
+    {!row.pending && (
+      <>
+        <div>Start: +{formatDuration(row.startOffsetMs)}</div>
+        <div>Duration: {formatDuration(row.endOffsetMs - row.startOffsetMs)}{row.running ? ' so far' : ''}</div>
+      </>
+    )}
+    {row.step.tokensUsed !== undefined && <div>Tokens: {row.step.tokensUsed.toLocaleString()}</div>}
+    {row.step.confidence !== undefined && <div>Confidence: {(row.step.confidence * 100).toFixed(1)}%</div>}
+    {row.isRetry && <div>Retry (attempt {row.attempt})</div>}
+    {row.critical && <div>On the critical path</div>}
+    {row.step.errorMessage && <div>Error: {row.step.errorMessage}</div>}
+  </div>
+);
+
+/**
+ * ProcessFlowTimeline - Gantt view of ProcessFlow steps on a shared time axis
+ *
+ * Sub-steps are indented under their parent, parallel steps overlap, retries
+ * get their own bar and the critical path is outlined.
+ */
+export const ProcessFlowTimeline: React.FC<ProcessFlowTimelineProps> = ({
+  steps,
+  live = false,
+  labelWidth = 220,
+  className,
+  testId = 'processflow-timeline'
+}) => {
+  const [now, setNow] = useState(() => Date.now());
+  const [highlightCritical, setHighlightCritical] = useState(true);
+  const hasRunningSteps = steps.some(step => step.status === 'InProgress');
+
+  useEffect(() => {
+    if (!live || !hasRunningSteps) return undefined;
+    const timer = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(timer);
+  }, [live, hasRunningSteps]);
+
+  const timeline = useMemo(() => buildTimeline(steps, now), [steps, now]);
+  const scale = timeline.totalMs > 0 ? timeline.totalMs : 1;
+  const maxTokens = Math.max(0, ...timeline.rows.map(row => row.step.tokensUsed ?? 0));
+
+  if (timeline.rows.length === 0) {
+    return <Empty description="No steps recorded yet" />;
+  }
+
+  return (
+    <div className={className} data-testid={testId}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 12 }}>
+        <Space wrap>
+          <Tag>Total {formatDuration(timeline.totalMs)}</Tag>
+          <Tag color="volcano" icon={<FireOutlined />}>Critical path {formatDuration(timeline.criticalPathMs)}</Tag>
+          {timeline.totalTokens > 0 && <Tag color="purple">{timeline.totalTokens.toLocaleString()} tokens</Tag>}
+        </Space>
+        <Space>
+          <Text type="secondary" style={{ fontSize: '12px' }}>Highlight critical path</Text>
+          <Switch size="small" checked={highlightCritical} onChange={setHighlightCritical} />
+        </Space>
+      </div>
+
+      {/* Axis */}
+      <div style={{ display: 'flex', marginBottom: 4 }}>
+        <div style={{ width: labelWidth, flexShrink: 0 }} />
+        <div style={{ position: 'relative', flex: 1, height: 16 }}>
+          {axisTicks(timeline.totalMs).map(tick => (
+            <Text
+              key={tick}
+              type="secondary"
+              style={{
+                position: 'absolute',
+                left: `${(tick / scale) * 100}%`,
+                transform: tick === 0 ? undefined : 'translateX(-50%)',
+                fontSize: '10px'
+              }}
+            >
+              {formatDuration(tick)}
+            </Text>
+          ))}
+        </div>
+        <div style={{ width: 64, flexShrink: 0 }} />
+      </div>
+
+      {timeline.rows.map(row => {
+        const left = (row.startOffsetMs / scale) * 100;
+        const width = Math.max(0.5, ((row.endOffsetMs - row.startOffsetMs) / scale) * 100);
+        const critical = highlightCritical && row.critical;
+
+        return (
+          <div
+            key={row.step.stepId}
+            style={{ display: 'flex', alignItems: 'center', height: 26, borderBottom: '1px solid #fafafa' }}
+          >
+            <div
+              style={{
+                width: labelWidth,
+                flexShrink: 0,
+                paddingLeft: row.depth * 16,
+                overflow: 'hidden',
+                whiteSpace: 'nowrap',
+                textOverflow: 'ellipsis'
+              }}
+            >
+              <Space size={4}>
+                <Text style={{ fontSize: '12px' }} strong={row.depth === 0}>{row.step.name}</Text>
+                {row.isRetry && (
+                  <Tooltip title={`Retry, attempt ${row.attempt}`}>
+                    <RedoOutlined style={{ color: '#faad14', fontSize: '11px' }} />
+                  </Tooltip>
+                )}
+                {row.concurrent && (
+                  <Tooltip title="Ran in parallel with another step">
+                    <ForkOutlined style={{ color: '#8c8c8c', fontSize: '11px' }} />
+                  </Tooltip>
+                )}
+              </Space>
+            </div>
+
+            <div style={{ position: 'relative', flex: 1, height: '100%' }}>
+              {!row.pending && (
+                <Tooltip title={<RowTooltip row={row} />}>
+                  <div
+                    style={{
+                      position: 'absolute',
+                      top: 5,
+                      height: 16,
+                      left: `${left}%`,
+                      width: `${width}%`,
+                      background: STATUS_COLORS[row.step.status],
+                      opacity: row.depth > 0 ? 0.75 : 1,
+                      borderRadius: 3,
+                      outline: critical ? `2px solid ${CRITICAL_COLOR}` : undefined,
+                      backgroundImage: row.running
+                        ? 'repeating-linear-gradient(45deg, rgba(255,255,255,0.25) 0 6px, transparent 6px 12px)'
+                        : undefined,
+                      cursor: 'default'
+                    }}
+                  />
+                </Tooltip>
+              )}
+            </div>
+
+            {/* Token spend, scaled to the hungriest step */}
+            <div style={{ width: 64, flexShrink: 0, paddingLeft: 8 }}>
+              {row.step.tokensUsed !== undefined && (
+                <Tooltip title={`${row.step.tokensUsed.toLocaleString()} tokens`}>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+                    <div
+                      style={{
+                        height: 6,
+                        width: maxTokens > 0 ? Math.max(2, (row.step.tokensUsed / maxTokens) * 32) : 2,
+                        background: '#722ed1',
+                        borderRadius: 2
+                      }}
+                    />
+                    <Text type="secondary" style={{ fontSize: '10px' }}>
+                      {row.step.tokensUsed >= 1000 ? `${(row.step.tokensUsed / 1000).toFixed(1)}k` : row.step.tokensUsed}
+                    </Text>
+                  </div>
+                </Tooltip>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ProcessFlowTimeline;
@@ -0,0 +1,87 @@
+import { useEffect, useState } from 'react'
+import {
+  transparencyHub,
+  type StepCompletedEvent,
+  type TraceCompletedEvent
+} from '@shared/services/signalr/transparencyHub'
+import type { ProcessFlowStep } from '@shared/types/transparency'
+import { applyStepCompleted } from '@shared/utils/processFlowTimeline'
+
+/**
+ * - idle: live updates weren't requested
+ * - connecting: subscribing to the trace
+ * - live: subscribed; steps arrive as they complete
+ * - completed: the backend reported the trace finished
+ * - unavailable: the hub couldn't be reached, so there is no live data
+ */
+export type LiveProcessFlowStatus = 'idle' | 'connecting' | 'live' | 'completed' | 'unavailable'
+
+/**
+ * Hook for live ProcessFlow steps
+ *
+ * Subscribes to a session's trace on the transparency hub and collects its
+ * StepCompleted events as ProcessFlow steps, to be overlaid on the saved
+ * session while it runs.
+ */
+export const useLiveProcessFlow = (sessionId: string | undefined, enabled = true) => {
+  const [steps, setSteps] = useState<ProcessFlowStep[]>([])
+  const [status, setStatus] = useState<LiveProcessFlowStatus>('idle')
+  const [completion, setCompletion] = useState<TraceCompletedEvent | null>(null)
+
+  useEffect(() => {
+    setSteps([])
+    setCompletion(null)
+    if (!enabled || !sessionId) {
+      setStatus('idle')
+      return
+    }
+
+    let cancelled = false
+    setStatus('connecting')
+
+    const handleStepCompleted = (event: StepCompletedEvent) => {
+      if (event.traceId !== sessionId) return
+      setSteps(prev => applyStepCompleted(prev, event))
+    }
+
+    const handleTraceCompleted = (event: TraceCompletedEvent) => {
+      if (event.traceId !== sessionId) return
+      setCompletion(event)
+      setStatus('completed')
+    }
+
+    const handleConnectionStateChanged = (event: { state: string }) => {
+      if (event.state === 'failed' || event.state === 'disconnected') {
+        setStatus(prev => (prev === 'completed' ? prev : 'unavailable'))
+      }
+    }
+
+    transparencyHub.on('stepCompleted', handleStepCompleted)
+    transparencyHub.on('traceCompleted', handleTraceCompleted)
+    transparencyHub.on('connectionStateChanged', handleConnectionStateChanged)
+
+    const subscribe = async () => {
+      try {
+        await transparencyHub.connect()
+        await transparencyHub.subscribeToTrace(sessionId)
+        if (!cancelled) setStatus(prev => (prev === 'completed' ? prev : 'live'))
+      } catch (error) {
+        console.warn(`Live ProcessFlow updates unavailable for ${sessionId}:`, error)
+        if (!cancelled) setStatus('unavailable')
+      }
+    }
+    subscribe()
+
+    return () => {
+      cancelled = true
+      transparencyHub.off('stepCompleted', handleStepCompleted)
+      transparencyHub.off('traceCompleted', handleTraceCompleted)
+      transparencyHub.off('connectionStateChanged', handleConnectionStateChanged)
+      transparencyHub.unsubscribeFromTrace(sessionId).catch(() => undefined)
+    }
+  }, [sessionId, enabled])
+
+  return { steps, status, completion }
+}
+
+export default useLiveProcessFlow
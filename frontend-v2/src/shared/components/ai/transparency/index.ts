@@ -16,3 +16,12 @@ export type { ProcessFlowDashboardProps } from './ProcessFlowDashboard'
 
 export { default as ProcessFlowAnalytics } from './ProcessFlowAnalytics'
 export type { ProcessFlowAnalyticsProps } from './ProcessFlowAnalytics'
+
+export { default as ProcessFlowSessionComparison } from './ProcessFlowSessionComparison'
+export type { ProcessFlowSessionComparisonProps } from './ProcessFlowSessionComparison'
+
+export { default as ProcessFlowReplayModal } from './ProcessFlowReplayModal'
+export type { ProcessFlowReplayModalProps } from './ProcessFlowReplayModal'
+
+export { default as ProcessFlowTimeline } from './ProcessFlowTimeline'
+export type { ProcessFlowTimelineProps } from './ProcessFlowTimeline'
@@ -1,16 +1,19 @@
-import React, { useState } from 'react'
+import React, { useMemo, useState } from 'react'
 import { Button, Dropdown, Modal, Form, Input, Select, Space, message, Progress } from 'antd'
 import {
   DownloadOutlined,
   FileExcelOutlined,
   FilePdfOutlined,
   FileTextOutlined,
-  SettingOutlined
+  SettingOutlined,
+  DatabaseOutlined
 } from '@ant-design/icons'
 import * as XLSX from 'xlsx'
 import jsPDF from 'jspdf'
 import 'jspdf-autotable'
 import { saveAs } from 'file-saver'
+import { toArrowIPC, toParquet } from '../../utils/columnarExport'
+import { usePiiMasking, type PiiMasking } from '../../hooks/usePiiMasking'
 
 // Extend jsPDF type to include autoTable
 declare module 'jspdf' {
@@ -22,12 +25,18 @@ declare module 'jspdf' {
 interface ExportData {
   headers: string[]
   rows: any[][]
+  // SQL type per header (e.g. 'decimal(18,2)', 'datetime2'), used by Parquet/Arrow exports
+  columnTypes?: Array<string | undefined>
+  // Query the rows came from, used to find their personal data columns
+  sql?: string
   title?: string
   metadata?: Record<string, any>
 }
 
+type ExportFormat = 'csv' | 'excel' | 'pdf' | 'parquet' | 'arrow'
+
 interface ExportOptions {
-  format: 'csv' | 'excel' | 'pdf'
+  format: ExportFormat
   filename?: string
   includeHeaders?: boolean
   includeMetadata?: boolean
@@ -42,6 +51,16 @@ interface ExportManagerProps {
   disabled?: boolean
   buttonText?: string
   showAdvancedOptions?: boolean
+  // The masking the rows are shown with, so reveals carry over to exports
+  masking?: PiiMasking
+}
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  csv: 'csv',
+  excel: 'xlsx',
+  pdf: 'pdf',
+  parquet: 'parquet',
+  arrow: 'arrow'
 }
 
 export const ExportManager: React.FC<ExportManagerProps> = ({
@@ -49,15 +68,22 @@ export const ExportManager: React.FC<ExportManagerProps> = ({
   loading = false,
   disabled = false,
   buttonText = 'Export',
-  showAdvancedOptions = true
+  showAdvancedOptions = true,
+  masking: sharedMasking
 }) => {
+  const ownMasking = usePiiMasking(data.headers, { ...(data.sql && { sql: data.sql }), context: 'export' })
+  const masking = sharedMasking ?? ownMasking
+  const { maskRowArrays } = masking
+  // Every format exports the rows with personal data masked
+  const exportRows = useMemo(() => maskRowArrays(data.rows, data.headers), [maskRowArrays, data.rows, data.headers])
   const [isModalOpen, setIsModalOpen] = useState(false)
   const [exportProgress, setExportProgress] = useState(0)
   const [isExporting, setIsExporting] = useState(false)
   const [form] = Form.useForm()
 
   const exportToCSV = async (options: ExportOptions): Promise<void> => {
-    const { headers, rows } = data
+    const { headers } = data
+    const rows = exportRows
     const { filename = 'export.csv', includeHeaders = true } = options
 
     let csvContent = ''
@@ -89,7 +115,8 @@ export const ExportManager: React.FC<ExportManagerProps> = ({
   }
 
   const exportToExcel = async (options: ExportOptions): Promise<void> => {
-    const { headers, rows } = data
+    const { headers } = data
+    const rows = exportRows
     const { filename = 'export.xlsx', includeHeaders = true, includeMetadata = false } = options
 
     try {
@@ -145,7 +172,8 @@ export const ExportManager: React.FC<ExportManagerProps> = ({
   }
 
   const exportToPDF = async (options: ExportOptions): Promise<void> => {
-    const { headers, rows } = data
+    const { headers } = data
+    const rows = exportRows
     const {
       filename = 'export.pdf',
       includeHeaders = true,
@@ -242,7 +270,35 @@ export const ExportManager: React.FC<ExportManagerProps> = ({
     }
   }
 
-  const handleExport = async (format: 'csv' | 'excel' | 'pdf', customOptions?: Partial<ExportOptions>) => {
+  const exportToColumnar = async (options: ExportOptions): Promise<void> => {
+    const { headers, columnTypes } = data
+    const rows = exportRows
+    const { format, filename = `export.${format}` } = options
+
+    try {
+      setExportProgress(20)
+
+      // Masked values are text whatever the column's SQL type
+      const columns = headers.map((name, index) => ({
+        name,
+        dataType: masking.isMasked(name) ? undefined : columnTypes?.[index]
+      }))
+      const buffer = format === 'parquet' ? await toParquet(rows, columns) : await toArrowIPC(rows, columns)
+
+      setExportProgress(90)
+
+      const mimeType = format === 'parquet' ? 'application/vnd.apache.parquet' : 'application/vnd.apache.arrow.file'
+      saveAs(new Blob([buffer], { type: mimeType }), filename)
+      setExportProgress(100)
+
+    } catch (error) {
+      console.error(`${format} export error:`, error)
+      message.error(`${format === 'parquet' ? 'Parquet' : 'Arrow'} export failed`)
+      throw error
+    }
+  }
+
+  const handleExport = async (format: ExportFormat, customOptions?: Partial<ExportOptions>) => {
     if (!data.rows.length) {
       message.warning('No data to export')
       return
@@ -253,7 +309,7 @@ export const ExportManager: React.FC<ExportManagerProps> = ({
 
     const defaultOptions: ExportOptions = {
       format,
-      filename: `export_${new Date().toISOString().split('T')[0]}.${format === 'excel' ? 'xlsx' : format}`,
+      filename: `export_${new Date().toISOString().split('T')[0]}.${FILE_EXTENSIONS[format]}`,
       includeHeaders: true,
       includeMetadata: false,
       pageSize: 'A4',
@@ -273,6 +329,10 @@ export const ExportManager: React.FC<ExportManagerProps> = ({
         case 'pdf':
           await exportToPDF(defaultOptions)
           break
+        case 'parquet':
+        case 'arrow':
+          await exportToColumnar(defaultOptions)
+          break
       }
       
       message.success(`${format.toUpperCase()} export completed successfully`)
@@ -287,8 +347,9 @@ export const ExportManager: React.FC<ExportManagerProps> = ({
   }
 
   const handleAdvancedExport = async (values: any) => {
-    await handleExport(values.format, {
-      filename: values.filename,
+    const format: ExportFormat = values.format
+    await handleExport(format, {
+      filename: values.filename ? `${values.filename}.${FILE_EXTENSIONS[format]}` : undefined,
       includeHeaders: values.includeHeaders,
       includeMetadata: values.includeMetadata,
       pageSize: values.pageSize,
@@ -327,6 +388,26 @@ export const ExportManager: React.FC<ExportManagerProps> = ({
         </Space>
       ),
       onClick: () => handleExport('pdf')
+    },
+    {
+      key: 'parquet',
+      label: (
+        <Space>
+          <DatabaseOutlined />
+          Export as Parquet
+        </Space>
+      ),
+      onClick: () => handleExport('parquet')
+    },
+    {
+      key: 'arrow',
+      label: (
+        <Space>
+          <DatabaseOutlined />
+          Export as Arrow IPC
+        </Space>
+      ),
+      onClick: () => handleExport('arrow')
     }
   ]
 
@@ -411,6 +492,8 @@ export const ExportManager: React.FC<ExportManagerProps> = ({
               <Select.Option value="csv">CSV</Select.Option>
               <Select.Option value="excel">Excel (XLSX)</Select.Option>
               <Select.Option value="pdf">PDF</Select.Option>
+              <Select.Option value="parquet">Apache Parquet</Select.Option>
+              <Select.Option value="arrow">Apache Arrow IPC</Select.Option>
             </Select>
           </Form.Item>
 
@@ -1,4 +1,4 @@
-import React, { useRef, useEffect, useState } from 'react'
+import React, { useRef, useEffect, useState, useCallback } from 'react'
 import { Card, Button, Space, Tooltip, message } from 'antd'
 import { 
   PlayCircleOutlined, 
@@ -7,15 +7,9 @@ import {
   FullscreenOutlined,
   CompressOutlined
 } from '@ant-design/icons'
-
-// Monaco Editor types (would be installed via npm install monaco-editor)
-interface MonacoEditor {
-  getValue(): string
-  setValue(value: string): void
-  focus(): void
-  getAction(id: string): any
-  trigger(source: string, handlerId: string, payload?: any): void
-}
+import Editor, { Monaco } from '@monaco-editor/react'
+import type { editor, IDisposable } from 'monaco-editor'
+import { useSchemaAwareSql } from '../../hooks/useSchemaAwareSql'
 
 interface MonacoSQLEditorProps {
   value?: string
@@ -26,6 +20,7 @@ interface MonacoSQLEditorProps {
   theme?: 'vs-dark' | 'vs-light'
   showToolbar?: boolean
   placeholder?: string
+  enableSchemaCompletions?: boolean
 }
 
 export const MonacoSQLEditor: React.FC<MonacoSQLEditorProps> = ({
@@ -36,59 +31,35 @@ export const MonacoSQLEditor: React.FC<MonacoSQLEditorProps> = ({
   readOnly = false,
   theme = 'vs-dark',
   showToolbar = true,
-  placeholder = 'Enter your SQL query here...'
+  placeholder = 'Enter your SQL query here...',
+  enableSchemaCompletions = true
 }) => {
-  const editorRef = useRef<HTMLDivElement>(null)
-  const monacoRef = useRef<MonacoEditor | null>(null)
+  const monacoRef = useRef<editor.IStandaloneCodeEditor | null>(null)
+  const providersRef = useRef<IDisposable | null>(null)
+  const executeRef = useRef<() => void>(() => {})
   const [isFullscreen, setIsFullscreen] = useState(false)
-  const [isLoading, setIsLoading] = useState(true)
+  const { registerProviders } = useSchemaAwareSql({ enabled: enableSchemaCompletions })
 
   useEffect(() => {
-    // Initialize Monaco Editor
-    const initializeEditor = async () => {
-      try {
-        // In a real implementation, you would import monaco-editor
-        // import * as monaco from 'monaco-editor'
-        
-        // For now, we'll simulate the Monaco Editor interface
-        // This would be replaced with actual Monaco Editor initialization
-        
-        const mockEditor = {
-          getValue: () => value,
-          setValue: (newValue: string) => {
-            onChange?.(newValue)
-          },
-          focus: () => {},
-          getAction: (id: string) => ({ run: () => {} }),
-          trigger: (source: string, handlerId: string, payload?: any) => {}
-        }
-
-        monacoRef.current = mockEditor
-        setIsLoading(false)
-
-        // Configure SQL language support
-        // monaco.languages.registerCompletionItemProvider('sql', {
-        //   provideCompletionItems: () => ({
-        //     suggestions: getSQLCompletions()
-        //   })
-        // })
-
-      } catch (error) {
-        console.error('Failed to initialize Monaco Editor:', error)
-        setIsLoading(false)
-      }
-    }
-
-    if (editorRef.current) {
-      initializeEditor()
-    }
-
     return () => {
-      // Cleanup Monaco Editor
+      // Monaco providers are global per language, so release ours on unmount
+      providersRef.current?.dispose()
+      providersRef.current = null
       monacoRef.current = null
     }
   }, [])
 
+  const handleEditorDidMount = useCallback((editorInstance: editor.IStandaloneCodeEditor, monaco: Monaco) => {
+    monacoRef.current = editorInstance
+
+    if (enableSchemaCompletions) {
+      providersRef.current?.dispose()
+      providersRef.current = registerProviders(monaco)
+    }
+
+    editorInstance.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.Enter, () => executeRef.current())
+  }, [enableSchemaCompletions, registerProviders])
+
   const handleExecute = () => {
     if (monacoRef.current && onExecute) {
       const sql = monacoRef.current.getValue()
@@ -100,6 +71,8 @@ export const MonacoSQLEditor: React.FC<MonacoSQLEditorProps> = ({
     }
   }
 
+  executeRef.current = handleExecute
+
   const handleCopy = async () => {
     if (monacoRef.current) {
       const sql = monacoRef.current.getValue()
@@ -115,7 +88,7 @@ export const MonacoSQLEditor: React.FC<MonacoSQLEditorProps> = ({
   const handleFormat = () => {
     if (monacoRef.current) {
       // Trigger Monaco's format action
-      monacoRef.current.trigger('editor', 'editor.action.formatDocument')
+      monacoRef.current.trigger('editor', 'editor.action.formatDocument', null)
       message.success('SQL formatted')
     }
   }
@@ -124,24 +97,6 @@ export const MonacoSQLEditor: React.FC<MonacoSQLEditorProps> = ({
     setIsFullscreen(!isFullscreen)
   }
 
-  const getSQLCompletions = () => {
-    // SQL keyword completions
-    const keywords = [
-      'SELECT', 'FROM', 'WHERE', 'JOIN', 'INNER JOIN', 'LEFT JOIN', 'RIGHT JOIN',
-      'GROUP BY', 'ORDER BY', 'HAVING', 'INSERT', 'UPDATE', 'DELETE', 'CREATE',
-      'ALTER', 'DROP', 'INDEX', 'TABLE', 'DATABASE', 'DISTINCT', 'COUNT', 'SUM',
-      'AVG', 'MIN', 'MAX', 'AS', 'AND', 'OR', 'NOT', 'NULL', 'IS', 'LIKE',
-      'BETWEEN', 'IN', 'EXISTS', 'CASE', 'WHEN', 'THEN', 'ELSE', 'END'
-    ]
-
-    return keywords.map(keyword => ({
-      label: keyword,
-      kind: 14, // monaco.languages.CompletionItemKind.Keyword
-      insertText: keyword,
-      documentation: `SQL keyword: ${keyword}`
-    }))
-  }
-
   const editorStyle = {
     height: isFullscreen ? '80vh' : height,
     width: '100%',
@@ -222,60 +177,38 @@ export const MonacoSQLEditor: React.FC<MonacoSQLEditorProps> = ({
         </div>
       )}
 
-      <div 
-        ref={editorRef}
-        style={editorStyle}
-      >
-        {isLoading ? (
-          <div style={{ 
-            display: 'flex', 
-            alignItems: 'center', 
-            justifyContent: 'center',
-            height: '100%',
-            color: '#666'
-          }}>
-            Loading Monaco Editor...
-          </div>
-        ) : (
-          <div style={{ 
-            height: '100%', 
-            width: '100%',
+      <div style={editorStyle}>
+        <Editor
+          height="100%"
+          defaultLanguage="sql"
+          value={value}
+          onChange={(newValue) => onChange?.(newValue || '')}
+          onMount={handleEditorDidMount}
+          theme={theme === 'vs-dark' ? 'vs-dark' : 'vs'}
+          loading={<div style={{ color: '#666' }}>Loading Monaco Editor...</div>}
+          options={{
+            readOnly,
+            minimap: { enabled: false },
+            scrollBeyondLastLine: false,
+            fontSize: 14,
+            wordWrap: 'on',
+            automaticLayout: true,
+            quickSuggestions: enableSchemaCompletions,
+            suggestOnTriggerCharacters: enableSchemaCompletions,
+            tabSize: 2,
+          }}
+        />
+        {!value && (
+          <div style={{
+            position: 'absolute',
+            top: 0,
+            left: 64,
+            pointerEvents: 'none',
+            color: '#888',
             fontFamily: 'Monaco, Menlo, "Ubuntu Mono", monospace',
-            fontSize: '14px',
-            lineHeight: '1.5',
-            padding: '12px',
-            backgroundColor: theme === 'vs-dark' ? '#1e1e1e' : '#ffffff',
-            color: theme === 'vs-dark' ? '#d4d4d4' : '#000000',
-            border: 'none',
-            outline: 'none',
-            resize: 'none',
-            overflow: 'auto'
+            fontSize: '14px'
           }}>
-            {/* Fallback textarea for when Monaco isn't available */}
-            <textarea
-              value={value}
-              onChange={(e) => onChange?.(e.target.value)}
-              placeholder={placeholder}
-              readOnly={readOnly}
-              style={{
-                width: '100%',
-                height: '100%',
-                border: 'none',
-                outline: 'none',
-                resize: 'none',
-                backgroundColor: 'transparent',
-                color: 'inherit',
-                fontFamily: 'inherit',
-                fontSize: 'inherit',
-                lineHeight: 'inherit'
-              }}
-              onKeyDown={(e) => {
-                if (e.ctrlKey && e.key === 'Enter') {
-                  e.preventDefault()
-                  handleExecute()
-                }
-              }}
-            />
+            {placeholder}
           </div>
         )}
       </div>
@@ -0,0 +1,82 @@
+import React from 'react'
+import { Card, Table, Tag, Typography, Empty } from 'antd'
+import { useGetBudgetOverridesQuery } from '../../store/api/costApi'
+import type { BudgetOverride } from '../../types/cost'
+import dayjs from 'dayjs'
+
+const { Text } = Typography
+
+interface BudgetOverridesTableProps {
+  budgetId?: string
+}
+
+/**
+ * BudgetOverridesTable - Questions sent past the chat's budget pre-flight,
+ * with who sent them and why
+ */
+export const BudgetOverridesTable: React.FC<BudgetOverridesTableProps> = ({ budgetId }) => {
+  const { data, isLoading } = useGetBudgetOverridesQuery(budgetId ? { budgetId } : {})
+
+  const columns = [
+    {
+      title: 'When',
+      dataIndex: 'createdAt',
+      key: 'createdAt',
+      width: 160,
+      render: (createdAt: string) => dayjs(createdAt).format('YYYY-MM-DD HH:mm')
+    },
+    {
+      title: 'User',
+      key: 'user',
+      render: (record: BudgetOverride) => record.userName || record.userId
+    },
+    {
+      title: 'Budget',
+      key: 'budget',
+      render: (record: BudgetOverride) => record.budgetName || record.budgetId
+    },
+    {
+      title: 'Question',
+      dataIndex: 'query',
+      key: 'query',
+      ellipsis: true
+    },
+    {
+      title: 'Estimated Cost',
+      dataIndex: 'estimatedCost',
+      key: 'estimatedCost',
+      render: (amount: number) => `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2 })}`
+    },
+    {
+      title: 'Projected Usage',
+      key: 'projected',
+      render: (record: BudgetOverride) => (
+        <Tag color={record.level === 'block' ? 'red' : 'orange'}>
+          {record.projectedUsagePercentage.toFixed(1)}% {record.level === 'block' ? 'over limit' : 'over alert'}
+        </Tag>
+      )
+    },
+    {
+      title: 'Reason',
+      dataIndex: 'reason',
+      key: 'reason',
+      render: (reason: string) => reason || <Text type="secondary">No reason given</Text>
+    }
+  ]
+
+  return (
+    <Card title="Budget Overrides">
+      <Table
+        columns={columns}
+        dataSource={data?.overrides || []}
+        loading={isLoading}
+        rowKey="id"
+        size="small"
+        pagination={{ pageSize: 10 }}
+        locale={{ emptyText: <Empty description="No overrides recorded" /> }}
+      />
+    </Card>
+  )
+}
+
+export default BudgetOverridesTable
@@ -5,6 +5,7 @@ export { CostBreakdownChart } from './CostBreakdownChart'
 export { BudgetStatusWidget } from './BudgetStatusWidget'
 export { RecommendationsWidget } from './RecommendationsWidget'
 export { BudgetManagementComponent } from './BudgetManagement'
+export { BudgetOverridesTable } from './BudgetOverridesTable'
 export { QueryCostWidget, InlineQueryCost } from './QueryCostWidget'
 
 // Re-export types for convenience
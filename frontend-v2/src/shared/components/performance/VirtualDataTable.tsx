@@ -10,6 +10,8 @@ import { FixedSizeList as List, ListChildComponentProps } from 'react-window'
 import { Table, Input, Button, Space, Typography, Card, Spin } from 'antd'
 import { SearchOutlined, DownloadOutlined, FilterOutlined } from '@ant-design/icons'
 import type { ColumnsType } from 'antd/es/table'
+import { PiiMaskingNotice } from '../security/PiiMaskingNotice'
+import { usePiiMasking } from '../../hooks/usePiiMasking'
 
 const { Text } = Typography
 
@@ -55,6 +57,8 @@ export interface VirtualDataTableProps<T = any> {
   selectable?: boolean
   /** Selection change handler */
   onSelectionChange?: (selectedRows: T[]) => void
+  /** Query the rows came from, used to find personal data columns to mask */
+  sql?: string
 }
 
 // Row component for virtual list
@@ -134,22 +138,31 @@ export const VirtualDataTable = <T extends Record<string, any>>({
   emptyText = 'No data available',
   selectable = false,
   onSelectionChange,
+  sql,
 }: VirtualDataTableProps<T>) => {
   const [searchTerm, setSearchTerm] = useState('')
   const [selectedRows, setSelectedRows] = useState<Set<string>>(new Set())
+
+  // Personal data is masked up front, so search and export only see masked values
+  const masking = usePiiMasking(
+    columns.map(column => String(column.dataIndex)),
+    { ...(sql && { sql }), context: 'virtual-table' }
+  )
+  const { maskRecords } = masking
+  const maskedData = useMemo(() => maskRecords(data), [maskRecords, data])
   
   // Filter data based on search term
   const filteredData = useMemo(() => {
-    if (!searchTerm) return data
+    if (!searchTerm) return maskedData
     
     const term = searchTerm.toLowerCase()
-    return data.filter((record) =>
+    return maskedData.filter((record) =>
       columns.some((column) => {
         const value = record[column.dataIndex]
         return String(value).toLowerCase().includes(term)
       })
     )
-  }, [data, searchTerm, columns])
+  }, [maskedData, searchTerm, columns])
   
   // Handle row selection
   const handleRowSelect = useCallback((key: string, selected: boolean) => {
@@ -163,7 +176,7 @@ export const VirtualDataTable = <T extends Record<string, any>>({
       
       // Notify parent of selection change
       if (onSelectionChange) {
-        const selectedRecords = data.filter(record => {
+        const selectedRecords = maskedData.filter(record => {
           const recordKey = typeof rowKey === 'function' ? rowKey(record) : record[rowKey as keyof T]
           return newSet.has(String(recordKey))
         })
@@ -172,7 +185,7 @@ export const VirtualDataTable = <T extends Record<string, any>>({
       
       return newSet
     })
-  }, [data, rowKey, onSelectionChange])
+  }, [maskedData, rowKey, onSelectionChange])
   
   // Handle select all
   const handleSelectAll = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
@@ -262,6 +275,8 @@ export const VirtualDataTable = <T extends Record<string, any>>({
         </Space>
       </div>
       
+      <PiiMaskingNotice masking={masking} style={{ marginBottom: 16 }} />
+
       {/* Table Header */}
       <div className="virtual-table-header">
         {selectable && (
@@ -9,7 +9,7 @@
  * - Push notification setup
  */
 
-import React, { useState, useEffect, useCallback, createContext, useContext } from 'react'
+import React, { useState, useEffect, useCallback, useRef, createContext, useContext } from 'react'
 import { Button, notification, Modal, Space, Typography, Alert } from 'antd'
 import { 
   DownloadOutlined, 
@@ -22,6 +22,9 @@ import {
 
 const { Text, Title } = Typography
 
+/** Sends whatever was queued offline; resolves to how many items are still queued */
+export type OfflineSyncHandler = () => Promise<number>
+
 export interface PWAContextType {
   isOnline: boolean
   isInstallable: boolean
@@ -30,6 +33,7 @@ export interface PWAContextType {
   promptInstall: () => void
   enableNotifications: () => Promise<boolean>
   syncOfflineData: () => void
+  registerSyncHandler: (handler: OfflineSyncHandler) => () => void
   clearCache: () => Promise<void>
   updateAvailable: boolean
   updateApp: () => void
@@ -53,6 +57,8 @@ interface PWAManagerProps {
   autoPromptInstall?: boolean
   /** Enable push notifications */
   enablePushNotifications?: boolean
+  /** Register the service worker (off in development, where it would cache dev modules) */
+  enableServiceWorker?: boolean
 }
 
 export const PWAManager: React.FC<PWAManagerProps> = ({
@@ -60,6 +66,7 @@ export const PWAManager: React.FC<PWAManagerProps> = ({
   autoUpdate = true,
   autoPromptInstall = false,
   enablePushNotifications = true,
+  enableServiceWorker = true,
 }) => {
   const [isOnline, setIsOnline] = useState(navigator.onLine)
   const [isInstallable, setIsInstallable] = useState(false)
@@ -68,6 +75,25 @@ export const PWAManager: React.FC<PWAManagerProps> = ({
   const [updateAvailable, setUpdateAvailable] = useState(false)
   const [deferredPrompt, setDeferredPrompt] = useState<any>(null)
   const [serviceWorker, setServiceWorker] = useState<ServiceWorkerRegistration | null>(null)
+  const syncHandlersRef = useRef(new Set<OfflineSyncHandler>())
+
+  const registerSyncHandler = useCallback((handler: OfflineSyncHandler) => {
+    syncHandlersRef.current.add(handler)
+    return () => {
+      syncHandlersRef.current.delete(handler)
+    }
+  }, [])
+
+  // Runs every registered handler and totals what is still queued
+  const runSyncHandlers = useCallback(async (): Promise<number> => {
+    const remaining = await Promise.all(
+      Array.from(syncHandlersRef.current).map(handler => handler().catch((error) => {
+        console.error('[PWA] Offline sync handler failed:', error)
+        return 1
+      }))
+    )
+    return remaining.reduce((total, count) => total + count, 0)
+  }, [])
 
   // Check if app is installed
   useEffect(() => {
@@ -91,17 +117,18 @@ export const PWAManager: React.FC<PWAManagerProps> = ({
       setIsOnline(true)
       notification.success({
         message: 'Back Online',
-        description: 'Your connection has been restored. Syncing data...',
+        description: 'Your connection has been restored. Sending queued questions...',
         icon: <WifiOutlined style={{ color: '#52c41a' }} />,
       })
-      syncOfflineData()
+      // The page is open, so send the queue now rather than waiting for background sync
+      runSyncHandlers()
     }
 
     const handleOffline = () => {
       setIsOnline(false)
       notification.warning({
         message: 'You\'re Offline',
-        description: 'Some features may be limited. Data will sync when you\'re back online.',
+        description: 'Cached conversations and results are still available. Questions you ask will be sent when you\'re back online.',
         icon: <DisconnectOutlined style={{ color: '#faad14' }} />,
       })
     }
@@ -138,10 +165,10 @@ export const PWAManager: React.FC<PWAManagerProps> = ({
 
   // Register service worker
   useEffect(() => {
-    if ('serviceWorker' in navigator) {
+    if (enableServiceWorker && 'serviceWorker' in navigator) {
       registerServiceWorker()
     }
-  }, [])
+  }, [enableServiceWorker])
 
   const registerServiceWorker = async () => {
     try {
@@ -188,6 +215,10 @@ export const PWAManager: React.FC<PWAManagerProps> = ({
             description: 'Synchronizing offline queries...',
             icon: <SyncOutlined spin />,
           })
+          // The service worker keeps the sync pending until nothing is left
+          runSyncHandlers().then((remaining) => {
+            event.ports[0]?.postMessage({ type: 'OFFLINE_QUERIES_SYNCED', remaining })
+          })
         }
       })
 
@@ -332,6 +363,7 @@ export const PWAManager: React.FC<PWAManagerProps> = ({
     promptInstall,
     enableNotifications,
     syncOfflineData,
+    registerSyncHandler,
     clearCache,
     updateAvailable,
     updateApp,
@@ -352,7 +384,7 @@ export const PWAManager: React.FC<PWAManagerProps> = ({
         }}>
           <Alert
             message="You're currently offline"
-            description="Some features may be limited. Data will sync when you're back online."
+            description="Cached conversations, recent results and schema metadata are available read-only. Questions you ask are queued and sent when you're back online."
             type="warning"
             showIcon
             icon={<DisconnectOutlined />}
@@ -11,10 +11,19 @@ import {
 import { VirtualTable, ExportManager, MonacoSQLEditor } from '../core'
 import { D3ChartSelector } from '../charts'
 import { QueryCostWidget } from '../cost'
+import { PiiMaskingNotice } from '../security/PiiMaskingNotice'
+import { usePiiMasking } from '../../hooks/usePiiMasking'
 import type { ColumnsType } from 'antd/es/table'
 
 const { Title, Text } = Typography
 
+interface ResultColumnMetadata {
+  name: string
+  // SQL type name, e.g. 'decimal(18,2)'
+  dataType?: string
+  type?: string
+}
+
 interface QueryResult {
   columns: string[]
   rows: any[][]
@@ -22,7 +31,7 @@ interface QueryResult {
   executionTime: number
   cost?: number
   sql: string
-  metadata?: Record<string, any>
+  metadata?: Record<string, any> & { columns?: ResultColumnMetadata[] }
 }
 
 interface EnhancedQueryResultsProps {
@@ -45,6 +54,14 @@ export const EnhancedQueryResults: React.FC<EnhancedQueryResultsProps> = ({
   const [useVirtualScrolling, setUseVirtualScrolling] = useState(result.totalRows > 1000)
   const [isFullscreen, setIsFullscreen] = useState(false)
   const [editedSql, setEditedSql] = useState(result.sql)
+  const masking = usePiiMasking(result.columns, { sql: result.sql, context: 'query-results' })
+  const { maskRowArrays } = masking
+
+  // Personal data is masked before it reaches the table or the charts
+  const displayRows = useMemo(
+    () => maskRowArrays(result.rows, result.columns),
+    [maskRowArrays, result.rows, result.columns]
+  )
 
   // Prepare data for different views
   const tableColumns: ColumnsType<any> = useMemo(() => {
@@ -63,31 +80,42 @@ export const EnhancedQueryResults: React.FC<EnhancedQueryResultsProps> = ({
   }, [result.columns])
 
   const tableData = useMemo(() => {
-    return result.rows.map((row, index) => ({
+    return displayRows.map((row, index) => ({
       key: index,
-      ...row.reduce((acc, cell, cellIndex) => {
+      ...row.reduce<Record<number, any>>((acc, cell, cellIndex) => {
         acc[cellIndex] = cell
         return acc
-      }, {} as Record<number, any>)
+      }, {})
     }))
-  }, [result.rows])
+  }, [displayRows])
 
   // Prepare chart data
   const chartData = useMemo(() => {
-    if (result.rows.length === 0) return []
+    if (displayRows.length === 0) return []
     
-    return result.rows.slice(0, 50).map((row, index) => ({
+    return displayRows.slice(0, 50).map((row, index) => ({
       label: String(row[0] || `Row ${index + 1}`),
       value: typeof row[1] === 'number' ? row[1] : index + 1,
       category: result.columns[0] || 'Data',
       metadata: { rowIndex: index }
     }))
-  }, [result.rows, result.columns])
+  }, [displayRows, result.columns])
+
+  // Typed Parquet/Arrow exports look up each column's SQL type by name
+  const columnTypes = useMemo(() => {
+    const columnInfo = result.metadata?.columns ?? []
+    return result.columns.map(name => {
+      const info = columnInfo.find(column => column.name === name)
+      return info?.dataType ?? info?.type
+    })
+  }, [result.columns, result.metadata])
 
-  // Export data preparation
+  // Export data preparation; ExportManager applies the same masking
   const exportData = {
     headers: result.columns,
     rows: result.rows,
+    sql: result.sql,
+    columnTypes,
     title: 'Query Results',
     metadata: {
       executionTime: result.executionTime,
@@ -130,7 +158,7 @@ export const EnhancedQueryResults: React.FC<EnhancedQueryResultsProps> = ({
             </Space>
             
             <Space>
-              <ExportManager data={exportData} />
+              <ExportManager data={exportData} masking={masking} />
               <Button 
                 icon={<FullscreenOutlined />}
                 onClick={() => setIsFullscreen(!isFullscreen)}
@@ -140,6 +168,8 @@ export const EnhancedQueryResults: React.FC<EnhancedQueryResultsProps> = ({
             </Space>
           </div>
 
+          <PiiMaskingNotice masking={masking} style={{ marginBottom: '16px' }} />
+
           {/* Table */}
           {useVirtualScrolling ? (
             <VirtualTable
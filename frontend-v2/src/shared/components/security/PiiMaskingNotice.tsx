@@ -0,0 +1,129 @@
+import React, { useState } from 'react'
+import { Alert, Button, Checkbox, Input, Modal, Space, Tag, Tooltip, Typography, message } from 'antd'
+import { EyeOutlined, LockOutlined } from '@ant-design/icons'
+import type { PiiMasking } from '../../hooks/usePiiMasking'
+
+const { Text } = Typography
+const { TextArea } = Input
+
+interface PiiMaskingNoticeProps {
+  masking: PiiMasking
+  style?: React.CSSProperties
+}
+
+const STRATEGY_LABELS = {
+  none: 'shown',
+  partial: 'partially masked',
+  hash: 'replaced by hashes',
+  full: 'fully masked',
+  redact: 'redacted',
+} as const
+
+/**
+ * PiiMaskingNotice - Lists the result columns masked as personal data and,
+ * for roles allowed to, reveals them after recording a reason
+ */
+export const PiiMaskingNotice: React.FC<PiiMaskingNoticeProps> = ({ masking, style }) => {
+  const [isModalOpen, setIsModalOpen] = useState(false)
+  const [selected, setSelected] = useState<string[]>([])
+  const [reason, setReason] = useState('')
+
+  const { piiColumns, maskedColumns, strategy, canReveal, isRevealing } = masking
+  if (piiColumns.length === 0) return null
+
+  const openReveal = () => {
+    setSelected(maskedColumns)
+    setReason('')
+    setIsModalOpen(true)
+  }
+
+  const handleReveal = async () => {
+    try {
+      await masking.reveal(selected, reason.trim())
+      message.success(`Revealed ${selected.length} column${selected.length === 1 ? '' : 's'}; this has been logged`)
+      setIsModalOpen(false)
+    } catch (error) {
+      console.error('Failed to reveal PII columns:', error)
+      message.error('Could not record the reveal, so the columns stay masked')
+    }
+  }
+
+  return (
+    <>
+      <Alert
+        type={maskedColumns.length > 0 ? 'warning' : 'info'}
+        showIcon
+        icon={<LockOutlined />}
+        style={style}
+        message={
+          maskedColumns.length > 0
+            ? `Personal data ${STRATEGY_LABELS[strategy]} in ${maskedColumns.length} column${maskedColumns.length === 1 ? '' : 's'}`
+            : 'Personal data revealed for this result'
+        }
+        description={
+          <Space direction="vertical" size={4}>
+            <Space size={[4, 4]} wrap>
+              {piiColumns.map(({ column, sources }) => (
+                <Tooltip key={column} title={sources.length > 0 ? `From ${sources.join(', ')}` : 'Not traced to its source columns, so masked'}>
+                  <Tag color={masking.isMasked(column) ? 'orange' : 'red'} icon={masking.isMasked(column) ? <LockOutlined /> : <EyeOutlined />}>
+                    {column}
+                  </Tag>
+                </Tooltip>
+              ))}
+            </Space>
+            {strategy === 'hash' && maskedColumns.length > 0 && (
+              <Text type="secondary">
+                Hashes change when the page is reloaded, so compare them only within this session, not with earlier
+                exports or other users' results.
+              </Text>
+            )}
+          </Space>
+        }
+        action={
+          maskedColumns.length > 0 && (
+            <Tooltip title={canReveal ? undefined : 'Your role is not allowed to reveal personal data'}>
+              <Button size="small" icon={<EyeOutlined />} disabled={!canReveal} onClick={openReveal}>
+                Reveal
+              </Button>
+            </Tooltip>
+          )
+        }
+      />
+
+      <Modal
+        open={isModalOpen}
+        title={
+          <Space>
+            <EyeOutlined />
+            <span>Reveal personal data</span>
+          </Space>
+        }
+        okText="Reveal"
+        okButtonProps={{ danger: true, disabled: selected.length === 0 || !reason.trim(), loading: isRevealing }}
+        onOk={handleReveal}
+        onCancel={() => setIsModalOpen(false)}
+      >
+        <Space direction="vertical" style={{ width: '100%' }}>
+          <Text type="secondary">
+            Revealed values are shown and exported unmasked for this result only. The columns, your reason and the
+            query are recorded in the audit log.
+          </Text>
+          <Checkbox.Group
+            value={selected}
+            onChange={(values) => setSelected(values as string[])}
+            options={maskedColumns.map(column => ({ label: column, value: column }))}
+          />
+          <TextArea
+            rows={3}
+            value={reason}
+            onChange={(event) => setReason(event.target.value)}
+            placeholder="Why do you need to see these values?"
+            maxLength={500}
+          />
+        </Space>
+      </Modal>
+    </>
+  )
+}
+
+export default PiiMaskingNotice
@@ -29,3 +29,10 @@ export {
 
 // Template Analytics Hooks
 export { useTemplateAnalyticsHub } from './useTemplateAnalyticsHub'
+
+// SQL Editor Hooks
+export { useSchemaAwareSql } from './useSchemaAwareSql'
+
+// Data Protection Hooks
+export { usePiiMasking } from './usePiiMasking'
+export type { PiiMasking, UsePiiMaskingOptions } from './usePiiMasking'
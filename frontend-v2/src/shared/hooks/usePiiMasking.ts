@@ -0,0 +1,146 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { useAppSelector } from '@shared/hooks'
+import { selectUser } from '../store/auth'
+import { useGetEnhancedBusinessTablesQuery, useRecordPiiRevealMutation } from '../store/api/businessApi'
+import {
+  DEFAULT_MASKING_POLICIES,
+  hashValues,
+  maskRecords as maskRecordsWith,
+  maskRowArrays as maskRowArraysWith,
+  maskValue as maskValueWith,
+  resolveMaskingPolicy,
+  resolvePiiColumns,
+  type MaskingPolicy,
+  type MaskingStrategy,
+  type PiiColumn,
+} from '../utils/piiMasking'
+
+// Enough for the whole catalogue in one request; masking needs every table
+const METADATA_PAGE_SIZE = 1000
+
+export interface UsePiiMaskingOptions {
+  sql?: string
+  // Recorded with reveals, e.g. 'chat-results'
+  context?: string
+  policies?: MaskingPolicy[]
+}
+
+export interface PiiMasking {
+  piiColumns: PiiColumn[]
+  // PII columns that are still masked
+  maskedColumns: string[]
+  strategy: MaskingStrategy
+  canReveal: boolean
+  isRevealing: boolean
+  isMasked: (column: string) => boolean
+  maskValue: (column: string, value: unknown) => unknown
+  maskRecords: <T extends Record<string, unknown>>(rows: T[]) => T[]
+  maskRowArrays: (rows: unknown[][], headers: string[]) => unknown[][]
+  // Writes the audit event first; the columns stay masked if that fails
+  reveal: (columns: string[], reason: string) => Promise<void>
+}
+
+/**
+ * Masks the PII columns of a result for the current user's role. Revealing
+ * needs a role whose policy allows it and is audited on the server.
+ */
+export const usePiiMasking = (columns: string[], options: UsePiiMaskingOptions = {}): PiiMasking => {
+  const { sql, context, policies = DEFAULT_MASKING_POLICIES } = options
+  const user = useAppSelector(selectUser)
+  const { data: tablesResponse } = useGetEnhancedBusinessTablesQuery({ pageSize: METADATA_PAGE_SIZE })
+  const [recordPiiReveal, { isLoading: isRevealing }] = useRecordPiiRevealMutation()
+  const [revealed, setRevealed] = useState<string[]>([])
+  const [hashes, setHashes] = useState<ReadonlyMap<string, string>>(() => new Map())
+  const pendingHashes = useRef(new Set<string>())
+  const hashBatch = useRef<string[]>([])
+
+  // A reveal covers the query it was audited for
+  useEffect(() => setRevealed([]), [sql])
+
+  const { strategy, canReveal } = useMemo(
+    () => resolveMaskingPolicy(user?.roles ?? [], policies),
+    [user?.roles, policies]
+  )
+
+  const columnKey = columns.join('\u0000')
+  const piiColumns = useMemo(
+    () => resolvePiiColumns(columns, tablesResponse?.data ?? [], sql),
+    // columns is usually rebuilt on every render; its contents are what matter
+    [columnKey, tablesResponse, sql]
+  )
+
+  const strategies = useMemo(() => {
+    const result: Record<string, MaskingStrategy> = {}
+    piiColumns.forEach(({ column }) => {
+      if (!revealed.includes(column)) result[column] = strategy
+    })
+    return result
+  }, [piiColumns, revealed, strategy])
+
+  const isMasked = useCallback((column: string) => column in strategies, [strategies])
+
+  // HMACs are computed asynchronously, batched per render; values are masked
+  // in full until theirs arrives and the maskers below change
+  const hashOf = useCallback((text: string) => {
+    const hash = hashes.get(text)
+    if (hash === undefined && !pendingHashes.current.has(text)) {
+      pendingHashes.current.add(text)
+      hashBatch.current.push(text)
+      if (hashBatch.current.length === 1) {
+        queueMicrotask(() => {
+          const batch = hashBatch.current
+          hashBatch.current = []
+          // A failed batch isn't retried; those values stay fully masked
+          hashValues(batch)
+            .then(computed => setHashes(current => new Map([...current, ...computed])))
+            .catch(error => console.warn('Could not hash masked values:', error))
+        })
+      }
+    }
+    return hash
+  }, [hashes])
+
+  const maskValue = useCallback(
+    (column: string, value: unknown) => maskValueWith(value, strategies[column] ?? 'none', hashOf),
+    [strategies, hashOf]
+  )
+
+  const maskRecords = useCallback(
+    <T extends Record<string, unknown>>(rows: T[]) => maskRecordsWith(rows, strategies, hashOf),
+    [strategies, hashOf]
+  )
+
+  const maskRowArrays = useCallback(
+    (rows: unknown[][], headers: string[]) => maskRowArraysWith(rows, headers, strategies, hashOf),
+    [strategies, hashOf]
+  )
+
+  const reveal = useCallback(async (requested: string[], reason: string) => {
+    if (!canReveal) throw new Error('Your role is not allowed to reveal personal data')
+
+    const toReveal = piiColumns.filter(pii => requested.includes(pii.column))
+    if (toReveal.length === 0) return
+
+    await recordPiiReveal({
+      columns: toReveal,
+      reason,
+      maskingStrategy: strategy,
+      ...(sql && { sql }),
+      ...(context && { context }),
+    }).unwrap()
+    setRevealed(current => [...new Set([...current, ...toReveal.map(pii => pii.column)])])
+  }, [canReveal, piiColumns, recordPiiReveal, strategy, sql, context])
+
+  return {
+    piiColumns,
+    maskedColumns: Object.keys(strategies),
+    strategy,
+    canReveal,
+    isRevealing,
+    isMasked,
+    maskValue,
+    maskRecords,
+    maskRowArrays,
+    reveal,
+  }
+}
@@ -0,0 +1,493 @@
+import { useCallback, useEffect, useRef } from 'react'
+import { useDispatch } from 'react-redux'
+import type { Monaco } from '@monaco-editor/react'
+import type { IDisposable, IRange, languages } from 'monaco-editor'
+import type { AppDispatch } from '../store'
+import {
+  businessApi,
+  useGetAllSchemaTablesQuery,
+  useGetBusinessTablesQuery,
+  type EnhancedBusinessGlossaryTerm,
+} from '../store/api/businessApi'
+import {
+  analyzeSqlCompletionContext,
+  bindingReference,
+  findCatalogTable,
+  findRelatedTables,
+  findTableBindings,
+  resolveQualifier,
+  resolveSqlIdentifier,
+  suggestJoinConditions,
+  suggestTableAlias,
+  type SchemaCatalogColumn,
+  type SchemaCatalogTable,
+  type SqlCompletionContext,
+  type SqlIdentifierMatch,
+  type TableBinding,
+} from '../utils/sqlCompletion'
+
+export interface UseSchemaAwareSqlOptions {
+  enabled?: boolean
+  // Terms from the semantic layer offered as string literals
+  contextTerms?: Array<{ term: string; definition: string }>
+}
+
+const SQL_KEYWORDS = [
+  'SELECT', 'TOP', 'DISTINCT', 'FROM', 'WHERE', 'INNER JOIN', 'LEFT JOIN', 'RIGHT JOIN', 'FULL JOIN', 'CROSS APPLY',
+  'OUTER APPLY', 'ON', 'AND', 'OR', 'NOT', 'IN', 'EXISTS', 'LIKE', 'BETWEEN', 'IS NULL', 'IS NOT NULL', 'GROUP BY',
+  'HAVING', 'ORDER BY', 'ASC', 'DESC', 'UNION', 'UNION ALL', 'AS', 'CASE', 'WHEN', 'THEN', 'ELSE', 'END', 'WITH',
+  'OFFSET', 'FETCH NEXT',
+]
+
+const SQL_FUNCTIONS = [
+  'COUNT', 'SUM', 'AVG', 'MIN', 'MAX', 'COALESCE', 'ISNULL', 'NULLIF', 'CAST', 'CONVERT', 'SUBSTRING', 'TRIM',
+  'UPPER', 'LOWER', 'LEN', 'ROUND', 'FLOOR', 'CEILING', 'ABS', 'POWER', 'SQRT', 'GETDATE', 'DATEADD', 'DATEDIFF',
+  'DATEPART', 'FORMAT', 'YEAR', 'MONTH', 'DAY',
+]
+
+const SQL_SNIPPETS = [
+  {
+    label: 'SELECT with JOIN',
+    insertText: 'SELECT $1\nFROM $2\nJOIN $3 ON $4 = $5',
+    detail: 'SELECT statement with JOIN',
+  },
+  {
+    label: 'GROUP BY with COUNT',
+    insertText: 'SELECT $1, COUNT(*) as count\nFROM $2\nGROUP BY $1\nORDER BY count DESC',
+    detail: 'GROUP BY with count',
+  },
+  {
+    label: 'Date range filter',
+    insertText: "WHERE $1 BETWEEN '$2' AND '$3'",
+    detail: 'Date range WHERE clause',
+  },
+]
+
+const AGGREGATES = ['SUM', 'AVG', 'MIN', 'MAX']
+const NUMERIC_TYPE = /int|decimal|numeric|money|float|real|number/i
+
+const tableKey = (table: { schemaName: string; tableName: string }) =>
+  `${table.schemaName}.${table.tableName}`.toLowerCase()
+
+const sameName = (a?: string, b?: string) => !!a && !!b && a.toLowerCase() === b.toLowerCase()
+
+// relatedBusinessTerms is stored either as a JSON array or a delimited string
+const splitTermList = (value?: string): string[] => {
+  if (!value) return []
+  try {
+    const parsed = JSON.parse(value)
+    if (Array.isArray(parsed)) return parsed.map(String)
+  } catch {
+    // Not JSON
+  }
+  return value.split(/[,;|]/).map(term => term.trim()).filter(Boolean)
+}
+
+const columnType = (column: SchemaCatalogColumn) => column.dataType ?? column.businessDataType
+
+const columnDetail = (table: SchemaCatalogTable, column: SchemaCatalogColumn) => {
+  const type = columnType(column)
+  return `${table.tableName}.${column.columnName}${type ? ` (${type})` : ''}`
+}
+
+const describeTable = (table: SchemaCatalogTable): string[] => [
+  `**${table.schemaName}.${table.tableName}**`,
+  ...(table.businessPurpose ? [`**Business Purpose:** ${table.businessPurpose}`] : []),
+  ...(table.domainClassification ? [`**Domain:** ${table.domainClassification}`] : []),
+  `**Estimated Rows:** ${table.estimatedRowCount?.toLocaleString() ?? 'Unknown'}`,
+  ...(table.foreignKeys?.length
+    ? [`**References:** ${table.foreignKeys.map(fk => `${fk.referencedTable} (${fk.column} → ${fk.referencedColumn})`).join(', ')}`]
+    : []),
+]
+
+const describeColumn = (table: SchemaCatalogTable, column: SchemaCatalogColumn): string[] => [
+  `**${table.tableName}.${column.columnName}**${columnType(column) ? ` · ${columnType(column)}` : ''}`,
+  ...(column.businessMeaning ? [`**Business Meaning:** ${column.businessMeaning}`] : []),
+  `**Nullable:** ${column.isNullable ? 'Yes' : 'No'}${column.isPrimaryKey ? ' · **Primary key**' : ''}`,
+  ...(column.sampleValues?.length ? [`**Sample Values:** ${column.sampleValues.join(', ')}`] : []),
+]
+
+const describeGlossary = (terms: EnhancedBusinessGlossaryTerm[]): string[] =>
+  terms.length > 0
+    ? [`**Glossary**\n\n${terms.map(term => `- **${term.term}** — ${term.definition}`).join('\n')}`]
+    : []
+
+const buildSuggestions = (
+  monaco: Monaco,
+  context: SqlCompletionContext,
+  catalog: SchemaCatalogTable[],
+  range: IRange,
+  contextTerms: Array<{ term: string; definition: string }>
+): languages.CompletionItem[] => {
+  const { CompletionItemKind, CompletionItemInsertTextRule } = monaco.languages
+  const suggestions: languages.CompletionItem[] = []
+  const active = context.activeBinding
+  const earlier = active ? context.bindings.filter(binding => binding.offset <= active.offset) : []
+
+  const pushColumns = (binding: TableBinding, qualify: boolean, sortPrefix: string) => {
+    const table = findCatalogTable(catalog, binding)
+    table?.columns?.forEach((column, index) => {
+      const text = qualify ? `${bindingReference(binding)}.${column.columnName}` : column.columnName
+      suggestions.push({
+        label: text,
+        kind: CompletionItemKind.Field,
+        insertText: text,
+        detail: columnDetail(table, column),
+        documentation: { value: describeColumn(table, column).join('\n\n') },
+        range,
+        sortText: sortPrefix + String(index).padStart(4, '0'),
+      })
+    })
+  }
+
+  switch (context.kind) {
+    case 'table': {
+      const aliases = context.bindings.flatMap(binding => (binding.alias ? [binding.alias] : []))
+      const aliasFor = (table: SchemaCatalogTable) => suggestTableAlias(table.tableName, aliases)
+      const related = context.afterJoin ? findRelatedTables(earlier, catalog, aliasFor) : new Map<string, string>()
+
+      catalog
+        .filter(table => !context.qualifier || sameName(table.schemaName, context.qualifier))
+        .forEach(table => {
+          const fullName = `${table.schemaName}.${table.tableName}`
+          const name = context.qualifier ? table.tableName : fullName
+          const condition = related.get(fullName)
+
+          suggestions.push({
+            label: name,
+            kind: CompletionItemKind.Class,
+            insertText: name,
+            detail: table.businessPurpose ? `Table: ${table.businessPurpose}` : 'Table',
+            documentation: { value: describeTable(table).join('\n\n') },
+            range,
+            sortText: (condition ? '1' : '2') + fullName,
+          })
+
+          if (condition) {
+            const text = `${name} ${aliasFor(table)} ON ${condition}`
+            suggestions.push({
+              label: text,
+              kind: CompletionItemKind.Snippet,
+              insertText: text,
+              detail: 'Join on foreign key',
+              range,
+              sortText: '0' + fullName,
+            })
+          }
+        })
+      break
+    }
+
+    case 'qualifiedColumn': {
+      const qualifier = context.qualifier ?? ''
+      const binding = resolveQualifier(qualifier, context.bindings) ?? { tableName: qualifier, offset: -1 }
+      pushColumns(binding, false, '0')
+      break
+    }
+
+    case 'joinCondition':
+      suggestJoinConditions(context, catalog).forEach(({ condition, foreignKey }) => {
+        suggestions.push({
+          label: condition,
+          kind: CompletionItemKind.Reference,
+          insertText: condition,
+          detail: `Foreign key ${foreignKey.name}`,
+          range,
+          sortText: '0' + condition,
+        })
+      })
+      earlier.forEach(binding => pushColumns(binding, true, '1'))
+      break
+
+    case 'column':
+    case 'general': {
+      const qualify = context.bindings.length > 1
+      const columnRank = context.kind === 'column' ? '1' : '3'
+      context.bindings.forEach(binding => {
+        pushColumns(binding, qualify, columnRank)
+
+        const table = findCatalogTable(catalog, binding)
+        table?.columns
+          ?.filter(column => NUMERIC_TYPE.test(columnType(column) ?? ''))
+          .forEach(column => {
+            const reference = qualify ? `${bindingReference(binding)}.${column.columnName}` : column.columnName
+            AGGREGATES.forEach(func => {
+              suggestions.push({
+                label: `${func}(${reference})`,
+                kind: CompletionItemKind.Function,
+                insertText: `${func}(${reference})`,
+                detail: `${func} of ${column.columnName}`,
+                range,
+                sortText: '4' + func + column.columnName,
+              })
+            })
+          })
+      })
+
+      SQL_KEYWORDS.forEach(keyword => {
+        suggestions.push({
+          label: keyword,
+          kind: CompletionItemKind.Keyword,
+          insertText: keyword,
+          range,
+          sortText: (context.kind === 'column' ? '5' : '2') + keyword,
+        })
+      })
+
+      SQL_FUNCTIONS.forEach(func => {
+        suggestions.push({
+          label: func,
+          kind: CompletionItemKind.Function,
+          insertText: `${func}($1)`,
+          insertTextRules: CompletionItemInsertTextRule.InsertAsSnippet,
+          detail: 'SQL Function',
+          range,
+          sortText: '6' + func,
+        })
+      })
+
+      contextTerms.forEach(term => {
+        suggestions.push({
+          label: term.term,
+          kind: CompletionItemKind.Reference,
+          insertText: `'${term.term}'`,
+          detail: 'Business Term',
+          documentation: { value: `**Definition:** ${term.definition}` },
+          range,
+          sortText: '5' + term.term,
+        })
+      })
+
+      if (context.kind === 'general') {
+        SQL_SNIPPETS.forEach(snippet => {
+          suggestions.push({
+            label: snippet.label,
+            kind: CompletionItemKind.Snippet,
+            insertText: snippet.insertText,
+            insertTextRules: CompletionItemInsertTextRule.InsertAsSnippet,
+            detail: snippet.detail,
+            range,
+            sortText: '7' + snippet.label,
+          })
+        })
+      }
+      break
+    }
+  }
+
+  return suggestions
+}
+
+/**
+ * Schema-aware completion and hover providers for Monaco SQL editors.
+ *
+ * Table names come from the live schema; column lists and foreign keys are
+ * loaded on demand for the tables a query references. Hover cards add the
+ * business column description and the glossary terms mapped to it.
+ */
+export const useSchemaAwareSql = ({ enabled = true, contextTerms = [] }: UseSchemaAwareSqlOptions = {}) => {
+  const dispatch = useDispatch<AppDispatch>()
+  const { data: schemaTables, isLoading } = useGetAllSchemaTablesQuery(undefined, { skip: !enabled })
+  const { data: businessTables } = useGetBusinessTablesQuery(undefined, { skip: !enabled })
+
+  // Providers outlive renders, so they read the latest data through refs
+  const schemaTablesRef = useRef(schemaTables)
+  const businessTablesRef = useRef(businessTables)
+  const contextTermsRef = useRef(contextTerms)
+  const detailsRef = useRef(new Map<string, SchemaCatalogTable>())
+  const pendingRef = useRef(new Map<string, Promise<void>>())
+  const hoverCacheRef = useRef(new Map<string, string[]>())
+
+  schemaTablesRef.current = schemaTables
+  businessTablesRef.current = businessTables
+  contextTermsRef.current = contextTerms
+
+  // Schema refreshed: drop loaded details and hover cards
+  useEffect(() => {
+    detailsRef.current.clear()
+    hoverCacheRef.current.clear()
+  }, [schemaTables])
+
+  const getCatalog = useCallback(
+    (): SchemaCatalogTable[] =>
+      (schemaTablesRef.current ?? []).map(table => detailsRef.current.get(tableKey(table)) ?? table),
+    []
+  )
+
+  const loadTableDetails = useCallback(
+    async (references: Array<{ schemaName?: string; tableName: string }>) => {
+      const catalog = getCatalog()
+      const requests = references
+        .map(reference => findCatalogTable(catalog, reference))
+        .filter((table): table is SchemaCatalogTable => !!table && !detailsRef.current.has(tableKey(table)))
+        .map(table => {
+          const key = tableKey(table)
+          let pending = pendingRef.current.get(key)
+          if (!pending) {
+            const request = dispatch(
+              businessApi.endpoints.getSchemaTableDetails.initiate({
+                schemaName: table.schemaName,
+                tableName: table.tableName,
+              })
+            )
+            pending = request
+              .unwrap()
+              .then(details => {
+                detailsRef.current.set(key, { ...table, ...details })
+              })
+              .catch(error => {
+                // Remember the table without details so we do not retry on every keystroke
+                console.warn(`Failed to load schema details for ${table.schemaName}.${table.tableName}:`, error)
+                detailsRef.current.set(key, table)
+              })
+              .finally(() => {
+                request.unsubscribe()
+                pendingRef.current.delete(key)
+              })
+            pendingRef.current.set(key, pending)
+          }
+          return pending
+        })
+
+      await Promise.all(requests)
+    },
+    [dispatch, getCatalog]
+  )
+
+  const fetchGlossaryTerms = useCallback(
+    async (search: string): Promise<EnhancedBusinessGlossaryTerm[]> => {
+      const request = dispatch(businessApi.endpoints.getEnhancedBusinessGlossary.initiate({ search, pageSize: 20 }))
+      try {
+        return (await request.unwrap()).data ?? []
+      } catch (error) {
+        console.warn(`Failed to load glossary terms for ${search}:`, error)
+        return []
+      } finally {
+        request.unsubscribe()
+      }
+    },
+    [dispatch]
+  )
+
+  const describeMatch = useCallback(
+    async ({ table, column }: SqlIdentifierMatch): Promise<string[]> => {
+      const cacheKey = `${tableKey(table)}.${column?.columnName.toLowerCase() ?? ''}`
+      const cached = hoverCacheRef.current.get(cacheKey)
+      if (cached) return cached
+
+      let lines: string[]
+      if (column) {
+        const businessColumnId = businessTablesRef.current
+          ?.find(candidate => sameName(candidate.tableName, table.tableName) && sameName(candidate.schemaName, table.schemaName))
+          ?.columns?.find(candidate => sameName(candidate.columnName, column.columnName))?.id
+
+        let businessContext: string | undefined
+        let relatedTerms: string[] = []
+        if (businessColumnId !== undefined) {
+          const request = dispatch(businessApi.endpoints.getBusinessColumn.initiate(businessColumnId))
+          try {
+            const businessColumn = await request.unwrap()
+            businessContext = businessColumn.businessContext || businessColumn.businessMeaning
+            relatedTerms = splitTermList(businessColumn.relatedBusinessTerms)
+          } catch (error) {
+            console.warn(`Failed to load business column ${businessColumnId}:`, error)
+          } finally {
+            request.unsubscribe()
+          }
+        }
+
+        const qualifiedNames = [
+          column.columnName,
+          `${table.tableName}.${column.columnName}`,
+          `${table.schemaName}.${table.tableName}.${column.columnName}`,
+        ]
+        const terms = (await fetchGlossaryTerms(column.columnName)).filter(
+          term =>
+            term.mappedColumns?.some(mapped => qualifiedNames.some(name => sameName(mapped, name))) ||
+            relatedTerms.some(related => sameName(related, term.term))
+        )
+
+        lines = [
+          ...describeColumn(table, column),
+          ...(businessContext && businessContext !== column.businessMeaning ? [`**Business Context:** ${businessContext}`] : []),
+          ...describeGlossary(terms),
+        ]
+      } else {
+        const qualifiedNames = [table.tableName, `${table.schemaName}.${table.tableName}`]
+        const terms = (await fetchGlossaryTerms(table.tableName)).filter(term =>
+          term.mappedTables?.some(mapped => qualifiedNames.some(name => sameName(mapped, name)))
+        )
+        lines = [...describeTable(table), ...describeGlossary(terms)]
+      }
+
+      hoverCacheRef.current.set(cacheKey, lines)
+      return lines
+    },
+    [dispatch, fetchGlossaryTerms]
+  )
+
+  /**
+   * Register the completion and hover providers; dispose the result when the
+   * editor unmounts, since Monaco providers are global per language.
+   */
+  const registerProviders = useCallback(
+    (monaco: Monaco): IDisposable => {
+      const completion = monaco.languages.registerCompletionItemProvider('sql', {
+        triggerCharacters: ['.'],
+        provideCompletionItems: async (model, position) => {
+          const context = analyzeSqlCompletionContext(model.getValue(), model.getOffsetAt(position))
+          if (context.kind === 'none') return { suggestions: [] }
+
+          await loadTableDetails(
+            context.qualifier && !resolveQualifier(context.qualifier, context.bindings)
+              ? [...context.bindings, { tableName: context.qualifier }]
+              : context.bindings
+          )
+
+          const word = model.getWordUntilPosition(position)
+          const range = {
+            startLineNumber: position.lineNumber,
+            endLineNumber: position.lineNumber,
+            startColumn: word.startColumn,
+            endColumn: word.endColumn,
+          }
+
+          return { suggestions: buildSuggestions(monaco, context, getCatalog(), range, contextTermsRef.current) }
+        },
+      })
+
+      const hover = monaco.languages.registerHoverProvider('sql', {
+        provideHover: async (model, position) => {
+          const sql = model.getValue()
+          const offset = model.getOffsetAt(position)
+          await loadTableDetails(findTableBindings(sql))
+
+          const match = resolveSqlIdentifier(sql, offset, getCatalog())
+          if (!match) return null
+
+          const contents = await describeMatch(match)
+          const start = model.getPositionAt(match.startOffset)
+          const end = model.getPositionAt(match.endOffset)
+          return {
+            range: new monaco.Range(start.lineNumber, start.column, end.lineNumber, end.column),
+            contents: contents.map(value => ({ value })),
+          }
+        },
+      })
+
+      return {
+        dispose: () => {
+          completion.dispose()
+          hover.dispose()
+        },
+      }
+    },
+    [describeMatch, getCatalog, loadTableDetails]
+  )
+
+  return {
+    registerProviders,
+    isSchemaLoading: isLoading,
+    tableCount: schemaTables?.length ?? 0,
+  }
+}
@@ -0,0 +1,225 @@
+import type { ChatMessage, Conversation, QueuedQuestion } from '../types/chat'
+import { joinResults, resultsToEvict, splitResults, type CachedResult } from '../utils/offlineQueue'
+
+const DB_NAME = 'bi-copilot-offline'
+// 2: entries are tagged with the user they were cached for
+const DB_VERSION = 2
+
+const STORES = {
+  conversations: 'conversations',
+  results: 'results',
+  responses: 'responses',
+  queue: 'queue',
+} as const
+
+type StoreName = typeof STORES[keyof typeof STORES]
+
+interface UserScoped {
+  userId: string
+}
+
+interface CachedConversation extends UserScoped {
+  // `${userId}:${conversation.id}`
+  id: string
+  conversation: Conversation
+  messages: ChatMessage[]
+  cachedAt: string
+}
+
+export interface CachedResponse<T = unknown> {
+  key: string
+  data: T
+  cachedAt: string
+}
+
+type StoredResponse<T = unknown> = CachedResponse<T> & UserScoped
+type StoredResult = CachedResult & UserScoped
+type StoredQuestion = QueuedQuestion & UserScoped
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const completion = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+
+/**
+ * Offline Store
+ *
+ * IndexedDB copy of what the app needs to stay useful offline: conversation
+ * transcripts, the most recent query results, API responses marked as
+ * readable offline (schema metadata, conversation lists) and the questions
+ * queued while offline. Browsers without IndexedDB get an empty store.
+ *
+ * Everything is tagged with the signed-in user (see setUser) and only that
+ * user's entries are read back; with nobody signed in the store is empty.
+ */
+class OfflineStore {
+  private dbPromise: Promise<IDBDatabase> | null = null
+  private userId: string | null = null
+
+  isSupported(): boolean {
+    return typeof indexedDB !== 'undefined'
+  }
+
+  /** Scopes reads and writes to this user; null while signed out */
+  setUser(userId: string | null): void {
+    this.userId = userId
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+        request.onupgradeneeded = event => {
+          const db = request.result
+          if (!db.objectStoreNames.contains(STORES.conversations)) db.createObjectStore(STORES.conversations, { keyPath: 'id' })
+          if (!db.objectStoreNames.contains(STORES.results)) db.createObjectStore(STORES.results, { keyPath: 'messageId' })
+          if (!db.objectStoreNames.contains(STORES.responses)) db.createObjectStore(STORES.responses, { keyPath: 'key' })
+          if (!db.objectStoreNames.contains(STORES.queue)) db.createObjectStore(STORES.queue, { keyPath: 'messageId' })
+          // Entries from version 1 don't say whose they are
+          if (event.oldVersion === 1) {
+            Object.values(STORES).forEach(name => request.transaction?.objectStore(name).clear())
+          }
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => {
+          this.dbPromise = null
+          reject(request.error)
+        }
+      })
+    }
+    return this.dbPromise
+  }
+
+  private async getAll<T extends UserScoped>(storeName: StoreName): Promise<T[]> {
+    if (!this.isSupported()) return []
+    const db = await this.open()
+    return promisify(db.transaction(storeName, 'readonly').objectStore(storeName).getAll()) as Promise<T[]>
+  }
+
+  /** The current user's entries; other users' entries are never returned */
+  private async getOwn<T extends UserScoped>(storeName: StoreName): Promise<T[]> {
+    const userId = this.userId
+    if (!userId) return []
+    return (await this.getAll<T>(storeName)).filter(entry => entry.userId === userId)
+  }
+
+  private async get<T extends UserScoped>(storeName: StoreName, key: string): Promise<T | undefined> {
+    const userId = this.userId
+    if (!this.isSupported() || !userId) return undefined
+    const db = await this.open()
+    const entry = await (promisify(db.transaction(storeName, 'readonly').objectStore(storeName).get(key)) as Promise<T | undefined>)
+    return entry?.userId === userId ? entry : undefined
+  }
+
+  private async put<T>(storeName: StoreName, value: T): Promise<void> {
+    if (!this.isSupported()) return
+    const db = await this.open()
+    const transaction = db.transaction(storeName, 'readwrite')
+    transaction.objectStore(storeName).put(value)
+    return completion(transaction)
+  }
+
+  private async delete(storeName: StoreName, keys: string[]): Promise<void> {
+    if (!this.isSupported() || keys.length === 0) return
+    const db = await this.open()
+    const transaction = db.transaction(storeName, 'readwrite')
+    const store = transaction.objectStore(storeName)
+    keys.forEach(key => store.delete(key))
+    return completion(transaction)
+  }
+
+  // Conversations and results
+
+  async saveConversation(conversation: Conversation, messages: ChatMessage[]): Promise<void> {
+    const userId = this.userId
+    if (!this.isSupported() || !userId) return
+    const split = splitResults(messages, conversation.id)
+    const db = await this.open()
+    const transaction = db.transaction([STORES.conversations, STORES.results], 'readwrite')
+    transaction.objectStore(STORES.conversations).put({
+      id: `${userId}:${conversation.id}`,
+      userId,
+      conversation,
+      messages: split.messages,
+      cachedAt: new Date().toISOString(),
+    } satisfies CachedConversation)
+    const results = transaction.objectStore(STORES.results)
+    split.results.forEach(result => results.put({ ...result, userId } satisfies StoredResult))
+    await completion(transaction)
+
+    // Only the most recent answers keep their rows offline
+    await this.delete(STORES.results, resultsToEvict(await this.getOwn<StoredResult>(STORES.results)))
+  }
+
+  /** Cached conversations, most recently updated first, with their cached results */
+  async getConversations(): Promise<Array<{ conversation: Conversation; messages: ChatMessage[] }>> {
+    const [conversations, results] = await Promise.all([
+      this.getOwn<CachedConversation>(STORES.conversations),
+      this.getOwn<StoredResult>(STORES.results),
+    ])
+    return conversations
+      .sort((a, b) => new Date(b.conversation.updatedAt).getTime() - new Date(a.conversation.updatedAt).getTime())
+      .map(cached => ({ conversation: cached.conversation, messages: joinResults(cached.messages, results) }))
+  }
+
+  // API responses
+
+  async saveResponse<T>(key: string, data: T): Promise<void> {
+    if (!this.userId) return
+    await this.put<StoredResponse<T>>(STORES.responses, { key, userId: this.userId, data, cachedAt: new Date().toISOString() })
+  }
+
+  async getResponse<T>(key: string): Promise<CachedResponse<T> | undefined> {
+    const stored = await this.get<StoredResponse<T>>(STORES.responses, key)
+    if (!stored) return undefined
+    const { userId: _userId, ...response } = stored
+    return response
+  }
+
+  // Queued questions
+
+  async enqueue(item: QueuedQuestion): Promise<void> {
+    if (!this.userId) throw new Error('Sign in to queue questions offline')
+    await this.put<StoredQuestion>(STORES.queue, { ...item, userId: this.userId })
+  }
+
+  /**
+   * The current user's queued questions, oldest first. Questions another user
+   * queued on this device are dropped rather than sent with this session.
+   */
+  async getQueue(): Promise<QueuedQuestion[]> {
+    const userId = this.userId
+    if (!userId) return []
+    const queue = await this.getAll<StoredQuestion>(STORES.queue)
+    const foreign = queue.filter(item => item.userId !== userId)
+    await this.delete(STORES.queue, foreign.map(item => item.messageId))
+    return queue
+      .filter(item => item.userId === userId)
+      .sort((a, b) => new Date(a.queuedAt).getTime() - new Date(b.queuedAt).getTime())
+      .map(({ userId: _userId, ...item }) => item)
+  }
+
+  async dequeue(messageId: string): Promise<void> {
+    await this.delete(STORES.queue, [messageId])
+  }
+
+  async clear(): Promise<void> {
+    if (!this.isSupported()) return
+    const db = await this.open()
+    const names = Object.values(STORES)
+    const transaction = db.transaction(names, 'readwrite')
+    names.forEach(name => transaction.objectStore(name).clear())
+    return completion(transaction)
+  }
+}
+
+export const offlineStore = new OfflineStore()
+export default offlineStore
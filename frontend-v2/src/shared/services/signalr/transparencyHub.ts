@@ -2,6 +2,7 @@ import { HubConnectionBuilder, HubConnection, HubConnectionState } from '@micros
 import { store } from '@shared/store'
 import { selectAccessToken } from '@shared/store/auth'
 import { validateTokenForSignalR, isAuthenticationError } from '@shared/utils/tokenUtils'
+import type { ProcessFlowStep } from '@shared/types/transparency'
 
 // Global flag to prevent reconnection attempts when authentication fails
 let authenticationFailed = false
@@ -348,6 +349,13 @@ export interface StepCompletedEvent {
     tokensAdded: number
     content: string
     details: any
+    // Timing and nesting, when the backend reports them
+    stepType?: ProcessFlowStep['stepType']
+    startTime?: string
+    endTime?: string
+    durationMs?: number
+    parentStepId?: string
+    attempt?: number
   }
 }
 
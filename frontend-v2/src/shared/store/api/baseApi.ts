@@ -1,5 +1,6 @@
 import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react'
 import type { RootState } from '../index'
+import { offlineStore } from '../../services/offlineStore'
 
 const baseQuery = fetchBaseQuery({
   baseUrl: '/api',
@@ -66,9 +67,53 @@ const baseQueryWithReauth = async (args: any, api: any, extraOptions: any) => {
   return result
 }
 
+// Queries whose last response stays readable offline
+const OFFLINE_READABLE_ENDPOINTS = new Set([
+  'getConversations',
+  'getConversation',
+  'getMessages',
+  'getQueryTemplates',
+  'getAllSchemaTables',
+  'getSchemaTableDetails',
+  'getSchemaSummary',
+])
+
+// Typed explicitly: RootState depends on this API, so it can't feed inference here
+const signedInUserId = (api: any): string | undefined => (api.getState() as RootState).auth.user?.id
+
+const baseQueryWithOfflineCache = async (args: any, api: any, extraOptions: any) => {
+  const userId = signedInUserId(api)
+  if (api.type !== 'query' || !OFFLINE_READABLE_ENDPOINTS.has(api.endpoint) || !userId) {
+    return baseQueryWithReauth(args, api, extraOptions)
+  }
+
+  // Responses are per user; another user on this device must never be served them
+  const cacheKey = `${userId}:${api.endpoint}:${JSON.stringify(args)}`
+  const result = await baseQueryWithReauth(args, api, extraOptions)
+
+  // Signed out during the request (e.g. a failed token refresh)
+  if (signedInUserId(api) !== userId) {
+    return result
+  }
+
+  if (!result.error) {
+    offlineStore.saveResponse(cacheKey, result.data).catch(error => {
+      console.warn(`Could not cache ${api.endpoint} for offline use:`, error)
+    })
+  } else if (result.error.status === 'FETCH_ERROR') {
+    const cached = await offlineStore.getResponse(cacheKey).catch(() => undefined)
+    if (cached) {
+      console.log(`📴 Serving cached ${api.endpoint} from ${cached.cachedAt}`)
+      return { data: cached.data }
+    }
+  }
+
+  return result
+}
+
 export const baseApi = createApi({
   reducerPath: 'api',
-  baseQuery: baseQueryWithReauth,
+  baseQuery: baseQueryWithOfflineCache,
   tagTypes: [
     'User',
     'Query',
@@ -83,6 +128,7 @@ export const baseApi = createApi({
     'CostAnalytics',
     'CostHistory',
     'Budget',
+    'BudgetOverride',
     'CostRecommendations',
     'Performance',
     'PerformanceMetrics',
@@ -98,6 +144,10 @@ export const baseApi = createApi({
     'AIProvider',
     'SecuritySettings',
     'UserSessions',
+    // ProcessFlow transparency
+    'ProcessFlowSession',
+    'ProcessFlowSessions',
+    'QueryProcessFlow',
     // LLM Management
     'LLMProvider',
     'LLMProviderHealth',
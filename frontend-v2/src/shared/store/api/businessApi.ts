@@ -19,6 +19,8 @@ export interface BusinessTableInfo {
   businessGlossaryTerms: string[]
   llmContextHints: string[]
   queryComplexityHints: string[]
+  // Data steward accountable for the table's metadata
+  businessOwner?: string
   isActive: boolean
   createdDate: string
   updatedDate: string
@@ -35,6 +37,8 @@ export interface BusinessColumnInfo {
   dataExamples: string[]
   isKeyColumn: boolean
   isPII: boolean
+  // Name the backend DTOs use for the same flag
+  isSensitiveData?: boolean
   businessRules: string
   validationRules: string[]
   semanticTags: string[]
@@ -251,6 +255,7 @@ export interface UpdateTableRequest {
   businessGlossaryTerms: string[]
   llmContextHints: string[]
   queryComplexityHints: string[]
+  businessOwner?: string
   isActive: boolean
 }
 
@@ -362,6 +367,28 @@ export interface BusinessMetadataStatistics {
   averageMetadataCompleteness: number
 }
 
+// PII masking
+export type MaskingStrategy = 'none' | 'partial' | 'hash' | 'full' | 'redact'
+
+export interface PiiRevealRequest {
+  columns: Array<{
+    column: string
+    // Business columns the result column was derived from, as schema.table.column
+    sources: string[]
+  }>
+  reason: string
+  maskingStrategy: MaskingStrategy
+  sql?: string
+  // Where the values were revealed, e.g. 'chat-results'
+  context?: string
+}
+
+export interface PiiRevealResponse {
+  success: boolean
+  auditId: string
+  revealedAt: string
+}
+
 // Enhanced Business Glossary Interfaces
 export interface EnhancedBusinessGlossaryTerm {
   id: number
@@ -472,6 +499,13 @@ export interface UpdateGlossaryTermRequest {
   isActive?: boolean
 }
 
+export interface CreateGlossaryRelationshipRequest {
+  termId: number
+  relatedTermId: number
+  relationshipType: GlossaryTermRelationship['relationshipType']
+  description?: string
+}
+
 export interface GlossaryTermSearchRequest {
   searchQuery: string
   categories: string[]
@@ -799,11 +833,19 @@ export const businessApi = baseApi.injectEndpoints({
       lastUpdated?: string
       columns?: Array<{
         columnName: string
+        dataType?: string
         businessMeaning?: string
         businessDataType?: string
         isNullable?: boolean
+        isPrimaryKey?: boolean
         sampleValues?: string[]
       }>
+      foreignKeys?: Array<{
+        name: string
+        column: string
+        referencedTable: string
+        referencedColumn: string
+      }>
     }, { schemaName: string; tableName: string }>({
       query: ({ schemaName, tableName }) => `/schema/tables/${schemaName}.${tableName}`,
       providesTags: (result, error, { schemaName, tableName }) => [
@@ -976,6 +1018,23 @@ export const businessApi = baseApi.injectEndpoints({
       }),
     }),
 
+    createGlossaryTermRelationship: builder.mutation<GlossaryTermRelationship, CreateGlossaryRelationshipRequest>({
+      query: ({ termId, ...body }) => ({
+        url: `/business-metadata/glossary/${termId}/relationships`,
+        method: 'POST',
+        body,
+      }),
+      invalidatesTags: ['EnhancedGlossary'],
+    }),
+
+    deleteGlossaryTermRelationship: builder.mutation<{ success: boolean; message: string }, { termId: number; relationshipId: number }>({
+      query: ({ termId, relationshipId }) => ({
+        url: `/business-metadata/glossary/${termId}/relationships/${relationshipId}`,
+        method: 'DELETE',
+      }),
+      invalidatesTags: ['EnhancedGlossary'],
+    }),
+
     // Enhanced Business Domains API Endpoints
     getEnhancedBusinessDomains: builder.query<GetBusinessDomainsResponse, GetBusinessDomainsRequest>({
       query: (params) => {
@@ -1024,6 +1083,15 @@ export const businessApi = baseApi.injectEndpoints({
       }),
       invalidatesTags: ['EnhancedDomain'],
     }),
+
+    // PII reveal audit trail
+    recordPiiReveal: builder.mutation<PiiRevealResponse, PiiRevealRequest>({
+      query: (body) => ({
+        url: '/business-metadata/pii/reveal-audit',
+        method: 'POST',
+        body,
+      }),
+    }),
   }),
 })
 
@@ -1052,7 +1120,9 @@ export const {
   // Schema Discovery & Management
   useGetAllSchemaTablesQuery,
   useGetSchemaTableDetailsQuery,
+  useLazyGetSchemaTableDetailsQuery,
   useGetSchemaSummaryQuery,
+  useLazyGetSchemaSummaryQuery,
   useGetDataSourcesQuery,
   useRefreshSchemaMutation,
 
@@ -1074,6 +1144,8 @@ export const {
   useUpdateEnhancedGlossaryTermMutation,
   useDeleteEnhancedGlossaryTermMutation,
   useSearchEnhancedGlossaryTermsMutation,
+  useCreateGlossaryTermRelationshipMutation,
+  useDeleteGlossaryTermRelationshipMutation,
 
   // Enhanced Business Domains API Hooks
   useGetEnhancedBusinessDomainsQuery,
@@ -1081,4 +1153,7 @@ export const {
   useCreateEnhancedBusinessDomainMutation,
   useUpdateEnhancedBusinessDomainMutation,
   useDeleteEnhancedBusinessDomainMutation,
+
+  // PII
+  useRecordPiiRevealMutation,
 } = businessApi
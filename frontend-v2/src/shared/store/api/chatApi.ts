@@ -2,6 +2,7 @@ import { baseApi } from './baseApi'
 import type {
   ChatMessage,
   Conversation,
+  ConversationBranch,
   QuerySuggestion,
   SendMessageRequest,
   SendMessageResponse,
@@ -9,6 +10,7 @@ import type {
   GetConversationsResponse,
   ExportOptions
 } from '../../types/chat'
+import { toClarificationPayload } from '../../utils/ambiguityResolution'
 
 export const chatApi = baseApi.injectEndpoints({
   endpoints: (builder) => ({
@@ -37,7 +39,7 @@ export const chatApi = baseApi.injectEndpoints({
       providesTags: (result, error, id) => [{ type: 'Conversation', id }],
     }),
 
-    createConversation: builder.mutation<Conversation, { title?: string; context?: any }>({
+    createConversation: builder.mutation<Conversation, { title?: string; context?: any; branch?: ConversationBranch }>({
       query: (body) => ({
         url: '/chat/conversations',
         method: 'POST',
@@ -85,6 +87,16 @@ export const chatApi = baseApi.injectEndpoints({
       ],
     }),
 
+    // Stores messages under their client ids, e.g. a transcript copied into a branch
+    saveMessages: builder.mutation<{ messages: ChatMessage[] }, { conversationId: string; messages: ChatMessage[] }>({
+      query: ({ conversationId, messages }) => ({
+        url: `/chat/conversations/${conversationId}/messages`,
+        method: 'POST',
+        body: { messages },
+      }),
+      invalidatesTags: (result, error, { conversationId }) => [{ type: 'Message', id: conversationId }],
+    }),
+
     updateMessage: builder.mutation<ChatMessage, { id: string; updates: Partial<ChatMessage> }>({
       query: ({ id, updates }) => ({
         url: `/chat/messages/${id}`,
@@ -139,8 +151,12 @@ export const chatApi = baseApi.injectEndpoints({
       streamingEnabled?: boolean
     }, {
       query: string
+      /** ProcessFlow session the caller has already subscribed to */
+      sessionId?: string
       conversationId?: string
       context?: any
+      clarifications?: Record<string, string>
+      preferredModel?: string
       options?: {
         includeSemanticAnalysis?: boolean
         enableStreaming?: boolean
@@ -155,10 +171,15 @@ export const chatApi = baseApi.injectEndpoints({
           Query: body.query,
           ExecuteQuery: true,
           IncludeAlternatives: true,
-          IncludeSemanticAnalysis: body.options?.includeSemanticAnalysis ?? true
+          IncludeSemanticAnalysis: body.options?.includeSemanticAnalysis ?? true,
+          ...(body.sessionId && { SessionId: body.sessionId }),
+          ...(body.conversationId && { ConversationId: body.conversationId }),
+          ...(body.context && { Context: body.context }),
+          ...(body.clarifications && { Clarifications: toClarificationPayload(body.clarifications) }),
+          ...(body.preferredModel && { PreferredModel: body.preferredModel }),
         },
       }),
-      transformResponse: (response: any) => {
+      transformResponse: (response: any, _meta, arg) => {
         // Transform backend response to expected frontend format
         return {
           message: {
@@ -172,7 +193,8 @@ export const chatApi = baseApi.injectEndpoints({
             semanticAnalysis: response.SemanticAnalysis,
             status: 'delivered' as const
           },
-          sessionId: undefined, // Backend doesn't provide sessionId for this endpoint
+          // The backend tracks the run under the session id it was sent
+          ...(arg.sessionId && { sessionId: arg.sessionId }),
           streamingEnabled: false
         }
       },
@@ -334,6 +356,7 @@ export const {
   // Message hooks
   useGetMessagesQuery,
   useSendMessageMutation,
+  useSaveMessagesMutation,
   useUpdateMessageMutation,
   useDeleteMessageMutation,
   
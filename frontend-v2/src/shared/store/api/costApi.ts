@@ -10,6 +10,8 @@ import type {
   UpdateBudgetRequest,
   CostPredictionRequest,
   CostPredictionResponse,
+  BudgetOverrideRequest,
+  BudgetOverridesResponse,
   CostForecastResponse,
   RecommendationsResponse,
   ROIAnalysisResponse,
@@ -102,6 +104,28 @@ export const costApi = baseApi.injectEndpoints({
       invalidatesTags: ['Budget'],
     }),
 
+    // Overrides of the chat's pre-flight budget check, kept for admin review
+    recordBudgetOverride: builder.mutation<void, BudgetOverrideRequest>({
+      query: (override) => ({
+        url: '/ResourceManagement/cost/budget-overrides',
+        method: 'POST',
+        body: override,
+      }),
+      invalidatesTags: ['BudgetOverride'],
+    }),
+
+    getBudgetOverrides: builder.query<BudgetOverridesResponse, {
+      budgetId?: string
+      startDate?: string
+      endDate?: string
+    }>({
+      query: (params) => ({
+        url: '/ResourceManagement/cost/budget-overrides',
+        params,
+      }),
+      providesTags: ['BudgetOverride'],
+    }),
+
     // Predictions & Recommendations
     predictCost: builder.mutation<CostPredictionResponse, CostPredictionRequest>({
       query: (request) => ({
@@ -150,6 +174,8 @@ export const {
   useCreateBudgetMutation,
   useUpdateBudgetMutation,
   useDeleteBudgetMutation,
+  useRecordBudgetOverrideMutation,
+  useGetBudgetOverridesQuery,
   usePredictCostMutation,
   useGetCostForecastQuery,
   useGetOptimizationRecommendationsQuery,
@@ -1,4 +1,5 @@
 import { baseApi } from './baseApi'
+import type { BudgetPreflightLevel, QueryComplexity } from '../../types/cost'
 
 // Types based on the database schema and controller
 export interface LLMProviderConfig {
@@ -41,6 +42,40 @@ export interface LLMProviderStatus {
   metadata?: Record<string, any>
 }
 
+// Routing policies: which model a request goes to, and where it falls back to
+export interface LLMRoutingConditions {
+  // An empty or missing list matches anything
+  useCases?: string[]
+  complexities?: QueryComplexity[]
+  roles?: string[]
+  budgetStates?: BudgetPreflightLevel[]
+}
+
+export interface LLMRoutingRule {
+  id: string
+  name: string
+  isEnabled: boolean
+  conditions: LLMRoutingConditions
+  // Model ids, tried in order when a provider is degraded or offline
+  modelChain: string[]
+  // 'ordered' takes the first available model; 'weighted' picks the best
+  // latency/cost trade-off among the available ones
+  strategy: 'ordered' | 'weighted'
+  latencyWeight: number
+  costWeight: number
+}
+
+// Drafted and simulated in the admin UI only; the backend doesn't store or
+// apply routing policies yet and picks each use case's default model
+export interface LLMRoutingPolicy {
+  // Evaluated top to bottom; the first matching rule routes the request
+  rules: LLMRoutingRule[]
+  // Used when no rule matches
+  defaultChain: string[]
+  // Prefer healthy providers over degraded ones further down the chain
+  avoidDegraded: boolean
+}
+
 export interface LLMUsageLog {
   id: number
   requestId: string
@@ -383,6 +418,8 @@ export const {
   useDeleteModelMutation,
   useGetDefaultModelQuery,
   useSetDefaultModelMutation,
+
+  // Routing Policy
   
   // Usage Tracking
   useGetUsageHistoryQuery,
@@ -1,5 +1,6 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit'
 import type { RootState } from './index'
+import { authActions } from './auth'
 import type {
   ChatState,
   ChatMessage,
@@ -7,8 +8,10 @@ import type {
   StreamingProgress,
   QuerySuggestion,
   ChatSettings,
-  ConversationContext
+  ConversationContext,
+  PendingClarification
 } from '../types/chat'
+import { copyTranscriptToBranch, getBranchTranscript } from '../utils/conversationBranching'
 
 const initialSettings: ChatSettings = {
   theme: 'light',
@@ -33,10 +36,12 @@ const initialState: ChatState = {
   isLoading: false,
   isConnected: false,
   streamingProgress: null,
+  pendingClarification: null,
   inputValue: '',
   suggestions: [],
   showSuggestions: false,
   conversations: [],
+  conversationMessages: {},
   recentQueries: [],
   favoriteQueries: [],
   settings: initialSettings,
@@ -50,10 +55,15 @@ export const chatSlice = createSlice({
   reducers: {
     // Conversation management
     setCurrentConversation: (state, action: PayloadAction<Conversation | null>) => {
+      // Keep the outgoing transcript so switching between branches is instant
+      if (state.currentConversation && state.messages.length > 0) {
+        state.conversationMessages[state.currentConversation.id] = state.messages
+      }
+
       state.currentConversation = action.payload
       if (action.payload) {
         // Load messages for this conversation
-        state.messages = [] // Will be loaded by RTK Query
+        state.messages = state.conversationMessages[action.payload.id] ?? [] // Otherwise loaded by RTK Query
       } else {
         state.messages = []
       }
@@ -97,6 +107,36 @@ export const chatSlice = createSlice({
       }
     },
 
+    // Branching
+    forkConversation: (state, action: PayloadAction<{ conversation: Conversation; fromMessageId: string }>) => {
+      const { conversation, fromMessageId } = action.payload
+      const transcript = copyTranscriptToBranch(
+        getBranchTranscript(state.messages, fromMessageId),
+        conversation.id
+      )
+      const parentId = conversation.branch?.parentConversationId
+
+      if (state.currentConversation) {
+        state.conversationMessages[state.currentConversation.id] = state.messages
+      }
+
+      // Record the branch on its parent
+      const addBranch = (parent: Conversation) => {
+        parent.branchIds = [...(parent.branchIds ?? []).filter(id => id !== conversation.id), conversation.id]
+      }
+      const parent = state.conversations.find(conv => conv.id === parentId)
+      if (parent) addBranch(parent)
+      if (state.currentConversation && state.currentConversation.id === parentId) {
+        addBranch(state.currentConversation)
+      }
+
+      const forked: Conversation = { ...conversation, messageCount: transcript.length }
+      state.conversations = [forked, ...state.conversations.filter(conv => conv.id !== forked.id)]
+      state.currentConversation = forked
+      state.messages = transcript
+      state.conversationMessages[forked.id] = transcript
+    },
+
     // Message management
     addMessage: (state, action: PayloadAction<ChatMessage>) => {
       const message = action.payload
@@ -185,6 +225,10 @@ export const chatSlice = createSlice({
       state.streamingProgress = action.payload
     },
 
+    setPendingClarification: (state, action: PayloadAction<PendingClarification | null>) => {
+      state.pendingClarification = action.payload
+    },
+
     // Settings
     updateSettings: (state, action: PayloadAction<Partial<ChatSettings>>) => {
       state.settings = { ...state.settings, ...action.payload }
@@ -209,6 +253,15 @@ export const chatSlice = createSlice({
       }
     },
 
+    rememberTermClarifications: (state, action: PayloadAction<Record<string, string>>) => {
+      if (state.currentConversation) {
+        state.currentConversation.context.termClarifications = {
+          ...state.currentConversation.context.termClarifications,
+          ...action.payload,
+        }
+      }
+    },
+
     addToQueryHistory: (state, action: PayloadAction<string>) => {
       const query = action.payload.trim()
       if (query && state.currentConversation) {
@@ -230,15 +283,39 @@ export const chatSlice = createSlice({
 
     clearConversations: (state) => {
       state.conversations = []
+      state.conversationMessages = {}
       state.currentConversation = null
       state.messages = []
     },
 
+    // Offline
+    hydrateFromOfflineCache: (state, action: PayloadAction<Array<{ conversation: Conversation; messages: ChatMessage[] }>>) => {
+      // Cached copies only fill in what this session hasn't loaded itself
+      action.payload.forEach(({ conversation, messages }) => {
+        if (!state.conversations.some(conv => conv.id === conversation.id)) {
+          state.conversations.push(conversation)
+        }
+        if (!state.conversationMessages[conversation.id]) {
+          state.conversationMessages[conversation.id] = messages
+        }
+      })
+
+      const latest = action.payload[0]
+      if (!state.currentConversation && state.messages.length === 0 && latest) {
+        state.currentConversation = latest.conversation
+        state.messages = state.conversationMessages[latest.conversation.id] ?? []
+      }
+    },
+
     // Reset state
     resetChatState: (state) => {
       Object.assign(state, initialState)
     },
   },
+  extraReducers: (builder) => {
+    // The next user on this device must not see, or cache as their own, this transcript
+    builder.addCase(authActions.logout, () => initialState)
+  },
 })
 
 export const chatActions = chatSlice.actions
@@ -251,10 +328,12 @@ export const selectIsTyping = (state: RootState) => state.chat.isTyping
 export const selectIsLoading = (state: RootState) => state.chat.isLoading
 export const selectIsConnected = (state: RootState) => state.chat.isConnected
 export const selectStreamingProgress = (state: RootState) => state.chat.streamingProgress
+export const selectPendingClarification = (state: RootState) => state.chat.pendingClarification
 export const selectInputValue = (state: RootState) => state.chat.inputValue
 export const selectSuggestions = (state: RootState) => state.chat.suggestions
 export const selectShowSuggestions = (state: RootState) => state.chat.showSuggestions
 export const selectConversations = (state: RootState) => state.chat.conversations
+export const selectConversationMessages = (state: RootState) => state.chat.conversationMessages
 export const selectRecentQueries = (state: RootState) => state.chat.recentQueries
 export const selectFavoriteQueries = (state: RootState) => state.chat.favoriteQueries
 export const selectChatSettings = (state: RootState) => state.chat.settings
@@ -9,6 +9,7 @@ import { baseApi } from './api/baseApi'
 import aiTransparencyReducer from './aiTransparencySlice'
 import streamingProcessingReducer from './streamingProcessingSlice'
 import { isTokenExpired } from '@shared/utils/tokenUtils'
+import { offlineStore } from '@shared/services/offlineStore'
 
 // Import API files to ensure endpoints are injected
 import './api/authApi'
@@ -94,6 +95,23 @@ setupListeners(store.dispatch)
 // Create persistor
 export const persistor = persistStore(store)
 
+// The offline cache belongs to whoever is signed in. Signing out, or the
+// tokens being cleared, wipes it along with the service worker's API cache.
+let offlineUserId: string | null = null
+store.subscribe(() => {
+  const { user, accessToken } = store.getState().auth
+  const userId = user && accessToken ? user.id : null
+  if (userId === offlineUserId) return
+
+  const signedOut = offlineUserId !== null
+  offlineUserId = userId
+  offlineStore.setUser(userId)
+  if (signedOut) {
+    offlineStore.clear().catch(error => console.warn('Could not clear the offline cache:', error))
+    navigator.serviceWorker?.controller?.postMessage({ type: 'CLEAR_CACHE', cacheName: 'bi-copilot-api-v1.0.0' })
+  }
+})
+
 export type RootState = ReturnType<typeof store.getState>
 export type AppDispatch = typeof store.dispatch
 
@@ -9,7 +9,8 @@ export interface ChatMessage {
   type: 'user' | 'assistant' | 'system' | 'error'
   content: string
   timestamp: Date
-  status: 'sending' | 'sent' | 'delivered' | 'error'
+  // queued: typed while offline, sent when the connection returns
+  status: 'queued' | 'sending' | 'sent' | 'delivered' | 'error'
   
   // Enhanced metadata
   metadata?: {
@@ -47,6 +48,13 @@ export interface ChatMessage {
     details?: any
     retryable?: boolean
   }
+
+  // Offline queue
+  offline?: {
+    queuedAt: string
+    // What changed between queuing and sending
+    conflicts?: string[]
+  }
 }
 
 export interface QueryResult {
@@ -92,6 +100,25 @@ export interface SemanticAnalysis {
   }>
 }
 
+export interface PendingClarification {
+  messageId: string
+  query: string
+  // Conversation the question was asked in; a fork is not current yet when it pauses
+  conversationId?: string
+  ambiguities: SemanticAnalysis['ambiguities']
+  resolved: Record<string, string>
+}
+
+export interface QueuedQuestion {
+  // Id of the queued user message
+  messageId: string
+  conversationId?: string
+  query: string
+  queuedAt: string
+  // Last message in the conversation when the question was queued
+  lastMessageId?: string
+}
+
 export interface MessageReaction {
   type: 'like' | 'dislike' | 'helpful' | 'unclear'
   userId: string
@@ -112,6 +139,10 @@ export interface Conversation {
   // Context management
   context: ConversationContext
   
+  // Branching
+  branch?: ConversationBranch
+  branchIds?: string[]
+  
   // Sharing and collaboration
   isShared?: boolean
   sharedWith?: string[]
@@ -138,6 +169,17 @@ export interface ConversationContext {
   currentSchema?: string
   activeFilters?: Record<string, any>
   temporaryTables?: string[]
+  
+  // Chosen meaning per ambiguous term, keyed by lower-cased term
+  termClarifications?: Record<string, string>
+}
+
+export interface ConversationBranch {
+  parentConversationId: string
+  rootConversationId: string
+  forkedFromMessageId: string
+  label?: string
+  createdAt: Date
 }
 
 export interface ConversationPermissions {
@@ -210,7 +252,7 @@ export interface ChatSettings {
 }
 
 export interface ExportOptions {
-  format: 'csv' | 'excel' | 'pdf' | 'json'
+  format: 'csv' | 'excel' | 'pdf' | 'json' | 'parquet' | 'arrow'
   includeMetadata: boolean
   includeCharts: boolean
   dateRange?: {
@@ -231,6 +273,7 @@ export interface ChatState {
   isLoading: boolean
   isConnected: boolean
   streamingProgress: StreamingProgress | null
+  pendingClarification: PendingClarification | null
   
   // Input state
   inputValue: string
@@ -239,6 +282,7 @@ export interface ChatState {
   
   // History and context
   conversations: Conversation[]
+  conversationMessages: Record<string, ChatMessage[]>
   recentQueries: string[]
   favoriteQueries: string[]
   
@@ -255,6 +299,7 @@ export interface SendMessageRequest {
   conversationId?: string
   message: string
   context?: Partial<ConversationContext>
+  clarifications?: Record<string, string>
   options?: {
     includeSemanticAnalysis?: boolean
     enableStreaming?: boolean
@@ -118,24 +118,64 @@ export interface UpdateBudgetRequest extends Partial<CreateBudgetRequest> {
 }
 
 // Cost Predictions & Recommendations
+export type QueryComplexity = 'simple' | 'medium' | 'complex' | 'very_complex'
+
+export interface ModelSelectionCriteria {
+  queryComplexity: QueryComplexity
+  maxCost?: number
+  maxDurationMs?: number
+  minAccuracy?: number
+  priority?: 'Cost' | 'Speed' | 'Accuracy' | 'Balanced'
+  customCriteria?: Record<string, unknown>
+}
+
 export interface CostPredictionRequest {
-  timeframe: number
-  factors?: string[]
-  includeSeasonality?: boolean
+  queryId: string
+  criteria: ModelSelectionCriteria
+}
+
+export interface CostPrediction {
+  id: string
+  queryId: string
+  userId: string
+  estimatedCost: number
+  confidenceScore: number
+  modelUsed: string
+  estimatedTokens: number
+  estimatedDurationMs: number
+  factors: Record<string, unknown>
+  createdAt: string
 }
 
 export interface CostPredictionResponse {
-  prediction: number
-  confidence: number
-  factors: PredictionFactor[]
-  timeframe: number
-  generatedAt: string
+  success: boolean
+  prediction: CostPrediction
 }
 
-export interface PredictionFactor {
-  name: string
-  impact: number
-  confidence: number
+// Budget Overrides
+export type BudgetPreflightLevel = 'ok' | 'warn' | 'block'
+
+export interface BudgetOverrideRequest {
+  budgetId: string
+  queryId: string
+  query: string
+  estimatedCost: number
+  projectedUsagePercentage: number
+  level: Exclude<BudgetPreflightLevel, 'ok'>
+  reason: string
+}
+
+export interface BudgetOverride extends BudgetOverrideRequest {
+  id: string
+  userId: string
+  userName?: string
+  budgetName?: string
+  createdAt: string
+}
+
+export interface BudgetOverridesResponse {
+  overrides: BudgetOverride[]
+  total: number
 }
 
 export interface CostForecastResponse {
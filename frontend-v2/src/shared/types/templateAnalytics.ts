@@ -46,6 +46,16 @@ export interface PerformanceAlert {
 }
 
 // A/B Testing Types
+export interface ABTestVariant {
+  templateKey: string;
+  label?: string;
+  trafficSplitPercent?: number;
+  usageCount: number;
+  successRate: number;
+  averageResponseTime?: number;
+  responseTimeStdDev?: number;
+}
+
 export interface ABTestDetails {
   id: number;
   testName: string;
@@ -63,6 +73,8 @@ export interface ABTestDetails {
   statisticalSignificance?: number;
   confidenceLevel: number;
   minimumSampleSize: number;
+  // A/B/n tests list every arm here, control first
+  variants?: ABTestVariant[];
 }
 
 export interface ABTestRequest {
@@ -75,12 +87,18 @@ export interface ABTestRequest {
   createdBy: string;
   minimumSampleSize?: number;
   confidenceLevel?: number;
+  // A/B/n: additional variants beyond variantTemplateContent, each with its own share of traffic
+  additionalVariants?: Array<{
+    templateContent: string;
+    trafficSplitPercent: number;
+  }>;
 }
 
 export interface ABTestResult {
   testId: number;
   message: string;
   variantTemplateKey: string;
+  variantTemplateKeys?: string[];
 }
 
 export interface ABTestAnalysis {
@@ -90,12 +108,14 @@ export interface ABTestAnalysis {
     successRate: number;
     averageConfidenceScore: number;
     averageResponseTime: number;
+    responseTimeStdDev?: number;
   };
   variantMetrics: {
     usageCount: number;
     successRate: number;
     averageConfidenceScore: number;
     averageResponseTime: number;
+    responseTimeStdDev?: number;
   };
   statisticalSignificance: number;
   confidenceInterval: {
@@ -39,6 +39,11 @@ export interface ProcessFlowStep {
   inputData?: any
   outputData?: any
   errorMessage?: string
+  // Set on sub-steps; top-level steps have no parent
+  parentStepId?: string
+  // 1 for the first run of a step, 2+ for retries
+  attempt?: number
+  tokensUsed?: number
 }
 
 export interface ProcessFlowLog {
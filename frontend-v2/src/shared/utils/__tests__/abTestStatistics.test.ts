@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest'
+import type { ABTestDetails } from '@shared/types/templateAnalytics'
+import {
+  analyzeExperiment,
+  analyzeTest,
+  normalQuantile,
+  probabilityToBeatControl,
+  requiredSampleSize,
+  sequentialAlpha,
+  studentTTwoTailed,
+  twoProportionZTest,
+  welchTTest,
+  type ExperimentArm,
+} from '../abTestStatistics'
+
+describe('distributions', () => {
+  it('inverts the normal CDF', () => {
+    expect(normalQuantile(0.975)).toBeCloseTo(1.959964, 5)
+    expect(normalQuantile(0.8)).toBeCloseTo(0.841621, 5)
+    expect(normalQuantile(0.005)).toBeCloseTo(-2.575829, 5)
+  })
+
+  it('computes two-tailed Student t probabilities', () => {
+    // t = 2.228 is the 5% two-sided critical value at 10 df
+    expect(studentTTwoTailed(2.228, 10)).toBeCloseTo(0.05, 3)
+  })
+})
+
+describe('twoProportionZTest', () => {
+  it('matches a textbook two-proportion test', () => {
+    const result = twoProportionZTest({ trials: 1000, successes: 100 }, { trials: 1000, successes: 130 })
+    expect(result.zScore).toBeCloseTo(2.1027, 3)
+    expect(result.pValue).toBeCloseTo(0.0355, 3)
+    expect(result.significant).toBe(true)
+    expect(result.relativeLift).toBeCloseTo(0.3, 5)
+    expect(result.confidenceInterval.lower).toBeGreaterThan(0)
+  })
+
+  it('is not significant without data', () => {
+    expect(twoProportionZTest({ trials: 0, successes: 0 }, { trials: 10, successes: 5 }).significant).toBe(false)
+  })
+})
+
+describe('welchTTest', () => {
+  it('tests a difference in means with unequal variances', () => {
+    const result = welchTTest({ mean: 1200, stdDev: 300, n: 50 }, { mean: 1050, stdDev: 200, n: 60 })
+    expect(result?.tStatistic).toBeCloseTo(-3.0, 1)
+    expect(result?.degreesOfFreedom).toBeGreaterThan(80)
+    expect(result?.degreesOfFreedom).toBeLessThan(108)
+    expect(result?.significant).toBe(true)
+  })
+})
+
+describe('probabilityToBeatControl', () => {
+  it('is one half for identical arms and high for a clear winner', () => {
+    expect(probabilityToBeatControl({ trials: 100, successes: 50 }, { trials: 100, successes: 50 })).toBeCloseTo(0.5, 2)
+    expect(probabilityToBeatControl({ trials: 1000, successes: 100 }, { trials: 1000, successes: 130 })).toBeGreaterThan(0.97)
+  })
+
+  it('handles counts beyond the exact range', () => {
+    const exact = probabilityToBeatControl({ trials: 20000, successes: 2000 }, { trials: 20000, successes: 2100 })
+    const approx = probabilityToBeatControl({ trials: 400000, successes: 40000 }, { trials: 400000, successes: 42000 })
+    expect(exact).toBeGreaterThan(0.9)
+    expect(approx).toBeGreaterThan(0.99)
+  })
+})
+
+describe('sequentialAlpha', () => {
+  it('spends little alpha on early looks and all of it at the end', () => {
+    expect(sequentialAlpha(0.05, 0.25)).toBeLessThan(0.001)
+    expect(sequentialAlpha(0.05, 0.5, 'pocock')).toBeCloseTo(0.05 * Math.log(1 + (Math.E - 1) * 0.5), 6)
+    expect(sequentialAlpha(0.05, 1)).toBe(0.05)
+  })
+})
+
+describe('requiredSampleSize', () => {
+  it('sizes a test to detect a relative lift', () => {
+    const result = requiredSampleSize({ baselineRate: 0.1, minimumDetectableEffect: 0.2 })
+    // 10% -> 12% at alpha 0.05 and 80% power needs about 3,840 per arm
+    expect(result?.perControl).toBeGreaterThan(3800)
+    expect(result?.perControl).toBeLessThan(3900)
+    expect(result?.total).toBe((result?.perControl ?? 0) * 2)
+  })
+
+  it('needs more samples per arm when more variants share alpha', () => {
+    const single = requiredSampleSize({ baselineRate: 0.1, minimumDetectableEffect: 0.2 })
+    const triple = requiredSampleSize({ baselineRate: 0.1, minimumDetectableEffect: 0.2, variantCount: 3 })
+    expect(triple?.perControl ?? 0).toBeGreaterThan(single?.perControl ?? 0)
+  })
+})
+
+describe('analyzeExperiment', () => {
+  const arms: ExperimentArm[] = [
+    { key: 'original', label: 'Original', trials: 2000, successes: 200 },
+    { key: 'b', label: 'Variant B', trials: 2000, successes: 205 },
+    { key: 'c', label: 'Variant C', trials: 2000, successes: 280 },
+  ]
+
+  it('picks the significant winner among several variants', () => {
+    const analysis = analyzeExperiment(arms, { confidenceLevel: 95 })
+    expect(analysis.adjustedAlpha).toBeCloseTo(0.025, 6)
+    expect(analysis.winner).toBe('c')
+    expect(analysis.recommendation).toBe('implement_variant')
+  })
+
+  it('asks to keep running when an early look is not conclusive', () => {
+    const early = analyzeExperiment(arms.slice(0, 2), { confidenceLevel: 95, plannedSampleSize: 10000 })
+    expect(early.informationFraction).toBeCloseTo(0.4, 6)
+    expect(early.adjustedAlpha).toBeLessThan(0.05)
+    expect(early.recommendation).toBe('continue_test')
+  })
+})
+
+describe('analyzeTest', () => {
+  const test: ABTestDetails = {
+    id: 1,
+    testName: 'Prompt wording',
+    originalTemplateKey: 'sql_generation',
+    variantTemplateKey: 'sql_generation_v2',
+    status: 'completed',
+    trafficSplitPercent: 50,
+    startDate: '2024-01-01T00:00:00Z',
+    endDate: '2024-01-31T00:00:00Z',
+    createdBy: 'admin',
+    originalUsageCount: 1000,
+    variantUsageCount: 1000,
+    originalSuccessRate: 0.1,
+    variantSuccessRate: 0.13,
+    confidenceLevel: 95,
+    minimumSampleSize: 10000,
+  }
+
+  it('reads a finished two-arm test at the full significance level', () => {
+    const analysis = analyzeTest(test)
+    expect(analysis.adjustedAlpha).toBeCloseTo(0.05, 6)
+    expect(analysis.winner).toBe('sql_generation_v2')
+  })
+
+  it('treats a running test as an interim look', () => {
+    const analysis = analyzeTest({ ...test, status: 'running' })
+    expect(analysis.informationFraction).toBeCloseTo(0.2, 6)
+    expect(analysis.recommendation).toBe('continue_test')
+  })
+})
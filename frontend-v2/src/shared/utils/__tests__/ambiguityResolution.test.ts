@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  extractAmbiguities,
+  loadRememberedClarifications,
+  partitionAmbiguities,
+  saveRememberedClarifications,
+  toClarificationPayload,
+  type QueryAmbiguity,
+} from '../ambiguityResolution'
+
+const revenue: QueryAmbiguity = {
+  term: 'Revenue',
+  possibleMeanings: ['gross revenue', 'net revenue'],
+  suggestedClarification: 'Which revenue?',
+}
+const active: QueryAmbiguity = {
+  term: 'active',
+  possibleMeanings: ['logged in this week', 'deposited this month'],
+  suggestedClarification: '',
+}
+
+describe('extractAmbiguities', () => {
+  it('reads the chat SemanticAnalysis shape', () => {
+    expect(extractAmbiguities({ ambiguities: [revenue] })).toEqual([revenue])
+  })
+
+  it('reads the semantic layer shape and takes clarifications from its separate list', () => {
+    const analysis = {
+      queryAnalysis: {
+        ambiguities: [{ term: ' active ', possibleMeanings: ['logged in this week', 'deposited this month'] }],
+        suggestedClarifications: ['Active by login or by deposit?'],
+      },
+    }
+    expect(extractAmbiguities(analysis)).toEqual([
+      { term: 'active', possibleMeanings: active.possibleMeanings, suggestedClarification: 'Active by login or by deposit?' },
+    ])
+  })
+
+  it('drops terms without a real choice and duplicate meanings', () => {
+    const analysis = {
+      ambiguities: [
+        { term: 'revenue', possibleMeanings: ['net revenue', 'net revenue'] },
+        { term: '', possibleMeanings: ['a', 'b'] },
+        { term: 'country', possibleMeanings: ['billing country', 'registration country', 'billing country'] },
+      ],
+    }
+    expect(extractAmbiguities(analysis)).toEqual([
+      { term: 'country', possibleMeanings: ['billing country', 'registration country'], suggestedClarification: '' },
+    ])
+    expect(extractAmbiguities(null)).toEqual([])
+    expect(extractAmbiguities({ ambiguities: 'none' })).toEqual([])
+  })
+})
+
+describe('partitionAmbiguities', () => {
+  it('resolves terms with a remembered choice, matching terms case-insensitively', () => {
+    expect(partitionAmbiguities([revenue, active], { revenue: 'net revenue' })).toEqual({
+      resolved: { revenue: 'net revenue' },
+      unresolved: [active],
+    })
+  })
+
+  it('asks again when the remembered meaning is no longer offered', () => {
+    expect(partitionAmbiguities([revenue], { revenue: 'revenue after tax' })).toEqual({
+      resolved: {},
+      unresolved: [revenue],
+    })
+  })
+
+  it('leaves everything unresolved without remembered choices', () => {
+    expect(partitionAmbiguities([revenue, active])).toEqual({ resolved: {}, unresolved: [revenue, active] })
+  })
+})
+
+describe('remembered clarifications', () => {
+  beforeEach(() => {
+    const store = new Map<string, string>()
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+    })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('merges saved choices per user', () => {
+    saveRememberedClarifications('u1', { revenue: 'net revenue' })
+    saveRememberedClarifications('u1', { active: 'logged in this week' })
+    saveRememberedClarifications('u2', { revenue: 'gross revenue' })
+
+    expect(loadRememberedClarifications('u1')).toEqual({ revenue: 'net revenue', active: 'logged in this week' })
+    expect(loadRememberedClarifications('u2')).toEqual({ revenue: 'gross revenue' })
+    expect(loadRememberedClarifications('u3')).toEqual({})
+  })
+
+  it('ignores unreadable stored choices', () => {
+    localStorage.setItem('chat-term-clarifications:u1', '{not json')
+    expect(loadRememberedClarifications('u1')).toEqual({})
+  })
+})
+
+describe('toClarificationPayload', () => {
+  it('sends one term and meaning pair per choice', () => {
+    expect(toClarificationPayload({ revenue: 'net revenue', active: 'logged in this week' })).toEqual([
+      { Term: 'revenue', Meaning: 'net revenue' },
+      { Term: 'active', Meaning: 'logged in this week' },
+    ])
+  })
+})
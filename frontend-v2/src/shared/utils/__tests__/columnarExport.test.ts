@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest'
+import { tableFromIPC } from 'apache-arrow'
+import { parquetMetadata, parquetReadObjects } from 'hyparquet'
+import {
+  resolveColumnarType,
+  resolveDecimalSpec,
+  toArrowIPC,
+  toColumns,
+  toParquet,
+  toUnscaledDecimal,
+} from '../columnarExport'
+
+const columns = [
+  { name: 'Id', dataType: 'Int64' },
+  { name: 'Amount', dataType: 'decimal(18,2)' },
+  { name: 'PlacedAt', dataType: 'DateTime' },
+  { name: 'Ratio', dataType: 'Double' },
+]
+
+const rows = [
+  ['9007199254740993', '12345678901234.56', '2026-03-01T10:30:00', 0.5],
+  [2, '-0.015', '2026-03-01 23:00:00.1234567', null],
+]
+
+describe('resolveColumnarType', () => {
+  it('keeps decimals apart from floating point', () => {
+    expect(resolveColumnarType('decimal(18,2)')).toBe('decimal')
+    expect(resolveColumnarType('Decimal')).toBe('decimal')
+    expect(resolveColumnarType('money')).toBe('decimal')
+    expect(resolveColumnarType('float')).toBe('float64')
+    expect(resolveColumnarType('Double')).toBe('float64')
+  })
+})
+
+describe('resolveDecimalSpec', () => {
+  it('uses the declared precision and scale, falling back to the values', () => {
+    expect(resolveDecimalSpec('numeric(10, 3)', [])).toEqual({ precision: 10, scale: 3 })
+    expect(resolveDecimalSpec('money', [])).toEqual({ precision: 19, scale: 4 })
+    expect(resolveDecimalSpec('Decimal', ['1.5', 2.125, null, '3'])).toEqual({ precision: 38, scale: 3 })
+  })
+})
+
+describe('toUnscaledDecimal', () => {
+  it('scales exactly from text and rounds extra digits half away from zero', () => {
+    expect(toUnscaledDecimal('12345678901234567.89', 2)).toBe(1234567890123456789n)
+    expect(toUnscaledDecimal('-0.015', 2)).toBe(-2n)
+    expect(toUnscaledDecimal(1.5, 1)).toBe(15n)
+    expect(toUnscaledDecimal(7, 2)).toBe(700n)
+    expect(toUnscaledDecimal('1e3', 1)).toBe(10000n)
+    expect(toUnscaledDecimal('n/a', 2)).toBeNull()
+  })
+})
+
+describe('toColumns', () => {
+  it('keeps int64 strings exact and reads naive datetimes as UTC', () => {
+    const [id, amount, placedAt] = toColumns(rows, columns)
+    expect(id!.values).toEqual([9007199254740993n, 2n])
+    expect(amount!.decimal).toEqual({ precision: 18, scale: 2 })
+    expect(amount!.values).toEqual([1234567890123456n, -2n])
+    expect(placedAt!.values).toEqual([Date.UTC(2026, 2, 1, 10, 30), Date.UTC(2026, 2, 1, 23, 0, 0, 123)])
+  })
+})
+
+describe('toArrowIPC', () => {
+  it('round-trips typed columns', async () => {
+    const table = tableFromIPC(new Uint8Array(await toArrowIPC(rows, columns)))
+    expect(table.schema.fields.map(field => String(field.type))).toEqual([
+      'Int64',
+      'Decimal[18e+2]',
+      'Timestamp<MILLISECOND>',
+      'Float64',
+    ])
+    expect(table.getChild('Id')!.get(0)).toBe(9007199254740993n)
+    expect(table.getChild('PlacedAt')!.get(0)).toBe(Date.UTC(2026, 2, 1, 10, 30))
+    expect(table.getChild('Ratio')!.get(1)).toBeNull()
+  })
+})
+
+describe('toParquet', () => {
+  const wide = [...columns, { name: 'Balance', dataType: 'decimal(38,4)' }, { name: 'Active', dataType: 'bit' }]
+  const wideRows = [
+    [...rows[0]!, '123456789012345678901234.5678', true],
+    [...rows[1]!, null, null],
+  ]
+
+  it('writes a typed schema', async () => {
+    const { schema } = parquetMetadata(await toParquet(wideRows, wide))
+    expect(schema.slice(1).map(({ name, type, converted_type, precision, scale }) =>
+      ({ name, type, converted_type, precision, scale }))).toEqual([
+      { name: 'Id', type: 'INT64', converted_type: undefined, precision: undefined, scale: undefined },
+      { name: 'Amount', type: 'INT64', converted_type: 'DECIMAL', precision: 18, scale: 2 },
+      { name: 'PlacedAt', type: 'INT64', converted_type: 'TIMESTAMP_MILLIS', precision: undefined, scale: undefined },
+      { name: 'Ratio', type: 'DOUBLE', converted_type: undefined, precision: undefined, scale: undefined },
+      { name: 'Balance', type: 'FIXED_LEN_BYTE_ARRAY', converted_type: 'DECIMAL', precision: 38, scale: 4 },
+      { name: 'Active', type: 'BOOLEAN', converted_type: undefined, precision: undefined, scale: undefined },
+    ])
+    expect(schema.slice(1).every(element => element.repetition_type === 'OPTIONAL')).toBe(true)
+  })
+
+  // hyparquet reads decimals back as floats; their exact digits are covered by toColumns above
+  it('reads back the values it wrote', async () => {
+    const [first, second] = await parquetReadObjects({ file: await toParquet(wideRows, wide) })
+    expect(first).toEqual({
+      Id: 9007199254740993n,
+      Amount: 12345678901234.56,
+      PlacedAt: new Date(Date.UTC(2026, 2, 1, 10, 30)),
+      Ratio: 0.5,
+      Balance: expect.closeTo(1.2345678901234568e23, -9),
+      Active: true,
+    })
+    // -0.015 rounds half away from zero at scale 2; the naive datetime is read as UTC
+    expect(second).toEqual({
+      Id: 2n,
+      Amount: -0.02,
+      PlacedAt: new Date(Date.UTC(2026, 2, 1, 23, 0, 0, 123)),
+      Ratio: null,
+      Balance: null,
+      Active: null,
+    })
+  })
+})
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest'
+import type { ChatMessage, Conversation } from '@shared/types/chat'
+import {
+  buildBranchContext,
+  buildConversationTree,
+  copyTranscriptToBranch,
+  countBranches,
+  createBranchTitle,
+  filterConversationTree,
+  getBranchTranscript,
+} from '../conversationBranching'
+
+const message = (id: string, type: ChatMessage['type'], content: string, extra: Partial<ChatMessage> = {}): ChatMessage => ({
+  id,
+  conversationId: 'c1',
+  type,
+  content,
+  timestamp: new Date('2026-10-19T08:00:00Z'),
+  status: 'delivered',
+  ...extra,
+})
+
+const conversation = (id: string, title: string, createdAt: string, parentConversationId?: string): Conversation => ({
+  id,
+  title,
+  createdAt: new Date(createdAt),
+  updatedAt: new Date(createdAt),
+  messageCount: 0,
+  isActive: false,
+  tags: [],
+  userId: 'u1',
+  context: { queryHistory: [], commonPatterns: [] },
+  ...(parentConversationId && {
+    branch: {
+      parentConversationId,
+      rootConversationId: parentConversationId,
+      forkedFromMessageId: 'm',
+      createdAt: new Date(createdAt),
+    },
+  }),
+})
+
+// Two questions, each answered; a retry of the second question forms a sibling thread
+const thread = [
+  message('user-1', 'user', 'Revenue by region'),
+  message('msg-1', 'assistant', 'Here is revenue', { parentMessageId: 'user-1', sql: 'SELECT 1' }),
+  message('user-2', 'user', 'Only EMEA', { parentMessageId: 'msg-1' }),
+  message('msg-2', 'assistant', 'EMEA revenue', { parentMessageId: 'user-2', sql: 'SELECT 2' }),
+  message('user-3', 'user', 'Only APAC instead', { parentMessageId: 'msg-1' }),
+  message('msg-3', 'assistant', 'APAC revenue', {
+    parentMessageId: 'user-3',
+    sql: 'SELECT 3',
+    resultMetadata: {
+      executionTime: 5,
+      rowCount: 1,
+      columnCount: 1,
+      queryComplexity: 'Simple',
+      tablesUsed: ['dbo.Sales'],
+      estimatedCost: 0,
+    },
+  }),
+]
+
+describe('getBranchTranscript', () => {
+  it('follows parent links back to the root, leaving sibling threads out', () => {
+    expect(getBranchTranscript(thread, 'msg-3').map(m => m.id)).toEqual(['user-1', 'msg-1', 'user-3', 'msg-3'])
+    expect(getBranchTranscript(thread, 'msg-2').map(m => m.id)).toEqual(['user-1', 'msg-1', 'user-2', 'msg-2'])
+  })
+
+  it('falls back to list order for unlinked messages and ignores unknown ids', () => {
+    const unlinked = thread.map(({ parentMessageId: _parent, ...rest }) => rest)
+    expect(getBranchTranscript(unlinked, 'user-2').map(m => m.id)).toEqual(['user-1', 'msg-1', 'user-2'])
+    expect(getBranchTranscript(thread, 'missing')).toEqual([])
+  })
+
+  it('stops on parent cycles', () => {
+    const cyclic = [message('a', 'user', 'a', { parentMessageId: 'b' }), message('b', 'assistant', 'b', { parentMessageId: 'a' })]
+    expect(getBranchTranscript(cyclic, 'b').map(m => m.id)).toEqual(['a', 'b'])
+  })
+})
+
+describe('buildBranchContext', () => {
+  it('adds the tables, questions and last SQL the transcript used', () => {
+    const context = buildBranchContext(
+      { queryHistory: ['Older question', 'Revenue by region'], commonPatterns: [], selectedTables: ['dbo.Regions'] },
+      getBranchTranscript(thread, 'msg-3')
+    )
+    expect(context.selectedTables).toEqual(['dbo.Regions', 'dbo.Sales'])
+    expect(context.queryHistory).toEqual(['Only APAC instead', 'Revenue by region', 'Older question'])
+    expect(context.lastSuccessfulQuery).toBe('SELECT 3')
+  })
+})
+
+describe('copyTranscriptToBranch', () => {
+  it('keeps ids but moves the messages to the fork', () => {
+    const copied = copyTranscriptToBranch(getBranchTranscript(thread, 'msg-1'), 'fork')
+    expect(copied.map(m => [m.id, m.conversationId])).toEqual([['user-1', 'fork'], ['msg-1', 'fork']])
+  })
+})
+
+describe('createBranchTitle', () => {
+  it('uses the label when there is one', () => {
+    expect(createBranchTitle('Revenue', ' APAC ')).toBe('Revenue › APAC')
+    expect(createBranchTitle('Revenue')).toBe('Revenue (branch)')
+  })
+})
+
+describe('conversation trees', () => {
+  const conversations = [
+    conversation('root', 'Revenue', '2026-10-01'),
+    conversation('late', 'Revenue › APAC', '2026-10-03', 'root'),
+    conversation('early', 'Revenue › EMEA', '2026-10-02', 'root'),
+    conversation('nested', 'Revenue › EMEA › UK', '2026-10-04', 'early'),
+    conversation('orphan', 'Orphaned branch', '2026-10-05', 'deleted'),
+  ]
+
+  it('nests branches under their parents in creation order and keeps orphans as roots', () => {
+    const tree = buildConversationTree(conversations)
+    expect(tree.map(node => node.conversation.id)).toEqual(['root', 'orphan'])
+    expect(tree[0]!.children.map(node => node.conversation.id)).toEqual(['early', 'late'])
+    expect(tree[0]!.children[0]!.children[0]).toMatchObject({ conversation: { id: 'nested' }, depth: 2 })
+    expect(countBranches(tree)).toBe(5)
+  })
+
+  it('keeps the ancestors of matching branches when filtering', () => {
+    const filtered = filterConversationTree(buildConversationTree(conversations), c => c.title.endsWith('UK'))
+    expect(filtered).toHaveLength(1)
+    expect(filtered[0]!.children.map(node => node.conversation.id)).toEqual(['early'])
+    expect(filtered[0]!.children[0]!.children.map(node => node.conversation.id)).toEqual(['nested'])
+  })
+})
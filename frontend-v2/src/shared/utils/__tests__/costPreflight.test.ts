@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest'
+import { BudgetPeriod, type BudgetManagement } from '@shared/types/cost'
+import type { LLMModelConfig } from '@shared/store/api/llmManagementApi'
+import { checkBudgets, estimateQueryComplexity, suggestCheaperModel } from '../costPreflight'
+
+const NOW = new Date('2024-06-15T12:00:00.000Z')
+
+const budget = (overrides: Partial<BudgetManagement> = {}): BudgetManagement => ({
+  id: 'b1',
+  name: 'Monthly',
+  type: 'User',
+  entityId: 'u1',
+  budgetAmount: 100,
+  spentAmount: 70,
+  remainingAmount: 30,
+  period: BudgetPeriod.Monthly,
+  startDate: '2024-06-01T00:00:00.000Z',
+  endDate: '2024-06-30T23:59:59.000Z',
+  alertThreshold: 80,
+  blockThreshold: 100,
+  isActive: true,
+  createdAt: '2024-06-01T00:00:00.000Z',
+  updatedAt: '2024-06-01T00:00:00.000Z',
+  ...overrides,
+})
+
+const model = (modelId: string, costPerToken: number, overrides: Partial<LLMModelConfig> = {}): LLMModelConfig => ({
+  modelId,
+  providerId: 'openai',
+  name: modelId,
+  displayName: modelId,
+  temperature: 0.1,
+  maxTokens: 4000,
+  topP: 1,
+  frequencyPenalty: 0,
+  presencePenalty: 0,
+  isEnabled: true,
+  costPerToken,
+  ...overrides,
+})
+
+describe('estimateQueryComplexity', () => {
+  it('grows with the analytical work a question asks for', () => {
+    expect(estimateQueryComplexity('Show all customers')).toBe('simple')
+    expect(estimateQueryComplexity('Show revenue by region')).toBe('medium')
+    expect(estimateQueryComplexity('Compare the top 10 products by revenue trend year over year')).toBe('very_complex')
+  })
+})
+
+describe('checkBudgets', () => {
+  it('warns past the alert threshold and blocks past the block threshold', () => {
+    expect(checkBudgets([budget()], 5, NOW).level).toBe('ok')
+    expect(checkBudgets([budget()], 15, NOW)).toMatchObject({
+      level: 'warn',
+      limiting: { projectedUsagePercentage: 85, remainingAfter: 15 },
+    })
+    expect(checkBudgets([budget()], 30, NOW).level).toBe('block')
+  })
+
+  it('ignores inactive and out-of-period budgets and reports the tightest one', () => {
+    const result = checkBudgets(
+      [
+        budget({ id: 'loose', budgetAmount: 1000 }),
+        budget({ id: 'tight', spentAmount: 95 }),
+        budget({ id: 'inactive', spentAmount: 100, isActive: false }),
+        budget({ id: 'expired', spentAmount: 100, endDate: '2024-05-31T00:00:00.000Z' }),
+      ],
+      2,
+      NOW
+    )
+    expect(result.checks.map(check => check.budget.id)).toEqual(['tight', 'loose'])
+    expect(result.limiting?.budget.id).toBe('tight')
+    expect(result.level).toBe('warn')
+  })
+
+  it('passes when no budget applies', () => {
+    expect(checkBudgets([], 50, NOW)).toEqual({ level: 'ok', estimatedCost: 50, checks: [] })
+  })
+})
+
+describe('suggestCheaperModel', () => {
+  const prediction = { estimatedCost: 30, estimatedTokens: 1000 }
+  const models = [
+    model('gpt-4', 0.03),
+    model('gpt-4o-mini', 0.001),
+    model('gpt-3.5', 0.005),
+    model('disabled', 0.0001, { isEnabled: false }),
+  ]
+
+  it('suggests the least downgrade that clears the budget', () => {
+    const suggestion = suggestCheaperModel(models, prediction, [budget()], NOW)
+    expect(suggestion?.model.modelId).toBe('gpt-3.5')
+    expect(suggestion).toMatchObject({ estimatedCost: 5, savings: 25, level: 'ok' })
+  })
+
+  it('suggests nothing when no cheaper model improves the outcome', () => {
+    expect(suggestCheaperModel(models, prediction, [budget({ spentAmount: 100 })], NOW)).toBeUndefined()
+    expect(suggestCheaperModel(models, { estimatedCost: 1, estimatedTokens: 1000 }, [budget()], NOW)).toBeUndefined()
+  })
+})
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest'
+import type { BusinessDomain, EnhancedBusinessGlossaryTerm, GlossaryTermRelationship } from '@shared/store/api/businessApi'
+import {
+  buildGlossaryGraph,
+  describePathStep,
+  filterGlossaryGraph,
+  findGlossaryPath,
+  glossaryLayers,
+  neighbourhood,
+  termNodeId,
+} from '../glossaryGraph'
+
+const relationship = (
+  id: number,
+  relatedTermId: number,
+  relatedTermName: string,
+  relationshipType: GlossaryTermRelationship['relationshipType']
+): GlossaryTermRelationship => ({ id, relatedTermId, relatedTermName, relationshipType, description: '' })
+
+const term = (id: number, name: string, overrides: Partial<EnhancedBusinessGlossaryTerm> = {}) =>
+  ({
+    id,
+    term: name,
+    definition: '',
+    domain: '',
+    mappedTables: [],
+    mappedColumns: [],
+    hierarchicalRelations: [],
+    relationships: [],
+    ...overrides,
+  }) as unknown as EnhancedBusinessGlossaryTerm
+
+const domain = (id: number, name: string, subDomains: BusinessDomain[] = []) =>
+  ({ id, name, description: '', subDomains }) as unknown as BusinessDomain
+
+const terms = [
+  term(1, 'ARPU', {
+    domain: 'Revenue',
+    relationships: [relationship(10, 2, 'Revenue', 'partOf')],
+  }),
+  term(2, 'Revenue', {
+    domain: 'Revenue',
+    relationships: [relationship(11, 1, 'ARPU', 'hasA')],
+    mappedTables: ['dbo.tbl_daily_actions'],
+  }),
+  term(3, 'Deposits', {
+    domain: 'Payments',
+    mappedTables: ['tbl_daily_actions'],
+    mappedColumns: ['dbo.tbl_daily_actions.deposits'],
+  }),
+  term(4, 'Chargebacks', { relationships: [relationship(12, 99, 'Unknown', 'related')] }),
+]
+
+const domains = [domain(1, 'Finance', [domain(2, 'Revenue'), domain(3, 'Payments')])]
+
+describe('buildGlossaryGraph', () => {
+  const graph = buildGlossaryGraph(terms, domains)
+
+  it('links terms, domains, tables and columns', () => {
+    expect(graph.nodes.map(node => node.id).sort()).toEqual([
+      'column:tbl_daily_actions.deposits',
+      'domain:finance',
+      'domain:payments',
+      'domain:revenue',
+      'table:tbl_daily_actions',
+      'term:1',
+      'term:2',
+      'term:3',
+      'term:4',
+    ])
+    expect(graph.edges.filter(edge => edge.type === 'subDomainOf')).toHaveLength(2)
+    expect(graph.edges.filter(edge => edge.type === 'mapsToTable').map(edge => edge.source)).toEqual(['term:2', 'term:3'])
+  })
+
+  it('stores a relationship and its inverse as one editable edge', () => {
+    const termEdges = graph.edges.filter(edge => edge.relationshipId !== undefined)
+    expect(termEdges).toEqual([
+      { id: 'partOf:term:1>term:2', source: 'term:1', target: 'term:2', type: 'partOf', relationshipId: 10 },
+    ])
+  })
+})
+
+describe('graph navigation', () => {
+  const graph = buildGlossaryGraph(terms, domains)
+
+  it('explains how two terms are connected', () => {
+    const path = findGlossaryPath(graph, termNodeId(1), termNodeId(3))
+    expect(path?.map(describePathStep)).toEqual([
+      'ARPU is part of Revenue',
+      'Revenue maps to table dbo.tbl_daily_actions',
+      'Deposits maps to table dbo.tbl_daily_actions',
+    ])
+    expect(findGlossaryPath(graph, termNodeId(1), termNodeId(4))).toBeNull()
+  })
+
+  it('expands neighbourhoods hop by hop', () => {
+    expect([...neighbourhood(graph, [termNodeId(3)], 1)].sort()).toEqual([
+      'column:tbl_daily_actions.deposits',
+      'domain:payments',
+      'table:tbl_daily_actions',
+      'term:3',
+    ])
+    expect(neighbourhood(graph, [termNodeId(3)], 2).has(termNodeId(2))).toBe(true)
+  })
+
+  it('layers domains above terms, parents above their parts, and tables below', () => {
+    const layers = glossaryLayers(graph)
+    expect(layers.get('domain:finance')).toBe(0)
+    expect(layers.get(termNodeId(2))).toBe(1)
+    expect(layers.get(termNodeId(1))).toBe(2)
+    expect(layers.get('table:tbl_daily_actions')).toBe(3)
+    expect(layers.get('column:tbl_daily_actions.deposits')).toBe(4)
+  })
+
+  it('filters by relationship type and node kind', () => {
+    const filtered = filterGlossaryGraph(graph, ['partOf', 'hasA'], ['term'])
+    expect(filtered.nodes).toHaveLength(4)
+    expect(filtered.edges.map(edge => edge.type)).toEqual(['partOf'])
+  })
+})
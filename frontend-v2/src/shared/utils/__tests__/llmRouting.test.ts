@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest'
+import type {
+  LLMModelConfig,
+  LLMProviderConfig,
+  LLMProviderStatus,
+  LLMRoutingPolicy,
+  LLMRoutingRule,
+} from '@shared/store/api/llmManagementApi'
+import { routeRequest, validateRoutingPolicy, type RoutingContext, type RoutingRequest } from '../llmRouting'
+
+const provider = (providerId: string, isEnabled = true) =>
+  ({ providerId, name: providerId, type: 'openai', isEnabled, isDefault: false }) as LLMProviderConfig
+
+const model = (modelId: string, providerId: string, costPerToken: number, isEnabled = true) =>
+  ({ modelId, providerId, name: modelId, displayName: modelId, isEnabled, costPerToken }) as LLMModelConfig
+
+const health = (providerId: string, status: LLMProviderStatus['status'], responseTime?: number): LLMProviderStatus => ({
+  providerId,
+  isHealthy: status === 'healthy',
+  status,
+  lastChecked: '2026-10-19T08:00:00Z',
+  ...(responseTime !== undefined && { responseTime }),
+})
+
+const rule = (overrides: Partial<LLMRoutingRule>): LLMRoutingRule => ({
+  id: 'rule',
+  name: 'Rule',
+  isEnabled: true,
+  conditions: {},
+  modelChain: [],
+  strategy: 'ordered',
+  latencyWeight: 50,
+  costWeight: 50,
+  ...overrides,
+})
+
+const context: RoutingContext = {
+  providers: [provider('openai'), provider('anthropic'), provider('local', false)],
+  models: [
+    model('gpt-4', 'openai', 0.00003),
+    model('gpt-4o-mini', 'openai', 0.000001),
+    model('claude', 'anthropic', 0.000015),
+    model('llama', 'local', 0),
+  ],
+  health: [health('openai', 'healthy', 800), health('anthropic', 'healthy', 400)],
+}
+
+const request: RoutingRequest = { useCase: 'analysis', complexity: 'complex', roles: ['Analyst'], budgetState: 'ok' }
+
+const policy: LLMRoutingPolicy = {
+  avoidDegraded: true,
+  defaultChain: ['gpt-4o-mini'],
+  rules: [
+    rule({ id: 'budget', name: 'Budget squeeze', conditions: { budgetStates: ['warn', 'block'] }, modelChain: ['gpt-4o-mini'] }),
+    rule({ id: 'analysis', name: 'Complex analysis', conditions: { useCases: ['analysis'], complexities: ['complex', 'very_complex'] }, modelChain: ['gpt-4', 'claude'] }),
+  ],
+}
+
+describe('routeRequest', () => {
+  it('routes by the first matching rule', () => {
+    expect(routeRequest(policy, request, context)).toMatchObject({ rule: { id: 'analysis' }, model: { modelId: 'gpt-4' }, usedFallback: false })
+    expect(routeRequest(policy, { ...request, budgetState: 'warn' }, context).rule?.id).toBe('budget')
+    const unmatched = routeRequest(policy, { ...request, complexity: 'simple' }, context)
+    expect(unmatched.rule).toBeUndefined()
+    expect(unmatched.model?.modelId).toBe('gpt-4o-mini')
+  })
+
+  it('falls back past offline providers and prefers healthy over degraded ones', () => {
+    const offline = routeRequest(policy, request, { ...context, health: [health('openai', 'offline'), health('anthropic', 'healthy')] })
+    expect(offline.model?.modelId).toBe('claude')
+    expect(offline.usedFallback).toBe(true)
+    expect(offline.candidates.map(candidate => [candidate.modelId, candidate.status, candidate.reason])).toEqual([
+      ['gpt-4', 'skipped', 'openai is offline'],
+      ['claude', 'selected', 'anthropic is healthy'],
+    ])
+
+    const degraded = { ...context, health: [health('openai', 'degraded'), health('anthropic', 'healthy')] }
+    expect(routeRequest(policy, request, degraded).model?.modelId).toBe('claude')
+    expect(routeRequest({ ...policy, avoidDegraded: false }, request, degraded).model?.modelId).toBe('gpt-4')
+  })
+
+  it('skips disabled providers and leaves the request unrouted when the chain runs out', () => {
+    const local = { ...policy, rules: [rule({ modelChain: ['llama', 'missing'] })] }
+    const decision = routeRequest(local, request, context)
+    expect(decision.model).toBeUndefined()
+    expect(decision.candidates.map(candidate => candidate.reason)).toEqual(['local is disabled', 'Model no longer exists'])
+  })
+
+  it('trades latency against cost in weighted rules', () => {
+    const weighted = (latencyWeight: number, costWeight: number) => ({
+      ...policy,
+      rules: [rule({ strategy: 'weighted', modelChain: ['gpt-4', 'claude', 'gpt-4o-mini'], latencyWeight, costWeight })],
+    })
+    const fastClaude = { ...context, health: [health('openai', 'healthy', 2000), health('anthropic', 'healthy', 200)] }
+    expect(routeRequest(weighted(100, 0), request, fastClaude).model?.modelId).toBe('claude')
+    expect(routeRequest(weighted(0, 100), request, fastClaude).model?.modelId).toBe('gpt-4o-mini')
+    expect(routeRequest(weighted(0, 100), request, fastClaude).usedFallback).toBe(false)
+  })
+})
+
+describe('validateRoutingPolicy', () => {
+  it('flags empty chains, unknown models and shadowed rules', () => {
+    const problems = validateRoutingPolicy(
+      {
+        avoidDegraded: true,
+        defaultChain: [],
+        rules: [
+          rule({ name: 'Analysts', conditions: { roles: ['Analyst'] }, modelChain: ['gpt-4'] }),
+          rule({ name: 'Analyst analysis', conditions: { roles: ['analyst'], useCases: ['analysis'] }, modelChain: ['gpt-5'] }),
+          rule({ name: 'Weighted', strategy: 'weighted', latencyWeight: 0, costWeight: 0, modelChain: ['claude'] }),
+        ],
+      },
+      context.models
+    )
+    expect(problems).toEqual([
+      'The default chain is empty, so unmatched requests have no model',
+      'Analyst analysis uses unknown model gpt-5',
+      'Analyst analysis never applies: Analysts matches all its requests first',
+      'Weighted is weighted but both weights are 0',
+    ])
+  })
+})
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest'
+import type { BusinessTableInfo } from '@shared/store/api/businessApi'
+import {
+  DEFAULT_COMPLETENESS_WEIGHTS,
+  buildStewardshipQueue,
+  countTableUsage,
+  recordCompletenessSnapshot,
+  scoreMetadata,
+  scoreTable,
+} from '../metadataCompleteness'
+
+const table = (id: number, tableName: string, overrides: Partial<BusinessTableInfo> = {}) => ({
+  id,
+  schemaName: 'dbo',
+  tableName,
+  businessPurpose: '',
+  naturalLanguageAliases: [],
+  businessGlossaryTerms: [],
+  columns: [],
+  ...overrides,
+}) as unknown as BusinessTableInfo
+
+const documented = table(1, 'tbl_Daily_actions', {
+  businessPurpose: 'Daily player activity',
+  naturalLanguageAliases: ['daily actions'],
+  businessGlossaryTerms: ['GGR'],
+  columns: [
+    { id: 11, columnName: 'PlayerID', businessMeaning: 'Player identifier', isPII: false, dataExamples: ['1001'] },
+    { id: 12, columnName: 'Email', businessMeaning: '', isPII: true, dataExamples: [] },
+  ] as unknown as BusinessTableInfo['columns'],
+})
+
+const bare = table(2, 'tbl_Games', {
+  columns: [{ id: 21, columnName: 'GameID', businessMeaning: ' ', isPII: false, dataExamples: [] }] as unknown as BusinessTableInfo['columns'],
+})
+
+describe('scoreTable', () => {
+  it('weights table and column coverage', () => {
+    const score = scoreTable(documented)
+    expect(score.criteria.map(criterion => [criterion.key, criterion.populated, criterion.total])).toEqual([
+      ['businessPurpose', 1, 1],
+      ['aliases', 1, 1],
+      ['glossaryLinks', 1, 1],
+      ['columnMeanings', 1, 2],
+      ['piiReviewed', 2, 2],
+      ['examples', 1, 2],
+    ])
+    // (25 + 15 + 15 + 20 * 0.5 + 15 + 10 * 0.5) / 100
+    expect(score.score).toBe(85)
+    expect(score.missing).toEqual(['columnMeanings', 'examples'])
+  })
+
+  it('skips column criteria for tables without columns and zero-weighted criteria', () => {
+    const noColumns = table(3, 'tbl_Empty', { businessPurpose: 'Placeholder' })
+    // Purpose only: 25 of 25 + 15 + 15
+    expect(scoreTable(noColumns).score).toBe(45)
+    expect(scoreTable(noColumns, { ...DEFAULT_COMPLETENESS_WEIGHTS, aliases: 0, glossaryLinks: 0 }).score).toBe(100)
+  })
+})
+
+describe('scoreMetadata', () => {
+  it('averages table scores and pools coverage across tables', () => {
+    const completeness = scoreMetadata([documented, bare])
+    expect(completeness.average).toBe(43)
+    expect(completeness.criteria.find(criterion => criterion.key === 'columnMeanings')).toMatchObject({ populated: 1, total: 3, coverage: 33 })
+  })
+})
+
+describe('countTableUsage', () => {
+  it('matches qualified, bracketed and bare table names once per query', () => {
+    const usage = countTableUsage(
+      [
+        { sql: 'SELECT * FROM [dbo].[tbl_Daily_actions] d JOIN dbo.tbl_Games g ON g.GameID = d.GameID' },
+        { sql: 'select count(*) from TBL_DAILY_ACTIONS where 1 = 1 union all select 1 from tbl_daily_actions' },
+        { sql: 'SELECT * FROM tbl_Games_history' },
+        { sql: '' },
+      ],
+      [documented, bare]
+    )
+    expect(usage).toEqual({ 1: 2, 2: 1 })
+  })
+})
+
+describe('buildStewardshipQueue', () => {
+  it('ranks tables below the threshold by gap scaled with usage', () => {
+    const scores = scoreMetadata([documented, bare, table(4, 'tbl_Bonus')]).tables
+    const queue = buildStewardshipQueue(scores, { 2: 0, 4: 7 }, 90)
+    expect(queue.map(item => [item.tableName, item.usage])).toEqual([
+      ['tbl_Bonus', 7],
+      ['tbl_Games', 0],
+      ['tbl_Daily_actions', 0],
+    ])
+    expect(queue[0]!.priority).toBe(400)
+  })
+})
+
+describe('recordCompletenessSnapshot', () => {
+  it('keeps one snapshot per day in date order', () => {
+    const history = recordCompletenessSnapshot(
+      [
+        { date: '2026-10-02', average: 50, queueSize: 9, coverage: {} },
+        { date: '2026-10-01', average: 40, queueSize: 10, coverage: {} },
+      ],
+      { date: '2026-10-02', average: 55, queueSize: 8, coverage: {} }
+    )
+    expect(history.map(entry => [entry.date, entry.average])).toEqual([['2026-10-01', 40], ['2026-10-02', 55]])
+  })
+})
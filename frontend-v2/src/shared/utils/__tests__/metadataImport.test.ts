@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest'
+import * as XLSX from 'xlsx'
+import type { BusinessTableInfo, EnhancedBusinessGlossaryTerm } from '@shared/store/api/businessApi'
+import {
+  diffImport,
+  parseWorkbook,
+  suggestImportMapping,
+  toUpdateColumnRequest,
+  toUpdateTableRequest,
+  type ParsedSheet,
+} from '../metadataImport'
+
+const tables = [
+  {
+    id: 1,
+    schemaName: 'dbo',
+    tableName: 'tbl_Daily_actions',
+    businessPurpose: 'Daily player activity',
+    businessContext: '',
+    naturalLanguageAliases: ['daily actions'],
+    isActive: true,
+    columns: [
+      { id: 11, columnName: 'PlayerID', businessMeaning: 'Player identifier', isKeyColumn: true, isPII: false, dataExamples: [] },
+      { id: 12, columnName: 'Email', businessMeaning: '', isKeyColumn: false, isPII: true, dataExamples: [] },
+    ],
+  },
+] as unknown as BusinessTableInfo[]
+
+const glossary = [{ id: 5, term: 'ARPU', definition: 'Average revenue per user' }] as unknown as EnhancedBusinessGlossaryTerm[]
+
+const sheet = (headers: string[], rows: string[][]): ParsedSheet => ({ name: 'Sheet1', headers, rows })
+
+describe('parseWorkbook', () => {
+  it('reads CSV and keeps blank cells aligned with their headers', () => {
+    const workbook = XLSX.read('Schema,Table,Purpose\ndbo,tbl_Daily_actions,\n,,\ndbo,tbl_Games,Game catalogue', { type: 'string' })
+    expect(parseWorkbook(workbook)).toEqual([
+      {
+        name: 'Sheet1',
+        headers: ['Schema', 'Table', 'Purpose'],
+        rows: [['dbo', 'tbl_Daily_actions', ''], ['dbo', 'tbl_Games', 'Game catalogue']],
+      },
+    ])
+  })
+})
+
+describe('suggestImportMapping', () => {
+  it('matches headers on field names, labels and aliases', () => {
+    expect(suggestImportMapping(['Schema', 'Table Name', 'Description', 'Keywords', 'Owner'], 'table')).toEqual({
+      schemaName: 'Schema',
+      tableName: 'Table Name',
+      businessPurpose: 'Description',
+      vectorSearchKeywords: 'Keywords',
+    })
+  })
+})
+
+describe('diffImport', () => {
+  it('diffs table rows, leaving blank cells unchanged', () => {
+    const rows = sheet(
+      ['Schema', 'Table', 'Purpose', 'Aliases', 'Active'],
+      [
+        ['DBO', 'tbl_daily_actions', '', 'daily actions; activity', 'no'],
+        ['dbo', 'tbl_Games', 'Game catalogue', '', ''],
+        ['dbo', 'tbl_Bonus', '', '', 'maybe'],
+        ['dbo', 'tbl_Games', 'Again', '', ''],
+      ]
+    )
+    const changes = diffImport(rows, suggestImportMapping(rows.headers, 'table'), 'table', { tables, glossary })
+
+    expect(changes.map(change => [change.rowNumber, change.action])).toEqual([[2, 'update'], [3, 'create'], [4, 'invalid'], [5, 'invalid']])
+    expect(changes[0]!.changes).toEqual([
+      { field: 'naturalLanguageAliases', label: 'Aliases', before: ['daily actions'], after: ['daily actions', 'activity'] },
+      { field: 'isActive', label: 'Active', before: true, after: false },
+    ])
+    expect(changes[0]!.warnings).toEqual(['Deactivates an existing entry'])
+    expect(changes[2]!.errors).toEqual(['Active must be yes or no, not "maybe"', 'Business purpose is required for new entries'])
+    expect(changes[3]!.errors).toEqual(['Duplicates row 3'])
+  })
+
+  it('only describes columns that exist', () => {
+    const rows = sheet(
+      ['Schema', 'Table', 'Column', 'Meaning', 'PII'],
+      [
+        ['dbo', 'tbl_Daily_actions', 'email', 'Contact address', 'yes'],
+        ['dbo', 'tbl_Daily_actions', 'Missing', 'x', ''],
+        ['dbo', 'tbl_Unknown', 'Id', 'x', ''],
+      ]
+    )
+    const changes = diffImport(rows, suggestImportMapping(rows.headers, 'column'), 'column', { tables, glossary })
+
+    expect(changes[0]).toMatchObject({ action: 'update', tableId: 1, targetId: 12 })
+    expect(changes[0]!.changes.map(change => change.field)).toEqual(['businessMeaning'])
+    expect(changes[1]!.errors).toEqual(["Column Missing isn't in dbo.tbl_Daily_actions"])
+    expect(changes[2]!.errors[0]).toContain('import it as a table first')
+    expect(toUpdateColumnRequest(tables[0]!.columns[1]!, changes[0]!)).toEqual({ columnName: 'Email', businessMeaning: 'Contact address' })
+  })
+
+  it('matches glossary terms by name', () => {
+    const rows = sheet(['Term', 'Definition'], [['arpu', 'Average revenue per user'], ['Deposits', '']])
+    const changes = diffImport(rows, suggestImportMapping(rows.headers, 'glossary'), 'glossary', { tables, glossary })
+    expect(changes.map(change => change.action)).toEqual(['unchanged', 'invalid'])
+    expect(changes[1]!.errors).toEqual(['Definition is required for new entries'])
+  })
+})
+
+describe('toUpdateTableRequest', () => {
+  it('keeps fields the sheet leaves out', () => {
+    const request = toUpdateTableRequest(tables[0]!, { businessContext: 'Finance' })
+    expect(request).toMatchObject({ businessPurpose: 'Daily player activity', businessContext: 'Finance', isActive: true })
+    expect(request.naturalLanguageAliases).toEqual(['daily actions'])
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+import type { ChatMessage } from '@shared/types/chat'
+import {
+  checkQueuedQuestion,
+  createQueuedQuestion,
+  joinResults,
+  resultsToEvict,
+  splitResults,
+  type CachedResult,
+} from '../offlineQueue'
+
+const T0 = Date.parse('2024-03-01T09:00:00.000Z')
+const at = (minutes: number) => new Date(T0 + minutes * 60 * 1000).toISOString()
+
+const message = (id: string, minutes: number, overrides: Partial<ChatMessage> = {}): ChatMessage => ({
+  id,
+  conversationId: 'c1',
+  type: 'user',
+  content: id,
+  timestamp: new Date(at(minutes)),
+  status: 'delivered',
+  ...overrides,
+})
+
+describe('createQueuedQuestion', () => {
+  it('remembers the last message that was not itself queued', () => {
+    const transcript = [message('m1', 0), message('m2', 1, { type: 'assistant' }), message('q0', 2, { status: 'queued' })]
+    expect(createQueuedQuestion({ messageId: 'q1', query: 'Sales?', queuedAt: at(3) }, transcript, 'c1')).toEqual({
+      messageId: 'q1',
+      query: 'Sales?',
+      queuedAt: at(3),
+      conversationId: 'c1',
+      lastMessageId: 'm2',
+    })
+  })
+})
+
+describe('checkQueuedQuestion', () => {
+  const item = { messageId: 'q1', query: 'Total sales by region', queuedAt: at(10), conversationId: 'c1', lastMessageId: 'm1' }
+
+  it('has nothing to say when nothing changed', () => {
+    const transcript = [message('m1', 0), message('q1', 10, { status: 'queued' })]
+    expect(checkQueuedQuestion(item, transcript, { now: new Date(T0 + 20 * 60 * 1000) })).toEqual({ conflicts: [] })
+  })
+
+  it('notes messages that arrived after queuing and a schema refresh', () => {
+    const transcript = [message('m1', 0), message('q1', 10, { status: 'queued' }), message('m2', 15, { content: 'Churn?' })]
+    const { conflicts } = checkQueuedQuestion(item, transcript, {
+      schemaUpdatedAt: at(12),
+      now: new Date(T0 + 20 * 60 * 1000),
+    })
+    expect(conflicts).toHaveLength(2)
+    expect(conflicts[0]).toMatch(/1 message arrived/)
+    expect(conflicts[1]).toMatch(/schema was refreshed/)
+  })
+
+  it('spots the same question asked again after queuing', () => {
+    const transcript = [message('m1', 0), message('m2', 15, { content: '  total SALES by region ' })]
+    expect(checkQueuedQuestion(item, transcript).duplicateOf?.id).toBe('m2')
+  })
+
+  it('notes long-queued questions and a missing predecessor', () => {
+    const { conflicts } = checkQueuedQuestion(item, [message('other', 0)], { now: new Date(T0 + 30 * 60 * 60 * 1000) })
+    expect(conflicts[0]).toMatch(/no longer in the conversation/)
+    expect(conflicts[1]).toMatch(/Queued 29 hours ago/)
+  })
+})
+
+describe('cached results', () => {
+  it('splits result rows out of a transcript and puts them back', () => {
+    const transcript = [
+      message('m1', 0),
+      message('a1', 1, { type: 'assistant', results: [{ region: 'EU', total: 10 }] }),
+    ]
+    const { messages, results } = splitResults(transcript, 'c1')
+    expect(messages[1]).not.toHaveProperty('results')
+    expect(results).toEqual([{ messageId: 'a1', conversationId: 'c1', results: [{ region: 'EU', total: 10 }], cachedAt: at(1) }])
+    expect(joinResults(messages, results)[1]?.results).toEqual([{ region: 'EU', total: 10 }])
+  })
+
+  it('evicts the oldest answers past the limit', () => {
+    const cached: CachedResult[] = [3, 1, 4, 2].map(minutes => ({ messageId: `a${minutes}`, results: [], cachedAt: at(minutes) }))
+    expect(resultsToEvict(cached, 2)).toEqual(['a1', 'a2'])
+    expect(resultsToEvict(cached, 10)).toEqual([])
+  })
+})
@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest'
+import type { BusinessColumnInfo, BusinessTableInfo } from '@shared/store/api/businessApi'
+import {
+  REDACTED,
+  hashText,
+  hashValues,
+  maskRecords,
+  maskRecordsHashed,
+  maskRowArrays,
+  maskValue,
+  resolveMaskingPolicy,
+  resolvePiiColumns,
+} from '../piiMasking'
+
+const column = (columnName: string, isPII = false): BusinessColumnInfo => ({
+  id: 0,
+  columnName,
+  dataType: 'nvarchar',
+  businessMeaning: '',
+  dataExamples: [],
+  isKeyColumn: false,
+  isPII,
+  businessRules: '',
+  validationRules: [],
+  semanticTags: [],
+  llmContextHints: [],
+})
+
+const table = (tableName: string, columns: BusinessColumnInfo[]) =>
+  ({ id: 0, schemaName: 'dbo', tableName, columns }) as unknown as BusinessTableInfo
+
+const tables = [
+  table('Customers', [column('CustomerId'), column('Email', true), column('FullName', true), column('Country'), column('Ssn', true)]),
+  table('Orders', [column('OrderId'), column('CustomerId'), column('Email'), column('Total')]),
+  table('Products', [column('ProductId'), column('Name')]),
+]
+
+describe('resolvePiiColumns', () => {
+  it('follows aliases and expressions back to the business columns', () => {
+    const sql = `
+      SELECT c.Email AS Contact, UPPER(c.FullName) AS Name, o.Email AS OrderEmail, COUNT(c.Email) AS Customers
+      FROM dbo.Customers c JOIN Orders o ON o.CustomerId = c.CustomerId
+      GROUP BY c.Email, c.FullName, o.Email`
+    expect(resolvePiiColumns(['Contact', 'Name', 'OrderEmail', 'Customers'], tables, sql)).toEqual([
+      { column: 'Contact', sources: ['dbo.Customers.Email'] },
+      { column: 'Name', sources: ['dbo.Customers.FullName'] },
+    ])
+  })
+
+  it('expands stars to the PII columns of the tables they cover', () => {
+    const sql = 'SELECT o.*, c.* FROM Orders o JOIN Customers c ON c.CustomerId = o.CustomerId'
+    expect(resolvePiiColumns(['OrderId', 'Email', 'FullName', 'Country'], tables, sql).map(pii => pii.column))
+      .toEqual(['Email', 'FullName'])
+  })
+
+  it('follows columns through CTEs and derived tables', () => {
+    expect(resolvePiiColumns(['s'], tables, 'WITH c AS (SELECT Ssn AS s FROM dbo.Customers) SELECT s FROM c'))
+      .toEqual([{ column: 's', sources: ['dbo.Customers.Ssn'] }])
+    expect(resolvePiiColumns(['a'], tables, 'SELECT t.a FROM (SELECT Ssn AS a FROM dbo.Customers) t'))
+      .toEqual([{ column: 'a', sources: ['dbo.Customers.Ssn'] }])
+    expect(resolvePiiColumns(['x', 'Total'], tables, 'WITH c (x) AS (SELECT Email FROM Customers) SELECT c.*, o.Total FROM c CROSS JOIN Orders o'))
+      .toEqual([{ column: 'x', sources: ['dbo.Customers.Email'] }])
+  })
+
+  it('follows scalar subqueries', () => {
+    expect(resolvePiiColumns(['e'], tables, 'SELECT (SELECT TOP 1 Email FROM dbo.Customers) AS e'))
+      .toEqual([{ column: 'e', sources: ['dbo.Customers.Email'] }])
+  })
+
+  it('maps UNION branches onto the first branch by position', () => {
+    const sql = 'SELECT Name, ProductId FROM dbo.Products UNION SELECT Email, CustomerId FROM dbo.Customers'
+    expect(resolvePiiColumns(['Name', 'ProductId'], tables, sql)).toEqual([{ column: 'Name', sources: ['dbo.Customers.Email'] }])
+  })
+
+  it('treats columns it cannot trace as PII', () => {
+    expect(resolvePiiColumns(['Code', 'Total'], tables, 'SELECT x.Code, o.Total FROM dbo.Unknown x JOIN Orders o ON o.OrderId = x.Id'))
+      .toEqual([{ column: 'Code', sources: [] }])
+    expect(resolvePiiColumns(['Missing'], tables, 'SELECT OrderId FROM Orders')).toHaveLength(1)
+    expect(resolvePiiColumns(['', 'Orders'], tables, 'SELECT UPPER(Country), COUNT(*) AS Orders FROM Customers')).toEqual([])
+  })
+
+  it('matches on name when the SQL is missing or unparseable', () => {
+    expect(resolvePiiColumns(['email', 'Total'], tables)).toEqual([{ column: 'email', sources: ['dbo.Customers.Email'] }])
+    expect(resolvePiiColumns(['FullName'], tables, 'SELECT FullName FROM (')).toHaveLength(1)
+  })
+
+  it('treats the backend sensitive-data flag as PII', () => {
+    const flagged = [table('Staff', [{ ...column('Salary'), isSensitiveData: true }])]
+    expect(resolvePiiColumns(['Salary'], flagged, 'SELECT Salary FROM Staff')).toHaveLength(1)
+  })
+})
+
+describe('resolveMaskingPolicy', () => {
+  it('gives users the least restrictive policy among their roles', () => {
+    expect(resolveMaskingPolicy(['Viewer', 'analyst'])).toEqual({ strategy: 'hash', canReveal: false })
+    expect(resolveMaskingPolicy(['Admin', 'Viewer'])).toEqual({ strategy: 'partial', canReveal: true })
+  })
+
+  it('falls back to the default policy', () => {
+    expect(resolveMaskingPolicy(['User'])).toEqual({ strategy: 'redact', canReveal: false })
+    expect(resolveMaskingPolicy(['User'], [])).toEqual({ strategy: 'redact', canReveal: false })
+  })
+})
+
+describe('maskValue', () => {
+  it('applies each strategy', () => {
+    expect(maskValue('jane.doe@example.com', 'partial')).toBe('j*******@example.com')
+    expect(maskValue('555-123-4567', 'partial')).toBe('********4567')
+    expect(maskValue('Smith', 'partial')).toBe('****h')
+    expect(maskValue('Smith', 'full')).toBe('*****')
+    expect(maskValue('Smith', 'redact')).toBe(REDACTED)
+    expect(maskValue(null, 'full')).toBeNull()
+    expect(maskValue('Smith', 'none')).toBe('Smith')
+  })
+
+  it('hashes with an HMAC and masks in full until the hash is known', async () => {
+    const hashes = await hashValues(['Smith', 'Smyth', 'Smith'])
+    const hashOf = (text: string) => hashes.get(text)
+    expect(hashes.size).toBe(2)
+    expect(maskValue('Smith', 'hash', hashOf)).toBe(`#${await hashText('Smith')}`)
+    expect(maskValue('Smith', 'hash', hashOf)).toMatch(/^#[0-9a-f]{16}$/)
+    expect(maskValue('Smith', 'hash', hashOf)).not.toBe(maskValue('Smyth', 'hash', hashOf))
+    expect(maskValue('Smith', 'hash')).toBe('*****')
+  })
+})
+
+describe('masking rows', () => {
+  it('masks only the listed columns of records and arrays', () => {
+    expect(maskRecords([{ Email: 'a@b.io', Total: 5 }], { Email: 'redact' })).toEqual([{ Email: REDACTED, Total: 5 }])
+    expect(maskRowArrays([['a@b.io', 5]], ['Email', 'Total'], { Email: 'full' })).toEqual([['******', 5]])
+  })
+
+  it('computes the hashes before masking records for export', async () => {
+    expect(await maskRecordsHashed([{ Email: 'a@b.io', Total: 5 }], { Email: 'hash' }))
+      .toEqual([{ Email: `#${await hashText('a@b.io')}`, Total: 5 }])
+  })
+})
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest'
+import type { ProcessFlowSession, ProcessFlowStep } from '@shared/types/transparency'
+import { compareSessions, diffLines, pairSteps, stringifyStepData } from '../processFlowDiff'
+
+const step = (overrides: Partial<ProcessFlowStep>): ProcessFlowStep => ({
+  stepId: 's',
+  sessionId: 'x',
+  stepType: 'SemanticAnalysis',
+  name: 'Semantic Analysis',
+  status: 'Completed',
+  startTime: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+})
+
+const session = (overrides: Partial<ProcessFlowSession>): ProcessFlowSession => ({
+  sessionId: 'x',
+  userId: 'u1',
+  userQuery: 'Revenue by region',
+  queryType: 'Aggregation',
+  status: 'Completed',
+  startTime: '2024-01-01T00:00:00.000Z',
+  steps: [],
+  logs: [],
+  ...overrides,
+})
+
+describe('diffLines', () => {
+  it('keeps common lines and marks the changed ones', () => {
+    const diff = diffLines('SELECT Region\nFROM Sales\nGROUP BY Region', 'SELECT Region, SUM(Revenue)\nFROM Sales\nGROUP BY Region')
+    expect(diff.lines.map(line => line.type)).toEqual(['removed', 'added', 'equal', 'equal'])
+    expect(diff.added).toBe(1)
+    expect(diff.removed).toBe(1)
+    expect(diff.lines[2]).toMatchObject({ baseLine: 2, candidateLine: 2 })
+  })
+
+  it('reports identical texts as unchanged', () => {
+    expect(diffLines('a\nb', 'a\nb').changed).toBe(false)
+    expect(diffLines('', '').lines).toEqual([])
+  })
+})
+
+describe('stringifyStepData', () => {
+  it('passes strings through and indents objects', () => {
+    expect(stringifyStepData('prompt text')).toBe('prompt text')
+    expect(stringifyStepData({ a: 1 })).toBe('{\n  "a": 1\n}')
+    expect(stringifyStepData(undefined)).toBe('')
+  })
+})
+
+describe('pairSteps', () => {
+  it('lines steps up by type even when one run retried a step', () => {
+    const base = [
+      step({ stepId: 'b1', stepType: 'SemanticAnalysis', startTime: '2024-01-01T00:00:00.000Z' }),
+      step({ stepId: 'b2', stepType: 'AIGeneration', startTime: '2024-01-01T00:00:01.000Z' }),
+    ]
+    const candidate = [
+      step({ stepId: 'c1', stepType: 'SemanticAnalysis', startTime: '2024-01-01T00:00:00.000Z' }),
+      step({ stepId: 'c2', stepType: 'AIGeneration', startTime: '2024-01-01T00:00:01.000Z' }),
+      step({ stepId: 'c3', stepType: 'AIGeneration', startTime: '2024-01-01T00:00:02.000Z' }),
+    ]
+    const pairs = pairSteps(base, candidate)
+    expect(pairs.map(pair => [pair.base?.stepId, pair.candidate?.stepId])).toEqual([
+      ['b1', 'c1'],
+      ['b2', 'c2'],
+      [undefined, 'c3'],
+    ])
+    expect(pairs[2]?.key).toBe('AIGeneration:1')
+  })
+})
+
+describe('compareSessions', () => {
+  it('computes timing, token and cost deltas and the SQL diff', () => {
+    const base = session({
+      sessionId: 'a',
+      totalDurationMs: 2000,
+      generatedSQL: 'SELECT 1',
+      transparency: { sessionId: 'a', model: 'gpt-4', totalTokens: 1200, estimatedCost: 0.04 },
+      steps: [step({ stepType: 'AIGeneration', durationMs: 1500, confidence: 0.8, outputData: { sql: 'SELECT 1' } })],
+    })
+    const candidate = session({
+      sessionId: 'b',
+      userQuery: ' revenue by region ',
+      totalDurationMs: 1500,
+      generatedSQL: 'SELECT 2',
+      transparency: { sessionId: 'b', model: 'gpt-4o-mini', totalTokens: 1000, estimatedCost: 0.01 },
+      steps: [step({ stepType: 'AIGeneration', durationMs: 900, confidence: 0.85, outputData: { sql: 'SELECT 2' } })],
+    })
+
+    const comparison = compareSessions(base, candidate)
+    expect(comparison.durationDeltaMs).toBe(-500)
+    expect(comparison.totalTokensDelta).toBe(-200)
+    expect(comparison.costDelta).toBeCloseTo(-0.03, 6)
+    expect(comparison.modelChanged).toBe(true)
+    expect(comparison.sameQuestion).toBe(true)
+    expect(comparison.sqlDiff.changed).toBe(true)
+    expect(comparison.steps[0]?.durationDeltaMs).toBe(-600)
+    expect(comparison.steps[0]?.confidenceDelta).toBeCloseTo(0.05, 6)
+    expect(comparison.steps[0]?.outputDiff.changed).toBe(true)
+    expect(comparison.promptTokensDelta).toBeUndefined()
+  })
+})
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest'
+import type { ProcessFlowStep } from '@shared/types/transparency'
+import { applyStepCompleted, buildTimeline, mergeSteps } from '../processFlowTimeline'
+
+const T0 = Date.parse('2024-01-01T00:00:00.000Z')
+const at = (ms: number) => new Date(T0 + ms).toISOString()
+
+const step = (stepId: string, start: number, end: number | undefined, overrides: Partial<ProcessFlowStep> = {}): ProcessFlowStep => ({
+  stepId,
+  sessionId: 's1',
+  stepType: 'AIGeneration',
+  name: stepId,
+  status: end === undefined ? 'InProgress' : 'Completed',
+  startTime: at(start),
+  ...(end !== undefined && { endTime: at(end), durationMs: end - start }),
+  ...overrides,
+})
+
+describe('buildTimeline', () => {
+  const steps = [
+    step('semantic', 0, 100, { stepType: 'SemanticAnalysis' }),
+    // Schema retrieval and prompt building run side by side
+    step('schema', 100, 400, { stepType: 'SchemaRetrieval' }),
+    step('prompt', 100, 200, { stepType: 'PromptBuilding', tokensUsed: 50 }),
+    step('generation', 400, 900),
+    step('call-1', 400, 600, { parentStepId: 'generation', name: 'LLM call', tokensUsed: 300 }),
+    step('call-2', 600, 900, { parentStepId: 'generation', name: 'LLM call', tokensUsed: 320 }),
+  ]
+
+  it('nests sub-steps under their parent and measures offsets from the first step', () => {
+    const timeline = buildTimeline(steps)
+    expect(timeline.rows.map(row => [row.step.stepId, row.depth])).toEqual([
+      ['semantic', 0],
+      ['schema', 0],
+      ['prompt', 0],
+      ['generation', 0],
+      ['call-1', 1],
+      ['call-2', 1],
+    ])
+    expect(timeline.totalMs).toBe(900)
+    expect(timeline.rows.find(row => row.step.stepId === 'schema')).toMatchObject({ startOffsetMs: 100, endOffsetMs: 400 })
+  })
+
+  it('flags parallel steps and retries', () => {
+    const rows = buildTimeline(steps).rows
+    expect(rows.find(row => row.step.stepId === 'schema')?.concurrent).toBe(true)
+    expect(rows.find(row => row.step.stepId === 'semantic')?.concurrent).toBe(false)
+    expect(rows.find(row => row.step.stepId === 'call-2')).toMatchObject({ attempt: 2, isRetry: true })
+  })
+
+  it('follows the critical path through the longer parallel branch', () => {
+    const timeline = buildTimeline(steps)
+    const critical = timeline.rows.filter(row => row.critical).map(row => row.step.stepId)
+    expect(critical).toEqual(['semantic', 'schema', 'generation', 'call-1', 'call-2'])
+    expect(timeline.criticalPathMs).toBe(900)
+  })
+
+  it('counts tokens where they were spent', () => {
+    const withParentTotal = steps.map(item => (item.stepId === 'generation' ? { ...item, tokensUsed: 620 } : item))
+    expect(buildTimeline(withParentTotal).totalTokens).toBe(670)
+  })
+
+  it('runs in-progress steps up to now and leaves unstarted ones unplaced', () => {
+    const timeline = buildTimeline(
+      [step('semantic', 0, 100), step('schema', 100, undefined), step('later', 0, undefined, { status: 'NotStarted' })],
+      T0 + 250
+    )
+    expect(timeline.rows.find(row => row.step.stepId === 'schema')).toMatchObject({ running: true, endOffsetMs: 250 })
+    expect(timeline.rows.find(row => row.step.stepId === 'later')?.pending).toBe(true)
+  })
+})
+
+describe('applyStepCompleted', () => {
+  const event = (id: string, extra: Record<string, unknown> = {}) => ({
+    traceId: 's1',
+    step: {
+      id,
+      stepName: 'Schema Retrieval',
+      stepOrder: 2,
+      success: true,
+      confidence: 0.9,
+      tokensAdded: 120,
+      content: '',
+      details: {},
+      ...extra,
+    },
+  })
+
+  it('places an untimed step after the previous one, ending when it arrived', () => {
+    const steps = applyStepCompleted([step('semantic', 0, 100)], event('schema'), new Date(T0 + 350))
+    const added = steps[1]
+    expect(added).toMatchObject({
+      stepId: 'schema',
+      stepType: 'SchemaRetrieval',
+      status: 'Completed',
+      startTime: at(100),
+      endTime: at(350),
+      durationMs: 250,
+      tokensUsed: 120,
+    })
+  })
+
+  it('uses reported timings and updates a step it already knows', () => {
+    const running = step('schema', 100, undefined, { stepType: 'SchemaRetrieval' })
+    const steps = applyStepCompleted([running], event('schema', { endTime: at(300), success: false }))
+    expect(steps).toHaveLength(1)
+    expect(steps[0]).toMatchObject({ status: 'Failed', startTime: at(100), endTime: at(300), durationMs: 200 })
+  })
+})
+
+describe('mergeSteps', () => {
+  it('overlays live steps on saved ones and appends new ones', () => {
+    const merged = mergeSteps([step('a', 0, undefined)], [step('a', 0, 100), step('b', 100, 200)])
+    expect(merged.map(item => [item.stepId, item.status])).toEqual([
+      ['a', 'Completed'],
+      ['b', 'Completed'],
+    ])
+  })
+})
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import {
+  analyzeSqlCompletionContext,
+  findRelatedTables,
+  resolveSqlIdentifier,
+  suggestJoinConditions,
+  suggestTableAlias,
+  type SchemaCatalogTable,
+} from '../sqlCompletion'
+
+const catalog: SchemaCatalogTable[] = [
+  {
+    schemaName: 'dbo',
+    tableName: 'Orders',
+    columns: [{ columnName: 'Id' }, { columnName: 'CustomerId' }, { columnName: 'Total', businessMeaning: 'Order value' }],
+    foreignKeys: [{ name: 'FK_Orders_Customers', column: 'CustomerId', referencedTable: 'dbo.Customers', referencedColumn: 'Id' }],
+  },
+  {
+    schemaName: 'dbo',
+    tableName: 'Customers',
+    columns: [{ columnName: 'Id' }, { columnName: 'Name' }],
+  },
+]
+
+// Cursor position marked with |
+const contextAt = (sql: string) => analyzeSqlCompletionContext(sql.replace('|', ''), sql.indexOf('|'))
+
+describe('analyzeSqlCompletionContext', () => {
+  it('suggests tables after FROM and JOIN', () => {
+    expect(contextAt('SELECT * FROM |')).toMatchObject({ kind: 'table', afterJoin: false })
+    expect(contextAt('SELECT * FROM Orders o JOIN Cu|')).toMatchObject({ kind: 'table', afterJoin: true, prefix: 'Cu' })
+    expect(contextAt('SELECT * FROM dbo.|')).toMatchObject({ kind: 'table', qualifier: 'dbo' })
+  })
+
+  it('resolves alias-qualified columns', () => {
+    const context = contextAt('SELECT o.| FROM dbo.Orders AS o')
+    expect(context).toMatchObject({ kind: 'qualifiedColumn', qualifier: 'o' })
+    expect(context.bindings).toEqual([expect.objectContaining({ schemaName: 'dbo', tableName: 'Orders', alias: 'o' })])
+  })
+
+  it('detects join conditions and ignores strings and comments', () => {
+    expect(contextAt('SELECT * FROM Orders o JOIN Customers c ON |')).toMatchObject({ kind: 'joinCondition' })
+    expect(contextAt("SELECT * FROM Orders WHERE Name = 'o.|'").kind).toBe('none')
+    expect(contextAt('SELECT * -- FROM |').kind).toBe('none')
+  })
+})
+
+describe('schema suggestions', () => {
+  it('builds join conditions from foreign keys in either direction', () => {
+    const context = contextAt('SELECT * FROM Customers c JOIN Orders o ON |')
+    expect(suggestJoinConditions(context, catalog).map(s => s.condition)).toEqual(['o.CustomerId = c.Id'])
+
+    const related = findRelatedTables(contextAt('SELECT * FROM Customers c JOIN |').bindings, catalog, () => 'o')
+    expect(related.get('dbo.Orders')).toBe('o.CustomerId = c.Id')
+  })
+
+  it('resolves hovered identifiers through aliases', () => {
+    const sql = 'SELECT o.Total FROM Orders o'
+    const match = resolveSqlIdentifier(sql, sql.indexOf('Total') + 1, catalog)
+    expect(match?.table.tableName).toBe('Orders')
+    expect(match?.column?.businessMeaning).toBe('Order value')
+  })
+
+  it('derives aliases that do not clash', () => {
+    expect(suggestTableAlias('OrderLines', [])).toBe('ol')
+    expect(suggestTableAlias('tbl_daily_actions', ['tda'])).toBe('tda2')
+  })
+})
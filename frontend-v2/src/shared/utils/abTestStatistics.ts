@@ -0,0 +1,533 @@
+/**
+ * A/B Test Statistics
+ *
+ * Client-side analysis for prompt template experiments: two-proportion
+ * z-tests on success rate, Welch t-tests on response time, the Bayesian
+ * probability that a variant beats the control, alpha-spending corrections
+ * for looking at a running test, and power / sample size planning. Tests
+ * with several variants (A/B/n) compare every variant against the control
+ * with a Bonferroni-adjusted alpha.
+ */
+
+import type { ABTestAnalysis, ABTestDetails } from '../types/templateAnalytics'
+
+// One arm of an experiment; the control is the first arm
+export interface ExperimentArm {
+  key: string
+  label: string
+  trials: number
+  successes: number
+  meanResponseTime?: number
+  responseTimeStdDev?: number
+}
+
+export interface ProportionTestResult {
+  controlRate: number
+  variantRate: number
+  // Absolute difference in rates (variant - control)
+  difference: number
+  relativeLift: number
+  zScore: number
+  pValue: number
+  confidenceInterval: { lower: number; upper: number }
+  // Cohen's h
+  effectSize: number
+  significant: boolean
+}
+
+export interface MeanTestResult {
+  difference: number
+  tStatistic: number
+  degreesOfFreedom: number
+  pValue: number
+  confidenceInterval: { lower: number; upper: number }
+  // Cohen's d with the pooled standard deviation
+  effectSize: number
+  significant: boolean
+}
+
+export type SequentialMethod = 'none' | 'obrien-fleming' | 'pocock'
+
+export interface VariantComparison {
+  key: string
+  label: string
+  successRate: ProportionTestResult
+  responseTime?: MeanTestResult
+  probabilityToBeatControl: number
+  // Power to detect the observed lift at the current sample size
+  power: number
+}
+
+export interface ExperimentAnalysis {
+  alpha: number
+  // Alpha after the multiple-comparison and peeking corrections
+  adjustedAlpha: number
+  informationFraction: number
+  comparisons: VariantComparison[]
+  winner?: string
+  recommendation: ABTestAnalysis['recommendation']
+}
+
+export interface AnalyzeOptions {
+  // Confidence level in percent, as stored on the test
+  confidenceLevel?: number
+  // Planned total sample size; drives the sequential correction
+  plannedSampleSize?: number
+  sequentialMethod?: SequentialMethod
+}
+
+// ---------------------------------------------------------------------------
+// Distributions
+// ---------------------------------------------------------------------------
+
+// Complementary error function (Numerical Recipes erfcc, |error| < 1.2e-7)
+const erfc = (x: number): number => {
+  const z = Math.abs(x)
+  const t = 1 / (1 + 0.5 * z)
+  const r =
+    t *
+    Math.exp(
+      -z * z -
+        1.26551223 +
+        t *
+          (1.00002368 +
+            t *
+              (0.37409196 +
+                t *
+                  (0.09678418 +
+                    t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587 + t * (-0.82215223 + t * 0.17087277))))))))
+    )
+  return x >= 0 ? r : 2 - r
+}
+
+export const normalCdf = (x: number): number => 0.5 * erfc(-x / Math.SQRT2)
+
+// Inverse normal CDF (Acklam's rational approximation)
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity
+  if (p >= 1) return Infinity
+
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239]
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572]
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783]
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416]
+  const pLow = 0.02425
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p))
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1)
+  }
+  if (p > 1 - pLow) {
+    const q = Math.sqrt(-2 * Math.log(1 - p))
+    return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1)
+  }
+  const q = p - 0.5
+  const r = q * q
+  return ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+}
+
+// Log gamma (Lanczos, g = 7)
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+  12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+]
+
+export function logGamma(x: number): number {
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x)
+  const z = x - 1
+  let sum = LANCZOS[0]
+  for (let i = 1; i < LANCZOS.length; i++) sum += LANCZOS[i] / (z + i)
+  const t = z + 7.5
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum)
+}
+
+const logBeta = (a: number, b: number) => logGamma(a) + logGamma(b) - logGamma(a + b)
+
+// Continued fraction for the incomplete beta function (modified Lentz)
+function betaContinuedFraction(a: number, b: number, x: number): number {
+  const maxIterations = 300
+  const epsilon = 3e-14
+  const tiny = 1e-300
+  const qab = a + b
+  const qap = a + 1
+  const qam = a - 1
+  let c = 1
+  let d = 1 - (qab * x) / qap
+  if (Math.abs(d) < tiny) d = tiny
+  d = 1 / d
+  let h = d
+
+  for (let m = 1; m <= maxIterations; m++) {
+    const m2 = 2 * m
+    let aa = (m * (b - m) * x) / ((qam + m2) * (a + m2))
+    d = 1 + aa * d
+    if (Math.abs(d) < tiny) d = tiny
+    c = 1 + aa / c
+    if (Math.abs(c) < tiny) c = tiny
+    d = 1 / d
+    h *= d * c
+
+    aa = (-(a + m) * (qab + m) * x) / ((a + m2) * (qap + m2))
+    d = 1 + aa * d
+    if (Math.abs(d) < tiny) d = tiny
+    c = 1 + aa / c
+    if (Math.abs(c) < tiny) c = tiny
+    d = 1 / d
+    const delta = d * c
+    h *= delta
+    if (Math.abs(delta - 1) < epsilon) break
+  }
+  return h
+}
+
+// Regularized incomplete beta I_x(a, b)
+export function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0
+  if (x >= 1) return 1
+  const front = Math.exp(a * Math.log(x) + b * Math.log(1 - x) - logBeta(a, b))
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(a, b, x)) / a
+    : 1 - (front * betaContinuedFraction(b, a, 1 - x)) / b
+}
+
+// P(|T| > |t|) for Student's t with df degrees of freedom
+export const studentTTwoTailed = (t: number, df: number): number =>
+  incompleteBeta(df / (df + t * t), df / 2, 0.5)
+
+// Critical value t such that P(|T| > t) = alpha, by bisection
+export function studentTQuantile(alpha: number, df: number): number {
+  if (!Number.isFinite(df) || df > 1e6) return normalQuantile(1 - alpha / 2)
+  let low = 0
+  let high = 1000
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2
+    if (studentTTwoTailed(mid, df) > alpha) low = mid
+    else high = mid
+  }
+  return (low + high) / 2
+}
+
+// ---------------------------------------------------------------------------
+// Frequentist tests
+// ---------------------------------------------------------------------------
+
+const rate = (arm: Pick<ExperimentArm, 'trials' | 'successes'>) => (arm.trials > 0 ? arm.successes / arm.trials : 0)
+
+/**
+ * Two-proportion z-test on success rate. The p-value uses the pooled
+ * standard error, the confidence interval the unpooled one.
+ */
+export function twoProportionZTest(
+  control: Pick<ExperimentArm, 'trials' | 'successes'>,
+  variant: Pick<ExperimentArm, 'trials' | 'successes'>,
+  alpha = 0.05
+): ProportionTestResult {
+  const p1 = rate(control)
+  const p2 = rate(variant)
+  const difference = p2 - p1
+  const relativeLift = p1 > 0 ? difference / p1 : 0
+  const effectSize = 2 * Math.asin(Math.sqrt(p2)) - 2 * Math.asin(Math.sqrt(p1))
+
+  if (control.trials === 0 || variant.trials === 0) {
+    return {
+      controlRate: p1,
+      variantRate: p2,
+      difference,
+      relativeLift,
+      zScore: 0,
+      pValue: 1,
+      confidenceInterval: { lower: -1, upper: 1 },
+      effectSize,
+      significant: false,
+    }
+  }
+
+  const pooled = (control.successes + variant.successes) / (control.trials + variant.trials)
+  const pooledSe = Math.sqrt(pooled * (1 - pooled) * (1 / control.trials + 1 / variant.trials))
+  const zScore = pooledSe > 0 ? difference / pooledSe : 0
+  const pValue = pooledSe > 0 ? 2 * (1 - normalCdf(Math.abs(zScore))) : 1
+
+  const se = Math.sqrt((p1 * (1 - p1)) / control.trials + (p2 * (1 - p2)) / variant.trials)
+  const margin = normalQuantile(1 - alpha / 2) * se
+
+  return {
+    controlRate: p1,
+    variantRate: p2,
+    difference,
+    relativeLift,
+    zScore,
+    pValue,
+    confidenceInterval: { lower: difference - margin, upper: difference + margin },
+    effectSize,
+    significant: pValue < alpha,
+  }
+}
+
+interface SampleSummary {
+  mean: number
+  stdDev: number
+  n: number
+}
+
+/**
+ * Welch's t-test for a difference in means without assuming equal
+ * variances, e.g. response time. The difference is variant - control.
+ */
+export function welchTTest(control: SampleSummary, variant: SampleSummary, alpha = 0.05): MeanTestResult | undefined {
+  if (control.n < 2 || variant.n < 2) return undefined
+
+  const v1 = (control.stdDev * control.stdDev) / control.n
+  const v2 = (variant.stdDev * variant.stdDev) / variant.n
+  const se = Math.sqrt(v1 + v2)
+  const difference = variant.mean - control.mean
+  if (se === 0) return undefined
+
+  const tStatistic = difference / se
+  const degreesOfFreedom = ((v1 + v2) * (v1 + v2)) / ((v1 * v1) / (control.n - 1) + (v2 * v2) / (variant.n - 1))
+  const pValue = studentTTwoTailed(tStatistic, degreesOfFreedom)
+  const margin = studentTQuantile(alpha, degreesOfFreedom) * se
+
+  const pooledSd = Math.sqrt(
+    ((control.n - 1) * control.stdDev * control.stdDev + (variant.n - 1) * variant.stdDev * variant.stdDev) /
+      (control.n + variant.n - 2)
+  )
+
+  return {
+    difference,
+    tStatistic,
+    degreesOfFreedom,
+    pValue,
+    confidenceInterval: { lower: difference - margin, upper: difference + margin },
+    effectSize: pooledSd > 0 ? difference / pooledSd : 0,
+    significant: pValue < alpha,
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Bayesian
+// ---------------------------------------------------------------------------
+
+// Above this many successes the exact sum gets slow; the normal approximation is accurate there
+const EXACT_BAYES_LIMIT = 20000
+
+/**
+ * Probability that the variant's true success rate beats the control's,
+ * with Beta(1, 1) priors. Exact for moderate counts (Evan Miller's closed
+ * form), normal approximation of the two posteriors beyond that.
+ */
+export function probabilityToBeatControl(
+  control: Pick<ExperimentArm, 'trials' | 'successes'>,
+  variant: Pick<ExperimentArm, 'trials' | 'successes'>,
+  prior: { alpha: number; beta: number } = { alpha: 1, beta: 1 }
+): number {
+  const alphaA = control.successes + prior.alpha
+  const betaA = control.trials - control.successes + prior.beta
+  const alphaB = variant.successes + prior.alpha
+  const betaB = variant.trials - variant.successes + prior.beta
+
+  if (alphaB > EXACT_BAYES_LIMIT || !Number.isInteger(alphaB)) {
+    const mean = (a: number, b: number) => a / (a + b)
+    const variance = (a: number, b: number) => (a * b) / ((a + b) * (a + b) * (a + b + 1))
+    const sd = Math.sqrt(variance(alphaA, betaA) + variance(alphaB, betaB))
+    return sd > 0 ? normalCdf((mean(alphaB, betaB) - mean(alphaA, betaA)) / sd) : 0.5
+  }
+
+  let total = 0
+  const logBetaA = logBeta(alphaA, betaA)
+  for (let i = 0; i < alphaB; i++) {
+    total += Math.exp(logBeta(alphaA + i, betaA + betaB) - Math.log(betaB + i) - logBeta(1 + i, betaB) - logBetaA)
+  }
+  return Math.min(1, Math.max(0, total))
+}
+
+// ---------------------------------------------------------------------------
+// Sequential testing and multiple comparisons
+// ---------------------------------------------------------------------------
+
+/**
+ * Significance threshold for a look at a running test under Lan-DeMets
+ * alpha spending. Uses the alpha spent up to the current information
+ * fraction as the threshold, which tracks the exact group-sequential
+ * boundary closely for the O'Brien-Fleming shape.
+ */
+export function sequentialAlpha(alpha: number, informationFraction: number, method: SequentialMethod = 'obrien-fleming'): number {
+  const t = Math.min(1, Math.max(0, informationFraction))
+  if (method === 'none' || t >= 1) return alpha
+  if (t === 0) return 0
+
+  if (method === 'pocock') {
+    return alpha * Math.log(1 + (Math.E - 1) * t)
+  }
+  return 2 - 2 * normalCdf(normalQuantile(1 - alpha / 2) / Math.sqrt(t))
+}
+
+// Bonferroni split of alpha across the variant-vs-control comparisons
+export const comparisonAlpha = (alpha: number, variantCount: number) => alpha / Math.max(1, variantCount)
+
+// ---------------------------------------------------------------------------
+// Power and sample size
+// ---------------------------------------------------------------------------
+
+export interface SampleSizeInput {
+  baselineRate: number
+  // Smallest lift worth detecting, relative to the baseline (0.05 = +5%)
+  minimumDetectableEffect: number
+  alpha?: number
+  power?: number
+  // Share of traffic each variant gets relative to the control (1 = even split)
+  allocationRatio?: number
+  // Number of variants besides the control
+  variantCount?: number
+}
+
+export interface SampleSizeResult {
+  perControl: number
+  perVariant: number
+  total: number
+  variantRate: number
+}
+
+export function requiredSampleSize({
+  baselineRate,
+  minimumDetectableEffect,
+  alpha = 0.05,
+  power = 0.8,
+  allocationRatio = 1,
+  variantCount = 1,
+}: SampleSizeInput): SampleSizeResult | undefined {
+  const p1 = baselineRate
+  const p2 = Math.min(0.9999, p1 * (1 + minimumDetectableEffect))
+  const delta = p2 - p1
+  if (p1 <= 0 || p1 >= 1 || delta === 0 || allocationRatio <= 0) return undefined
+
+  const k = allocationRatio
+  const zAlpha = normalQuantile(1 - comparisonAlpha(alpha, variantCount) / 2)
+  const zBeta = normalQuantile(power)
+  const pBar = (p1 + k * p2) / (1 + k)
+  const numerator =
+    zAlpha * Math.sqrt(pBar * (1 - pBar) * (1 + 1 / k)) + zBeta * Math.sqrt(p1 * (1 - p1) + (p2 * (1 - p2)) / k)
+
+  const perControl = Math.ceil((numerator * numerator) / (delta * delta))
+  const perVariant = Math.ceil(perControl * k)
+  return { perControl, perVariant, total: perControl + perVariant * variantCount, variantRate: p2 }
+}
+
+// Power of a two-sided two-proportion test at the given sample sizes
+export function statisticalPower(p1: number, p2: number, controlTrials: number, variantTrials: number, alpha = 0.05): number {
+  if (controlTrials === 0 || variantTrials === 0 || p1 === p2) return 0
+  const se = Math.sqrt((p1 * (1 - p1)) / controlTrials + (p2 * (1 - p2)) / variantTrials)
+  if (se === 0) return 1
+  return normalCdf(Math.abs(p2 - p1) / se - normalQuantile(1 - alpha / 2))
+}
+
+// ---------------------------------------------------------------------------
+// Experiment analysis
+// ---------------------------------------------------------------------------
+
+/**
+ * Arms of a stored test, control first. A/B/n tests carry their variants;
+ * two-arm tests are rebuilt from the original/variant fields, with response
+ * time taken from the analysis endpoint when it reports a spread.
+ */
+export function armsFromTest(test: ABTestDetails, analysis?: ABTestAnalysis): ExperimentArm[] {
+  if (test.variants && test.variants.length > 1) {
+    return test.variants.map((variant, index) => ({
+      key: variant.templateKey,
+      label: variant.label || (index === 0 ? 'Original' : `Variant ${String.fromCharCode(65 + index)}`),
+      trials: variant.usageCount,
+      successes: Math.round(variant.successRate * variant.usageCount),
+      meanResponseTime: variant.averageResponseTime,
+      responseTimeStdDev: variant.responseTimeStdDev,
+    }))
+  }
+
+  return [
+    {
+      key: test.originalTemplateKey,
+      label: 'Original',
+      trials: test.originalUsageCount,
+      successes: Math.round(test.originalSuccessRate * test.originalUsageCount),
+      meanResponseTime: analysis?.originalMetrics.averageResponseTime,
+      responseTimeStdDev: analysis?.originalMetrics.responseTimeStdDev,
+    },
+    {
+      key: test.variantTemplateKey,
+      label: 'Variant',
+      trials: test.variantUsageCount,
+      successes: Math.round(test.variantSuccessRate * test.variantUsageCount),
+      meanResponseTime: analysis?.variantMetrics.averageResponseTime,
+      responseTimeStdDev: analysis?.variantMetrics.responseTimeStdDev,
+    },
+  ]
+}
+
+const responseTimeSummary = (arm: ExperimentArm): SampleSummary | undefined =>
+  arm.meanResponseTime !== undefined && arm.responseTimeStdDev !== undefined
+    ? { mean: arm.meanResponseTime, stdDev: arm.responseTimeStdDev, n: arm.trials }
+    : undefined
+
+export function analyzeExperiment(arms: ExperimentArm[], options: AnalyzeOptions = {}): ExperimentAnalysis {
+  const { confidenceLevel = 95, plannedSampleSize, sequentialMethod = 'obrien-fleming' } = options
+  const alpha = 1 - confidenceLevel / 100
+  const [control, ...variants] = arms
+  const totalTrials = arms.reduce((sum, arm) => sum + arm.trials, 0)
+  const informationFraction = plannedSampleSize && plannedSampleSize > 0 ? Math.min(1, totalTrials / plannedSampleSize) : 1
+  const adjustedAlpha = sequentialAlpha(comparisonAlpha(alpha, variants.length), informationFraction, sequentialMethod)
+
+  if (!control) {
+    return { alpha, adjustedAlpha, informationFraction, comparisons: [], recommendation: 'inconclusive' }
+  }
+
+  const controlTime = responseTimeSummary(control)
+  const comparisons: VariantComparison[] = variants.map(variant => {
+    const successRate = twoProportionZTest(control, variant, adjustedAlpha)
+    const variantTime = responseTimeSummary(variant)
+    const responseTime = controlTime && variantTime ? welchTTest(controlTime, variantTime, adjustedAlpha) : undefined
+    return {
+      key: variant.key,
+      label: variant.label,
+      successRate,
+      ...(responseTime && { responseTime }),
+      probabilityToBeatControl: probabilityToBeatControl(control, variant),
+      power: statisticalPower(successRate.controlRate, successRate.variantRate, control.trials, variant.trials, adjustedAlpha),
+    }
+  })
+
+  const winners = comparisons
+    .filter(comparison => comparison.successRate.significant && comparison.successRate.difference > 0)
+    .sort((a, b) => b.successRate.difference - a.successRate.difference)
+  const allWorse =
+    comparisons.length > 0 &&
+    comparisons.every(comparison => comparison.successRate.significant && comparison.successRate.difference < 0)
+
+  let recommendation: ABTestAnalysis['recommendation']
+  if (winners.length > 0) recommendation = 'implement_variant'
+  else if (allWorse) recommendation = 'keep_original'
+  else if (informationFraction < 1) recommendation = 'continue_test'
+  else recommendation = 'inconclusive'
+
+  return {
+    alpha,
+    adjustedAlpha,
+    informationFraction,
+    comparisons,
+    ...(winners[0] && { winner: winners[0].key }),
+    recommendation,
+  }
+}
+
+/**
+ * Analysis of a stored test as listed in the dashboard. Running tests are
+ * interim looks against their minimum sample size; finished tests are read
+ * once at the full significance level.
+ */
+export const analyzeTest = (
+  test: ABTestDetails,
+  analysis?: ABTestAnalysis,
+  sequentialMethod: SequentialMethod = 'obrien-fleming',
+): ExperimentAnalysis =>
+  analyzeExperiment(armsFromTest(test, analysis), {
+    confidenceLevel: test.confidenceLevel,
+    plannedSampleSize: test.status === 'running' ? test.minimumSampleSize : undefined,
+    sequentialMethod,
+  })
@@ -0,0 +1,85 @@
+/**
+ * Ambiguity resolution helpers
+ *
+ * Semantic analysis can flag terms such as "revenue" that map to several
+ * business meanings. The chat asks the user to pick one before SQL is
+ * generated, and remembered picks are applied silently on later questions.
+ */
+
+import type { SemanticAnalysis } from '../types/chat'
+
+export type QueryAmbiguity = SemanticAnalysis['ambiguities'][number]
+
+/** Chosen meaning per ambiguous term, keyed by normalized term */
+export type TermClarifications = Record<string, string>
+
+const STORAGE_PREFIX = 'chat-term-clarifications'
+
+export const normalizeTerm = (term: string): string => term.trim().toLowerCase()
+
+/**
+ * Reads ambiguities from either the chat SemanticAnalysis shape or the
+ * semantic layer's `queryAnalysis` shape, which keeps suggestions in a
+ * separate list.
+ */
+export const extractAmbiguities = (analysis: any): QueryAmbiguity[] => {
+  const source = analysis?.queryAnalysis ?? analysis
+  const raw: any[] = Array.isArray(source?.ambiguities) ? source.ambiguities : []
+  const suggestions: string[] = Array.isArray(source?.suggestedClarifications) ? source.suggestedClarifications : []
+
+  return raw
+    .map((ambiguity, index) => ({
+      term: String(ambiguity?.term ?? '').trim(),
+      possibleMeanings: Array.isArray(ambiguity?.possibleMeanings)
+        ? [...new Set<string>(ambiguity.possibleMeanings.map(String))]
+        : [],
+      suggestedClarification: ambiguity?.suggestedClarification ?? suggestions[index] ?? '',
+    }))
+    .filter(ambiguity => ambiguity.term && ambiguity.possibleMeanings.length > 1)
+}
+
+/**
+ * Splits ambiguities into those already answered by a remembered choice and
+ * those the user still has to resolve. A remembered meaning only counts if the
+ * analysis still offers it.
+ */
+export const partitionAmbiguities = (
+  ambiguities: QueryAmbiguity[],
+  remembered: TermClarifications = {}
+): { resolved: TermClarifications; unresolved: QueryAmbiguity[] } => {
+  const resolved: TermClarifications = {}
+  const unresolved: QueryAmbiguity[] = []
+
+  ambiguities.forEach(ambiguity => {
+    const key = normalizeTerm(ambiguity.term)
+    const choice = remembered[key]
+    if (choice && ambiguity.possibleMeanings.includes(choice)) {
+      resolved[key] = choice
+    } else {
+      unresolved.push(ambiguity)
+    }
+  })
+
+  return { resolved, unresolved }
+}
+
+export const toClarificationPayload = (clarifications: TermClarifications) =>
+  Object.entries(clarifications).map(([term, meaning]) => ({ Term: term, Meaning: meaning }))
+
+export const loadRememberedClarifications = (userId: string): TermClarifications => {
+  try {
+    const stored = localStorage.getItem(`${STORAGE_PREFIX}:${userId}`)
+    return stored ? JSON.parse(stored) : {}
+  } catch {
+    return {}
+  }
+}
+
+export const saveRememberedClarifications = (userId: string, clarifications: TermClarifications): void => {
+  try {
+    const merged = { ...loadRememberedClarifications(userId), ...clarifications }
+    localStorage.setItem(`${STORAGE_PREFIX}:${userId}`, JSON.stringify(merged))
+  } catch (error) {
+    console.warn('Failed to save term clarifications:', error)
+  }
+}
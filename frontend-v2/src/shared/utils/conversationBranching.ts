@@ -0,0 +1,135 @@
+/**
+ * Conversation branching helpers
+ *
+ * A branch is a conversation forked from an assistant answer in another
+ * conversation. It starts with the transcript up to that answer, inherits the
+ * parent's ConversationContext and records its lineage in `branch`, so the
+ * history can be shown as a tree.
+ */
+
+import type { ChatMessage, Conversation, ConversationContext } from '../types/chat'
+
+export interface ConversationTreeNode {
+  conversation: Conversation
+  children: ConversationTreeNode[]
+  depth: number
+}
+
+/**
+ * Returns the messages leading up to and including `messageId`.
+ * Messages linked through `parentMessageId` are followed back to the root so
+ * answers from sibling threads are left out; unlinked messages fall back to
+ * their order in the list.
+ */
+export const getBranchTranscript = (messages: ChatMessage[], messageId: string): ChatMessage[] => {
+  const byId = new Map(messages.map(message => [message.id, message]))
+  const forkPoint = byId.get(messageId)
+  if (!forkPoint) return []
+
+  if (!forkPoint.parentMessageId) {
+    return messages.slice(0, messages.indexOf(forkPoint) + 1)
+  }
+
+  const transcript: ChatMessage[] = []
+  const visited = new Set<string>()
+  let current: ChatMessage | undefined = forkPoint
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id)
+    transcript.unshift(current)
+    current = current.parentMessageId ? byId.get(current.parentMessageId) : undefined
+  }
+  return transcript
+}
+
+/**
+ * Copies the parent context into a fork, adding what the transcript used:
+ * tables touched by the answers, the questions asked and the last SQL that ran.
+ */
+export const buildBranchContext = (
+  context: ConversationContext | undefined,
+  transcript: ChatMessage[]
+): ConversationContext => {
+  const selectedTables = new Set(context?.selectedTables ?? [])
+  transcript.forEach(message => {
+    message.resultMetadata?.tablesUsed?.forEach(table => selectedTables.add(table))
+  })
+
+  const questions = transcript
+    .filter(message => message.type === 'user' && message.content.trim())
+    .map(message => message.content.trim())
+    .reverse()
+  const queryHistory = [...new Set([...questions, ...(context?.queryHistory ?? [])])].slice(0, 50)
+
+  const lastSql = [...transcript].reverse().find(message => message.type === 'assistant' && message.sql)?.sql
+
+  return {
+    ...context,
+    selectedTables: [...selectedTables],
+    selectedColumns: [...(context?.selectedColumns ?? [])],
+    activeFilters: { ...context?.activeFilters },
+    queryHistory,
+    commonPatterns: [...(context?.commonPatterns ?? [])],
+    lastSuccessfulQuery: lastSql ?? context?.lastSuccessfulQuery,
+  }
+}
+
+/**
+ * Re-homes copied transcript messages under the forked conversation.
+ * Ids are kept so the fork point can still be matched to the parent's message.
+ */
+export const copyTranscriptToBranch = (transcript: ChatMessage[], conversationId: string): ChatMessage[] =>
+  transcript.map(message => ({ ...message, conversationId, threadMessages: undefined }))
+
+export const createBranchTitle = (parentTitle: string, label?: string): string => {
+  const trimmed = label?.trim()
+  return trimmed ? `${parentTitle} › ${trimmed}` : `${parentTitle} (branch)`
+}
+
+/**
+ * Groups conversations into trees by `branch.parentConversationId`.
+ * Branches whose parent is not loaded are shown as roots.
+ */
+export const buildConversationTree = (conversations: Conversation[]): ConversationTreeNode[] => {
+  const ids = new Set(conversations.map(conversation => conversation.id))
+  const childrenOf = new Map<string, Conversation[]>()
+  const roots: Conversation[] = []
+
+  conversations.forEach(conversation => {
+    const parentId = conversation.branch?.parentConversationId
+    if (parentId && parentId !== conversation.id && ids.has(parentId)) {
+      childrenOf.set(parentId, [...(childrenOf.get(parentId) ?? []), conversation])
+    } else {
+      roots.push(conversation)
+    }
+  })
+
+  const visited = new Set<string>()
+  const toNode = (conversation: Conversation, depth: number): ConversationTreeNode => {
+    visited.add(conversation.id)
+    const children = (childrenOf.get(conversation.id) ?? [])
+      .filter(child => !visited.has(child.id))
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+      .map(child => toNode(child, depth + 1))
+    return { conversation, children, depth }
+  }
+
+  return roots.map(root => toNode(root, 0))
+}
+
+/**
+ * Keeps nodes that match, plus the ancestors needed to reach them.
+ */
+export const filterConversationTree = (
+  nodes: ConversationTreeNode[],
+  predicate: (conversation: Conversation) => boolean
+): ConversationTreeNode[] =>
+  nodes.reduce<ConversationTreeNode[]>((kept, node) => {
+    const children = filterConversationTree(node.children, predicate)
+    if (predicate(node.conversation) || children.length > 0) {
+      kept.push({ ...node, children })
+    }
+    return kept
+  }, [])
+
+export const countBranches = (nodes: ConversationTreeNode[]): number =>
+  nodes.reduce((total, node) => total + 1 + countBranches(node.children), 0)
@@ -0,0 +1,140 @@
+/**
+ * Cost pre-flight checks
+ *
+ * Before a chat question is sent, its predicted cost is added to what each
+ * active budget has already spent. Crossing a budget's alert threshold warns,
+ * crossing its block threshold blocks (both are percentages of the budget
+ * amount, as configured in Budget Management). When a question would warn or
+ * block, a cheaper enabled model that keeps the budget in better shape is
+ * suggested.
+ */
+
+import type { BudgetManagement, BudgetPreflightLevel, QueryComplexity } from '../types/cost'
+import type { LLMModelConfig } from '../store/api/llmManagementApi'
+
+export interface BudgetCheck {
+  budget: BudgetManagement
+  level: BudgetPreflightLevel
+  usagePercentage: number
+  // Usage once this question's estimated cost is spent
+  projectedUsagePercentage: number
+  remainingAfter: number
+}
+
+export interface PreflightResult {
+  level: BudgetPreflightLevel
+  estimatedCost: number
+  // Active budgets, most constrained first
+  checks: BudgetCheck[]
+  // The budget that decides the level, when any budget applies
+  limiting?: BudgetCheck
+}
+
+export interface ModelSuggestion {
+  model: LLMModelConfig
+  estimatedCost: number
+  savings: number
+  level: BudgetPreflightLevel
+}
+
+const LEVEL_SEVERITY: Record<BudgetPreflightLevel, number> = { ok: 0, warn: 1, block: 2 }
+
+// Each signal of analytical work bumps the complexity one step
+const COMPLEXITY_SIGNALS = [
+  /\b(join|combined?|across)\b/i,
+  /\b(compare|comparison|versus|vs\.?)\b/i,
+  /\b(trend|over time|month over month|year over year|growth)\b/i,
+  /\b(by|per|group(ed)? by|breakdown)\b/i,
+  /\b(top|bottom|rank(ing)?|percentile)\b/i,
+  /\b(forecast|predict|correlat\w*|cohort|retention)\b/i,
+]
+
+const COMPLEXITY_LEVELS: QueryComplexity[] = ['simple', 'medium', 'complex', 'very_complex']
+
+/** Rough complexity of a natural language question, for the cost prediction */
+export function estimateQueryComplexity(query: string): QueryComplexity {
+  const words = query.trim().split(/\s+/).filter(Boolean).length
+  const signals = COMPLEXITY_SIGNALS.filter(pattern => pattern.test(query)).length
+  const score = signals + (words > 25 ? 1 : 0) + (words > 50 ? 1 : 0)
+  const index = score === 0 ? 0 : score === 1 ? 1 : score <= 3 ? 2 : 3
+  return COMPLEXITY_LEVELS[index] ?? 'medium'
+}
+
+const isCurrent = (budget: BudgetManagement, now: Date): boolean => {
+  if (!budget.isActive) return false
+  const start = Date.parse(budget.startDate)
+  const end = Date.parse(budget.endDate)
+  return (Number.isNaN(start) || start <= now.getTime()) && (Number.isNaN(end) || now.getTime() <= end)
+}
+
+const percentageOf = (amount: number, budget: BudgetManagement): number =>
+  budget.budgetAmount > 0 ? (amount / budget.budgetAmount) * 100 : amount > 0 ? Infinity : 0
+
+export function checkBudgets(
+  budgets: BudgetManagement[],
+  estimatedCost: number,
+  now: Date = new Date()
+): PreflightResult {
+  const checks = budgets
+    .filter(budget => isCurrent(budget, now))
+    .map<BudgetCheck>(budget => {
+      const projectedUsagePercentage = percentageOf(budget.spentAmount + estimatedCost, budget)
+      const level: BudgetPreflightLevel =
+        projectedUsagePercentage >= budget.blockThreshold ? 'block' :
+        projectedUsagePercentage >= budget.alertThreshold ? 'warn' : 'ok'
+      return {
+        budget,
+        level,
+        usagePercentage: percentageOf(budget.spentAmount, budget),
+        projectedUsagePercentage,
+        remainingAfter: budget.budgetAmount - budget.spentAmount - estimatedCost,
+      }
+    })
+    .sort((a, b) =>
+      LEVEL_SEVERITY[b.level] - LEVEL_SEVERITY[a.level] ||
+      b.projectedUsagePercentage - a.projectedUsagePercentage
+    )
+
+  const limiting = checks[0]
+  return {
+    level: limiting?.level ?? 'ok',
+    estimatedCost,
+    checks,
+    ...(limiting && { limiting }),
+  }
+}
+
+/**
+ * Picks an enabled model priced below the predicted rate that lowers the
+ * pre-flight level, preferring the least downgrade: among the models that
+ * reach the best level, the most expensive one.
+ */
+export function suggestCheaperModel(
+  models: LLMModelConfig[],
+  prediction: { estimatedCost: number; estimatedTokens: number },
+  budgets: BudgetManagement[],
+  now: Date = new Date()
+): ModelSuggestion | undefined {
+  if (prediction.estimatedTokens <= 0) return undefined
+  const predictedRate = prediction.estimatedCost / prediction.estimatedTokens
+  const currentLevel = checkBudgets(budgets, prediction.estimatedCost, now).level
+
+  const candidates = models
+    .filter(model => model.isEnabled && model.costPerToken < predictedRate)
+    .map<ModelSuggestion>(model => {
+      const estimatedCost = model.costPerToken * prediction.estimatedTokens
+      return {
+        model,
+        estimatedCost,
+        savings: prediction.estimatedCost - estimatedCost,
+        level: checkBudgets(budgets, estimatedCost, now).level,
+      }
+    })
+    .filter(candidate => LEVEL_SEVERITY[candidate.level] < LEVEL_SEVERITY[currentLevel])
+    .sort((a, b) =>
+      LEVEL_SEVERITY[a.level] - LEVEL_SEVERITY[b.level] ||
+      b.model.costPerToken - a.model.costPerToken
+    )
+
+  return candidates[0]
+}
@@ -0,0 +1,338 @@
+/**
+ * Glossary knowledge graph
+ *
+ * Turns glossary terms and business domains into one graph: terms linked by
+ * their typed relationships and hierarchy, terms placed in their domains,
+ * domains nested in their parents, and terms mapped to tables and columns.
+ * Tables are keyed by name without schema, since glossary mappings are
+ * written both as `Table` and `schema.Table`. Paths are found over the
+ * undirected graph, so "how is ARPU related to Deposits" also finds
+ * connections through a shared domain or table.
+ */
+
+import type {
+  BusinessDomain,
+  EnhancedBusinessGlossaryTerm,
+  GlossaryTermRelationship,
+} from '../store/api/businessApi'
+
+export type GlossaryNodeKind = 'term' | 'domain' | 'table' | 'column'
+
+export type TermRelationshipType = GlossaryTermRelationship['relationshipType']
+
+export type GlossaryEdgeType =
+  | TermRelationshipType
+  | 'hierarchy'
+  | 'inDomain'
+  | 'subDomainOf'
+  | 'mapsToTable'
+  | 'mapsToColumn'
+  | 'columnOf'
+
+export const TERM_RELATIONSHIP_TYPES: TermRelationshipType[] = [
+  'synonym',
+  'antonym',
+  'broader',
+  'narrower',
+  'related',
+  'partOf',
+  'hasA',
+]
+
+export interface GlossaryGraphNode {
+  id: string
+  kind: GlossaryNodeKind
+  label: string
+  termId?: number
+  domainId?: number
+  description?: string
+}
+
+export interface GlossaryGraphEdge {
+  id: string
+  source: string
+  target: string
+  type: GlossaryEdgeType
+  // Set on edges stored as a term relationship, which can be edited
+  relationshipId?: number
+  description?: string
+}
+
+export interface GlossaryGraph {
+  nodes: GlossaryGraphNode[]
+  edges: GlossaryGraphEdge[]
+}
+
+export interface GlossaryPathStep {
+  from: GlossaryGraphNode
+  to: GlossaryGraphNode
+  edge: GlossaryGraphEdge
+}
+
+// Relationships that read the same in both directions
+const SYMMETRIC_TYPES = new Set<GlossaryEdgeType>(['synonym', 'antonym', 'related', 'hierarchy'])
+
+// A broader B is stored again on B as B narrower A; both describe one edge
+const INVERSE_TYPES: Partial<Record<GlossaryEdgeType, GlossaryEdgeType>> = {
+  narrower: 'broader',
+  hasA: 'partOf',
+}
+
+const normalize = (name: string) => name.trim().toLowerCase()
+
+const lastSegment = (name: string) => {
+  const parts = name.split('.')
+  return parts[parts.length - 1] ?? name
+}
+
+export const termNodeId = (termId: number) => `term:${termId}`
+export const domainNodeId = (name: string) => `domain:${normalize(name)}`
+export const tableNodeId = (name: string) => `table:${normalize(lastSegment(name))}`
+export const columnNodeId = (table: string, column: string) => `column:${normalize(lastSegment(table))}.${normalize(column)}`
+
+const edgeKey = (source: string, target: string, type: GlossaryEdgeType) => {
+  const inverse = INVERSE_TYPES[type]
+  if (inverse) return `${inverse}:${target}>${source}`
+  if (SYMMETRIC_TYPES.has(type)) return `${type}:${[source, target].sort().join('~')}`
+  return `${type}:${source}>${target}`
+}
+
+export function buildGlossaryGraph(
+  terms: EnhancedBusinessGlossaryTerm[],
+  domains: BusinessDomain[] = []
+): GlossaryGraph {
+  const nodes = new Map<string, GlossaryGraphNode>()
+  const edges = new Map<string, GlossaryGraphEdge>()
+  const termsByName = new Map(terms.map(term => [normalize(term.term), term]))
+  const termIds = new Set(terms.map(term => term.id))
+
+  const addNode = (node: GlossaryGraphNode) => {
+    if (!nodes.has(node.id)) nodes.set(node.id, node)
+    return node.id
+  }
+
+  const addEdge = (source: string, target: string, type: GlossaryEdgeType, extra: Partial<GlossaryGraphEdge> = {}) => {
+    if (source === target) return
+    const key = edgeKey(source, target, type)
+    if (!edges.has(key)) edges.set(key, { id: key, source, target, type, ...extra })
+  }
+
+  const addDomain = (domain: BusinessDomain, parentId?: string) => {
+    const id = addNode({
+      id: domainNodeId(domain.name),
+      kind: 'domain',
+      label: domain.name,
+      domainId: domain.id,
+      ...(domain.description && { description: domain.description }),
+    })
+    const parent = parentId ?? (domain.parentDomainName ? domainNodeId(domain.parentDomainName) : undefined)
+    if (parent) addEdge(id, parent, 'subDomainOf')
+    domain.subDomains?.forEach(subDomain => addDomain(subDomain, id))
+  }
+  domains.forEach(domain => addDomain(domain))
+
+  const addTable = (name: string) => addNode({ id: tableNodeId(name), kind: 'table', label: name })
+
+  terms.forEach(term => {
+    const id = addNode({
+      id: termNodeId(term.id),
+      kind: 'term',
+      label: term.term,
+      termId: term.id,
+      ...(term.definition && { description: term.definition }),
+    })
+
+    if (term.domain) {
+      addEdge(id, addNode({ id: domainNodeId(term.domain), kind: 'domain', label: term.domain }), 'inDomain')
+    }
+
+    term.relationships?.forEach(relationship => {
+      const related = termIds.has(relationship.relatedTermId)
+        ? relationship.relatedTermId
+        : termsByName.get(normalize(relationship.relatedTermName))?.id
+      // Relationships to terms outside the loaded glossary have nothing to point at
+      if (related === undefined) return
+      addEdge(id, termNodeId(related), relationship.relationshipType, {
+        relationshipId: relationship.id,
+        ...(relationship.description && { description: relationship.description }),
+      })
+    })
+
+    term.hierarchicalRelations?.forEach(name => {
+      const related = termsByName.get(normalize(name))
+      if (related) addEdge(id, termNodeId(related.id), 'hierarchy')
+    })
+
+    term.mappedTables?.forEach(table => addEdge(id, addTable(table), 'mapsToTable'))
+
+    term.mappedColumns?.forEach(mapped => {
+      const separator = mapped.lastIndexOf('.')
+      // Unqualified columns can't be told apart across tables
+      if (separator <= 0) return
+      const table = mapped.slice(0, separator)
+      const column = mapped.slice(separator + 1)
+      const columnId = addNode({ id: columnNodeId(table, column), kind: 'column', label: `${lastSegment(table)}.${column}` })
+      addEdge(columnId, addTable(table), 'columnOf')
+      addEdge(id, columnId, 'mapsToColumn')
+    })
+  })
+
+  return { nodes: [...nodes.values()], edges: [...edges.values()] }
+}
+
+/** Keeps the edges of the given types and the nodes they still connect, plus any focus nodes */
+export function filterGlossaryGraph(
+  graph: GlossaryGraph,
+  edgeTypes: GlossaryEdgeType[],
+  nodeKinds: GlossaryNodeKind[],
+  keep: string[] = []
+): GlossaryGraph {
+  const kinds = new Set(nodeKinds)
+  const types = new Set(edgeTypes)
+  const nodes = graph.nodes.filter(node => kinds.has(node.kind) || keep.includes(node.id))
+  const nodeIds = new Set(nodes.map(node => node.id))
+  const edges = graph.edges.filter(edge => types.has(edge.type) && nodeIds.has(edge.source) && nodeIds.has(edge.target))
+  return { nodes, edges }
+}
+
+const adjacency = (graph: GlossaryGraph) => {
+  const neighbours = new Map<string, { node: string; edge: GlossaryGraphEdge }[]>()
+  const link = (from: string, to: string, edge: GlossaryGraphEdge) => {
+    const list = neighbours.get(from) ?? []
+    list.push({ node: to, edge })
+    neighbours.set(from, list)
+  }
+  graph.edges.forEach(edge => {
+    link(edge.source, edge.target, edge)
+    link(edge.target, edge.source, edge)
+  })
+  return neighbours
+}
+
+/** Node ids within `depth` hops of any of the seeds */
+export function neighbourhood(graph: GlossaryGraph, seeds: string[], depth: number): Set<string> {
+  const neighbours = adjacency(graph)
+  const visited = new Set(seeds)
+  let frontier = seeds
+  for (let hop = 0; hop < depth && frontier.length > 0; hop++) {
+    const next: string[] = []
+    frontier.forEach(id => {
+      neighbours.get(id)?.forEach(({ node }) => {
+        if (visited.has(node)) return
+        visited.add(node)
+        next.push(node)
+      })
+    })
+    frontier = next
+  }
+  return visited
+}
+
+/**
+ * Shortest chain of edges between two nodes, ignoring direction. Term to
+ * term relationships win ties over links through domains and tables.
+ */
+export function findGlossaryPath(graph: GlossaryGraph, fromId: string, toId: string): GlossaryPathStep[] | null {
+  const byId = new Map(graph.nodes.map(node => [node.id, node]))
+  if (!byId.has(fromId) || !byId.has(toId)) return null
+  if (fromId === toId) return []
+
+  const neighbours = adjacency(graph)
+  const isTermLink = (edge: GlossaryGraphEdge) => edge.relationshipId !== undefined || edge.type === 'hierarchy'
+  const previous = new Map<string, { node: string; edge: GlossaryGraphEdge }>()
+  const visited = new Set([fromId])
+  let frontier = [fromId]
+
+  while (frontier.length > 0 && !visited.has(toId)) {
+    const next: string[] = []
+    frontier.forEach(id => {
+      const links = [...(neighbours.get(id) ?? [])].sort((a, b) => Number(isTermLink(b.edge)) - Number(isTermLink(a.edge)))
+      links.forEach(({ node, edge }) => {
+        if (visited.has(node)) return
+        visited.add(node)
+        previous.set(node, { node: id, edge })
+        next.push(node)
+      })
+    })
+    frontier = next
+  }
+
+  if (!visited.has(toId)) return null
+
+  const steps: GlossaryPathStep[] = []
+  let current = toId
+  while (current !== fromId) {
+    const link = previous.get(current)
+    if (!link) return null
+    steps.unshift({ from: byId.get(link.node)!, to: byId.get(current)!, edge: link.edge })
+    current = link.node
+  }
+  return steps
+}
+
+// Which end of a term relationship sits higher in the hierarchy
+const PARENT_END: Partial<Record<GlossaryEdgeType, 'source' | 'target'>> = {
+  broader: 'source',
+  narrower: 'target',
+  partOf: 'target',
+  hasA: 'source',
+}
+
+/**
+ * Row of each node in the layered layout: domains on top, then terms with
+ * narrower terms and parts below their parents, then tables and columns.
+ */
+export function glossaryLayers(graph: GlossaryGraph): Map<string, number> {
+  const termRanks = new Map(graph.nodes.filter(node => node.kind === 'term').map(node => [node.id, 0]))
+  const parentLinks = graph.edges.flatMap(edge => {
+    const parentEnd = PARENT_END[edge.type]
+    if (!parentEnd) return []
+    return parentEnd === 'source' ? [[edge.source, edge.target]] : [[edge.target, edge.source]]
+  })
+
+  // Longest chain of parents, capped so cycles in the data can't loop forever
+  for (let pass = 0; pass < termRanks.size; pass++) {
+    let changed = false
+    parentLinks.forEach(([parent, child]) => {
+      const parentRank = termRanks.get(parent)
+      const childRank = termRanks.get(child)
+      if (parentRank === undefined || childRank === undefined || childRank > parentRank) return
+      termRanks.set(child, parentRank + 1)
+      changed = true
+    })
+    if (!changed) break
+  }
+
+  const termRows = Math.max(0, ...termRanks.values()) + 1
+  const layers = new Map<string, number>()
+  graph.nodes.forEach(node => {
+    if (node.kind === 'domain') layers.set(node.id, 0)
+    else if (node.kind === 'term') layers.set(node.id, 1 + (termRanks.get(node.id) ?? 0))
+    else layers.set(node.id, 1 + termRows + (node.kind === 'table' ? 0 : 1))
+  })
+  return layers
+}
+
+const EDGE_PHRASES: Record<GlossaryEdgeType, string> = {
+  synonym: 'is a synonym of',
+  antonym: 'is the opposite of',
+  broader: 'is broader than',
+  narrower: 'is narrower than',
+  related: 'is related to',
+  partOf: 'is part of',
+  hasA: 'has',
+  hierarchy: 'is in the same hierarchy as',
+  inDomain: 'belongs to domain',
+  subDomainOf: 'is a sub-domain of',
+  mapsToTable: 'maps to table',
+  mapsToColumn: 'maps to column',
+  columnOf: 'is a column of',
+}
+
+/** Reads a path step in the direction it's walked, e.g. "Deposits maps to table Transactions" */
+export function describePathStep({ from, to, edge }: GlossaryPathStep): string {
+  if (edge.source === from.id || SYMMETRIC_TYPES.has(edge.type)) {
+    return `${from.label} ${EDGE_PHRASES[edge.type]} ${to.label}`
+  }
+  return `${to.label} ${EDGE_PHRASES[edge.type]} ${from.label}`
+}
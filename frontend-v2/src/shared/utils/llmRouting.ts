@@ -0,0 +1,198 @@
+/**
+ * LLM routing
+ *
+ * Resolves which model a request goes to under a routing policy. Rules are
+ * matched top to bottom on use case, query complexity, the user's roles and
+ * the budget state from the cost pre-flight; the first match supplies an
+ * ordered chain of models. Models on disabled, unhealthy or offline providers
+ * are skipped, so the chain doubles as the fallback order. Degraded providers
+ * are kept as a last resort when the policy asks to avoid them. A weighted
+ * rule scores the available models on provider latency and token cost
+ * instead of taking the first one.
+ */
+
+import type {
+  LLMModelConfig,
+  LLMProviderConfig,
+  LLMProviderStatus,
+  LLMRoutingConditions,
+  LLMRoutingPolicy,
+  LLMRoutingRule,
+} from '../store/api/llmManagementApi'
+import type { BudgetPreflightLevel, QueryComplexity } from '../types/cost'
+
+export const ROUTING_USE_CASES = ['general', 'chat', 'analysis', 'coding', 'creative']
+
+export const ROUTING_ROLES = ['Admin', 'Analyst', 'Viewer']
+
+export const ROUTING_COMPLEXITIES: QueryComplexity[] = ['simple', 'medium', 'complex', 'very_complex']
+
+export const ROUTING_BUDGET_STATES: BudgetPreflightLevel[] = ['ok', 'warn', 'block']
+
+export const DEFAULT_ROUTING_POLICY: LLMRoutingPolicy = {
+  rules: [],
+  defaultChain: [],
+  avoidDegraded: true,
+}
+
+export interface RoutingRequest {
+  useCase: string
+  complexity: QueryComplexity
+  roles: string[]
+  budgetState: BudgetPreflightLevel
+}
+
+export type RoutingCandidateStatus = 'selected' | 'available' | 'degraded' | 'skipped'
+
+export interface RoutingCandidate {
+  modelId: string
+  model?: LLMModelConfig
+  provider?: LLMProviderConfig
+  status: RoutingCandidateStatus
+  reason: string
+  latencyMs?: number
+  // Weighted rules only; lower is better
+  score?: number
+}
+
+export interface RoutingDecision {
+  // Missing when no rule matched and the default chain was used
+  rule?: LLMRoutingRule
+  model?: LLMModelConfig
+  provider?: LLMProviderConfig
+  // Every model in the chain, in chain order, with why it was or wasn't used
+  candidates: RoutingCandidate[]
+  // A model earlier in the chain was passed over
+  usedFallback: boolean
+}
+
+export interface RoutingContext {
+  models: LLMModelConfig[]
+  providers: LLMProviderConfig[]
+  health: LLMProviderStatus[]
+}
+
+const lower = (value: string) => value.toLowerCase()
+
+const matchesList = <T extends string>(allowed: T[] | undefined, value: T) =>
+  !allowed || allowed.length === 0 || allowed.map(lower).includes(lower(value))
+
+export function matchesRule(conditions: LLMRoutingConditions, request: RoutingRequest): boolean {
+  return matchesList(conditions.useCases, request.useCase) &&
+    matchesList(conditions.complexities, request.complexity) &&
+    matchesList(conditions.budgetStates, request.budgetState) &&
+    (!conditions.roles?.length || request.roles.some(role => matchesList(conditions.roles, role)))
+}
+
+export function findMatchingRule(policy: LLMRoutingPolicy, request: RoutingRequest): LLMRoutingRule | undefined {
+  return policy.rules.find(rule => rule.isEnabled && matchesRule(rule.conditions, request))
+}
+
+const describeCandidate = (modelId: string, context: RoutingContext): RoutingCandidate => {
+  const model = context.models.find(candidate => candidate.modelId === modelId)
+  if (!model) return { modelId, status: 'skipped', reason: 'Model no longer exists' }
+  if (!model.isEnabled) return { modelId, model, status: 'skipped', reason: 'Model is disabled' }
+
+  const provider = context.providers.find(candidate => candidate.providerId === model.providerId)
+  if (!provider) return { modelId, model, status: 'skipped', reason: 'Provider no longer exists' }
+  if (!provider.isEnabled) return { modelId, model, provider, status: 'skipped', reason: `${provider.name} is disabled` }
+
+  const health = context.health.find(status => status.providerId === provider.providerId)
+  const latency = health?.responseTime !== undefined ? { latencyMs: health.responseTime } : {}
+  if (health?.status === 'unhealthy' || health?.status === 'offline') {
+    return { modelId, model, provider, status: 'skipped', reason: `${provider.name} is ${health.status}`, ...latency }
+  }
+  if (health?.status === 'degraded') {
+    return { modelId, model, provider, status: 'degraded', reason: `${provider.name} is degraded`, ...latency }
+  }
+  return { modelId, model, provider, status: 'available', reason: health ? `${provider.name} is healthy` : 'No health data', ...latency }
+}
+
+/**
+ * Latency and cost are each scaled against the largest value among the
+ * candidates, so the weights trade them off on a common 0-1 scale. A model
+ * without latency data counts as the slowest.
+ */
+const scoreCandidates = (candidates: RoutingCandidate[], rule: LLMRoutingRule): RoutingCandidate[] => {
+  const maxLatency = Math.max(0, ...candidates.map(candidate => candidate.latencyMs ?? 0))
+  const maxCost = Math.max(0, ...candidates.map(candidate => candidate.model?.costPerToken ?? 0))
+  const totalWeight = rule.latencyWeight + rule.costWeight
+
+  return candidates.map(candidate => {
+    const latency = maxLatency > 0 ? (candidate.latencyMs ?? maxLatency) / maxLatency : 0
+    const cost = maxCost > 0 ? (candidate.model?.costPerToken ?? 0) / maxCost : 0
+    const score = totalWeight > 0 ? (rule.latencyWeight * latency + rule.costWeight * cost) / totalWeight : 0
+    return { ...candidate, score: Math.round(score * 1000) / 1000 }
+  })
+}
+
+export function routeRequest(policy: LLMRoutingPolicy, request: RoutingRequest, context: RoutingContext): RoutingDecision {
+  const rule = findMatchingRule(policy, request)
+  const chain = rule?.modelChain.length ? rule.modelChain : policy.defaultChain
+  let candidates = chain.map(modelId => describeCandidate(modelId, context))
+
+  // Degraded providers only serve when nothing healthy is left
+  const usable = candidates.filter(candidate => candidate.status === 'available')
+  const pool = usable.length > 0 && policy.avoidDegraded
+    ? usable
+    : candidates.filter(candidate => candidate.status === 'available' || candidate.status === 'degraded')
+
+  let chosen = pool[0]
+  if (rule?.strategy === 'weighted' && pool.length > 1) {
+    const scored = scoreCandidates(pool, rule)
+    candidates = candidates.map(candidate => scored.find(item => item.modelId === candidate.modelId) ?? candidate)
+    chosen = scored.reduce((best, candidate) => (candidate.score! < best.score! ? candidate : best))
+  }
+
+  const selectedIndex = chosen ? candidates.findIndex(candidate => candidate.modelId === chosen!.modelId) : -1
+  candidates = candidates.map((candidate, index) => (index === selectedIndex ? { ...candidate, status: 'selected' as const } : candidate))
+  const selected = candidates[selectedIndex]
+
+  return {
+    ...(rule && { rule }),
+    ...(selected?.model && { model: selected.model }),
+    ...(selected?.provider && { provider: selected.provider }),
+    candidates,
+    // Weighted picks aren't fallbacks unless something earlier was unusable
+    usedFallback: selectedIndex > 0 && candidates.slice(0, selectedIndex).some(candidate => candidate.status === 'skipped' || candidate.status === 'degraded'),
+  }
+}
+
+// Whether every request matching `inner` also matches `outer`
+const coversConditions = (outer: LLMRoutingConditions, inner: LLMRoutingConditions) =>
+  (['useCases', 'complexities', 'roles', 'budgetStates'] as const).every(key => {
+    const outerList = outer[key] as string[] | undefined
+    const innerList = inner[key] as string[] | undefined
+    if (!outerList?.length) return true
+    if (!innerList?.length) return false
+    return innerList.every(value => outerList.map(lower).includes(lower(value)))
+  })
+
+/** Problems that would leave requests without a model */
+export function validateRoutingPolicy(policy: LLMRoutingPolicy, models: LLMModelConfig[]): string[] {
+  const known = new Set(models.map(model => model.modelId))
+  const problems: string[] = []
+
+  if (policy.defaultChain.length === 0) problems.push('The default chain is empty, so unmatched requests have no model')
+  policy.defaultChain
+    .filter(modelId => !known.has(modelId))
+    .forEach(modelId => problems.push(`The default chain uses unknown model ${modelId}`))
+
+  policy.rules.forEach((rule, index) => {
+    const label = rule.name || `Rule ${index + 1}`
+    if (!rule.isEnabled) return
+    if (rule.modelChain.length === 0) problems.push(`${label} has no models and falls through to the default chain`)
+    rule.modelChain
+      .filter(modelId => !known.has(modelId))
+      .forEach(modelId => problems.push(`${label} uses unknown model ${modelId}`))
+    if (rule.strategy === 'weighted' && rule.latencyWeight + rule.costWeight <= 0) {
+      problems.push(`${label} is weighted but both weights are 0`)
+    }
+    const shadowedBy = policy.rules
+      .slice(0, index)
+      .find(earlier => earlier.isEnabled && coversConditions(earlier.conditions, rule.conditions))
+    if (shadowedBy) problems.push(`${label} never applies: ${shadowedBy.name || 'an earlier rule'} matches all its requests first`)
+  })
+
+  return problems
+}
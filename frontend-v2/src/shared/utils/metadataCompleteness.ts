@@ -0,0 +1,277 @@
+/**
+ * Metadata completeness scoring
+ *
+ * Scores each business table by how much of its metadata is filled in: the
+ * table's purpose, aliases and glossary links, and per column the business
+ * meaning, data examples and whether the PII flag has been reviewed. Each
+ * criterion's coverage is weighted (weights are relative, so they needn't add
+ * up to 100). Under-documented tables are then ranked for stewards by how
+ * often they show up in the query history, since gaps in busy tables cost the
+ * most answer quality.
+ */
+
+import type { BusinessColumnInfo, BusinessTableInfo } from '../store/api/businessApi'
+import type { QueryHistoryItem } from '../store/api/queryApi'
+
+export type CompletenessCriterion =
+  | 'businessPurpose'
+  | 'aliases'
+  | 'glossaryLinks'
+  | 'columnMeanings'
+  | 'piiReviewed'
+  | 'examples'
+
+export type CompletenessWeights = Record<CompletenessCriterion, number>
+
+export interface CompletenessCriterionInfo {
+  key: CompletenessCriterion
+  label: string
+  scope: 'table' | 'column'
+  // What a steward does to close the gap
+  action: string
+}
+
+export const COMPLETENESS_CRITERIA: CompletenessCriterionInfo[] = [
+  { key: 'businessPurpose', label: 'Business Purpose', scope: 'table', action: 'Describe the business purpose' },
+  { key: 'aliases', label: 'Natural Language Aliases', scope: 'table', action: 'Add natural language aliases' },
+  { key: 'glossaryLinks', label: 'Glossary Links', scope: 'table', action: 'Link glossary terms' },
+  { key: 'columnMeanings', label: 'Column Meanings', scope: 'column', action: 'Define column business meanings' },
+  { key: 'piiReviewed', label: 'PII Review', scope: 'column', action: 'Review columns for PII' },
+  { key: 'examples', label: 'Data Examples', scope: 'column', action: 'Add column data examples' },
+]
+
+export const DEFAULT_COMPLETENESS_WEIGHTS: CompletenessWeights = {
+  businessPurpose: 25,
+  aliases: 15,
+  glossaryLinks: 15,
+  columnMeanings: 20,
+  piiReviewed: 15,
+  examples: 10,
+}
+
+// Tables scoring below this are queued for stewardship
+export const STEWARDSHIP_THRESHOLD = 80
+
+export interface CriterionCoverage {
+  key: CompletenessCriterion
+  label: string
+  populated: number
+  total: number
+  // 0-100
+  coverage: number
+}
+
+export interface TableCompleteness {
+  tableId: number
+  schemaName: string
+  tableName: string
+  businessOwner?: string
+  // 0-100
+  score: number
+  criteria: CriterionCoverage[]
+  // Criteria not fully covered, heaviest first
+  missing: CompletenessCriterion[]
+}
+
+export interface MetadataCompleteness {
+  average: number
+  tables: TableCompleteness[]
+  // Coverage across all tables, counting tables or columns per criterion
+  criteria: CriterionCoverage[]
+}
+
+export interface StewardshipItem extends TableCompleteness {
+  // Queries in the history that reference the table
+  usage: number
+  priority: number
+}
+
+export interface CompletenessSnapshot {
+  // YYYY-MM-DD
+  date: string
+  average: number
+  queueSize: number
+  coverage: Partial<Record<CompletenessCriterion, number>>
+}
+
+const hasText = (value?: string | null) => typeof value === 'string' && value.trim().length > 0
+const hasItems = (value?: unknown) => Array.isArray(value) ? value.some(item => hasText(String(item))) : hasText(value as string)
+
+// A flagged column has been reviewed; so has an unflagged one a steward has
+// documented, since writing its meaning is when the PII call gets made
+const isPiiReviewed = (column: BusinessColumnInfo) =>
+  Boolean(column.isPII ?? column.isSensitiveData) || hasText(column.businessMeaning)
+
+const columnChecks: Partial<Record<CompletenessCriterion, (column: BusinessColumnInfo) => boolean>> = {
+  columnMeanings: column => hasText(column.businessMeaning),
+  piiReviewed: isPiiReviewed,
+  examples: column => hasItems(column.dataExamples),
+}
+
+const tableChecks: Partial<Record<CompletenessCriterion, (table: BusinessTableInfo) => boolean>> = {
+  businessPurpose: table => hasText(table.businessPurpose),
+  aliases: table => hasItems(table.naturalLanguageAliases),
+  glossaryLinks: table => hasItems(table.businessGlossaryTerms),
+}
+
+const percent = (populated: number, total: number) => (total > 0 ? Math.round((populated / total) * 100) : 100)
+
+const coverageOf = (info: CompletenessCriterionInfo, populated: number, total: number): CriterionCoverage => ({
+  key: info.key,
+  label: info.label,
+  populated,
+  total,
+  coverage: percent(populated, total),
+})
+
+const criterionCoverage = (table: BusinessTableInfo, info: CompletenessCriterionInfo): CriterionCoverage => {
+  if (info.scope === 'table') {
+    return coverageOf(info, tableChecks[info.key]!(table) ? 1 : 0, 1)
+  }
+  const columns = table.columns ?? []
+  return coverageOf(info, columns.filter(columnChecks[info.key]!).length, columns.length)
+}
+
+/**
+ * Weighted coverage of a table's criteria. Column criteria of a table without
+ * columns don't count either way.
+ */
+export function scoreTable(table: BusinessTableInfo, weights: CompletenessWeights = DEFAULT_COMPLETENESS_WEIGHTS): TableCompleteness {
+  const criteria = COMPLETENESS_CRITERIA.map(info => criterionCoverage(table, info))
+  const counted = criteria.filter(criterion => criterion.total > 0 && weights[criterion.key] > 0)
+  const totalWeight = counted.reduce((sum, criterion) => sum + weights[criterion.key], 0)
+  const score = totalWeight > 0
+    ? Math.round(counted.reduce((sum, criterion) => sum + weights[criterion.key] * criterion.coverage, 0) / totalWeight)
+    : 0
+
+  return {
+    tableId: table.id,
+    schemaName: table.schemaName,
+    tableName: table.tableName,
+    ...(table.businessOwner && { businessOwner: table.businessOwner }),
+    score,
+    criteria,
+    missing: counted
+      .filter(criterion => criterion.coverage < 100)
+      .sort((a, b) => weights[b.key] * (100 - b.coverage) - weights[a.key] * (100 - a.coverage))
+      .map(criterion => criterion.key),
+  }
+}
+
+export function scoreMetadata(tables: BusinessTableInfo[], weights: CompletenessWeights = DEFAULT_COMPLETENESS_WEIGHTS): MetadataCompleteness {
+  const scored = tables.map(table => scoreTable(table, weights))
+  const criteria = COMPLETENESS_CRITERIA.map((info, index) => {
+    const populated = scored.reduce((sum, table) => sum + table.criteria[index]!.populated, 0)
+    const total = scored.reduce((sum, table) => sum + table.criteria[index]!.total, 0)
+    return coverageOf(info, populated, total)
+  })
+
+  return {
+    average: scored.length > 0 ? Math.round(scored.reduce((sum, table) => sum + table.score, 0) / scored.length) : 0,
+    tables: scored,
+    criteria,
+  }
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Counts the queries whose SQL references each table, bracketed, quoted or
+ * bare and with or without its schema. A query counts once per table.
+ */
+export function countTableUsage(
+  queries: Array<Pick<QueryHistoryItem, 'sql'>>,
+  tables: Array<Pick<BusinessTableInfo, 'id' | 'tableName'>>
+): Record<number, number> {
+  const patterns = tables.map(table => ({
+    id: table.id,
+    pattern: new RegExp(`(^|[^\\w])[\\["\`]?${escapeRegExp(table.tableName)}[\\]"\`]?(?![\\w])`, 'i'),
+  }))
+
+  const usage: Record<number, number> = {}
+  queries.forEach(({ sql }) => {
+    if (!sql) return
+    patterns.forEach(({ id, pattern }) => {
+      if (pattern.test(sql)) usage[id] = (usage[id] ?? 0) + 1
+    })
+  })
+  return usage
+}
+
+/**
+ * Tables below the threshold, ranked by how far below they are, scaled up by
+ * how often they're queried. Usage scales logarithmically so a handful of
+ * very busy tables doesn't bury everything else.
+ */
+export function buildStewardshipQueue(
+  tables: TableCompleteness[],
+  usage: Record<number, number>,
+  threshold = STEWARDSHIP_THRESHOLD
+): StewardshipItem[] {
+  return tables
+    .filter(table => table.score < threshold)
+    .map(table => {
+      const queries = usage[table.tableId] ?? 0
+      return {
+        ...table,
+        usage: queries,
+        priority: Math.round((100 - table.score) * (1 + Math.log2(1 + queries))),
+      }
+    })
+    .sort((a, b) => b.priority - a.priority || b.usage - a.usage || a.tableName.localeCompare(b.tableName))
+}
+
+const HISTORY_LIMIT = 90
+
+/** Adds today's snapshot, replacing an earlier one from the same day */
+export function recordCompletenessSnapshot(history: CompletenessSnapshot[], snapshot: CompletenessSnapshot): CompletenessSnapshot[] {
+  return [...history.filter(entry => entry.date !== snapshot.date), snapshot]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .slice(-HISTORY_LIMIT)
+}
+
+export function toCompletenessSnapshot(completeness: MetadataCompleteness, queueSize: number, date = new Date()): CompletenessSnapshot {
+  return {
+    date: date.toISOString().slice(0, 10),
+    average: completeness.average,
+    queueSize,
+    coverage: Object.fromEntries(completeness.criteria.map(criterion => [criterion.key, criterion.coverage])),
+  }
+}
+
+const WEIGHTS_STORAGE_KEY = 'metadata-completeness-weights'
+const HISTORY_STORAGE_KEY = 'metadata-completeness-history'
+
+export const loadCompletenessWeights = (): CompletenessWeights => {
+  try {
+    const stored = localStorage.getItem(WEIGHTS_STORAGE_KEY)
+    return stored ? { ...DEFAULT_COMPLETENESS_WEIGHTS, ...JSON.parse(stored) } : DEFAULT_COMPLETENESS_WEIGHTS
+  } catch {
+    return DEFAULT_COMPLETENESS_WEIGHTS
+  }
+}
+
+export const saveCompletenessWeights = (weights: CompletenessWeights): void => {
+  try {
+    localStorage.setItem(WEIGHTS_STORAGE_KEY, JSON.stringify(weights))
+  } catch (error) {
+    console.warn('Failed to save completeness weights:', error)
+  }
+}
+
+export const loadCompletenessHistory = (): CompletenessSnapshot[] => {
+  try {
+    const stored = localStorage.getItem(HISTORY_STORAGE_KEY)
+    return stored ? JSON.parse(stored) : []
+  } catch {
+    return []
+  }
+}
+
+export const saveCompletenessHistory = (history: CompletenessSnapshot[]): void => {
+  try {
+    localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history))
+  } catch (error) {
+    console.warn('Failed to save completeness history:', error)
+  }
+}
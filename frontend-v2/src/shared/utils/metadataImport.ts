@@ -0,0 +1,377 @@
+/**
+ * Business metadata import
+ *
+ * Reads table, column or glossary metadata from CSV/XLSX sheets maintained
+ * by data stewards, maps sheet columns to metadata fields and diffs each row
+ * against the current metadata. A blank cell leaves the current value alone,
+ * so a sheet only needs the columns it changes. List fields are separated by
+ * semicolons, pipes or line breaks, since descriptions often contain commas.
+ */
+
+import * as XLSX from 'xlsx'
+import type {
+  BusinessColumnInfo,
+  BusinessTableInfo,
+  CreateGlossaryTermRequest,
+  CreateTableRequest,
+  EnhancedBusinessGlossaryTerm,
+  UpdateColumnRequest,
+  UpdateGlossaryTermRequest,
+  UpdateTableRequest,
+} from '../store/api/businessApi'
+
+export type ImportTarget = 'table' | 'column' | 'glossary'
+
+export type ImportValue = string | string[] | boolean
+
+export interface ImportField {
+  key: string
+  label: string
+  type: 'text' | 'list' | 'boolean'
+  // Identifies the row's table, column or term rather than changing it
+  identity?: boolean
+  // Other header names stewards use for the field
+  aliases?: string[]
+}
+
+const text = (key: string, label: string, aliases?: string[]): ImportField => ({ key, label, type: 'text', ...(aliases && { aliases }) })
+const list = (key: string, label: string, aliases?: string[]): ImportField => ({ key, label, type: 'list', ...(aliases && { aliases }) })
+const flag = (key: string, label: string, aliases?: string[]): ImportField => ({ key, label, type: 'boolean', ...(aliases && { aliases }) })
+const identity = (key: string, label: string, aliases?: string[]): ImportField => ({ ...text(key, label, aliases), identity: true })
+
+export const IMPORT_FIELDS: Record<ImportTarget, ImportField[]> = {
+  table: [
+    identity('schemaName', 'Schema', ['schema']),
+    identity('tableName', 'Table', ['table', 'name']),
+    text('businessPurpose', 'Business purpose', ['purpose', 'description']),
+    text('businessContext', 'Business context', ['context']),
+    text('primaryUseCase', 'Primary use case', ['use case']),
+    text('businessRules', 'Business rules', ['rules']),
+    text('domainClassification', 'Domain', ['domain classification']),
+    list('commonQueryPatterns', 'Common query patterns', ['query patterns']),
+    list('naturalLanguageAliases', 'Aliases', ['natural language aliases']),
+    list('businessProcesses', 'Business processes', ['processes']),
+    list('analyticalUseCases', 'Analytical use cases'),
+    list('reportingCategories', 'Reporting categories'),
+    list('vectorSearchKeywords', 'Search keywords', ['keywords']),
+    list('businessGlossaryTerms', 'Glossary terms', ['terms']),
+    list('llmContextHints', 'LLM context hints', ['context hints']),
+    list('queryComplexityHints', 'Query complexity hints'),
+    flag('isActive', 'Active', ['is active']),
+  ],
+  column: [
+    identity('schemaName', 'Schema', ['schema']),
+    identity('tableName', 'Table', ['table']),
+    identity('columnName', 'Column', ['column', 'name']),
+    text('businessMeaning', 'Business meaning', ['meaning', 'description']),
+    text('businessContext', 'Business context', ['context']),
+    text('businessRules', 'Business rules', ['rules']),
+    text('validationRules', 'Validation rules'),
+    list('dataExamples', 'Data examples', ['examples']),
+    flag('isKeyColumn', 'Key column', ['key', 'is key']),
+    flag('isSensitiveData', 'Sensitive data', ['pii', 'is pii', 'sensitive']),
+    flag('isActive', 'Active', ['is active']),
+  ],
+  glossary: [
+    identity('term', 'Term', ['name']),
+    text('definition', 'Definition', ['description']),
+    text('category', 'Category'),
+    text('domain', 'Domain'),
+    text('businessOwner', 'Business owner', ['owner']),
+    list('synonyms', 'Synonyms'),
+    list('relatedTerms', 'Related terms'),
+    list('examples', 'Examples'),
+    list('dataExamples', 'Data examples'),
+    list('tags', 'Tags'),
+    flag('isActive', 'Active', ['is active']),
+  ],
+}
+
+// Fields a new record can't be created without, beyond its identity
+const REQUIRED_FOR_CREATE: Record<ImportTarget, string[]> = {
+  table: ['businessPurpose'],
+  column: [],
+  glossary: ['definition'],
+}
+
+export interface ParsedSheet {
+  name: string
+  headers: string[]
+  rows: string[][]
+}
+
+/** Field key to sheet header; unmapped fields are left out */
+export type ImportMapping = Record<string, string>
+
+export interface FieldChange {
+  field: string
+  label: string
+  before?: ImportValue
+  after: ImportValue
+}
+
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'invalid'
+
+export interface ImportChange {
+  // Row number in the sheet, counting the header row
+  rowNumber: number
+  key: string
+  action: ImportAction
+  values: Record<string, ImportValue>
+  changes: FieldChange[]
+  errors: string[]
+  warnings: string[]
+  // Table the row belongs to, for table and column imports
+  schemaName?: string
+  tableName?: string
+  tableId?: number
+  // Existing table, column or term the row updates
+  targetId?: number
+}
+
+export interface ImportCurrentMetadata {
+  tables: BusinessTableInfo[]
+  glossary: EnhancedBusinessGlossaryTerm[]
+}
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '')
+
+const TRUE_VALUES = new Set(['true', 'yes', 'y', '1', 'x'])
+const FALSE_VALUES = new Set(['false', 'no', 'n', '0'])
+
+export function parseWorkbook(workbook: XLSX.WorkBook): ParsedSheet[] {
+  return workbook.SheetNames.flatMap(name => {
+    const sheet = workbook.Sheets[name]
+    if (!sheet) return []
+    const [headerRow = [], ...rows] = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: '', blankrows: false })
+    const headers = headerRow.map(cell => String(cell ?? '').trim())
+    if (headers.every(header => !header)) return []
+    return [{ name, headers, rows: rows.map(row => headers.map((_, index) => String(row[index] ?? '').trim())) }]
+  })
+}
+
+export async function readSpreadsheetFile(file: File): Promise<ParsedSheet[]> {
+  const buffer = await file.arrayBuffer()
+  return parseWorkbook(XLSX.read(buffer, { type: 'array' }))
+}
+
+/** Maps each field to the first header that names it */
+export function suggestImportMapping(headers: string[], target: ImportTarget): ImportMapping {
+  const mapping: ImportMapping = {}
+  const used = new Set<string>()
+  IMPORT_FIELDS[target].forEach(field => {
+    const names = [field.key, field.label, ...(field.aliases ?? [])].map(normalize)
+    const header = headers.find(candidate => !used.has(candidate) && names.includes(normalize(candidate)))
+    if (header) {
+      mapping[field.key] = header
+      used.add(header)
+    }
+  })
+  return mapping
+}
+
+export const splitList = (value: string): string[] =>
+  value.split(/[;|\n]/).map(item => item.trim()).filter(Boolean)
+
+const parseCell = (field: ImportField, cell: string): { value?: ImportValue; error?: string } => {
+  if (field.type === 'list') return { value: splitList(cell) }
+  if (field.type === 'boolean') {
+    const lowered = cell.toLowerCase()
+    if (TRUE_VALUES.has(lowered)) return { value: true }
+    if (FALSE_VALUES.has(lowered)) return { value: false }
+    return { error: `${field.label} must be yes or no, not "${cell}"` }
+  }
+  return { value: cell }
+}
+
+const currentValue = (field: ImportField, record: object | undefined): ImportValue | undefined => {
+  const fields = record as Record<string, unknown> | undefined
+  // Enhanced column DTOs carry the sensitive-data flag as isPII
+  const value = fields?.[field.key] ?? (field.key === 'isSensitiveData' ? fields?.isPII : undefined)
+  if (value === undefined || value === null) return undefined
+  if (field.type === 'list') return Array.isArray(value) ? value.map(String) : splitList(String(value))
+  if (field.type === 'boolean') return Boolean(value)
+  return String(value)
+}
+
+const sameValue = (a: ImportValue | undefined, b: ImportValue) =>
+  Array.isArray(b) ? Array.isArray(a) && a.length === b.length && a.every((item, index) => item === b[index]) : a === b
+
+const lower = (value: ImportValue | undefined) => (typeof value === 'string' ? value.toLowerCase() : '')
+
+const findTable = (tables: BusinessTableInfo[], schemaName: string, tableName: string) =>
+  tables.find(table => table.schemaName.toLowerCase() === schemaName.toLowerCase() && table.tableName.toLowerCase() === tableName.toLowerCase())
+
+/**
+ * Dry run of an import: what each row would create or change. Nothing is
+ * written; rows with errors are marked invalid and can't be applied.
+ */
+export function diffImport(
+  sheet: ParsedSheet,
+  mapping: ImportMapping,
+  target: ImportTarget,
+  current: ImportCurrentMetadata
+): ImportChange[] {
+  const fields = IMPORT_FIELDS[target]
+  const seen = new Map<string, number>()
+
+  return sheet.rows.flatMap((row, index): ImportChange[] => {
+    const rowNumber = index + 2
+    const values: Record<string, ImportValue> = {}
+    const errors: string[] = []
+    const warnings: string[] = []
+
+    fields.forEach(field => {
+      const header = mapping[field.key]
+      const cell = header ? row[sheet.headers.indexOf(header)] ?? '' : ''
+      if (!cell) {
+        if (field.identity) errors.push(`${field.label} is required`)
+        return
+      }
+      const { value, error } = parseCell(field, cell)
+      if (error) errors.push(error)
+      else if (value !== undefined) values[field.key] = value
+    })
+
+    const identityValues = fields.filter(field => field.identity).map(field => values[field.key])
+    if (identityValues.every(value => value === undefined) && Object.keys(values).length === 0) return []
+
+    const key = identityValues.filter(value => typeof value === 'string').join('.')
+    const firstRow = seen.get(key.toLowerCase())
+    if (firstRow !== undefined) errors.push(`Duplicates row ${firstRow}`)
+    else seen.set(key.toLowerCase(), rowNumber)
+
+    let record: object | undefined
+    const location: Partial<ImportChange> = {}
+
+    if (target === 'glossary') {
+      record = current.glossary.find(term => term.term.toLowerCase() === lower(values.term))
+      if (record) location.targetId = (record as EnhancedBusinessGlossaryTerm).id
+    } else {
+      const schemaName = String(values.schemaName ?? '')
+      const tableName = String(values.tableName ?? '')
+      const table = findTable(current.tables, schemaName, tableName)
+      Object.assign(location, { schemaName, tableName }, table && { tableId: table.id })
+
+      if (target === 'table') {
+        record = table
+        if (table) location.targetId = table.id
+      } else if (schemaName && tableName && values.columnName !== undefined) {
+        if (!table) {
+          errors.push(`Table ${schemaName}.${tableName} has no business metadata yet; import it as a table first`)
+        } else {
+          const column = table.columns?.find(candidate => candidate.columnName.toLowerCase() === lower(values.columnName))
+          // Columns come from the database schema, so an import can only describe existing ones
+          if (!column) errors.push(`Column ${values.columnName} isn't in ${schemaName}.${tableName}`)
+          record = column
+          if (column) location.targetId = column.id
+        }
+      }
+    }
+
+    const changes: FieldChange[] = fields
+      .filter(field => !field.identity && values[field.key] !== undefined)
+      .flatMap(field => {
+        const after = values[field.key]!
+        const before = currentValue(field, record)
+        if (record && sameValue(before, after)) return []
+        return [{ field: field.key, label: field.label, ...(before !== undefined && { before }), after }]
+      })
+
+    if (!record && target !== 'column') {
+      REQUIRED_FOR_CREATE[target]
+        .filter(fieldKey => values[fieldKey] === undefined)
+        .forEach(fieldKey => errors.push(`${fields.find(field => field.key === fieldKey)?.label} is required for new entries`))
+    }
+
+    if (changes.some(change => change.field === 'isActive' && change.after === false)) {
+      warnings.push('Deactivates an existing entry')
+    }
+
+    const action: ImportAction = errors.length > 0 ? 'invalid' : !record ? 'create' : changes.length > 0 ? 'update' : 'unchanged'
+    return [{ rowNumber, key, action, values, changes, errors, warnings, ...location }]
+  })
+}
+
+const listValue = (values: Record<string, ImportValue>, key: string, fallback: string[] = []) => {
+  const value = values[key]
+  return Array.isArray(value) ? value : fallback
+}
+
+const textValue = (values: Record<string, ImportValue>, key: string, fallback = '') => {
+  const value = values[key]
+  return typeof value === 'string' ? value : fallback
+}
+
+const asList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(String) : typeof value === 'string' ? splitList(value) : []
+
+export function toCreateTableRequest(values: Record<string, ImportValue>): CreateTableRequest {
+  return {
+    schemaName: textValue(values, 'schemaName'),
+    tableName: textValue(values, 'tableName'),
+    businessPurpose: textValue(values, 'businessPurpose'),
+    businessContext: textValue(values, 'businessContext'),
+    primaryUseCase: textValue(values, 'primaryUseCase'),
+    commonQueryPatterns: listValue(values, 'commonQueryPatterns'),
+    businessRules: textValue(values, 'businessRules'),
+    domainClassification: textValue(values, 'domainClassification'),
+    naturalLanguageAliases: listValue(values, 'naturalLanguageAliases'),
+    businessProcesses: listValue(values, 'businessProcesses'),
+    analyticalUseCases: listValue(values, 'analyticalUseCases'),
+    reportingCategories: listValue(values, 'reportingCategories'),
+    vectorSearchKeywords: listValue(values, 'vectorSearchKeywords'),
+    businessGlossaryTerms: listValue(values, 'businessGlossaryTerms'),
+    llmContextHints: listValue(values, 'llmContextHints'),
+    queryComplexityHints: listValue(values, 'queryComplexityHints'),
+  }
+}
+
+/** The table endpoint replaces every field, so unchanged ones are sent as they are */
+export function toUpdateTableRequest(table: BusinessTableInfo, values: Record<string, ImportValue>): UpdateTableRequest {
+  return {
+    businessPurpose: textValue(values, 'businessPurpose', table.businessPurpose ?? ''),
+    businessContext: textValue(values, 'businessContext', table.businessContext ?? ''),
+    primaryUseCase: textValue(values, 'primaryUseCase', table.primaryUseCase ?? ''),
+    commonQueryPatterns: listValue(values, 'commonQueryPatterns', asList(table.commonQueryPatterns)),
+    businessRules: textValue(values, 'businessRules', table.businessRules ?? ''),
+    domainClassification: textValue(values, 'domainClassification', table.domainClassification ?? ''),
+    naturalLanguageAliases: listValue(values, 'naturalLanguageAliases', asList(table.naturalLanguageAliases)),
+    businessProcesses: listValue(values, 'businessProcesses', asList(table.businessProcesses)),
+    analyticalUseCases: listValue(values, 'analyticalUseCases', asList(table.analyticalUseCases)),
+    reportingCategories: listValue(values, 'reportingCategories', asList(table.reportingCategories)),
+    vectorSearchKeywords: listValue(values, 'vectorSearchKeywords', asList(table.vectorSearchKeywords)),
+    businessGlossaryTerms: listValue(values, 'businessGlossaryTerms', asList(table.businessGlossaryTerms)),
+    llmContextHints: listValue(values, 'llmContextHints', asList(table.llmContextHints)),
+    queryComplexityHints: listValue(values, 'queryComplexityHints', asList(table.queryComplexityHints)),
+    ...(table.businessOwner && { businessOwner: table.businessOwner }),
+    isActive: typeof values.isActive === 'boolean' ? values.isActive : table.isActive,
+  }
+}
+
+const changedValues = (change: ImportChange) =>
+  Object.fromEntries(change.changes.map(({ field, after }) => [field, after])) as Record<string, ImportValue>
+
+export function toUpdateColumnRequest(column: BusinessColumnInfo, change: ImportChange): UpdateColumnRequest {
+  return { columnName: column.columnName, ...changedValues(change) } as UpdateColumnRequest
+}
+
+export function toCreateGlossaryTermRequest(values: Record<string, ImportValue>): CreateGlossaryTermRequest {
+  return {
+    term: textValue(values, 'term'),
+    definition: textValue(values, 'definition'),
+    businessContext: '',
+    category: textValue(values, 'category', 'General'),
+    domain: textValue(values, 'domain', 'General'),
+    businessOwner: textValue(values, 'businessOwner'),
+    synonyms: listValue(values, 'synonyms'),
+    relatedTerms: listValue(values, 'relatedTerms'),
+    examples: listValue(values, 'examples'),
+    dataExamples: listValue(values, 'dataExamples'),
+    tags: listValue(values, 'tags'),
+  }
+}
+
+export function toUpdateGlossaryTermRequest(change: ImportChange): Omit<UpdateGlossaryTermRequest, 'id'> {
+  return changedValues(change) as Omit<UpdateGlossaryTermRequest, 'id'>
+}
@@ -0,0 +1,136 @@
+/**
+ * Offline chat helpers
+ *
+ * Questions typed while offline are queued and sent once the connection
+ * returns. By then the conversation may have moved on, the same question may
+ * have been asked again or the schema may have been refreshed, so each queued
+ * question is checked before it is sent and the differences are kept as
+ * conflict notes on the message. Also splits query results out of cached
+ * transcripts so only the most recent ones are kept offline.
+ */
+
+import type { ChatMessage, QueryMetadata, QueryResult, QueuedQuestion } from '../types/chat'
+
+export interface CachedResult {
+  messageId: string
+  conversationId?: string
+  results: QueryResult[]
+  resultMetadata?: QueryMetadata
+  cachedAt: string
+}
+
+export interface QueueCheck {
+  conflicts: string[]
+  // The same question, answered after this one was queued
+  duplicateOf?: ChatMessage
+}
+
+// Results of this many answers stay available offline
+export const OFFLINE_RESULT_LIMIT = 50
+
+// A queued question this old gets a note that its data may have moved on
+const STALE_QUEUE_MS = 24 * 60 * 60 * 1000
+
+const timeOf = (value: Date | string | undefined): number => (value ? new Date(value).getTime() : NaN)
+
+const normalizeQuestion = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase()
+
+export function createQueuedQuestion(
+  question: Pick<QueuedQuestion, 'messageId' | 'query' | 'queuedAt'>,
+  transcript: ChatMessage[],
+  conversationId?: string
+): QueuedQuestion {
+  const previous = [...transcript].reverse().find(item => item.id !== question.messageId && item.status !== 'queued')
+  return {
+    ...question,
+    ...(conversationId && { conversationId }),
+    ...(previous && { lastMessageId: previous.id }),
+  }
+}
+
+/** Compares a queued question with what happened in the conversation since */
+export function checkQueuedQuestion(
+  item: QueuedQuestion,
+  transcript: ChatMessage[],
+  options: { schemaUpdatedAt?: string; now?: Date } = {}
+): QueueCheck {
+  const queuedAt = timeOf(item.queuedAt)
+  const now = (options.now ?? new Date()).getTime()
+  const conflicts: string[] = []
+
+  const newer = transcript.filter(message =>
+    message.id !== item.messageId &&
+    message.status !== 'queued' &&
+    timeOf(message.timestamp) > queuedAt
+  )
+  const duplicateOf = newer.find(message =>
+    message.type === 'user' && normalizeQuestion(message.content) === normalizeQuestion(item.query)
+  )
+
+  if (duplicateOf) {
+    conflicts.push('You asked this again after queuing it, so the queued copy was not sent.')
+  } else if (newer.length > 0) {
+    conflicts.push(
+      `${newer.length} message${newer.length === 1 ? '' : 's'} arrived in this conversation after you queued this question.`
+    )
+  } else if (item.lastMessageId && !transcript.some(message => message.id === item.lastMessageId)) {
+    conflicts.push('The message this question followed is no longer in the conversation.')
+  }
+
+  if (options.schemaUpdatedAt && timeOf(options.schemaUpdatedAt) > queuedAt) {
+    conflicts.push('The schema was refreshed after this was queued; the answer uses the current schema.')
+  }
+
+  if (now - queuedAt > STALE_QUEUE_MS) {
+    const hours = Math.floor((now - queuedAt) / (60 * 60 * 1000))
+    conflicts.push(`Queued ${hours} hours ago; the answer reflects the data at the time it was sent.`)
+  }
+
+  return { conflicts, ...(duplicateOf && { duplicateOf }) }
+}
+
+/** Transcript without result rows, plus the rows to cache separately */
+export function splitResults(
+  messages: ChatMessage[],
+  conversationId?: string
+): { messages: ChatMessage[]; results: CachedResult[] } {
+  const results: CachedResult[] = []
+  const stripped = messages.map(message => {
+    if (!message.results || message.results.length === 0) return message
+    // Answers are ranked by when they arrived, not when they were last cached
+    const answeredAt = timeOf(message.timestamp)
+    results.push({
+      messageId: message.id,
+      results: message.results,
+      cachedAt: new Date(Number.isNaN(answeredAt) ? Date.now() : answeredAt).toISOString(),
+      ...(conversationId && { conversationId }),
+      ...(message.resultMetadata && { resultMetadata: message.resultMetadata }),
+    })
+    const { results: _results, ...rest } = message
+    return rest
+  })
+  return { messages: stripped, results }
+}
+
+/** Puts cached result rows back on the messages they belong to */
+export function joinResults(messages: ChatMessage[], results: CachedResult[]): ChatMessage[] {
+  const byMessage = new Map(results.map(result => [result.messageId, result]))
+  return messages.map(message => {
+    const cached = byMessage.get(message.id)
+    if (!cached) return message
+    return {
+      ...message,
+      results: cached.results,
+      ...(cached.resultMetadata && !message.resultMetadata && { resultMetadata: cached.resultMetadata }),
+    }
+  })
+}
+
+/** Ids of cached results past the limit, oldest first */
+export function resultsToEvict(results: CachedResult[], limit: number = OFFLINE_RESULT_LIMIT): string[] {
+  return [...results]
+    .sort((a, b) => timeOf(b.cachedAt) - timeOf(a.cachedAt))
+    .slice(limit)
+    .reverse()
+    .map(result => result.messageId)
+}
@@ -0,0 +1,191 @@
+/**
+ * ProcessFlow session comparison
+ *
+ * Lines up the steps of two sessions (typically the same question before and
+ * after a prompt template change, or answered by two models) and computes
+ * what changed between them: timings, confidence, token usage and cost, plus
+ * line diffs of each step's input/output and of the generated SQL.
+ */
+
+import type { ProcessFlowSession, ProcessFlowStep } from '../types/transparency'
+
+export type DiffLineType = 'equal' | 'added' | 'removed'
+
+export interface DiffLine {
+  type: DiffLineType
+  text: string
+  // 1-based line numbers on each side; absent on the side the line isn't in
+  baseLine?: number
+  candidateLine?: number
+}
+
+export interface TextDiff {
+  lines: DiffLine[]
+  added: number
+  removed: number
+  changed: boolean
+}
+
+export interface StepComparison {
+  key: string
+  stepType: ProcessFlowStep['stepType']
+  name: string
+  base?: ProcessFlowStep
+  candidate?: ProcessFlowStep
+  durationDeltaMs?: number
+  confidenceDelta?: number
+  statusChanged: boolean
+  inputDiff: TextDiff
+  outputDiff: TextDiff
+}
+
+export interface SessionComparison {
+  durationDeltaMs?: number
+  confidenceDelta?: number
+  promptTokensDelta?: number
+  completionTokensDelta?: number
+  totalTokensDelta?: number
+  costDelta?: number
+  modelChanged: boolean
+  temperatureChanged: boolean
+  sameQuestion: boolean
+  sqlDiff: TextDiff
+  steps: StepComparison[]
+}
+
+// Inputs beyond this many lines per side are compared line by line without
+// alignment; the LCS table would otherwise grow too large for the browser
+const MAX_ALIGNED_LINES = 2000
+
+const delta = (base?: number, candidate?: number): number | undefined =>
+  base !== undefined && candidate !== undefined ? candidate - base : undefined
+
+/** Step payloads as text: strings as-is, anything else as indented JSON */
+export const stringifyStepData = (data: unknown): string => {
+  if (data === undefined || data === null) return ''
+  if (typeof data === 'string') return data
+  try {
+    return JSON.stringify(data, null, 2)
+  } catch {
+    return String(data)
+  }
+}
+
+const splitLines = (text: string): string[] => (text === '' ? [] : text.replace(/\r\n/g, '\n').split('\n'))
+
+/**
+ * Line diff of two texts based on their longest common subsequence, in the
+ * order a unified diff would print it (removals before additions).
+ */
+export function diffLines(baseText: string, candidateText: string): TextDiff {
+  const a = splitLines(baseText)
+  const b = splitLines(candidateText)
+  const lines: DiffLine[] = []
+
+  if (a.length > MAX_ALIGNED_LINES || b.length > MAX_ALIGNED_LINES) {
+    const length = Math.max(a.length, b.length)
+    for (let i = 0; i < length; i++) {
+      if (a[i] === b[i]) {
+        lines.push({ type: 'equal', text: a[i] as string, baseLine: i + 1, candidateLine: i + 1 })
+        continue
+      }
+      if (i < a.length) lines.push({ type: 'removed', text: a[i] as string, baseLine: i + 1 })
+      if (i < b.length) lines.push({ type: 'added', text: b[i] as string, candidateLine: i + 1 })
+    }
+  } else {
+    // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i]![j] = a[i] === b[j] ? lcs[i + 1]![j + 1]! + 1 : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!)
+      }
+    }
+
+    let i = 0
+    let j = 0
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        lines.push({ type: 'equal', text: a[i] as string, baseLine: i + 1, candidateLine: j + 1 })
+        i++
+        j++
+      } else if (j >= b.length || (i < a.length && lcs[i + 1]![j]! >= lcs[i]![j + 1]!)) {
+        lines.push({ type: 'removed', text: a[i] as string, baseLine: i + 1 })
+        i++
+      } else {
+        lines.push({ type: 'added', text: b[j] as string, candidateLine: j + 1 })
+        j++
+      }
+    }
+  }
+
+  const added = lines.filter(line => line.type === 'added').length
+  const removed = lines.filter(line => line.type === 'removed').length
+  return { lines, added, removed, changed: added + removed > 0 }
+}
+
+/**
+ * Pairs steps by type, in order, so a retried or skipped step doesn't shift
+ * every later step out of line. Steps only one session ran are kept with the
+ * other side empty.
+ */
+export function pairSteps(
+  baseSteps: ProcessFlowStep[],
+  candidateSteps: ProcessFlowStep[]
+): Array<{ key: string; base?: ProcessFlowStep; candidate?: ProcessFlowStep }> {
+  const byStart = (x: ProcessFlowStep, y: ProcessFlowStep) => x.startTime.localeCompare(y.startTime)
+  const remaining = [...candidateSteps].sort(byStart)
+  const pairs: Array<{ key: string; base?: ProcessFlowStep; candidate?: ProcessFlowStep }> = []
+  const occurrences = new Map<string, number>()
+
+  for (const base of [...baseSteps].sort(byStart)) {
+    const occurrence = occurrences.get(base.stepType) ?? 0
+    occurrences.set(base.stepType, occurrence + 1)
+    const index = remaining.findIndex(step => step.stepType === base.stepType)
+    const candidate = index >= 0 ? remaining.splice(index, 1)[0] : undefined
+    pairs.push({ key: `${base.stepType}:${occurrence}`, base, ...(candidate && { candidate }) })
+  }
+
+  for (const candidate of remaining) {
+    const occurrence = occurrences.get(candidate.stepType) ?? 0
+    occurrences.set(candidate.stepType, occurrence + 1)
+    pairs.push({ key: `${candidate.stepType}:${occurrence}`, candidate })
+  }
+
+  return pairs.sort((x, y) =>
+    ((x.base ?? x.candidate) as ProcessFlowStep).startTime.localeCompare(((y.base ?? y.candidate) as ProcessFlowStep).startTime)
+  )
+}
+
+export function compareSessions(base: ProcessFlowSession, candidate: ProcessFlowSession): SessionComparison {
+  const steps = pairSteps(base.steps, candidate.steps).map(({ key, base: baseStep, candidate: candidateStep }) => {
+    const step = (baseStep ?? candidateStep) as ProcessFlowStep
+    return {
+      key,
+      stepType: step.stepType,
+      name: step.name,
+      ...(baseStep && { base: baseStep }),
+      ...(candidateStep && { candidate: candidateStep }),
+      durationDeltaMs: delta(baseStep?.durationMs, candidateStep?.durationMs),
+      confidenceDelta: delta(baseStep?.confidence, candidateStep?.confidence),
+      statusChanged: baseStep?.status !== candidateStep?.status,
+      inputDiff: diffLines(stringifyStepData(baseStep?.inputData), stringifyStepData(candidateStep?.inputData)),
+      outputDiff: diffLines(stringifyStepData(baseStep?.outputData), stringifyStepData(candidateStep?.outputData)),
+    }
+  })
+
+  const a = base.transparency
+  const b = candidate.transparency
+  return {
+    durationDeltaMs: delta(base.totalDurationMs, candidate.totalDurationMs),
+    confidenceDelta: delta(base.overallConfidence, candidate.overallConfidence),
+    promptTokensDelta: delta(a?.promptTokens, b?.promptTokens),
+    completionTokensDelta: delta(a?.completionTokens, b?.completionTokens),
+    totalTokensDelta: delta(a?.totalTokens, b?.totalTokens),
+    costDelta: delta(a?.estimatedCost, b?.estimatedCost),
+    modelChanged: (a?.model ?? '') !== (b?.model ?? ''),
+    temperatureChanged: a?.temperature !== b?.temperature,
+    sameQuestion: base.userQuery.trim().toLowerCase() === candidate.userQuery.trim().toLowerCase(),
+    sqlDiff: diffLines(base.generatedSQL ?? '', candidate.generatedSQL ?? ''),
+    steps,
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * ProcessFlow timeline helpers
+ *
+ * Lays ProcessFlow steps out on a shared time axis for the Gantt view:
+ * sub-steps under their parent, parallel steps side by side, retries as
+ * separate bars. The critical path is the chain of back-to-back leaf steps
+ * that ends with the last one to finish; speeding up anything off that chain
+ * wouldn't make the session finish sooner.
+ */
+
+import type { ProcessFlowStep } from '../types/transparency'
+import type { StepCompletedEvent } from '../services/signalr/transparencyHub'
+
+export interface TimelineRow {
+  step: ProcessFlowStep
+  depth: number
+  // Milliseconds from the start of the first step
+  startOffsetMs: number
+  endOffsetMs: number
+  running: boolean
+  // Not started yet, so there's nothing to place on the axis
+  pending: boolean
+  attempt: number
+  isRetry: boolean
+  // Overlaps a sibling step in time
+  concurrent: boolean
+  critical: boolean
+}
+
+export interface ProcessFlowTimeline {
+  rows: TimelineRow[]
+  startTime: number
+  totalMs: number
+  criticalPathMs: number
+  totalTokens: number
+}
+
+// Steps that start within this many ms of the previous one finishing are
+// treated as back to back; server timestamps aren't precise enough for zero
+const ADJACENCY_TOLERANCE_MS = 5
+
+const parseTime = (value?: string): number | undefined => {
+  if (!value) return undefined
+  const time = Date.parse(value)
+  return Number.isNaN(time) ? undefined : time
+}
+
+const stepStart = (step: ProcessFlowStep): number | undefined =>
+  step.status === 'NotStarted' ? undefined : parseTime(step.startTime)
+
+const stepEnd = (step: ProcessFlowStep, now: number): number | undefined => {
+  const start = stepStart(step)
+  if (start === undefined) return undefined
+  const end = parseTime(step.endTime)
+  if (end !== undefined) return end
+  if (step.durationMs !== undefined && step.status !== 'InProgress') return start + step.durationMs
+  return step.status === 'InProgress' ? Math.max(start, now) : start
+}
+
+export function buildTimeline(steps: ProcessFlowStep[], now: number = Date.now()): ProcessFlowTimeline {
+  const ids = new Set(steps.map(step => step.stepId))
+  const children = new Map<string | undefined, ProcessFlowStep[]>()
+  for (const step of steps) {
+    const parent = step.parentStepId && ids.has(step.parentStepId) ? step.parentStepId : undefined
+    children.set(parent, [...(children.get(parent) ?? []), step])
+  }
+
+  const starts = steps.map(stepStart).filter((time): time is number => time !== undefined)
+  const startTime = starts.length > 0 ? Math.min(...starts) : now
+  const ends = steps.map(step => stepEnd(step, now)).filter((time): time is number => time !== undefined)
+  const endTime = ends.length > 0 ? Math.max(...ends) : startTime
+
+  const rows: TimelineRow[] = []
+  const rowById = new Map<string, TimelineRow>()
+  const visit = (parentId: string | undefined, depth: number) => {
+    const siblings = [...(children.get(parentId) ?? [])].sort(
+      (a, b) => (stepStart(a) ?? Infinity) - (stepStart(b) ?? Infinity)
+    )
+    const seen = new Map<string, number>()
+
+    siblings.forEach(step => {
+      const start = stepStart(step)
+      const end = stepEnd(step, now)
+      const identity = `${step.stepType}:${step.name}`
+      const attempt = step.attempt ?? (seen.get(identity) ?? 0) + 1
+      seen.set(identity, attempt)
+
+      const concurrent = start !== undefined && end !== undefined && siblings.some(other => {
+        if (other === step) return false
+        const otherStart = stepStart(other)
+        const otherEnd = stepEnd(other, now)
+        return otherStart !== undefined && otherEnd !== undefined && otherStart < end && start < otherEnd
+      })
+
+      const row: TimelineRow = {
+        step,
+        depth,
+        startOffsetMs: start !== undefined ? start - startTime : endTime - startTime,
+        endOffsetMs: end !== undefined ? end - startTime : endTime - startTime,
+        running: step.status === 'InProgress',
+        pending: start === undefined,
+        attempt,
+        isRetry: attempt > 1,
+        concurrent,
+        critical: false,
+      }
+      rows.push(row)
+      rowById.set(step.stepId, row)
+      visit(step.stepId, depth + 1)
+    })
+  }
+  visit(undefined, 0)
+
+  // Walk back from the last leaf to finish through the leaves that ended
+  // right before each one started
+  const leaves = rows.filter(row => !row.pending && !children.has(row.step.stepId))
+  let criticalPathMs = 0
+  let current = leaves.reduce<TimelineRow | undefined>(
+    (latest, row) => (!latest || row.endOffsetMs > latest.endOffsetMs ? row : latest),
+    undefined
+  )
+  while (current) {
+    current.critical = true
+    criticalPathMs += current.endOffsetMs - current.startOffsetMs
+    const start = current.startOffsetMs
+    current = leaves
+      .filter(row => !row.critical && row.endOffsetMs <= start + ADJACENCY_TOLERANCE_MS)
+      .reduce<TimelineRow | undefined>(
+        (latest, row) => (!latest || row.endOffsetMs > latest.endOffsetMs ? row : latest),
+        undefined
+      )
+  }
+
+  // A parent is on the critical path when one of its sub-steps is
+  rows.filter(row => row.critical).forEach(row => {
+    let parentId = row.step.parentStepId
+    while (parentId) {
+      const parent = rowById.get(parentId)
+      if (!parent) break
+      parent.critical = true
+      parentId = parent.step.parentStepId
+    }
+  })
+
+  // A parent's tokens are the sum of its sub-steps' when they report their
+  // own, so only count it when none of them do
+  const subStepsReportTokens = (stepId: string): boolean =>
+    (children.get(stepId) ?? []).some(child => child.tokensUsed !== undefined || subStepsReportTokens(child.stepId))
+  const totalTokens = rows
+    .filter(row => !subStepsReportTokens(row.step.stepId))
+    .reduce((sum, row) => sum + (row.step.tokensUsed ?? 0), 0)
+
+  return { rows, startTime, totalMs: endTime - startTime, criticalPathMs, totalTokens }
+}
+
+const STEP_TYPE_PATTERNS: Array<[RegExp, ProcessFlowStep['stepType']]> = [
+  [/semantic|intent|entit/i, 'SemanticAnalysis'],
+  [/schema/i, 'SchemaRetrieval'],
+  [/prompt|context/i, 'PromptBuilding'],
+  [/execut|result/i, 'SQLExecution'],
+]
+
+const inferStepType = (name: string): ProcessFlowStep['stepType'] =>
+  STEP_TYPE_PATTERNS.find(([pattern]) => pattern.test(name))?.[1] ?? 'AIGeneration'
+
+/**
+ * Applies a live StepCompleted event to the known steps. Events without
+ * timing are placed as ending when they arrived, starting where the
+ * previous step ended.
+ */
+export function applyStepCompleted(
+  steps: ProcessFlowStep[],
+  event: StepCompletedEvent,
+  receivedAt: Date = new Date()
+): ProcessFlowStep[] {
+  const data = event.step
+  const existing = steps.find(step => step.stepId === data.id)
+  const endTime = data.endTime ?? existing?.endTime ?? receivedAt.toISOString()
+  const end = Date.parse(endTime)
+
+  const previousEnd = steps
+    .filter(step => step.stepId !== data.id && step.parentStepId === data.parentStepId && step.endTime)
+    .map(step => Date.parse(step.endTime as string))
+    .filter(time => !Number.isNaN(time) && time <= end)
+    .reduce<number | undefined>((latest, time) => (latest === undefined || time > latest ? time : latest), undefined)
+
+  const startTime =
+    data.startTime ??
+    (existing && existing.status !== 'NotStarted' ? existing.startTime : undefined) ??
+    (data.durationMs !== undefined ? new Date(end - data.durationMs).toISOString() : undefined) ??
+    (previousEnd !== undefined ? new Date(previousEnd).toISOString() : endTime)
+
+  const parentStepId = data.parentStepId ?? existing?.parentStepId
+  const attempt = data.attempt ?? existing?.attempt
+  const outputData = existing?.outputData ?? (data.content || undefined)
+  const errorMessage = data.success ? undefined : existing?.errorMessage ?? data.details?.error
+
+  const step: ProcessFlowStep = {
+    ...existing,
+    stepId: data.id,
+    sessionId: event.traceId,
+    stepType: data.stepType ?? existing?.stepType ?? inferStepType(data.stepName),
+    name: data.stepName,
+    status: data.success ? 'Completed' : 'Failed',
+    startTime,
+    endTime,
+    durationMs: data.durationMs ?? Math.max(0, end - Date.parse(startTime)),
+    confidence: data.confidence,
+    tokensUsed: data.tokensAdded,
+    ...(parentStepId && { parentStepId }),
+    ...(attempt !== undefined && { attempt }),
+    ...(outputData !== undefined && { outputData }),
+    ...(errorMessage && { errorMessage }),
+  }
+
+  return existing ? steps.map(item => (item.stepId === data.id ? step : item)) : [...steps, step]
+}
+
+/** Saved steps overlaid with any newer live ones */
+export const mergeSteps = (saved: ProcessFlowStep[], live: ProcessFlowStep[]): ProcessFlowStep[] => {
+  const liveById = new Map(live.map(step => [step.stepId, step]))
+  const merged = saved.map(step => {
+    const update = liveById.get(step.stepId)
+    return update ? { ...step, ...update } : step
+  })
+  const savedIds = new Set(saved.map(step => step.stepId))
+  return [...merged, ...live.filter(step => !savedIds.has(step.stepId))]
+}
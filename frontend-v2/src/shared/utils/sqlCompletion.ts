@@ -0,0 +1,483 @@
+/**
+ * SQL Completion Context
+ *
+ * Works out what the cursor sits on in a partially typed T-SQL query — a
+ * table name after FROM/JOIN, an alias-qualified column, a join condition —
+ * and which tables (with their aliases) are in scope, so editors can offer
+ * completions and hover cards from the live schema instead of static lists.
+ */
+
+import { isReservedWord, SqlComment, SqlSyntaxError, SqlToken, SqlTokenizer } from '@sql'
+
+// Mirrors the foreign key shape of the DB explorer schema
+export interface SchemaForeignKey {
+  name: string
+  column: string
+  referencedTable: string
+  referencedColumn: string
+}
+
+export interface SchemaCatalogColumn {
+  columnName: string
+  dataType?: string
+  businessMeaning?: string
+  businessDataType?: string
+  isNullable?: boolean
+  isPrimaryKey?: boolean
+  sampleValues?: string[]
+}
+
+export interface SchemaCatalogTable {
+  schemaName: string
+  tableName: string
+  businessPurpose?: string
+  domainClassification?: string
+  estimatedRowCount?: number
+  // Only present once the table details have been loaded
+  columns?: SchemaCatalogColumn[]
+  foreignKeys?: SchemaForeignKey[]
+}
+
+// A table referenced in FROM / JOIN / APPLY, as written in the query
+export interface TableBinding {
+  schemaName?: string
+  tableName: string
+  alias?: string
+  offset: number
+}
+
+export type SqlCompletionKind = 'none' | 'table' | 'qualifiedColumn' | 'joinCondition' | 'column' | 'general'
+
+export interface SqlCompletionContext {
+  kind: SqlCompletionKind
+  // Partially typed word under the cursor
+  prefix: string
+  // `o` in `o.Cu|`, or the schema in `FROM dbo.|`
+  qualifier?: string
+  // True right after JOIN / APPLY, where related tables should rank first
+  afterJoin: boolean
+  // Every table referenced by the query, in source order
+  bindings: TableBinding[]
+  // Last table referenced before the cursor (the one an ON clause belongs to)
+  activeBinding?: TableBinding
+}
+
+export interface JoinConditionSuggestion {
+  condition: string
+  foreignKey: SchemaForeignKey
+}
+
+export interface SqlIdentifierMatch {
+  table: SchemaCatalogTable
+  column?: SchemaCatalogColumn
+  binding?: TableBinding
+  startOffset: number
+  endOffset: number
+}
+
+type Clause = 'none' | 'select' | 'from' | 'join' | 'on' | 'where' | 'by' | 'having'
+
+const CLAUSE_KEYWORDS: Record<string, Clause> = {
+  SELECT: 'select',
+  FROM: 'from',
+  JOIN: 'join',
+  APPLY: 'join',
+  ON: 'on',
+  WHERE: 'where',
+  BY: 'by',
+  HAVING: 'having',
+  UNION: 'none',
+  EXCEPT: 'none',
+  INTERSECT: 'none',
+}
+
+const TABLE_INTRODUCERS = new Set(['FROM', 'JOIN', 'APPLY'])
+
+interface LenientTokens {
+  tokens: SqlToken[]
+  comments: SqlComment[]
+  // Offset of an unterminated string, identifier or comment, if any
+  brokenAt?: number
+}
+
+/**
+ * Tokenize text that is still being typed: on an unterminated literal or an
+ * unexpected character the tokens before the problem are returned.
+ */
+const tokenizeLeniently = (sql: string): LenientTokens => {
+  let source = sql
+  let brokenAt: number | undefined
+
+  for (;;) {
+    try {
+      const { tokens, comments } = SqlTokenizer.tokenize(source)
+      return { tokens: tokens.filter(token => token.type !== 'eof'), comments, ...(brokenAt !== undefined ? { brokenAt } : {}) }
+    } catch (error) {
+      if (!(error instanceof SqlSyntaxError)) throw error
+      brokenAt = error.range.start.offset
+      source = source.slice(0, brokenAt)
+    }
+  }
+}
+
+const isPunctuation = (token: SqlToken | undefined, value: string): boolean =>
+  token?.type === 'punctuation' && token.value === value
+
+const isWord = (token: SqlToken | undefined, value: string): boolean => token?.type === 'word' && token.value === value
+
+const isJoinIntroducer = (token: SqlToken | undefined): boolean => isWord(token, 'JOIN') || isWord(token, 'APPLY')
+
+const isNamePart = (token: SqlToken | undefined): token is SqlToken =>
+  !!token && (token.type === 'quotedIdentifier' || (token.type === 'word' && !isReservedWord(token.value)))
+
+// Identifier text as typed (words keep their case, quoted names are unquoted)
+const nameOf = (token: SqlToken): string => (token.type === 'word' ? token.text : token.value)
+
+const sameName = (a: string | undefined, b: string | undefined): boolean =>
+  !!a && !!b && a.toLowerCase() === b.toLowerCase()
+
+// `[dbo].[Orders]`, `dbo.Orders` or `Orders` → { schemaName, tableName }
+const splitTableName = (name: string): { schemaName?: string; tableName: string } => {
+  const parts = name.split('.').map(part => part.replace(/^[[\]"]+|[[\]"]+$/g, ''))
+  const tableName = parts[parts.length - 1] ?? name
+  const schemaName = parts.length > 1 ? parts[parts.length - 2] : undefined
+  return schemaName ? { schemaName, tableName } : { tableName }
+}
+
+/**
+ * Clause in effect at each token, tracked per parenthesis depth so that a
+ * subquery's WHERE does not end the outer FROM list.
+ */
+const computeClauses = (tokens: SqlToken[]): Clause[] => {
+  const stack: Clause[] = ['none']
+  const clauses: Clause[] = []
+
+  tokens.forEach(token => {
+    if (isPunctuation(token, '(')) {
+      clauses.push(stack[stack.length - 1] ?? 'none')
+      stack.push('none')
+      return
+    }
+    if (isPunctuation(token, ')')) {
+      if (stack.length > 1) stack.pop()
+      clauses.push(stack[stack.length - 1] ?? 'none')
+      return
+    }
+    if (token.type === 'word' && token.value in CLAUSE_KEYWORDS) {
+      stack[stack.length - 1] = CLAUSE_KEYWORDS[token.value] ?? 'none'
+    }
+    clauses.push(stack[stack.length - 1] ?? 'none')
+  })
+
+  return clauses
+}
+
+const startsTableReference = (tokens: SqlToken[], clauses: Clause[], index: number): boolean => {
+  const token = tokens[index]
+  if (!token) return false
+  if (token.type === 'word' && TABLE_INTRODUCERS.has(token.value)) return true
+  return isPunctuation(token, ',') && clauses[index] === 'from'
+}
+
+/**
+ * Tables referenced in FROM / JOIN / APPLY with their aliases. Derived
+ * tables and table-valued functions are skipped.
+ */
+const collectTableBindings = (tokens: SqlToken[]): TableBinding[] => {
+  const clauses = computeClauses(tokens)
+  const bindings: TableBinding[] = []
+
+  for (let i = 0; i < tokens.length; i++) {
+    if (!startsTableReference(tokens, clauses, i)) continue
+
+    let j = i + 1
+    const first = tokens[j]
+    if (!isNamePart(first)) continue
+
+    const parts = [nameOf(first)]
+    j++
+    while (isPunctuation(tokens[j], '.') && isNamePart(tokens[j + 1])) {
+      parts.push(nameOf(tokens[j + 1] as SqlToken))
+      j += 2
+    }
+    if (isPunctuation(tokens[j], '(')) continue
+
+    // WITH (NOLOCK), JOIN, WHERE etc. are reserved, so any other name is the alias
+    if (isWord(tokens[j], 'AS')) j++
+    const aliasToken = tokens[j]
+    const alias = isNamePart(aliasToken) ? nameOf(aliasToken) : undefined
+
+    const tableName = parts[parts.length - 1] as string
+    const schemaName = parts.length > 1 ? parts[parts.length - 2] : undefined
+    bindings.push({
+      tableName,
+      offset: first.range.start.offset,
+      ...(schemaName ? { schemaName } : {}),
+      ...(alias ? { alias } : {}),
+    })
+  }
+
+  return bindings
+}
+
+export const findTableBindings = (sql: string): TableBinding[] => collectTableBindings(tokenizeLeniently(sql).tokens)
+
+/**
+ * Analyze the query around `offset` (0-based character offset of the cursor).
+ */
+export const analyzeSqlCompletionContext = (sql: string, offset: number): SqlCompletionContext => {
+  const { tokens, comments, brokenAt } = tokenizeLeniently(sql)
+  const bindings = collectTableBindings(tokens)
+  const activeBinding = [...bindings].reverse().find(binding => binding.offset < offset)
+  const base = { bindings, afterJoin: false, ...(activeBinding ? { activeBinding } : {}) }
+
+  // A line comment runs up to the cursor at the end of its line; a block comment must enclose it
+  const insideComment = comments.some(
+    comment =>
+      comment.range.start.offset < offset &&
+      (comment.block ? offset < comment.range.end.offset : offset <= comment.range.end.offset)
+  )
+  const insideLiteral = tokens.some(
+    token => token.type === 'string' && token.range.start.offset < offset && offset < token.range.end.offset
+  )
+  if (insideComment || insideLiteral || (brokenAt !== undefined && brokenAt < offset)) {
+    return { ...base, kind: 'none', prefix: '' }
+  }
+
+  const before = tokens.filter(token => token.range.end.offset <= offset)
+  const clauses = computeClauses(before)
+  let last = before.length - 1
+  let prefix = ''
+
+  // The word being typed is not part of the context
+  const current = before[last]
+  if (current && current.range.end.offset === offset && (current.type === 'word' || current.type === 'quotedIdentifier')) {
+    prefix = nameOf(current)
+    last--
+  }
+
+  const previous = before[last]
+  const clause = clauses[last] ?? 'none'
+
+  if (isPunctuation(previous, '.')) {
+    const qualifierToken = before[last - 1]
+    if (!qualifierToken || (qualifierToken.type !== 'word' && qualifierToken.type !== 'quotedIdentifier')) {
+      return { ...base, kind: 'general', prefix }
+    }
+    const qualifier = nameOf(qualifierToken)
+    const kind = startsTableReference(before, clauses, last - 2) ? 'table' : 'qualifiedColumn'
+    return { ...base, kind, prefix, qualifier, afterJoin: kind === 'table' && isJoinIntroducer(before[last - 2]) }
+  }
+
+  if (startsTableReference(before, clauses, last)) {
+    return { ...base, kind: 'table', prefix, afterJoin: isJoinIntroducer(previous) }
+  }
+
+  if (isWord(previous, 'ON') || (clause === 'on' && (isWord(previous, 'AND') || isWord(previous, 'OR')))) {
+    return { ...base, kind: 'joinCondition', prefix }
+  }
+
+  if (clause === 'select' || clause === 'where' || clause === 'by' || clause === 'having' || clause === 'on') {
+    return { ...base, kind: 'column', prefix }
+  }
+
+  return { ...base, kind: 'general', prefix }
+}
+
+/**
+ * Find the catalog entry a binding (or a bare `schema.table` name) refers to.
+ */
+export const findCatalogTable = (
+  catalog: SchemaCatalogTable[],
+  reference: { schemaName?: string; tableName: string }
+): SchemaCatalogTable | undefined =>
+  catalog.find(
+    table =>
+      sameName(table.tableName, reference.tableName) &&
+      (!reference.schemaName || sameName(table.schemaName, reference.schemaName))
+  )
+
+/**
+ * Resolve `o` in `o.CustomerId` to its binding: aliases first, then table names.
+ */
+export const resolveQualifier = (qualifier: string, bindings: TableBinding[]): TableBinding | undefined =>
+  bindings.find(binding => sameName(binding.alias, qualifier)) ??
+  bindings.find(binding => sameName(binding.tableName, qualifier))
+
+// How a binding is referred to in the query: its alias, else its table name
+export const bindingReference = (binding: TableBinding): string => binding.alias ?? binding.tableName
+
+const referencesTable = (foreignKey: SchemaForeignKey, table: { schemaName?: string; tableName: string }): boolean => {
+  const target = splitTableName(foreignKey.referencedTable)
+  return (
+    sameName(target.tableName, table.tableName) &&
+    (!target.schemaName || !table.schemaName || sameName(target.schemaName, table.schemaName))
+  )
+}
+
+/**
+ * ON-clause conditions between the table just joined and the tables before
+ * it, from foreign keys in either direction.
+ */
+export const suggestJoinConditions = (
+  context: Pick<SqlCompletionContext, 'bindings' | 'activeBinding'>,
+  catalog: SchemaCatalogTable[]
+): JoinConditionSuggestion[] => {
+  const target = context.activeBinding
+  if (!target) return []
+
+  const targetTable = findCatalogTable(catalog, target)
+  const suggestions: JoinConditionSuggestion[] = []
+
+  context.bindings
+    .filter(binding => binding.offset < target.offset)
+    .forEach(binding => {
+      const table = findCatalogTable(catalog, binding)
+
+      targetTable?.foreignKeys
+        ?.filter(foreignKey => referencesTable(foreignKey, binding))
+        .forEach(foreignKey => {
+          suggestions.push({
+            condition: `${bindingReference(target)}.${foreignKey.column} = ${bindingReference(binding)}.${foreignKey.referencedColumn}`,
+            foreignKey,
+          })
+        })
+
+      table?.foreignKeys
+        ?.filter(foreignKey => referencesTable(foreignKey, target))
+        .forEach(foreignKey => {
+          suggestions.push({
+            condition: `${bindingReference(target)}.${foreignKey.referencedColumn} = ${bindingReference(binding)}.${foreignKey.column}`,
+            foreignKey,
+          })
+        })
+    })
+
+  return suggestions
+}
+
+/**
+ * Catalog tables that can be joined to the tables already in the query,
+ * keyed by `schema.table`, with the ON condition to use for each.
+ */
+export const findRelatedTables = (
+  bindings: TableBinding[],
+  catalog: SchemaCatalogTable[],
+  aliasFor: (table: SchemaCatalogTable) => string
+): Map<string, string> => {
+  const related = new Map<string, string>()
+
+  bindings.forEach(binding => {
+    const bound = findCatalogTable(catalog, binding)
+
+    // Outgoing keys: the bound table references a catalog table
+    bound?.foreignKeys?.forEach(foreignKey => {
+      const target = findCatalogTable(catalog, splitTableName(foreignKey.referencedTable))
+      if (!target) return
+      const key = `${target.schemaName}.${target.tableName}`
+      if (!related.has(key)) {
+        related.set(key, `${aliasFor(target)}.${foreignKey.referencedColumn} = ${bindingReference(binding)}.${foreignKey.column}`)
+      }
+    })
+
+    // Incoming keys: a catalog table (with loaded details) references the bound table
+    catalog.forEach(table => {
+      table.foreignKeys
+        ?.filter(foreignKey => referencesTable(foreignKey, binding))
+        .forEach(foreignKey => {
+          const key = `${table.schemaName}.${table.tableName}`
+          if (!related.has(key)) {
+            related.set(key, `${aliasFor(table)}.${foreignKey.column} = ${bindingReference(binding)}.${foreignKey.referencedColumn}`)
+          }
+        })
+    })
+  })
+
+  return related
+}
+
+/**
+ * Short alias for a table (`OrderLines` → `ol`, `tbl_daily_actions` → `tda`)
+ * that does not clash with aliases already used in the query.
+ */
+export const suggestTableAlias = (tableName: string, taken: string[]): string => {
+  const words = tableName
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[\s_]+/)
+    .filter(Boolean)
+  const base = (words.map(word => word.charAt(0)).join('') || 't').toLowerCase()
+  const used = new Set(taken.map(alias => alias.toLowerCase()))
+
+  if (!used.has(base) && !isReservedWord(base)) return base
+  for (let suffix = 2; ; suffix++) {
+    if (!used.has(`${base}${suffix}`)) return `${base}${suffix}`
+  }
+}
+
+/**
+ * Resolve the identifier at `offset` to a catalog table or column, using
+ * aliases and the tables in scope (`o.Total` → Orders.Total).
+ */
+export const resolveSqlIdentifier = (
+  sql: string,
+  offset: number,
+  catalog: SchemaCatalogTable[]
+): SqlIdentifierMatch | null => {
+  const { tokens } = tokenizeLeniently(sql)
+  const index = tokens.findIndex(
+    token =>
+      (token.type === 'word' || token.type === 'quotedIdentifier') &&
+      token.range.start.offset <= offset &&
+      offset <= token.range.end.offset
+  )
+  const token = tokens[index]
+  if (!token || (token.type === 'word' && isReservedWord(token.value))) return null
+
+  const bindings = collectTableBindings(tokens)
+  const name = nameOf(token)
+  const span = { startOffset: token.range.start.offset, endOffset: token.range.end.offset }
+
+  // Walk back over `a.b.` to find what qualifies this part
+  const qualifiers: string[] = []
+  let k = index - 1
+  while (isPunctuation(tokens[k], '.') && isNamePart(tokens[k - 1])) {
+    qualifiers.unshift(nameOf(tokens[k - 1] as SqlToken))
+    k -= 2
+  }
+  const isTableReference = startsTableReference(tokens, computeClauses(tokens), k)
+
+  if (isTableReference) {
+    const table = findCatalogTable(catalog, {
+      tableName: name,
+      ...(qualifiers.length > 0 ? { schemaName: qualifiers[qualifiers.length - 1] as string } : {}),
+    })
+    return table ? { table, ...span } : null
+  }
+
+  const qualifier = qualifiers[qualifiers.length - 1]
+  if (qualifier) {
+    const binding = resolveQualifier(qualifier, bindings)
+    const table = binding
+      ? findCatalogTable(catalog, binding)
+      : findCatalogTable(catalog, { tableName: qualifier })
+    const column = table?.columns?.find(candidate => sameName(candidate.columnName, name))
+    if (!table || !column) return null
+    return { table, column, ...(binding ? { binding } : {}), ...span }
+  }
+
+  // An alias or table name on its own
+  const aliased = resolveQualifier(name, bindings)
+  if (aliased) {
+    const table = findCatalogTable(catalog, aliased)
+    return table ? { table, binding: aliased, ...span } : null
+  }
+
+  // An unqualified column of one of the tables in scope
+  for (const binding of bindings) {
+    const table = findCatalogTable(catalog, binding)
+    const column = table?.columns?.find(candidate => sameName(candidate.columnName, name))
+    if (table && column) return { table, column, binding, ...span }
+  }
+
+  return null
+}
@@ -17,10 +17,15 @@ export default defineConfig({
       '@shared': path.resolve(__dirname, './src/shared'),
       '@chat': path.resolve(__dirname, './src/apps/chat'),
       '@admin': path.resolve(__dirname, './src/apps/admin'),
+      // T-SQL tokenizer, parser and safety policy, shared with the legacy frontend
+      '@sql': path.resolve(__dirname, '../frontend/src/utils/sql'),
     },
   },
   server: {
     port: 3001,
+    fs: {
+      allow: ['.', '../frontend/src/utils/sql'],
+    },
     proxy: {
       '/api': {
         target: 'http://localhost:55244',
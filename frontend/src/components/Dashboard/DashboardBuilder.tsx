@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import {
   Row,
   Col,
@@ -13,6 +13,9 @@ import {
   Slider,
   Tag,
   Tooltip,
+  Alert,
+  Spin,
+  message,
 } from 'antd';
 import {
   PlusOutlined,
@@ -28,55 +31,54 @@ import {
   DotChartOutlined,
   AreaChartOutlined,
   HomeOutlined,
-  DashboardOutlined
+  DashboardOutlined,
+  ReloadOutlined
 } from '@ant-design/icons';
 import { DragDropContext, Droppable, Draggable } from 'react-beautiful-dnd';
-import { ResponsiveContainer, BarChart, Bar, LineChart, Line, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, Legend } from 'recharts';
 import { useDashboardResult } from '../../hooks/useCurrentResult';
 import { PageLayout, PageSection, PageGrid } from '../core/Layouts';
 import { Card } from '../core/Card';
-
-const { Title, Text } = Typography;
+import { ApiService } from '../../services/api';
+import { savedQueryService } from '../../services/savedQueryService';
+import { DashboardDefinition, DashboardWidgetDefinition, GlobalFilter, SavedQuery } from '../../types/visualization';
+import { DashboardWidget } from './DashboardWidget';
+import { GlobalFilterBar } from './GlobalFilterBar';
+import { useCrossFilter } from './hooks/useCrossFilter';
+import { useSavedQueryResults } from './hooks/useSavedQueryResults';
+import { distinctValues, inferGlobalFilter } from './utils/crossFilter';
+
+const { Text } = Typography;
 const { Option } = Select;
 const { TextArea } = Input;
 
-interface ChartConfig {
-  id: string;
-  type: 'bar' | 'line' | 'pie' | 'table' | 'scatter' | 'area';
-  title: string;
-  dataSource: string;
-  xAxis?: string;
-  yAxis?: string;
-  size: 'small' | 'medium' | 'large' | 'full';
-  position: { x: number; y: number };
-  config: Record<string, any>;
-}
-
-interface DashboardConfig {
-  id: string;
-  title: string;
-  description: string;
-  charts: ChartConfig[];
-  layout: 'grid' | 'freeform';
-  theme: 'light' | 'dark';
-  autoRefresh: boolean;
-  refreshInterval: number;
-}
+type ChartConfig = DashboardWidgetDefinition;
+type DashboardConfig = DashboardDefinition;
 
-interface StoredData {
-  data: any[];
-  columns: string[];
-  query: string;
-  timestamp: number;
+interface DashboardBuilderProps {
+  /** Opens a dashboard saved on the server instead of a blank one */
+  dashboardId?: string | undefined;
+  initialPreview?: boolean;
 }
 
-const DashboardBuilder: React.FC = () => {
+const newDashboard = (): DashboardConfig => ({
+  id: 'dashboard-' + Date.now(),
+  title: 'New Dashboard',
+  description: 'Interactive dashboard created with AI assistance',
+  widgets: [],
+  layout: 'grid',
+  theme: 'light',
+  autoRefresh: false,
+  refreshInterval: 30,
+  globalFilters: [],
+});
+
+const DashboardBuilder: React.FC<DashboardBuilderProps> = ({ dashboardId, initialPreview = false }) => {
   // Use global result system for dashboard creation
-  const { result, hasResult, canCreateDashboard, suggestedChartTypes } = useDashboardResult();
+  const { result, query, hasResult, canCreateDashboard, suggestedChartTypes } = useDashboardResult();
 
   // Debug logging in development
   useEffect(() => {
-    if (process.env.NODE_ENV === 'development') {
+    if (process.env['NODE_ENV'] === 'development') {
       console.log('🎯 DashboardBuilder - Result status:', {
         hasResult,
         canCreateDashboard,
@@ -88,24 +90,36 @@ const DashboardBuilder: React.FC = () => {
     }
   }, [hasResult, canCreateDashboard, result]);
 
-  const [dashboardConfig, setDashboardConfig] = useState<DashboardConfig>({
-    id: 'dashboard-' + Date.now(),
-    title: 'New Dashboard',
-    description: 'Interactive dashboard created with AI assistance',
-    charts: [],
-    layout: 'grid',
-    theme: 'light',
-    autoRefresh: false,
-    refreshInterval: 30,
-  });
+  const [dashboardConfig, setDashboardConfig] = useState<DashboardConfig>(newDashboard);
 
-  const [availableData, setAvailableData] = useState<StoredData[]>([]);
+  const [savedQueries, setSavedQueries] = useState<SavedQuery[]>([]);
+  const [loadingDashboard, setLoadingDashboard] = useState(false);
+  const [saving, setSaving] = useState(false);
   const [isAddChartModalVisible, setIsAddChartModalVisible] = useState(false);
   const [isSettingsModalVisible, setIsSettingsModalVisible] = useState(false);
-  const [previewMode, setPreviewMode] = useState(false);
+  const [previewMode, setPreviewMode] = useState(initialPreview);
   const [selectedDataSource, setSelectedDataSource] = useState<string>('');
   const [, setSelectedChart] = useState<ChartConfig | null>(null);
 
+  const {
+    filters,
+    selections,
+    setGlobalFilterValue,
+    selectFromWidget,
+    clearWidgetSelection,
+    removeFilter,
+    clearAll
+  } = useCrossFilter(dashboardConfig.globalFilters);
+
+  // Saved queries behind the widgets, executed live
+  const dashboardQueries = useMemo(
+    () => savedQueries.filter(savedQuery => dashboardConfig.widgets.some(chart => chart.savedQueryId === savedQuery.id)),
+    [savedQueries, dashboardConfig.widgets]
+  );
+  const { results: queryResults, getResult, refresh } = useSavedQueryResults(dashboardQueries, {
+    autoRefresh: dashboardConfig.autoRefresh,
+    refreshInterval: dashboardConfig.refreshInterval
+  });
 
   // Chart type options
   const chartTypes = [
@@ -117,53 +131,95 @@ const DashboardBuilder: React.FC = () => {
     { value: 'table', label: 'Data Table', icon: <TableOutlined /> },
   ];
 
-  // Load available data sources
+  // Load the saved query registry and the dashboard definition
   useEffect(() => {
-    const loadDataSources = () => {
-      const sources: StoredData[] = [];
-
-      // Load from global result system
-      if (hasResult && result?.result?.data) {
-        sources.push({
-          data: result.result.data,
-          columns: result.result.metadata?.columns?.map((col: any) => col.name || col) || [],
-          query: result.query || 'Current Query Result',
-          timestamp: Date.now()
-        });
-      }
-
-      // Load from localStorage as fallback
-      const storedResult = localStorage.getItem('current-query-result');
-      if (storedResult) {
-        try {
-          const parsed = JSON.parse(storedResult);
-          sources.push({
-            data: parsed.data || [],
-            columns: parsed.columns || [],
-            query: parsed.query || 'Stored Query Result',
-            timestamp: parsed.timestamp || Date.now()
-          });
-        } catch (error) {
-          console.error('Error parsing stored data:', error);
+    let cancelled = false;
+
+    const loadDashboard = async () => {
+      setLoadingDashboard(true);
+      try {
+        const [queries, definition] = await Promise.all([
+          ApiService.getSavedQueries(),
+          dashboardId ? ApiService.getDashboard(dashboardId) : Promise.resolve(null)
+        ]);
+        if (cancelled) return;
+        setSavedQueries(queries);
+        if (definition) {
+          setDashboardConfig({ ...newDashboard(), ...definition, globalFilters: definition.globalFilters ?? [] });
         }
+      } catch (error) {
+        console.error('Failed to load dashboard:', error);
+        if (!cancelled) message.error('Failed to load dashboard');
+      } finally {
+        if (!cancelled) setLoadingDashboard(false);
       }
+    };
 
-      // TODO: Replace with actual data sources from database
+    loadDashboard();
+    return () => {
+      cancelled = true;
+    };
+  }, [dashboardId]);
 
-      sources.push({
-        data: generateSampleData('users'),
-        columns: ['date', 'active_users', 'new_signups', 'churn_rate'],
-        query: 'Sample User Analytics',
-        timestamp: Date.now() - 172800000
+  // Register the current query result as a saved query widgets can use
+  const handleSaveCurrentQuery = async () => {
+    if (!result?.sql && !query) return;
+    try {
+      const savedQuery = await ApiService.createSavedQuery({
+        name: query || 'Untitled query',
+        question: query,
+        sql: result?.sql ?? '',
+        parameters: {}
       });
+      setSavedQueries(prev => [...prev, savedQuery]);
+      message.success('Query saved');
+    } catch (error) {
+      console.error('Failed to save query:', error);
+      message.error('Failed to save query');
+    }
+  };
 
-      setAvailableData(sources);
-    };
+  // Persist the dashboard definition
+  const handleSaveDashboard = async () => {
+    setSaving(true);
+    try {
+      const saved = await ApiService.saveDashboard(dashboardConfig);
+      setDashboardConfig(prev => ({ ...prev, ...saved }));
+      message.success('Dashboard saved');
+    } catch (error) {
+      console.error('Failed to save dashboard:', error);
+      message.error('Failed to save dashboard');
+    } finally {
+      setSaving(false);
+    }
+  };
 
-    loadDataSources();
-  }, [hasResult, result]);
+  // Columns of the saved query picked in the Add Chart form
+  const [sourceColumns, setSourceColumns] = useState<string[]>([]);
+  const [loadingColumns, setLoadingColumns] = useState(false);
+  useEffect(() => {
+    const savedQuery = savedQueries.find(candidate => candidate.id === selectedDataSource);
+    if (!savedQuery) {
+      setSourceColumns([]);
+      return undefined;
+    }
 
-  // TODO: Replace with actual data loading from database
+    let cancelled = false;
+    setLoadingColumns(true);
+    savedQueryService.execute(savedQuery)
+      .then(response => {
+        if (cancelled) return;
+        const rows = response.result?.data ?? [];
+        setSourceColumns(response.result?.metadata?.columns?.map((col: any) => col.name || col) ?? Object.keys(rows[0] ?? {}));
+      })
+      .catch(error => console.error('Failed to load saved query columns:', error))
+      .finally(() => {
+        if (!cancelled) setLoadingColumns(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedDataSource, savedQueries]);
 
   // Add new chart
   const handleAddChart = (values: any) => {
@@ -171,17 +227,21 @@ const DashboardBuilder: React.FC = () => {
       id: 'chart-' + Date.now(),
       type: values.type,
       title: values.title,
-      dataSource: values.dataSource,
+      savedQueryId: values.savedQueryId,
       xAxis: values.xAxis,
       yAxis: values.yAxis,
       size: values.size || 'medium',
-      position: { x: 0, y: dashboardConfig.charts.length },
-      config: {}
+      position: { x: 0, y: dashboardConfig.widgets.length },
+      config: {},
+      interaction: {
+        enableDataPointSelection: values.crossFilter !== false,
+        enableBrush: values.crossFilter !== false && values.type !== 'pie'
+      }
     };
 
     setDashboardConfig(prev => ({
       ...prev,
-      charts: [...prev.charts, newChart]
+      widgets: [...prev.widgets, newChart]
     }));
 
     setIsAddChartModalVisible(false);
@@ -192,122 +252,122 @@ const DashboardBuilder: React.FC = () => {
   const handleRemoveChart = (chartId: string) => {
     setDashboardConfig(prev => ({
       ...prev,
-      charts: prev.charts.filter(chart => chart.id !== chartId)
+      widgets: prev.widgets.filter(chart => chart.id !== chartId)
     }));
+    clearWidgetSelection(chartId);
   };
 
   // Handle drag end
   const handleDragEnd = (result: any) => {
     if (!result.destination) return;
 
-    const items = Array.from(dashboardConfig.charts);
+    const items = Array.from(dashboardConfig.widgets);
     const [reorderedItem] = items.splice(result.source.index, 1);
+    if (!reorderedItem) return;
     items.splice(result.destination.index, 0, reorderedItem);
 
     setDashboardConfig(prev => ({
       ...prev,
-      charts: items
+      widgets: items
     }));
   };
 
-  // Get data for chart
-  const getChartData = (chart: ChartConfig) => {
-    const dataSource = availableData.find(d => d.query === chart.dataSource);
-    return (dataSource && Array.isArray(dataSource.data)) ? dataSource.data : [];
+  // Results loaded for the dashboard's queries, for filter controls
+  const loadedResults = useMemo(
+    () => Object.values(queryResults).filter(queryResult => queryResult.rows.length > 0),
+    [queryResults]
+  );
+  const filterableColumns = useMemo(
+    () => Array.from(new Set(loadedResults.flatMap(queryResult => queryResult.columns))),
+    [loadedResults]
+  );
+
+  const getFilterOptions = useCallback(
+    (column: string) => distinctValues(
+      loadedResults.filter(queryResult => queryResult.columns.includes(column)).flatMap(queryResult => queryResult.rows),
+      column
+    ),
+    [loadedResults]
+  );
+
+  const handleAddFilter = (column: string) => {
+    const rows = loadedResults.find(queryResult => queryResult.columns.includes(column))?.rows ?? [];
+    const filter = inferGlobalFilter(column, rows) ?? { name: column, type: 'multiSelect', column };
+    setDashboardConfig(prev => ({ ...prev, globalFilters: [...prev.globalFilters, filter] }));
+  };
+
+  const handleRemoveFilter = (filter: GlobalFilter) => {
+    setGlobalFilterValue(filter, null);
+    setDashboardConfig(prev => ({
+      ...prev,
+      globalFilters: prev.globalFilters.filter(existing => existing.name !== filter.name)
+    }));
   };
 
   // Render chart
   const renderChart = (chart: ChartConfig) => {
-    try {
-      const data = getChartData(chart);
-      if (!data || !Array.isArray(data) || data.length === 0) {
-        return (
-          <div style={{ padding: 40, textAlign: 'center' }}>
-            <Text type="secondary">No data available</Text>
-          </div>
-        );
-      }
+    const savedQuery = savedQueries.find(candidate => candidate.id === chart.savedQueryId);
+    if (!savedQuery) {
+      return (
+        <Alert
+          type="warning"
+          showIcon
+          message="Saved query not found"
+          description="The query behind this chart was deleted or is not shared with you."
+        />
+      );
+    }
 
-      const chartData = data.slice(0, 100); // Limit for performance
-
-    switch (chart.type) {
-      case 'bar':
-        return (
-          <ResponsiveContainer width="100%" height={300}>
-            <BarChart data={chartData}>
-              <CartesianGrid strokeDasharray="3 3" />
-              <XAxis dataKey={chart.xAxis || 'name'} />
-              <YAxis />
-              <RechartsTooltip />
-              <Legend />
-              <Bar dataKey={chart.yAxis || 'value'} fill="#1890ff" />
-            </BarChart>
-          </ResponsiveContainer>
-        );
-
-      case 'line':
-        return (
-          <ResponsiveContainer width="100%" height={300}>
-            <LineChart data={chartData}>
-              <CartesianGrid strokeDasharray="3 3" />
-              <XAxis dataKey={chart.xAxis || 'name'} />
-              <YAxis />
-              <RechartsTooltip />
-              <Legend />
-              <Line type="monotone" dataKey={chart.yAxis || 'value'} stroke="#1890ff" />
-            </LineChart>
-          </ResponsiveContainer>
-        );
-
-      case 'pie':
-        return (
-          <ResponsiveContainer width="100%" height={300}>
-            <PieChart>
-              <Pie
-                data={chartData}
-                dataKey={chart.yAxis || 'value'}
-                nameKey={chart.xAxis || 'name'}
-                cx="50%"
-                cy="50%"
-                outerRadius={100}
-                fill="#1890ff"
-              >
-                {chartData.map((entry, index) => (
-                  <Cell key={`cell-${index}`} fill={`hsl(${index * 45}, 70%, 60%)`} />
-                ))}
-              </Pie>
-              <RechartsTooltip />
-              <Legend />
-            </PieChart>
-          </ResponsiveContainer>
-        );
-
-      default:
-        return (
-          <div style={{ padding: 40, textAlign: 'center' }}>
-            <Text>Chart type "{chart.type}" not implemented</Text>
-          </div>
-        );
+    const queryResult = getResult(savedQuery.id);
+    if (queryResult.error) {
+      return (
+        <Alert
+          type="error"
+          showIcon
+          message="Query failed"
+          description={queryResult.error}
+          action={<Button size="small" onClick={() => refresh(savedQuery.id)}>Retry</Button>}
+        />
+      );
     }
-    } catch (error) {
-      console.error('Error rendering chart:', error);
+    if (queryResult.loading && queryResult.lastUpdated === null) {
       return (
         <div style={{ padding: 40, textAlign: 'center' }}>
-          <Text type="danger">Error rendering chart</Text>
+          <Spin />
         </div>
       );
     }
+
+    return (
+      <Spin spinning={queryResult.loading} size="small">
+        <DashboardWidget
+          id={chart.id}
+          type={chart.type}
+          xAxis={chart.xAxis}
+          yAxis={chart.yAxis}
+          rows={queryResult.rows}
+          columns={queryResult.columns}
+          sql={queryResult.sql || savedQuery.sql}
+          parameters={savedQuery.parameters}
+          serverSide={queryResult.truncated}
+          filters={filters}
+          selection={selections.get(chart.id)}
+          interaction={chart.interaction}
+          onSelect={selectFromWidget}
+          height={280}
+        />
+      </Spin>
+    );
   };
 
   return (
     <PageLayout
       title="Dashboard Builder"
       subtitle="Create interactive dashboards from your query results"
-      breadcrumbs={[
-        { title: 'Home', href: '/', icon: <HomeOutlined /> },
+      breadcrumbItems={[
+        { title: 'Home', path: '/', icon: <HomeOutlined /> },
         { title: 'Dashboard Builder', icon: <DashboardOutlined /> }
       ]}
-      maxWidth="xl"
       actions={
         <Space>
           <Button
@@ -323,7 +383,10 @@ const DashboardBuilder: React.FC = () => {
           >
             Settings
           </Button>
-          <Button icon={<SaveOutlined />}>
+          <Button icon={<ReloadOutlined />} onClick={() => refresh()} disabled={dashboardQueries.length === 0}>
+            Refresh
+          </Button>
+          <Button icon={<SaveOutlined />} loading={saving} onClick={handleSaveDashboard}>
             Save Dashboard
           </Button>
           <Button icon={<ShareAltOutlined />}>
@@ -346,11 +409,17 @@ const DashboardBuilder: React.FC = () => {
         padding="lg"
       >
         <div style={{ display: 'flex', gap: 'var(--space-2)', flexWrap: 'wrap' }}>
+          {loadingDashboard && <Spin size="small" />}
           {hasResult && (
             <Tag color="green">
               ✓ Current Result Available ({result?.result?.data?.length || 0} rows)
             </Tag>
           )}
+          {hasResult && !previewMode && (
+            <Button size="small" icon={<SaveOutlined />} onClick={handleSaveCurrentQuery}>
+              Save as Query
+            </Button>
+          )}
           {canCreateDashboard && (
             <Tag color="blue">
               Dashboard Ready
@@ -362,7 +431,7 @@ const DashboardBuilder: React.FC = () => {
             </Tag>
           )}
           {/* Debug info in development */}
-          {process.env.NODE_ENV === 'development' && (
+          {process.env['NODE_ENV'] === 'development' && (
             <Tag color="orange">
               Debug: hasResult={String(hasResult)}, source={result?.source || 'none'}
             </Tag>
@@ -370,6 +439,24 @@ const DashboardBuilder: React.FC = () => {
         </div>
       </PageSection>
 
+      {/* Global filters and chart selections */}
+      {dashboardConfig.widgets.length > 0 && (
+        <GlobalFilterBar
+          globalFilters={dashboardConfig.globalFilters}
+          activeFilters={filters}
+          getOptions={getFilterOptions}
+          onChange={setGlobalFilterValue}
+          onRemoveActive={removeFilter}
+          onClearAll={clearAll}
+          widgetTitle={widgetId => dashboardConfig.widgets.find(chart => chart.id === widgetId)?.title}
+          {...(!previewMode && {
+            availableColumns: filterableColumns,
+            onAddFilter: handleAddFilter,
+            onRemoveFilter: handleRemoveFilter
+          })}
+        />
+      )}
+
       {/* Add Chart Modal */}
       <Modal
         title="Add New Chart"
@@ -384,7 +471,7 @@ const DashboardBuilder: React.FC = () => {
         <Form
           layout="vertical"
           onFinish={handleAddChart}
-          initialValues={{ size: 'medium' }}
+          initialValues={{ size: 'medium', crossFilter: true }}
         >
           <Form.Item
             name="title"
@@ -412,17 +499,20 @@ const DashboardBuilder: React.FC = () => {
           </Form.Item>
 
           <Form.Item
-            name="dataSource"
-            label="Data Source"
-            rules={[{ required: true, message: 'Please select data source' }]}
+            name="savedQueryId"
+            label="Saved Query"
+            rules={[{ required: true, message: 'Please select a saved query' }]}
+            extra={savedQueries.length === 0 ? 'Save a query result to use it as a data source' : undefined}
           >
             <Select
-              placeholder="Select data source"
+              placeholder="Select saved query"
+              showSearch
+              optionFilterProp="children"
               onChange={(value) => setSelectedDataSource(value)}
             >
-              {availableData.map((source, index) => (
-                <Option key={index} value={source.query}>
-                  {source.query} ({source.data?.length || 0} rows)
+              {savedQueries.map(savedQuery => (
+                <Option key={savedQuery.id} value={savedQuery.id}>
+                  {savedQuery.name}
                 </Option>
               ))}
             </Select>
@@ -431,25 +521,19 @@ const DashboardBuilder: React.FC = () => {
           <Row gutter={16}>
             <Col span={12}>
               <Form.Item name="xAxis" label="X-Axis Column">
-                <Select placeholder="Select X-axis">
-                  {(() => {
-                    const selectedSource = availableData.find(d => d.query === selectedDataSource);
-                    return selectedSource?.columns?.map(col => (
-                      <Option key={col} value={col}>{col}</Option>
-                    )) || [];
-                  })()}
+                <Select placeholder="Select X-axis" loading={loadingColumns}>
+                  {sourceColumns.map(col => (
+                    <Option key={col} value={col}>{col}</Option>
+                  ))}
                 </Select>
               </Form.Item>
             </Col>
             <Col span={12}>
               <Form.Item name="yAxis" label="Y-Axis Column">
-                <Select placeholder="Select Y-axis">
-                  {(() => {
-                    const selectedSource = availableData.find(d => d.query === selectedDataSource);
-                    return selectedSource?.columns?.map(col => (
-                      <Option key={col} value={col}>{col}</Option>
-                    )) || [];
-                  })()}
+                <Select placeholder="Select Y-axis" loading={loadingColumns}>
+                  {sourceColumns.map(col => (
+                    <Option key={col} value={col}>{col}</Option>
+                  ))}
                 </Select>
               </Form.Item>
             </Col>
@@ -464,6 +548,15 @@ const DashboardBuilder: React.FC = () => {
             </Select>
           </Form.Item>
 
+          <Form.Item
+            name="crossFilter"
+            label="Cross-filter other charts"
+            valuePropName="checked"
+            tooltip="Clicking or brushing this chart filters every other chart that shares the column"
+          >
+            <Switch />
+          </Form.Item>
+
           <Form.Item>
             <Space>
               <Button type="primary" htmlType="submit">
@@ -547,7 +640,7 @@ const DashboardBuilder: React.FC = () => {
         padding="none"
       >
         <PageGrid columns={4} gap="md">
-          <Card variant="outlined" padding="medium">
+          <Card variant="outlined">
             <div style={{ textAlign: 'center' }}>
               <Text type="secondary" style={{ display: 'block', marginBottom: 'var(--space-2)' }}>
                 Total Charts
@@ -557,25 +650,25 @@ const DashboardBuilder: React.FC = () => {
                 fontWeight: 'var(--font-weight-bold)',
                 color: 'var(--color-primary)'
               }}>
-                {dashboardConfig.charts.length}
+                {dashboardConfig.widgets.length}
               </div>
             </div>
           </Card>
-          <Card variant="outlined" padding="medium">
+          <Card variant="outlined">
             <div style={{ textAlign: 'center' }}>
               <Text type="secondary" style={{ display: 'block', marginBottom: 'var(--space-2)' }}>
-                Data Sources
+                Saved Queries
               </Text>
               <div style={{
                 fontSize: 'var(--text-2xl)',
                 fontWeight: 'var(--font-weight-bold)',
                 color: 'var(--color-success)'
               }}>
-                {availableData.length}
+                {dashboardQueries.length}
               </div>
             </div>
           </Card>
-          <Card variant="outlined" padding="medium">
+          <Card variant="outlined">
             <div style={{ textAlign: 'center' }}>
               <Text type="secondary" style={{ display: 'block', marginBottom: 'var(--space-2)' }}>
                 Layout
@@ -589,7 +682,7 @@ const DashboardBuilder: React.FC = () => {
               </div>
             </div>
           </Card>
-          <Card variant="outlined" padding="medium">
+          <Card variant="outlined">
             <div style={{ textAlign: 'center' }}>
               <Text type="secondary" style={{ display: 'block', marginBottom: 'var(--space-2)' }}>
                 Auto Refresh
@@ -613,8 +706,8 @@ const DashboardBuilder: React.FC = () => {
         background="transparent"
         padding="none"
       >
-        {dashboardConfig.charts.length === 0 ? (
-          <Card variant="outlined" padding="large">
+        {dashboardConfig.widgets.length === 0 ? (
+          <Card variant="outlined" size="large">
             <div style={{ textAlign: 'center', padding: 'var(--space-16) 0' }}>
               <BarChartOutlined style={{
                 fontSize: '64px',
@@ -642,7 +735,7 @@ const DashboardBuilder: React.FC = () => {
             {(provided) => (
               <div {...provided.droppableProps} ref={provided.innerRef}>
                 <Row gutter={16}>
-                  {dashboardConfig.charts.map((chart, index) => (
+                  {dashboardConfig.widgets.map((chart, index) => (
                     <Draggable key={chart.id} draggableId={chart.id} index={index}>
                       {(provided, snapshot) => (
                         <Col
@@ -657,7 +750,7 @@ const DashboardBuilder: React.FC = () => {
                         >
                           <Card
                             variant="outlined"
-                            hover
+                            interactive
                             title={
                               <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--space-2)' }}>
                                 <div {...provided.dragHandleProps}>
@@ -684,7 +777,7 @@ const DashboardBuilder: React.FC = () => {
                                     onClick={() => handleRemoveChart(chart.id)}
                                   />
                                 </Tooltip>
-                              ] : undefined
+                              ] : []
                             }
                             style={{ height: '400px' }}
                           >
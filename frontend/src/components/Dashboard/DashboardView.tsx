@@ -3,16 +3,18 @@
  * Displays interactive dashboards with charts and filters
  */
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { Card, Row, Col, Typography, Button, Space, Spin, Select, DatePicker, Tooltip } from 'antd';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Card, Row, Col, Typography, Button, Space, Spin, Select, Tooltip } from 'antd';
 import { FullscreenOutlined, DownloadOutlined, ReloadOutlined, SettingOutlined } from '@ant-design/icons';
 import { DashboardConfig, VisualizationConfig, ColumnInfo, VisualizationRequest } from '../../types/query';
-import { ResponsiveContainer, BarChart, Bar, LineChart, Line, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, Legend } from 'recharts';
 import dayjs from 'dayjs';
+import { DashboardWidget } from './DashboardWidget';
+import { GlobalFilterBar } from './GlobalFilterBar';
+import { useCrossFilter } from './hooks/useCrossFilter';
+import { applyFilters, distinctValues, toGlobalFilter } from './utils/crossFilter';
 
 const { Title, Text } = Typography;
 const { Option } = Select;
-const { RangePicker } = DatePicker;
 
 interface DashboardViewProps {
   data: any[];
@@ -29,7 +31,6 @@ export const DashboardView: React.FC<DashboardViewProps> = ({
 }) => {
   const [loading, setLoading] = useState(false);
   const [dashboardConfig, setDashboardConfig] = useState<DashboardConfig | null>(null);
-  const [globalFilters, setGlobalFilters] = useState<Record<string, any>>({});
   const [refreshInterval, setRefreshInterval] = useState<number | null>(null);
 
   const generateDashboard = useCallback(async () => {
@@ -82,40 +83,25 @@ export const DashboardView: React.FC<DashboardViewProps> = ({
     }
   }, [refreshInterval, generateDashboard]);
 
-  // Apply global filters to data
-  const getFilteredData = () => {
-    if (!dashboardConfig || Object.keys(globalFilters).length === 0) {
-      return data;
-    }
-
-    return data.filter(row => {
-      return Object.entries(globalFilters).every(([columnName, filterValue]) => {
-        const filter = dashboardConfig.globalFilters.find(f => f.columnName === columnName);
-        if (!filter || filterValue === undefined || filterValue === null) return true;
-
-        const cellValue = row[columnName];
-
-        switch (filter.filterType) {
-          case 'dateRange':
-            if (Array.isArray(filterValue) && filterValue.length === 2) {
-              const cellDate = new Date(cellValue);
-              return cellDate >= filterValue[0] && cellDate <= filterValue[1];
-            }
-            return true;
-          case 'multiSelect':
-            return Array.isArray(filterValue) ? filterValue.includes(cellValue) : cellValue === filterValue;
-          default:
-            return true;
-        }
-      });
-    });
-  };
+  const globalFilters = useMemo(
+    () => (dashboardConfig?.globalFilters ?? []).map(toGlobalFilter),
+    [dashboardConfig]
+  );
+  const columnNames = useMemo(() => columns.map(column => column.name), [columns]);
+  const {
+    filters,
+    selections,
+    setGlobalFilterValue,
+    selectFromWidget,
+    removeFilter,
+    clearAll
+  } = useCrossFilter(globalFilters);
+
+  const filteredData = useMemo(() => applyFilters(data, filters), [data, filters]);
+  const getOptions = useCallback((column: string) => distinctValues(data, column), [data]);
 
   // Render individual chart
   const renderChart = (chartConfig: VisualizationConfig, index: number) => {
-    const filteredData = getFilteredData();
-    const chartData = filteredData.slice(0, 500); // Limit for performance
-
     const getChartSize = (size: string) => {
       switch (size) {
         case 'full': return 24;
@@ -129,74 +115,6 @@ export const DashboardView: React.FC<DashboardViewProps> = ({
     const chartSize = dashboardConfig?.layout.chartSizes[index] || 'half';
     const colSpan = getChartSize(chartSize);
 
-    const renderChartContent = () => {
-      const commonProps = {
-        width: '100%',
-        height: 300,
-        data: chartData
-      };
-
-      switch (chartConfig.type) {
-        case 'bar':
-          return (
-            <ResponsiveContainer {...commonProps}>
-              <BarChart data={chartData}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey={chartConfig.xAxis} />
-                <YAxis />
-                <RechartsTooltip />
-                <Legend />
-                <Bar dataKey={chartConfig.yAxis || 'value'} fill="#8884d8" />
-              </BarChart>
-            </ResponsiveContainer>
-          );
-
-        case 'line':
-          return (
-            <ResponsiveContainer {...commonProps}>
-              <LineChart data={chartData}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey={chartConfig.xAxis} />
-                <YAxis />
-                <RechartsTooltip />
-                <Legend />
-                <Line type="monotone" dataKey={chartConfig.yAxis} stroke="#8884d8" />
-              </LineChart>
-            </ResponsiveContainer>
-          );
-
-        case 'pie':
-          return (
-            <ResponsiveContainer {...commonProps}>
-              <PieChart>
-                <Pie
-                  data={chartData}
-                  dataKey={chartConfig.yAxis || 'value'}
-                  nameKey={chartConfig.xAxis || 'name'}
-                  cx="50%"
-                  cy="50%"
-                  outerRadius={100}
-                  fill="#8884d8"
-                >
-                  {chartData.map((entry, idx) => (
-                    <Cell key={`cell-${idx}`} fill={`hsl(${idx * 45}, 70%, 60%)`} />
-                  ))}
-                </Pie>
-                <RechartsTooltip />
-                <Legend />
-              </PieChart>
-            </ResponsiveContainer>
-          );
-
-        default:
-          return (
-            <div style={{ padding: '40px', textAlign: 'center' }}>
-              <Text>Chart type "{chartConfig.type}" not implemented</Text>
-            </div>
-          );
-      }
-    };
-
     return (
       <Col span={colSpan} key={index}>
         <Card
@@ -215,72 +133,29 @@ export const DashboardView: React.FC<DashboardViewProps> = ({
           style={{ height: '400px', marginBottom: '16px' }}
         >
           <div style={{ height: '320px' }}>
-            {renderChartContent()}
+            <DashboardWidget
+              id={`chart-${index}`}
+              type={chartConfig.type}
+              xAxis={chartConfig.xAxis}
+              yAxis={chartConfig.yAxis}
+              rows={data}
+              columns={columnNames}
+              filters={filters}
+              selection={selections.get(`chart-${index}`)}
+              interaction={{
+                enableDataPointSelection: chartConfig.enableInteractivity !== false,
+                enableBrush: chartConfig.enableInteractivity !== false
+              }}
+              onSelect={selectFromWidget}
+              color="#8884d8"
+            />
           </div>
         </Card>
       </Col>
     );
   };
 
-  // Render global filters
-  const renderGlobalFilters = () => {
-    if (!dashboardConfig || dashboardConfig.globalFilters.length === 0) return null;
-
-    return (
-      <Card size="small" title="Global Filters" style={{ marginBottom: '16px' }}>
-        <Row gutter={16}>
-          {dashboardConfig.globalFilters.map(filter => (
-            <Col span={8} key={filter.columnName}>
-              <div>
-                <Text strong>{filter.label}</Text>
-                {filter.filterType === 'dateRange' && (
-                  <RangePicker
-                    style={{ width: '100%', marginTop: '4px' }}
-                    value={globalFilters[filter.columnName] || null}
-                    onChange={(dates) => {
-                      if (dates) {
-                        setGlobalFilters(prev => ({
-                          ...prev,
-                          [filter.columnName]: [dates[0]?.toDate(), dates[1]?.toDate()]
-                        }));
-                      } else {
-                        setGlobalFilters(prev => {
-                          const newFilters = { ...prev };
-                          delete newFilters[filter.columnName];
-                          return newFilters;
-                        });
-                      }
-                    }}
-                  />
-                )}
-                {filter.filterType === 'multiSelect' && (
-                  <Select
-                    mode="multiple"
-                    placeholder={`Select ${filter.label}`}
-                    style={{ width: '100%', marginTop: '4px' }}
-                    value={globalFilters[filter.columnName] || []}
-                    onChange={(value) => setGlobalFilters(prev => ({ ...prev, [filter.columnName]: value }))}
-                  >
-                    {getUniqueValues(filter.columnName).map(option => (
-                      <Option key={option} value={option}>{String(option)}</Option>
-                    ))}
-                  </Select>
-                )}
-              </div>
-            </Col>
-          ))}
-        </Row>
-      </Card>
-    );
-  };
-
-  const getUniqueValues = (columnName: string): any[] => {
-    const uniqueValues = [...new Set(data.map(row => row[columnName]))];
-    return uniqueValues.filter(val => val !== null && val !== undefined);
-  };
-
   const exportDashboard = () => {
-    const filteredData = getFilteredData();
     const csv = convertToCSV(filteredData);
     const blob = new Blob([csv], { type: 'text/csv' });
     const url = URL.createObjectURL(blob);
@@ -372,7 +247,15 @@ export const DashboardView: React.FC<DashboardViewProps> = ({
       </Card>
 
       {/* Global Filters */}
-      {renderGlobalFilters()}
+      <GlobalFilterBar
+        globalFilters={globalFilters}
+        activeFilters={filters}
+        getOptions={getOptions}
+        onChange={setGlobalFilterValue}
+        onRemoveActive={removeFilter}
+        onClearAll={clearAll}
+        widgetTitle={widgetId => dashboardConfig.charts[Number(widgetId.replace('chart-', ''))]?.title}
+      />
 
       {/* Dashboard Charts */}
       <Row gutter={16}>
@@ -389,8 +272,8 @@ export const DashboardView: React.FC<DashboardViewProps> = ({
           </Col>
           <Col>
             <Text type="secondary">
-              Data: {getFilteredData().length} of {data.length} rows
-              {Object.keys(globalFilters).length > 0 && ' (filtered)'}
+              Data: {filteredData.length} of {data.length} rows
+              {filters.length > 0 && ' (filtered)'}
             </Text>
           </Col>
           <Col>
@@ -0,0 +1,293 @@
+/**
+ * Dashboard widget with cross-filtering
+ * Renders one chart from its filtered rows and reports clicked or brushed
+ * categories back to the dashboard as a selection.
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Alert, Spin, Tag, Typography } from 'antd';
+import {
+  ResponsiveContainer,
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  AreaChart,
+  Area,
+  PieChart,
+  Pie,
+  ScatterChart,
+  Scatter,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip as RechartsTooltip,
+  Legend,
+  Brush
+} from 'recharts';
+import { InteractionConfig } from '../../types/visualization';
+import { useWidgetData } from './hooks/useWidgetData';
+import { ActiveFilter, filtersForWidget } from './utils/crossFilter';
+
+const { Text } = Typography;
+
+export type WidgetInteraction = Partial<Pick<InteractionConfig, 'enableBrush' | 'enableDataPointSelection'>>;
+
+interface DashboardWidgetProps {
+  id: string;
+  type: string;
+  xAxis?: string | undefined;
+  yAxis?: string | undefined;
+  rows: any[];
+  columns: string[];
+  /** Every active dashboard filter; the widget picks the ones it shares a column with */
+  filters: ActiveFilter[];
+  /** This widget's own selection, highlighted instead of filtered */
+  selection?: ActiveFilter | undefined;
+  /** SQL behind the rows and its parameter values, re-run with the filters when the rows are partial */
+  sql?: string | undefined;
+  parameters?: Record<string, string | number> | undefined;
+  serverSide?: boolean | undefined;
+  interaction?: WidgetInteraction | undefined;
+  onSelect: (widgetId: string, column: string, values: Array<string | number>) => void;
+  color?: string;
+  height?: number;
+  maxRows?: number;
+}
+
+const DIMMED_OPACITY = 0.3;
+
+export const DashboardWidget: React.FC<DashboardWidgetProps> = ({
+  id,
+  type,
+  xAxis,
+  yAxis,
+  rows,
+  columns,
+  filters,
+  selection,
+  sql,
+  parameters,
+  serverSide,
+  interaction,
+  onSelect,
+  color = '#1890ff',
+  height = 300,
+  maxRows = 500
+}) => {
+  const xKey = xAxis || 'name';
+  const yKey = yAxis || 'value';
+  const selectable = interaction?.enableDataPointSelection !== false;
+  const brushable = interaction?.enableBrush !== false;
+
+  const widgetColumns = useMemo(
+    () => (columns.length > 0 ? columns : Object.keys(rows[0] ?? {})),
+    [columns, rows]
+  );
+  const appliedFilters = useMemo(
+    () => filtersForWidget(filters, id, widgetColumns),
+    [filters, id, widgetColumns]
+  );
+  const { rows: filteredRows, loading, error, remote } = useWidgetData({
+    rows,
+    filters: appliedFilters,
+    sql,
+    parameters,
+    serverSide
+  });
+  const chartData = useMemo(() => filteredRows.slice(0, maxRows), [filteredRows, maxRows]);
+
+  // Remount the brush when the selection is cleared elsewhere so its handles reset
+  const [brushKey, setBrushKey] = useState(0);
+  const previousSelection = useRef(selection);
+  useEffect(() => {
+    if (previousSelection.current && !selection) setBrushKey(key => key + 1);
+    previousSelection.current = selection;
+  }, [selection]);
+
+  const selectedValues = useMemo(
+    () => new Set(selection?.kind === 'values' ? selection.values.map(String) : []),
+    [selection]
+  );
+  const isDimmed = (value: unknown) => selectedValues.size > 0 && !selectedValues.has(String(value));
+
+  const handleValueClick = (value: unknown, event?: React.MouseEvent) => {
+    if (!selectable || value === undefined || value === null) return;
+    const key = String(value);
+    const current = selection?.kind === 'values' ? selection.values : [];
+
+    // Ctrl/Cmd-click extends the selection; a plain click on the only selected value clears it
+    if (event && (event.ctrlKey || event.metaKey)) {
+      const next = current.some(item => String(item) === key)
+        ? current.filter(item => String(item) !== key)
+        : [...current, value as string | number];
+      onSelect(id, xKey, next);
+      return;
+    }
+    onSelect(id, xKey, current.length === 1 && String(current[0]) === key ? [] : [value as string | number]);
+  };
+
+  const handleBrushChange = (range: { startIndex?: number; endIndex?: number }) => {
+    if (range.startIndex === undefined || range.endIndex === undefined) return;
+    if (range.startIndex === 0 && range.endIndex === chartData.length - 1) {
+      onSelect(id, xKey, []);
+      return;
+    }
+    onSelect(id, xKey, chartData.slice(range.startIndex, range.endIndex + 1).map(row => row[xKey]));
+  };
+
+  const handleChartClick = (state: any) => {
+    if (state?.activeLabel !== undefined) handleValueClick(state.activeLabel, undefined);
+  };
+
+  const brush = brushable && chartData.length > 1 && (
+    <Brush key={brushKey} dataKey={xKey} height={20} onChange={handleBrushChange} />
+  );
+
+  const renderChart = () => {
+    switch (type) {
+      case 'bar':
+        return (
+          <ResponsiveContainer width="100%" height={height}>
+            <BarChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey={xKey} />
+              <YAxis />
+              <RechartsTooltip />
+              <Legend />
+              <Bar
+                dataKey={yKey}
+                fill={color}
+                cursor={selectable ? 'pointer' : undefined}
+                onClick={(entry: any, _index: number, event: React.MouseEvent) => handleValueClick(entry?.payload?.[xKey] ?? entry?.[xKey], event)}
+              >
+                {chartData.map((row, index) => (
+                  <Cell key={`cell-${index}`} fill={color} fillOpacity={isDimmed(row[xKey]) ? DIMMED_OPACITY : 1} />
+                ))}
+              </Bar>
+              {brush}
+            </BarChart>
+          </ResponsiveContainer>
+        );
+
+      case 'line':
+        return (
+          <ResponsiveContainer width="100%" height={height}>
+            <LineChart data={chartData} onClick={handleChartClick}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey={xKey} />
+              <YAxis />
+              <RechartsTooltip />
+              <Legend />
+              <Line type="monotone" dataKey={yKey} stroke={color} />
+              {brush}
+            </LineChart>
+          </ResponsiveContainer>
+        );
+
+      case 'area':
+        return (
+          <ResponsiveContainer width="100%" height={height}>
+            <AreaChart data={chartData} onClick={handleChartClick}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey={xKey} />
+              <YAxis />
+              <RechartsTooltip />
+              <Legend />
+              <Area type="monotone" dataKey={yKey} stroke={color} fill={color} />
+              {brush}
+            </AreaChart>
+          </ResponsiveContainer>
+        );
+
+      case 'pie':
+        return (
+          <ResponsiveContainer width="100%" height={height}>
+            <PieChart>
+              <Pie
+                data={chartData}
+                dataKey={yKey}
+                nameKey={xKey}
+                cx="50%"
+                cy="50%"
+                outerRadius={100}
+                fill={color}
+                cursor={selectable ? 'pointer' : undefined}
+                onClick={(entry: any, _index: number, event: React.MouseEvent) => handleValueClick(entry?.payload?.[xKey] ?? entry?.name, event)}
+              >
+                {chartData.map((row, index) => (
+                  <Cell
+                    key={`cell-${index}`}
+                    fill={`hsl(${index * 45}, 70%, 60%)`}
+                    fillOpacity={isDimmed(row[xKey]) ? DIMMED_OPACITY : 1}
+                  />
+                ))}
+              </Pie>
+              <RechartsTooltip />
+              <Legend />
+            </PieChart>
+          </ResponsiveContainer>
+        );
+
+      case 'scatter':
+        return (
+          <ResponsiveContainer width="100%" height={height}>
+            <ScatterChart>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey={xKey} />
+              <YAxis dataKey={yKey} />
+              <RechartsTooltip />
+              <Scatter
+                data={chartData}
+                fill={color}
+                onClick={(entry: any, _index: number, event: React.MouseEvent) => handleValueClick(entry?.payload?.[xKey] ?? entry?.[xKey], event)}
+              >
+                {chartData.map((row, index) => (
+                  <Cell key={`cell-${index}`} fill={color} fillOpacity={isDimmed(row[xKey]) ? DIMMED_OPACITY : 1} />
+                ))}
+              </Scatter>
+            </ScatterChart>
+          </ResponsiveContainer>
+        );
+
+      default:
+        return (
+          <div style={{ padding: 40, textAlign: 'center' }}>
+            <Text>Chart type "{type}" not implemented</Text>
+          </div>
+        );
+    }
+  };
+
+  if (rows.length === 0) {
+    return (
+      <div style={{ padding: 40, textAlign: 'center' }}>
+        <Text type="secondary">No data available</Text>
+      </div>
+    );
+  }
+
+  return (
+    <Spin spinning={loading}>
+      {(appliedFilters.length > 0 || remote) && (
+        <div style={{ marginBottom: 4 }}>
+          {appliedFilters.length > 0 && (
+            <Tag color="blue" style={{ fontSize: '11px' }}>
+              {appliedFilters.length} filter{appliedFilters.length === 1 ? '' : 's'} applied
+            </Tag>
+          )}
+          {remote && <Tag style={{ fontSize: '11px' }}>Server-side</Tag>}
+        </div>
+      )}
+      {error && <Alert type="error" showIcon message={error} style={{ marginBottom: 8 }} />}
+      {chartData.length === 0 && !loading ? (
+        <div style={{ padding: 40, textAlign: 'center' }}>
+          <Text type="secondary">No rows match the current filters</Text>
+        </div>
+      ) : (
+        renderChart()
+      )}
+    </Spin>
+  );
+};
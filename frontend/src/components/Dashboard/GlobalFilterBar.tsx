@@ -0,0 +1,129 @@
+import React from 'react';
+import { Button, Card, Col, DatePicker, Row, Select, Space, Tag, Typography } from 'antd';
+import { CloseOutlined, FilterOutlined } from '@ant-design/icons';
+import dayjs from 'dayjs';
+import { GlobalFilter } from '../../types/visualization';
+import { GlobalFilterValue } from './hooks/useCrossFilter';
+import { ActiveFilter, describeFilter, globalFilterSource, widgetIdOf } from './utils/crossFilter';
+
+const { Text } = Typography;
+const { RangePicker } = DatePicker;
+
+interface GlobalFilterBarProps {
+  globalFilters: GlobalFilter[];
+  activeFilters: ActiveFilter[];
+  /** Values offered by a multiselect filter that declares no options */
+  getOptions: (column: string) => Array<string | number>;
+  onChange: (filter: GlobalFilter, value: GlobalFilterValue) => void;
+  onRemoveActive: (filter: ActiveFilter) => void;
+  onClearAll: () => void;
+  /** Label a widget selection by its chart title */
+  widgetTitle?: (widgetId: string) => string | undefined;
+  /** Edit mode: columns that can get a filter control */
+  availableColumns?: string[] | undefined;
+  onAddFilter?: ((column: string) => void) | undefined;
+  onRemoveFilter?: ((filter: GlobalFilter) => void) | undefined;
+}
+
+export const GlobalFilterBar: React.FC<GlobalFilterBarProps> = ({
+  globalFilters,
+  activeFilters,
+  getOptions,
+  onChange,
+  onRemoveActive,
+  onClearAll,
+  widgetTitle,
+  availableColumns,
+  onAddFilter,
+  onRemoveFilter
+}) => {
+  const selections = activeFilters.filter(filter => widgetIdOf(filter.source));
+  const activeFor = (filter: GlobalFilter) =>
+    activeFilters.find(active => active.source === globalFilterSource(filter));
+  const addableColumns = (availableColumns ?? []).filter(column => !globalFilters.some(filter => filter.column === column));
+
+  if (globalFilters.length === 0 && selections.length === 0 && !onAddFilter) return null;
+
+  const renderControl = (filter: GlobalFilter) => {
+    const active = activeFor(filter);
+
+    if (filter.type === 'dateRange') {
+      return (
+        <RangePicker
+          style={{ width: '100%', marginTop: 4 }}
+          value={active?.kind === 'dateRange' ? [dayjs(active.from), dayjs(active.to)] : null}
+          onChange={dates => onChange(
+            filter,
+            dates?.[0] && dates[1] ? [dates[0].format('YYYY-MM-DD'), dates[1].format('YYYY-MM-DD')] : null
+          )}
+        />
+      );
+    }
+
+    const options = filter.options && filter.options.length > 0 ? filter.options : getOptions(filter.column);
+    return (
+      <Select
+        mode="multiple"
+        allowClear
+        placeholder={`All ${filter.name}`}
+        style={{ width: '100%', marginTop: 4 }}
+        value={active?.kind === 'values' ? active.values : []}
+        options={options.map(option => ({ label: String(option), value: option }))}
+        onChange={values => onChange(filter, values)}
+        maxTagCount="responsive"
+      />
+    );
+  };
+
+  return (
+    <Card
+      size="small"
+      style={{ marginBottom: 16 }}
+      title={<Space><FilterOutlined />Filters</Space>}
+      extra={
+        activeFilters.length > 0 && (
+          <Button size="small" type="link" onClick={onClearAll}>Clear all</Button>
+        )
+      }
+    >
+      <Row gutter={[16, 12]} align="bottom">
+        {globalFilters.map(filter => (
+          <Col xs={24} md={8} key={filter.name}>
+            <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+              <Text strong>{filter.name}</Text>
+              {onRemoveFilter && (
+                <Button size="small" type="text" icon={<CloseOutlined />} onClick={() => onRemoveFilter(filter)} />
+              )}
+            </div>
+            {renderControl(filter)}
+          </Col>
+        ))}
+        {onAddFilter && addableColumns.length > 0 && (
+          <Col xs={24} md={8}>
+            <Select
+              placeholder="Add filter on column…"
+              style={{ width: '100%' }}
+              value={null}
+              options={addableColumns.map(column => ({ label: column, value: column }))}
+              onChange={column => column && onAddFilter(column)}
+            />
+          </Col>
+        )}
+      </Row>
+
+      {selections.length > 0 && (
+        <div style={{ marginTop: 12 }}>
+          <Text type="secondary" style={{ marginRight: 8 }}>Selected on charts:</Text>
+          {selections.map(filter => {
+            const title = widgetTitle?.(widgetIdOf(filter.source) ?? '');
+            return (
+              <Tag key={filter.source} color="blue" closable onClose={() => onRemoveActive(filter)}>
+                {title ? `${title}: ` : ''}{describeFilter(filter)}
+              </Tag>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+};
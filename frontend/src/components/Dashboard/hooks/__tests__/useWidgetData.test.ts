@@ -0,0 +1,81 @@
+/**
+ * useWidgetData Tests
+ * Covers server-side re-runs of a widget's SQL and the loading state around them
+ */
+
+import { act, renderHook } from '@testing-library/react';
+import { ApiService } from '../../../../services/api';
+import { ActiveFilter } from '../../utils/crossFilter';
+import { useWidgetData } from '../useWidgetData';
+
+jest.mock('../../../../services/api', () => ({
+  ApiService: { executeRawSQL: jest.fn() }
+}));
+
+const executeRawSQL = ApiService.executeRawSQL as jest.Mock;
+
+const rows = [{ Region: 'EMEA', Revenue: 100 }];
+const sql = 'SELECT Region, SUM(Total) AS Revenue FROM dbo.Orders WHERE Total > @min GROUP BY Region';
+const parameters = { min: 10 };
+const emea: ActiveFilter[] = [{ source: 'filter:Region', column: 'Region', kind: 'values', values: ['EMEA'] }];
+const apac: ActiveFilter[] = [{ source: 'filter:Region', column: 'Region', kind: 'values', values: ['APAC'] }];
+
+const render = (filters: ActiveFilter[]) =>
+  renderHook((props: { filters: ActiveFilter[] }) => useWidgetData({ rows, sql, parameters, serverSide: true, ...props }), {
+    initialProps: { filters }
+  });
+
+describe('useWidgetData', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    executeRawSQL.mockReset();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('re-runs the saved SQL with the filters as bound parameters', async () => {
+    executeRawSQL.mockResolvedValue({ success: true, result: { data: [{ Region: 'EMEA', Revenue: 90 }] } });
+    const { result } = render(emea);
+
+    await act(async () => {
+      jest.runAllTimers();
+    });
+
+    expect(executeRawSQL).toHaveBeenCalledWith(expect.objectContaining({
+      sql: expect.stringContaining('WHERE [Region] IN (@crossfilter_0_0)'),
+      parameters: { min: 10, crossfilter_0_0: 'EMEA' }
+    }));
+    expect(result.current.rows).toEqual([{ Region: 'EMEA', Revenue: 90 }]);
+    expect(result.current.loading).toBe(false);
+  });
+
+  it('stops loading when the filters are cleared or served from the cache mid-fetch', async () => {
+    executeRawSQL.mockResolvedValue({ success: true, result: { data: [] } });
+    const { result, rerender } = render(emea);
+    await act(async () => {
+      jest.runAllTimers();
+    });
+
+    executeRawSQL.mockReturnValue(new Promise(() => undefined));
+    rerender({ filters: apac });
+    act(() => {
+      jest.runAllTimers();
+    });
+    expect(result.current.loading).toBe(true);
+
+    // Back to a cached filter while the APAC fetch is still pending
+    rerender({ filters: emea });
+    expect(result.current.loading).toBe(false);
+
+    rerender({ filters: apac });
+    act(() => {
+      jest.runAllTimers();
+    });
+    expect(result.current.loading).toBe(true);
+    rerender({ filters: [] });
+    expect(result.current.loading).toBe(false);
+    expect(result.current.rows).toEqual(rows);
+  });
+});
@@ -0,0 +1,73 @@
+import { useCallback, useMemo, useState } from 'react';
+import { GlobalFilter } from '../../../types/visualization';
+import {
+  ActiveFilter,
+  globalFilterSource,
+  initialFilters,
+  upsertFilter,
+  widgetIdOf,
+  widgetSource
+} from '../utils/crossFilter';
+
+export type GlobalFilterValue = [string, string] | Array<string | number> | null;
+
+/**
+ * Dashboard-wide filter state: values of the global filter controls plus
+ * the selection each widget has made.
+ */
+export const useCrossFilter = (globalFilters: GlobalFilter[]) => {
+  const [filters, setFilters] = useState<ActiveFilter[]>(() => initialFilters(globalFilters));
+
+  const setGlobalFilterValue = useCallback((filter: GlobalFilter, value: GlobalFilterValue) => {
+    const source = globalFilterSource(filter);
+    setFilters(previous => {
+      if (!value || value.length === 0) {
+        return previous.filter(active => active.source !== source);
+      }
+      if (filter.type === 'dateRange') {
+        const [from, to] = value as [string, string];
+        return upsertFilter(previous, { source, column: filter.column, kind: 'dateRange', from, to });
+      }
+      return upsertFilter(previous, { source, column: filter.column, kind: 'values', values: value as Array<string | number> });
+    });
+  }, []);
+
+  /** Replaces a widget's selection; an empty list clears it */
+  const selectFromWidget = useCallback((widgetId: string, column: string, values: Array<string | number>) => {
+    const source = widgetSource(widgetId);
+    setFilters(previous => upsertFilter(
+      previous.filter(active => active.source !== source),
+      { source, column, kind: 'values', values }
+    ));
+  }, []);
+
+  const clearWidgetSelection = useCallback((widgetId: string) => {
+    const source = widgetSource(widgetId);
+    setFilters(previous => previous.filter(active => active.source !== source));
+  }, []);
+
+  const removeFilter = useCallback((filter: ActiveFilter) => {
+    setFilters(previous => previous.filter(active => active !== filter));
+  }, []);
+
+  const clearAll = useCallback(() => setFilters([]), []);
+
+  const selections = useMemo(() => {
+    const byWidget = new Map<string, ActiveFilter>();
+    filters.forEach(filter => {
+      const widgetId = widgetIdOf(filter.source);
+      if (widgetId) byWidget.set(widgetId, filter);
+    });
+    return byWidget;
+  }, [filters]);
+
+  return {
+    filters,
+    selections,
+    setGlobalFilterValue,
+    selectFromWidget,
+    clearWidgetSelection,
+    removeFilter,
+    clearAll
+  };
+};
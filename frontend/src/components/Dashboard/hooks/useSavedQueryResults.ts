@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { savedQueryService } from '../../../services/savedQueryService';
+import { SavedQuery } from '../../../types/visualization';
+
+export interface SavedQueryResult {
+  rows: any[];
+  columns: string[];
+  /** The SQL that ran, generated anew when the saved query has none */
+  sql: string;
+  loading: boolean;
+  error: string | null;
+  /** The server returned fewer rows than the query matched */
+  truncated: boolean;
+  cached: boolean;
+  lastUpdated: number | null;
+}
+
+interface UseSavedQueryResultsOptions {
+  autoRefresh: boolean;
+  /** Seconds between re-executions while auto refresh is on */
+  refreshInterval: number;
+}
+
+const EMPTY_RESULT: SavedQueryResult = {
+  rows: [],
+  columns: [],
+  sql: '',
+  loading: false,
+  error: null,
+  truncated: false,
+  cached: false,
+  lastUpdated: null
+};
+
+// Results opened without auto refresh stay fresh in the cache for five minutes
+const DEFAULT_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Live results for the saved queries behind a dashboard's widgets. Each
+ * query runs when the dashboard opens (served from the query cache while
+ * fresh) and again on every refresh interval; loading and error states are
+ * kept per query so one failing widget doesn't blank the rest.
+ */
+export const useSavedQueryResults = (
+  queries: SavedQuery[],
+  { autoRefresh, refreshInterval }: UseSavedQueryResultsOptions
+) => {
+  const [results, setResults] = useState<Record<string, SavedQueryResult>>({});
+  // Latest request per query, so a slow response can't overwrite a newer one
+  const requestIds = useRef(new Map<string, number>());
+  const ttl = autoRefresh ? refreshInterval * 1000 : DEFAULT_TTL_MS;
+
+  const execute = useCallback(async (query: SavedQuery, bypassCache: boolean) => {
+    const requestId = (requestIds.current.get(query.id) ?? 0) + 1;
+    requestIds.current.set(query.id, requestId);
+    setResults(prev => ({
+      ...prev,
+      [query.id]: { ...(prev[query.id] ?? EMPTY_RESULT), loading: true, error: null }
+    }));
+
+    let next: Partial<SavedQueryResult>;
+    try {
+      const response = await savedQueryService.execute(query, { bypassCache, ttl });
+      if (!response.success) throw new Error(response.error || 'Query failed');
+
+      const rows = response.result?.data ?? [];
+      const rowCount = response.result?.metadata?.rowCount;
+      next = {
+        rows,
+        columns: response.result?.metadata?.columns?.map((col: any) => col.name || col) ?? Object.keys(rows[0] ?? {}),
+        sql: response.sql || query.sql,
+        truncated: typeof rowCount === 'number' && rowCount > rows.length,
+        cached: response.cached,
+        lastUpdated: Date.now()
+      };
+    } catch (error) {
+      next = { error: error instanceof Error ? error.message : String(error) };
+    }
+
+    if (requestIds.current.get(query.id) !== requestId) return;
+    setResults(prev => ({
+      ...prev,
+      [query.id]: { ...(prev[query.id] ?? EMPTY_RESULT), ...next, loading: false }
+    }));
+  }, [ttl]);
+
+  // Run on open and whenever the set of queries changes
+  const queryKey = queries.map(query => `${query.id}:${query.updatedAt}`).join('|');
+  const queriesRef = useRef(queries);
+  queriesRef.current = queries;
+
+  useEffect(() => {
+    queriesRef.current.forEach(query => execute(query, false));
+  }, [queryKey, execute]);
+
+  useEffect(() => {
+    if (!autoRefresh || refreshInterval <= 0) return undefined;
+    const timer = setInterval(() => {
+      queriesRef.current.forEach(query => execute(query, true));
+    }, refreshInterval * 1000);
+    return () => clearInterval(timer);
+  }, [autoRefresh, refreshInterval, execute]);
+
+  const refresh = useCallback((queryId?: string) => {
+    queriesRef.current
+      .filter(query => !queryId || query.id === queryId)
+      .forEach(query => execute(query, true));
+  }, [execute]);
+
+  const getResult = useCallback(
+    (queryId: string): SavedQueryResult => results[queryId] ?? { ...EMPTY_RESULT, loading: true },
+    [results]
+  );
+
+  return { results, getResult, refresh };
+};
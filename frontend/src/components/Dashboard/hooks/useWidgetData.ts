@@ -0,0 +1,95 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ApiService } from '../../../services/api';
+import { ActiveFilter, FilteredSql, applyFilters, buildFilteredSql } from '../utils/crossFilter';
+
+interface UseWidgetDataOptions {
+  rows: any[];
+  /** Filters that apply to this widget (see filtersForWidget) */
+  filters: ActiveFilter[];
+  /** SQL that produced the rows, re-run with the filters for server-side data */
+  sql?: string | undefined;
+  /** Values for the SQL's own @name parameters */
+  parameters?: Record<string, string | number> | undefined;
+  /** The cached rows are a partial snapshot; filtering them locally would be wrong */
+  serverSide?: boolean | undefined;
+}
+
+const REFETCH_DELAY_MS = 400;
+
+/**
+ * Rows for a dashboard widget after cross-filtering: filtered in place when
+ * the widget holds the full result, otherwise fetched by re-running its SQL
+ * with the filters bound as predicates.
+ */
+export const useWidgetData = ({ rows, filters, sql, parameters, serverSide = false }: UseWidgetDataOptions) => {
+  const [serverRows, setServerRows] = useState<any[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const cacheRef = useRef(new Map<string, any[]>());
+
+  const remote = serverSide && Boolean(sql) && filters.length > 0;
+  const request = useMemo((): FilteredSql | { error: string } | null => {
+    if (!remote || !sql) return null;
+    try {
+      return buildFilteredSql(sql, parameters ?? {}, filters);
+    } catch (buildError) {
+      return { error: buildError instanceof Error ? buildError.message : String(buildError) };
+    }
+  }, [remote, sql, parameters, filters]);
+
+  useEffect(() => {
+    if (!request || 'error' in request) {
+      setServerRows(null);
+      setError(request ? request.error : null);
+      setLoading(false);
+      return;
+    }
+
+    const cacheKey = JSON.stringify([request.sql, request.parameters]);
+    const cached = cacheRef.current.get(cacheKey);
+    if (cached) {
+      setServerRows(cached);
+      setError(null);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await ApiService.executeRawSQL({
+          sql: request.sql,
+          parameters: request.parameters,
+          sessionId: `dashboard-${Date.now()}`
+        });
+        if (!response.success) throw new Error(response.error || 'Filtered query failed');
+        const data = response.result?.data ?? [];
+        cacheRef.current.set(cacheKey, data);
+        if (!cancelled) setServerRows(data);
+      } catch (fetchError) {
+        if (!cancelled) setError(fetchError instanceof Error ? fetchError.message : String(fetchError));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, REFETCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      // The next run sets it again if it fetches; a superseded fetch must not leave it spinning
+      setLoading(false);
+    };
+  }, [request]);
+
+  const localRows = useMemo(() => (remote ? rows : applyFilters(rows, filters)), [remote, rows, filters]);
+
+  return {
+    // Keep showing the last rows while a filtered re-run is in flight
+    rows: remote ? serverRows ?? rows : localRows,
+    loading,
+    error,
+    remote
+  };
+};
@@ -1,3 +1,9 @@
 export { DashboardManager } from './DashboardManager';
 export { default as DashboardBuilder } from './DashboardBuilder';
 export { DashboardView } from './DashboardView';
+export { DashboardWidget } from './DashboardWidget';
+export type { WidgetInteraction } from './DashboardWidget';
+export { GlobalFilterBar } from './GlobalFilterBar';
+export { useCrossFilter } from './hooks/useCrossFilter';
+export * from './utils/crossFilter';
+export { useSavedQueryResults } from './hooks/useSavedQueryResults';
@@ -0,0 +1,102 @@
+import {
+  ActiveFilter,
+  applyFilters,
+  buildFilteredSql,
+  filtersForWidget,
+  inferGlobalFilter,
+  upsertFilter,
+  widgetSource
+} from '../crossFilter';
+
+const rows = [
+  { Region: 'EMEA', OrderDate: '2024-01-05', Revenue: 100 },
+  { Region: 'APAC', OrderDate: '2024-02-10', Revenue: 200 },
+  { Region: 'EMEA', OrderDate: '2024-03-15', Revenue: 300 }
+];
+
+describe('cross-filter utils', () => {
+  describe('inferGlobalFilter', () => {
+    it('offers a date range for dates and a multiselect for dimensions', () => {
+      expect(inferGlobalFilter('OrderDate', rows)?.type).toBe('dateRange');
+      expect(inferGlobalFilter('Region', rows)).toEqual({
+        name: 'Region',
+        type: 'multiSelect',
+        column: 'Region',
+        options: ['APAC', 'EMEA']
+      });
+    });
+
+    it('skips measures', () => {
+      expect(inferGlobalFilter('Revenue', rows)).toBeUndefined();
+    });
+  });
+
+  describe('applyFilters', () => {
+    it('keeps rows matching every filter, comparing dates by day', () => {
+      const filters: ActiveFilter[] = [
+        { source: 'filter:Region', column: 'Region', kind: 'values', values: ['EMEA'] },
+        { source: 'filter:Date', column: 'OrderDate', kind: 'dateRange', from: '2024-01-01', to: '2024-01-31' }
+      ];
+      expect(applyFilters(rows, filters)).toEqual([rows[0]]);
+    });
+  });
+
+  describe('filtersForWidget', () => {
+    it('skips the widget\'s own selection and columns it does not have', () => {
+      const own: ActiveFilter = { source: widgetSource('a'), column: 'Region', kind: 'values', values: ['EMEA'] };
+      const other: ActiveFilter = { source: widgetSource('b'), column: 'Product', kind: 'values', values: ['X'] };
+      expect(filtersForWidget([own, other], 'a', ['Region', 'Revenue'])).toEqual([]);
+      expect(filtersForWidget([own, other], 'b', ['Region', 'Product'])).toEqual([own]);
+    });
+  });
+
+  describe('upsertFilter', () => {
+    it('replaces a source\'s filter and removes it when the selection is empty', () => {
+      const first: ActiveFilter = { source: widgetSource('a'), column: 'Region', kind: 'values', values: ['EMEA'] };
+      const next = upsertFilter([first], { ...first, values: ['APAC'] });
+      expect(next).toEqual([{ ...first, values: ['APAC'] }]);
+      expect(upsertFilter(next, { ...first, values: [] })).toEqual([]);
+    });
+  });
+
+  describe('buildFilteredSql', () => {
+    const filters: ActiveFilter[] = [
+      { source: widgetSource('a'), column: 'Region', kind: 'values', values: ['EMEA', 'APAC'] },
+      { source: 'filter:Date', column: 'OrderDate', kind: 'dateRange', from: '2024-01-01', to: '2024-01-31' }
+    ];
+
+    it('wraps the saved SQL and binds filter values next to its own parameters', () => {
+      const sql = 'SELECT Region, OrderDate, SUM(Total) AS Revenue FROM dbo.Orders WHERE Total > @min GROUP BY Region, OrderDate';
+      expect(buildFilteredSql(sql, { min: 10 }, filters)).toEqual({
+        sql: `SELECT * FROM (\n${sql}\n) AS cross_filtered\n` +
+          'WHERE [Region] IN (@crossfilter_0_0, @crossfilter_0_1)\n' +
+          '  AND [OrderDate] >= CAST(@crossfilter_1_from AS date)\n' +
+          '  AND [OrderDate] < DATEADD(day, 1, CAST(@crossfilter_1_to AS date))',
+        parameters: {
+          min: 10,
+          crossfilter_0_0: 'EMEA',
+          crossfilter_0_1: 'APAC',
+          crossfilter_1_from: '2024-01-01',
+          crossfilter_1_to: '2024-01-31'
+        }
+      });
+    });
+
+    it('keeps CTEs and hints outside the derived table and its ORDER BY legal inside', () => {
+      const sql = 'WITH r AS (SELECT Region, Total FROM dbo.Orders) SELECT Region, SUM(Total) AS Revenue FROM r GROUP BY Region ORDER BY Revenue DESC OPTION (RECOMPILE);';
+      const filtered = buildFilteredSql(sql, {}, filters.slice(0, 1)).sql;
+      expect(filtered).toBe(
+        'WITH r AS (SELECT Region, Total FROM dbo.Orders) SELECT * FROM (\n' +
+          'SELECT Region, SUM(Total) AS Revenue FROM r GROUP BY Region ORDER BY Revenue DESC OFFSET 0 ROWS\n' +
+          ') AS cross_filtered\nWHERE [Region] IN (@crossfilter_0_0, @crossfilter_0_1) OPTION (RECOMPILE)'
+      );
+      expect(buildFilteredSql('SELECT TOP 5 Region FROM dbo.Orders ORDER BY Region', {}, filters.slice(0, 1)).sql).not.toContain('OFFSET');
+    });
+
+    it('leaves the SQL alone without predicates and refuses anything but one SELECT', () => {
+      const empty: ActiveFilter = { source: 'filter:Region', column: 'Region', kind: 'values', values: [] };
+      expect(buildFilteredSql('SELECT 1', { a: 1 }, [empty])).toEqual({ sql: 'SELECT 1', parameters: { a: 1 } });
+      expect(() => buildFilteredSql('SELECT 1; SELECT 2', {}, filters)).toThrow('Only a single SELECT query can be filtered on the server');
+    });
+  });
+});
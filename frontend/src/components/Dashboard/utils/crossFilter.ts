@@ -0,0 +1,179 @@
+/**
+ * Dashboard cross-filtering
+ *
+ * Global filter controls and selections made on a widget (clicked bars or
+ * slices, brushed ranges) share one filter list. Each widget applies the
+ * filters on columns it has, except its own selection, so the selecting
+ * chart keeps showing every category. Cached rows are filtered in the
+ * browser; widgets whose rows live server-side re-run their saved SQL with
+ * the filters added as bound predicates.
+ */
+
+import dayjs from 'dayjs';
+import { GlobalFilter } from '../../../types/visualization';
+import { FilterConfig } from '../../../types/query';
+import { SqlParser } from '../../../utils/sql';
+
+export type ActiveFilter =
+  | { source: string; column: string; kind: 'values'; values: Array<string | number> }
+  | { source: string; column: string; kind: 'dateRange'; from: string; to: string };
+
+/** Distinct values above which a text column is not offered as a multiselect */
+export const MAX_MULTISELECT_OPTIONS = 50;
+
+const WIDGET_SOURCE_PREFIX = 'widget:';
+
+export const globalFilterSource = (filter: GlobalFilter) => `filter:${filter.name}`;
+export const widgetSource = (widgetId: string) => `${WIDGET_SOURCE_PREFIX}${widgetId}`;
+export const widgetIdOf = (source: string): string | undefined =>
+  source.startsWith(WIDGET_SOURCE_PREFIX) ? source.slice(WIDGET_SOURCE_PREFIX.length) : undefined;
+
+/** DashboardView receives the query-level FilterConfig shape */
+export const toGlobalFilter = (filter: FilterConfig): GlobalFilter => ({
+  name: filter.label || filter.columnName,
+  type: filter.filterType,
+  column: filter.columnName,
+  defaultValue: filter.defaultValue,
+  options: filter.options ?? []
+});
+
+const isDateLike = (column: string, value: unknown) =>
+  /date|time|day|month/i.test(column) ||
+  (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value) && dayjs(value).isValid());
+
+export const distinctValues = (rows: any[], column: string): Array<string | number> => {
+  const values = new Set<string | number>();
+  rows.forEach(row => {
+    const value = row?.[column];
+    if (value !== null && value !== undefined && value !== '') values.add(value);
+  });
+  return Array.from(values).sort((a, b) => String(a).localeCompare(String(b), undefined, { numeric: true }));
+};
+
+/**
+ * A filter control for a column: date range for dates, multiselect for
+ * low-cardinality dimensions, nothing for measures.
+ */
+export function inferGlobalFilter(column: string, rows: any[]): GlobalFilter | undefined {
+  const sample = rows.find(row => row?.[column] !== null && row?.[column] !== undefined)?.[column];
+  if (sample === undefined) return undefined;
+
+  if (isDateLike(column, sample)) {
+    return { name: column, type: 'dateRange', column };
+  }
+  if (typeof sample === 'number') return undefined;
+
+  const options = distinctValues(rows, column);
+  if (options.length > MAX_MULTISELECT_OPTIONS) return undefined;
+  return { name: column, type: 'multiSelect', column, options };
+}
+
+const sameValue = (a: unknown, b: unknown) => String(a) === String(b);
+
+export function matchesFilter(row: any, filter: ActiveFilter): boolean {
+  const cell = row?.[filter.column];
+  if (filter.kind === 'values') {
+    return filter.values.length === 0 || filter.values.some(value => sameValue(value, cell));
+  }
+
+  const date = dayjs(cell);
+  if (!date.isValid()) return false;
+  return !date.isBefore(dayjs(filter.from), 'day') && !date.isAfter(dayjs(filter.to), 'day');
+}
+
+/**
+ * The filters that apply to a widget: those on columns it has, minus the
+ * selection the widget made itself.
+ */
+export const filtersForWidget = (filters: ActiveFilter[], widgetId: string, columns: string[]): ActiveFilter[] =>
+  filters.filter(filter => filter.source !== widgetSource(widgetId) && columns.includes(filter.column));
+
+export const applyFilters = (rows: any[], filters: ActiveFilter[]): any[] =>
+  filters.length === 0 ? rows : rows.filter(row => filters.every(filter => matchesFilter(row, filter)));
+
+export const describeFilter = (filter: ActiveFilter): string =>
+  filter.kind === 'values'
+    ? filter.values.length === 1
+      ? `${filter.column} is ${filter.values[0]}`
+      : `${filter.column} is one of ${filter.values.join(', ')}`
+    : `${filter.column} between ${filter.from} and ${filter.to}`;
+
+export interface FilteredSql {
+  sql: string;
+  parameters: Record<string, string | number>;
+}
+
+const quoteColumn = (column: string) => `[${column.replace(/]/g, ']]')}]`;
+
+/**
+ * The widget's saved SQL narrowed to the active filters, for server-side
+ * re-runs. The saved query becomes a derived table (its CTEs and query hints
+ * stay outside) filtered on its output columns, and the filter values are
+ * bound as `@crossfilter_*` parameters next to the query's own.
+ */
+export function buildFilteredSql(sql: string, parameters: Record<string, string | number>, filters: ActiveFilter[]): FilteredSql {
+  const bound = { ...parameters };
+  const predicates = filters.flatMap((filter, index): string[] => {
+    const column = quoteColumn(filter.column);
+    if (filter.kind === 'values') {
+      if (filter.values.length === 0) return [];
+      const names = filter.values.map((value, position) => {
+        bound[`crossfilter_${index}_${position}`] = value;
+        return `@crossfilter_${index}_${position}`;
+      });
+      return [`${column} IN (${names.join(', ')})`];
+    }
+    // Whole days, inclusive at both ends, as matchesFilter compares them
+    bound[`crossfilter_${index}_from`] = dayjs(filter.from).format('YYYY-MM-DD');
+    bound[`crossfilter_${index}_to`] = dayjs(filter.to).format('YYYY-MM-DD');
+    return [
+      `${column} >= CAST(@crossfilter_${index}_from AS date)`,
+      `${column} < DATEADD(day, 1, CAST(@crossfilter_${index}_to AS date))`
+    ];
+  });
+  if (predicates.length === 0) return { sql, parameters };
+
+  const { statements } = SqlParser.parse(sql);
+  const statement = statements[0];
+  if (statements.length !== 1 || statement?.type !== 'selectStatement' || statement.query.forClause) {
+    throw new Error('Only a single SELECT query can be filtered on the server');
+  }
+
+  const { query } = statement;
+  const ctes = sql.slice(query.range.start.offset, query.body.range.start.offset);
+  let inner = sql.slice(query.body.range.start.offset, query.range.end.offset);
+  // A derived table may only keep its ORDER BY alongside TOP or OFFSET
+  const hasTop = query.body.type === 'querySpecification' && Boolean(query.body.top);
+  if (query.orderBy.length > 0 && !query.offset && !hasTop) {
+    inner += ' OFFSET 0 ROWS';
+  }
+  const hints = sql.slice(query.range.end.offset, statement.range.end.offset);
+
+  return {
+    sql: `${ctes}SELECT * FROM (\n${inner}\n) AS cross_filtered\nWHERE ${predicates.join('\n  AND ')}${hints}`,
+    parameters: bound
+  };
+}
+
+/**
+ * Replaces the filter from a source; an empty selection removes it.
+ */
+export function upsertFilter(filters: ActiveFilter[], next: ActiveFilter): ActiveFilter[] {
+  const others = filters.filter(filter => !(filter.source === next.source && filter.column === next.column));
+  const isEmpty = next.kind === 'values' && next.values.length === 0;
+  return isEmpty ? others : [...others, next];
+}
+
+/** The default filter values a dashboard starts with */
+export const initialFilters = (globalFilters: GlobalFilter[]): ActiveFilter[] =>
+  globalFilters.flatMap((filter): ActiveFilter[] => {
+    const value = filter.defaultValue;
+    if (filter.type === 'dateRange' && Array.isArray(value) && value.length === 2) {
+      return [{ source: globalFilterSource(filter), column: filter.column, kind: 'dateRange', from: String(value[0]), to: String(value[1]) }];
+    }
+    if (filter.type === 'multiSelect' && value !== undefined && value !== null) {
+      const values = Array.isArray(value) ? value : [value];
+      return values.length > 0 ? [{ source: globalFilterSource(filter), column: filter.column, kind: 'values', values }] : [];
+    }
+    return [];
+  });
@@ -1,5 +1,5 @@
 // filepath: c:\dev\ReportAIng\frontend\src\components\DataTable\DataTableMain.tsx
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useCallback, useMemo } from 'react';
 import { ConfigProvider, theme, Spin, Alert, Empty } from 'antd';
 import dayjs from 'dayjs';
 import isBetween from 'dayjs/plugin/isBetween';
@@ -16,15 +16,20 @@ import { useContextMenuHandlers } from './hooks/useContextMenuHandlers';
 import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
 import { useEnhancedVirtualization } from './hooks/useEnhancedVirtualization';
 import { useEnhancedColumns } from './hooks/useEnhancedColumns';
+import { useGroupedColumns } from './hooks/useGroupedColumns';
+import { useStatePersistence } from './hooks/useStatePersistence';
 
 // Import sub-components
 import { DataTableToolbar } from './components/DataTableToolbar';
 import { FilterPanel } from './components/FilterPanel';
+import { GroupingPanel } from './components/GroupingPanel';
 import { ColumnChooserModal, ExportModal } from './components/DataTableModals';
 import { AggregationRow } from './components/AggregationRow';
 import { VirtualizedTable, StandardTable } from './components/DataTableRenderer';
 import { ContextMenuProvider } from './services/ContextMenuService';
 import { VirtualizationService } from './services/VirtualizationService';
+import { ExportService } from './services/ExportService';
+import { isGroupRow } from './utils/grouping';
 
 // Large dataset threshold for virtual scrolling
 const VIRTUAL_SCROLL_THRESHOLD = 1000;
@@ -36,9 +41,30 @@ dayjs.extend(isBetween);
 dayjs.extend(isSameOrAfter);
 dayjs.extend(isSameOrBefore);
 
-const DataTable: React.FC<DataTableProps> = (props) => {
+const DataTable: React.FC<DataTableProps> = (tableProps) => {
+  const { data: rawData = [], masking } = tableProps;
+
+  // Mask once up front so rendering, copying and every export see the same values
+  const data = useMemo(() => (masking ? masking.maskRecords(rawData) : rawData), [masking, rawData]);
+  const props = useMemo<DataTableProps>(() => {
+    if (!masking) return tableProps;
+    const { exportDataSource, columnMetadata } = tableProps;
+    return {
+      ...tableProps,
+      data,
+      ...(exportDataSource && {
+        exportDataSource: ExportService.mapPages(exportDataSource, masking.maskRecordsHashed)
+      }),
+      // Masked values are text whatever the source column's type
+      ...(columnMetadata && {
+        columnMetadata: columnMetadata.map(column =>
+          masking.isMasked(column.name) ? { ...column, dataType: 'nvarchar' } : column
+        )
+      })
+    };
+  }, [tableProps, masking, data]);
+
   const {
-    data = [],
     columns = [],
     keyField = 'id',
     loading = false,
@@ -73,13 +99,23 @@ const DataTable: React.FC<DataTableProps> = (props) => {
     state,
     actions,
     enabledFeatures,
+    persistenceOptions,
     visibleColumns,
     debouncedSearchText,
-    virtualizationServiceRef
+    virtualizationServiceRef,
+    autoSaveTimeoutRef
   } = useDataTableState({ columns: finalColumns, features, config });
 
   // Data processing
-  const { processedData, paginatedData, totalRecords } = useDataProcessing({
+  const {
+    processedData,
+    paginatedData,
+    totalRecords,
+    groupKeys,
+    isGrouped,
+    pivotColumns,
+    pivotTruncated
+  } = useDataProcessing({
     data,
     debouncedSearchText,
     sortConfig: state.sortConfig,
@@ -89,9 +125,47 @@ const DataTable: React.FC<DataTableProps> = (props) => {
     currentPage: state.currentPage,
     pageSize: state.pageSize,
     hiddenRows: state.hiddenRows,
-    keyField
+    keyField,
+    grouping: state.grouping,
+    pivotConfig: state.pivotConfig
+  });
+
+  // Saved layout, sorting, filters, grouping and pivot per table
+  const persistence = useStatePersistence({
+    tableId: props.tableId,
+    enabled: enabledFeatures.saveState,
+    autoSave: enabledFeatures.autoSaveState,
+    persistenceOptions,
+    state,
+    actions,
+    autoSaveTimeoutRef,
+    onStateChange: props.onStateChange
   });
 
+  const { grouping, pivotConfig } = state;
+  const { setGrouping, setPivotConfig, setCurrentPage } = actions;
+
+  const handleToggleGroup = useCallback((groupKey: string) => {
+    setGrouping({
+      ...grouping,
+      expandedGroups: grouping.expandedGroups.includes(groupKey)
+        ? grouping.expandedGroups.filter(key => key !== groupKey)
+        : [...grouping.expandedGroups, groupKey]
+    });
+  }, [grouping, setGrouping]);
+
+  const groupedColumns = useGroupedColumns({
+    columns: visibleColumns,
+    allColumns: state.displayColumns,
+    grouping,
+    isGrouped,
+    onToggleGroup: handleToggleGroup
+  });
+
+  // Pivot mode swaps in generated columns; grouping decorates the visible ones
+  const tableColumns = pivotColumns ?? groupedColumns;
+  const tableKeyField = pivotColumns ? 'id' : keyField;
+
   // Event handlers
   const handlers = useDataTableHandlers({
     state,
@@ -235,7 +309,14 @@ const DataTable: React.FC<DataTableProps> = (props) => {
                 onRefresh={handlers.handleRefresh}
                 isFullscreen={state.isFullscreen}
                 onToggleFullscreen={handlers.toggleFullscreen}
-                onGroupBy={() => {}}
+                onGroupBy={() => actions.setShowGroupingPanel(!state.showGroupingPanel)}
+                groupCount={pivotConfig.enabled ? pivotConfig.rows.length + pivotConfig.columns.length : grouping.groupBy.length}
+                isPivotMode={pivotConfig.enabled}
+                onSaveState={persistence.saveState}
+                onLoadState={persistence.loadState}
+                onClearState={persistence.clearState}
+                onExportState={persistence.exportState}
+                onImportState={persistence.importState}
                 selectedRowsCount={state.selectedRows.length}
                 hiddenRowsCount={state.hiddenRows.length}
                 onHideSelectedRows={handlers.handleHideSelectedRows}
@@ -255,6 +336,28 @@ const DataTable: React.FC<DataTableProps> = (props) => {
             />
           )}
 
+          {/* Grouping & Pivot Panel */}
+          {state.showGroupingPanel && enabledFeatures.grouping && (
+            <GroupingPanel
+              visible={state.showGroupingPanel}
+              columns={state.displayColumns.filter(col => !col.hidden)}
+              grouping={grouping}
+              pivotConfig={pivotConfig}
+              pivotTruncated={pivotTruncated}
+              onGroupingChange={(next) => {
+                setGrouping(next);
+                setCurrentPage(1);
+              }}
+              onPivotChange={(next) => {
+                setPivotConfig(next);
+                setCurrentPage(1);
+              }}
+              onExpandAll={() => setGrouping({ ...grouping, expandedGroups: groupKeys })}
+              onCollapseAll={() => setGrouping({ ...grouping, expandedGroups: [] })}
+              onClose={() => actions.setShowGroupingPanel(false)}
+            />
+          )}
+
           {/* Table Container */}
           <div style={{ 
             flex: 1, 
@@ -262,7 +365,7 @@ const DataTable: React.FC<DataTableProps> = (props) => {
             ...tableStyle 
           }}>
             {/* Aggregation Row - Top */}
-            {config.showAggregationRow && enabledFeatures.aggregation && (
+            {config.showAggregationRow && enabledFeatures.aggregation && !pivotColumns && (
               <AggregationRow
                 columns={visibleColumns}
                 data={processedData}
@@ -277,13 +380,13 @@ const DataTable: React.FC<DataTableProps> = (props) => {
               typeof VirtualizedTable !== 'undefined' ? (
                 <VirtualizedTable
                   data={finalData}
-                  columns={visibleColumns}
-                  keyField={keyField}
+                  columns={tableColumns}
+                  keyField={tableKeyField}
                   height={tableRef.current?.clientHeight || 600}
                   width={tableRef.current?.clientWidth || 1200}
                   onRowClick={props.onRowClick}
                   onContextMenu={handleTableContextMenu}
-                  rowSelection={enabledFeatures.selection ? {
+                  rowSelection={enabledFeatures.selection && !pivotColumns ? {
                     selectedRowKeys: state.selectedRows.map(row => row[keyField]),
                     onChange: handlers.handleSelectionChange
                   } : undefined}
@@ -321,19 +424,20 @@ const DataTable: React.FC<DataTableProps> = (props) => {
             ) : (
               <StandardTable
                 data={finalData}
-                columns={visibleColumns}
-                keyField={keyField}
+                columns={tableColumns}
+                keyField={tableKeyField}
                 pagination={enabledFeatures.pagination ? {
                   current: state.currentPage,
                   pageSize: state.pageSize,
                   total: totalRecords,
                   onChange: handlers.handlePageChange
                 } : false}
-                rowSelection={enabledFeatures.selection ? {
+                rowSelection={enabledFeatures.selection && !pivotColumns ? {
                   selectedRowKeys: state.selectedRows.map(row => row[keyField]),
-                  onChange: handlers.handleSelectionChange
+                  onChange: handlers.handleSelectionChange,
+                  getCheckboxProps: (record: any) => ({ disabled: isGroupRow(record) })
                 } : undefined}
-                onRow={(record, index) => ({
+                onRow={(record, index) => isGroupRow(record) ? {} : ({
                   onClick: () => props.onRowClick?.(record, index || 0),
                   onDoubleClick: () => props.onRowDoubleClick?.(record, index || 0),
                   onContextMenu: (e) => handleTableContextMenu(e, { type: 'row', record, column: undefined })
@@ -344,7 +448,7 @@ const DataTable: React.FC<DataTableProps> = (props) => {
             )}
 
             {/* Aggregation Row - Bottom */}
-            {config.showAggregationRow && enabledFeatures.aggregation && (
+            {config.showAggregationRow && enabledFeatures.aggregation && !pivotColumns && (
               <AggregationRow
                 columns={visibleColumns}
                 data={processedData}
@@ -375,6 +479,8 @@ const DataTable: React.FC<DataTableProps> = (props) => {
             visible={state.showExportModal}
             exportFormats={[...enabledFeatures.exportFormats || []]}
             onExport={handlers.handleExport}
+            progress={state.exportProgress}
+            onCancel={handlers.handleCancelExport}
             onClose={() => actions.setShowExportModal(false)}
           />
         </div>
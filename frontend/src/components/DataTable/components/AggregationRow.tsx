@@ -1,7 +1,7 @@
 import React from 'react';
 import { useToken } from 'antd/es/theme/internal';
-import _ from 'lodash';
 import { DataTableColumn } from '../types';
+import { aggregateColumn, formatAggregate } from '../utils/grouping';
 
 interface AggregationRowProps {
   columns: DataTableColumn[];
@@ -20,36 +20,7 @@ export const AggregationRow: React.FC<AggregationRowProps> = ({
 
   const calculateAggregation = (column: DataTableColumn) => {
     if (!column.aggregation) return null;
-    
-    const values = data.map(row => _.get(row, column.dataIndex));
-    let aggregatedValue;
-    
-    switch (column.aggregation) {
-      case 'sum':
-        aggregatedValue = _.sum(values.filter(v => typeof v === 'number'));
-        break;
-      case 'avg':
-        aggregatedValue = _.mean(values.filter(v => typeof v === 'number'));
-        break;
-      case 'min':
-        aggregatedValue = _.min(values);
-        break;
-      case 'max':
-        aggregatedValue = _.max(values);
-        break;
-      case 'count':
-        aggregatedValue = values.filter(v => v != null).length;
-        break;
-      case 'custom':
-        aggregatedValue = column.customAggregation?.(values);
-        break;
-      default:
-        return null;
-    }
-    
-    return column.aggregationFormatter
-      ? column.aggregationFormatter(aggregatedValue)
-      : aggregatedValue;
+    return formatAggregate(column, aggregateColumn(column, data));
   };
 
   return (
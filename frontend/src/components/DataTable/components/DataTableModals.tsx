@@ -1,11 +1,13 @@
 import React from 'react';
-import { Modal, Space, Button, Typography, Checkbox } from 'antd';
+import { Modal, Space, Button, Typography, Checkbox, Progress } from 'antd';
 import { 
   FileExcelOutlined, 
   FilePdfOutlined, 
   FileTextOutlined, 
   DownloadOutlined,
-  LockOutlined 
+  LockOutlined,
+  StopOutlined,
+  DatabaseOutlined
 } from '@ant-design/icons';
 import {
   DndContext,
@@ -21,6 +23,7 @@ import {
   sortableKeyboardCoordinates,
   horizontalListSortingStrategy,
 } from '@dnd-kit/sortable';
+import { ExportProgress } from '../types';
 
 const { Text } = Typography;
 
@@ -45,6 +48,8 @@ interface ExportModalProps {
   exportFormats: string[];
   onClose: () => void;
   onExport: (format: string) => void;
+  progress?: ExportProgress | null;
+  onCancel?: () => void;
 }
 
 export const ColumnChooserModal: React.FC<ColumnChooserModalProps> = ({
@@ -109,34 +114,65 @@ export const ExportModal: React.FC<ExportModalProps> = ({
   visible,
   exportFormats,
   onClose,
-  onExport
+  onExport,
+  progress,
+  onCancel
 }) => {
+  const isExporting = !!progress && !['completed', 'cancelled', 'failed'].includes(progress.phase);
+
   return (
     <Modal
       title="Export Data"
       open={visible}
-      onCancel={onClose}
+      onCancel={() => {
+        if (!isExporting) onClose();
+      }}
+      closable={!isExporting}
+      maskClosable={!isExporting}
       footer={null}
       width={400}
     >
-      <Space direction="vertical" style={{ width: '100%' }}>
-        <Text>Choose export format:</Text>
-        {exportFormats.map(format => (
-          <Button
-            key={format}
-            block
-            icon={
-              format === 'excel' ? <FileExcelOutlined /> :
-              format === 'pdf' ? <FilePdfOutlined /> :
-              format === 'csv' ? <FileTextOutlined /> :
-              <DownloadOutlined />
-            }
-            onClick={() => onExport(format)}
-          >
-            Export as {format.toUpperCase()}
-          </Button>
-        ))}
-      </Space>
+      {isExporting && progress ? (
+        <Space direction="vertical" style={{ width: '100%' }}>
+          <Text>
+            Exporting {progress.format.toUpperCase()}: {progress.rowsWritten.toLocaleString()}
+            {progress.totalRows !== undefined && ` of ${progress.totalRows.toLocaleString()}`} rows
+          </Text>
+          <Progress
+            percent={progress.percent}
+            status="active"
+            showInfo={progress.totalRows !== undefined}
+          />
+          <Text type="secondary">
+            {(progress.bytesWritten / (1024 * 1024)).toFixed(1)} MB written
+          </Text>
+          {onCancel && (
+            <Button block danger icon={<StopOutlined />} onClick={onCancel}>
+              Cancel Export
+            </Button>
+          )}
+        </Space>
+      ) : (
+        <Space direction="vertical" style={{ width: '100%' }}>
+          <Text>Choose export format:</Text>
+          {exportFormats.map(format => (
+            <Button
+              key={format}
+              block
+              icon={
+                format === 'excel' ? <FileExcelOutlined /> :
+                format === 'pdf' ? <FilePdfOutlined /> :
+                format === 'csv' || format === 'ndjson' ? <FileTextOutlined /> :
+                format === 'parquet' || format === 'arrow' ? <DatabaseOutlined /> :
+                <DownloadOutlined />
+              }
+              onClick={() => onExport(format)}
+            >
+              Export as {format.toUpperCase()}
+            </Button>
+          ))}
+        </Space>
+      )}
     </Modal>
   );
 };
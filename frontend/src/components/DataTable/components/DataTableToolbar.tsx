@@ -45,6 +45,8 @@ interface DataTableToolbarProps {
   isFullscreen: boolean;
   onToggleFullscreen: () => void;
   onGroupBy: () => void;
+  groupCount?: number;
+  isPivotMode?: boolean;
   onSaveState?: () => void;
   onLoadState?: () => void;
   onClearState?: () => void;
@@ -71,6 +73,8 @@ export const DataTableToolbar: React.FC<DataTableToolbarProps> = ({
   isFullscreen,
   onToggleFullscreen,
   onGroupBy,
+  groupCount = 0,
+  isPivotMode = false,
   onSaveState,
   onLoadState,
   onClearState,
@@ -200,8 +204,13 @@ export const DataTableToolbar: React.FC<DataTableToolbarProps> = ({
         )}
         
         {enabledFeatures.grouping && (
-          <Button icon={<GroupOutlined />} onClick={onGroupBy}>
-            Group By
+          <Button
+            icon={<GroupOutlined />}
+            onClick={onGroupBy}
+            type={groupCount > 0 ? 'primary' : 'default'}
+            ghost={groupCount > 0}
+          >
+            {isPivotMode ? 'Pivot' : 'Group By'} {groupCount > 0 && `(${groupCount})`}
           </Button>
         )}
 
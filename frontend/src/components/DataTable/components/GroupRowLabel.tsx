@@ -0,0 +1,40 @@
+import React from 'react';
+import { Tag } from 'antd';
+import { DownOutlined, RightOutlined } from '@ant-design/icons';
+import { GroupRow } from '../types';
+
+interface GroupRowLabelProps {
+  row: GroupRow;
+  title: string;
+  onToggle: (groupKey: string) => void;
+}
+
+export const GroupRowLabel: React.FC<GroupRowLabelProps> = ({ row, title, onToggle }) => {
+  const value = row.__groupValue === null || row.__groupValue === undefined || row.__groupValue === ''
+    ? '(empty)'
+    : String(row.__groupValue);
+
+  return (
+    <span
+      role="button"
+      aria-expanded={row.__expanded}
+      onClick={(e) => {
+        e.stopPropagation();
+        onToggle(row.__groupKey);
+      }}
+      style={{
+        display: 'inline-flex',
+        alignItems: 'center',
+        gap: 6,
+        paddingLeft: row.__groupLevel * 16,
+        cursor: 'pointer',
+        fontWeight: 600,
+        whiteSpace: 'nowrap'
+      }}
+    >
+      {row.__expanded ? <DownOutlined /> : <RightOutlined />}
+      <span>{title}: {value}</span>
+      <Tag style={{ marginLeft: 4 }}>{row.__groupCount}</Tag>
+    </span>
+  );
+};
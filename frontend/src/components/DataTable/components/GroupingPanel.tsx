@@ -0,0 +1,183 @@
+import React from 'react';
+import { Alert, Card, Button, Space, Select, Switch, Radio, Typography } from 'antd';
+import { CloseCircleOutlined } from '@ant-design/icons';
+import { useToken } from 'antd/es/theme/internal';
+import { AggregationType, DataTableColumn, GroupingConfig, PivotConfig } from '../types';
+import { MAX_PIVOT_COLUMNS } from '../utils/grouping';
+
+const { Text } = Typography;
+
+interface GroupingPanelProps {
+  visible: boolean;
+  columns: DataTableColumn[];
+  grouping: GroupingConfig;
+  pivotConfig: PivotConfig;
+  pivotTruncated?: boolean;
+  onGroupingChange: (grouping: GroupingConfig) => void;
+  onPivotChange: (pivotConfig: PivotConfig) => void;
+  onExpandAll: () => void;
+  onCollapseAll: () => void;
+  onClose: () => void;
+}
+
+const AGGREGATION_OPTIONS: { label: string; value: Exclude<AggregationType, 'custom'> }[] = [
+  { label: 'Sum', value: 'sum' },
+  { label: 'Average', value: 'avg' },
+  { label: 'Min', value: 'min' },
+  { label: 'Max', value: 'max' },
+  { label: 'Count', value: 'count' }
+];
+
+export const GroupingPanel: React.FC<GroupingPanelProps> = ({
+  visible,
+  columns,
+  grouping,
+  pivotConfig,
+  pivotTruncated = false,
+  onGroupingChange,
+  onPivotChange,
+  onExpandAll,
+  onCollapseAll,
+  onClose
+}) => {
+  const [, token] = useToken();
+
+  if (!visible) return null;
+
+  const columnOptions = columns.map(col => ({ label: col.title, value: col.key }));
+  const measureColumn = columns.find(col => col.key === pivotConfig.measure);
+  const aggregationOptions = measureColumn?.customAggregation
+    ? [...AGGREGATION_OPTIONS, { label: 'Custom', value: 'custom' as const }]
+    : AGGREGATION_OPTIONS;
+
+  return (
+    <Card
+      style={{
+        margin: '16px',
+        background: token.colorBgContainer,
+        borderRadius: token.borderRadius,
+        boxShadow: token.boxShadow
+      }}
+      title="Group & Pivot"
+      extra={
+        <Button
+          type="text"
+          icon={<CloseCircleOutlined />}
+          onClick={onClose}
+        />
+      }
+    >
+      <Space direction="vertical" style={{ width: '100%' }}>
+        <Radio.Group
+          value={pivotConfig.enabled ? 'pivot' : 'group'}
+          onChange={e => onPivotChange({ ...pivotConfig, enabled: e.target.value === 'pivot' })}
+          optionType="button"
+          options={[
+            { label: 'Group rows', value: 'group' },
+            { label: 'Pivot', value: 'pivot' }
+          ]}
+        />
+
+        {pivotConfig.enabled ? (
+          <>
+            <div>
+              <Text strong>Rows</Text>
+              <Select
+                mode="multiple"
+                style={{ width: '100%', marginTop: 8 }}
+                placeholder="Columns to use as row headers"
+                value={pivotConfig.rows}
+                options={columnOptions}
+                onChange={rows => onPivotChange({ ...pivotConfig, rows })}
+              />
+            </div>
+            <div>
+              <Text strong>Columns</Text>
+              <Select
+                mode="multiple"
+                style={{ width: '100%', marginTop: 8 }}
+                placeholder="Columns to spread across the top"
+                value={pivotConfig.columns}
+                options={columnOptions}
+                onChange={pivotColumns => onPivotChange({ ...pivotConfig, columns: pivotColumns })}
+              />
+            </div>
+            <div>
+              <Text strong>Measure</Text>
+              <Space.Compact style={{ width: '100%', marginTop: 8 }}>
+                <Select
+                  style={{ width: '65%' }}
+                  placeholder="Count rows"
+                  allowClear
+                  value={pivotConfig.measure}
+                  options={columnOptions}
+                  onChange={measure => onPivotChange({ ...pivotConfig, measure })}
+                />
+                <Select
+                  style={{ width: '35%' }}
+                  value={pivotConfig.aggregation}
+                  options={aggregationOptions}
+                  disabled={!pivotConfig.measure}
+                  onChange={aggregation => onPivotChange({ ...pivotConfig, aggregation })}
+                />
+              </Space.Compact>
+            </div>
+            {pivotTruncated && (
+              <Alert
+                type="warning"
+                showIcon
+                message={`Only the first ${MAX_PIVOT_COLUMNS} column values are shown. Filter the data or choose a column with fewer values.`}
+              />
+            )}
+          </>
+        ) : (
+          <>
+            <div>
+              <Text strong>Group by</Text>
+              <Select
+                mode="multiple"
+                style={{ width: '100%', marginTop: 8 }}
+                placeholder="Select columns in grouping order"
+                value={grouping.groupBy}
+                options={columnOptions}
+                onChange={groupBy => onGroupingChange({ ...grouping, groupBy, expandedGroups: [] })}
+              />
+            </div>
+            <Space>
+              <Switch
+                checked={grouping.showSubtotals}
+                onChange={showSubtotals => onGroupingChange({ ...grouping, showSubtotals })}
+              />
+              <Text>Show subtotals</Text>
+            </Space>
+            <Space>
+              <Button onClick={onExpandAll} disabled={grouping.groupBy.length === 0}>
+                Expand All
+              </Button>
+              <Button onClick={onCollapseAll} disabled={grouping.expandedGroups.length === 0}>
+                Collapse All
+              </Button>
+            </Space>
+          </>
+        )}
+
+        <Space>
+          <Button
+            type="primary"
+            onClick={onClose}
+          >
+            Done
+          </Button>
+          <Button
+            onClick={() => {
+              onGroupingChange({ ...grouping, groupBy: [], expandedGroups: [] });
+              onPivotChange({ ...pivotConfig, enabled: false, rows: [], columns: [] });
+            }}
+          >
+            Clear
+          </Button>
+        </Space>
+      </Space>
+    </Card>
+  );
+};
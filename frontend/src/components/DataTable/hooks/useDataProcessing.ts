@@ -2,7 +2,8 @@
 import { useMemo } from 'react';
 import _ from 'lodash';
 import dayjs from 'dayjs';
-import { DataTableColumn, DataTableFeatures, SortConfig, FilterConfig } from '../types';
+import { DataTableColumn, DataTableFeatures, SortConfig, FilterConfig, GroupingConfig, PivotConfig } from '../types';
+import { buildGroupTree, buildPivot, collectGroupKeys, flattenGroupTree } from '../utils/grouping';
 
 // Helper function to parse money values
 const parseMoneyValue = (value: any): number => {
@@ -27,6 +28,8 @@ interface UseDataProcessingProps {
   pageSize: number;
   hiddenRows?: any[];
   keyField?: string;
+  grouping?: GroupingConfig;
+  pivotConfig?: PivotConfig;
 }
 
 export const useDataProcessing = ({
@@ -39,7 +42,9 @@ export const useDataProcessing = ({
   currentPage,
   pageSize,
   hiddenRows = [],
-  keyField = 'id'
+  keyField = 'id',
+  grouping,
+  pivotConfig
 }: UseDataProcessingProps) => {
   
   // Process data: filter hidden rows, search, filter, sort
@@ -153,17 +158,58 @@ export const useDataProcessing = ({
     return result;
   }, [data, debouncedSearchText, filterConfig, sortConfig, visibleColumns, enabledFeatures, hiddenRows, keyField]);
 
+  const pivotActive = Boolean(enabledFeatures.grouping && pivotConfig?.enabled &&
+    (pivotConfig.rows.length > 0 || pivotConfig.columns.length > 0));
+  const groupBy = grouping?.groupBy;
+  const groupingActive = Boolean(enabledFeatures.grouping && !pivotActive && groupBy && groupBy.length > 0);
+
+  // Pivot runs over the filtered rows in a single pass
+  const pivotResult = useMemo(() => {
+    if (!pivotActive || !pivotConfig) return null;
+    return buildPivot(processedData, pivotConfig, visibleColumns);
+  }, [pivotActive, pivotConfig, processedData, visibleColumns]);
+
+  // Group tree (with subtotals) is only rebuilt when the rows or grouping change,
+  // so expanding and collapsing groups just re-flattens it
+  const groupTree = useMemo(() => {
+    if (!groupingActive || !groupBy) return null;
+    return buildGroupTree(processedData, groupBy, visibleColumns);
+  }, [groupingActive, groupBy, processedData, visibleColumns]);
+
+  const groupKeys = useMemo(() => (groupTree ? collectGroupKeys(groupTree) : []), [groupTree]);
+
+  const expandedGroups = grouping?.expandedGroups;
+  const showSubtotals = grouping?.showSubtotals ?? true;
+
+  // Rows as displayed: pivot rows, group headers interleaved with expanded records, or plain records
+  const displayData = useMemo(() => {
+    if (pivotResult) return pivotResult.rows;
+    if (groupTree) {
+      return flattenGroupTree(groupTree, {
+        expandedGroups: new Set(expandedGroups),
+        showSubtotals,
+        keyField
+      });
+    }
+    return processedData;
+  }, [pivotResult, groupTree, expandedGroups, showSubtotals, keyField, processedData]);
+
   // Paginated data
   const paginatedData = useMemo(() => {
-    if (!enabledFeatures.pagination) return processedData;
+    if (!enabledFeatures.pagination) return displayData;
     const start = (currentPage - 1) * pageSize;
-    return processedData.slice(start, start + pageSize);
-  }, [processedData, currentPage, pageSize, enabledFeatures.pagination]);
+    return displayData.slice(start, start + pageSize);
+  }, [displayData, currentPage, pageSize, enabledFeatures.pagination]);
 
   return {
     processedData,
+    displayData,
     paginatedData,
-    totalRecords: processedData.length,
-    totalPages: Math.ceil(processedData.length / pageSize)
+    groupKeys,
+    isGrouped: groupingActive,
+    pivotColumns: pivotResult?.columns ?? null,
+    pivotTruncated: pivotResult?.truncated ?? false,
+    totalRecords: displayData.length,
+    totalPages: Math.ceil(displayData.length / pageSize)
   };
 };
@@ -1,9 +1,15 @@
 // filepath: c:\dev\ReportAIng\frontend\src\components\DataTable\hooks\useDataTableHandlers.ts
-import { useCallback } from 'react';
+import { useCallback, useRef } from 'react';
 import { message } from 'antd';
 import _ from 'lodash';
 import { DataTableColumn, DataTableProps, DataTableState, DataTableFeatures } from '../types';
-import { ExportService } from '../services/ExportService';
+import { ExportService, StreamingExportFormat } from '../services/ExportService';
+
+// Formats written incrementally through ExportService.streamExport
+const STREAMING_EXPORT_FORMATS: string[] = ['csv', 'ndjson'];
+
+// Above this many rows, streamed exports ask for a save location up front and write straight to disk
+const DEFAULT_STREAMING_EXPORT_THRESHOLD = 50000;
 
 interface UseDataTableHandlersProps {
   state: DataTableState;
@@ -99,7 +105,85 @@ export const useDataTableHandlers = ({
     onColumnReorder?.(newColumns);
   }, [onColumnReorder, actions]);
 
+  const exportAbortRef = useRef<AbortController | null>(null);
+
+  const handleStreamingExport = useCallback(async (format: StreamingExportFormat) => {
+    const fileName = config.exportFileName || 'data-export';
+    const { exportDataSource } = props;
+
+    // Stream the full backend result only when the table holds a partial
+    // slice and no client-side search/filter would be lost by doing so
+    const hasLocalCriteria = !!debouncedSearchText || Object.keys(state.filterConfig).length > 0 || state.hiddenRows.length > 0;
+    const useRemoteSource = !!exportDataSource && !hasLocalCriteria &&
+      (exportDataSource.totalRows === undefined || exportDataSource.totalRows > data.length);
+    const source = useRemoteSource && exportDataSource
+      ? exportDataSource
+      : ExportService.createArrayDataSource(processedData);
+
+    const threshold = config.streamingExportThreshold ?? DEFAULT_STREAMING_EXPORT_THRESHOLD;
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+
+    try {
+      const result = await ExportService.streamExport(source, visibleColumns, {
+        format,
+        filename: fileName,
+        pageSize: config.exportPageSize,
+        signal: controller.signal,
+        useFileSystemAccess: (source.totalRows ?? Number.MAX_SAFE_INTEGER) > threshold,
+        onProgress: actions.setExportProgress
+      });
+
+      message.success(`Exported ${result.rowsWritten.toLocaleString()} rows as ${format.toUpperCase()}`);
+      actions.setShowExportModal(false);
+      onExport?.(format, processedData);
+    } catch (error) {
+      if ((error as Error)?.name === 'AbortError') {
+        message.info('Export cancelled');
+      } else {
+        message.error('Export failed');
+        onError?.(error as Error);
+      }
+    } finally {
+      exportAbortRef.current = null;
+      actions.setExportProgress(null);
+    }
+  }, [props, config.exportFileName, config.exportPageSize, config.streamingExportThreshold, debouncedSearchText, state.filterConfig, state.hiddenRows, data.length, processedData, visibleColumns, onExport, onError, actions]);
+
+  const handleCancelExport = useCallback(() => {
+    exportAbortRef.current?.abort();
+  }, []);
+
   const handleExport = useCallback(async (format: string) => {
+    if (exportAbortRef.current) {
+      message.warning('An export is already in progress');
+      return;
+    }
+
+    if (STREAMING_EXPORT_FORMATS.includes(format)) {
+      await handleStreamingExport(format as StreamingExportFormat);
+      return;
+    }
+
+    // Typed columnar formats read the raw row values so dates and numbers keep their types
+    if (format === 'parquet' || format === 'arrow') {
+      try {
+        const fileName = config.exportFileName || 'data-export';
+        if (format === 'parquet') {
+          await ExportService.exportParquet(processedData, visibleColumns, fileName, props.columnMetadata);
+        } else {
+          await ExportService.exportArrow(processedData, visibleColumns, fileName, props.columnMetadata);
+        }
+        message.success(`Data exported as ${format.toUpperCase()}`);
+        actions.setShowExportModal(false);
+        onExport?.(format, processedData);
+      } catch (error) {
+        message.error('Export failed');
+        onError?.(error as Error);
+      }
+      return;
+    }
+
     try {
       const exportData = processedData.map(row => {
         const exportRow: any = {};
@@ -115,9 +199,6 @@ export const useDataTableHandlers = ({
       const fileName = config.exportFileName || 'data-export';
       
       switch (format) {
-        case 'csv':
-          ExportService.exportCSV(exportData, visibleColumns, fileName);
-          break;
         case 'excel':
           ExportService.exportExcel(exportData, visibleColumns, fileName);
           break;
@@ -142,7 +223,7 @@ export const useDataTableHandlers = ({
       message.error('Export failed');
       onError?.(error as Error);
     }
-  }, [processedData, visibleColumns, config.exportFileName, onExport, onError, actions]);
+  }, [handleStreamingExport, processedData, visibleColumns, config.exportFileName, props.columnMetadata, onExport, onError, actions]);
 
   const handlePrint = useCallback(() => {
     window.print();
@@ -276,6 +357,7 @@ export const useDataTableHandlers = ({
     handleSelectionChange,
     handleColumnReorder,
     handleExport,
+    handleCancelExport,
     handlePrint,
     handleRefresh,
     toggleFullscreen,
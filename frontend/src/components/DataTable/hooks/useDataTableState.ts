@@ -1,7 +1,7 @@
 // filepath: c:\dev\ReportAIng\frontend\src\components\DataTable\hooks\useDataTableState.ts
 import { useState, useRef, useMemo } from 'react';
 import { useDebounce } from 'use-debounce';
-import { DataTableColumn, DataTableFeatures, DataTableConfig, DataTableState } from '../types';
+import { DataTableColumn, DataTableFeatures, DataTableConfig, DataTableState, ExportProgress, GroupingConfig, PivotConfig } from '../types';
 import { VirtualizationService } from '../services/VirtualizationService';
 
 interface UseDataTableStateProps {
@@ -35,7 +35,7 @@ export const useDataTableState = ({ columns, features, config }: UseDataTableSta
     copying: true,
     contextMenu: true,
     export: true,
-    exportFormats: ['csv', 'excel', 'pdf', 'json'],
+    exportFormats: ['csv', 'ndjson', 'excel', 'pdf', 'json'],
     print: true,
     columnChooser: true,
     saveState: false,
@@ -61,12 +61,25 @@ export const useDataTableState = ({ columns, features, config }: UseDataTableSta
   const [pageSize, setPageSize] = useState(config.pageSize || 20);
   const [selectedRows, setSelectedRows] = useState<any[]>([]);
   const [hiddenRows, setHiddenRows] = useState<any[]>([]);
+  const [grouping, setGrouping] = useState<GroupingConfig>({
+    groupBy: config.defaultGroupBy || [],
+    expandedGroups: [],
+    showSubtotals: true
+  });
+  const [pivotConfig, setPivotConfig] = useState<PivotConfig>({
+    enabled: false,
+    rows: [],
+    columns: [],
+    aggregation: 'sum'
+  });
   
   // UI state
   const [showFilterPanel, setShowFilterPanel] = useState(false);
   const [showColumnChooser, setShowColumnChooser] = useState(false);
   const [showExportModal, setShowExportModal] = useState(false);
+  const [exportProgress, setExportProgress] = useState<ExportProgress | null>(null);
   const [isFullscreen, setIsFullscreen] = useState(false);
+  const [showGroupingPanel, setShowGroupingPanel] = useState(false);
 
   // Debounced search
   const [debouncedSearchText] = useDebounce(searchText, enabledFeatures.debounceDelay);
@@ -89,7 +102,11 @@ export const useDataTableState = ({ columns, features, config }: UseDataTableSta
     showFilterPanel,
     showColumnChooser,
     showExportModal,
-    isFullscreen
+    exportProgress,
+    isFullscreen,
+    grouping,
+    pivotConfig,
+    showGroupingPanel
   };
 
   const actions = {
@@ -104,7 +121,11 @@ export const useDataTableState = ({ columns, features, config }: UseDataTableSta
     setShowFilterPanel,
     setShowColumnChooser,
     setShowExportModal,
-    setIsFullscreen
+    setExportProgress,
+    setIsFullscreen,
+    setGrouping,
+    setPivotConfig,
+    setShowGroupingPanel
   };
 
   return {
@@ -60,6 +60,16 @@ export const useEnhancedVirtualization = ({
     }
   }, [itemHeight, containerHeight, overscan, bufferSize, enableDynamicHeight]);
 
+  // Indexes point at different rows once the row set changes (e.g. groups
+  // expanding or collapsing), so drop measured sizes and keep the offset in range
+  useEffect(() => {
+    if (enableDynamicHeight) {
+      serviceRef.current?.resetItemSizes();
+      setItemSizes(new Map());
+    }
+    setScrollOffset(offset => Math.min(offset, Math.max(0, data.length * itemHeight - containerHeight)));
+  }, [data, enableDynamicHeight, itemHeight, containerHeight]);
+
   // Calculate virtual items
   const virtualItems = useMemo(() => {
     if (!serviceRef.current) return [];
@@ -0,0 +1,51 @@
+import React, { useMemo } from 'react';
+import { DataTableColumn, GroupingConfig } from '../types';
+import { GroupRowLabel } from '../components/GroupRowLabel';
+import { formatAggregate, isGroupRow } from '../utils/grouping';
+
+interface UseGroupedColumnsProps {
+  columns: DataTableColumn[];
+  allColumns: DataTableColumn[];
+  grouping: GroupingConfig;
+  isGrouped: boolean;
+  onToggleGroup: (groupKey: string) => void;
+}
+
+/**
+ * Teaches the visible columns to render group header rows: the first column
+ * shows the collapsible group label, aggregated columns show the subtotal.
+ */
+export const useGroupedColumns = ({
+  columns,
+  allColumns,
+  grouping,
+  isGrouped,
+  onToggleGroup
+}: UseGroupedColumnsProps) => {
+  return useMemo(() => {
+    if (!isGrouped) return columns;
+
+    const titleFor = (key: string) =>
+      allColumns.find(col => col.key === key || col.dataIndex === key)?.title ?? key;
+
+    return columns.map((column, columnIndex) => ({
+      ...column,
+      // Header sorting would reorder group rows independently of their records
+      sortable: false,
+      render: (value: any, record: any, index: number) => {
+        if (isGroupRow(record)) {
+          if (columnIndex === 0) {
+            return React.createElement(GroupRowLabel, {
+              row: record,
+              title: titleFor(record.__groupField),
+              onToggle: onToggleGroup
+            });
+          }
+          if (!grouping.showSubtotals || !column.aggregation) return null;
+          return React.createElement('strong', null, formatAggregate(column, record[column.dataIndex]));
+        }
+        return column.render ? column.render(value, record, index) : value;
+      }
+    }));
+  }, [columns, allColumns, grouping.showSubtotals, isGrouped, onToggleGroup]);
+};
@@ -0,0 +1,145 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { message } from 'antd';
+import { DataTableColumn, DataTableState, GroupingConfig, PersistedTableState, PersistenceOptions, PivotConfig } from '../types';
+import { StatePersistenceService } from '../services/StatePersistenceService';
+
+const AUTO_SAVE_DELAY = 1000;
+
+interface UseStatePersistenceProps {
+  tableId?: string | undefined;
+  enabled: boolean;
+  autoSave: boolean;
+  persistenceOptions: PersistenceOptions;
+  state: DataTableState;
+  actions: {
+    setDisplayColumns: React.Dispatch<React.SetStateAction<DataTableColumn[]>>;
+    setSortConfig: (sortConfig: any[]) => void;
+    setFilterConfig: (filterConfig: Record<string, any>) => void;
+    setPageSize: (pageSize: number) => void;
+    setCurrentPage: (page: number) => void;
+    setGrouping: (grouping: GroupingConfig) => void;
+    setPivotConfig: (pivotConfig: PivotConfig) => void;
+  };
+  autoSaveTimeoutRef: React.MutableRefObject<NodeJS.Timeout | null>;
+  onStateChange?: ((state: PersistedTableState) => void) | undefined;
+}
+
+export const useStatePersistence = ({
+  tableId,
+  enabled,
+  autoSave,
+  persistenceOptions,
+  state,
+  actions,
+  autoSaveTimeoutRef,
+  onStateChange
+}: UseStatePersistenceProps) => {
+  const { storage, prefix, encryption } = persistenceOptions;
+  const service = useMemo(
+    () => new StatePersistenceService({ storage, prefix, encryption }),
+    [storage, prefix, encryption]
+  );
+  // Auto-save waits until the saved state has been restored, so defaults never overwrite it
+  const restoredRef = useRef(false);
+
+  const {
+    setDisplayColumns,
+    setSortConfig,
+    setFilterConfig,
+    setPageSize,
+    setCurrentPage,
+    setGrouping,
+    setPivotConfig
+  } = actions;
+
+  const applyState = useCallback((saved: PersistedTableState) => {
+    setDisplayColumns(current => StatePersistenceService.applyColumns(current, saved.columns));
+    setSortConfig(saved.sortConfig);
+    setFilterConfig(saved.filterConfig);
+    setPageSize(saved.pageSize);
+    setGrouping(saved.grouping);
+    setPivotConfig(saved.pivotConfig);
+    setCurrentPage(1);
+  }, [setDisplayColumns, setSortConfig, setFilterConfig, setPageSize, setGrouping, setPivotConfig, setCurrentPage]);
+
+  // Restore on mount
+  useEffect(() => {
+    restoredRef.current = false;
+    if (!enabled || !tableId) return;
+
+    let cancelled = false;
+    service.load(tableId)
+      .then(saved => {
+        if (!cancelled && saved) applyState(saved);
+      })
+      .finally(() => {
+        if (!cancelled) restoredRef.current = true;
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, tableId, service, applyState]);
+
+  const { displayColumns, sortConfig, filterConfig, pageSize, grouping, pivotConfig } = state;
+  const snapshot = useMemo(
+    () => StatePersistenceService.capture({ displayColumns, sortConfig, filterConfig, pageSize, grouping, pivotConfig }),
+    [displayColumns, sortConfig, filterConfig, pageSize, grouping, pivotConfig]
+  );
+
+  const saveState = useCallback(async () => {
+    if (!tableId) return;
+    try {
+      await service.save(tableId, snapshot);
+      onStateChange?.(snapshot);
+    } catch (error) {
+      console.error('Failed to save table state:', error);
+      message.error('Failed to save table state');
+    }
+  }, [service, tableId, snapshot, onStateChange]);
+
+  // Debounced auto-save
+  useEffect(() => {
+    if (!enabled || !autoSave || !tableId || !restoredRef.current) return;
+
+    if (autoSaveTimeoutRef.current) clearTimeout(autoSaveTimeoutRef.current);
+    autoSaveTimeoutRef.current = setTimeout(() => {
+      service.save(tableId, snapshot)
+        .then(() => onStateChange?.(snapshot))
+        .catch(error => console.error('Failed to auto-save table state:', error));
+    }, AUTO_SAVE_DELAY);
+
+    return () => {
+      if (autoSaveTimeoutRef.current) clearTimeout(autoSaveTimeoutRef.current);
+    };
+  }, [enabled, autoSave, tableId, service, snapshot, onStateChange, autoSaveTimeoutRef]);
+
+  const loadState = useCallback(async () => {
+    if (!tableId) return;
+    const saved = await service.load(tableId);
+    if (saved) {
+      applyState(saved);
+      message.success('State loaded');
+    } else {
+      message.info('No saved state for this table');
+    }
+  }, [service, tableId, applyState]);
+
+  const clearState = useCallback(() => {
+    if (tableId) service.clear(tableId);
+  }, [service, tableId]);
+
+  const exportState = useCallback(() => service.serialize(snapshot), [service, snapshot]);
+
+  const importState = useCallback((json: string) => {
+    try {
+      applyState(service.parse(json));
+      return true;
+    } catch (error) {
+      console.error('Failed to import table state:', error);
+      return false;
+    }
+  }, [service, applyState]);
+
+  return { saveState, loadState, clearState, exportState, importState };
+};
@@ -1,6 +1,6 @@
 // filepath: c:\dev\ReportAIng\frontend\src\components\DataTable/index.ts
 export { default } from './DataTableMain';
-export type { DataTableProps, DataTableColumn, DataTableFeatures, DataTableConfig } from './types';
+export type { DataTableProps, DataTableColumn, DataTableFeatures, DataTableConfig, ExportDataSource, ExportProgress, GroupingConfig, PivotConfig, PersistedTableState } from './types';
 
 // Re-export components for external use
 export { DataTableToolbar } from './components/DataTableToolbar';
@@ -15,11 +15,15 @@ export type { DataTypeAnalysis, ColumnAnalysis } from './utils/dataTypeDetection
 // Import directly from './demo/EnhancedFilteringDemo' if needed
 export { ColumnChooserModal, ExportModal } from './components/DataTableModals';
 export { AggregationRow } from './components/AggregationRow';
+export { GroupingPanel } from './components/GroupingPanel';
 export { VirtualizedTable, StandardTable } from './components/DataTableRenderer';
 
 // Re-export services
 export { ExportService } from './services/ExportService';
+export type { StreamingExportFormat, StreamingExportOptions, StreamingExportResult } from './services/ExportService';
 export { VirtualizationService } from './services/VirtualizationService';
+export { StatePersistenceService, StatePersistenceError } from './services/StatePersistenceService';
+export { buildGroupTree, flattenGroupTree, buildPivot } from './utils/grouping';
 export { ContextMenuProvider, useContextMenuActions } from './services/ContextMenuService';
 
 // Re-export hooks
@@ -0,0 +1,278 @@
+import type { DataType, Table, Vector } from 'apache-arrow';
+import type { BasicType, ColumnSource, schemaFromColumnData } from 'hyparquet-writer';
+
+/**
+ * Typed (columnar) export for Apache Arrow IPC and Apache Parquet.
+ *
+ * Column types are resolved from the SQL type names reported in
+ * `QueryMetadata.columns[].dataType` (e.g. `decimal(18,2)`, `datetime2`) or
+ * from the DataTable's own `dataType` hints, so dates, numbers and nulls
+ * survive the round trip into pandas/DuckDB instead of becoming strings.
+ *
+ * Both libraries are ESM-only and sizeable, so they are loaded with a dynamic
+ * `import()` on first export instead of being part of the main bundle.
+ *
+ * frontend-v2 has the same conversions in src/shared/utils/columnarExport.ts,
+ * where they are tested by reading the written files back; Jest here can't
+ * load the ESM-only libraries. Change both copies together.
+ */
+
+export type ColumnarType = 'boolean' | 'int32' | 'int64' | 'decimal' | 'float64' | 'timestamp' | 'string';
+
+export interface ColumnarColumn {
+  name: string;
+  dataType?: string | undefined;
+}
+
+export interface DecimalSpec {
+  precision: number;
+  scale: number;
+}
+
+type SchemaElement = ReturnType<typeof schemaFromColumnData>[number];
+
+const TYPE_PATTERNS: [RegExp, ColumnarType][] = [
+  [/^(bit|bool|boolean)$/, 'boolean'],
+  [/^(bigint|int64|long)$/, 'int64'],
+  [/^(tinyint|smallint|int|integer|int16|int32|byte)$/, 'int32'],
+  [/^(decimal|numeric|money|smallmoney|currency)/, 'decimal'],
+  [/^(float|real|double|single|number)/, 'float64'],
+  [/^(date|datetime|datetime2|smalldatetime|datetimeoffset|timestamp)/, 'timestamp'],
+];
+
+const MAX_DECIMAL_PRECISION = 38;
+
+const MONEY_SPECS: Record<string, DecimalSpec> = {
+  money: { precision: 19, scale: 4 },
+  smallmoney: { precision: 10, scale: 4 },
+};
+
+/**
+ * Map a SQL Server / DataTable type name to the columnar type used for export.
+ * Unknown or missing types fall back to strings.
+ */
+export const resolveColumnarType = (dataType?: string): ColumnarType => {
+  const normalized = (dataType || '').trim().toLowerCase();
+  const match = TYPE_PATTERNS.find(([pattern]) => pattern.test(normalized));
+  return match ? match[1] : 'string';
+};
+
+const fractionDigits = (value: any): number => {
+  const match = /^[+-]?\d*(?:\.(\d+))?(?:e([+-]?\d+))?$/i.exec(String(value).trim());
+  return match ? Math.max(0, (match[1]?.length ?? 0) - Number(match[2] ?? 0)) : 0;
+};
+
+/**
+ * Precision and scale of a decimal column. The backend often reports the bare
+ * .NET type name (`Decimal`), in which case the scale is taken from the values.
+ */
+export const resolveDecimalSpec = (dataType: string | undefined, values: any[]): DecimalSpec => {
+  const normalized = (dataType || '').trim().toLowerCase();
+  const declared = /\(\s*(\d+)\s*(?:,\s*(\d+)\s*)?\)/.exec(normalized);
+  if (declared) {
+    return { precision: Math.min(Number(declared[1]), MAX_DECIMAL_PRECISION), scale: Number(declared[2] ?? 0) };
+  }
+  const money = MONEY_SPECS[normalized];
+  if (money) return money;
+
+  const scale = values.reduce<number>((max, value) => (value === null || value === undefined ? max : Math.max(max, fractionDigits(value))), 0);
+  return { precision: MAX_DECIMAL_PRECISION, scale: Math.min(scale, MAX_DECIMAL_PRECISION) };
+};
+
+// ISO date-times without a zone would otherwise be read in the browser's time zone
+const NAIVE_DATETIME = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/;
+
+const toTimestamp = (value: any): number | null => {
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value.getTime();
+  const text = typeof value === 'string' ? value.trim() : value;
+  const time = new Date(typeof text === 'string' && NAIVE_DATETIME.test(text) ? `${text.replace(' ', 'T')}Z` : text).getTime();
+  return Number.isNaN(time) ? null : time;
+};
+
+const toNumber = (value: any): number | null => {
+  const num = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(num) ? num : null;
+};
+
+const toInt64 = (value: any): bigint | null => {
+  if (typeof value === 'bigint') return value;
+  // Strings go straight to BigInt so values beyond 2^53 stay exact
+  if (typeof value === 'string' && /^[+-]?\d+$/.test(value.trim())) return BigInt(value.trim());
+  const num = toNumber(value);
+  return num === null ? null : BigInt(Math.trunc(num));
+};
+
+const DECIMAL_TEXT = /^([+-]?)(\d*)(?:\.(\d*))?$/;
+
+/**
+ * The unscaled integer of a decimal (`12.345` at scale 2 is `1235n`), parsed
+ * from the text so it is exact beyond float64 precision. Extra fraction digits
+ * round half away from zero.
+ */
+export const toUnscaledDecimal = (value: any, scale: number): bigint | null => {
+  if (typeof value === 'bigint') return value * 10n ** BigInt(scale);
+  if (typeof value === 'number' && Number.isInteger(value)) return BigInt(value) * 10n ** BigInt(scale);
+  const text = typeof value === 'number' ? value.toFixed(scale) : String(value).trim();
+  const match = DECIMAL_TEXT.exec(text);
+  if (!match || !(match[2] || match[3])) {
+    // Exponent notation and the like go through float64
+    const num = typeof value === 'number' ? null : toNumber(value);
+    return num === null ? null : toUnscaledDecimal(num, scale);
+  }
+
+  const [, sign, whole = '', fraction = ''] = match;
+  const digits = BigInt((whole || '0') + fraction.slice(0, scale).padEnd(scale, '0'));
+  const rounded = Number(fraction[scale] ?? 0) >= 5 ? digits + 1n : digits;
+  return sign === '-' ? -rounded : rounded;
+};
+
+const coerceValue = (value: any, type: ColumnarType, decimal?: DecimalSpec): any => {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+
+  switch (type) {
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (value === 1 || value === '1' || String(value).toLowerCase() === 'true') return true;
+      if (value === 0 || value === '0' || String(value).toLowerCase() === 'false') return false;
+      return null;
+    case 'int32': {
+      const num = toNumber(value);
+      return num === null ? null : Math.trunc(num);
+    }
+    case 'int64':
+      try {
+        return toInt64(value);
+      } catch {
+        return null;
+      }
+    case 'decimal':
+      try {
+        return toUnscaledDecimal(value, decimal?.scale ?? 0);
+      } catch {
+        return null;
+      }
+    case 'float64':
+      return toNumber(value);
+    case 'timestamp':
+      return toTimestamp(value);
+    default:
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+};
+
+const PARQUET_TYPES: Record<Exclude<ColumnarType, 'decimal'>, BasicType> = {
+  boolean: 'BOOLEAN',
+  int32: 'INT32',
+  int64: 'INT64',
+  float64: 'DOUBLE',
+  timestamp: 'TIMESTAMP',
+  string: 'STRING',
+};
+
+/**
+ * Split row-major values into typed column arrays.
+ */
+const toColumns = (rows: any[][], columns: ColumnarColumn[]) =>
+  columns.map((column, index) => {
+    const type = resolveColumnarType(column.dataType);
+    const raw = rows.map(row => row[index]);
+    const decimal = type === 'decimal' ? resolveDecimalSpec(column.dataType, raw) : undefined;
+    return {
+      name: column.name,
+      type,
+      ...(decimal && { decimal }),
+      values: raw.map(value => coerceValue(value, type, decimal)),
+    };
+  });
+
+// Two's complement, least significant 32-bit word first, as Arrow stores Decimal128
+const toDecimalWords = (unscaled: bigint): Uint32Array => {
+  const words = new Uint32Array(4);
+  let remaining = BigInt.asUintN(128, unscaled);
+  for (let index = 0; index < words.length; index++) {
+    words[index] = Number(remaining & 0xffffffffn);
+    remaining >>= 32n;
+  }
+  return words;
+};
+
+const decimalSchemaElement = (name: string, { precision, scale }: DecimalSpec): SchemaElement => ({
+  name,
+  // Up to 18 digits fit an INT64; wider decimals take the full 16 bytes
+  ...(precision <= 18 ? { type: 'INT64' as const } : { type: 'FIXED_LEN_BYTE_ARRAY' as const, type_length: 16 }),
+  repetition_type: 'OPTIONAL',
+  converted_type: 'DECIMAL',
+  logical_type: { type: 'DECIMAL', precision, scale },
+  precision,
+  scale,
+});
+
+export class ColumnarExportService {
+  /**
+   * Build an Arrow table from row-major values.
+   */
+  static async toArrowTable(rows: any[][], columns: ColumnarColumn[]): Promise<Table> {
+    const arrow = await import('apache-arrow');
+    const arrowType = (type: ColumnarType, decimal?: DecimalSpec): DataType => {
+      switch (type) {
+        case 'boolean': return new arrow.Bool();
+        case 'int32': return new arrow.Int32();
+        case 'int64': return new arrow.Int64();
+        case 'decimal': return new arrow.Decimal(decimal!.scale, decimal!.precision, 128);
+        case 'float64': return new arrow.Float64();
+        case 'timestamp': return new arrow.TimestampMillisecond();
+        default: return new arrow.Utf8();
+      }
+    };
+
+    const vectors: Record<string, Vector> = {};
+    toColumns(rows, columns).forEach(column => {
+      const values = column.type === 'decimal'
+        ? column.values.map(value => (value === null ? null : toDecimalWords(value)))
+        : column.values;
+      vectors[column.name] = arrow.vectorFromArray(values, arrowType(column.type, column.decimal));
+    });
+    return new arrow.Table(vectors);
+  }
+
+  /**
+   * Serialize rows to the Arrow IPC file format (`.arrow`, a.k.a. Feather v2).
+   */
+  static async toArrowIPC(rows: any[][], columns: ColumnarColumn[]): Promise<ArrayBuffer> {
+    const [{ tableToIPC }, table] = await Promise.all([import('apache-arrow'), this.toArrowTable(rows, columns)]);
+    const bytes = tableToIPC(table, 'file');
+    return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+  }
+
+  /**
+   * Serialize rows to a Snappy-compressed Parquet file.
+   */
+  static async toParquet(rows: any[][], columns: ColumnarColumn[]): Promise<ArrayBuffer> {
+    const { parquetWriteBuffer, schemaFromColumnData } = await import('hyparquet-writer');
+    const typed = toColumns(rows, columns);
+
+    const columnData: ColumnSource[] = typed.map(column => ({
+      name: column.name,
+      // Parquet TIMESTAMP columns expect Date instances
+      data: column.type === 'timestamp'
+        ? column.values.map(value => (value === null ? null : new Date(value)))
+        : column.values,
+      ...(column.type !== 'decimal' && { type: PARQUET_TYPES[column.type], nullable: true }),
+    }));
+
+    // Decimals have no basic type, so the schema is built with overrides for them
+    const schemaOverrides = Object.fromEntries(
+      typed
+        .filter(column => column.decimal)
+        .map(column => [column.name, decimalSchemaElement(column.name, column.decimal!)])
+    );
+    const schema = schemaFromColumnData({ columnData, schemaOverrides });
+
+    return parquetWriteBuffer({
+      columnData: columnData.map(({ name, data }) => ({ name, data })),
+      schema,
+    });
+  }
+}
@@ -3,35 +3,378 @@ import { saveAs } from 'file-saver';
 import { jsPDF } from 'jspdf';
 import 'jspdf-autotable';
 import _ from 'lodash';
+import { ExportDataSource, ExportProgress } from '../types';
+import { ColumnInfo, QueryResult } from '../../../types/query';
+import { ColumnarExportService } from './ColumnarExportService';
 
 interface DataTableColumn {
   key: string;
   title: string;
   dataIndex: string;
+  dataType?: string;
   exportFormatter?: (value: any) => string;
   exportable?: boolean;
 }
 
+export type StreamingExportFormat = 'csv' | 'ndjson';
+
+export interface StreamingExportOptions {
+  format: StreamingExportFormat;
+  filename?: string;
+  pageSize?: number | undefined;
+  signal?: AbortSignal | undefined;
+  onProgress?: (progress: ExportProgress) => void;
+  // Prefer writing straight to disk through the File System Access API when available
+  useFileSystemAccess?: boolean;
+}
+
+export interface StreamingExportResult {
+  rowsWritten: number;
+  bytesWritten: number;
+  durationMs: number;
+}
+
+// Minimal typings for the File System Access API (not yet part of the DOM lib)
+interface WritableFileStream {
+  write(data: string | Blob): Promise<void>;
+  close(): Promise<void>;
+  abort(): Promise<void>;
+}
+
+interface SaveFilePickerWindow {
+  showSaveFilePicker?: (options: {
+    suggestedName?: string;
+    types?: { description: string; accept: Record<string, string[]> }[];
+  }) => Promise<{ createWritable(): Promise<WritableFileStream> }>;
+}
+
+interface ExportSink {
+  write(chunk: string): Promise<void>;
+  close(): Promise<void>;
+  abort(): Promise<void>;
+}
+
+const DEFAULT_EXPORT_PAGE_SIZE = 5000;
+const CSV_LINE_BREAK = '\r\n';
+
+const MIME_TYPES: Record<StreamingExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8;',
+  ndjson: 'application/x-ndjson'
+};
+
+// Serializers shared by the inline worker and the main-thread fallback.
+// Kept as plain ES5 so they can be stringified into the worker script.
+function escapeCSVField(value: any): string {
+  if (value === null || value === undefined) return '';
+  var text = value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // RFC 4180: quote fields containing delimiters, quotes or line breaks
+  return /[",\r\n]/.test(text) || /^\s|\s$/.test(text)
+    ? '"' + text.replace(/"/g, '""') + '"'
+    : text;
+}
+
+function serializeRows(format: StreamingExportFormat, headers: string[], rows: any[][]): string {
+  var out = '';
+  for (var i = 0; i < rows.length; i++) {
+    var row = rows[i] || [];
+    if (format === 'csv') {
+      var cells: string[] = [];
+      for (var j = 0; j < row.length; j++) cells.push(escapeCSVField(row[j]));
+      out += cells.join(',') + '\r\n';
+    } else {
+      var record: Record<string, any> = {};
+      for (var k = 0; k < headers.length; k++) record[headers[k] as string] = row[k] === undefined ? null : row[k];
+      out += JSON.stringify(record) + '\n';
+    }
+  }
+  return out;
+}
+
+const abortError = (): Error => {
+  const error = new Error('Export cancelled');
+  error.name = 'AbortError';
+  return error;
+};
+
 export class ExportService {
+  /**
+   * Escape a single CSV field per RFC 4180: fields containing commas, quotes
+   * or line breaks are wrapped in quotes with embedded quotes doubled.
+   */
+  static escapeCSVValue(value: any): string {
+    return escapeCSVField(value);
+  }
+
   static exportCSV(data: any[], columns: DataTableColumn[], filename: string = 'data') {
     const exportableColumns = columns.filter(col => col.exportable !== false);
-    const headers = exportableColumns.map(col => col.title).join(',');
-    const rows = data.map(row => 
-      exportableColumns.map(col => {
-        const value = _.get(row, col.dataIndex);
-        const exportValue = col.exportFormatter ? col.exportFormatter(value) : value;
-        // Escape commas and quotes for CSV
-        return typeof exportValue === 'string' && exportValue.includes(',') 
-          ? `"${exportValue.replace(/"/g, '""')}"` 
-          : exportValue;
-      }).join(',')
-    ).join('\n');
-    
-    const csv = `${headers}\n${rows}`;
-    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+    const parts: string[] = [
+      exportableColumns.map(col => this.escapeCSVValue(col.title)).join(',') + CSV_LINE_BREAK
+    ];
+
+    // Build the file as Blob parts so no single giant string is materialized
+    for (let offset = 0; offset < data.length; offset += DEFAULT_EXPORT_PAGE_SIZE) {
+      const rows = data
+        .slice(offset, offset + DEFAULT_EXPORT_PAGE_SIZE)
+        .map(row => this.projectRow(row, exportableColumns));
+      parts.push(serializeRows('csv', [], rows));
+    }
+
+    const blob = new Blob(parts, { type: MIME_TYPES.csv });
     saveAs(blob, `${filename}.csv`);
   }
 
+  /**
+   * Stream a (possibly server-side) result set to a CSV or NDJSON file.
+   * Rows are pulled page by page from the data source, serialized off the
+   * main thread and appended to the output incrementally, so the full file
+   * never has to exist as a single string in memory.
+   */
+  static async streamExport(
+    source: ExportDataSource,
+    columns: DataTableColumn[],
+    options: StreamingExportOptions
+  ): Promise<StreamingExportResult> {
+    const { format, filename = 'data', signal, onProgress } = options;
+    const pageSize = Math.max(1, options.pageSize ?? DEFAULT_EXPORT_PAGE_SIZE);
+    const exportableColumns = columns.filter(col => col.exportable !== false);
+    const headers = exportableColumns.map(col => col.title);
+    const totalRows = source.totalRows;
+    const startedAt = Date.now();
+
+    const sink = await this.createSink(format, `${filename}.${format}`, options.useFileSystemAccess ?? true);
+    const serializer = this.createSerializer();
+    let rowsWritten = 0;
+    let bytesWritten = 0;
+
+    const write = async (chunk: string) => {
+      await sink.write(chunk);
+      bytesWritten += new Blob([chunk]).size;
+    };
+
+    const report = (phase: ExportProgress['phase']) => {
+      onProgress?.({
+        phase,
+        format,
+        rowsWritten,
+        totalRows,
+        percent: totalRows ? Math.min(100, Math.round((rowsWritten / totalRows) * 100)) : 0,
+        bytesWritten
+      });
+    };
+
+    try {
+      report('preparing');
+      if (format === 'csv') {
+        await write(headers.map(header => this.escapeCSVValue(header)).join(',') + CSV_LINE_BREAK);
+      }
+
+      if (signal?.aborted) throw abortError();
+      for await (const page of source.readPages(pageSize, signal)) {
+        if (signal?.aborted) throw abortError();
+        if (page.length === 0) continue;
+
+        const rows = page.map(row => this.projectRow(row, exportableColumns));
+        await write(await serializer.serialize(format, headers, rows));
+        rowsWritten += page.length;
+        report('exporting');
+
+        if (totalRows !== undefined && rowsWritten >= totalRows) break;
+      }
+
+      if (signal?.aborted) throw abortError();
+      report('finalizing');
+      await sink.close();
+      report('completed');
+
+      return { rowsWritten, bytesWritten, durationMs: Date.now() - startedAt };
+    } catch (error) {
+      await sink.abort();
+      report(signal?.aborted ? 'cancelled' : 'failed');
+      throw error;
+    } finally {
+      serializer.dispose();
+    }
+  }
+
+  /**
+   * Expose an in-memory array through the same paged contract used for
+   * server-side results.
+   */
+  static createArrayDataSource(data: any[]): ExportDataSource {
+    return {
+      totalRows: data.length,
+      readPages: async function* (pageSize) {
+        for (let offset = 0; offset < data.length; offset += pageSize) {
+          yield data.slice(offset, offset + pageSize);
+        }
+      }
+    };
+  }
+
+  /**
+   * Wrap a query result whose `data` may be only the first slice of the full
+   * result. When more rows may exist (`QueryResult.totalRows` is larger or
+   * unknown, since the backend truncates at `maxRows` silently), every row is
+   * read through `streamRemoteRows` instead, so the export comes from a single
+   * execution rather than the loaded slice joined to a later run.
+   */
+  static createQueryResultDataSource(
+    result: QueryResult,
+    streamRemoteRows?: ExportDataSource['readPages']
+  ): ExportDataSource {
+    const loadedRows = result.data ?? [];
+    const partial = result.totalRows === undefined || result.totalRows > loadedRows.length;
+
+    return streamRemoteRows && partial
+      ? { totalRows: result.totalRows, readPages: streamRemoteRows }
+      : this.createArrayDataSource(loadedRows);
+  }
+
+  /**
+   * Transform each page as it is read, e.g. to mask it before it is written.
+   */
+  static mapPages(source: ExportDataSource, transform: (page: any[]) => Promise<any[]>): ExportDataSource {
+    return {
+      ...source,
+      readPages: async function* (pageSize, signal) {
+        for await (const page of source.readPages(pageSize, signal)) {
+          yield await transform(page);
+        }
+      }
+    };
+  }
+
+  private static toColumnarInput(data: any[], columns: DataTableColumn[], columnInfo?: ColumnInfo[]) {
+    const exportableColumns = columns.filter(col => col.exportable !== false);
+    const columnarColumns = exportableColumns.map(col => {
+      const info = columnInfo?.find(c => c.name === col.dataIndex || c.name === col.key);
+      // Formatted values are strings, so typed output only survives unformatted columns
+      const dataType = col.exportFormatter ? 'string' : info?.dataType || info?.type || col.dataType;
+      return { name: col.title, dataType };
+    });
+    const rows = data.map(row => this.projectRow(row, exportableColumns));
+    return { rows, columnarColumns };
+  }
+
+  private static projectRow(row: any, columns: DataTableColumn[]): any[] {
+    return columns.map(col => {
+      const value = _.get(row, col.dataIndex);
+      return col.exportFormatter ? col.exportFormatter(value) : value;
+    });
+  }
+
+  private static async createSink(
+    format: StreamingExportFormat,
+    fileName: string,
+    useFileSystemAccess: boolean
+  ): Promise<ExportSink> {
+    const picker = (window as unknown as SaveFilePickerWindow).showSaveFilePicker;
+
+    if (useFileSystemAccess && picker) {
+      try {
+        const handle = await picker({
+          suggestedName: fileName,
+          types: [{
+            description: format.toUpperCase(),
+            accept: { [MIME_TYPES[format].split(';')[0] as string]: [`.${format}`] }
+          }]
+        });
+        const stream = await handle.createWritable();
+        return {
+          write: chunk => stream.write(chunk),
+          close: () => stream.close(),
+          abort: () => stream.abort().catch(() => undefined)
+        };
+      } catch (error) {
+        // The user dismissed the picker - treat it as a cancellation
+        if ((error as Error)?.name === 'AbortError') throw error;
+        console.warn('File System Access unavailable, falling back to Blob export:', error);
+      }
+    }
+
+    // Fallback: keep serialized chunks as separate Blob parts and save once at the end
+    let parts: BlobPart[] = [];
+    return {
+      write: async chunk => {
+        parts.push(chunk);
+      },
+      close: async () => {
+        saveAs(new Blob(parts, { type: MIME_TYPES[format] }), fileName);
+        parts = [];
+      },
+      abort: async () => {
+        parts = [];
+      }
+    };
+  }
+
+  private static createSerializer(): {
+    serialize: (format: StreamingExportFormat, headers: string[], rows: any[][]) => Promise<string>;
+    dispose: () => void;
+  } {
+    let worker: Worker | undefined;
+    let workerUrl: string | undefined;
+
+    if (typeof Worker !== 'undefined' && typeof URL.createObjectURL === 'function') {
+      try {
+        // Create inline worker so serialization of large pages does not block rendering.
+        // The entry point is bound to a fixed name because minification renames functions.
+        const workerScript = `
+          ${escapeCSVField.toString()}
+          var serializeRows = ${serializeRows.toString()};
+          self.onmessage = function(e) {
+            var id = e.data.id;
+            try {
+              var result = serializeRows(e.data.format, e.data.headers, e.data.rows);
+              self.postMessage({ id: id, success: true, result: result });
+            } catch (error) {
+              self.postMessage({ id: id, success: false, error: error.message });
+            }
+          };
+        `;
+        const blob = new Blob([workerScript], { type: 'application/javascript' });
+        workerUrl = URL.createObjectURL(blob);
+        worker = new Worker(workerUrl);
+      } catch (error) {
+        console.warn('Export worker not available:', error);
+        worker = undefined;
+      }
+    }
+
+    let nextId = 0;
+
+    return {
+      serialize: (format, headers, rows) => {
+        if (!worker) {
+          // Yield to the event loop between pages so the UI can repaint progress
+          return new Promise(resolve => {
+            setTimeout(() => resolve(serializeRows(format, headers, rows)), 0);
+          });
+        }
+
+        const activeWorker = worker;
+        const id = nextId++;
+        return new Promise((resolve, reject) => {
+          const handleMessage = (e: MessageEvent) => {
+            if (e.data?.id !== id) return;
+            activeWorker.removeEventListener('message', handleMessage);
+            if (e.data.success) {
+              resolve(e.data.result);
+            } else {
+              reject(new Error(e.data.error));
+            }
+          };
+          activeWorker.addEventListener('message', handleMessage);
+          activeWorker.postMessage({ id, format, headers, rows });
+        });
+      },
+      dispose: () => {
+        worker?.terminate();
+        if (workerUrl) URL.revokeObjectURL(workerUrl);
+      }
+    };
+  }
+
   static exportExcel(data: any[], columns: DataTableColumn[], filename: string = 'data') {
     const exportableColumns = columns.filter(col => col.exportable !== false);
     const worksheetData = data.map(row => {
@@ -77,7 +420,26 @@ export class ExportService {
     doc.save(`${filename}.pdf`);
   }
 
-  static exportJSON(data: any[], filename: string = 'data') {
+  /**
+   * Export as an Apache Arrow IPC file. Column types come from the query's
+   * `ColumnInfo` metadata when supplied, otherwise from the column `dataType`.
+   */
+  static async exportArrow(data: any[], columns: DataTableColumn[], filename: string = 'data', columnInfo?: ColumnInfo[]) {
+    const { rows, columnarColumns } = this.toColumnarInput(data, columns, columnInfo);
+    const buffer = await ColumnarExportService.toArrowIPC(rows, columnarColumns);
+    saveAs(new Blob([buffer], { type: 'application/vnd.apache.arrow.file' }), `${filename}.arrow`);
+  }
+
+  /**
+   * Export as an Apache Parquet file, typed the same way as {@link exportArrow}.
+   */
+  static async exportParquet(data: any[], columns: DataTableColumn[], filename: string = 'data', columnInfo?: ColumnInfo[]) {
+    const { rows, columnarColumns } = this.toColumnarInput(data, columns, columnInfo);
+    const buffer = await ColumnarExportService.toParquet(rows, columnarColumns);
+    saveAs(new Blob([buffer], { type: 'application/vnd.apache.parquet' }), `${filename}.parquet`);
+  }
+
+  static exportJSON(data: any[] | Record<string, any>, filename: string = 'data') {
     const json = JSON.stringify(data, null, 2);
     const blob = new Blob([json], { type: 'application/json' });
     saveAs(blob, `${filename}.json`);
@@ -1,2 +1,118 @@
-// Placeholder for StatePersistenceService
-export {};
\ No newline at end of file
+import { SecurityUtils } from '../../../utils/security';
+import { DataTableColumn, DataTableState, PersistedTableState, PersistenceOptions } from '../types';
+
+const STATE_VERSION = 1;
+
+export class StatePersistenceError extends Error {
+  constructor(message: string, public tableId?: string) {
+    super(message);
+    this.name = 'StatePersistenceError';
+  }
+}
+
+/**
+ * Saves and restores table layout (columns, sorting, filters, grouping and
+ * pivot) per table id in local or session storage, optionally encrypted.
+ */
+export class StatePersistenceService {
+  constructor(private options: PersistenceOptions) {}
+
+  private get storage(): Storage {
+    return this.options.storage === 'sessionStorage' ? window.sessionStorage : window.localStorage;
+  }
+
+  private storageKey(tableId: string) {
+    return `${this.options.prefix}${tableId}`;
+  }
+
+  static capture(
+    state: Pick<DataTableState, 'displayColumns' | 'sortConfig' | 'filterConfig' | 'pageSize' | 'grouping' | 'pivotConfig'>
+  ): PersistedTableState {
+    return {
+      version: STATE_VERSION,
+      savedAt: new Date().toISOString(),
+      columns: state.displayColumns.map(col => ({ key: col.key, hidden: col.hidden, width: col.width })),
+      sortConfig: state.sortConfig,
+      filterConfig: state.filterConfig,
+      pageSize: state.pageSize,
+      grouping: state.grouping,
+      pivotConfig: state.pivotConfig
+    };
+  }
+
+  /**
+   * Applies saved column order, visibility and widths. Columns that no longer
+   * exist are dropped; new columns keep their place at the end.
+   */
+  static applyColumns(columns: DataTableColumn[], saved: PersistedTableState['columns']): DataTableColumn[] {
+    const byKey = new Map(columns.map(col => [col.key, col]));
+    const restored: DataTableColumn[] = [];
+
+    saved.forEach(entry => {
+      const column = byKey.get(entry.key);
+      if (!column) return;
+      restored.push({
+        ...column,
+        ...(entry.hidden !== undefined && { hidden: entry.hidden }),
+        ...(entry.width !== undefined && { width: entry.width })
+      });
+      byKey.delete(entry.key);
+    });
+
+    return [...restored, ...Array.from(byKey.values())];
+  }
+
+  serialize(state: PersistedTableState): string {
+    return JSON.stringify(state, null, 2);
+  }
+
+  parse(json: string): PersistedTableState {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      throw new StatePersistenceError('Table state is not valid JSON');
+    }
+
+    if (!parsed || typeof parsed !== 'object' || parsed.version !== STATE_VERSION) {
+      throw new StatePersistenceError(`Unsupported table state version: ${parsed?.version}`);
+    }
+    if (!Array.isArray(parsed.columns) || !Array.isArray(parsed.sortConfig) || !parsed.grouping || !parsed.pivotConfig) {
+      throw new StatePersistenceError('Table state is missing required fields');
+    }
+
+    return parsed as PersistedTableState;
+  }
+
+  async save(tableId: string, state: PersistedTableState): Promise<void> {
+    const json = this.serialize(state);
+    const payload = this.options.encryption ? await SecurityUtils.encryptToken(json) : json;
+    try {
+      this.storage.setItem(this.storageKey(tableId), payload);
+    } catch (error) {
+      throw new StatePersistenceError(
+        error instanceof Error ? error.message : 'Failed to save table state',
+        tableId
+      );
+    }
+  }
+
+  async load(tableId: string): Promise<PersistedTableState | null> {
+    const payload = this.storage.getItem(this.storageKey(tableId));
+    if (!payload) return null;
+
+    try {
+      const json = this.options.encryption ? await SecurityUtils.decryptToken(payload) : payload;
+      return this.parse(json);
+    } catch (error) {
+      // A corrupt or outdated entry shouldn't keep the table from rendering
+      console.warn(`Discarding saved state for table "${tableId}":`, error);
+      this.clear(tableId);
+      return null;
+    }
+  }
+
+  clear(tableId: string): void {
+    this.storage.removeItem(this.storageKey(tableId));
+  }
+}
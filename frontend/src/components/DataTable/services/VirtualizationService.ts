@@ -58,6 +58,10 @@ export class VirtualizationService {
     }
   }
 
+  resetItemSizes() {
+    this.itemSizes.clear();
+  }
+
   getTotalSize(itemCount: number): number {
     if (this.config.dynamicHeight) {
       let totalSize = 0;
@@ -0,0 +1,164 @@
+/**
+ * ExportService Tests
+ * Covers RFC 4180 escaping and the paged streaming export pipeline
+ */
+
+import { saveAs } from 'file-saver';
+import { ExportService } from '../ExportService';
+
+jest.mock('file-saver', () => ({ saveAs: jest.fn() }));
+jest.mock('jspdf', () => ({ jsPDF: jest.fn() }));
+jest.mock('jspdf-autotable', () => ({}));
+
+const readBlob = (blob: Blob): Promise<string> =>
+  new Promise(resolve => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsText(blob);
+  });
+
+const columns = [
+  { key: 'id', title: 'Id', dataIndex: 'id' },
+  { key: 'name', title: 'Name', dataIndex: 'name' },
+  { key: 'secret', title: 'Secret', dataIndex: 'secret', exportable: false }
+];
+
+describe('ExportService', () => {
+  beforeEach(() => {
+    (saveAs as unknown as jest.Mock).mockClear();
+  });
+
+  describe('escapeCSVValue', () => {
+    it('leaves plain values untouched', () => {
+      expect(ExportService.escapeCSVValue('plain')).toBe('plain');
+      expect(ExportService.escapeCSVValue(42)).toBe('42');
+    });
+
+    it('quotes values containing commas, quotes and line breaks', () => {
+      expect(ExportService.escapeCSVValue('a,b')).toBe('"a,b"');
+      expect(ExportService.escapeCSVValue('say "hi"')).toBe('"say ""hi"""');
+      expect(ExportService.escapeCSVValue('line1\nline2')).toBe('"line1\nline2"');
+      expect(ExportService.escapeCSVValue('line1\r\nline2')).toBe('"line1\r\nline2"');
+    });
+
+    it('renders null and undefined as empty fields', () => {
+      expect(ExportService.escapeCSVValue(null)).toBe('');
+      expect(ExportService.escapeCSVValue(undefined)).toBe('');
+    });
+  });
+
+  describe('streamExport', () => {
+    const data = Array.from({ length: 25 }, (_, i) => ({ id: i + 1, name: `Row, ${i + 1}`, secret: 'x' }));
+
+    it('pages through the source and writes CSV with a header row', async () => {
+      const source = ExportService.createArrayDataSource(data);
+      const pageSizes: number[] = [];
+      const progress: { rows: number; bytes: number }[] = [];
+
+      const result = await ExportService.streamExport(ExportService.mapPages(source, async page => {
+        pageSizes.push(page.length);
+        return page;
+      }), columns, {
+        format: 'csv',
+        filename: 'rows',
+        pageSize: 10,
+        useFileSystemAccess: false,
+        onProgress: p => progress.push({ rows: p.rowsWritten, bytes: p.bytesWritten })
+      });
+
+      expect(result.rowsWritten).toBe(25);
+      expect(pageSizes).toEqual([10, 10, 5]);
+      expect(progress.map(p => p.rows)).toContain(25);
+
+      const [blob, fileName] = (saveAs as unknown as jest.Mock).mock.calls[0];
+      expect(fileName).toBe('rows.csv');
+      const lines = (await readBlob(blob)).split('\r\n');
+      expect(lines[0]).toBe('Id,Name');
+      expect(lines[1]).toBe('1,"Row, 1"');
+      expect(lines).toHaveLength(27);
+    });
+
+    it('counts bytes written in UTF-8', async () => {
+      const result = await ExportService.streamExport(ExportService.createArrayDataSource([{ id: 1, name: 'Zoë €' }]), columns, {
+        format: 'csv',
+        useFileSystemAccess: false
+      });
+
+      // 'Id,Name\r\n' + '1,Zoë €\r\n': ë is 2 bytes and € is 3
+      expect(result.bytesWritten).toBe(9 + 12);
+    });
+
+    it('writes one JSON object per line for NDJSON', async () => {
+      await ExportService.streamExport(ExportService.createArrayDataSource(data.slice(0, 2)), columns, {
+        format: 'ndjson',
+        useFileSystemAccess: false
+      });
+
+      const [blob] = (saveAs as unknown as jest.Mock).mock.calls[0];
+      const lines = (await readBlob(blob)).trim().split('\n');
+      expect(JSON.parse(lines[0] ?? '')).toEqual({ Id: 1, Name: 'Row, 1' });
+      expect(lines).toHaveLength(2);
+    });
+
+    it('stops and discards output when cancelled', async () => {
+      const controller = new AbortController();
+      let pagesRead = 0;
+      const source = {
+        totalRows: 100,
+        readPages: async function* (pageSize: number) {
+          for (;;) {
+            pagesRead++;
+            controller.abort();
+            yield data.slice(0, pageSize);
+          }
+        }
+      };
+
+      await expect(
+        ExportService.streamExport(source, columns, {
+          format: 'csv',
+          pageSize: 10,
+          signal: controller.signal,
+          useFileSystemAccess: false
+        })
+      ).rejects.toMatchObject({ name: 'AbortError' });
+      expect(pagesRead).toBe(1);
+      expect(saveAs).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createQueryResultDataSource', () => {
+    const rows = Array.from({ length: 12 }, (_, i) => ({ id: i + 1, name: `Row ${i + 1}` }));
+    const loaded = { data: rows.slice(0, 4), metadata: { rowCount: 4 } } as any;
+    const readAll = async (source: ReturnType<typeof ExportService.createArrayDataSource>, pageSize: number) => {
+      const pages: any[][] = [];
+      for await (const page of source.readPages(pageSize)) pages.push(page);
+      return pages;
+    };
+
+    it('streams the whole result from one remote read when more rows may exist', async () => {
+      const streamRemoteRows = jest.fn(async function* (pageSize: number) {
+        for (let offset = 0; offset < rows.length; offset += pageSize) yield rows.slice(offset, offset + pageSize);
+      });
+      const source = ExportService.createQueryResultDataSource(loaded, streamRemoteRows);
+
+      // The loaded row count isn't the full result, so the total stays unknown
+      expect(source.totalRows).toBeUndefined();
+      const result = await ExportService.streamExport(source, columns, { format: 'ndjson', pageSize: 5, useFileSystemAccess: false });
+      expect(result.rowsWritten).toBe(rows.length);
+      expect(streamRemoteRows).toHaveBeenCalledTimes(1);
+      expect(streamRemoteRows).toHaveBeenCalledWith(5, undefined);
+    });
+
+    it('exports only the loaded rows when they are the whole result or there is no remote reader', async () => {
+      const streamRemoteRows = jest.fn();
+      const complete = ExportService.createQueryResultDataSource({ ...loaded, totalRows: 4 }, streamRemoteRows);
+      expect(await readAll(complete, 3)).toEqual([rows.slice(0, 3), rows.slice(3, 4)]);
+      expect(streamRemoteRows).not.toHaveBeenCalled();
+
+      const local = ExportService.createQueryResultDataSource(loaded);
+      expect(local.totalRows).toBe(4);
+      expect(await readAll(local, 10)).toEqual([rows.slice(0, 4)]);
+    });
+  });
+});
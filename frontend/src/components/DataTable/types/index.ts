@@ -1,5 +1,6 @@
 // filepath: c:\dev\ReportAIng\frontend\src\components\DataTable\types\index.ts
 import React from 'react';
+import { ColumnInfo } from '../../../types/query';
 
 export interface DataTableColumn {
   key: string;
@@ -33,7 +34,7 @@ export interface DataTableColumn {
   validator?: (value: any, record: any) => boolean | string;
   
   // Aggregation
-  aggregation?: 'sum' | 'avg' | 'min' | 'max' | 'count' | 'custom';
+  aggregation?: AggregationType;
   aggregationFormatter?: (value: any) => string;
   customAggregation?: (values: any[]) => any;
   
@@ -56,6 +57,8 @@ export interface DataTableColumn {
   onHeaderCell?: () => any;
 }
 
+export type AggregationType = 'sum' | 'avg' | 'min' | 'max' | 'count' | 'custom';
+
 export interface DataTableFeatures {
   virtualScroll?: boolean;
   advancedVirtualization?: boolean;
@@ -76,7 +79,7 @@ export interface DataTableFeatures {
   copying?: boolean;
   contextMenu?: boolean;
   export?: boolean;
-  exportFormats?: ('csv' | 'excel' | 'pdf' | 'json' | 'xml' | 'sql')[];
+  exportFormats?: ('csv' | 'ndjson' | 'excel' | 'pdf' | 'json' | 'xml' | 'sql' | 'parquet' | 'arrow')[];
   print?: boolean;
   columnChooser?: boolean;
   saveState?: boolean;
@@ -92,10 +95,13 @@ export interface DataTableConfig {
   defaultFilters?: Record<string, any>;
   selectionType?: 'checkbox' | 'radio';
   exportFileName?: string;
+  exportPageSize?: number;
+  streamingExportThreshold?: number;
   theme?: 'light' | 'dark' | 'auto';
   density?: 'comfortable' | 'standard' | 'compact';
   maxHeight?: number | string;
   showAggregationRow?: boolean;
+  defaultGroupBy?: string[];
   stateStorage?: 'localStorage' | 'sessionStorage';
   statePersistencePrefix?: string;
   enableStateEncryption?: boolean;
@@ -130,6 +136,15 @@ export interface DataTableProps {
   autoDetectTypes?: boolean;
   autoGenerateFilterOptions?: boolean;
 
+  // Source column metadata (SQL types) used for typed Parquet/Arrow exports
+  columnMetadata?: ColumnInfo[];
+
+  // Paged access to the full result set for streaming exports (e.g. server-side results)
+  exportDataSource?: ExportDataSource;
+
+  // Masks sensitive columns in everything shown, copied and exported
+  masking?: DataTableMasking;
+
   // Table identification for state persistence
   tableId?: string;
   
@@ -180,7 +195,74 @@ export interface DataTableState {
   showFilterPanel: boolean;
   showColumnChooser: boolean;
   showExportModal: boolean;
+  exportProgress: ExportProgress | null;
   isFullscreen: boolean;
+  grouping: GroupingConfig;
+  pivotConfig: PivotConfig;
+  showGroupingPanel: boolean;
+}
+
+export interface GroupingConfig {
+  // Column keys to group by, outermost level first
+  groupBy: string[];
+  expandedGroups: string[];
+  showSubtotals: boolean;
+}
+
+export interface PivotConfig {
+  enabled: boolean;
+  rows: string[];
+  columns: string[];
+  measure?: string | undefined;
+  aggregation: AggregationType;
+}
+
+// Header row emitted in place of a group's records; subtotals sit under the column keys
+export interface GroupRow {
+  __group: true;
+  __groupKey: string;
+  __groupField: string;
+  __groupValue: any;
+  __groupLevel: number;
+  __groupCount: number;
+  __expanded: boolean;
+  [key: string]: any;
+}
+
+// Table state saved by StatePersistenceService; transient UI state is left out
+export interface PersistedTableState {
+  version: number;
+  savedAt: string;
+  columns: { key: string; hidden?: boolean | undefined; width?: number | undefined }[];
+  sortConfig: SortConfig[];
+  filterConfig: FilterConfig;
+  pageSize: number;
+  grouping: GroupingConfig;
+  pivotConfig: PivotConfig;
+}
+
+export interface ExportDataSource {
+  // Unknown totals are read until the source runs out
+  totalRows?: number | undefined;
+  // One pass over the rows in order, in batches of at most pageSize
+  readPages: (pageSize: number, signal?: AbortSignal) => AsyncIterable<any[]>;
+}
+
+export interface DataTableMasking {
+  isMasked: (column: string) => boolean;
+  maskRecords: <T extends Record<string, any>>(rows: T[]) => T[];
+  // Used for fetched export pages, which are written out as soon as they are masked
+  maskRecordsHashed: <T extends Record<string, any>>(rows: T[]) => Promise<T[]>;
+}
+
+export interface ExportProgress {
+  phase: 'preparing' | 'exporting' | 'finalizing' | 'completed' | 'cancelled' | 'failed';
+  format: string;
+  rowsWritten: number;
+  totalRows?: number | undefined;
+  percent: number;
+  // UTF-8 size of the output so far
+  bytesWritten: number;
 }
 
 export interface SortConfig {
@@ -0,0 +1,89 @@
+import { DataTableColumn } from '../../types';
+import { buildGroupTree, buildPivot, collectGroupKeys, flattenGroupTree, isGroupRow } from '../grouping';
+
+describe('grouping utils', () => {
+  const columns: DataTableColumn[] = [
+    { key: 'country', title: 'Country', dataIndex: 'country' },
+    { key: 'brand', title: 'Brand', dataIndex: 'brand' },
+    { key: 'month', title: 'Month', dataIndex: 'month' },
+    { key: 'deposits', title: 'Deposits', dataIndex: 'deposits', aggregation: 'sum' },
+    {
+      key: 'players',
+      title: 'Players',
+      dataIndex: 'players',
+      aggregation: 'custom',
+      customAggregation: (values: any[]) => Math.max(...values)
+    }
+  ];
+
+  const data = [
+    { id: 1, country: 'MT', brand: 'A', month: 'Jan', deposits: 100, players: 4 },
+    { id: 2, country: 'UK', brand: 'A', month: 'Jan', deposits: 50, players: 2 },
+    { id: 3, country: 'MT', brand: 'B', month: 'Feb', deposits: 25, players: 7 },
+    { id: 4, country: 'MT', brand: 'A', month: 'Feb', deposits: 10, players: 1 }
+  ];
+
+  describe('buildGroupTree', () => {
+    it('groups rows by several levels in first-seen order with subtotals', () => {
+      const tree = buildGroupTree(data, ['country', 'brand'], columns);
+
+      expect(tree.map(node => node.value)).toEqual(['MT', 'UK']);
+      expect(tree[0]?.subtotals).toEqual({ deposits: 135, players: 7 });
+      expect(tree[0]?.children.map(node => [node.value, node.rows.length])).toEqual([['A', 2], ['B', 1]]);
+      expect(tree[0]?.children[0]?.subtotals['deposits']).toBe(110);
+    });
+
+    it('collects keys for every level', () => {
+      const tree = buildGroupTree(data, ['country', 'brand'], columns);
+
+      expect(collectGroupKeys(tree)).toHaveLength(5);
+    });
+  });
+
+  describe('flattenGroupTree', () => {
+    it('emits only group rows while collapsed', () => {
+      const tree = buildGroupTree(data, ['country'], columns);
+      const rows = flattenGroupTree(tree, { expandedGroups: new Set(), showSubtotals: true, keyField: 'id' });
+
+      expect(rows).toHaveLength(2);
+      expect(rows.every(isGroupRow)).toBe(true);
+      expect(rows[0]).toMatchObject({ __groupValue: 'MT', __groupCount: 3, deposits: 135 });
+    });
+
+    it('interleaves records under expanded groups', () => {
+      const tree = buildGroupTree(data, ['country'], columns);
+      const mt = tree[0]!.key;
+      const rows = flattenGroupTree(tree, { expandedGroups: new Set([mt]), showSubtotals: false, keyField: 'id' });
+
+      expect(rows.map(row => (isGroupRow(row) ? row.__groupValue : row.id))).toEqual(['MT', 1, 3, 4, 'UK']);
+      expect(rows[0]).not.toHaveProperty('deposits');
+    });
+  });
+
+  describe('buildPivot', () => {
+    it('crosses row and column dimensions with totals', () => {
+      const { columns: pivotColumns, rows } = buildPivot(
+        data,
+        { enabled: true, rows: ['country'], columns: ['month'], measure: 'deposits', aggregation: 'sum' },
+        columns
+      );
+
+      expect(pivotColumns.map(col => col.title)).toEqual(['Country', 'Feb', 'Jan', 'Total']);
+      expect(rows).toEqual([
+        { id: 'pivot:["MT"]', __pivot_row_0: 'MT', __pivot_0: 35, __pivot_1: 100, __pivot_total: 135 },
+        { id: 'pivot:["UK"]', __pivot_row_0: 'UK', __pivot_0: null, __pivot_1: 50, __pivot_total: 50 },
+        { id: 'pivot:total', __pivot_row_0: 'Grand Total', __pivot_0: 35, __pivot_1: 150, __pivot_total: 185, __pivotTotal: true }
+      ]);
+    });
+
+    it('counts rows when no measure is chosen', () => {
+      const { rows } = buildPivot(
+        data,
+        { enabled: true, rows: ['brand'], columns: [], aggregation: 'sum' },
+        columns
+      );
+
+      expect(rows.map(row => [row['__pivot_row_0'], row['__pivot_0']])).toEqual([['A', 3], ['B', 1], ['Grand Total', 4]]);
+    });
+  });
+});
@@ -0,0 +1,267 @@
+import _ from 'lodash';
+import { AggregationType, DataTableColumn, GroupRow, PivotConfig } from '../types';
+
+// Caps the number of generated pivot columns so a high-cardinality dimension can't blow up the grid
+export const MAX_PIVOT_COLUMNS = 200;
+
+const PIVOT_COLUMN_PREFIX = '__pivot_';
+const PIVOT_TOTAL_KEY = '__pivot_total';
+const EMPTY_LABEL = '(empty)';
+
+export interface GroupNode {
+  key: string;
+  field: string;
+  value: any;
+  level: number;
+  rows: any[];
+  children: GroupNode[];
+  subtotals: Record<string, any>;
+}
+
+export interface PivotResult {
+  columns: DataTableColumn[];
+  rows: any[];
+  truncated: boolean;
+}
+
+export const isGroupRow = (row: any): row is GroupRow => Boolean(row && row.__group);
+
+export const aggregateValues = (
+  aggregation: AggregationType,
+  values: any[],
+  customAggregation?: (values: any[]) => any
+): any => {
+  switch (aggregation) {
+    case 'sum':
+      return _.sum(values.filter(v => typeof v === 'number'));
+    case 'avg':
+      return _.mean(values.filter(v => typeof v === 'number'));
+    case 'min':
+      return _.min(values);
+    case 'max':
+      return _.max(values);
+    case 'count':
+      return values.filter(v => v != null).length;
+    case 'custom':
+      return customAggregation?.(values);
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Aggregates a column over the given rows using its `aggregation`/`customAggregation`.
+ */
+export const aggregateColumn = (column: DataTableColumn, rows: any[]): any => {
+  if (!column.aggregation) return undefined;
+  return aggregateValues(
+    column.aggregation,
+    rows.map(row => _.get(row, column.dataIndex)),
+    column.customAggregation
+  );
+};
+
+export const formatAggregate = (column: Pick<DataTableColumn, 'aggregationFormatter'>, value: any) =>
+  column.aggregationFormatter ? column.aggregationFormatter(value) : value;
+
+const encodeValue = (value: any) => (value === undefined ? 'undefined' : JSON.stringify(value));
+
+const resolveColumn = (columns: DataTableColumn[], key: string) =>
+  columns.find(col => col.key === key) || columns.find(col => col.dataIndex === key);
+
+/**
+ * Groups rows level by level. Groups keep the order in which their first row
+ * appears, so sorting applied beforehand carries over to the groups.
+ */
+export const buildGroupTree = (
+  data: any[],
+  groupBy: string[],
+  columns: DataTableColumn[],
+  parentKey = '',
+  level = 0
+): GroupNode[] => {
+  const groupKey = groupBy[level];
+  if (groupKey === undefined) return [];
+
+  const column = resolveColumn(columns, groupKey);
+  const field = column?.dataIndex ?? groupKey;
+  const aggregatedColumns = columns.filter(col => col.aggregation);
+
+  const buckets = new Map<string, { value: any; rows: any[] }>();
+  data.forEach(row => {
+    const value = _.get(row, field);
+    const encoded = encodeValue(value);
+    const bucket = buckets.get(encoded);
+    if (bucket) {
+      bucket.rows.push(row);
+    } else {
+      buckets.set(encoded, { value, rows: [row] });
+    }
+  });
+
+  return Array.from(buckets.entries()).map(([encoded, { value, rows }]) => {
+    const key = `${parentKey}${parentKey ? '|' : ''}${groupKey}=${encoded}`;
+    const subtotals: Record<string, any> = {};
+    aggregatedColumns.forEach(col => {
+      subtotals[col.dataIndex] = aggregateColumn(col, rows);
+    });
+
+    return {
+      key,
+      field: groupKey,
+      value,
+      level,
+      rows,
+      children: buildGroupTree(rows, groupBy, columns, key, level + 1),
+      subtotals
+    };
+  });
+};
+
+export const collectGroupKeys = (nodes: GroupNode[], keys: string[] = []): string[] => {
+  nodes.forEach(node => {
+    keys.push(node.key);
+    collectGroupKeys(node.children, keys);
+  });
+  return keys;
+};
+
+/**
+ * Flattens the tree into display rows: a header row per group, followed by its
+ * sub-groups or records when expanded. Records are passed through untouched.
+ */
+export const flattenGroupTree = (
+  nodes: GroupNode[],
+  options: { expandedGroups: Set<string>; showSubtotals: boolean; keyField: string },
+  result: any[] = []
+): any[] => {
+  nodes.forEach(node => {
+    const expanded = options.expandedGroups.has(node.key);
+    const groupRow: GroupRow = {
+      ...(options.showSubtotals ? node.subtotals : {}),
+      [options.keyField]: `__group:${node.key}`,
+      __group: true,
+      __groupKey: node.key,
+      __groupField: node.field,
+      __groupValue: node.value,
+      __groupLevel: node.level,
+      __groupCount: node.rows.length,
+      __expanded: expanded
+    };
+    result.push(groupRow);
+
+    if (!expanded) return;
+    if (node.children.length > 0) {
+      flattenGroupTree(node.children, options, result);
+    } else {
+      for (const row of node.rows) result.push(row);
+    }
+  });
+  return result;
+};
+
+const labelFor = (value: any) => (value === null || value === undefined || value === '' ? EMPTY_LABEL : String(value));
+
+const compareLabels = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+
+/**
+ * Builds a pivot table (row dimensions × column dimensions × measure) in a
+ * single pass over the data, with a total column and a grand total row.
+ */
+export const buildPivot = (data: any[], config: PivotConfig, columns: DataTableColumn[]): PivotResult => {
+  const rowColumns = config.rows.map(key => resolveColumn(columns, key)).filter((col): col is DataTableColumn => Boolean(col));
+  const colColumns = config.columns.map(key => resolveColumn(columns, key)).filter((col): col is DataTableColumn => Boolean(col));
+  const measureColumn = config.measure ? resolveColumn(columns, config.measure) : undefined;
+  const aggregation: AggregationType = measureColumn ? config.aggregation : 'count';
+  const measureValue = (row: any) => (measureColumn ? _.get(row, measureColumn.dataIndex) : 1);
+  const aggregate = (values: any[]) => aggregateValues(aggregation, values, measureColumn?.customAggregation);
+
+  const pivotRows = new Map<string, { labels: string[]; cells: Map<string, any[]>; all: any[] }>();
+  const pivotColumns = new Map<string, string[]>();
+  const columnTotals = new Map<string, any[]>();
+  const grandTotal: any[] = [];
+
+  data.forEach(row => {
+    const rowLabels = rowColumns.map(col => labelFor(_.get(row, col.dataIndex)));
+    const colLabels = colColumns.map(col => labelFor(_.get(row, col.dataIndex)));
+    const rowKey = JSON.stringify(rowLabels);
+    const colKey = JSON.stringify(colLabels);
+    const value = measureValue(row);
+
+    let entry = pivotRows.get(rowKey);
+    if (!entry) {
+      entry = { labels: rowLabels, cells: new Map(), all: [] };
+      pivotRows.set(rowKey, entry);
+    }
+    if (!pivotColumns.has(colKey)) pivotColumns.set(colKey, colLabels);
+
+    const cell = entry.cells.get(colKey);
+    if (cell) cell.push(value); else entry.cells.set(colKey, [value]);
+    entry.all.push(value);
+
+    const columnTotal = columnTotals.get(colKey);
+    if (columnTotal) columnTotal.push(value); else columnTotals.set(colKey, [value]);
+    grandTotal.push(value);
+  });
+
+  const sortedColumnKeys = Array.from(pivotColumns.entries())
+    .sort(([, a], [, b]) => compareLabels(a.join('\u0000'), b.join('\u0000')))
+    .map(([key]) => key);
+  const truncated = sortedColumnKeys.length > MAX_PIVOT_COLUMNS;
+  const visibleColumnKeys = sortedColumnKeys.slice(0, MAX_PIVOT_COLUMNS);
+
+  const measureTitle = measureColumn ? `${aggregation} of ${measureColumn.title}` : 'Count';
+  const formatter = measureColumn?.aggregationFormatter;
+  const valueColumn = (key: string, title: string): DataTableColumn => ({
+    key,
+    title,
+    dataIndex: key,
+    dataType: 'number',
+    align: 'right',
+    sortable: true,
+    filterable: false,
+    ...(formatter && { render: (value: any) => formatter(value) })
+  });
+
+  const resultColumns: DataTableColumn[] = [
+    ...rowColumns.map((col, index) => ({
+      key: `${PIVOT_COLUMN_PREFIX}row_${index}`,
+      title: col.title,
+      dataIndex: `${PIVOT_COLUMN_PREFIX}row_${index}`,
+      dataType: 'string' as const,
+      sortable: true
+    })),
+    ...visibleColumnKeys.map((key, index) => {
+      const labels = pivotColumns.get(key) ?? [];
+      return valueColumn(`${PIVOT_COLUMN_PREFIX}${index}`, colColumns.length > 0 ? labels.join(' / ') : measureTitle);
+    }),
+    ...(colColumns.length > 0 ? [valueColumn(PIVOT_TOTAL_KEY, 'Total')] : [])
+  ];
+
+  const buildRow = (id: string, labels: string[], cellValues: (key: string) => any[] | undefined, all: any[]) => {
+    const row: Record<string, any> = { id };
+    labels.forEach((label, index) => {
+      row[`${PIVOT_COLUMN_PREFIX}row_${index}`] = label;
+    });
+    visibleColumnKeys.forEach((key, index) => {
+      const values = cellValues(key);
+      row[`${PIVOT_COLUMN_PREFIX}${index}`] = values ? aggregate(values) : null;
+    });
+    if (colColumns.length > 0) row[PIVOT_TOTAL_KEY] = aggregate(all);
+    return row;
+  };
+
+  const rows = Array.from(pivotRows.entries())
+    .sort(([, a], [, b]) => compareLabels(a.labels.join('\u0000'), b.labels.join('\u0000')))
+    .map(([key, entry]) => buildRow(`pivot:${key}`, entry.labels, colKey => entry.cells.get(colKey), entry.all));
+
+  if (rowColumns.length > 0 && rows.length > 0) {
+    const totalLabels = rowColumns.map((_col, index) => (index === 0 ? 'Grand Total' : ''));
+    rows.push({
+      ...buildRow('pivot:total', totalLabels, colKey => columnTotals.get(colKey), grandTotal),
+      __pivotTotal: true
+    });
+  }
+
+  return { columns: resultColumns, rows, truncated };
+};
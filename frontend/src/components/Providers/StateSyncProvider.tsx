@@ -150,17 +150,23 @@ export const StateSyncProvider: React.FC<StateSyncProviderProps> = ({ children }
     let totalCleaned = 0;
 
     // Clean up localStorage
-    totalCleaned += persistenceManager.cleanupExpiredStates(
+    totalCleaned += await persistenceManager.cleanupExpiredStates(
       'localStorage',
       7 * 24 * 60 * 60 * 1000 // 7 days
     );
 
     // Clean up sessionStorage
-    totalCleaned += persistenceManager.cleanupExpiredStates(
+    totalCleaned += await persistenceManager.cleanupExpiredStates(
       'sessionStorage',
       24 * 60 * 60 * 1000 // 24 hours
     );
 
+    // Clean up IndexedDB (query history and cached results)
+    totalCleaned += await persistenceManager.cleanupExpiredStates(
+      'indexedDB',
+      7 * 24 * 60 * 60 * 1000 // 7 days
+    );
+
     if (process.env.NODE_ENV === 'development') {
       console.log(`Cleaned up ${totalCleaned} expired state entries`);
     }
@@ -1,9 +1,14 @@
-import React, { useState } from 'react';
-import { Modal, Form, Select, Switch, Input, Button, Space, message } from 'antd';
-import { DownloadOutlined } from '@ant-design/icons';
-import { QueryResponse } from '../../types/query';
+import React, { useMemo, useRef, useState } from 'react';
+import { Modal, Form, Select, Switch, Input, Button, Space, Progress, Typography, message } from 'antd';
+import { DownloadOutlined, StopOutlined } from '@ant-design/icons';
+import { ExportOptions, QueryResponse } from '../../types/query';
+import { ExportProgress } from '../DataTable/types';
+import { ExportService } from '../DataTable/services/ExportService';
+import { ApiService } from '../../services/api';
+import { usePiiMasking } from '../../hooks/usePiiMasking';
 
 const { Option } = Select;
+const { Text } = Typography;
 
 interface ExportModalProps {
   visible: boolean;
@@ -20,44 +25,96 @@ export const ExportModal: React.FC<ExportModalProps> = ({
 }) => {
   const [form] = Form.useForm();
   const [exporting, setExporting] = useState(false);
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const queryResult = result?.result;
+  const columnNames = useMemo(() => {
+    const columnInfo = queryResult?.metadata?.columns || [];
+    return columnInfo.length > 0
+      ? columnInfo.map(col => col.name)
+      : Object.keys(queryResult?.data[0] ?? {});
+  }, [queryResult]);
+  const masking = usePiiMasking(columnNames, { ...(result?.sql && { sql: result.sql }), context: 'export' });
 
   const handleExport = async (values: any) => {
-    if (!result) return;
+    if (!result || !queryResult) return;
+
+    const format: ExportOptions['format'] = values.format;
+    const filename = values.filename || `query-result-${Date.now()}`;
+    const columns = columnNames.map(name => ({ key: name, title: name, dataIndex: name }));
+    const { isMasked, maskRecordsHashed } = masking;
+    // Masked values are text whatever the source column's type
+    const columnInfo = (queryResult.metadata?.columns || []).map(column =>
+      isMasked(column.name) ? { ...column, dataType: 'nvarchar' } : column
+    );
 
     setExporting(true);
     try {
-      // Simulate export process
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // In a real implementation, this would call the backend export API
-      const exportData = {
-        format: values.format,
-        filename: values.filename || `query-result-${Date.now()}`,
-        includeMetadata: values.includeMetadata,
-        data: result.result?.data,
-        metadata: result.result?.metadata,
-        query: query,
-        sql: result.sql,
-      };
+      // Every format writes masked values, including rows streamed from the server
+      const data = await maskRecordsHashed(queryResult.data);
 
-      // For demo purposes, just download as JSON
-      const blob = new Blob([JSON.stringify(exportData, null, 2)], { 
-        type: 'application/json' 
-      });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${exportData.filename}.json`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      switch (format) {
+        case 'csv':
+        case 'ndjson': {
+          // Stream the full result from one server-side run when more rows exist than were loaded
+          const { sql, parameters } = result;
+          const source = ExportService.mapPages(
+            ExportService.createQueryResultDataSource(
+              queryResult,
+              sql
+                ? (pageSize, signal) => ApiService.streamResultRows({ sql, ...(parameters && { parameters }) }, pageSize, signal)
+                : undefined
+            ),
+            maskRecordsHashed
+          );
+          const controller = new AbortController();
+          abortRef.current = controller;
+          const exported = await ExportService.streamExport(source, columns, {
+            format,
+            filename,
+            signal: controller.signal,
+            onProgress: setProgress
+          });
+          message.success(`Exported ${exported.rowsWritten.toLocaleString()} rows as ${format.toUpperCase()}`);
+          break;
+        }
+        case 'excel':
+          ExportService.exportExcel(data, columns, filename);
+          break;
+        case 'pdf':
+          ExportService.exportPDF(data, columns, filename);
+          break;
+        case 'json':
+          ExportService.exportJSON(
+            values.includeMetadata
+              ? { query, sql: result.sql, metadata: queryResult.metadata, data }
+              : data,
+            filename
+          );
+          break;
+        // Typed columnar formats are written client-side from the result metadata
+        case 'parquet':
+          await ExportService.exportParquet(data, columns, filename, columnInfo);
+          break;
+        case 'arrow':
+          await ExportService.exportArrow(data, columns, filename, columnInfo);
+          break;
+      }
 
-      message.success('Export completed successfully!');
+      if (format !== 'csv' && format !== 'ndjson') {
+        message.success('Export completed successfully!');
+      }
       onClose();
     } catch (error) {
-      message.error('Export failed. Please try again.');
+      if (error instanceof Error && error.name === 'AbortError') {
+        message.info('Export cancelled');
+      } else {
+        message.error('Export failed. Please try again.');
+      }
     } finally {
+      abortRef.current = null;
+      setProgress(null);
       setExporting(false);
     }
   };
@@ -66,10 +123,31 @@ export const ExportModal: React.FC<ExportModalProps> = ({
     <Modal
       title="Export Query Results"
       open={visible}
-      onCancel={onClose}
+      onCancel={() => {
+        if (!exporting) onClose();
+      }}
+      closable={!exporting}
+      maskClosable={!exporting}
       footer={null}
       width={500}
     >
+      {progress && (
+        <Space direction="vertical" style={{ width: '100%', marginBottom: '16px' }}>
+          <Text>
+            Exporting {progress.format.toUpperCase()}: {progress.rowsWritten.toLocaleString()}
+            {progress.totalRows !== undefined && ` of ${progress.totalRows.toLocaleString()}`} rows
+          </Text>
+          <Progress
+            percent={progress.percent}
+            status="active"
+            showInfo={progress.totalRows !== undefined}
+          />
+          <Button block danger icon={<StopOutlined />} onClick={() => abortRef.current?.abort()}>
+            Cancel Export
+          </Button>
+        </Space>
+      )}
+
       <Form
         form={form}
         layout="vertical"
@@ -87,9 +165,12 @@ export const ExportModal: React.FC<ExportModalProps> = ({
         >
           <Select>
             <Option value="csv">CSV</Option>
+            <Option value="ndjson">NDJSON</Option>
             <Option value="excel">Excel (.xlsx)</Option>
             <Option value="pdf">PDF Report</Option>
             <Option value="json">JSON</Option>
+            <Option value="parquet">Apache Parquet (.parquet)</Option>
+            <Option value="arrow">Apache Arrow IPC (.arrow)</Option>
           </Select>
         </Form.Item>
 
@@ -111,7 +192,7 @@ export const ExportModal: React.FC<ExportModalProps> = ({
 
         <Form.Item style={{ marginBottom: 0 }}>
           <Space style={{ width: '100%', justifyContent: 'flex-end' }}>
-            <Button onClick={onClose}>
+            <Button onClick={onClose} disabled={exporting}>
               Cancel
             </Button>
             <Button 
@@ -5,6 +5,8 @@ import { useGlobalResult, useGlobalResultActions } from '../../stores/globalResu
 import { useWebSocket } from '../../hooks/useWebSocket';
 import { useKeyboardNavigation } from '../../hooks/useKeyboardNavigation';
 import { getOrCreateSessionId } from '../../utils/sessionUtils';
+import { ApiService } from '../../services/api';
+import type { BoundSqlQuery } from '../../utils/queryTemplateEngine';
 import {
   useExecuteQuery,
   useQueryHistory,
@@ -67,7 +69,7 @@ interface QueryContextType {
   handleFollowUpSuggestionClick: (suggestion: string) => Promise<void>;
   handleAddToFavorites: () => void;
   handleWizardQueryGenerated: (generatedQuery: string, wizardData: any) => Promise<void>;
-  handleTemplateApply: (generatedQuery: string, template: any) => Promise<void>;
+  handleTemplateApply: (generatedQuery: string, template: any, boundSql?: BoundSqlQuery) => Promise<void>;
   handleVisualizationRequest: (type: string, data: any[], columns: any[]) => void;
   handleKeyDown: (e: React.KeyboardEvent) => void;
 
@@ -757,7 +759,7 @@ export const QueryProvider: React.FC<QueryProviderProps> = ({ children }) => {
   }, [executeQueryMutation, createQueryRequest, setActiveResult, clearActiveResult]);
 
   // Handle template application
-  const handleTemplateApply = useCallback(async (generatedQuery: string, _template: any) => {
+  const handleTemplateApply = useCallback(async (generatedQuery: string, _template: any, boundSql?: BoundSqlQuery) => {
     setQuery(generatedQuery);
     setShowTemplateLibrary(false);
     setProgress(10);
@@ -765,10 +767,17 @@ export const QueryProvider: React.FC<QueryProviderProps> = ({ children }) => {
 
     // Always use real database connection - no mock data
 
-    const queryRequest = createQueryRequest(generatedQuery);
-
     try {
-      const result = await executeQueryMutation.mutateAsync(queryRequest);
+      // SQL templates run as-is with their values bound as parameters;
+      // natural language templates go through query generation
+      const result = boundSql
+        ? await ApiService.executeRawSQL({
+            sql: boundSql.sql,
+            parameters: boundSql.parameters,
+            sessionId: getOrCreateSessionId(),
+            options: { maxRows: 1000, timeoutSeconds: 30 }
+          })
+        : await executeQueryMutation.mutateAsync(createQueryRequest(generatedQuery));
       setUnifiedResult(result, generatedQuery, 'query', 'template'); // Save to both stores
       setActiveTab('result');
     } catch (error) {
@@ -10,8 +10,11 @@ import {
   EditOutlined
 } from '@ant-design/icons';
 import DataTable from '../DataTable/DataTableMain';
+import { ExportService } from '../DataTable/services/ExportService';
 import { QueryResponse } from '../../types/query';
 import { ApiService } from '../../services/api';
+import { usePiiMasking } from '../../hooks/usePiiMasking';
+import { PiiMaskingNotice } from '../Security/PiiMaskingNotice';
 import SqlEditor from './SqlEditor';
 
 const { Title, Text, Paragraph } = Typography;
@@ -39,6 +42,24 @@ export const QueryResult: React.FC<QueryResultProps> = ({ result, query, onReque
   // State for SQL editor
   const [showSqlEditor, setShowSqlEditor] = useState(false);
 
+  // Personal data is masked for the user's role before it is shown or exported
+  const resultColumnNames = result.result?.metadata?.columns?.map(col => col.name)
+    ?? Object.keys(result.result?.data?.[0] ?? {});
+  const masking = usePiiMasking(resultColumnNames, {
+    ...(result.sql && { sql: result.sql }),
+    context: 'query-results'
+  });
+
+  // Streaming exports read past the loaded rows by streaming the SQL's full result from the server
+  const exportDataSource = React.useMemo(() => {
+    if (!result.result || !result.sql) return undefined;
+    const sql = result.sql;
+    const parameters = result.parameters;
+    return ExportService.createQueryResultDataSource(result.result, (pageSize, signal) =>
+      ApiService.streamResultRows({ sql, ...(parameters && { parameters }) }, pageSize, signal)
+    );
+  }, [result.result, result.sql, result.parameters]);
+
   // Debug logging for prompt details and error handling
   React.useEffect(() => {
     if (process.env.NODE_ENV === 'development') {
@@ -441,6 +462,9 @@ export const QueryResult: React.FC<QueryResultProps> = ({ result, query, onReque
         })) : [])
   , [columns, dataSource]);
 
+  // DataTable masks its own rows; this copy backs the CSV button and debug views
+  const maskedDataSource = masking.maskRecords(dataSource);
+
   return (
     <Space direction="vertical" size="large" style={{ width: '100%' }}>
       {/* Enhanced Query Generation Info - Collapsible */}
@@ -804,7 +828,7 @@ export const QueryResult: React.FC<QueryResultProps> = ({ result, query, onReque
                     // Export functionality
                     const csvContent = [
                       finalColumns.map(col => col.title).join(','),
-                      ...dataSource.map(row =>
+                      ...maskedDataSource.map(row =>
                         finalColumns.map(col => row[col.dataIndex] || '').join(',')
                       )
                     ].join('\n');
@@ -830,19 +854,24 @@ export const QueryResult: React.FC<QueryResultProps> = ({ result, query, onReque
             {/* Debug info */}
             {debugMode && (
               <div style={{ marginBottom: '16px', padding: '8px', background: '#f0f0f0', borderRadius: '4px', fontSize: '12px' }}>
-                <strong>Debug Info:</strong> Original Columns: {columns.length}, Final Columns: {finalColumns.length}, Rows: {dataSource.length}
-                {dataSource.length > 0 && (
+                <strong>Debug Info:</strong> Original Columns: {columns.length}, Final Columns: {finalColumns.length}, Rows: {maskedDataSource.length}
+                {maskedDataSource.length > 0 && (
                   <div>
-                    <div>First row keys: {Object.keys(dataSource[0]).join(', ')}</div>
-                    <div>First row data: {JSON.stringify(dataSource[0])}</div>
+                    <div>First row keys: {Object.keys(maskedDataSource[0]).join(', ')}</div>
+                    <div>First row data: {JSON.stringify(maskedDataSource[0])}</div>
                     <div>Final column dataIndex values: {finalColumns.map(c => c.dataIndex).join(', ')}</div>
                   </div>
                 )}
               </div>
             )}
 
+            <PiiMaskingNotice masking={masking} style={{ marginBottom: '16px' }} />
+
             <DataTable
               data={dataSource}
+              masking={masking}
+              {...(exportDataSource && { exportDataSource })}
+              {...(result.result?.metadata?.columns && { columnMetadata: result.result.metadata.columns })}
               columns={finalColumns}
               keyField="id"
               autoDetectTypes={true}
@@ -857,7 +886,7 @@ export const QueryResult: React.FC<QueryResultProps> = ({ result, query, onReque
                 resizing: true,
                 copying: true,
                 export: true,
-                exportFormats: ['csv', 'excel', 'pdf', 'json'],
+                exportFormats: ['csv', 'ndjson', 'excel', 'pdf', 'json', 'parquet', 'arrow'],
                 print: true,
                 columnChooser: true,
                 fullscreen: false,
@@ -888,7 +917,7 @@ export const QueryResult: React.FC<QueryResultProps> = ({ result, query, onReque
             />
 
             {/* Fallback simple table for debugging */}
-            {debugMode && dataSource.length > 0 && (
+            {debugMode && maskedDataSource.length > 0 && (
               <div style={{ marginTop: '16px', padding: '16px', background: '#f9f9f9', borderRadius: '8px' }}>
                 <h4>Fallback Table (for debugging):</h4>
                 <table style={{ width: '100%', borderCollapse: 'collapse' }}>
@@ -902,7 +931,7 @@ export const QueryResult: React.FC<QueryResultProps> = ({ result, query, onReque
                     </tr>
                   </thead>
                   <tbody>
-                    {dataSource.map((row, index) => (
+                    {maskedDataSource.map((row, index) => (
                       <tr key={index}>
                         {finalColumns.map(col => (
                           <td key={`${index}-${col.key}`} style={{ border: '1px solid #ddd', padding: '8px' }}>
@@ -27,6 +27,7 @@ import { DataInsightsPanel } from '../Insights/DataInsightsPanel';
 // import { PromptDetailsPanel } from './PromptDetailsPanel';
 import VisualizationRecommendations from '../Visualization/VisualizationRecommendations';
 import { Chart } from '../Visualization/Chart';
+import { DrillableChart } from '../Visualization/DrillableChart';
 import ChartConfigurationPanel from '../Visualization/ChartConfigurationPanel';
 import { VisualizationRecommendation } from '../../types/visualization';
 import { useVisualizationStore } from '../../stores/visualizationStore';
@@ -63,6 +64,16 @@ export const QueryTabs: React.FC = () => {
   const [selectedRecommendation, setSelectedRecommendation] = useState<VisualizationRecommendation | null>(null);
   const [filteredData, setFilteredData] = useState<any[]>([]);
 
+  // Stable chart inputs, so a drill path survives re-renders of the tab
+  const chartData = useMemo(
+    () => (filteredData.length > 0 ? filteredData : (currentResult?.result?.data ?? []).map((row: any, index: any) => ({ ...row, id: index }))),
+    [filteredData, currentResult]
+  );
+  const chartColumns = useMemo(
+    () => (currentResult?.result?.metadata?.columns || []).map((col: any) => col.name || col),
+    [currentResult]
+  );
+
   // Create a unique key for this query result to associate with chart
   const resultKey = `${query}-${currentResult?.queryId || 'unknown'}`;
 
@@ -544,15 +555,11 @@ export const QueryTabs: React.FC = () => {
                       </div>
                     </div>
 
-                    <Chart
-                      data={(() => {
-                        const dataToUse = filteredData.length > 0 ? filteredData : currentResult.result.data.map((row: any, index: any) => ({ ...row, id: index }));
-                        return dataToUse;
-                      })()}
-                      columns={(() => {
-                        const cols = currentResult.result?.metadata?.columns || [];
-                        return cols.map((col: any) => col.name || col);
-                      })()}
+                    <DrillableChart
+                      data={chartData}
+                      columns={chartColumns}
+                      question={query}
+                      drillDown={currentVisualization.interaction?.enableDrillDown ? currentVisualization.interaction.drillDown : undefined}
                       config={{
                         type: currentVisualization?.chartType?.toLowerCase() as any || 'bar',
                         title: currentVisualization?.title || 'Data Visualization',
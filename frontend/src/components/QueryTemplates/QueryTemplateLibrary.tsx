@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import {
   Card,
   Input,
@@ -9,12 +9,12 @@ import {
   Space,
   Typography,
   Modal,
-  Form,
   Row,
   Col,
   Tooltip,
   Badge,
-  Empty
+  Empty,
+  Alert
 } from 'antd';
 import {
   SearchOutlined,
@@ -24,6 +24,16 @@ import {
   CopyOutlined,
   BookOutlined
 } from '@ant-design/icons';
+import { TemplateVariableForm } from './TemplateVariableForm';
+import { queryTemplateService } from '../../services/queryTemplateService';
+import {
+  bindTemplateSql,
+  BoundSqlQuery,
+  renderTemplate,
+  resolveTemplateValues,
+  TemplateVariableSpec,
+  validateTemplateValues
+} from '../../utils/queryTemplateEngine';
 
 const { Text, Title, Paragraph } = Typography;
 const { Search } = Input;
@@ -36,6 +46,8 @@ export interface QueryTemplate {
   description: string;
   category: string;
   template: string;
+  sql?: string;
+  defaults?: Record<string, unknown>;
   parameters: TemplateParameter[];
   preview: string;
   tags: string[];
@@ -57,14 +69,19 @@ export interface TemplateParameter {
   defaultValue?: any;
   options?: { label: string; value: any }[];
   validation?: {
-    min?: number;
-    max?: number;
+    min?: number | string;
+    max?: number | string;
     pattern?: string;
   };
+  optionsSource?: {
+    table: string;
+    column: string;
+  };
+  bindAs?: 'parameter' | 'identifier';
 }
 
 interface QueryTemplateLibraryProps {
-  onApplyTemplate: (query: string, template: QueryTemplate) => void;
+  onApplyTemplate: (query: string, template: QueryTemplate, boundSql?: BoundSqlQuery) => void;
   onClose: () => void;
 }
 
@@ -80,6 +97,8 @@ export const QueryTemplateLibrary: React.FC<QueryTemplateLibraryProps> = ({
   const [selectedDifficulty, setSelectedDifficulty] = useState<string>('all');
   const [showParameterModal, setShowParameterModal] = useState(false);
   const [parameterValues, setParameterValues] = useState<Record<string, any>>({});
+  const [parameterErrors, setParameterErrors] = useState<Record<string, string>>({});
+  const [bindError, setBindError] = useState<string | null>(null);
   const [favorites, setFavorites] = useState<Set<string>>(new Set());
 
   useEffect(() => {
@@ -294,6 +313,64 @@ export const QueryTemplateLibrary: React.FC<QueryTemplateLibraryProps> = ({
         author: 'System',
         createdAt: '2024-01-01',
         usageCount: 189
+      },
+      {
+        id: 'daily-deposits',
+        name: 'Daily Deposits',
+        description: 'Daily deposit totals for a date range, optionally for a single white label',
+        category: 'Financial Analysis',
+        template: 'Show me daily deposits from {{table}} between {{start_date}} and {{end_date}}{{#if white_label}} for white label {{white_label}}{{/if}}',
+        sql: [
+          'SELECT CAST(ActionDate AS date) AS day, SUM(Deposits) AS total_deposits',
+          'FROM {{table}} WITH (NOLOCK)',
+          'WHERE ActionDate BETWEEN {{start_date}} AND {{end_date}}',
+          '{{#if white_label}}AND WhiteLabelID = {{white_label}}{{/if}}',
+          'GROUP BY CAST(ActionDate AS date)',
+          'ORDER BY day'
+        ].join('\n'),
+        defaults: {
+          table: 'tbl_Daily_actions'
+        },
+        parameters: [
+          {
+            name: 'table',
+            type: 'select',
+            label: 'Data Source',
+            required: true,
+            bindAs: 'identifier',
+            options: [
+              { label: 'Daily Actions', value: 'tbl_Daily_actions' },
+              { label: 'Player Data', value: 'tbl_Daily_actions_players' }
+            ]
+          },
+          {
+            name: 'start_date',
+            type: 'date',
+            label: 'Start Date',
+            required: true
+          },
+          {
+            name: 'end_date',
+            type: 'date',
+            label: 'End Date',
+            required: true
+          },
+          {
+            name: 'white_label',
+            type: 'select',
+            label: 'White Label',
+            description: 'Leave empty for all white labels',
+            required: false,
+            optionsSource: { table: 'tbl_Daily_actions', column: 'WhiteLabelID' }
+          }
+        ],
+        preview: 'SELECT CAST(ActionDate AS date) AS day, SUM(Deposits) ... WHERE ActionDate BETWEEN @start_date AND @end_date',
+        tags: ['deposits', 'daily', 'financial', 'parameterized'],
+        difficulty: 'beginner',
+        estimatedTime: '< 1 minute',
+        author: 'System',
+        createdAt: '2024-01-01',
+        usageCount: 0
       }
     ];
 
@@ -345,40 +422,69 @@ export const QueryTemplateLibrary: React.FC<QueryTemplateLibraryProps> = ({
     localStorage.setItem('query-template-favorites', JSON.stringify([...newFavorites]));
   };
 
+  const toVariableSpecs = (template: QueryTemplate): TemplateVariableSpec[] =>
+    template.parameters.map(param => ({ ...param, type: param.type === 'text' ? 'string' : param.type }));
+
   const handleTemplateSelect = (template: QueryTemplate) => {
     setSelectedTemplate(template);
+    setParameterErrors({});
+    setBindError(null);
     if (template.parameters.length > 0) {
       // Initialize parameter values with defaults
-      const initialValues: Record<string, any> = {};
-      template.parameters.forEach(param => {
-        if (param.defaultValue !== undefined) {
-          initialValues[param.name] = param.defaultValue;
-        }
-      });
-      setParameterValues(initialValues);
+      setParameterValues(resolveTemplateValues(toVariableSpecs(template), {}, template.defaults));
       setShowParameterModal(true);
     } else {
       // Apply template directly if no parameters
-      onApplyTemplate(template.template, template);
+      onApplyTemplate(template.template, template, template.sql ? { sql: template.sql, parameters: {} } : undefined);
     }
   };
 
+  const handleParameterChange = (name: string, value: unknown) => {
+    setParameterValues(prev => ({ ...prev, [name]: value }));
+    setParameterErrors(prev => {
+      const { [name]: _cleared, ...rest } = prev;
+      return rest;
+    });
+  };
+
   const applyTemplate = () => {
     if (!selectedTemplate) return;
 
-    let query = selectedTemplate.template;
-
-    // Replace parameters
-    Object.entries(parameterValues).forEach(([key, value]) => {
-      const placeholder = `{{${key}}}`;
-      query = query.replace(new RegExp(placeholder, 'g'), value);
-    });
+    const variables = toVariableSpecs(selectedTemplate);
+    const values = resolveTemplateValues(variables, parameterValues, selectedTemplate.defaults);
+    const errors = validateTemplateValues(variables, values);
+    setParameterErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
+    try {
+      // SQL templates carry their values as parameters, never spliced into the SQL text
+      const boundSql = selectedTemplate.sql ? bindTemplateSql(selectedTemplate.sql, variables, values) : undefined;
+      onApplyTemplate(renderTemplate(selectedTemplate.template, values), selectedTemplate, boundSql);
+    } catch (error) {
+      setBindError(error instanceof Error ? error.message : 'Failed to apply template');
+      return;
+    }
 
-    onApplyTemplate(query, selectedTemplate);
     setShowParameterModal(false);
     onClose();
   };
 
+  const loadVariableOptions = useCallback(
+    (variable: TemplateVariableSpec) => queryTemplateService.getVariableOptions({
+      name: variable.name,
+      type: 'select',
+      description: variable.description ?? variable.name,
+      required: variable.required,
+      ...(variable.optionsSource && { optionsSource: variable.optionsSource })
+    }),
+    []
+  );
+
+  const selectedVariables = useMemo(
+    () => (selectedTemplate ? toVariableSpecs(selectedTemplate) : []),
+    [selectedTemplate]
+  );
+
   const copyTemplate = (template: QueryTemplate) => {
     navigator.clipboard.writeText(template.template);
   };
@@ -562,52 +668,18 @@ export const QueryTemplateLibrary: React.FC<QueryTemplateLibraryProps> = ({
         width={600}
       >
         {selectedTemplate && (
-          <Form layout="vertical">
-            {selectedTemplate.parameters.map((param) => (
-              <Form.Item
-                key={param.name}
-                label={param.label}
-                required={param.required}
-                help={param.description}
-              >
-                {param.type === 'select' ? (
-                  <Select
-                    style={{ width: '100%' }}
-                    placeholder={`Select ${param.label}`}
-                    value={parameterValues[param.name]}
-                    onChange={(value) => setParameterValues(prev => ({ ...prev, [param.name]: value }))}
-                  >
-                    {param.options?.map(option => (
-                      <Option key={option.value} value={option.value}>
-                        {option.label}
-                      </Option>
-                    ))}
-                  </Select>
-                ) : param.type === 'number' ? (
-                  <Input
-                    type="number"
-                    placeholder={`Enter ${param.label}`}
-                    value={parameterValues[param.name]}
-                    onChange={(e) => setParameterValues(prev => ({ ...prev, [param.name]: e.target.value }))}
-                    min={param.validation?.min}
-                    max={param.validation?.max}
-                  />
-                ) : param.type === 'date' ? (
-                  <Input
-                    type="date"
-                    value={parameterValues[param.name]}
-                    onChange={(e) => setParameterValues(prev => ({ ...prev, [param.name]: e.target.value }))}
-                  />
-                ) : (
-                  <Input
-                    placeholder={`Enter ${param.label}`}
-                    value={parameterValues[param.name]}
-                    onChange={(e) => setParameterValues(prev => ({ ...prev, [param.name]: e.target.value }))}
-                  />
-                )}
-              </Form.Item>
-            ))}
-          </Form>
+          <>
+            {bindError && (
+              <Alert type="error" showIcon message={bindError} style={{ marginBottom: 16 }} />
+            )}
+            <TemplateVariableForm
+              variables={selectedVariables}
+              values={parameterValues}
+              errors={parameterErrors}
+              onChange={handleParameterChange}
+              loadOptions={loadVariableOptions}
+            />
+          </>
         )}
       </Modal>
     </div>
@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import { DatePicker, Form, Input, InputNumber, Select } from 'antd';
+import dayjs from 'dayjs';
+import {
+  getOptionLabel,
+  getOptionValue,
+  TemplateOption,
+  TemplateVariableSpec
+} from '../../utils/queryTemplateEngine';
+
+interface TemplateVariableFormProps {
+  variables: TemplateVariableSpec[];
+  values: Record<string, unknown>;
+  errors?: Record<string, string>;
+  onChange: (name: string, value: unknown) => void;
+  loadOptions?: (variable: TemplateVariableSpec) => Promise<TemplateOption[]>;
+}
+
+const toDayjs = (value: unknown) => {
+  if (!value) return null;
+  const parsed = dayjs(value as string);
+  return parsed.isValid() ? parsed : null;
+};
+
+/**
+ * Typed inputs for template variables: date pickers, numeric ranges and
+ * selects whose options can come from distinct column values. Mirrors
+ * frontend-v2's apps/chat/components/TemplateVariableForm.
+ */
+export const TemplateVariableForm: React.FC<TemplateVariableFormProps> = ({
+  variables,
+  values,
+  errors = {},
+  onChange,
+  loadOptions
+}) => {
+  const [loadedOptions, setLoadedOptions] = useState<Record<string, TemplateOption[]>>({});
+  const [loadingOptions, setLoadingOptions] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!loadOptions) return;
+    let cancelled = false;
+
+    variables
+      .filter(variable => variable.optionsSource)
+      .forEach(variable => {
+        setLoadingOptions(prev => new Set(prev).add(variable.name));
+        loadOptions(variable)
+          .then(options => {
+            if (!cancelled) setLoadedOptions(prev => ({ ...prev, [variable.name]: options }));
+          })
+          .catch(error => {
+            // Fall back to the variable's static options
+            console.warn(`Failed to load options for ${variable.name}:`, error);
+          })
+          .finally(() => {
+            if (cancelled) return;
+            setLoadingOptions(prev => {
+              const next = new Set(prev);
+              next.delete(variable.name);
+              return next;
+            });
+          });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [variables, loadOptions]);
+
+  const renderInput = (variable: TemplateVariableSpec) => {
+    const label = variable.label || variable.description || variable.name;
+    const value = values[variable.name];
+    const { min, max } = variable.validation ?? {};
+
+    switch (variable.type) {
+      case 'date':
+        return (
+          <DatePicker
+            style={{ width: '100%' }}
+            value={toDayjs(value)}
+            onChange={(date) => onChange(variable.name, date ? date.format('YYYY-MM-DD') : undefined)}
+            disabledDate={(date) =>
+              (typeof min === 'string' && date.isBefore(dayjs(min), 'day')) ||
+              (typeof max === 'string' && date.isAfter(dayjs(max), 'day'))
+            }
+          />
+        );
+      case 'number':
+        return (
+          <InputNumber
+            style={{ width: '100%' }}
+            placeholder={`Enter ${label.toLowerCase()}`}
+            value={value === undefined || value === '' ? null : Number(value)}
+            onChange={(next) => onChange(variable.name, next ?? undefined)}
+            {...(typeof min === 'number' && { min })}
+            {...(typeof max === 'number' && { max })}
+          />
+        );
+      case 'select':
+      case 'multiselect': {
+        const options = loadedOptions[variable.name] ?? variable.options ?? [];
+        return (
+          <Select
+            style={{ width: '100%' }}
+            {...(variable.type === 'multiselect' && { mode: 'multiple' as const })}
+            placeholder={`Select ${label.toLowerCase()}`}
+            value={value as string | string[] | undefined}
+            onChange={(next) => onChange(variable.name, next)}
+            loading={loadingOptions.has(variable.name)}
+            allowClear={!variable.required}
+            showSearch
+            optionFilterProp="label"
+            options={options.map(option => ({
+              label: getOptionLabel(option),
+              value: getOptionValue(option)
+            }))}
+          />
+        );
+      }
+      default:
+        return (
+          <Input
+            placeholder={`Enter ${label.toLowerCase()}`}
+            value={value === undefined ? '' : String(value)}
+            onChange={(e) => onChange(variable.name, e.target.value)}
+          />
+        );
+    }
+  };
+
+  return (
+    <Form layout="vertical">
+      {variables.map(variable => (
+        <Form.Item
+          key={variable.name}
+          label={variable.label || variable.description || variable.name}
+          required={variable.required}
+          validateStatus={errors[variable.name] ? 'error' : ''}
+          help={errors[variable.name] ?? (variable.label ? variable.description : undefined)}
+        >
+          {renderInput(variable)}
+        </Form.Item>
+      ))}
+    </Form>
+  );
+};
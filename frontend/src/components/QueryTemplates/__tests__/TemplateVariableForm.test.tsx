@@ -0,0 +1,59 @@
+/**
+ * TemplateVariableForm Tests
+ * frontend-v2 covers its copy in src/apps/chat/components/__tests__/TemplateVariableForm.test.tsx
+ */
+
+import { fireEvent, render, screen } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { TemplateVariableForm } from '../TemplateVariableForm';
+import type { TemplateVariableSpec } from '../../../utils/queryTemplateEngine';
+
+const variables: TemplateVariableSpec[] = [
+  { name: 'country', type: 'string', required: true, label: 'Country' },
+  { name: 'limit', type: 'number', required: false, label: 'Limit', validation: { min: 1, max: 100 } },
+  { name: 'since', type: 'date', required: false, label: 'Since' },
+  {
+    name: 'region',
+    type: 'select',
+    required: false,
+    label: 'Region',
+    options: ['EU'],
+    optionsSource: { table: 'dbo.Customers', column: 'Region' }
+  }
+];
+
+describe('TemplateVariableForm', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('renders a typed input per variable and reports edits', () => {
+    const onChange = jest.fn();
+    render(<TemplateVariableForm variables={variables} values={{ limit: 5, since: '2024-05-01' }} onChange={onChange} />);
+
+    fireEvent.change(screen.getByPlaceholderText('Enter country'), { target: { value: 'France' } });
+    expect(onChange).toHaveBeenCalledWith('country', 'France');
+
+    const limit = screen.getByPlaceholderText('Enter limit');
+    expect(limit).toHaveValue('5');
+    expect(limit).toHaveAttribute('aria-valuemin', '1');
+    expect(limit).toHaveAttribute('aria-valuemax', '100');
+    expect(screen.getByDisplayValue('2024-05-01')).toBeInTheDocument();
+  });
+
+  it('shows validation errors under the field', () => {
+    // jsdom's selector engine chokes on antd's generated rules when an item with help text measures its margin
+    jest.spyOn(window, 'getComputedStyle').mockReturnValue({ marginBottom: '0px' } as CSSStyleDeclaration);
+    render(<TemplateVariableForm variables={variables} values={{}} errors={{ country: 'Country is required' }} onChange={jest.fn()} />);
+    expect(screen.getByText('Country is required')).toBeInTheDocument();
+  });
+
+  it('loads options for column-sourced selects', async () => {
+    const loadOptions = jest.fn().mockResolvedValue(['EU', { label: 'Asia Pacific', value: 'APAC' }]);
+    render(<TemplateVariableForm variables={variables} values={{ region: 'APAC' }} onChange={jest.fn()} loadOptions={loadOptions} />);
+
+    expect(await screen.findByTitle('Asia Pacific')).toBeInTheDocument();
+    expect(loadOptions).toHaveBeenCalledTimes(1);
+    expect(loadOptions).toHaveBeenCalledWith(variables[3]);
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * Renderers for the chart types beyond bar/line/area/pie/scatter.
+ * Shared by Chart and InteractiveVisualization; takes raw rows and does its
+ * own binning, quartiles, running totals or hierarchy building.
+ */
+
+import React, { useMemo } from 'react';
+import { Typography } from 'antd';
+import {
+  ResponsiveContainer,
+  BarChart,
+  Bar,
+  Cell,
+  FunnelChart,
+  Funnel,
+  LabelList,
+  RadarChart,
+  Radar,
+  PolarGrid,
+  PolarAngleAxis,
+  PolarRadiusAxis,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip as RechartsTooltip,
+  Legend
+} from 'recharts';
+import { BoxPlotChart } from './D3Charts/BoxPlotChart';
+import { CandlestickChart } from './D3Charts/CandlestickChart';
+import { GanttChart } from './D3Charts/GanttChart';
+import { SunburstChart } from './D3Charts/SunburstChart';
+import {
+  ChartRenderType,
+  DEFAULT_BIN_COUNT,
+  buildFunnelStages,
+  buildHierarchy,
+  buildHistogram,
+  buildWaterfallSteps,
+  computeBoxPlotStats,
+  resolveGanttFields,
+  resolveOhlcFields,
+  sumFieldsBy,
+  toCandles,
+  toGanttTasks
+} from './utils/chartData';
+
+const { Text } = Typography;
+
+const WATERFALL_COLORS = { increase: '#52c41a', decrease: '#f5222d', total: '#1890ff' };
+
+interface AdvancedChartRendererProps {
+  type: ChartRenderType;
+  data: any[];
+  xField: string;
+  yField: string;
+  series?: string[] | undefined;
+  groupBy?: string | undefined;
+  binCount?: number | undefined;
+  colors: string[];
+  height: number;
+  showGrid?: boolean;
+  showLegend?: boolean;
+  animate?: boolean;
+  outlierColor?: string | undefined;
+}
+
+const formatNumber = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const formatPercent = (ratio: number) => `${(ratio * 100).toFixed(1)}%`;
+
+export const AdvancedChartRenderer: React.FC<AdvancedChartRendererProps> = ({
+  type,
+  data,
+  xField,
+  yField,
+  series,
+  groupBy,
+  binCount = DEFAULT_BIN_COUNT,
+  colors,
+  height,
+  showGrid = true,
+  showLegend = true,
+  animate = true,
+  outlierColor
+}) => {
+  const fields = useMemo(() => (data.length > 0 ? Object.keys(data[0]) : []), [data]);
+  const ohlc = useMemo(() => resolveOhlcFields(fields), [fields]);
+  const ganttFields = useMemo(() => resolveGanttFields(fields), [fields]);
+  const sunburstPath = useMemo(
+    () => [xField, groupBy].filter((field): field is string => Boolean(field) && field !== yField),
+    [xField, groupBy, yField]
+  );
+
+  // The D3 charts redraw whenever their data prop changes identity, so derive it once per input
+  const boxStats = useMemo(
+    () => (type === 'boxplot' ? computeBoxPlotStats(data, yField, xField && xField !== yField ? xField : undefined) : []),
+    [type, data, xField, yField]
+  );
+  const candles = useMemo(
+    () => (type === 'candlestick' && ohlc ? toCandles(data, xField, ohlc) : []),
+    [type, data, xField, ohlc]
+  );
+  const tasks = useMemo(
+    () => (type === 'gantt' && ganttFields ? toGanttTasks(data, xField, ganttFields, groupBy) : []),
+    [type, data, xField, ganttFields, groupBy]
+  );
+  const hierarchy = useMemo(
+    () => (type === 'sunburst' ? buildHierarchy(data, sunburstPath, yField) : null),
+    [type, data, sunburstPath, yField]
+  );
+  const animationDuration = animate ? 1000 : 0;
+  const colorAt = (index: number) => colors[index % colors.length] ?? '#1890ff';
+
+  const renderMessage = (message: string) => (
+    <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height }}>
+      <Text type="secondary">{message}</Text>
+    </div>
+  );
+
+  switch (type) {
+    case 'waterfall': {
+      const steps = buildWaterfallSteps(data, xField, yField).map(step => ({
+        ...step,
+        base: Math.min(step.start, step.end),
+        change: Math.abs(step.end - step.start)
+      }));
+      return (
+        <ResponsiveContainer width="100%" height={height}>
+          <BarChart data={steps}>
+            {showGrid && <CartesianGrid strokeDasharray="3 3" />}
+            <XAxis dataKey="name" />
+            <YAxis />
+            <RechartsTooltip
+              content={({ active, payload }: any) => {
+                const step = active && payload?.[0]?.payload;
+                if (!step) return null;
+                return (
+                  <div style={{ background: 'white', border: '1px solid #d9d9d9', padding: '8px 12px', borderRadius: 4 }}>
+                    <strong>{step.name}</strong>
+                    <div>{step.isTotal ? 'Total' : 'Change'}: {formatNumber(step.delta)}</div>
+                    {!step.isTotal && <div>Running total: {formatNumber(step.end)}</div>}
+                  </div>
+                );
+              }}
+            />
+            <Bar dataKey="base" stackId="waterfall" fill="transparent" isAnimationActive={false} />
+            <Bar dataKey="change" stackId="waterfall" animationDuration={animationDuration}>
+              {steps.map((step, index) => (
+                <Cell
+                  key={`step-${index}`}
+                  fill={step.isTotal ? WATERFALL_COLORS.total : step.delta >= 0 ? WATERFALL_COLORS.increase : WATERFALL_COLORS.decrease}
+                />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      );
+    }
+
+    case 'funnel': {
+      const stages = buildFunnelStages(data, xField, yField).map((stage, index) => ({
+        ...stage,
+        fill: colorAt(index)
+      }));
+      return (
+        <ResponsiveContainer width="100%" height={height}>
+          <FunnelChart>
+            <RechartsTooltip
+              content={({ active, payload }: any) => {
+                const stage = active && payload?.[0]?.payload;
+                if (!stage) return null;
+                return (
+                  <div style={{ background: 'white', border: '1px solid #d9d9d9', padding: '8px 12px', borderRadius: 4 }}>
+                    <strong>{stage.name}</strong>
+                    <div>{yField}: {formatNumber(stage.value)}</div>
+                    <div>From previous stage: {formatPercent(stage.fromPrevious)}</div>
+                    <div>From first stage: {formatPercent(stage.fromFirst)}</div>
+                  </div>
+                );
+              }}
+            />
+            <Funnel dataKey="value" nameKey="name" data={stages} isAnimationActive={animate} animationDuration={animationDuration}>
+              <LabelList position="right" fill="#262626" stroke="none" dataKey="name" />
+              <LabelList
+                position="center"
+                fill="#fff"
+                stroke="none"
+                dataKey="fromFirst"
+                formatter={(value: number) => formatPercent(value)}
+              />
+            </Funnel>
+          </FunnelChart>
+        </ResponsiveContainer>
+      );
+    }
+
+    case 'histogram': {
+      const bins = buildHistogram(data, yField, binCount);
+      if (bins.length === 0) return renderMessage(`"${yField}" has no numeric values to bin`);
+      return (
+        <ResponsiveContainer width="100%" height={height}>
+          <BarChart data={bins} barCategoryGap={0}>
+            {showGrid && <CartesianGrid strokeDasharray="3 3" />}
+            <XAxis dataKey="label" />
+            <YAxis allowDecimals={false} />
+            <RechartsTooltip formatter={(value: number) => [value, 'Count']} labelFormatter={label => `${yField}: ${label}`} />
+            <Bar dataKey="count" fill={colorAt(0)} stroke="#fff" animationDuration={animationDuration} />
+          </BarChart>
+        </ResponsiveContainer>
+      );
+    }
+
+    case 'radar': {
+      const metrics = series && series.length > 0 ? series : [yField];
+      const rows = sumFieldsBy(data, xField, metrics);
+      return (
+        <ResponsiveContainer width="100%" height={height}>
+          <RadarChart data={rows} outerRadius="75%">
+            <PolarGrid />
+            <PolarAngleAxis dataKey={xField} />
+            <PolarRadiusAxis />
+            <RechartsTooltip />
+            {showLegend && <Legend />}
+            {metrics.map((metric, index) => (
+              <Radar
+                key={metric}
+                name={metric}
+                dataKey={metric}
+                stroke={colorAt(index)}
+                fill={colorAt(index)}
+                fillOpacity={0.3}
+                animationDuration={animationDuration}
+              />
+            ))}
+          </RadarChart>
+        </ResponsiveContainer>
+      );
+    }
+
+    case 'boxplot':
+      if (boxStats.length === 0) return renderMessage(`"${yField}" has no numeric values`);
+      return (
+        <BoxPlotChart
+          data={boxStats}
+          config={{ title: `${yField} distribution`, colorScheme: colors, height, ...(outlierColor && { outlierColor }) }}
+        />
+      );
+
+    case 'candlestick':
+      if (!ohlc) return renderMessage('Candlestick charts need open, high, low and close columns');
+      return <CandlestickChart data={candles} config={{ title: 'Candlestick', height }} />;
+
+    case 'gantt':
+      if (!ganttFields) return renderMessage('Gantt charts need start and end date columns');
+      if (tasks.length === 0) return renderMessage(`No valid dates in "${ganttFields.start}" and "${ganttFields.end}"`);
+      return <GanttChart data={tasks} config={{ title: 'Gantt', colorScheme: colors }} />;
+
+    case 'sunburst':
+      if (!hierarchy || sunburstPath.length === 0) return renderMessage('Choose a category column for the sunburst rings');
+      return (
+        <SunburstChart
+          data={hierarchy}
+          config={{ title: `${yField} by ${sunburstPath.join(' › ')}`, colorScheme: colors, height }}
+        />
+      );
+
+    default:
+      return renderMessage(`Chart type "${type}" not implemented`);
+  }
+};
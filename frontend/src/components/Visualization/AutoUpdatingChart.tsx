@@ -7,10 +7,12 @@ import {
   LineChartOutlined,
   PieChartOutlined
 } from '@ant-design/icons';
-import Chart from './Chart';
+import { Chart } from './Chart';
 import ChartConfigurationPanel from './ChartConfigurationPanel';
 import { useGamingChartProcessor, processGamingChartData } from './GamingChartProcessor';
 import { AdvancedVisualizationConfig } from '../../types/visualization';
+import { fromAdvancedConfig, toAdvancedChartType } from './utils/chartData';
+import { drillDownInteraction } from './utils/drillDown';
 
 const { Text, Title } = Typography;
 
@@ -88,7 +90,7 @@ export const AutoUpdatingChart: React.FC<AutoUpdatingChartProps> = ({
             enableTooltip: true,
             enableLegendToggle: true,
             enableDataPointSelection: true,
-            enableDrillDown: false,
+            ...drillDownInteraction(processedGamingData.config.xAxis || columns[0], columns),
             tooltip: {
               enabled: true,
               position: 'auto',
@@ -121,6 +123,17 @@ export const AutoUpdatingChart: React.FC<AutoUpdatingChartProps> = ({
     }
   }, [data, columns, gamingData.isGamingData, processedGamingData, title, onConfigChange]);
 
+  // Chart works with lower-case render types; map the panel's config onto it
+  const chartConfig = useMemo(() => {
+    if (!currentConfig) return undefined;
+    return {
+      title,
+      xAxis: columns[0] ?? 'name',
+      yAxis: columns[1] ?? 'value',
+      ...fromAdvancedConfig(currentConfig)
+    };
+  }, [currentConfig, columns, title]);
+
   const handleConfigChange = (newConfig: AdvancedVisualizationConfig) => {
     console.log('AutoUpdatingChart - Configuration changed:', newConfig);
     setCurrentConfig(newConfig);
@@ -268,18 +281,18 @@ export const AutoUpdatingChart: React.FC<AutoUpdatingChartProps> = ({
         >
           <Chart
             data={data}
-            type={currentConfig?.chartType as any || 'bar'}
-            title={currentConfig?.title}
-            xAxisKey={currentConfig?.xAxis || 'name'}
-            yAxisKey={currentConfig?.yAxis || 'value'}
-            onTypeChange={(type) => {
+            columns={columns}
+            {...(chartConfig && { config: chartConfig })}
+            onConfigChange={(config) => {
               if (currentConfig) {
-                handleConfigChange({ ...currentConfig, chartType: type as any });
+                handleConfigChange({
+                  ...currentConfig,
+                  chartType: toAdvancedChartType(config.type) ?? currentConfig.chartType,
+                  xAxis: config.xAxis,
+                  yAxis: config.yAxis
+                });
               }
             }}
-            onExport={() => {
-              console.log('Export requested');
-            }}
           />
         </Card>
       )}
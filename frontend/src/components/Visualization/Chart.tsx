@@ -14,7 +14,8 @@ import {
   Switch,
   Row,
   Col,
-  Spin
+  Spin,
+  InputNumber
 } from 'antd';
 import {
   FullscreenOutlined,
@@ -42,15 +43,41 @@ import {
   Legend,
   Brush
 } from 'recharts';
+import { DataProcessingConfig } from '../../types/visualization';
+import { AdvancedChartRenderer } from './AdvancedChartRenderer';
+import {
+  ADVANCED_RENDER_TYPES,
+  ChartRenderType,
+  DEFAULT_BIN_COUNT,
+  OUTLIER_FLAG,
+  applyDataProcessing
+} from './utils/chartData';
 
 const { Text } = Typography;
 const { Option } = Select;
 
+const MAX_RENDERED_POINTS = 1000;
+const DEFAULT_OUTLIER_COLOR = '#f5222d';
+
+const COLOR_SCHEMES: Record<string, string[]> = {
+  default: ['#8884d8', '#82ca9d', '#ffc658', '#ff7300', '#00ff00'],
+  blue: ['#1890ff', '#40a9ff', '#69c0ff', '#91d5ff', '#bae7ff'],
+  green: ['#52c41a', '#73d13d', '#95de64', '#b7eb8f', '#d9f7be'],
+  red: ['#ff4d4f', '#ff7875', '#ffa39e', '#ffccc7', '#ffe1e1'],
+  purple: ['#722ed1', '#9254de', '#b37feb', '#d3adf7', '#efdbff']
+};
+
+const getColorScheme = (scheme: string) => COLOR_SCHEMES[scheme] ?? COLOR_SCHEMES['default']!;
+
 interface ChartConfig {
-  type: 'bar' | 'line' | 'pie' | 'area' | 'scatter' | 'heatmap' | 'network' | 'treemap';
+  type: ChartRenderType;
   title: string;
   xAxis: string;
   yAxis: string;
+  series?: string[] | undefined;
+  groupBy?: string | undefined;
+  binCount?: number | undefined;
+  dataProcessing?: DataProcessingConfig | undefined;
   colorScheme: string;
   showGrid: boolean;
   showLegend: boolean;
@@ -69,6 +96,8 @@ interface ChartProps {
   width?: string;
   loading?: boolean;
   debug?: boolean;
+  /** Called with the row behind a clicked bar, slice or point */
+  onDataPointClick?: ((row: Record<string, any>) => void) | undefined;
 }
 
 export const Chart: React.FC<ChartProps> = ({
@@ -79,7 +108,8 @@ export const Chart: React.FC<ChartProps> = ({
   height = 400,
   width = '100%',
   loading = false,
-  debug = false
+  debug = false,
+  onDataPointClick
 }) => {
   // Debug logging for columns
   console.log('🎯 Chart component - Received props:', {
@@ -92,42 +122,6 @@ export const Chart: React.FC<ChartProps> = ({
     sampleData: data?.[0]
   });
 
-  // Early return if columns is not provided
-  if (!columns || !Array.isArray(columns) || columns.length === 0) {
-    console.error('❌ Chart component - No columns available:', {
-      columns,
-      columnsType: typeof columns,
-      columnsIsArray: Array.isArray(columns),
-      columnsLength: columns?.length || 0,
-      dataAvailable: !!data && data.length > 0,
-      dataKeys: data && data.length > 0 ? Object.keys(data[0]) : []
-    });
-
-    // If we have data but no columns, try to extract columns from data
-    if (data && data.length > 0) {
-      const dataKeys = Object.keys(data[0]);
-      if (dataKeys.length > 0) {
-        console.log('🔄 Chart component - Attempting to extract columns from data:', dataKeys);
-        // Don't return early, let the component use the data keys as columns
-      } else {
-        return (
-          <Card title="Chart" style={{ width }}>
-            <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height }}>
-              <Typography.Text type="secondary">No columns available for chart</Typography.Text>
-            </div>
-          </Card>
-        );
-      }
-    } else {
-      return (
-        <Card title="Chart" style={{ width }}>
-          <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height }}>
-            <Typography.Text type="secondary">No columns available for chart</Typography.Text>
-          </div>
-        </Card>
-      );
-    }
-  }
   // Use columns or extract from data if columns not available
   const effectiveColumns = useMemo(() => {
     if (columns && Array.isArray(columns) && columns.length > 0) {
@@ -179,26 +173,66 @@ export const Chart: React.FC<ChartProps> = ({
     onConfigChange?.(updatedConfig);
   };
 
-  const getColorScheme = (scheme: string) => {
-    const schemes = {
-      default: ['#8884d8', '#82ca9d', '#ffc658', '#ff7300', '#00ff00'],
-      blue: ['#1890ff', '#40a9ff', '#69c0ff', '#91d5ff', '#bae7ff'],
-      green: ['#52c41a', '#73d13d', '#95de64', '#b7eb8f', '#d9f7be'],
-      red: ['#ff4d4f', '#ff7875', '#ffa39e', '#ffccc7', '#ffe1e1'],
-      purple: ['#722ed1', '#9254de', '#b37feb', '#d3adf7', '#efdbff']
-    };
-    return schemes[scheme as keyof typeof schemes] || schemes.default;
-  };
-
+  // Sampling/aggregation/outlier settings apply before any renderer sees the rows
+  const { dataProcessing, xAxis, yAxis } = config;
   const processedData = useMemo(() => {
     if (!data || !Array.isArray(data)) return [];
-    return data.slice(0, 1000); // Limit for performance
-  }, [data]);
+    const rows = applyDataProcessing(data, dataProcessing, { xField: xAxis, yField: yAxis });
+    return dataProcessing?.enableSampling ? rows : rows.slice(0, MAX_RENDERED_POINTS); // Limit for performance
+  }, [data, dataProcessing, xAxis, yAxis]);
+
+  const colors = useMemo(() => getColorScheme(config.colorScheme), [config.colorScheme]);
+  const outlierColor = config.dataProcessing?.outliers?.outlierColor || DEFAULT_OUTLIER_COLOR;
 
-  const getColor = (index: number) => {
-    const colors = getColorScheme(config.colorScheme);
-    return colors[index % colors.length];
+  const getColor = (index: number) => colors[index % colors.length];
+
+  // Bar/pie/scatter clicks hand over the datum; line/area charts report the active category
+  const handleElementClick = (entry: any) => {
+    const row = entry?.payload ?? entry;
+    if (row) onDataPointClick?.(row);
+  };
+  const handleChartClick = (state: any) => {
+    const row = state?.activePayload?.[0]?.payload;
+    if (row) onDataPointClick?.(row);
   };
+  const clickableStyle = onDataPointClick ? { cursor: 'pointer' } : undefined;
+
+  // Early return if columns is not provided
+  if (!columns || !Array.isArray(columns) || columns.length === 0) {
+    console.error('❌ Chart component - No columns available:', {
+      columns,
+      columnsType: typeof columns,
+      columnsIsArray: Array.isArray(columns),
+      columnsLength: columns?.length || 0,
+      dataAvailable: !!data && data.length > 0,
+      dataKeys: data && data.length > 0 ? Object.keys(data[0]) : []
+    });
+
+    // If we have data but no columns, try to extract columns from data
+    if (data && data.length > 0) {
+      const dataKeys = Object.keys(data[0]);
+      if (dataKeys.length > 0) {
+        console.log('🔄 Chart component - Attempting to extract columns from data:', dataKeys);
+        // Don't return early, let the component use the data keys as columns
+      } else {
+        return (
+          <Card title="Chart" style={{ width }}>
+            <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height }}>
+              <Typography.Text type="secondary">No columns available for chart</Typography.Text>
+            </div>
+          </Card>
+        );
+      }
+    } else {
+      return (
+        <Card title="Chart" style={{ width }}>
+          <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height }}>
+            <Typography.Text type="secondary">No columns available for chart</Typography.Text>
+          </div>
+        </Card>
+      );
+    }
+  }
 
   const renderChart = () => {
     if (loading) {
@@ -222,11 +256,31 @@ export const Chart: React.FC<ChartProps> = ({
       height: fullscreen ? 600 : height
     };
 
+    if (ADVANCED_RENDER_TYPES.includes(config.type)) {
+      return (
+        <AdvancedChartRenderer
+          type={config.type}
+          data={processedData}
+          xField={config.xAxis}
+          yField={config.yAxis}
+          series={config.series}
+          groupBy={config.groupBy}
+          binCount={config.binCount}
+          colors={colors}
+          height={commonProps.height}
+          showGrid={config.showGrid}
+          showLegend={config.showLegend}
+          animate={config.showAnimation}
+          outlierColor={outlierColor}
+        />
+      );
+    }
+
     switch (config.type) {
       case 'bar':
         return (
           <ResponsiveContainer {...commonProps}>
-            <BarChart data={processedData}>
+            <BarChart data={processedData} style={clickableStyle}>
               {config.showGrid && <CartesianGrid strokeDasharray="3 3" />}
               <XAxis dataKey={config.xAxis} />
               <YAxis />
@@ -236,7 +290,12 @@ export const Chart: React.FC<ChartProps> = ({
                 dataKey={config.yAxis || 'value'}
                 fill={getColor(0)}
                 animationDuration={config.showAnimation ? 1000 : 0}
-              />
+                onClick={handleElementClick}
+              >
+                {processedData.map((row, index) => (
+                  <Cell key={`cell-${index}`} fill={row[OUTLIER_FLAG] ? outlierColor : getColor(0)} />
+                ))}
+              </Bar>
               {config.interactive && <Brush dataKey={config.xAxis} height={30} />}
             </BarChart>
           </ResponsiveContainer>
@@ -245,7 +304,7 @@ export const Chart: React.FC<ChartProps> = ({
       case 'line':
         return (
           <ResponsiveContainer {...commonProps}>
-            <LineChart data={processedData}>
+            <LineChart data={processedData} onClick={handleChartClick} style={clickableStyle}>
               {config.showGrid && <CartesianGrid strokeDasharray="3 3" />}
               <XAxis dataKey={config.xAxis} />
               <YAxis />
@@ -265,7 +324,7 @@ export const Chart: React.FC<ChartProps> = ({
       case 'area':
         return (
           <ResponsiveContainer {...commonProps}>
-            <AreaChart data={processedData}>
+            <AreaChart data={processedData} onClick={handleChartClick} style={clickableStyle}>
               {config.showGrid && <CartesianGrid strokeDasharray="3 3" />}
               <XAxis dataKey={config.xAxis} />
               <YAxis />
@@ -286,7 +345,7 @@ export const Chart: React.FC<ChartProps> = ({
       case 'pie':
         return (
           <ResponsiveContainer {...commonProps}>
-            <PieChart>
+            <PieChart style={clickableStyle}>
               <Pie
                 data={processedData}
                 dataKey={config.yAxis || 'value'}
@@ -296,6 +355,7 @@ export const Chart: React.FC<ChartProps> = ({
                 outerRadius={Math.min(height * 0.3, 120)}
                 fill={getColor(0)}
                 animationDuration={config.showAnimation ? 1000 : 0}
+                onClick={handleElementClick}
               >
                 {processedData.map((entry, index) => (
                   <Cell key={`cell-${index}`} fill={getColor(index)} />
@@ -310,7 +370,7 @@ export const Chart: React.FC<ChartProps> = ({
       case 'scatter':
         return (
           <ResponsiveContainer {...commonProps}>
-            <ScatterChart data={processedData}>
+            <ScatterChart data={processedData} style={clickableStyle}>
               {config.showGrid && <CartesianGrid strokeDasharray="3 3" />}
               <XAxis dataKey={config.xAxis} />
               <YAxis dataKey={config.yAxis} />
@@ -320,7 +380,12 @@ export const Chart: React.FC<ChartProps> = ({
                 dataKey={config.yAxis}
                 fill={getColor(0)}
                 animationDuration={config.showAnimation ? 1000 : 0}
-              />
+                onClick={handleElementClick}
+              >
+                {processedData.map((row, index) => (
+                  <Cell key={`cell-${index}`} fill={row[OUTLIER_FLAG] ? outlierColor : getColor(0)} />
+                ))}
+              </Scatter>
             </ScatterChart>
           </ResponsiveContainer>
         );
@@ -349,6 +414,14 @@ export const Chart: React.FC<ChartProps> = ({
             <Option value="area">Area Chart</Option>
             <Option value="pie">Pie Chart</Option>
             <Option value="scatter">Scatter Plot</Option>
+            <Option value="histogram">Histogram</Option>
+            <Option value="boxplot">Box Plot</Option>
+            <Option value="waterfall">Waterfall</Option>
+            <Option value="funnel">Funnel</Option>
+            <Option value="radar">Radar</Option>
+            <Option value="sunburst">Sunburst</Option>
+            <Option value="candlestick">Candlestick</Option>
+            <Option value="gantt">Gantt</Option>
           </Select>
         </Col>
         <Col span={12}>
@@ -389,6 +462,33 @@ export const Chart: React.FC<ChartProps> = ({
             ))}
           </Select>
         </Col>
+        {config.type === 'histogram' && (
+          <Col span={12}>
+            <Text strong>Bins</Text>
+            <InputNumber
+              min={1}
+              max={100}
+              value={config.binCount ?? DEFAULT_BIN_COUNT}
+              onChange={(value) => handleConfigChange({ binCount: value ?? DEFAULT_BIN_COUNT })}
+              style={{ width: '100%', marginTop: 4 }}
+            />
+          </Col>
+        )}
+        {(config.type === 'sunburst' || config.type === 'gantt') && (
+          <Col span={12}>
+            <Text strong>{config.type === 'sunburst' ? 'Outer Ring' : 'Group By'}</Text>
+            <Select
+              allowClear
+              value={config.groupBy}
+              onChange={(value) => handleConfigChange({ groupBy: value })}
+              style={{ width: '100%', marginTop: 4 }}
+            >
+              {(effectiveColumns || []).map(col => (
+                <Option key={col} value={col}>{col}</Option>
+              ))}
+            </Select>
+          </Col>
+        )}
         <Col span={24}>
           <Space wrap>
             <Switch
@@ -10,9 +10,18 @@ import {
   FunnelPlotOutlined,
   RadarChartOutlined,
   ThunderboltOutlined,
-  SettingOutlined
+  SettingOutlined,
+  BoxPlotOutlined,
+  StockOutlined,
+  FallOutlined,
+  ScheduleOutlined,
+  FundOutlined
 } from '@ant-design/icons';
-import { AdvancedVisualizationConfig, AdvancedChartType } from '../../types/visualization';
+import { AdvancedVisualizationConfig, AdvancedChartType, DataProcessingConfig, DrillDownConfig } from '../../types/visualization';
+import { DataProcessingSettings } from './DataProcessingSettings';
+import { DrillDownSettings } from './DrillDownSettings';
+import { DEFAULT_DATA_PROCESSING } from './utils/chartData';
+import { drillDownInteraction, resolveDrillDown } from './utils/drillDown';
 
 const { Text } = Typography;
 const { Option } = Select;
@@ -65,6 +74,11 @@ const ChartConfigurationPanel: React.FC<ChartConfigurationPanelProps> = ({
   const [chartType, setChartType] = useState<AdvancedChartType>('Bar');
   const [xAxis, setXAxis] = useState<string>('');
   const [selectedMetrics, setSelectedMetrics] = useState<string[]>([]);
+  const [dataProcessing, setDataProcessing] = useState<DataProcessingConfig>(
+    currentConfig?.dataProcessing ?? DEFAULT_DATA_PROCESSING
+  );
+  const [drillDown, setDrillDown] = useState<DrillDownConfig | undefined>(currentConfig?.interaction?.drillDown);
+  const [drillDownEnabled, setDrillDownEnabled] = useState<boolean>(currentConfig?.interaction?.enableDrillDown ?? false);
 
   // Detect if this is gaming data
   const isGamingData = useMemo(() => {
@@ -122,6 +136,11 @@ const ChartConfigurationPanel: React.FC<ChartConfigurationPanelProps> = ({
     return { dateColumns, numericColumns };
   }, [data]);
 
+  const availableColumns = useMemo(
+    () => (data.length > 0 ? Object.keys(data[0]).filter(key => key !== 'id') : []),
+    [data]
+  );
+
   // Track if we've initialized to prevent overriding user changes
   const [isInitialized, setIsInitialized] = useState(false);
 
@@ -138,6 +157,11 @@ const ChartConfigurationPanel: React.FC<ChartConfigurationPanelProps> = ({
       if (currentConfig) {
         console.log('ChartConfigurationPanel - Initializing from currentConfig:', currentConfig);
         setChartType(currentConfig.chartType);
+        if (currentConfig.dataProcessing) setDataProcessing(currentConfig.dataProcessing);
+        if (currentConfig.interaction?.drillDown) {
+          setDrillDown(currentConfig.interaction.drillDown);
+          setDrillDownEnabled(currentConfig.interaction.enableDrillDown);
+        }
         setXAxis(currentConfig.xAxis || '');
         setSelectedMetrics(Array.isArray(currentConfig.series) ? currentConfig.series : [currentConfig.yAxis || ''].filter(Boolean));
       } else {
@@ -231,6 +255,54 @@ const ChartConfigurationPanel: React.FC<ChartConfigurationPanelProps> = ({
       description: 'Multi-variable comparison',
       category: 'Specialized',
       color: '#a0d911'
+    },
+    {
+      value: 'Histogram',
+      label: 'Histogram',
+      icon: <BarChartOutlined />,
+      description: 'Distribution of a metric in bins',
+      category: 'Statistical',
+      color: '#2f54eb'
+    },
+    {
+      value: 'BoxPlot',
+      label: 'Box Plot',
+      icon: <BoxPlotOutlined />,
+      description: 'Quartiles and outliers per category',
+      category: 'Statistical',
+      color: '#597ef7'
+    },
+    {
+      value: 'Waterfall',
+      label: 'Waterfall Chart',
+      icon: <FallOutlined />,
+      description: 'How changes add up to a total',
+      category: 'Financial',
+      color: '#389e0d'
+    },
+    {
+      value: 'Candlestick',
+      label: 'Candlestick Chart',
+      icon: <StockOutlined />,
+      description: 'Open/high/low/close per period',
+      category: 'Financial',
+      color: '#cf1322'
+    },
+    {
+      value: 'Sunburst',
+      label: 'Sunburst Chart',
+      icon: <FundOutlined />,
+      description: 'Hierarchical proportions',
+      category: 'Specialized',
+      color: '#d46b08'
+    },
+    {
+      value: 'Gantt',
+      label: 'Gantt Chart',
+      icon: <ScheduleOutlined />,
+      description: 'Tasks on a timeline (start/end columns)',
+      category: 'Specialized',
+      color: '#08979c'
     }
   ];
 
@@ -287,6 +359,7 @@ const ChartConfigurationPanel: React.FC<ChartConfigurationPanelProps> = ({
       yAxis: metricsToUse[0], // Primary metric
       series: metricsToUse, // All selected metrics
       config: (existingConfig as any)?.config || {},
+      dataProcessing,
 
       // Preserve existing animation settings or use defaults
       animation: (existingConfig as any)?.animation || {
@@ -299,23 +372,26 @@ const ChartConfigurationPanel: React.FC<ChartConfigurationPanelProps> = ({
         animatedProperties: ['opacity', 'transform']
       },
 
-      // Preserve existing interaction settings or use defaults
-      interaction: (existingConfig as any)?.interaction || {
-        enableZoom: true,
-        enablePan: true,
-        enableBrush: false,
-        enableCrosshair: true,
-        enableTooltip: true,
-        enableLegendToggle: true,
-        enableDataPointSelection: true,
-        enableDrillDown: false,
-        tooltip: {
-          enabled: true,
-          position: 'auto',
-          displayFields: [xAxis, ...metricsToUse],
-          showStatistics: true,
-          enableHtml: false
-        }
+      // Preserve existing interaction settings or use defaults; drill-down comes from the panel
+      interaction: {
+        ...((existingConfig as any)?.interaction || {
+          enableZoom: true,
+          enablePan: true,
+          enableBrush: false,
+          enableCrosshair: true,
+          enableTooltip: true,
+          enableLegendToggle: true,
+          enableDataPointSelection: true,
+          tooltip: {
+            enabled: true,
+            position: 'auto',
+            displayFields: [xAxis, ...metricsToUse],
+            showStatistics: true,
+            enableHtml: false
+          }
+        }),
+        enableDrillDown: drillDownEnabled && Boolean(drillDown),
+        ...(drillDown && { drillDown })
       },
 
       // Preserve existing theme settings or use defaults
@@ -383,7 +459,7 @@ const ChartConfigurationPanel: React.FC<ChartConfigurationPanelProps> = ({
     }
 
     onConfigChange(config);
-  }, [xAxis, selectedMetrics, chartType, data.length, onConfigChange]); // Use data.length instead of data object
+  }, [xAxis, selectedMetrics, chartType, dataProcessing, drillDown, drillDownEnabled, data.length, onConfigChange]); // Use data.length instead of data object
 
   const handleMetricToggle = (metric: string, checked: boolean) => {
     console.log('ChartConfigurationPanel - Metric toggle:', { metric, checked, currentMetrics: selectedMetrics });
@@ -416,6 +492,14 @@ const ChartConfigurationPanel: React.FC<ChartConfigurationPanelProps> = ({
     // Auto-generation will be handled by useEffect
   };
 
+  // A hierarchy always starts at the x-axis; propose one when the x-axis is a known level
+  useEffect(() => {
+    if (!xAxis || drillDown?.levels[0] === xAxis) return;
+    const resolved = resolveDrillDown(xAxis, availableColumns);
+    setDrillDown(resolved);
+    setDrillDownEnabled(Boolean(resolved));
+  }, [xAxis, availableColumns]); // Only re-propose when the x-axis changes, not on level edits
+
   // Auto-generate chart when all required fields are available
   useEffect(() => {
     const currentMetrics = Array.isArray(selectedMetrics) ? selectedMetrics : [];
@@ -427,7 +511,7 @@ const ChartConfigurationPanel: React.FC<ChartConfigurationPanelProps> = ({
       }, 10);
       return () => clearTimeout(timeoutId);
     }
-  }, [xAxis, selectedMetrics, chartType, data.length]); // Remove generateConfig from dependencies
+  }, [xAxis, selectedMetrics, chartType, dataProcessing, drillDown, drillDownEnabled, data.length]); // Remove generateConfig from dependencies
 
   // Auto-apply gaming configuration when gaming data is detected
   useEffect(() => {
@@ -495,7 +579,7 @@ const ChartConfigurationPanel: React.FC<ChartConfigurationPanelProps> = ({
               enableTooltip: true,
               enableLegendToggle: true,
               enableDataPointSelection: true,
-              enableDrillDown: false,
+              ...drillDownInteraction(bestLabelColumn, availableColumns),
               tooltip: {
                 enabled: true,
                 position: 'auto',
@@ -1063,6 +1147,25 @@ const ChartConfigurationPanel: React.FC<ChartConfigurationPanelProps> = ({
         </Col>
       </Row>
 
+      <Divider style={{ margin: '20px 0' }} />
+      <DataProcessingSettings
+        value={dataProcessing}
+        columns={availableColumns}
+        onChange={setDataProcessing}
+      />
+
+      <Divider style={{ margin: '20px 0' }} />
+      <DrillDownSettings
+        enabled={drillDownEnabled}
+        value={drillDown}
+        xAxis={xAxis}
+        columns={availableColumns}
+        onChange={(enabled, value) => {
+          setDrillDownEnabled(enabled);
+          setDrillDown(value);
+        }}
+      />
+
       {/* Enhanced Quick Presets */}
       <Divider style={{ margin: '20px 0' }} />
       <div>
@@ -0,0 +1,196 @@
+import React, { useEffect, useRef } from 'react';
+import * as d3 from 'd3';
+import { useComponentSize } from '../../../hooks/usePerformance';
+import { useAccessibility } from '../../../hooks/useAccessibility';
+
+const DEFAULT_COLORS = ['#1890ff', '#52c41a', '#faad14', '#f5222d', '#722ed1', '#13c2c2'];
+const DEFAULT_MARGIN = { top: 20, right: 20, bottom: 50, left: 60 };
+
+interface BoxPlotData {
+  category: string;
+  count: number;
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+  mean: number;
+  outliers: number[];
+}
+
+interface BoxPlotChartProps {
+  data: BoxPlotData[];
+  config: {
+    title?: string;
+    colorScheme?: string[];
+    outlierColor?: string;
+    showMean?: boolean;
+    interactive?: boolean;
+    height?: number;
+    margin?: { top: number; right: number; bottom: number; left: number };
+  };
+  onBoxClick?: (data: BoxPlotData) => void;
+}
+
+export const BoxPlotChart: React.FC<BoxPlotChartProps> = ({
+  data,
+  config = {},
+  onBoxClick
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const tooltipRef = useRef<HTMLDivElement>(null);
+  const { elementRef, size } = useComponentSize();
+  const { announce } = useAccessibility();
+
+  const {
+    title = 'Box Plot',
+    colorScheme = DEFAULT_COLORS,
+    outlierColor = '#f5222d',
+    showMean = true,
+    interactive = true,
+    height: configHeight = 400,
+    margin = DEFAULT_MARGIN
+  } = config;
+
+  useEffect(() => {
+    if (!svgRef.current || !data.length || size.width === 0) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll('*').remove();
+
+    const width = size.width;
+    const height = configHeight;
+    const innerWidth = width - margin.left - margin.right;
+    const innerHeight = height - margin.top - margin.bottom;
+
+    svg.attr('width', width).attr('height', height);
+
+    const low = d3.min(data, d => Math.min(d.min, ...d.outliers)) ?? 0;
+    const high = d3.max(data, d => Math.max(d.max, ...d.outliers)) ?? 0;
+    const x = d3.scaleBand().domain(data.map(d => d.category)).range([0, innerWidth]).padding(0.3);
+    const y = d3.scaleLinear().domain([low, high]).range([innerHeight, 0]).nice();
+    const colorScale = d3.scaleOrdinal<string, string>(colorScheme);
+
+    const tooltip = d3.select(tooltipRef.current)
+      .style('opacity', 0)
+      .style('position', 'absolute')
+      .style('background', 'rgba(0, 0, 0, 0.8)')
+      .style('color', 'white')
+      .style('padding', '8px 12px')
+      .style('border-radius', '4px')
+      .style('font-size', '12px')
+      .style('pointer-events', 'none')
+      .style('z-index', '1000');
+
+    const g = svg.append('g').attr('transform', `translate(${margin.left},${margin.top})`);
+
+    g.append('g').attr('transform', `translate(0,${innerHeight})`).call(d3.axisBottom(x));
+    g.append('g').call(d3.axisLeft(y));
+
+    const boxes = g.selectAll('.box')
+      .data(data)
+      .enter()
+      .append('g')
+      .attr('class', 'box')
+      .attr('transform', d => `translate(${x(d.category) ?? 0},0)`)
+      .style('cursor', interactive ? 'pointer' : 'default');
+
+    const boxWidth = x.bandwidth();
+    const centre = boxWidth / 2;
+
+    // Whiskers
+    boxes.append('line')
+      .attr('x1', centre).attr('x2', centre)
+      .attr('y1', d => y(d.min)).attr('y2', d => y(d.max))
+      .attr('stroke', '#595959');
+    boxes.selectAll('.whisker-cap')
+      .data(d => [d.min, d.max])
+      .enter()
+      .append('line')
+      .attr('class', 'whisker-cap')
+      .attr('x1', boxWidth * 0.25).attr('x2', boxWidth * 0.75)
+      .attr('y1', value => y(value)).attr('y2', value => y(value))
+      .attr('stroke', '#595959');
+
+    // Interquartile box and median
+    boxes.append('rect')
+      .attr('y', d => y(d.q3))
+      .attr('width', boxWidth)
+      .attr('height', d => Math.max(1, y(d.q1) - y(d.q3)))
+      .attr('fill', d => colorScale(d.category))
+      .attr('fill-opacity', 0.6)
+      .attr('stroke', d => colorScale(d.category));
+    boxes.append('line')
+      .attr('x1', 0).attr('x2', boxWidth)
+      .attr('y1', d => y(d.median)).attr('y2', d => y(d.median))
+      .attr('stroke', '#262626')
+      .attr('stroke-width', 2);
+
+    if (showMean) {
+      boxes.append('circle')
+        .attr('cx', centre)
+        .attr('cy', d => y(d.mean))
+        .attr('r', 3)
+        .attr('fill', '#fff')
+        .attr('stroke', '#262626');
+    }
+
+    boxes.selectAll('.outlier')
+      .data(d => d.outliers)
+      .enter()
+      .append('circle')
+      .attr('class', 'outlier')
+      .attr('cx', centre)
+      .attr('cy', value => y(value))
+      .attr('r', 3)
+      .attr('fill', outlierColor);
+
+    if (interactive) {
+      const format = d3.format(',.2~f');
+      boxes
+        .on('mouseover', function(event, d) {
+          tooltip.transition().duration(200).style('opacity', 0.9);
+          tooltip.html(`
+            <strong>${d.category}</strong> (n=${d.count})<br/>
+            Max: ${format(d.max)}<br/>
+            Q3: ${format(d.q3)}<br/>
+            Median: ${format(d.median)}<br/>
+            Q1: ${format(d.q1)}<br/>
+            Min: ${format(d.min)}<br/>
+            Mean: ${format(d.mean)}
+            ${d.outliers.length ? `<br/>Outliers: ${d.outliers.length}` : ''}
+          `)
+            .style('left', (event.offsetX + 10) + 'px')
+            .style('top', (event.offsetY - 28) + 'px');
+        })
+        .on('mouseout', () => {
+          tooltip.transition().duration(500).style('opacity', 0);
+        })
+        .on('click', (_event, d) => {
+          onBoxClick?.(d);
+          announce(`Selected ${d.category}: median ${format(d.median)}, ${d.outliers.length} outliers`);
+        });
+    }
+
+    return () => {
+      if (svgRef.current) {
+        d3.select(svgRef.current).selectAll('*').remove();
+      }
+      if (tooltipRef.current) {
+        d3.select(tooltipRef.current).style('opacity', 0);
+      }
+    };
+  }, [data, size, configHeight, colorScheme, outlierColor, showMean, interactive, margin, onBoxClick, announce]);
+
+  return (
+    <div ref={elementRef} style={{ width: '100%', position: 'relative' }}>
+      <svg
+        ref={svgRef}
+        role="img"
+        aria-label={`${title} box plot visualization`}
+        style={{ width: '100%', height: 'auto' }}
+      />
+      <div ref={tooltipRef} />
+    </div>
+  );
+};
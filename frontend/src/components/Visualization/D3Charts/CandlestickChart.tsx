@@ -0,0 +1,158 @@
+import React, { useEffect, useRef } from 'react';
+import * as d3 from 'd3';
+import { useComponentSize } from '../../../hooks/usePerformance';
+import { useAccessibility } from '../../../hooks/useAccessibility';
+
+const DEFAULT_MARGIN = { top: 20, right: 20, bottom: 50, left: 60 };
+
+interface CandleData {
+  label: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+interface CandlestickChartProps {
+  data: CandleData[];
+  config: {
+    title?: string;
+    upColor?: string;
+    downColor?: string;
+    interactive?: boolean;
+    height?: number;
+    margin?: { top: number; right: number; bottom: number; left: number };
+  };
+  onCandleClick?: (data: CandleData) => void;
+}
+
+export const CandlestickChart: React.FC<CandlestickChartProps> = ({
+  data,
+  config = {},
+  onCandleClick
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const tooltipRef = useRef<HTMLDivElement>(null);
+  const { elementRef, size } = useComponentSize();
+  const { announce } = useAccessibility();
+
+  const {
+    title = 'Candlestick',
+    upColor = '#52c41a',
+    downColor = '#f5222d',
+    interactive = true,
+    height: configHeight = 400,
+    margin = DEFAULT_MARGIN
+  } = config;
+
+  useEffect(() => {
+    if (!svgRef.current || !data.length || size.width === 0) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll('*').remove();
+
+    const width = size.width;
+    const height = configHeight;
+    const innerWidth = width - margin.left - margin.right;
+    const innerHeight = height - margin.top - margin.bottom;
+
+    svg.attr('width', width).attr('height', height);
+
+    const x = d3.scaleBand<number>().domain(data.map((_, index) => index)).range([0, innerWidth]).padding(0.3);
+    const y = d3.scaleLinear()
+      .domain([d3.min(data, d => d.low) ?? 0, d3.max(data, d => d.high) ?? 0])
+      .range([innerHeight, 0])
+      .nice();
+    const colorFor = (d: CandleData) => (d.close >= d.open ? upColor : downColor);
+
+    const tooltip = d3.select(tooltipRef.current)
+      .style('opacity', 0)
+      .style('position', 'absolute')
+      .style('background', 'rgba(0, 0, 0, 0.8)')
+      .style('color', 'white')
+      .style('padding', '8px 12px')
+      .style('border-radius', '4px')
+      .style('font-size', '12px')
+      .style('pointer-events', 'none')
+      .style('z-index', '1000');
+
+    const g = svg.append('g').attr('transform', `translate(${margin.left},${margin.top})`);
+
+    // Thin out category labels so long series stay readable
+    const labelStep = Math.max(1, Math.ceil(data.length / Math.max(1, innerWidth / 80)));
+    g.append('g')
+      .attr('transform', `translate(0,${innerHeight})`)
+      .call(d3.axisBottom(x)
+        .tickValues(data.map((_, index) => index).filter(index => index % labelStep === 0))
+        .tickFormat(index => data[index]?.label ?? ''));
+    g.append('g').call(d3.axisLeft(y));
+
+    const candles = g.selectAll('.candle')
+      .data(data)
+      .enter()
+      .append('g')
+      .attr('class', 'candle')
+      .attr('transform', (_, index) => `translate(${x(index) ?? 0},0)`)
+      .style('cursor', interactive ? 'pointer' : 'default');
+
+    const bodyWidth = x.bandwidth();
+
+    candles.append('line')
+      .attr('x1', bodyWidth / 2).attr('x2', bodyWidth / 2)
+      .attr('y1', d => y(d.high)).attr('y2', d => y(d.low))
+      .attr('stroke', colorFor);
+
+    candles.append('rect')
+      .attr('y', d => y(Math.max(d.open, d.close)))
+      .attr('width', bodyWidth)
+      .attr('height', d => Math.max(1, Math.abs(y(d.open) - y(d.close))))
+      .attr('fill', colorFor);
+
+    if (interactive) {
+      const format = d3.format(',.2~f');
+      candles
+        .on('mouseover', function(event, d) {
+          d3.select(this).style('opacity', 0.8);
+          tooltip.transition().duration(200).style('opacity', 0.9);
+          tooltip.html(`
+            <strong>${d.label}</strong><br/>
+            Open: ${format(d.open)}<br/>
+            High: ${format(d.high)}<br/>
+            Low: ${format(d.low)}<br/>
+            Close: ${format(d.close)}
+          `)
+            .style('left', (event.offsetX + 10) + 'px')
+            .style('top', (event.offsetY - 28) + 'px');
+        })
+        .on('mouseout', function() {
+          d3.select(this).style('opacity', 1);
+          tooltip.transition().duration(500).style('opacity', 0);
+        })
+        .on('click', (_event, d) => {
+          onCandleClick?.(d);
+          announce(`Selected ${d.label}: open ${format(d.open)}, close ${format(d.close)}`);
+        });
+    }
+
+    return () => {
+      if (svgRef.current) {
+        d3.select(svgRef.current).selectAll('*').remove();
+      }
+      if (tooltipRef.current) {
+        d3.select(tooltipRef.current).style('opacity', 0);
+      }
+    };
+  }, [data, size, configHeight, upColor, downColor, interactive, margin, onCandleClick, announce]);
+
+  return (
+    <div ref={elementRef} style={{ width: '100%', position: 'relative' }}>
+      <svg
+        ref={svgRef}
+        role="img"
+        aria-label={`${title} candlestick visualization`}
+        style={{ width: '100%', height: 'auto' }}
+      />
+      <div ref={tooltipRef} />
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import React, { useEffect, useRef } from 'react';
+import * as d3 from 'd3';
+import { useComponentSize } from '../../../hooks/usePerformance';
+import { useAccessibility } from '../../../hooks/useAccessibility';
+
+const DEFAULT_COLORS = ['#1890ff', '#52c41a', '#faad14', '#f5222d', '#722ed1', '#13c2c2'];
+const DEFAULT_MARGIN = { top: 20, right: 20, bottom: 40, left: 140 };
+const ROW_HEIGHT = 28;
+
+interface GanttTaskData {
+  name: string;
+  start: Date;
+  end: Date;
+  group?: string | undefined;
+}
+
+interface GanttChartProps {
+  data: GanttTaskData[];
+  config: {
+    title?: string;
+    colorScheme?: string[];
+    interactive?: boolean;
+    margin?: { top: number; right: number; bottom: number; left: number };
+  };
+  onTaskClick?: (task: GanttTaskData) => void;
+}
+
+const formatDuration = (ms: number) => {
+  const hours = ms / 3600000;
+  if (hours < 1) return `${Math.round(ms / 60000)} min`;
+  if (hours < 48) return `${hours.toFixed(1)} h`;
+  return `${(hours / 24).toFixed(1)} days`;
+};
+
+export const GanttChart: React.FC<GanttChartProps> = ({
+  data,
+  config = {},
+  onTaskClick
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const tooltipRef = useRef<HTMLDivElement>(null);
+  const { elementRef, size } = useComponentSize();
+  const { announce } = useAccessibility();
+
+  const {
+    title = 'Gantt',
+    colorScheme = DEFAULT_COLORS,
+    interactive = true,
+    margin = DEFAULT_MARGIN
+  } = config;
+
+  useEffect(() => {
+    if (!svgRef.current || !data.length || size.width === 0) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll('*').remove();
+
+    const tasks = [...data].sort((a, b) => a.start.getTime() - b.start.getTime());
+    const width = size.width;
+    const innerWidth = Math.max(100, width - margin.left - margin.right);
+    const innerHeight = tasks.length * ROW_HEIGHT;
+    const height = innerHeight + margin.top + margin.bottom;
+
+    svg.attr('width', width).attr('height', height);
+
+    const minStart = d3.min(tasks, d => d.start) ?? new Date();
+    const maxEnd = d3.max(tasks, d => d.end) ?? new Date();
+    const x = d3.scaleTime().domain([minStart, maxEnd]).range([0, innerWidth]).nice();
+    const y = d3.scaleBand<number>()
+      .domain(tasks.map((_, index) => index))
+      .range([0, innerHeight])
+      .padding(0.25);
+    const colorScale = d3.scaleOrdinal<string, string>(colorScheme);
+
+    const tooltip = d3.select(tooltipRef.current)
+      .style('opacity', 0)
+      .style('position', 'absolute')
+      .style('background', 'rgba(0, 0, 0, 0.8)')
+      .style('color', 'white')
+      .style('padding', '8px 12px')
+      .style('border-radius', '4px')
+      .style('font-size', '12px')
+      .style('pointer-events', 'none')
+      .style('z-index', '1000');
+
+    const g = svg.append('g').attr('transform', `translate(${margin.left},${margin.top})`);
+
+    g.append('g')
+      .attr('class', 'grid')
+      .attr('transform', `translate(0,${innerHeight})`)
+      .call(d3.axisBottom(x).ticks(Math.max(2, Math.floor(innerWidth / 100))).tickSize(-innerHeight))
+      .call(axis => axis.selectAll('.tick line').attr('stroke', '#f0f0f0'));
+
+    g.append('g')
+      .call(d3.axisLeft(y).tickFormat(index => {
+        const name = tasks[index]?.name ?? '';
+        return name.length > 18 ? `${name.slice(0, 17)}…` : name;
+      }));
+
+    const bars = g.selectAll('.gantt-task')
+      .data(tasks)
+      .enter()
+      .append('rect')
+      .attr('class', 'gantt-task')
+      .attr('x', d => x(d.start))
+      .attr('y', (_, index) => y(index) ?? 0)
+      .attr('width', d => Math.max(2, x(d.end) - x(d.start)))
+      .attr('height', y.bandwidth())
+      .attr('rx', 3)
+      .attr('fill', d => colorScale(d.group ?? d.name))
+      .style('cursor', interactive ? 'pointer' : 'default');
+
+    if (interactive) {
+      const formatDate = d3.timeFormat('%Y-%m-%d %H:%M');
+      bars
+        .on('mouseover', function(event, d) {
+          d3.select(this).style('opacity', 0.8);
+          tooltip.transition().duration(200).style('opacity', 0.9);
+          tooltip.html(`
+            <strong>${d.name}</strong>${d.group ? ` (${d.group})` : ''}<br/>
+            ${formatDate(d.start)} → ${formatDate(d.end)}<br/>
+            Duration: ${formatDuration(d.end.getTime() - d.start.getTime())}
+          `)
+            .style('left', (event.offsetX + 10) + 'px')
+            .style('top', (event.offsetY - 28) + 'px');
+        })
+        .on('mouseout', function() {
+          d3.select(this).style('opacity', 1);
+          tooltip.transition().duration(500).style('opacity', 0);
+        })
+        .on('click', (_event, d) => {
+          onTaskClick?.(d);
+          announce(`Selected task ${d.name}, ${formatDuration(d.end.getTime() - d.start.getTime())}`);
+        });
+    }
+
+    return () => {
+      if (svgRef.current) {
+        d3.select(svgRef.current).selectAll('*').remove();
+      }
+      if (tooltipRef.current) {
+        d3.select(tooltipRef.current).style('opacity', 0);
+      }
+    };
+  }, [data, size, colorScheme, interactive, margin, onTaskClick, announce]);
+
+  return (
+    <div ref={elementRef} style={{ width: '100%', position: 'relative', overflowY: 'auto' }}>
+      <svg
+        ref={svgRef}
+        role="img"
+        aria-label={`${title} gantt visualization`}
+        style={{ width: '100%', height: 'auto' }}
+      />
+      <div ref={tooltipRef} />
+    </div>
+  );
+};
@@ -0,0 +1,175 @@
+import React, { useEffect, useRef } from 'react';
+import * as d3 from 'd3';
+import { useComponentSize } from '../../../hooks/usePerformance';
+import { useAccessibility } from '../../../hooks/useAccessibility';
+
+const DEFAULT_COLORS = ['#1f77b4', '#ff7f0e', '#2ca02c', '#d62728', '#9467bd', '#8c564b'];
+
+interface SunburstData {
+  name: string;
+  value?: number;
+  children?: SunburstData[];
+}
+
+interface SunburstChartProps {
+  data: SunburstData;
+  config: {
+    title?: string;
+    colorScheme?: string[];
+    showLabels?: boolean;
+    interactive?: boolean;
+    height?: number;
+  };
+  onNodeClick?: (path: string[], value: number) => void;
+}
+
+export const SunburstChart: React.FC<SunburstChartProps> = ({
+  data,
+  config = {},
+  onNodeClick
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const tooltipRef = useRef<HTMLDivElement>(null);
+  const { elementRef, size } = useComponentSize();
+  const { announce } = useAccessibility();
+
+  const {
+    title = 'Sunburst',
+    colorScheme = DEFAULT_COLORS,
+    showLabels = true,
+    interactive = true,
+    height: configHeight
+  } = config;
+
+  useEffect(() => {
+    if (!svgRef.current || !data?.children?.length || size.width === 0) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll('*').remove();
+
+    const width = size.width;
+    const height = configHeight ?? Math.max(400, Math.min(size.width, 600));
+    const radius = Math.min(width, height) / 2 - 10;
+
+    svg.attr('width', width).attr('height', height);
+
+    const root = d3.hierarchy<SunburstData>(data)
+      .sum(d => (d.children ? 0 : d.value || 0))
+      .sort((a, b) => (b.value || 0) - (a.value || 0));
+
+    const partition = d3.partition<SunburstData>().size([2 * Math.PI, radius]);
+    const layout = partition(root);
+
+    // Each top-level branch gets its own colour; descendants inherit it
+    const colorScale = d3.scaleOrdinal<string, string>(colorScheme);
+    const branchColor = (node: d3.HierarchyRectangularNode<SunburstData>) => {
+      const branch = node.ancestors().find(ancestor => ancestor.depth === 1) ?? node;
+      const base = d3.color(colorScale(branch.data.name));
+      return base ? base.brighter((node.depth - 1) * 0.4).formatHex() : '#ccc';
+    };
+
+    const arc = d3.arc<d3.HierarchyRectangularNode<SunburstData>>()
+      .startAngle(d => d.x0)
+      .endAngle(d => d.x1)
+      .padAngle(d => Math.min((d.x1 - d.x0) / 2, 0.005))
+      .padRadius(radius / 2)
+      .innerRadius(d => d.y0)
+      .outerRadius(d => d.y1 - 1);
+
+    const tooltip = d3.select(tooltipRef.current)
+      .style('opacity', 0)
+      .style('position', 'absolute')
+      .style('background', 'rgba(0, 0, 0, 0.8)')
+      .style('color', 'white')
+      .style('padding', '8px 12px')
+      .style('border-radius', '4px')
+      .style('font-size', '12px')
+      .style('pointer-events', 'none')
+      .style('z-index', '1000');
+
+    const g = svg.append('g')
+      .attr('transform', `translate(${width / 2},${height / 2})`);
+
+    const pathOf = (node: d3.HierarchyRectangularNode<SunburstData>) =>
+      node.ancestors().reverse().slice(1).map(ancestor => ancestor.data.name);
+
+    const arcs = g.selectAll('path')
+      .data(layout.descendants().filter(d => d.depth > 0))
+      .enter()
+      .append('path')
+      .attr('d', arc)
+      .attr('fill', branchColor)
+      .attr('stroke', '#fff')
+      .style('cursor', interactive ? 'pointer' : 'default');
+
+    if (interactive) {
+      arcs
+        .on('mouseover', function(event, d) {
+          d3.select(this).style('opacity', 0.8);
+          const percentage = ((d.value || 0) / (root.value || 1) * 100).toFixed(1);
+          tooltip.transition().duration(200).style('opacity', 0.9);
+          tooltip.html(`
+            <strong>${pathOf(d).join(' › ')}</strong><br/>
+            Value: ${(d.value || 0).toLocaleString()}<br/>
+            Share: ${percentage}%
+          `)
+            .style('left', (event.offsetX + 10) + 'px')
+            .style('top', (event.offsetY - 28) + 'px');
+        })
+        .on('mouseout', function() {
+          d3.select(this).style('opacity', 1);
+          tooltip.transition().duration(500).style('opacity', 0);
+        })
+        .on('click', (_event, d) => {
+          onNodeClick?.(pathOf(d), d.value || 0);
+          announce(`Selected: ${pathOf(d).join(', ')} with value ${(d.value || 0).toLocaleString()}`);
+        });
+    }
+
+    if (showLabels) {
+      g.selectAll('text')
+        .data(layout.descendants().filter(d => d.depth > 0 && (d.y0 + d.y1) / 2 * (d.x1 - d.x0) > 12))
+        .enter()
+        .append('text')
+        .attr('transform', d => {
+          const angle = (d.x0 + d.x1) / 2 * 180 / Math.PI;
+          const distance = (d.y0 + d.y1) / 2;
+          return `rotate(${angle - 90}) translate(${distance},0) rotate(${angle < 180 ? 0 : 180})`;
+        })
+        .attr('dy', '0.35em')
+        .attr('text-anchor', 'middle')
+        .style('font-size', '11px')
+        .style('pointer-events', 'none')
+        .style('fill', d => (d3.hsl(branchColor(d)).l > 0.6 ? '#000' : '#fff'))
+        .text(d => (d.data.name.length > 14 ? `${d.data.name.slice(0, 13)}…` : d.data.name));
+    }
+
+    g.append('text')
+      .attr('text-anchor', 'middle')
+      .attr('dy', '0.35em')
+      .style('font-size', '13px')
+      .style('font-weight', 'bold')
+      .text((root.value || 0).toLocaleString());
+
+    return () => {
+      if (svgRef.current) {
+        d3.select(svgRef.current).selectAll('*').remove();
+      }
+      if (tooltipRef.current) {
+        d3.select(tooltipRef.current).style('opacity', 0);
+      }
+    };
+  }, [data, size, configHeight, colorScheme, showLabels, interactive, onNodeClick, announce]);
+
+  return (
+    <div ref={elementRef} style={{ width: '100%', position: 'relative' }}>
+      <svg
+        ref={svgRef}
+        role="img"
+        aria-label={`${title} sunburst visualization`}
+        style={{ width: '100%', height: 'auto' }}
+      />
+      <div ref={tooltipRef} />
+    </div>
+  );
+};
@@ -0,0 +1,212 @@
+import React from 'react';
+import { Row, Col, Select, Switch, InputNumber, Radio, Typography, Tag } from 'antd';
+import { FilterOutlined } from '@ant-design/icons';
+import { AggregationConfig, DataProcessingConfig, OutlierConfig } from '../../types/visualization';
+import { DEFAULT_DATA_PROCESSING } from './utils/chartData';
+
+const { Text } = Typography;
+
+interface DataProcessingSettingsProps {
+  value: DataProcessingConfig;
+  columns: string[];
+  onChange: (value: DataProcessingConfig) => void;
+}
+
+const SAMPLING_METHODS = [
+  { label: 'Systematic', value: 'systematic' },
+  { label: 'Random', value: 'random' },
+  { label: 'First rows', value: 'first' }
+];
+
+const AGGREGATION_METHODS = [
+  { label: 'Sum', value: 'sum' },
+  { label: 'Average', value: 'avg' },
+  { label: 'Median', value: 'median' },
+  { label: 'Min', value: 'min' },
+  { label: 'Max', value: 'max' },
+  { label: 'Count', value: 'count' }
+];
+
+const TIME_INTERVALS = [
+  { label: 'No bucketing', value: 'none' },
+  { label: 'Hour', value: 'hour' },
+  { label: 'Day', value: 'day' },
+  { label: 'Week', value: 'week' },
+  { label: 'Month', value: 'month' },
+  { label: 'Quarter', value: 'quarter' },
+  { label: 'Year', value: 'year' }
+];
+
+const OUTLIER_METHODS = [
+  { label: 'IQR fences', value: 'iqr' },
+  { label: 'Z-score', value: 'zscore' }
+];
+
+const sectionStyle: React.CSSProperties = {
+  background: '#f8fafc',
+  padding: '12px 16px',
+  borderRadius: '12px',
+  border: '1px solid #e2e8f0',
+  height: '100%'
+};
+
+/**
+ * Sampling, aggregation and outlier settings applied to the rows before the
+ * chart renders them (see applyDataProcessing).
+ */
+export const DataProcessingSettings: React.FC<DataProcessingSettingsProps> = ({
+  value,
+  columns,
+  onChange
+}) => {
+  const aggregation: AggregationConfig = value.aggregation ?? DEFAULT_DATA_PROCESSING.aggregation!;
+  const outliers: OutlierConfig = value.outliers ?? DEFAULT_DATA_PROCESSING.outliers!;
+
+  const updateAggregation = (changes: Partial<AggregationConfig>) =>
+    onChange({ ...value, aggregation: { ...aggregation, ...changes } });
+  const updateOutliers = (changes: Partial<OutlierConfig>) =>
+    onChange({ ...value, outliers: { ...outliers, ...changes } });
+
+  const activeCount = [value.enableSampling, value.enableAggregation, value.enableOutlierDetection].filter(Boolean).length;
+
+  return (
+    <div>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '12px' }}>
+        <FilterOutlined style={{ color: '#3b82f6' }} />
+        <Text strong style={{ color: '#1f2937' }}>Data Processing</Text>
+        <Tag color={activeCount > 0 ? 'blue' : 'default'} style={{ fontSize: '10px' }}>
+          {activeCount > 0 ? `${activeCount} ACTIVE` : 'OFF'}
+        </Tag>
+      </div>
+
+      <Row gutter={[12, 12]}>
+        <Col xs={24} md={8}>
+          <div style={sectionStyle}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: 8 }}>
+              <Text strong style={{ fontSize: '13px' }}>Outliers</Text>
+              <Switch
+                size="small"
+                checked={value.enableOutlierDetection}
+                onChange={enableOutlierDetection => onChange({ ...value, enableOutlierDetection, outliers })}
+              />
+            </div>
+            <Select
+              size="small"
+              style={{ width: '100%', marginBottom: 8 }}
+              value={outliers.method}
+              options={OUTLIER_METHODS}
+              disabled={!value.enableOutlierDetection}
+              onChange={method => updateOutliers({ method, threshold: method === 'zscore' ? 3 : 1.5 })}
+            />
+            <InputNumber
+              size="small"
+              style={{ width: '100%', marginBottom: 8 }}
+              addonBefore="Threshold"
+              min={0.5}
+              max={10}
+              step={0.5}
+              value={outliers.threshold}
+              disabled={!value.enableOutlierDetection}
+              onChange={threshold => updateOutliers({ threshold: threshold ?? outliers.threshold })}
+            />
+            <Radio.Group
+              size="small"
+              value={outliers.removeOutliers ? 'remove' : 'highlight'}
+              disabled={!value.enableOutlierDetection}
+              onChange={e => updateOutliers({
+                removeOutliers: e.target.value === 'remove',
+                highlightOutliers: e.target.value === 'highlight'
+              })}
+              options={[
+                { label: 'Highlight', value: 'highlight' },
+                { label: 'Remove', value: 'remove' }
+              ]}
+              optionType="button"
+            />
+          </div>
+        </Col>
+
+        <Col xs={24} md={8}>
+          <div style={sectionStyle}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: 8 }}>
+              <Text strong style={{ fontSize: '13px' }}>Aggregation</Text>
+              <Switch
+                size="small"
+                checked={value.enableAggregation}
+                onChange={enableAggregation => onChange({ ...value, enableAggregation, aggregation })}
+              />
+            </div>
+            <Select
+              size="small"
+              style={{ width: '100%', marginBottom: 8 }}
+              value={aggregation.method}
+              options={AGGREGATION_METHODS}
+              disabled={!value.enableAggregation}
+              onChange={method => updateAggregation({ method })}
+            />
+            <Select
+              size="small"
+              style={{ width: '100%', marginBottom: 8 }}
+              placeholder="Group by X-axis"
+              allowClear
+              value={aggregation.groupBy || undefined}
+              options={columns.map(col => ({ label: col, value: col }))}
+              disabled={!value.enableAggregation}
+              onChange={groupBy => updateAggregation({ groupBy: groupBy ?? '' })}
+            />
+            <Select
+              size="small"
+              style={{ width: '100%', marginBottom: 8 }}
+              value={aggregation.timeInterval || 'none'}
+              options={TIME_INTERVALS}
+              disabled={!value.enableAggregation}
+              onChange={timeInterval => updateAggregation({ timeInterval })}
+            />
+            <InputNumber
+              size="small"
+              style={{ width: '100%' }}
+              addonBefore="Bins"
+              min={0}
+              max={100}
+              value={aggregation.binCount}
+              disabled={!value.enableAggregation}
+              onChange={binCount => updateAggregation({ binCount: binCount ?? 0 })}
+            />
+          </div>
+        </Col>
+
+        <Col xs={24} md={8}>
+          <div style={sectionStyle}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: 8 }}>
+              <Text strong style={{ fontSize: '13px' }}>Sampling</Text>
+              <Switch
+                size="small"
+                checked={value.enableSampling}
+                onChange={enableSampling => onChange({ ...value, enableSampling })}
+              />
+            </div>
+            <Select
+              size="small"
+              style={{ width: '100%', marginBottom: 8 }}
+              value={value.samplingMethod}
+              options={SAMPLING_METHODS}
+              disabled={!value.enableSampling}
+              onChange={samplingMethod => onChange({ ...value, samplingMethod })}
+            />
+            <InputNumber
+              size="small"
+              style={{ width: '100%' }}
+              addonBefore="Rows"
+              min={10}
+              max={100000}
+              step={100}
+              value={value.sampleSize}
+              disabled={!value.enableSampling}
+              onChange={sampleSize => onChange({ ...value, sampleSize: sampleSize ?? value.sampleSize })}
+            />
+          </div>
+        </Col>
+      </Row>
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+import React from 'react';
+import { Col, InputNumber, Row, Select, Switch, Tag, Typography } from 'antd';
+import { NodeExpandOutlined } from '@ant-design/icons';
+import { DrillDownConfig } from '../../types/visualization';
+import { DEFAULT_DRILL_HIERARCHIES } from './utils/drillDown';
+
+const { Text } = Typography;
+
+interface DrillDownSettingsProps {
+  enabled: boolean;
+  value: DrillDownConfig | undefined;
+  xAxis: string;
+  columns: string[];
+  onChange: (enabled: boolean, value: DrillDownConfig | undefined) => void;
+}
+
+const sectionStyle: React.CSSProperties = {
+  background: '#f8fafc',
+  padding: '12px 16px',
+  borderRadius: '12px',
+  border: '1px solid #e2e8f0'
+};
+
+/**
+ * Hierarchy the chart drills down through. The first level is always the
+ * x-axis; later levels may name columns the refined query will return.
+ */
+export const DrillDownSettings: React.FC<DrillDownSettingsProps> = ({
+  enabled,
+  value,
+  xAxis,
+  columns,
+  onChange
+}) => {
+  const levels = value?.levels ?? (xAxis ? [xAxis] : []);
+  const levelOptions = Array.from(new Set([
+    ...columns,
+    ...DEFAULT_DRILL_HIERARCHIES.flatMap(hierarchy => hierarchy.levels)
+  ])).map(level => ({ label: level, value: level }));
+
+  const update = (changes: Partial<DrillDownConfig>) => {
+    const next: DrillDownConfig = {
+      levels,
+      levelQueries: value?.levelQueries ?? {},
+      enableBreadcrumb: value?.enableBreadcrumb ?? true,
+      maxDepth: value?.maxDepth ?? Math.max(0, levels.length - 1),
+      ...changes
+    };
+    onChange(enabled, next);
+  };
+
+  const handleLevelsChange = (selected: string[]) => {
+    // Keep the x-axis as the top of the hierarchy
+    const nextLevels = xAxis ? [xAxis, ...selected.filter(level => level !== xAxis)] : selected;
+    update({ levels: nextLevels, maxDepth: Math.max(0, nextLevels.length - 1) });
+  };
+
+  return (
+    <div>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '12px' }}>
+        <NodeExpandOutlined style={{ color: '#3b82f6' }} />
+        <Text strong style={{ color: '#1f2937' }}>Drill-down</Text>
+        <Tag color={enabled ? 'blue' : 'default'} style={{ fontSize: '10px' }}>
+          {enabled ? `${levels.length} LEVELS` : 'OFF'}
+        </Tag>
+        <Switch
+          size="small"
+          checked={enabled}
+          disabled={!xAxis}
+          onChange={checked => onChange(checked, value)}
+          style={{ marginLeft: 'auto' }}
+        />
+      </div>
+
+      <div style={sectionStyle}>
+        <Row gutter={[12, 12]}>
+          <Col xs={24} md={14}>
+            <Text type="secondary" style={{ fontSize: '12px' }}>Hierarchy (top to bottom)</Text>
+            <Select
+              mode="tags"
+              size="small"
+              style={{ width: '100%', marginTop: 4 }}
+              value={levels}
+              options={levelOptions}
+              disabled={!enabled}
+              onChange={handleLevelsChange}
+            />
+          </Col>
+          <Col xs={12} md={5}>
+            <Text type="secondary" style={{ fontSize: '12px' }}>Max depth</Text>
+            <InputNumber
+              size="small"
+              style={{ width: '100%', marginTop: 4 }}
+              min={0}
+              max={Math.max(0, levels.length - 1)}
+              value={value?.maxDepth ?? Math.max(0, levels.length - 1)}
+              disabled={!enabled}
+              onChange={maxDepth => update({ maxDepth: maxDepth ?? 0 })}
+            />
+          </Col>
+          <Col xs={12} md={5}>
+            <Text type="secondary" style={{ fontSize: '12px' }}>Breadcrumb</Text>
+            <div style={{ marginTop: 6 }}>
+              <Switch
+                size="small"
+                checked={value?.enableBreadcrumb ?? true}
+                disabled={!enabled}
+                onChange={enableBreadcrumb => update({ enableBreadcrumb })}
+              />
+            </div>
+          </Col>
+        </Row>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,140 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Alert, Breadcrumb, Button, Drawer, Space, Spin, Typography } from 'antd';
+import { CloseOutlined, NodeExpandOutlined, TableOutlined } from '@ant-design/icons';
+import { Chart } from './Chart';
+import DataTable from '../DataTable';
+import { DrillDownConfig } from '../../types/visualization';
+import { useDrillDown } from '../../hooks/useDrillDown';
+import { usePiiMasking } from '../../hooks/usePiiMasking';
+import { PiiMaskingNotice } from '../Security/PiiMaskingNotice';
+
+const { Text } = Typography;
+
+type ChartProps = React.ComponentProps<typeof Chart>;
+
+interface DrillableChartProps extends Omit<ChartProps, 'onDataPointClick'> {
+  /** Hierarchy to drill down; drill-through works without one */
+  drillDown?: DrillDownConfig | undefined;
+  /** Question behind the charted result, refined for every drill step */
+  question?: string | undefined;
+}
+
+/**
+ * Chart with drill-down into a declared hierarchy and drill-through to the
+ * detail rows. Each step re-issues a refined query; the breadcrumb trail
+ * walks back up.
+ */
+export const DrillableChart: React.FC<DrillableChartProps> = ({
+  drillDown,
+  question,
+  data,
+  columns,
+  config,
+  onConfigChange,
+  ...chartProps
+}) => {
+  const xAxis = config?.xAxis ?? columns[0] ?? 'name';
+  const {
+    path,
+    current,
+    nextLevel,
+    canDrillDown,
+    canDrillThrough,
+    drillDown: drillInto,
+    drillThrough,
+    drillUp,
+    detail,
+    closeDetail,
+    loading,
+    error
+  } = useDrillDown({ config: drillDown, baseQuestion: question, data, columns, xAxis });
+  const [selected, setSelected] = useState<Record<string, any> | null>(null);
+
+  useEffect(() => setSelected(null), [current]);
+
+  const levelConfig = useMemo(
+    () => (path.length > 1 ? { ...config, xAxis: current.xAxis, title: `${config?.title ?? 'Chart'} › ${current.label}` } : config),
+    [config, current, path.length]
+  );
+  const detailColumns = useMemo(
+    () => (detail?.columns ?? []).map(column => ({ key: column, title: column, dataIndex: column, sortable: true, filterable: true })),
+    [detail]
+  );
+  const detailColumnNames = useMemo(() => detail?.columns ?? [], [detail]);
+  const masking = usePiiMasking(detailColumnNames, { ...(detail?.sql && { sql: detail.sql }), context: 'drill-through' });
+
+  const interactive = canDrillDown || canDrillThrough;
+  const showBreadcrumb = drillDown?.enableBreadcrumb !== false && path.length > 1;
+  const selectedLabel = selected ? String(selected[current.xAxis] ?? '') : '';
+
+  return (
+    <div>
+      {showBreadcrumb && (
+        <Breadcrumb
+          style={{ marginBottom: 8 }}
+          items={path.map((level, index) => ({
+            key: `${level.level}-${index}`,
+            title: index < path.length - 1
+              ? <Button type="link" size="small" style={{ padding: 0, height: 'auto' }} onClick={() => drillUp(index)}>{level.label}</Button>
+              : <Text strong>{level.label}</Text>
+          }))}
+        />
+      )}
+
+      {selected && (
+        <Space style={{ marginBottom: 8 }} wrap>
+          <Text>
+            Selected <Text strong>{current.xAxis}</Text>: {selectedLabel}
+          </Text>
+          {canDrillDown && (
+            <Button size="small" type="primary" icon={<NodeExpandOutlined />} onClick={() => drillInto(selected)}>
+              Drill down to {nextLevel}
+            </Button>
+          )}
+          {canDrillThrough && (
+            <Button size="small" icon={<TableOutlined />} onClick={() => drillThrough(selected)}>
+              View detail rows
+            </Button>
+          )}
+          <Button size="small" type="text" icon={<CloseOutlined />} onClick={() => setSelected(null)} />
+        </Space>
+      )}
+
+      {error && (
+        <Alert type="error" showIcon closable message="Drill query failed" description={error} style={{ marginBottom: 8 }} />
+      )}
+
+      <Spin spinning={loading}>
+        <Chart
+          {...chartProps}
+          data={current.data}
+          columns={current.columns}
+          {...(levelConfig && { config: levelConfig })}
+          {...(interactive && { onDataPointClick: setSelected })}
+          {...(path.length === 1 && onConfigChange && { onConfigChange })}
+        />
+      </Spin>
+
+      <Drawer
+        title={detail ? `Detail rows: ${detail.title}` : 'Detail rows'}
+        open={Boolean(detail)}
+        onClose={closeDetail}
+        width="80%"
+        destroyOnClose
+      >
+        {detail && (
+          <>
+            <PiiMaskingNotice masking={masking} style={{ marginBottom: 16 }} />
+            <DataTable
+              data={detail.data}
+              columns={detailColumns}
+              masking={masking}
+              features={{ pagination: true, sorting: true, searching: true, export: true }}
+              config={{ pageSize: 20 }}
+            />
+          </>
+        )}
+      </Drawer>
+    </div>
+  );
+};
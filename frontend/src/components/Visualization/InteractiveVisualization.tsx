@@ -59,12 +59,22 @@ import {
 } from 'recharts';
 import dayjs from 'dayjs';
 import { useVisualizationResult } from '../../hooks/useCurrentResult';
+import { AdvancedChartRenderer } from './AdvancedChartRenderer';
+import { ADVANCED_RENDER_TYPES, ChartRenderType, DEFAULT_BIN_COUNT } from './utils/chartData';
 
 const { Title, Text } = Typography;
 const { Option } = Select;
 const { TabPane } = Tabs;
 const { RangePicker } = DatePicker;
 
+const COLOR_SCHEMES: Record<string, string[]> = {
+  default: ['#1890ff', '#52c41a', '#faad14', '#f5222d', '#722ed1', '#13c2c2'],
+  rainbow: ['#ff0000', '#ff8000', '#ffff00', '#80ff00', '#00ff00', '#00ff80'],
+  warm: ['#ff6b6b', '#ffa726', '#ffcc02', '#ff8a65', '#f06292', '#ba68c8'],
+  cool: ['#42a5f5', '#26c6da', '#66bb6a', '#9ccc65', '#d4e157', '#ffee58'],
+  monochrome: ['#212121', '#424242', '#616161', '#757575', '#9e9e9e', '#bdbdbd']
+};
+
 interface FilterConfig {
   id: string;
   column: string;
@@ -77,11 +87,12 @@ interface FilterConfig {
 }
 
 interface ChartConfig {
-  type: 'bar' | 'line' | 'pie' | 'scatter' | 'area' | 'heatmap';
+  type: ChartRenderType;
   title: string;
   xAxis: string;
   yAxis: string;
   groupBy?: string;
+  binCount?: number;
   aggregation: 'sum' | 'avg' | 'count' | 'max' | 'min';
   showTrend: boolean;
   showAnimation: boolean;
@@ -401,18 +412,8 @@ export const InteractiveVisualization: React.FC<InteractiveVisualizationProps> =
   }, [filteredData, chartConfig]);
 
   // Get color for chart
-  const getColor = (index: number) => {
-    const schemes = {
-      default: ['#1890ff', '#52c41a', '#faad14', '#f5222d', '#722ed1', '#13c2c2'],
-      rainbow: ['#ff0000', '#ff8000', '#ffff00', '#80ff00', '#00ff00', '#00ff80'],
-      warm: ['#ff6b6b', '#ffa726', '#ffcc02', '#ff8a65', '#f06292', '#ba68c8'],
-      cool: ['#42a5f5', '#26c6da', '#66bb6a', '#9ccc65', '#d4e157', '#ffee58'],
-      monochrome: ['#212121', '#424242', '#616161', '#757575', '#9e9e9e', '#bdbdbd']
-    };
-
-    const colors = schemes[chartConfig.colorScheme as keyof typeof schemes] || schemes.default;
-    return colors[index % colors.length];
-  };
+  const colors = COLOR_SCHEMES[chartConfig.colorScheme] ?? COLOR_SCHEMES['default']!;
+  const getColor = (index: number) => colors[index % colors.length];
 
   // Render chart based on type
   const renderChart = () => {
@@ -430,6 +431,25 @@ export const InteractiveVisualization: React.FC<InteractiveVisualizationProps> =
       data: processedData
     };
 
+    // These renderers need the raw rows (bins, quartiles, OHLC, dates), not the per-category aggregate
+    if (ADVANCED_RENDER_TYPES.includes(chartConfig.type)) {
+      return (
+        <AdvancedChartRenderer
+          type={chartConfig.type}
+          data={filteredData}
+          xField={chartConfig.xAxis}
+          yField={chartConfig.yAxis}
+          groupBy={chartConfig.groupBy}
+          binCount={chartConfig.binCount}
+          colors={colors}
+          height={chartSettings.height}
+          showGrid={chartSettings.showGrid}
+          showLegend={chartSettings.showLegend}
+          animate={chartSettings.enableAnimation}
+        />
+      );
+    }
+
     switch (chartConfig.type) {
       case 'bar':
         return (
@@ -770,6 +790,14 @@ export const InteractiveVisualization: React.FC<InteractiveVisualizationProps> =
                   <Option value="area">Area Chart</Option>
                   <Option value="pie">Pie Chart</Option>
                   <Option value="scatter">Scatter Plot</Option>
+                  <Option value="histogram">Histogram</Option>
+                  <Option value="boxplot">Box Plot</Option>
+                  <Option value="waterfall">Waterfall</Option>
+                  <Option value="funnel">Funnel</Option>
+                  <Option value="radar">Radar</Option>
+                  <Option value="sunburst">Sunburst</Option>
+                  <Option value="candlestick">Candlestick</Option>
+                  <Option value="gantt">Gantt</Option>
                 </Select>
               </Col>
               <Col span={8}>
@@ -796,6 +824,17 @@ export const InteractiveVisualization: React.FC<InteractiveVisualizationProps> =
                   ))}
                 </Select>
               </Col>
+              {chartConfig.type === 'histogram' && (
+                <Col span={8}>
+                  <Text strong>Bins: {chartConfig.binCount ?? DEFAULT_BIN_COUNT}</Text>
+                  <Slider
+                    min={2}
+                    max={50}
+                    value={chartConfig.binCount ?? DEFAULT_BIN_COUNT}
+                    onChange={(value: number) => setChartConfig(prev => ({ ...prev, binCount: value }))}
+                  />
+                </Col>
+              )}
             </Row>
           </TabPane>
 
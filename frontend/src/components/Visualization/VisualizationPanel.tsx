@@ -27,11 +27,20 @@ import {
   NodeIndexOutlined,
   AppstoreOutlined,
   SettingOutlined,
-  FullscreenOutlined
+  FullscreenOutlined,
+  BoxPlotOutlined,
+  FundOutlined,
+  FallOutlined,
+  FunnelPlotOutlined,
+  RadarChartOutlined,
+  StockOutlined,
+  ScheduleOutlined
 } from '@ant-design/icons';
 import { Chart } from './Chart';
 import ChartConfigurationPanel from './ChartConfigurationPanel';
 import VisualizationRecommendations from './VisualizationRecommendations';
+import { DataProcessingConfig } from '../../types/visualization';
+import { fromAdvancedConfig } from './utils/chartData';
 
 const { Title, Text } = Typography;
 const { Option } = Select;
@@ -47,6 +56,9 @@ interface VisualizationConfig {
   showLegend: boolean;
   showAnimation: boolean;
   interactive: boolean;
+  series?: string[] | undefined;
+  groupBy?: string | undefined;
+  dataProcessing?: DataProcessingConfig | undefined;
 }
 
 interface VisualizationPanelProps {
@@ -104,8 +116,8 @@ export const VisualizationPanel: React.FC<VisualizationPanelProps> = ({
     if (columns && columns.length > 0) {
       setConfig(prev => ({
         ...prev,
-        xAxis: prev.xAxis === 'name' ? columns[0] : prev.xAxis,
-        yAxis: prev.yAxis === 'value' ? (columns.length > 1 ? columns[1] : columns[0]) : prev.yAxis
+        xAxis: prev.xAxis === 'name' ? (columns[0] ?? prev.xAxis) : prev.xAxis,
+        yAxis: prev.yAxis === 'value' ? (columns[1] ?? columns[0] ?? prev.yAxis) : prev.yAxis
       }));
     }
   }, [columns]);
@@ -144,7 +156,15 @@ export const VisualizationPanel: React.FC<VisualizationPanelProps> = ({
     { value: 'scatter', label: 'Scatter Plot', icon: <DotChartOutlined /> },
     { value: 'heatmap', label: 'Heatmap', icon: <HeatMapOutlined /> },
     { value: 'network', label: 'Network', icon: <NodeIndexOutlined /> },
-    { value: 'treemap', label: 'Treemap', icon: <AppstoreOutlined /> }
+    { value: 'treemap', label: 'Treemap', icon: <AppstoreOutlined /> },
+    { value: 'histogram', label: 'Histogram', icon: <BarChartOutlined /> },
+    { value: 'boxplot', label: 'Box Plot', icon: <BoxPlotOutlined /> },
+    { value: 'waterfall', label: 'Waterfall', icon: <FallOutlined /> },
+    { value: 'funnel', label: 'Funnel', icon: <FunnelPlotOutlined /> },
+    { value: 'radar', label: 'Radar', icon: <RadarChartOutlined /> },
+    { value: 'sunburst', label: 'Sunburst', icon: <FundOutlined /> },
+    { value: 'candlestick', label: 'Candlestick', icon: <StockOutlined /> },
+    { value: 'gantt', label: 'Gantt', icon: <ScheduleOutlined /> }
   ];
 
   const renderChartTypeSelector = () => (
@@ -246,7 +266,7 @@ export const VisualizationPanel: React.FC<VisualizationPanelProps> = ({
             console.log('Recommendation selected:', rec);
           }}
           onConfigGenerated={(config) => {
-            handleConfigChange(config);
+            handleConfigChange(fromAdvancedConfig(config));
             setActiveTab('chart');
           }}
         />
@@ -259,7 +279,7 @@ export const VisualizationPanel: React.FC<VisualizationPanelProps> = ({
       data={data}
       columns={columns}
       currentConfig={config as any}
-      onConfigChange={handleConfigChange}
+      onConfigChange={(advancedConfig) => handleConfigChange(fromAdvancedConfig(advancedConfig))}
     />
   );
 
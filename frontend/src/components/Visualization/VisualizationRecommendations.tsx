@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import {
   Button,
   Space,
@@ -15,7 +15,12 @@ import {
   DotChartOutlined,
   HeatMapOutlined,
   FunnelPlotOutlined,
-  RadarChartOutlined
+  RadarChartOutlined,
+  BoxPlotOutlined,
+  StockOutlined,
+  FallOutlined,
+  ScheduleOutlined,
+  FundOutlined
 } from '@ant-design/icons';
 import {
   VisualizationRecommendation,
@@ -23,9 +28,32 @@ import {
   AdvancedVisualizationConfig
 } from '../../types/visualization';
 import advancedVisualizationService from '../../services/advancedVisualizationService';
+import { ChartCandidate, detectChartCandidates, toAdvancedChartType } from './utils/chartData';
+import { drillDownInteraction } from './utils/drillDown';
 
 const { Text } = Typography;
 
+const toRecommendation = (candidate: ChartCandidate, dataLength: number): VisualizationRecommendation => ({
+  chartType: candidate.chartType,
+  confidence: candidate.confidence,
+  reasoning: candidate.reasoning,
+  bestFor: candidate.bestFor,
+  limitations: [],
+  estimatedPerformance: {
+    estimatedRenderTime: dataLength > 10000 ? '< 500ms' : '< 100ms',
+    memoryUsageMB: Math.max(1, Math.round(dataLength / 5000)),
+    requiresWebGL: false,
+    requiresSampling: dataLength > 10000,
+    recommendedMaxDataPoints: 10000
+  },
+  suggestedConfig: {
+    xAxis: candidate.xAxis,
+    yAxis: candidate.yAxis,
+    ...(candidate.groupBy && { groupBy: candidate.groupBy }),
+    source: 'data-shape'
+  }
+});
+
 interface VisualizationRecommendationsProps {
   data: any[];
   columns: any[];
@@ -60,9 +88,14 @@ const VisualizationRecommendations: React.FC<VisualizationRecommendationsProps>
       'Funnel': <FunnelPlotOutlined />,
       'Radar': <RadarChartOutlined />,
       'Timeline': <LineChartOutlined />,
-      'Histogram': <BarChartOutlined />
+      'Histogram': <BarChartOutlined />,
+      'BoxPlot': <BoxPlotOutlined />,
+      'Waterfall': <FallOutlined />,
+      'Candlestick': <StockOutlined />,
+      'Gantt': <ScheduleOutlined />,
+      'Sunburst': <FundOutlined />
     };
-    return iconMap[chartType] || <BarChartOutlined />;
+    return iconMap[toAdvancedChartType(String(chartType)) ?? chartType] || <BarChartOutlined />;
   };
 
   // Get confidence color
@@ -79,6 +112,20 @@ const VisualizationRecommendations: React.FC<VisualizationRecommendationsProps>
     return 'exception';
   };
 
+  // Chart types the data itself is shaped for; listed alongside the AI suggestions
+  const dataShapeRecommendations = useMemo(
+    () => detectChartCandidates(data).map(candidate => toRecommendation(candidate, data.length)),
+    [data]
+  );
+
+  const visibleRecommendations = useMemo(() => {
+    const suggested = new Set(recommendations.map(rec => toAdvancedChartType(String(rec.chartType)) ?? rec.chartType));
+    return [
+      ...recommendations,
+      ...dataShapeRecommendations.filter(rec => !suggested.has(rec.chartType))
+    ];
+  }, [recommendations, dataShapeRecommendations]);
+
   // Fetch recommendations with duplicate prevention
   const fetchRecommendations = useCallback(async () => {
     if (!data.length || !query) return;
@@ -124,8 +171,8 @@ const VisualizationRecommendations: React.FC<VisualizationRecommendationsProps>
     setSelectedRecommendation(recommendation);
 
     try {
-      // Normalize chart type to proper case (capitalize first letter)
-      const normalizedChartType = recommendation.chartType.charAt(0).toUpperCase() + recommendation.chartType.slice(1).toLowerCase();
+      // Normalize chart type to the AdvancedChartType spelling ('boxplot' -> 'BoxPlot')
+      const normalizedChartType = toAdvancedChartType(String(recommendation.chartType)) ?? 'Bar';
 
       // Smart column detection for better data mapping
       const dateColumns = columns.filter(c =>
@@ -220,6 +267,13 @@ const VisualizationRecommendations: React.FC<VisualizationRecommendationsProps>
         }
       }
 
+      // Data-shape suggestions already know which columns they were built from
+      const { suggestedConfig } = recommendation;
+      if (suggestedConfig?.['source'] === 'data-shape') {
+        xAxisColumn = suggestedConfig['xAxis'];
+        yAxisColumn = suggestedConfig['yAxis'];
+      }
+
       console.log('Chart mapping:', {
         availableColumns: columns.map(c => ({ name: c.name, type: c.type })),
         selectedXAxis: xAxisColumn,
@@ -234,7 +288,7 @@ const VisualizationRecommendations: React.FC<VisualizationRecommendationsProps>
       // Create a basic configuration based on the recommendation
       const config: AdvancedVisualizationConfig = {
         type: 'advanced',
-        chartType: normalizedChartType as AdvancedChartType,
+        chartType: normalizedChartType,
         title: `${normalizedChartType} Chart - ${query.substring(0, 50)}...`,
         config: recommendation.suggestedConfig,
         xAxis: xAxisColumn,
@@ -256,7 +310,7 @@ const VisualizationRecommendations: React.FC<VisualizationRecommendationsProps>
           enableTooltip: true,
           enableLegendToggle: true,
           enableDataPointSelection: true,
-          enableDrillDown: false,
+          ...drillDownInteraction(xAxisColumn, columns.map(c => c.name)),
           tooltip: {
             enabled: true,
             position: 'auto',
@@ -446,7 +500,7 @@ const VisualizationRecommendations: React.FC<VisualizationRecommendationsProps>
           <Text strong style={{ fontSize: '13px', color: '#1f2937' }}>
             AI Recommendations
           </Text>
-          {recommendations.length > 0 && (
+          {visibleRecommendations.length > 0 && (
             <div style={{
               background: '#1890ff',
               color: 'white',
@@ -455,7 +509,7 @@ const VisualizationRecommendations: React.FC<VisualizationRecommendationsProps>
               fontSize: '10px',
               fontWeight: 600
             }}>
-              {recommendations.length}
+              {visibleRecommendations.length}
             </div>
           )}
         </div>
@@ -497,7 +551,7 @@ const VisualizationRecommendations: React.FC<VisualizationRecommendationsProps>
             Analyzing data...
           </Text>
         </div>
-      ) : recommendations.length === 0 ? (
+      ) : visibleRecommendations.length === 0 ? (
         <div style={{
           textAlign: 'center',
           padding: '20px',
@@ -512,7 +566,7 @@ const VisualizationRecommendations: React.FC<VisualizationRecommendationsProps>
         </div>
       ) : (
         <div>
-          {recommendations.map((recommendation, index) =>
+          {visibleRecommendations.map((recommendation, index) =>
             renderRecommendationCard(recommendation, index)
           )}
         </div>
@@ -8,9 +8,21 @@ export { AutoUpdatingChart } from './AutoUpdatingChart';
 export { InlineChart } from './InlineChart';
 export { ChartDebugPanel } from './ChartDebugPanel';
 export { GamingChartProcessor } from './GamingChartProcessor';
+export { AdvancedChartRenderer } from './AdvancedChartRenderer';
+export { DataProcessingSettings } from './DataProcessingSettings';
+export { DrillableChart } from './DrillableChart';
+export { DrillDownSettings } from './DrillDownSettings';
 
 // D3 Charts
 export { HeatmapChart } from './D3Charts/HeatmapChart';
 export { NetworkChart } from './D3Charts/NetworkChart';
 export { SankeyChart } from './D3Charts/SankeyChart';
 export { TreemapChart } from './D3Charts/TreemapChart';
+export { SunburstChart } from './D3Charts/SunburstChart';
+export { GanttChart } from './D3Charts/GanttChart';
+export { BoxPlotChart } from './D3Charts/BoxPlotChart';
+export { CandlestickChart } from './D3Charts/CandlestickChart';
+
+// Chart data preparation
+export * from './utils/chartData';
+export * from './utils/drillDown';
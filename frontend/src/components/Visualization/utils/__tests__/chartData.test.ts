@@ -0,0 +1,201 @@
+import { DataProcessingConfig } from '../../../../types/visualization';
+import {
+  applyDataProcessing,
+  binValues,
+  buildFunnelStages,
+  buildHierarchy,
+  buildWaterfallSteps,
+  computeBoxPlotStats,
+  detectOutliers,
+  resolveGanttFields,
+  resolveOhlcFields,
+  sampleRows,
+  toAdvancedChartType,
+  toChartRenderType
+} from '../chartData';
+
+describe('chart data utils', () => {
+  describe('chart type names', () => {
+    it('normalizes spellings to the AdvancedChartType union and render types', () => {
+      expect(toAdvancedChartType('boxplot')).toBe('BoxPlot');
+      expect(toAdvancedChartType('box_plot')).toBe('BoxPlot');
+      expect(toAdvancedChartType('unknown')).toBeUndefined();
+      expect(toChartRenderType('BoxPlot')).toBe('boxplot');
+      expect(toChartRenderType('Timeline')).toBe('gantt');
+      expect(toChartRenderType('Gauge')).toBeUndefined();
+    });
+  });
+
+  describe('binValues', () => {
+    it('splits values into equal-width bins with the maximum in the last bin', () => {
+      const bins = binValues([0, 1, 2, 3, 4, 5, 6, 7, 8, 10], 5);
+
+      expect(bins.map(bin => bin.count)).toEqual([2, 2, 2, 2, 2]);
+      expect(bins[0]).toMatchObject({ x0: 0, x1: 2, label: '0–2' });
+      expect(bins[4]).toMatchObject({ x0: 8, x1: 10 });
+    });
+
+    it('returns a single bin when all values are equal', () => {
+      expect(binValues([3, 3, 3], 4)).toEqual([{ label: '3', x0: 3, x1: 3, count: 3 }]);
+    });
+  });
+
+  describe('computeBoxPlotStats', () => {
+    it('computes quartiles per category and reports points beyond the whiskers', () => {
+      const data = [1, 2, 3, 4, 5, 6, 7, 8, 100].map(value => ({ brand: 'A', value }));
+      const [stats] = computeBoxPlotStats(data, 'value', 'brand');
+
+      expect(stats).toMatchObject({ category: 'A', count: 9, q1: 3, median: 5, q3: 7, min: 1, max: 8 });
+      expect(stats?.outliers).toEqual([100]);
+    });
+  });
+
+  describe('buildWaterfallSteps', () => {
+    it('chains steps from the running total and appends a total bar', () => {
+      const steps = buildWaterfallSteps(
+        [
+          { item: 'Deposits', amount: 100 },
+          { item: 'Bonuses', amount: -30 },
+          { item: 'Deposits', amount: 20 }
+        ],
+        'item',
+        'amount'
+      );
+
+      expect(steps).toEqual([
+        { name: 'Deposits', delta: 120, start: 0, end: 120, isTotal: false },
+        { name: 'Bonuses', delta: -30, start: 120, end: 90, isTotal: false },
+        { name: 'Total', delta: 90, start: 0, end: 90, isTotal: true }
+      ]);
+    });
+  });
+
+  describe('buildFunnelStages', () => {
+    it('keeps stage order and computes conversion ratios', () => {
+      const stages = buildFunnelStages(
+        [
+          { stage: 'Registered', players: 200 },
+          { stage: 'Deposited', players: 50 },
+          { stage: 'Retained', players: 25 }
+        ],
+        'stage',
+        'players'
+      );
+
+      expect(stages.map(stage => [stage.name, stage.fromPrevious, stage.fromFirst])).toEqual([
+        ['Registered', 1, 1],
+        ['Deposited', 0.25, 0.25],
+        ['Retained', 0.5, 0.125]
+      ]);
+    });
+  });
+
+  describe('buildHierarchy', () => {
+    it('nests rows by the path fields and sums leaf values', () => {
+      const root = buildHierarchy(
+        [
+          { country: 'MT', brand: 'A', revenue: 10 },
+          { country: 'MT', brand: 'A', revenue: 5 },
+          { country: 'UK', brand: 'B', revenue: 7 }
+        ],
+        ['country', 'brand'],
+        'revenue'
+      );
+
+      expect(root).toEqual({
+        name: 'Total',
+        children: [
+          { name: 'MT', children: [{ name: 'A', value: 15 }] },
+          { name: 'UK', children: [{ name: 'B', value: 7 }] }
+        ]
+      });
+    });
+  });
+
+  describe('field resolution', () => {
+    it('finds OHLC and start/end columns by name', () => {
+      expect(resolveOhlcFields(['Date', 'OpenPrice', 'HighPrice', 'LowPrice', 'ClosePrice'])).toEqual({
+        open: 'OpenPrice',
+        high: 'HighPrice',
+        low: 'LowPrice',
+        close: 'ClosePrice'
+      });
+      expect(resolveOhlcFields(['Date', 'Revenue'])).toBeNull();
+      expect(resolveGanttFields(['Task', 'StartDate', 'EndDate'])).toEqual({ start: 'StartDate', end: 'EndDate' });
+    });
+  });
+
+  describe('detectOutliers', () => {
+    it('flags values outside the IQR fences and by z-score', () => {
+      const data = [10, 11, 12, 13, 14, 500].map(value => ({ value }));
+
+      expect(detectOutliers(data, 'value', 'iqr')).toEqual([false, false, false, false, false, true]);
+      expect(detectOutliers(data, 'value', 'zscore', 2)).toEqual([false, false, false, false, false, true]);
+    });
+  });
+
+  describe('sampleRows', () => {
+    it('takes every k-th row for systematic sampling', () => {
+      const data = Array.from({ length: 10 }, (_, index) => ({ index }));
+
+      expect(sampleRows(data, 5).map(row => row.index)).toEqual([0, 2, 4, 6, 8]);
+      expect(sampleRows(data, 3, 'random')).toHaveLength(3);
+      expect(sampleRows(data, 20)).toBe(data);
+    });
+  });
+
+  describe('applyDataProcessing', () => {
+    const data = [
+      { month: '2024-01-05', deposits: 100 },
+      { month: '2024-01-20', deposits: 110 },
+      { month: '2024-02-03', deposits: 105 },
+      { month: '2024-02-14', deposits: 95 },
+      { month: '2024-03-01', deposits: 5000 }
+    ];
+
+    const baseConfig: DataProcessingConfig = {
+      enableSampling: false,
+      sampleSize: 0,
+      samplingMethod: 'systematic',
+      enableAggregation: false,
+      enableOutlierDetection: false
+    };
+
+    it('removes outliers before aggregating by time interval', () => {
+      const rows = applyDataProcessing(
+        data,
+        {
+          ...baseConfig,
+          enableOutlierDetection: true,
+          outliers: { method: 'iqr', threshold: 1.5, removeOutliers: true, highlightOutliers: false, outlierColor: '#f00' },
+          enableAggregation: true,
+          aggregation: { method: 'sum', groupBy: '', binCount: 0, timeInterval: 'month' }
+        },
+        { xField: 'month', yField: 'deposits' }
+      );
+
+      expect(rows).toEqual([
+        { month: '2024-01', deposits: 210 },
+        { month: '2024-02', deposits: 200 }
+      ]);
+    });
+
+    it('flags outliers when highlighting instead of removing', () => {
+      const rows = applyDataProcessing(
+        data,
+        {
+          ...baseConfig,
+          enableOutlierDetection: true,
+          outliers: { method: 'iqr', threshold: 1.5, removeOutliers: false, highlightOutliers: true, outlierColor: '#f00' }
+        },
+        { xField: 'month', yField: 'deposits' }
+      );
+
+      expect(rows.filter(row => row.__outlier).map(row => row.deposits)).toEqual([5000]);
+    });
+
+    it('returns the data untouched without a config', () => {
+      expect(applyDataProcessing(data, undefined, { xField: 'month', yField: 'deposits' })).toBe(data);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import {
+  DRILL_THROUGH_LEVEL,
+  buildDrillRequest,
+  columnMatchesLevel,
+  resolveDrillDown
+} from '../drillDown';
+
+describe('drill-down utils', () => {
+  describe('columnMatchesLevel', () => {
+    it('matches whole words of camel and snake case names', () => {
+      expect(columnMatchesLevel('OrderYear', 'year')).toBe(true);
+      expect(columnMatchesLevel('year_num', 'year')).toBe(true);
+      expect(columnMatchesLevel('CountryName', 'country')).toBe(true);
+      expect(columnMatchesLevel('DaysActive', 'day')).toBe(false);
+    });
+  });
+
+  describe('resolveDrillDown', () => {
+    it('builds the hierarchy below the x-axis, keeping result column names', () => {
+      const config = resolveDrillDown('OrderYear', ['OrderYear', 'OrderMonth', 'Revenue']);
+      expect(config?.levels).toEqual(['OrderYear', 'quarter', 'OrderMonth', 'week', 'day']);
+      expect(config?.maxDepth).toBe(4);
+      expect(config?.enableBreadcrumb).toBe(true);
+    });
+
+    it('returns undefined when the x-axis is not a level or is the lowest one', () => {
+      expect(resolveDrillDown('Product', ['Product', 'Revenue'])).toBeUndefined();
+      expect(resolveDrillDown('City', ['City', 'Revenue'])).toBeUndefined();
+      expect(resolveDrillDown(undefined, [])).toBeUndefined();
+    });
+  });
+
+  describe('buildDrillRequest', () => {
+    const filters = [{ field: 'Region', value: 'EMEA' }];
+
+    it('refines the question for the next level', () => {
+      const request = buildDrillRequest(undefined, {
+        baseQuestion: 'Revenue by region',
+        filters,
+        targetLevel: 'country'
+      });
+      expect(request).toEqual({
+        kind: 'question',
+        question: 'Revenue by region where Region = EMEA, broken down by country'
+      });
+    });
+
+    it('asks for the underlying records on drill-through', () => {
+      const request = buildDrillRequest(undefined, {
+        baseQuestion: 'Revenue by region',
+        filters,
+        targetLevel: DRILL_THROUGH_LEVEL
+      });
+      expect(request.kind).toBe('question');
+      expect(request.kind === 'question' && request.question).toContain('individual records');
+    });
+
+    it('binds filter values as parameters in SQL level queries', () => {
+      const request = buildDrillRequest(
+        {
+          levels: ['Region', 'Country'],
+          levelQueries: {
+            Country: "SELECT Country, SUM(Revenue) AS Revenue FROM Sales WHERE Region = '{{Region}}' GROUP BY Country"
+          },
+          enableBreadcrumb: true,
+          maxDepth: 1
+        },
+        { baseQuestion: 'Revenue by region', filters, targetLevel: 'Country' }
+      );
+      expect(request).toEqual({
+        kind: 'sql',
+        sql: 'SELECT Country, SUM(Revenue) AS Revenue FROM Sales WHERE Region = @Region GROUP BY Country',
+        parameters: { Region: 'EMEA' }
+      });
+    });
+  });
+});
@@ -0,0 +1,676 @@
+import dayjs from 'dayjs';
+import { AdvancedChartType, AdvancedVisualizationConfig, DataProcessingConfig } from '../../../types/visualization';
+
+export type ChartRenderType =
+  | 'bar' | 'line' | 'pie' | 'area' | 'scatter' | 'heatmap' | 'network' | 'treemap'
+  | 'waterfall' | 'funnel' | 'boxplot' | 'histogram' | 'radar' | 'sunburst' | 'candlestick' | 'gantt';
+
+// Types with a dedicated renderer in AdvancedChartRenderer
+export const ADVANCED_RENDER_TYPES: ChartRenderType[] = [
+  'waterfall', 'funnel', 'boxplot', 'histogram', 'radar', 'sunburst', 'candlestick', 'gantt'
+];
+
+export const ADVANCED_CHART_TYPES: AdvancedChartType[] = [
+  'Bar', 'Line', 'Pie', 'Scatter', 'Area', 'Heatmap', 'Treemap',
+  'Sunburst', 'Gauge', 'Radar', 'Waterfall', 'Funnel', 'Sankey',
+  'Candlestick', 'BoxPlot', 'Violin', 'Histogram', 'Bubble',
+  'Timeline', 'Gantt', 'Network', 'Choropleth', 'Parallel', 'Polar'
+];
+
+const RENDER_TYPE_ALIASES: Record<string, ChartRenderType> = {
+  bubble: 'scatter',
+  timeline: 'gantt'
+};
+
+export const DEFAULT_BIN_COUNT = 10;
+
+export const DEFAULT_DATA_PROCESSING: DataProcessingConfig = {
+  enableSampling: false,
+  sampleSize: 1000,
+  samplingMethod: 'systematic',
+  enableAggregation: false,
+  aggregation: { method: 'sum', groupBy: '', binCount: 0, timeInterval: 'none' },
+  enableOutlierDetection: false,
+  outliers: { method: 'iqr', threshold: 1.5, removeOutliers: false, highlightOutliers: true, outlierColor: '#f5222d' }
+};
+export const OUTLIER_FLAG = '__outlier';
+
+export interface HistogramBin {
+  label: string;
+  x0: number;
+  x1: number;
+  count: number;
+}
+
+export interface BoxPlotStats {
+  category: string;
+  count: number;
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+  mean: number;
+  outliers: number[];
+}
+
+export interface WaterfallStep {
+  name: string;
+  delta: number;
+  start: number;
+  end: number;
+  isTotal: boolean;
+}
+
+export interface FunnelStage {
+  name: string;
+  value: number;
+  fromPrevious: number;
+  fromFirst: number;
+}
+
+export interface HierarchyNode {
+  name: string;
+  value?: number;
+  children?: HierarchyNode[];
+}
+
+export interface OhlcFields {
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+}
+
+export interface Candle {
+  label: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+export interface GanttFields {
+  start: string;
+  end: string;
+}
+
+export interface ChartCandidate {
+  chartType: AdvancedChartType;
+  confidence: number;
+  reasoning: string;
+  bestFor: string;
+  xAxis: string;
+  yAxis: string;
+  groupBy?: string;
+}
+
+export interface GanttTask {
+  name: string;
+  start: Date;
+  end: Date;
+  group?: string | undefined;
+}
+
+/**
+ * Resolves any chart type spelling ('BoxPlot', 'boxplot', 'box_plot') to the
+ * AdvancedChartType union member, or undefined for unknown types.
+ */
+export const toAdvancedChartType = (type: string): AdvancedChartType | undefined => {
+  const normalized = type.replace(/[\s_-]/g, '').toLowerCase();
+  return ADVANCED_CHART_TYPES.find(candidate => candidate.toLowerCase() === normalized);
+};
+
+export const toChartRenderType = (type: string | undefined): ChartRenderType | undefined => {
+  if (!type) return undefined;
+  const normalized = type.replace(/[\s_-]/g, '').toLowerCase();
+  const alias = RENDER_TYPE_ALIASES[normalized];
+  if (alias) return alias;
+  const known: ChartRenderType[] = ['bar', 'line', 'pie', 'area', 'scatter', 'heatmap', 'network', 'treemap', ...ADVANCED_RENDER_TYPES];
+  return known.find(candidate => candidate === normalized);
+};
+
+export interface RenderConfigPatch {
+  type: ChartRenderType;
+  title?: string;
+  xAxis?: string;
+  yAxis?: string;
+  series?: string[] | undefined;
+  groupBy?: string | undefined;
+  dataProcessing?: DataProcessingConfig | undefined;
+}
+
+/**
+ * Maps the config produced by ChartConfigurationPanel/VisualizationRecommendations
+ * onto the settings Chart understands.
+ */
+export const fromAdvancedConfig = (config: AdvancedVisualizationConfig): RenderConfigPatch => ({
+  type: toChartRenderType(config.chartType) ?? 'bar',
+  ...(config.title && { title: config.title }),
+  ...(config.xAxis && { xAxis: config.xAxis }),
+  ...(config.yAxis && { yAxis: config.yAxis }),
+  series: config.series,
+  groupBy: config.config?.['groupBy'],
+  dataProcessing: config.dataProcessing
+});
+
+export const toNumber = (value: any): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const num = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(num) ? num : null;
+};
+
+const numericValues = (data: any[], field: string): number[] =>
+  data.map(row => toNumber(row?.[field])).filter((v): v is number => v !== null);
+
+/**
+ * Linear-interpolated quantile of an ascending-sorted array.
+ */
+export const quantile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return NaN;
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  const lowerValue = sorted[lower] ?? 0;
+  const upperValue = sorted[upper] ?? lowerValue;
+  return lowerValue + (upperValue - lowerValue) * (position - lower);
+};
+
+const formatBinEdge = (value: number) =>
+  Number.isInteger(value) ? String(value) : value.toFixed(Math.abs(value) < 10 ? 2 : 1);
+
+/**
+ * Splits values into `binCount` equal-width bins. The last bin is closed so
+ * the maximum lands in it.
+ */
+export const binValues = (values: number[], binCount: number = DEFAULT_BIN_COUNT): HistogramBin[] => {
+  if (values.length === 0) return [];
+  const count = Math.max(1, Math.floor(binCount));
+  let min = Infinity;
+  let max = -Infinity;
+  values.forEach(value => {
+    if (value < min) min = value;
+    if (value > max) max = value;
+  });
+
+  if (min === max) {
+    return [{ label: formatBinEdge(min), x0: min, x1: max, count: values.length }];
+  }
+
+  const width = (max - min) / count;
+  const bins: HistogramBin[] = Array.from({ length: count }, (_, index) => {
+    const x0 = min + index * width;
+    const x1 = index === count - 1 ? max : min + (index + 1) * width;
+    return { label: `${formatBinEdge(x0)}–${formatBinEdge(x1)}`, x0, x1, count: 0 };
+  });
+
+  values.forEach(value => {
+    const index = Math.min(count - 1, Math.floor((value - min) / width));
+    const bin = bins[index];
+    if (bin) bin.count += 1;
+  });
+
+  return bins;
+};
+
+export const buildHistogram = (data: any[], field: string, binCount?: number): HistogramBin[] =>
+  binValues(numericValues(data, field), binCount);
+
+/**
+ * Five-number summary per category with Tukey whiskers (1.5 × IQR); points
+ * beyond the whiskers are reported as outliers.
+ */
+export const computeBoxPlotStats = (data: any[], valueField: string, categoryField?: string): BoxPlotStats[] => {
+  const groups = new Map<string, number[]>();
+  data.forEach(row => {
+    const value = toNumber(row?.[valueField]);
+    if (value === null) return;
+    const category = categoryField ? String(row?.[categoryField] ?? '(empty)') : valueField;
+    const values = groups.get(category);
+    if (values) values.push(value); else groups.set(category, [value]);
+  });
+
+  return Array.from(groups.entries()).map(([category, values]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const q1 = quantile(sorted, 0.25);
+    const q3 = quantile(sorted, 0.75);
+    const fence = 1.5 * (q3 - q1);
+    const inside = sorted.filter(value => value >= q1 - fence && value <= q3 + fence);
+
+    return {
+      category,
+      count: sorted.length,
+      min: inside[0] ?? q1,
+      q1,
+      median: quantile(sorted, 0.5),
+      q3,
+      max: inside[inside.length - 1] ?? q3,
+      mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+      outliers: sorted.filter(value => value < q1 - fence || value > q3 + fence)
+    };
+  });
+};
+
+/**
+ * Sums `yField` per `xField` value, keeping first-seen order.
+ */
+const sumBy = (data: any[], xField: string, yField: string): { name: string; value: number }[] => {
+  const totals = new Map<string, number>();
+  data.forEach(row => {
+    const name = String(row?.[xField] ?? '(empty)');
+    totals.set(name, (totals.get(name) ?? 0) + (toNumber(row?.[yField]) ?? 0));
+  });
+  return Array.from(totals.entries()).map(([name, value]) => ({ name, value }));
+};
+
+/**
+ * Sums several fields per `xField` value, keeping first-seen order.
+ */
+export const sumFieldsBy = (data: any[], xField: string, fields: string[]): Record<string, any>[] => {
+  const rows = new Map<string, Record<string, any>>();
+  data.forEach(row => {
+    const name = String(row?.[xField] ?? '(empty)');
+    const entry = rows.get(name) ?? { [xField]: name };
+    rows.set(name, entry);
+    fields.forEach(field => {
+      entry[field] = (entry[field] ?? 0) + (toNumber(row?.[field]) ?? 0);
+    });
+  });
+  return Array.from(rows.values());
+};
+
+/**
+ * Turns per-category changes into floating bars: each step starts where the
+ * previous one ended, followed by an optional total bar.
+ */
+export const buildWaterfallSteps = (
+  data: any[],
+  xField: string,
+  yField: string,
+  showTotal = true
+): WaterfallStep[] => {
+  let running = 0;
+  const steps: WaterfallStep[] = sumBy(data, xField, yField).map(({ name, value }) => {
+    const start = running;
+    running += value;
+    return { name, delta: value, start, end: running, isTotal: false };
+  });
+
+  if (showTotal && steps.length > 0) {
+    steps.push({ name: 'Total', delta: running, start: 0, end: running, isTotal: true });
+  }
+  return steps;
+};
+
+/**
+ * Funnel stages in data order with step and overall conversion ratios.
+ */
+export const buildFunnelStages = (data: any[], xField: string, yField: string): FunnelStage[] => {
+  const stages = sumBy(data, xField, yField);
+  const first = stages[0]?.value ?? 0;
+  return stages.map((stage, index) => {
+    const previous = index === 0 ? stage.value : stages[index - 1]?.value ?? 0;
+    return {
+      ...stage,
+      fromPrevious: previous ? stage.value / previous : 0,
+      fromFirst: first ? stage.value / first : 0
+    };
+  });
+};
+
+/**
+ * Nests rows by the given path fields, summing `valueField` at the leaves.
+ */
+export const buildHierarchy = (data: any[], pathFields: string[], valueField: string, rootName = 'Total'): HierarchyNode => {
+  const root: HierarchyNode = { name: rootName, children: [] };
+  if (pathFields.length === 0) return root;
+
+  data.forEach(row => {
+    const value = toNumber(row?.[valueField]) ?? 0;
+    let node = root;
+    pathFields.forEach((field, depth) => {
+      const name = String(row?.[field] ?? '(empty)');
+      const children = node.children ?? (node.children = []);
+      let child = children.find(candidate => candidate.name === name);
+      if (!child) {
+        child = depth === pathFields.length - 1 ? { name, value: 0 } : { name, children: [] };
+        children.push(child);
+      }
+      if (depth === pathFields.length - 1) child.value = (child.value ?? 0) + value;
+      node = child;
+    });
+  });
+
+  return root;
+};
+
+const findField = (fields: string[], pattern: RegExp) => fields.find(field => pattern.test(field));
+
+export const resolveOhlcFields = (fields: string[]): OhlcFields | null => {
+  const open = findField(fields, /open/i);
+  const high = findField(fields, /high|max/i);
+  const low = findField(fields, /low|min/i);
+  const close = findField(fields, /close/i);
+  return open && high && low && close ? { open, high, low, close } : null;
+};
+
+export const toCandles = (data: any[], xField: string, fields: OhlcFields): Candle[] =>
+  data.flatMap(row => {
+    const open = toNumber(row?.[fields.open]);
+    const high = toNumber(row?.[fields.high]);
+    const low = toNumber(row?.[fields.low]);
+    const close = toNumber(row?.[fields.close]);
+    if (open === null || high === null || low === null || close === null) return [];
+    return [{ label: String(row?.[xField] ?? ''), open, high, low, close }];
+  });
+
+export const resolveGanttFields = (fields: string[]): GanttFields | null => {
+  const start = findField(fields, /start|begin|from/i);
+  const end = findField(fields, /end|finish|due|until/i);
+  return start && end && start !== end ? { start, end } : null;
+};
+
+export const toGanttTasks = (data: any[], nameField: string, fields: GanttFields, groupField?: string): GanttTask[] =>
+  data.flatMap(row => {
+    const start = dayjs(row?.[fields.start]);
+    const end = dayjs(row?.[fields.end]);
+    if (!start.isValid() || !end.isValid()) return [];
+    return [{
+      name: String(row?.[nameField] ?? ''),
+      start: start.toDate(),
+      end: (end.isBefore(start) ? start : end).toDate(),
+      group: groupField ? String(row?.[groupField] ?? '') : undefined
+    }];
+  });
+
+/**
+ * Marks rows whose `field` value is an outlier by the configured method.
+ * `iqr` uses threshold × IQR fences (default 1.5); `zscore` flags |z| above
+ * the threshold (default 3).
+ */
+export const detectOutliers = (data: any[], field: string, method = 'iqr', threshold?: number): boolean[] => {
+  const values = data.map(row => toNumber(row?.[field]));
+  const present = values.filter((v): v is number => v !== null);
+  if (present.length < 3) return values.map(() => false);
+
+  if (method === 'zscore') {
+    const limit = threshold || 3;
+    const mean = present.reduce((sum, value) => sum + value, 0) / present.length;
+    const std = Math.sqrt(present.reduce((sum, value) => sum + (value - mean) ** 2, 0) / present.length);
+    if (std === 0) return values.map(() => false);
+    return values.map(value => value !== null && Math.abs((value - mean) / std) > limit);
+  }
+
+  const sorted = [...present].sort((a, b) => a - b);
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const fence = (threshold || 1.5) * (q3 - q1);
+  return values.map(value => value !== null && (value < q1 - fence || value > q3 + fence));
+};
+
+const TIME_BUCKET_FORMATS: Record<string, { unit: dayjs.OpUnitType; format: string }> = {
+  hour: { unit: 'hour', format: 'YYYY-MM-DD HH:00' },
+  day: { unit: 'day', format: 'YYYY-MM-DD' },
+  week: { unit: 'week', format: 'YYYY-MM-DD' },
+  month: { unit: 'month', format: 'YYYY-MM' },
+  year: { unit: 'year', format: 'YYYY' }
+};
+
+const bucketLabel = (value: any, timeInterval: string): string => {
+  if (timeInterval === 'quarter') {
+    const date = dayjs(value);
+    return date.isValid() ? `${date.year()}-Q${Math.floor(date.month() / 3) + 1}` : String(value ?? '(empty)');
+  }
+  const bucket = TIME_BUCKET_FORMATS[timeInterval];
+  if (!bucket) return String(value ?? '(empty)');
+  const date = dayjs(value);
+  return date.isValid() ? date.startOf(bucket.unit).format(bucket.format) : String(value ?? '(empty)');
+};
+
+const aggregate = (method: string, values: number[]): number => {
+  if (values.length === 0) return 0;
+  switch (method) {
+    case 'avg':
+    case 'mean':
+      return values.reduce((sum, value) => sum + value, 0) / values.length;
+    case 'count':
+      return values.length;
+    case 'min':
+      return Math.min(...values);
+    case 'max':
+      return Math.max(...values);
+    case 'median':
+      return quantile([...values].sort((a, b) => a - b), 0.5);
+    default:
+      return values.reduce((sum, value) => sum + value, 0);
+  }
+};
+
+/**
+ * Groups rows by `groupBy` (bucketed by `timeInterval` for dates, or into
+ * `binCount` ranges for numeric keys) and aggregates every numeric field.
+ */
+export const aggregateRows = (
+  data: any[],
+  config: { method: string; groupBy: string; binCount?: number; timeInterval?: string }
+): any[] => {
+  const { method, groupBy, binCount, timeInterval } = config;
+  if (!groupBy || data.length === 0) return data;
+
+  const keyValues = data.map(row => row?.[groupBy]);
+  const numericKeys = keyValues.every(value => toNumber(value) !== null);
+  const bins = numericKeys && binCount && binCount > 0
+    ? binValues(keyValues.map(value => Number(value)), binCount)
+    : null;
+
+  const keyFor = (value: any): string => {
+    if (bins) {
+      const num = Number(value);
+      const bin = bins.find((candidate, index) => num >= candidate.x0 && (num < candidate.x1 || index === bins.length - 1));
+      return bin?.label ?? String(value);
+    }
+    if (timeInterval && timeInterval !== 'none') return bucketLabel(value, timeInterval);
+    return String(value ?? '(empty)');
+  };
+
+  const firstRow = data[0] ?? {};
+  const numericFields = Object.keys(firstRow).filter(field => field !== groupBy && field !== OUTLIER_FLAG && data.some(row => typeof row?.[field] === 'number'));
+  const groups = new Map<string, any[]>();
+  data.forEach(row => {
+    const key = keyFor(row?.[groupBy]);
+    const rows = groups.get(key);
+    if (rows) rows.push(row); else groups.set(key, [row]);
+  });
+
+  return Array.from(groups.entries()).map(([key, rows]) => {
+    const result: Record<string, any> = { [groupBy]: key };
+    numericFields.forEach(field => {
+      result[field] = aggregate(method, numericValues(rows, field));
+    });
+    if (rows.some(row => row?.[OUTLIER_FLAG])) result[OUTLIER_FLAG] = true;
+    return result;
+  });
+};
+
+/**
+ * Picks `size` rows: `systematic` takes every k-th row, `first` the head of
+ * the data, and `random` a uniform sample kept in original order.
+ */
+export const sampleRows = (data: any[], size: number, method = 'systematic'): any[] => {
+  if (size <= 0 || data.length <= size) return data;
+
+  if (method === 'first' || method === 'head') return data.slice(0, size);
+
+  if (method === 'random') {
+    const indices = Array.from({ length: data.length }, (_, index) => index);
+    for (let i = indices.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [indices[i], indices[j]] = [indices[j]!, indices[i]!];
+    }
+    return indices.slice(0, size).sort((a, b) => a - b).map(index => data[index]);
+  }
+
+  const step = data.length / size;
+  return Array.from({ length: size }, (_, index) => data[Math.floor(index * step)]);
+};
+
+/**
+ * Applies a chart's DataProcessingConfig before rendering: outlier detection
+ * on the raw values first (so aggregation doesn't hide them), then
+ * aggregation, then sampling. Highlighted outliers carry `__outlier: true`.
+ */
+export const applyDataProcessing = (
+  data: any[],
+  config: DataProcessingConfig | undefined,
+  fields: { xField?: string | undefined; yField?: string | undefined }
+): any[] => {
+  if (!config || data.length === 0) return data;
+  let rows = data;
+
+  if (config.enableOutlierDetection && config.outliers && fields.yField) {
+    const { method, threshold, removeOutliers, highlightOutliers } = config.outliers;
+    const flags = detectOutliers(rows, fields.yField, method, threshold);
+    if (removeOutliers) {
+      rows = rows.filter((_, index) => !flags[index]);
+    } else if (highlightOutliers) {
+      rows = rows.map((row, index) => (flags[index] ? { ...row, [OUTLIER_FLAG]: true } : row));
+    }
+  }
+
+  if (config.enableAggregation && config.aggregation) {
+    const groupBy = config.aggregation.groupBy || fields.xField;
+    if (groupBy) {
+      rows = aggregateRows(rows, { ...config.aggregation, groupBy });
+    }
+  }
+
+  if (config.enableSampling && config.sampleSize > 0) {
+    rows = sampleRows(rows, config.sampleSize, config.samplingMethod);
+  }
+
+  return rows;
+};
+
+const isDateLike = (value: any) =>
+  value instanceof Date || (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value) && dayjs(value).isValid());
+
+/**
+ * Suggests the specialised chart types the rows are shaped for (OHLC columns,
+ * start/end dates, signed changes, stage drop-off...). Complements the
+ * server-side recommendations, which only see the query text and column types.
+ */
+export const detectChartCandidates = (data: any[]): ChartCandidate[] => {
+  const first = data[0];
+  if (!first) return [];
+
+  const fields = Object.keys(first).filter(field => field !== 'id');
+  const sample = data.slice(0, 500);
+  const numeric = fields.filter(field => !isDateLike(first[field]) && sample.every(row => row?.[field] == null || toNumber(row[field]) !== null));
+  const categorical = fields.filter(field => !numeric.includes(field) && !isDateLike(first[field]));
+  const distinct = (field: string) => new Set(sample.map(row => row?.[field])).size;
+  const candidates: ChartCandidate[] = [];
+
+  const ohlc = resolveOhlcFields(numeric);
+  if (ohlc) {
+    const xAxis = fields.find(field => isDateLike(first[field])) ?? categorical[0] ?? fields[0]!;
+    candidates.push({
+      chartType: 'Candlestick',
+      confidence: 0.9,
+      reasoning: `Columns ${ohlc.open}, ${ohlc.high}, ${ohlc.low} and ${ohlc.close} form price-style OHLC data`,
+      bestFor: 'Open/high/low/close movement per period',
+      xAxis,
+      yAxis: ohlc.close
+    });
+  }
+
+  const gantt = resolveGanttFields(fields.filter(field => isDateLike(first[field])));
+  if (gantt) {
+    candidates.push({
+      chartType: 'Gantt',
+      confidence: 0.85,
+      reasoning: `${gantt.start} and ${gantt.end} describe time spans`,
+      bestFor: 'Tasks, campaigns or sessions laid out on a timeline',
+      xAxis: categorical[0] ?? fields[0]!,
+      yAxis: gantt.start
+    });
+  }
+
+  const metric = numeric[0];
+  const category = categorical.find(field => {
+    const count = distinct(field);
+    return count > 1 && count <= 20;
+  });
+
+  if (metric && data.length >= 20) {
+    candidates.push({
+      chartType: 'Histogram',
+      confidence: 0.7,
+      reasoning: `${data.length} values of ${metric} can be binned to show their distribution`,
+      bestFor: 'Spotting skew, clusters and gaps in a metric',
+      xAxis: metric,
+      yAxis: metric
+    });
+    if (category) {
+      candidates.push({
+        chartType: 'BoxPlot',
+        confidence: 0.65,
+        reasoning: `${metric} has several values per ${category}`,
+        bestFor: 'Comparing spread and outliers across categories',
+        xAxis: category,
+        yAxis: metric
+      });
+    }
+  }
+
+  if (metric && category) {
+    const values = numericValues(data, metric);
+    if (values.some(value => value < 0) && values.some(value => value > 0)) {
+      candidates.push({
+        chartType: 'Waterfall',
+        confidence: 0.7,
+        reasoning: `${metric} mixes gains and losses`,
+        bestFor: 'Showing how positive and negative changes add up',
+        xAxis: category,
+        yAxis: metric
+      });
+    }
+
+    const stages = sumFieldsBy(data, category, [metric]).map(row => row[metric] as number);
+    if (stages.length >= 3 && stages.length <= 8 && stages.every((value, index) => index === 0 || value <= (stages[index - 1] ?? value))) {
+      candidates.push({
+        chartType: 'Funnel',
+        confidence: 0.7,
+        reasoning: `${metric} shrinks at every ${category} step`,
+        bestFor: 'Conversion and drop-off between stages',
+        xAxis: category,
+        yAxis: metric
+      });
+    }
+
+    if (numeric.length >= 3 && distinct(category) <= 12) {
+      candidates.push({
+        chartType: 'Radar',
+        confidence: 0.6,
+        reasoning: `${numeric.length} metrics can be compared side by side for each ${category}`,
+        bestFor: 'Profiles across several metrics',
+        xAxis: category,
+        yAxis: metric
+      });
+    }
+
+    const inner = categorical.find(field => field !== category && distinct(field) > 1);
+    if (inner) {
+      candidates.push({
+        chartType: 'Sunburst',
+        confidence: 0.6,
+        reasoning: `${category} and ${inner} form a two-level hierarchy`,
+        bestFor: 'Part-to-whole breakdowns across two levels',
+        xAxis: category,
+        yAxis: metric,
+        groupBy: inner
+      });
+    }
+  }
+
+  return candidates.sort((a, b) => b.confidence - a.confidence);
+};
@@ -0,0 +1,147 @@
+/**
+ * Drill-down / drill-through helpers
+ *
+ * Resolves a declared hierarchy (year → quarter → month, region → country …)
+ * against the columns of a result and turns a clicked data point into the
+ * refined query for the next level or for the underlying detail rows.
+ * Level queries declared in DrillDownConfig.levelQueries are templates: SQL
+ * templates are bound through the query template engine, anything else is
+ * rendered as a natural-language question.
+ */
+
+import { DrillDownConfig } from '../../../types/visualization';
+import { DrillDownOption } from '../../../types/query';
+import {
+  TemplateValues,
+  TemplateVariableSpec,
+  bindTemplateSql,
+  getTemplateVariableNames,
+  renderTemplate
+} from '../../../utils/queryTemplateEngine';
+
+/** levelQueries key used for the drill-through (detail rows) query */
+export const DRILL_THROUGH_LEVEL = '__detail';
+
+export const DEFAULT_DRILL_HIERARCHIES: DrillDownOption[] = [
+  { name: 'Time', levels: ['year', 'quarter', 'month', 'week', 'day'], targetColumn: 'date' },
+  { name: 'Geography', levels: ['region', 'country', 'state', 'city'], targetColumn: 'country' }
+];
+
+export interface DrillFilter {
+  field: string;
+  value: string | number;
+}
+
+export type DrillRequest =
+  | { kind: 'sql'; sql: string; parameters: Record<string, string | number> }
+  | { kind: 'question'; question: string };
+
+const SQL_PATTERN = /^\s*(select|with)\b/i;
+
+const tokenize = (name: string): string[] =>
+  name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+/**
+ * Whether a column name stands for a hierarchy level, e.g. `OrderYear` and
+ * `year_num` both match `year`, while `DaysActive` does not match `day`.
+ */
+export const columnMatchesLevel = (column: string, level: string): boolean =>
+  column.toLowerCase() === level.toLowerCase() || tokenize(column).includes(level.toLowerCase());
+
+/** The column of a result that carries a level, if any */
+export const findLevelColumn = (columns: string[], level: string): string | undefined =>
+  columns.find(column => columnMatchesLevel(column, level));
+
+/**
+ * Builds a drill-down config for a chart whose x-axis is a level of one of
+ * the hierarchies. Levels below the x-axis that are not in the current
+ * result keep their canonical name; the refined query brings them in.
+ */
+export function resolveDrillDown(
+  xAxis: string | undefined,
+  columns: string[],
+  hierarchies: DrillDownOption[] = DEFAULT_DRILL_HIERARCHIES
+): DrillDownConfig | undefined {
+  if (!xAxis) return undefined;
+
+  for (const hierarchy of hierarchies) {
+    const start = hierarchy.levels.findIndex(level => columnMatchesLevel(xAxis, level));
+    if (start === -1 || start === hierarchy.levels.length - 1) continue;
+
+    const levels = hierarchy.levels
+      .slice(start)
+      .map((level, index) => (index === 0 ? xAxis : findLevelColumn(columns, level) ?? level));
+
+    return {
+      levels,
+      levelQueries: {},
+      enableBreadcrumb: true,
+      maxDepth: levels.length - 1
+    };
+  }
+
+  return undefined;
+}
+
+/** The `enableDrillDown`/`drillDown` part of an InteractionConfig */
+export function drillDownInteraction(xAxis: string | undefined, columns: string[]) {
+  const drillDown = resolveDrillDown(xAxis, columns);
+  return {
+    enableDrillDown: Boolean(drillDown),
+    ...(drillDown && { drillDown })
+  };
+}
+
+export const toDrillValue = (value: unknown): string | number =>
+  typeof value === 'number' ? value : String(value ?? '');
+
+export const describeDrillFilters = (filters: DrillFilter[]): string =>
+  filters.map(filter => `${filter.field} = ${filter.value}`).join(' and ');
+
+const filterVariables = (filters: DrillFilter[], names: string[]): TemplateVariableSpec[] =>
+  names.map(name => {
+    const filter = filters.find(candidate => candidate.field === name);
+    return {
+      name,
+      type: typeof filter?.value === 'number' ? 'number' : 'string',
+      required: true
+    };
+  });
+
+const filterValues = (filters: DrillFilter[]): TemplateValues =>
+  Object.fromEntries(filters.map(filter => [filter.field, filter.value]));
+
+/**
+ * The query behind a drill step. `targetLevel` is the next hierarchy level,
+ * or DRILL_THROUGH_LEVEL for the detail rows behind the clicked point.
+ */
+export function buildDrillRequest(
+  config: DrillDownConfig | undefined,
+  { baseQuestion, filters, targetLevel }: { baseQuestion: string; filters: DrillFilter[]; targetLevel: string }
+): DrillRequest {
+  const template = config?.levelQueries[targetLevel];
+
+  if (template) {
+    if (SQL_PATTERN.test(template)) {
+      const variables = filterVariables(filters, getTemplateVariableNames(template));
+      return { kind: 'sql', ...bindTemplateSql(template, variables, filterValues(filters)) };
+    }
+    return { kind: 'question', question: renderTemplate(template, filterValues(filters)) };
+  }
+
+  const scope = describeDrillFilters(filters);
+  if (targetLevel === DRILL_THROUGH_LEVEL) {
+    return {
+      kind: 'question',
+      question: `Show the individual records behind "${baseQuestion}" where ${scope}`
+    };
+  }
+  return {
+    kind: 'question',
+    question: `${baseQuestion} where ${scope}, broken down by ${targetLevel}`
+  };
+}
@@ -0,0 +1,181 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { ApiService } from '../services/api';
+import type { QueryResponse } from '../types/query';
+import type { DrillDownConfig } from '../types/visualization';
+import {
+  DRILL_THROUGH_LEVEL,
+  DrillFilter,
+  DrillRequest,
+  buildDrillRequest,
+  describeDrillFilters,
+  findLevelColumn,
+  toDrillValue
+} from '../components/Visualization/utils/drillDown';
+
+export interface DrillLevel {
+  level: string;
+  label: string;
+  xAxis: string;
+  data: any[];
+  columns: string[];
+  filters: DrillFilter[];
+}
+
+export interface DrillThroughResult {
+  title: string;
+  data: any[];
+  columns: string[];
+  /** SQL that produced the rows, traced to mask PII columns */
+  sql?: string | undefined;
+}
+
+interface UseDrillDownOptions {
+  config?: DrillDownConfig | undefined;
+  baseQuestion?: string | undefined;
+  data: any[];
+  columns: string[];
+  xAxis: string;
+}
+
+const DRILL_MAX_ROWS = 1000;
+
+const executeDrillRequest = async (request: DrillRequest): Promise<{ data: any[]; columns: string[]; sql?: string | undefined }> => {
+  const sessionId = `drill-${Date.now()}`;
+  const response: QueryResponse = request.kind === 'sql'
+    ? await ApiService.executeRawSQL({
+        sql: request.sql,
+        sessionId,
+        parameters: request.parameters,
+        options: { maxRows: DRILL_MAX_ROWS }
+      })
+    : await ApiService.executeQuery({
+        question: request.question,
+        sessionId,
+        options: { includeVisualization: false, maxRows: DRILL_MAX_ROWS, enableCache: true }
+      });
+
+  if (!response.success) {
+    throw new Error(response.error || 'The refined query failed');
+  }
+
+  const data = response.result?.data ?? [];
+  const metadataColumns = (response.result?.metadata?.columns ?? []).map((column: any) => column.name || column);
+  const sql = request.kind === 'sql' ? request.sql : response.sql;
+  return {
+    data,
+    columns: metadataColumns.length > 0 ? metadataColumns : Object.keys(data[0] ?? {}),
+    ...(sql && { sql })
+  };
+};
+
+/**
+ * Drill state for a chart: a stack of levels (the original result first),
+ * each produced by re-issuing a refined query through the query API, plus
+ * the detail rows of the last drill-through.
+ */
+export const useDrillDown = ({ config, baseQuestion, data, columns, xAxis }: UseDrillDownOptions) => {
+  const rootLevel = useMemo<DrillLevel>(() => ({
+    level: config?.levels[0] ?? xAxis,
+    label: 'All',
+    xAxis,
+    data,
+    columns,
+    filters: []
+  }), [config, xAxis, data, columns]);
+
+  const [drilled, setDrilled] = useState<DrillLevel[]>([]);
+  const [detail, setDetail] = useState<DrillThroughResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A new base result starts a new drill path
+  useEffect(() => {
+    setDrilled(previous => (previous.length > 0 ? [] : previous));
+    setDetail(null);
+    setError(null);
+  }, [rootLevel]);
+
+  const path = useMemo(() => [rootLevel, ...drilled], [rootLevel, drilled]);
+  const current = path[path.length - 1] ?? rootLevel;
+  const depth = path.length - 1;
+  const nextLevel = config?.levels[depth + 1];
+  const canDrillDown = Boolean(baseQuestion && nextLevel && depth < (config?.maxDepth ?? 0));
+  const canDrillThrough = Boolean(baseQuestion);
+
+  const filtersFor = useCallback(
+    (row: Record<string, any>): DrillFilter[] => [
+      ...current.filters,
+      { field: current.level, value: toDrillValue(row[current.xAxis]) }
+    ],
+    [current]
+  );
+
+  const drillDown = useCallback(async (row: Record<string, any>) => {
+    if (!canDrillDown || !nextLevel || !baseQuestion) return;
+
+    const filters = filtersFor(row);
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await executeDrillRequest(
+        buildDrillRequest(config, { baseQuestion, filters, targetLevel: nextLevel })
+      );
+      setDrilled(previous => [
+        ...previous,
+        {
+          level: nextLevel,
+          label: String(row[current.xAxis] ?? ''),
+          xAxis: findLevelColumn(result.columns, nextLevel) ?? result.columns[0] ?? nextLevel,
+          data: result.data,
+          columns: result.columns,
+          filters
+        }
+      ]);
+    } catch (drillError) {
+      setError(drillError instanceof Error ? drillError.message : String(drillError));
+    } finally {
+      setLoading(false);
+    }
+  }, [canDrillDown, nextLevel, baseQuestion, filtersFor, config, current]);
+
+  const drillThrough = useCallback(async (row: Record<string, any>) => {
+    if (!baseQuestion) return;
+
+    const filters = filtersFor(row);
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await executeDrillRequest(
+        buildDrillRequest(config, { baseQuestion, filters, targetLevel: DRILL_THROUGH_LEVEL })
+      );
+      setDetail({ title: describeDrillFilters(filters), ...result });
+    } catch (drillError) {
+      setError(drillError instanceof Error ? drillError.message : String(drillError));
+    } finally {
+      setLoading(false);
+    }
+  }, [baseQuestion, filtersFor, config]);
+
+  /** Back up to a level of the breadcrumb trail */
+  const drillUp = useCallback((index: number) => {
+    setDrilled(previous => previous.slice(0, Math.max(0, index)));
+    setError(null);
+  }, []);
+
+  const closeDetail = useCallback(() => setDetail(null), []);
+
+  return {
+    path,
+    current,
+    nextLevel,
+    canDrillDown,
+    canDrillThrough,
+    drillDown,
+    drillThrough,
+    drillUp,
+    detail,
+    closeDetail,
+    loading,
+    error
+  };
+};
@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useCrossTabSync } from '../lib/cross-tab-sync';
-import { persistenceManager, PersistenceConfig } from '../lib/enhanced-persistence';
+import { persistenceManager, persistenceConfigs, PersistenceConfig } from '../lib/enhanced-persistence';
 
 // Enhanced state hook with cross-tab sync and persistence
 export const useEnhancedState = <T>(
@@ -44,7 +44,7 @@ export const useEnhancedState = <T>(
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load persisted state');
-      if (process.env.NODE_ENV === 'development') {
+      if (process.env['NODE_ENV'] === 'development') {
         console.error('Failed to load persisted state:', err);
       }
     } finally {
@@ -94,7 +94,7 @@ export const useEnhancedState = <T>(
       await persistenceManager.saveState(value, persistence);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to save state');
-      if (process.env.NODE_ENV === 'development') {
+      if (process.env['NODE_ENV'] === 'development') {
         console.error('Failed to save persisted state:', err);
       }
     }
@@ -141,7 +141,12 @@ export const useEnhancedState = <T>(
     setState(initialValue);
     
     if (persistence) {
-      persistenceManager.removeState(persistence);
+      persistenceManager.removeState(persistence).catch(err => {
+        setError(err instanceof Error ? err.message : 'Failed to clear persisted state');
+        if (process.env['NODE_ENV'] === 'development') {
+          console.error('Failed to clear persisted state:', err);
+        }
+      });
     }
     
     if (crossTabSync) {
@@ -240,15 +245,7 @@ export const useQueryHistoryState = () => {
     'query-history',
     [] as any[],
     {
-      persistence: {
-        key: 'bi-reporting-query-history',
-        version: 1,
-        storage: 'localStorage',
-        compression: true,
-        encryption: false,
-        maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
-        maxSize: 1024 * 1024 // 1MB
-      },
+      persistence: persistenceConfigs.queryHistory,
       crossTabSync: true,
       debounceMs: 1000,
       onConflict: (local, remote) => {
@@ -0,0 +1,150 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ApiService } from '../services/api';
+import { useAuthStore } from '../stores/authStore';
+import { useBusinessTables } from './useTuningApi';
+import type { MaskingStrategy } from '../types/query';
+import {
+  DEFAULT_MASKING_POLICIES,
+  hashValues,
+  maskRecords as maskRecordsWith,
+  maskRecordsHashed as maskRecordsHashedWith,
+  maskValue as maskValueWith,
+  resolveMaskingPolicy,
+  resolvePiiColumns,
+  MaskingPolicy,
+  PiiColumn
+} from '../utils/security/PiiMasking';
+
+interface UsePiiMaskingOptions {
+  sql?: string;
+  // Recorded with reveals, e.g. 'query-results'
+  context?: string;
+  policies?: MaskingPolicy[];
+}
+
+export interface PiiMasking {
+  piiColumns: PiiColumn[];
+  // PII columns that are still masked
+  maskedColumns: string[];
+  strategy: MaskingStrategy;
+  canReveal: boolean;
+  isRevealing: boolean;
+  isMasked: (column: string) => boolean;
+  maskValue: (column: string, value: unknown) => unknown;
+  maskRecords: <T extends Record<string, any>>(rows: T[]) => T[];
+  // Waits for hashes instead of masking those values in full; for exports
+  maskRecordsHashed: <T extends Record<string, any>>(rows: T[]) => Promise<T[]>;
+  // Writes the audit event first; the columns stay masked if that fails
+  reveal: (columns: string[], reason: string) => Promise<void>;
+}
+
+/**
+ * Masks the PII columns of a result for the current user's role. Revealing
+ * needs a role whose policy allows it and is audited on the server.
+ */
+export const usePiiMasking = (columns: string[], options: UsePiiMaskingOptions = {}): PiiMasking => {
+  const { sql, context, policies = DEFAULT_MASKING_POLICIES } = options;
+  const roles = useAuthStore(state => state.user?.roles);
+  const { data: tables } = useBusinessTables();
+  const [revealed, setRevealed] = useState<string[]>([]);
+  const [isRevealing, setIsRevealing] = useState(false);
+  const [hashes, setHashes] = useState<ReadonlyMap<string, string>>(() => new Map());
+  const pendingHashes = useRef(new Set<string>());
+  const hashBatch = useRef<string[]>([]);
+
+  // A reveal covers the query it was audited for
+  useEffect(() => setRevealed([]), [sql]);
+
+  const { strategy, canReveal } = useMemo(
+    () => resolveMaskingPolicy(roles ?? [], policies),
+    [roles, policies]
+  );
+
+  const columnKey = columns.join('\u0000');
+  const piiColumns = useMemo(
+    () => resolvePiiColumns(columns, tables ?? [], sql),
+    // columns is usually rebuilt on every render; its contents are what matter
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [columnKey, tables, sql]
+  );
+
+  const strategies = useMemo(() => {
+    const result: Record<string, MaskingStrategy> = {};
+    piiColumns.forEach(({ column }) => {
+      if (!revealed.includes(column)) result[column] = strategy;
+    });
+    return result;
+  }, [piiColumns, revealed, strategy]);
+
+  const isMasked = useCallback((column: string) => column in strategies, [strategies]);
+
+  // HMACs are computed asynchronously, batched per render; values are masked
+  // in full until theirs arrives and the maskers below change
+  const hashOf = useCallback((text: string) => {
+    const hash = hashes.get(text);
+    if (hash === undefined && !pendingHashes.current.has(text)) {
+      pendingHashes.current.add(text);
+      hashBatch.current.push(text);
+      if (hashBatch.current.length === 1) {
+        queueMicrotask(() => {
+          const batch = hashBatch.current;
+          hashBatch.current = [];
+          // A failed batch isn't retried; those values stay fully masked
+          hashValues(batch)
+            .then(computed => setHashes(current => new Map([...Array.from(current), ...Array.from(computed)])))
+            .catch(error => console.warn('Could not hash masked values:', error));
+        });
+      }
+    }
+    return hash;
+  }, [hashes]);
+
+  const maskValue = useCallback(
+    (column: string, value: unknown) => maskValueWith(value, strategies[column] ?? 'none', hashOf),
+    [strategies, hashOf]
+  );
+
+  const maskRecords = useCallback(
+    <T extends Record<string, any>>(rows: T[]) => maskRecordsWith(rows, strategies, hashOf),
+    [strategies, hashOf]
+  );
+
+  const maskRecordsHashed = useCallback(
+    <T extends Record<string, any>>(rows: T[]) => maskRecordsHashedWith(rows, strategies),
+    [strategies]
+  );
+
+  const reveal = useCallback(async (requested: string[], reason: string) => {
+    if (!canReveal) throw new Error('Your role is not allowed to reveal personal data');
+
+    const toReveal = piiColumns.filter(pii => requested.includes(pii.column));
+    if (toReveal.length === 0) return;
+
+    setIsRevealing(true);
+    try {
+      await ApiService.recordPiiReveal({
+        columns: toReveal,
+        reason,
+        maskingStrategy: strategy,
+        ...(sql && { sql }),
+        ...(context && { context })
+      });
+      setRevealed(current => Array.from(new Set([...current, ...toReveal.map(pii => pii.column)])));
+    } finally {
+      setIsRevealing(false);
+    }
+  }, [canReveal, piiColumns, strategy, sql, context]);
+
+  return {
+    piiColumns,
+    maskedColumns: Object.keys(strategies),
+    strategy,
+    canReveal,
+    isRevealing,
+    isMasked,
+    maskValue,
+    maskRecords,
+    maskRecordsHashed,
+    reveal
+  };
+};
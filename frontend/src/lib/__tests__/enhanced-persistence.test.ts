@@ -0,0 +1,92 @@
+/**
+ * Enhanced Persistence Tests
+ */
+
+import 'fake-indexeddb/auto';
+import { IndexedDBStorage } from '../indexeddb-storage';
+import { persistenceManager, persistenceConfigs, PersistenceConfig } from '../enhanced-persistence';
+
+// Encryption is covered in persistence-crypto.test.ts
+const queryHistory: PersistenceConfig = { ...persistenceConfigs.queryHistory, encryption: false };
+const queryResults: PersistenceConfig = { ...persistenceConfigs.queryResults, encryption: false };
+
+const history = [
+  { id: 'q2', query: 'Revenue by region', timestamp: '2024-01-02T00:00:00Z' },
+  { id: 'q1', query: 'Top customers', timestamp: '2024-01-01T00:00:00Z' }
+];
+
+describe('EnhancedPersistenceManager', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('round-trips state through IndexedDB', async () => {
+    await persistenceManager.saveState(history, queryResults);
+
+    expect(await persistenceManager.loadState(queryResults)).toEqual(history);
+    expect(localStorage.getItem(queryResults.key)).toBeNull();
+
+    await persistenceManager.removeState(queryResults);
+    expect(await persistenceManager.loadState(queryResults)).toBeNull();
+  });
+
+  it('moves state written to localStorage into IndexedDB on first load', async () => {
+    const config = queryHistory;
+    await persistenceManager.saveState(history, { ...config, storage: 'localStorage' });
+    const legacy = localStorage.getItem(config.key);
+    expect(legacy).not.toBeNull();
+
+    expect(await persistenceManager.loadState(config)).toEqual(history);
+    expect(localStorage.getItem(config.key)).toBeNull();
+    expect(await IndexedDBStorage.getInstance().getItem(config.key)).toBe(legacy);
+
+    // Later loads come straight from IndexedDB
+    expect(await persistenceManager.loadState(config)).toEqual(history);
+  });
+
+  it('runs registered migrations for older versions and saves the upgraded state', async () => {
+    const config: PersistenceConfig = { ...queryHistory, key: 'bi-reporting-migration-test', version: 8 };
+    await persistenceManager.saveState(['Revenue by region'], { ...config, version: 7 });
+    persistenceManager.registerMigration(7, (queries: string[]) => queries.map(query => ({ query })));
+
+    expect(await persistenceManager.loadState(config)).toEqual([{ query: 'Revenue by region' }]);
+    const stored = JSON.parse((await IndexedDBStorage.getInstance().getItem(config.key))!);
+    expect(stored.version).toBe(8);
+  });
+
+  it('discards expired state', async () => {
+    const config: PersistenceConfig = { ...persistenceConfigs.userPreferences, maxAge: 1_000 };
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    await persistenceManager.saveState({ theme: 'dark' }, config);
+
+    now.mockReturnValue(1_002_000);
+    expect(await persistenceManager.loadState(config)).toBeNull();
+    expect(localStorage.getItem(config.key)).toBeNull();
+    now.mockRestore();
+  });
+
+  it('rejects state larger than the configured maximum', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const config: PersistenceConfig = { ...persistenceConfigs.userPreferences, maxSize: 10 };
+
+    await expect(persistenceManager.saveState({ theme: 'dark' }, config)).rejects.toThrow('exceeds maximum');
+  });
+
+  it('applies the size limit to the record written to IndexedDB', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    // Room for the data itself, but not for the versioned, checksummed record around it
+    const config: PersistenceConfig = { ...queryResults, maxSize: JSON.stringify(history).length * 2 + 20 };
+
+    await expect(persistenceManager.saveState(history, config)).rejects.toThrow('exceeds maximum');
+    expect(await IndexedDBStorage.getInstance().getItem(config.key)).toBeNull();
+  });
+});
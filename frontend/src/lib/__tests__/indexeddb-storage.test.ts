@@ -0,0 +1,55 @@
+/**
+ * IndexedDB Storage Tests
+ */
+
+import 'fake-indexeddb/auto';
+import { openDB } from 'idb';
+import { IndexedDBStorage } from '../indexeddb-storage';
+
+const storage = IndexedDBStorage.getInstance();
+
+describe('IndexedDBStorage', () => {
+  it('stores, reads and removes values by key', async () => {
+    expect(await storage.getItem('bi-reporting-missing')).toBeNull();
+
+    await storage.setItem('bi-reporting-a', 'first');
+    await storage.setItem('bi-reporting-b', 'second');
+    await storage.setItem('bi-reporting-a', 'updated');
+
+    expect(await storage.getItem('bi-reporting-a')).toBe('updated');
+    expect(await storage.getItem('bi-reporting-b')).toBe('second');
+
+    await storage.removeItem('bi-reporting-a');
+    expect(await storage.getItem('bi-reporting-a')).toBeNull();
+    expect(await storage.getItem('bi-reporting-b')).toBe('second');
+  });
+
+  it('keeps every key in one object store without upgrading the schema', async () => {
+    await Promise.all(['x', 'y', 'z'].map(name => storage.setItem(`bi-reporting-${name}`, name)));
+
+    expect(await Promise.all(['x', 'y', 'z'].map(name => storage.getItem(`bi-reporting-${name}`)))).toEqual(['x', 'y', 'z']);
+    const db = await openDB('BIReportingPersistence');
+    expect(db.version).toBe(1);
+    expect(Array.from(db.objectStoreNames)).toEqual(['states']);
+    db.close();
+  });
+
+  it('deletes only records older than the cutoff within the prefix', async () => {
+    const now = Date.now();
+    await storage.setItem('bi-reporting-old', 'stale', now - 10_000);
+    await storage.setItem('bi-reporting-new', 'fresh', now);
+    await storage.setItem('other-old', 'kept', now - 10_000);
+
+    expect(await storage.deleteOlderThan(now - 5_000, 'bi-reporting-')).toBe(1);
+    expect(await storage.getItem('bi-reporting-old')).toBeNull();
+    expect(await storage.getItem('bi-reporting-new')).toBe('fresh');
+    expect(await storage.getItem('other-old')).toBe('kept');
+  });
+
+  it('reports the stored size when the quota estimate is unavailable', async () => {
+    const stats = await storage.getStats();
+
+    expect(stats.records).toBeGreaterThan(0);
+    expect(stats.used).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Persistence Encryption Tests
+ */
+
+import 'fake-indexeddb/auto';
+import { webcrypto } from 'crypto';
+import { PersistenceCrypto, PersistenceDecryptionError } from '../persistence-crypto';
+import { IndexedDBStorage } from '../indexeddb-storage';
+import { persistenceManager, persistenceConfigs, PersistenceConfig } from '../enhanced-persistence';
+
+// jsdom has no SubtleCrypto (and setupTests stubs it), so run against Node's implementation
+if (globalThis.crypto) {
+  Object.assign(globalThis.crypto, {
+    subtle: webcrypto.subtle,
+    getRandomValues: <T extends ArrayBufferView | null>(array: T) => webcrypto.getRandomValues(array as any) as T
+  });
+} else {
+  Object.defineProperty(globalThis, 'crypto', { value: webcrypto });
+}
+
+const persistenceCrypto = PersistenceCrypto.getInstance();
+
+// What authStore persists after a login
+const signIn = (sessionId: string, userId = 'user-1') =>
+  localStorage.setItem('auth-storage', JSON.stringify({ state: { isAuthenticated: true, user: { id: userId }, sessionId }, version: 0 }));
+
+const signOut = () => localStorage.removeItem('auth-storage');
+
+const config: PersistenceConfig = {
+  key: 'bi-reporting-encrypted-test',
+  version: 1,
+  storage: 'localStorage',
+  compression: false,
+  encryption: true,
+  maxAge: 60 * 60 * 1000,
+  maxSize: 100 * 1024
+};
+
+// What the retired XOR scheme wrote
+const xorEncrypt = (data: string, key: string): string => {
+  let result = '';
+  for (let i = 0; i < data.length; i++) {
+    result += String.fromCharCode(data.charCodeAt(i) ^ key.charCodeAt(i % key.length));
+  }
+  return btoa(result);
+};
+
+describe('PersistenceCrypto', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+    persistenceCrypto.rotateKey();
+    signIn('a1b2c3d4e5f6');
+  });
+
+  it('round-trips values and binds them to their persistence key', async () => {
+    const envelope = await persistenceCrypto.encrypt('{"secret":true}', 'bi-reporting-a');
+
+    expect(PersistenceCrypto.isEncrypted(envelope)).toBe(true);
+    expect(envelope).not.toContain('secret');
+    expect(await persistenceCrypto.decrypt(envelope, 'bi-reporting-a')).toBe('{"secret":true}');
+    await expect(persistenceCrypto.decrypt(envelope, 'bi-reporting-b')).rejects.toBeInstanceOf(PersistenceDecryptionError);
+  });
+
+  it('derives keys from the login session rather than storing them', async () => {
+    const envelope = await persistenceCrypto.encrypt('history', 'bi-reporting-a');
+
+    // Same session after a reload, or from another tab: nothing cached, still readable
+    persistenceCrypto.rotateKey();
+    sessionStorage.clear();
+    expect(await persistenceCrypto.decrypt(envelope, 'bi-reporting-a')).toBe('history');
+
+    signIn('f6e5d4c3b2a1');
+    await expect(persistenceCrypto.decrypt(envelope, 'bi-reporting-a')).rejects.toBeInstanceOf(PersistenceDecryptionError);
+
+    signIn('a1b2c3d4e5f6', 'user-2');
+    await expect(persistenceCrypto.decrypt(envelope, 'bi-reporting-a')).rejects.toBeInstanceOf(PersistenceDecryptionError);
+  });
+
+  it('refuses to encrypt without a signed-in session', async () => {
+    signOut();
+
+    await expect(persistenceCrypto.encrypt('history', 'bi-reporting-a')).rejects.toThrow('No active session');
+  });
+
+  it('persists encrypted state and discards it once the session has changed', async () => {
+    await persistenceManager.saveState({ theme: 'dark' }, config);
+
+    expect(PersistenceCrypto.isEncrypted(localStorage.getItem(config.key)!)).toBe(true);
+    expect(await persistenceManager.loadState(config)).toEqual({ theme: 'dark' });
+
+    signIn('f6e5d4c3b2a1');
+    expect(await persistenceManager.loadState(config)).toBeNull();
+    expect(localStorage.getItem(config.key)).toBeNull();
+  });
+
+  it('keeps encrypted state when no session is available to read it', async () => {
+    await persistenceManager.saveState({ theme: 'dark' }, config);
+    signOut();
+
+    expect(await persistenceManager.loadState(config)).toBeNull();
+    expect(localStorage.getItem(config.key)).not.toBeNull();
+  });
+
+  it('migrates XOR blobs through the registered migration and re-encrypts them', async () => {
+    const legacyState = { data: ['Revenue by region'], timestamp: Date.now(), version: 1 };
+    localStorage.setItem(config.key, xorEncrypt(JSON.stringify(legacyState), config.key));
+
+    expect(await persistenceManager.loadState(config)).toEqual(['Revenue by region']);
+
+    const stored = localStorage.getItem(config.key)!;
+    expect(PersistenceCrypto.isEncrypted(stored)).toBe(true);
+    expect(JSON.parse(await persistenceCrypto.decrypt(stored, config.key)).data).toEqual(['Revenue by region']);
+  });
+
+  it('encrypts query history and results by default', async () => {
+    expect(persistenceConfigs.queryHistory.encryption).toBe(true);
+    expect(persistenceConfigs.queryResults.encryption).toBe(true);
+
+    await persistenceManager.saveState(['Revenue by region'], persistenceConfigs.queryHistory);
+
+    const stored = await IndexedDBStorage.getInstance().getItem(persistenceConfigs.queryHistory.key);
+    expect(PersistenceCrypto.isEncrypted(stored!)).toBe(true);
+    expect(await persistenceManager.loadState(persistenceConfigs.queryHistory)).toEqual(['Revenue by region']);
+  });
+
+  it('encrypts plain state saved before encryption was turned on', async () => {
+    await persistenceManager.saveState({ theme: 'dark' }, { ...config, encryption: false });
+
+    expect(await persistenceManager.loadState(config)).toEqual({ theme: 'dark' });
+    expect(PersistenceCrypto.isEncrypted(localStorage.getItem(config.key)!)).toBe(true);
+  });
+});
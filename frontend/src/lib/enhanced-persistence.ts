@@ -1,5 +1,7 @@
 // Enhanced state persistence with versioning and migration
 import { queryClient } from './react-query';
+import { IndexedDBStorage, IndexedDBStorageStats, StorageQuotaError } from './indexeddb-storage';
+import { PersistenceCrypto, PersistenceDecryptionError, persistenceCrypto } from './persistence-crypto';
 
 // Types for persistence system
 export interface PersistenceConfig {
@@ -20,9 +22,38 @@ export interface PersistedState {
 }
 
 export interface MigrationFunction {
-  (oldData: any, oldVersion: number): any;
+  (oldData: any, oldVersion: number, key: string): any;
 }
 
+// Blobs from the retired XOR scheme sit below every config version, so the
+// migration registered here turns them back into a PersistedState first
+export const LEGACY_XOR_VERSION = -1;
+
+// Decode state written by the retired XOR scheme (read-only, for migration)
+const legacyXorDecrypt = (encryptedData: string, key: string): string => {
+  const data = atob(encryptedData);
+  let result = '';
+  for (let i = 0; i < data.length; i++) {
+    result += String.fromCharCode(data.charCodeAt(i) ^ key.charCodeAt(i % key.length));
+  }
+  return result;
+};
+
+type StorageType = PersistenceConfig['storage'];
+
+// Async storage interface shared by Web Storage and IndexedDB backends
+interface StorageAdapter {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+const createWebStorageAdapter = (storage: Storage): StorageAdapter => ({
+  getItem: async (key) => storage.getItem(key),
+  setItem: async (key, value) => storage.setItem(key, value),
+  removeItem: async (key) => storage.removeItem(key)
+});
+
 // Enhanced persistence manager
 export class EnhancedPersistenceManager {
   private static instance: EnhancedPersistenceManager;
@@ -31,6 +62,7 @@ export class EnhancedPersistenceManager {
 
   private constructor() {
     this.migrations = new Map();
+    this.registerMigration(LEGACY_XOR_VERSION, (blob: string, _version, key) => JSON.parse(legacyXorDecrypt(blob, key)));
     this.setupCompressionWorker();
   }
 
@@ -141,54 +173,71 @@ export class EnhancedPersistenceManager {
   }
 
   // Get storage interface based on config
-  private getStorage(storageType: 'localStorage' | 'sessionStorage' | 'indexedDB'): Storage {
-    switch (storageType) {
-      case 'localStorage':
-        return localStorage;
-      case 'sessionStorage':
-        return sessionStorage;
-      case 'indexedDB':
-        // For now, fallback to localStorage for IndexedDB
-        // In production, implement proper IndexedDB wrapper
-        console.warn('IndexedDB not implemented, falling back to localStorage');
-        return localStorage;
-      default:
-        return localStorage;
+  private getStorage(storageType: 'localStorage' | 'sessionStorage'): Storage {
+    return storageType === 'sessionStorage' ? sessionStorage : localStorage;
+  }
+
+  // Get async storage adapter based on config
+  private getStorageAdapter(storageType: StorageType): StorageAdapter {
+    if (storageType === 'indexedDB') {
+      if (IndexedDBStorage.isSupported()) {
+        const idb = IndexedDBStorage.getInstance();
+        return {
+          getItem: (key) => idb.getItem(key),
+          setItem: (key, value) => idb.setItem(key, value),
+          removeItem: (key) => idb.removeItem(key)
+        };
+      }
+      console.warn('IndexedDB not available, falling back to localStorage');
+      return createWebStorageAdapter(localStorage);
     }
+
+    return createWebStorageAdapter(this.getStorage(storageType));
   }
 
   // Save state with all enhancements
   async saveState(data: any, config: PersistenceConfig): Promise<void> {
     try {
-      // Check data size before processing
-      const estimatedSize = JSON.stringify(data).length * 2; // Rough estimate
-      if (estimatedSize > config.maxSize) {
-        throw new Error(`Data size (${estimatedSize}) exceeds maximum (${config.maxSize})`);
-      }
-
       // Compress data if enabled
       const compressedData = await this.compressData(data, config.compression);
       
-      // Calculate checksum for integrity
-      const checksum = this.calculateChecksum(compressedData);
-
       // Create persisted state object
       const persistedState: PersistedState = {
         data: config.compression ? compressedData : data,
         timestamp: Date.now(),
-        version: config.version,
-        checksum: config.encryption ? undefined : checksum // Skip checksum if encrypting
+        version: config.version
       };
 
-      // Encrypt if enabled (simple XOR for demo - use proper encryption in production)
-      let finalData = JSON.stringify(persistedState);
+      // Encrypted states rely on the AES-GCM tag for integrity; plain states get a checksum
+      let finalData: string;
       if (config.encryption) {
-        finalData = this.simpleEncrypt(finalData, config.key);
+        if (!PersistenceCrypto.isSupported()) {
+          throw new Error('Web Crypto API not available, refusing to persist encrypted state');
+        }
+        finalData = await persistenceCrypto.encrypt(JSON.stringify(persistedState), config.key);
+      } else {
+        persistedState.checksum = this.calculateChecksum(compressedData);
+        finalData = JSON.stringify(persistedState);
+      }
+
+      // The limit applies to what is stored, after compression and encryption
+      const storedSize = finalData.length * 2; // UTF-16 encoding
+      if (storedSize > config.maxSize) {
+        throw new Error(`Data size (${storedSize}) exceeds maximum (${config.maxSize})`);
       }
 
       // Save to storage
-      const storage = this.getStorage(config.storage);
-      storage.setItem(config.key, finalData);
+      const storage = this.getStorageAdapter(config.storage);
+      try {
+        await storage.setItem(config.key, finalData);
+      } catch (error) {
+        if (!(error instanceof StorageQuotaError)) throw error;
+
+        // Free space held by expired states and retry once before giving up
+        const cleaned = await this.cleanupExpiredStates(config.storage, config.maxAge);
+        if (cleaned === 0) throw error;
+        await storage.setItem(config.key, finalData);
+      }
 
       console.log(`State saved to ${config.storage} with key: ${config.key}`);
     } catch (error) {
@@ -200,31 +249,54 @@ export class EnhancedPersistenceManager {
   // Load state with migration support
   async loadState(config: PersistenceConfig): Promise<any | null> {
     try {
-      const storage = this.getStorage(config.storage);
-      const rawData = storage.getItem(config.key);
+      const storage = this.getStorageAdapter(config.storage);
+      let rawData = await storage.getItem(config.key);
+
+      // Pick up state written to localStorage before this config moved to IndexedDB
+      if (!rawData && config.storage === 'indexedDB' && IndexedDBStorage.isSupported()) {
+        rawData = await this.migrateFromLocalStorage(config.key);
+      }
       
       if (!rawData) {
         return null;
       }
 
       // Decrypt if needed
-      let decryptedData = rawData;
-      if (config.encryption) {
-        decryptedData = this.simpleDecrypt(rawData, config.key);
+      let persistedState: PersistedState;
+      const isUnencrypted = config.encryption && !PersistenceCrypto.isEncrypted(rawData);
+      // Plain state saved before this config turned encryption on - read once, then encrypted below
+      const isPlainState = isUnencrypted && this.isPlainPersistedState(rawData);
+      const isLegacyEncryption = isUnencrypted && !isPlainState;
+      if (isLegacyEncryption) {
+        // Blob written by the previous XOR scheme - read once, then re-encrypted below
+        persistedState = await this.migrateData(rawData, LEGACY_XOR_VERSION, LEGACY_XOR_VERSION + 1, config.key);
+        if (typeof persistedState !== 'object' || persistedState === null) {
+          throw new Error(`No migration registered for legacy encrypted state in ${config.key}`);
+        }
+      } else if (config.encryption && !isPlainState) {
+        try {
+          persistedState = JSON.parse(await persistenceCrypto.decrypt(rawData, config.key));
+        } catch (error) {
+          if (!(error instanceof PersistenceDecryptionError)) throw error;
+          // Tampered, or written under a session key that has since been rotated
+          console.warn(`Discarding unreadable encrypted state for ${config.key}`);
+          await this.removeState(config);
+          return null;
+        }
+      } else {
+        persistedState = JSON.parse(rawData);
       }
 
-      const persistedState: PersistedState = JSON.parse(decryptedData);
-
       // Check age
       const age = Date.now() - persistedState.timestamp;
       if (age > config.maxAge) {
         console.warn(`Persisted state expired (age: ${age}ms, max: ${config.maxAge}ms)`);
-        this.removeState(config);
+        await this.removeState(config);
         return null;
       }
 
       // Verify checksum if available
-      if (persistedState.checksum && !config.encryption) {
+      if (persistedState.checksum && (!config.encryption || isPlainState)) {
         const dataString = typeof persistedState.data === 'string' 
           ? persistedState.data 
           : JSON.stringify(persistedState.data);
@@ -232,7 +304,7 @@ export class EnhancedPersistenceManager {
         
         if (calculatedChecksum !== persistedState.checksum) {
           console.warn('Checksum mismatch, data may be corrupted');
-          this.removeState(config);
+          await this.removeState(config);
           return null;
         }
       }
@@ -244,8 +316,14 @@ export class EnhancedPersistenceManager {
       }
 
       // Handle version migration
-      if (persistedState.version < config.version) {
-        data = await this.migrateData(data, persistedState.version, config.version);
+      const needsMigration = persistedState.version < config.version;
+      if (needsMigration) {
+        data = await this.migrateData(data, persistedState.version, config.version, config.key);
+      }
+
+      // Persist upgraded state so unencrypted blobs and old versions are only migrated once
+      if (needsMigration || isUnencrypted) {
+        await this.saveState(data, config);
       }
 
       return data;
@@ -255,8 +333,18 @@ export class EnhancedPersistenceManager {
     }
   }
 
+  // Whether a raw value is an unencrypted PersistedState rather than a legacy XOR blob
+  private isPlainPersistedState(rawData: string): boolean {
+    try {
+      const parsed = JSON.parse(rawData);
+      return typeof parsed === 'object' && parsed !== null && typeof parsed.timestamp === 'number';
+    } catch {
+      return false;
+    }
+  }
+
   // Migrate data through version chain
-  private async migrateData(data: any, fromVersion: number, toVersion: number): Promise<any> {
+  private async migrateData(data: any, fromVersion: number, toVersion: number, key: string): Promise<any> {
     let currentData = data;
     let currentVersion = fromVersion;
 
@@ -264,7 +352,7 @@ export class EnhancedPersistenceManager {
       const migration = this.migrations.get(currentVersion);
       if (migration) {
         console.log(`Migrating data from version ${currentVersion} to ${currentVersion + 1}`);
-        currentData = await migration(currentData, currentVersion);
+        currentData = await migration(currentData, currentVersion, key);
         currentVersion++;
       } else {
         console.warn(`No migration found for version ${currentVersion}, skipping to ${toVersion}`);
@@ -275,29 +363,28 @@ export class EnhancedPersistenceManager {
     return currentData;
   }
 
-  // Simple encryption (XOR) - use proper encryption in production
-  private simpleEncrypt(data: string, key: string): string {
-    let result = '';
-    for (let i = 0; i < data.length; i++) {
-      result += String.fromCharCode(data.charCodeAt(i) ^ key.charCodeAt(i % key.length));
+  // Move a legacy localStorage entry into IndexedDB
+  private async migrateFromLocalStorage(key: string): Promise<string | null> {
+    const legacyData = localStorage.getItem(key);
+    if (!legacyData) {
+      return null;
     }
-    return btoa(result);
-  }
 
-  // Simple decryption (XOR)
-  private simpleDecrypt(encryptedData: string, key: string): string {
-    const data = atob(encryptedData);
-    let result = '';
-    for (let i = 0; i < data.length; i++) {
-      result += String.fromCharCode(data.charCodeAt(i) ^ key.charCodeAt(i % key.length));
+    try {
+      await IndexedDBStorage.getInstance().setItem(key, legacyData);
+      localStorage.removeItem(key);
+      console.log(`Migrated ${key} from localStorage to IndexedDB`);
+    } catch (error) {
+      console.warn(`Failed to migrate ${key} to IndexedDB:`, error);
     }
-    return result;
+
+    return legacyData;
   }
 
   // Remove state from storage
-  removeState(config: PersistenceConfig): void {
-    const storage = this.getStorage(config.storage);
-    storage.removeItem(config.key);
+  async removeState(config: PersistenceConfig): Promise<void> {
+    const storage = this.getStorageAdapter(config.storage);
+    await storage.removeItem(config.key);
   }
 
   // Get storage usage statistics
@@ -322,8 +409,23 @@ export class EnhancedPersistenceManager {
     };
   }
 
+  // Get IndexedDB usage statistics (origin-wide quota when the browser reports it)
+  async getIndexedDBStats(): Promise<IndexedDBStorageStats | null> {
+    if (!IndexedDBStorage.isSupported()) {
+      return null;
+    }
+    return IndexedDBStorage.getInstance().getStats();
+  }
+
   // Clean up expired states
-  cleanupExpiredStates(storageType: 'localStorage' | 'sessionStorage', maxAge: number): number {
+  async cleanupExpiredStates(storageType: StorageType, maxAge: number): Promise<number> {
+    if (storageType === 'indexedDB') {
+      if (!IndexedDBStorage.isSupported()) {
+        return this.cleanupExpiredStates('localStorage', maxAge);
+      }
+      return IndexedDBStorage.getInstance().deleteOlderThan(Date.now() - maxAge, 'bi-reporting-');
+    }
+
     const storage = this.getStorage(storageType);
     const now = Date.now();
     let cleaned = 0;
@@ -333,7 +435,8 @@ export class EnhancedPersistenceManager {
       if (key && key.startsWith('bi-reporting-')) {
         try {
           const rawData = storage.getItem(key);
-          if (rawData) {
+          // Encrypted states carry their timestamp inside the envelope and expire on load
+          if (rawData && !PersistenceCrypto.isEncrypted(rawData)) {
             const persistedState: PersistedState = JSON.parse(rawData);
             if (now - persistedState.timestamp > maxAge) {
               storage.removeItem(key);
@@ -360,11 +463,20 @@ export const persistenceConfigs = {
   queryHistory: {
     key: 'bi-reporting-query-history',
     version: 1,
-    storage: 'localStorage' as const,
+    storage: 'indexedDB' as const,
     compression: true,
-    encryption: false,
+    encryption: true,
     maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
-    maxSize: 1024 * 1024 // 1MB
+    maxSize: 50 * 1024 * 1024 // 50MB
+  },
+  queryResults: {
+    key: 'bi-reporting-query-results',
+    version: 1,
+    storage: 'indexedDB' as const,
+    compression: true,
+    encryption: true,
+    maxAge: 24 * 60 * 60 * 1000, // 24 hours
+    maxSize: 200 * 1024 * 1024 // 200MB
   },
   userPreferences: {
     key: 'bi-reporting-user-preferences',
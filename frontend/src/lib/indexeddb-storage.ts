@@ -0,0 +1,165 @@
+// IndexedDB storage backend for enhanced persistence
+import { openDB, IDBPDatabase } from 'idb';
+
+// Types for IndexedDB persistence
+export interface StoredRecord {
+  key: string;
+  value: string;
+  timestamp: number;
+  size: number;
+}
+
+export interface IndexedDBStorageStats {
+  used: number;
+  available: number;
+  records: number;
+}
+
+// Raised when a write would not fit in the origin's storage quota
+export class StorageQuotaError extends Error {
+  constructor(
+    message: string,
+    public requiredBytes: number,
+    public availableBytes?: number
+  ) {
+    super(message);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+const DB_NAME = 'BIReportingPersistence';
+const DB_VERSION = 1;
+const STORE_NAME = 'states';
+const TIMESTAMP_INDEX = 'timestamp';
+
+const isQuotaExceeded = (error: unknown): boolean =>
+  error instanceof DOMException &&
+  (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// IndexedDB storage with one record per persistence key in a single object store
+export class IndexedDBStorage {
+  private static instance: IndexedDBStorage;
+  private dbPromise: Promise<IDBPDatabase> | null = null;
+  private persistRequested = false;
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  static getInstance(): IndexedDBStorage {
+    if (!IndexedDBStorage.instance) {
+      IndexedDBStorage.instance = new IndexedDBStorage();
+    }
+    return IndexedDBStorage.instance;
+  }
+
+  private getDB(): Promise<IDBPDatabase> {
+    if (!this.dbPromise) {
+      const promise = openDB(DB_NAME, DB_VERSION, {
+        upgrade(db) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+          store.createIndex(TIMESTAMP_INDEX, 'timestamp', { unique: false });
+        },
+        blocking: () => {
+          // Another tab needs to upgrade the schema - release our connection
+          promise.then(db => db.close()).catch(() => undefined);
+          this.dbPromise = null;
+        },
+        terminated: () => {
+          this.dbPromise = null;
+        }
+      });
+      this.dbPromise = promise;
+    }
+    return this.dbPromise;
+  }
+
+  // Ask the browser not to evict our data under storage pressure
+  private async requestPersistence(): Promise<void> {
+    if (this.persistRequested) return;
+    this.persistRequested = true;
+
+    try {
+      if (navigator.storage?.persisted && !(await navigator.storage.persisted())) {
+        await navigator.storage.persist?.();
+      }
+    } catch (error) {
+      console.warn('Persistent storage request failed:', error);
+    }
+  }
+
+  private async ensureCapacity(requiredBytes: number): Promise<void> {
+    if (!navigator.storage?.estimate) return;
+
+    const { usage = 0, quota } = await navigator.storage.estimate();
+    if (quota !== undefined && usage + requiredBytes > quota) {
+      throw new StorageQuotaError(
+        `Insufficient storage quota: ${requiredBytes} bytes required, ${quota - usage} available`,
+        requiredBytes,
+        quota - usage
+      );
+    }
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const db = await this.getDB();
+    const record: StoredRecord | undefined = await db.get(STORE_NAME, key);
+    return record ? record.value : null;
+  }
+
+  async setItem(key: string, value: string, timestamp: number = Date.now()): Promise<void> {
+    const size = value.length * 2; // UTF-16 encoding
+    await this.requestPersistence();
+    await this.ensureCapacity(size);
+
+    const db = await this.getDB();
+    const record: StoredRecord = { key, value, timestamp, size };
+
+    try {
+      await db.put(STORE_NAME, record);
+    } catch (error) {
+      if (isQuotaExceeded(error)) {
+        throw new StorageQuotaError(`Storage quota exceeded while writing ${key}`, size);
+      }
+      throw error;
+    }
+  }
+
+  async removeItem(key: string): Promise<void> {
+    const db = await this.getDB();
+    await db.delete(STORE_NAME, key);
+  }
+
+  // Walk the timestamp index with a cursor and delete records older than the cutoff
+  async deleteOlderThan(cutoff: number, keyPrefix: string = ''): Promise<number> {
+    const db = await this.getDB();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    let cursor = await tx.store.index(TIMESTAMP_INDEX).openCursor(IDBKeyRange.upperBound(cutoff));
+    let deleted = 0;
+
+    while (cursor) {
+      if ((cursor.value as StoredRecord).key.startsWith(keyPrefix)) {
+        await cursor.delete();
+        deleted++;
+      }
+      cursor = await cursor.continue();
+    }
+
+    await tx.done;
+    return deleted;
+  }
+
+  async getStats(): Promise<IndexedDBStorageStats> {
+    const db = await this.getDB();
+    const records = await db.count(STORE_NAME);
+
+    if (navigator.storage?.estimate) {
+      const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+      return { used: usage, available: Math.max(0, quota - usage), records };
+    }
+
+    const stored: StoredRecord[] = await db.getAll(STORE_NAME);
+    const used = stored.reduce((sum, record) => sum + record.size, 0);
+    return { used, available: 0, records };
+  }
+}
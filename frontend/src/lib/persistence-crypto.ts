@@ -0,0 +1,155 @@
+// AES-GCM encryption for persisted state using keys derived from the login session
+
+// Login session the encryption keys are derived from
+interface SessionSecret {
+  sessionId: string;
+  userId: string;
+}
+
+// Raised when a ciphertext fails authentication (tampered, or written under a rotated key)
+export class PersistenceDecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PersistenceDecryptionError';
+  }
+}
+
+// Persisted auth state (see stores/authStore), in localStorage so every tab sees the same session
+const AUTH_STORAGE_KEY = 'auth-storage';
+const ENVELOPE_PREFIX = 'aesgcm:v1:';
+const IV_LENGTH = 12;
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array =>
+  Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+/**
+ * Encrypts persisted state with AES-GCM.
+ *
+ * Keys are never stored: each one is derived through HKDF from the random
+ * session id created at login (salted with the user id). The id lives in the
+ * persisted auth state, so every tab of the signed-in session derives the same
+ * keys and reads what the others wrote. Each persistence key gets its own AES
+ * key, and the persistence key is bound as additional authenticated data so
+ * blobs cannot be swapped between entries. Logging out clears the session id,
+ * which makes everything written under it unreadable.
+ */
+export class PersistenceCrypto {
+  private static instance: PersistenceCrypto;
+  private derivedKeys: Map<string, Promise<CryptoKey>> = new Map();
+
+  static getInstance(): PersistenceCrypto {
+    if (!PersistenceCrypto.instance) {
+      PersistenceCrypto.instance = new PersistenceCrypto();
+    }
+    return PersistenceCrypto.instance;
+  }
+
+  static isSupported(): boolean {
+    return typeof crypto !== 'undefined' && !!crypto.subtle;
+  }
+
+  // Whether a stored value was produced by this class
+  static isEncrypted(value: string): boolean {
+    return value.startsWith(ENVELOPE_PREFIX);
+  }
+
+  private getSessionSecret(): SessionSecret | null {
+    const stored = localStorage.getItem(AUTH_STORAGE_KEY);
+    if (!stored) {
+      return null;
+    }
+
+    try {
+      const { sessionId, user } = JSON.parse(stored)?.state ?? {};
+      return typeof sessionId === 'string' && sessionId ? { sessionId, userId: String(user?.id ?? '') } : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Derive the AES-GCM key for one persistence key under the current session
+  private getDerivedKey(keyId: string): Promise<CryptoKey> {
+    const session = this.getSessionSecret();
+    if (!session) {
+      // Not a decryption failure: the data is still readable from the session that wrote it
+      return Promise.reject(new Error(`No active session to derive a key for ${keyId}`));
+    }
+
+    const cacheKey = `${session.userId}:${session.sessionId}:${keyId}`;
+    let derived = this.derivedKeys.get(cacheKey);
+    if (!derived) {
+      const encoder = new TextEncoder();
+      derived = crypto.subtle
+        .importKey('raw', encoder.encode(session.sessionId), 'HKDF', false, ['deriveKey'])
+        .then(baseKey =>
+          crypto.subtle.deriveKey(
+            {
+              name: 'HKDF',
+              hash: 'SHA-256',
+              salt: encoder.encode(`bi-reporting-user:${session.userId}`),
+              info: encoder.encode(`bi-reporting-persistence:${keyId}`)
+            },
+            baseKey,
+            { name: 'AES-GCM', length: 256 },
+            false,
+            ['encrypt', 'decrypt']
+          )
+        );
+      derived.catch(() => this.derivedKeys.delete(cacheKey));
+      this.derivedKeys.set(cacheKey, derived);
+    }
+    return derived;
+  }
+
+  async encrypt(plaintext: string, keyId: string): Promise<string> {
+    const key = await this.getDerivedKey(keyId);
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const encrypted = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(keyId) },
+      key,
+      new TextEncoder().encode(plaintext)
+    );
+
+    const combined = new Uint8Array(iv.length + encrypted.byteLength);
+    combined.set(iv);
+    combined.set(new Uint8Array(encrypted), iv.length);
+
+    return ENVELOPE_PREFIX + toBase64(combined);
+  }
+
+  async decrypt(envelope: string, keyId: string): Promise<string> {
+    if (!PersistenceCrypto.isEncrypted(envelope)) {
+      throw new PersistenceDecryptionError('Value is not an AES-GCM envelope');
+    }
+
+    const combined = fromBase64(envelope.slice(ENVELOPE_PREFIX.length));
+    const key = await this.getDerivedKey(keyId);
+
+    try {
+      const decrypted = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: combined.slice(0, IV_LENGTH), additionalData: new TextEncoder().encode(keyId) },
+        key,
+        combined.slice(IV_LENGTH)
+      );
+      return new TextDecoder().decode(decrypted);
+    } catch {
+      // GCM tag mismatch: the data was modified or encrypted under a previous session key
+      throw new PersistenceDecryptionError(`Authentication failed for ${keyId}`);
+    }
+  }
+
+  // Forget keys derived for the ending session
+  rotateKey(): void {
+    this.derivedKeys.clear();
+  }
+}
+
+export const persistenceCrypto = PersistenceCrypto.getInstance();
@@ -18,9 +18,10 @@ import {
 } from '../components/core';
 import { DashboardOutlined } from '@ant-design/icons';
 import DashboardBuilder from '../components/Dashboard/DashboardBuilder';
-import { DashboardView } from '../components/Dashboard/DashboardView';
 import { useCurrentResult } from '../hooks/useCurrentResult';
 import { useAuthStore } from '../stores/authStore';
+import { ApiService } from '../services/api';
+import type { DashboardSummary } from '../types/visualization';
 
 const DashboardPage: React.FC = () => {
   const [viewMode, setViewMode] = useState<'builder' | 'view'>('view');
@@ -33,7 +34,7 @@ const DashboardPage: React.FC = () => {
   }, []);
 
   // Real dashboards - loaded from API
-  const [dashboards, setDashboards] = useState<any[]>([]);
+  const [dashboards, setDashboards] = useState<DashboardSummary[]>([]);
   const [loadingDashboards, setLoadingDashboards] = useState(true);
   const [dashboardError, setDashboardError] = useState<string | null>(null);
 
@@ -44,14 +45,7 @@ const DashboardPage: React.FC = () => {
         setLoadingDashboards(true);
         setDashboardError(null);
 
-        // TODO: Replace with actual dashboard API calls
-        // const response = await dashboardApi.getUserDashboards();
-        // setDashboards(response.dashboards);
-
-        console.log('Loading real dashboards...');
-
-        // For now, show empty state until real API is connected
-        setDashboards([]);
+        setDashboards(await ApiService.getDashboards());
 
       } catch (err) {
         console.error('Failed to load dashboards:', err);
@@ -92,7 +86,13 @@ const DashboardPage: React.FC = () => {
                 🔧 Dashboard Builder
               </Button>
             )}
-            <Button variant="success">
+            <Button
+              variant="success"
+              onClick={() => {
+                setSelectedDashboard(null);
+                handleModeChange('builder');
+              }}
+            >
               ➕ New Dashboard
             </Button>
           </Flex>
@@ -120,7 +120,7 @@ const DashboardPage: React.FC = () => {
                 <Card.Content>
                   <Flex direction="column" align="center">
                     <div className="text-4xl font-bold" style={{ color: '#10b981' }}>
-                      {loadingDashboards ? '...' : dashboards.reduce((sum, d) => sum + (d.widgets || 0), 0)}
+                      {loadingDashboards ? '...' : dashboards.reduce((sum, d) => sum + (d.widgetCount || 0), 0)}
                     </div>
                     <div className="text-sm" style={{ color: '#6b7280' }}>
                       Total Widgets
@@ -191,17 +191,17 @@ const DashboardPage: React.FC = () => {
                         <Flex justify="between" align="start">
                           <div>
                             <h4 style={{ margin: '0 0 8px 0', fontSize: '1.125rem' }}>
-                              {dashboard.name}
+                              {dashboard.title}
                             </h4>
                             <p style={{ margin: '0 0 12px 0', color: '#6b7280' }}>
                               {dashboard.description}
                             </p>
                             <Flex gap="md" align="center">
                               <Badge variant="outline">
-                                {dashboard.widgets} widgets
+                                {dashboard.widgetCount} widgets
                               </Badge>
                               <span style={{ fontSize: '0.875rem', color: '#9ca3af' }}>
-                                Updated {dashboard.lastUpdated}
+                                Updated {new Date(dashboard.updatedAt).toLocaleString()}
                               </span>
                             </Flex>
                           </div>
@@ -210,7 +210,15 @@ const DashboardPage: React.FC = () => {
                               📊 View
                             </Button>
                             {isAdmin && (
-                              <Button variant="ghost" size="small">
+                              <Button
+                                variant="ghost"
+                                size="small"
+                                onClick={(event) => {
+                                  event.stopPropagation();
+                                  setSelectedDashboard(dashboard.id);
+                                  handleModeChange('builder');
+                                }}
+                              >
                                 ✏️ Edit
                               </Button>
                             )}
@@ -229,7 +237,7 @@ const DashboardPage: React.FC = () => {
                 <Card.Header>
                   <Flex justify="between" align="center">
                     <h3 style={{ margin: 0 }}>
-                      {dashboards.find(d => d.id === selectedDashboard)?.name}
+                      {dashboards.find(d => d.id === selectedDashboard)?.title}
                     </h3>
                     <Button variant="ghost" onClick={() => setSelectedDashboard(null)}>
                       ✕ Close
@@ -237,7 +245,7 @@ const DashboardPage: React.FC = () => {
                   </Flex>
                 </Card.Header>
                 <Card.Content>
-                  <DashboardView dashboardId={selectedDashboard} />
+                  <DashboardBuilder key={selectedDashboard} dashboardId={selectedDashboard} initialPreview />
                 </Card.Content>
               </Card>
             )}
@@ -248,7 +256,7 @@ const DashboardPage: React.FC = () => {
               <h3 style={{ margin: 0 }}>Dashboard Builder</h3>
             </Card.Header>
             <Card.Content>
-              <DashboardBuilder />
+              <DashboardBuilder key={selectedDashboard ?? 'new'} dashboardId={selectedDashboard ?? undefined} />
             </Card.Content>
           </Card>
         )}
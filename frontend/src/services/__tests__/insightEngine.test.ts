@@ -0,0 +1,98 @@
+/**
+ * Insight Engine Tests
+ */
+
+import { runInsightEngine } from '../insightEngine';
+import { ColumnInfo, InsightRequest } from '../insightsService';
+
+const DAY = 86400000;
+const START = Date.UTC(2024, 0, 1); // a Monday
+
+const dailyRows = (count: number, value: (i: number) => number) =>
+  Array.from({ length: count }, (_, i) => ({
+    day: new Date(START + i * DAY).toISOString().slice(0, 10),
+    revenue: value(i)
+  }));
+
+const seriesColumns: ColumnInfo[] = [
+  { name: 'day', type: 'date', nullable: false },
+  { name: 'revenue', type: 'numeric', nullable: false }
+];
+
+// Deterministic noise in [-1, 1]
+const noise = (i: number) => Math.sin(i * 12.9898) * 0.5 + Math.cos(i * 78.233) * 0.5;
+
+const analyze = (overrides: Partial<InsightRequest>) =>
+  runInsightEngine({ data: [], columns: seriesColumns, analysisDepth: 'standard', ...overrides });
+
+describe('runInsightEngine', () => {
+  it('finds weekly seasonality and names the peak day', () => {
+    const weekend = (i: number) => ((i % 7) >= 5 ? 40 : 0);
+    const insights = analyze({ data: dailyRows(56, i => 100 + weekend(i) + noise(i) * 3) });
+    const seasonality = insights.find(insight => insight.id === 'seasonality_revenue');
+
+    expect(seasonality).toMatchObject({ type: 'pattern' });
+    expect(seasonality?.visualization?.config['period']).toBe(7);
+    expect(seasonality?.description).toMatch(/Peaks at (Saturday|Sunday)/);
+  });
+
+  it('reports a level shift as a change point rather than a trend', () => {
+    const insights = analyze({ data: dailyRows(40, i => (i < 20 ? 50 : 80) + noise(i) * 2) });
+    const changePoints = insights.filter(insight => insight.id.startsWith('changepoint_revenue'));
+
+    expect(changePoints).toHaveLength(1);
+    expect(changePoints[0]?.title).toContain('shifted up at 2024-01-21');
+    expect(changePoints[0]?.actions?.map(action => action.type)).toEqual(['filter', 'alert']);
+  });
+
+  it('only reports significant trends', () => {
+    const rising = analyze({ data: dailyRows(30, i => 10 + i * 2 + noise(i)) });
+    expect(rising.find(insight => insight.id === 'trend_revenue')?.title).toBe('revenue is strongly increasing');
+    expect(rising.some(insight => insight.id.startsWith('changepoint_'))).toBe(false);
+
+    const flat = analyze({ data: dailyRows(30, i => 10 + noise(i)) });
+    expect(flat.some(insight => insight.id === 'trend_revenue')).toBe(false);
+  });
+
+  it('flags robust outliers and handles numeric strings', () => {
+    const data = Array.from({ length: 40 }, (_, i) => ({ amount: String(100 + (i % 5)) }));
+    data[7] = { amount: '5000' };
+    const insights = runInsightEngine({
+      data,
+      columns: [{ name: 'amount', type: 'numeric', nullable: false }],
+      analysisDepth: 'standard'
+    });
+    const anomaly = insights.find(insight => insight.id === 'anomaly_amount');
+
+    expect(anomaly?.visualization?.config['anomalyIndices']).toEqual([7]);
+    expect(anomaly?.description).toContain('modified z-score');
+  });
+
+  it('finds Pareto concentration across categories', () => {
+    const data = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I', 'J'].flatMap((region, i) =>
+      Array.from({ length: 3 }, () => ({ region, sales: i < 2 ? 500 : 10 }))
+    );
+    const insights = runInsightEngine({
+      data,
+      columns: [
+        { name: 'region', type: 'text', nullable: false },
+        { name: 'sales', type: 'numeric', nullable: false }
+      ],
+      analysisDepth: 'quick',
+      valueColumns: ['sales']
+    });
+    const pareto = insights.find(insight => insight.id === 'pareto_region_sales');
+
+    expect(pareto?.title).toBe('Top 2 of 10 region values drive 92.6% of sales');
+    expect(pareto?.actions?.[0]?.payload).toEqual({ column: 'region', values: ['A', 'B'] });
+  });
+
+  it('is self-contained so it can run in a worker', () => {
+    // eslint-disable-next-line no-new-func
+    const factory = new Function(`return (${runInsightEngine.toString()});`);
+    const isolated = factory() as typeof runInsightEngine;
+    const insights = isolated({ data: dailyRows(30, i => 10 + i * 2), columns: seriesColumns, analysisDepth: 'comprehensive' });
+
+    expect(insights.some(insight => insight.id === 'trend_revenue')).toBe(true);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Insights Service Tests
+ */
+
+import { runInsightEngine } from '../insightEngine';
+import { DataInsight, insightsService, InsightRequest } from '../insightsService';
+
+// Worker that reports every analysis as failed, the way the inline script does when the engine throws
+class FailingWorker {
+  static instances: FailingWorker[] = [];
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  posted = 0;
+  terminated = false;
+
+  constructor() {
+    FailingWorker.instances.push(this);
+  }
+
+  postMessage(message: { id: number }) {
+    this.posted++;
+    setTimeout(() => this.onmessage?.({ data: { id: message.id, success: false, error: 'engine failed' } } as MessageEvent), 0);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+const request = (revenue: number): InsightRequest => ({
+  data: Array.from({ length: 30 }, (_, i) => ({ region: i % 2 ? 'EMEA' : 'APAC', revenue: revenue + i })),
+  columns: [
+    { name: 'region', type: 'text', nullable: false },
+    { name: 'revenue', type: 'numeric', nullable: false }
+  ],
+  analysisDepth: 'quick'
+});
+
+// Titles identify the insights; metadata.generatedAt differs between runs
+const titles = (insights: DataInsight[]) => insights.map(insight => insight.title);
+
+describe('insightsService', () => {
+  const originalCreateObjectURL = URL.createObjectURL;
+  const originalRevokeObjectURL = URL.revokeObjectURL;
+
+  beforeAll(() => {
+    Object.assign(globalThis, { Worker: FailingWorker });
+    URL.createObjectURL = () => 'blob:insights';
+    URL.revokeObjectURL = () => undefined;
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    delete (globalThis as { Worker?: unknown }).Worker;
+    URL.createObjectURL = originalCreateObjectURL;
+    URL.revokeObjectURL = originalRevokeObjectURL;
+    jest.restoreAllMocks();
+  });
+
+  it('stops using a worker that failed an analysis and answers on the main thread', async () => {
+    expect(titles(await insightsService.generateInsights(request(100)))).toEqual(titles(runInsightEngine(request(100))));
+
+    const [worker] = FailingWorker.instances;
+    expect(worker?.posted).toBe(1);
+    expect(worker?.terminated).toBe(true);
+
+    // Later requests skip the worker rather than failing through it again
+    expect(titles(await insightsService.generateInsights(request(200)))).toEqual(titles(runInsightEngine(request(200))));
+    expect(FailingWorker.instances).toHaveLength(1);
+    expect(worker?.posted).toBe(1);
+  });
+});
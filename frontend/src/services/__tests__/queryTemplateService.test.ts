@@ -155,6 +155,88 @@ describe('QueryTemplateService', () => {
       expect(processed).toBe('Show me data for last month');
     });
 
+    it('renders conditional blocks only when the variable has a value', () => {
+      const template = createMockTemplate({
+        template: 'Show me deposits{{#if country}} for {{country}}{{else}} for all countries{{/if}}',
+        variables: [
+          { name: 'country', type: 'string' as const, description: 'Country', required: false },
+        ],
+      });
+
+      expect(service.processTemplate(template, { country: 'Malta' })).toBe('Show me deposits for Malta');
+      expect(service.processTemplate(template, {})).toBe('Show me deposits for all countries');
+    });
+
+    it('falls back to template-level defaults', () => {
+      const template = createMockTemplate({
+        template: 'Show me the top {{limit}} players',
+        defaults: { limit: '10' },
+        variables: [
+          { name: 'limit', type: 'number' as const, description: 'Limit', required: true },
+        ],
+      });
+
+      expect(service.processTemplate(template, {})).toBe('Show me the top 10 players');
+    });
+
+    it('validates required, range and option constraints', () => {
+      const template = createMockTemplate({
+        template: '{{startDate}} {{limit}} {{status}}',
+        variables: [
+          { name: 'startDate', type: 'date' as const, description: 'Start date', required: true },
+          { name: 'limit', type: 'number' as const, description: 'Limit', required: true, validation: { min: 1, max: 100 } },
+          { name: 'status', type: 'select' as const, description: 'Status', required: false, options: ['active', 'inactive'] },
+        ],
+      });
+
+      const errors = service.validateValues(template, { limit: 500, status: 'deleted' });
+
+      expect(errors['startDate']).toBe('Start date is required');
+      expect(errors['limit']).toBe('Limit must be at most 100');
+      expect(errors['status']).toBe('Status must be one of the listed values');
+      expect(service.validateValues(template, { startDate: '2024-01-01', limit: 50, status: 'active' })).toEqual({});
+    });
+
+    it('binds values as SQL parameters instead of concatenating them', () => {
+      const template = createMockTemplate({
+        template: 'Deposits for {{countries}}',
+        sql: "SELECT * FROM tbl_Daily_actions WHERE action_date >= '{{startDate}}'{{#if countries}} AND country IN ({{countries}}){{/if}}",
+        variables: [
+          { name: 'startDate', type: 'date' as const, description: 'Start date', required: true },
+          { name: 'countries', type: 'multiselect' as const, description: 'Countries', required: false },
+        ],
+      });
+
+      const bound = service.bindTemplate(template, { startDate: "2024-01-01'; DROP TABLE x; --", countries: ['MT', 'UK'] });
+
+      expect(bound.sql).toBe('SELECT * FROM tbl_Daily_actions WHERE action_date >= @startDate AND country IN (@countries_0, @countries_1)');
+      expect(bound.parameters).toEqual({
+        startDate: "2024-01-01'; DROP TABLE x; --",
+        countries_0: 'MT',
+        countries_1: 'UK',
+      });
+    });
+
+    it('only inlines whitelisted identifiers', () => {
+      const template = createMockTemplate({
+        template: 'Rows from {{table}}',
+        sql: 'SELECT COUNT(*) FROM {{table}}',
+        variables: [
+          {
+            name: 'table',
+            type: 'select' as const,
+            description: 'Table',
+            required: true,
+            bindAs: 'identifier' as const,
+            options: ['tbl_Daily_actions'],
+          },
+        ],
+      });
+
+      expect(service.bindTemplate(template, { table: 'tbl_Daily_actions' }).sql).toBe('SELECT COUNT(*) FROM [tbl_Daily_actions]');
+      expect(() => service.bindTemplate(template, { table: 'users; DROP TABLE x' })).toThrow('not an allowed value');
+    });
+
     it('toggles template favorite status', () => {
       const templates = service.getTemplates();
       const template = templates[0];
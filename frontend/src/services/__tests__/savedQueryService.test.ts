@@ -0,0 +1,95 @@
+/**
+ * Saved Query Service Tests
+ */
+
+import { savedQueryService } from '../savedQueryService';
+import { ApiService } from '../api';
+import { queryCacheService } from '../queryCacheService';
+import { SavedQuery } from '../../types/visualization';
+
+jest.mock('../api', () => ({
+  ApiService: {
+    executeRawSQL: jest.fn(),
+    executeQuery: jest.fn()
+  }
+}));
+
+jest.mock('../queryCacheService', () => ({
+  queryCacheService: {
+    init: jest.fn().mockResolvedValue(undefined),
+    getCachedResult: jest.fn(),
+    cacheResult: jest.fn().mockResolvedValue(undefined),
+    invalidateCache: jest.fn().mockResolvedValue(undefined)
+  }
+}));
+
+const savedQuery: SavedQuery = {
+  id: 'q1',
+  name: 'Revenue by region',
+  question: 'Revenue by region',
+  sql: 'SELECT Region, SUM(Revenue) AS Revenue FROM Sales WHERE Year = @Year GROUP BY Region',
+  parameters: { Year: 2024 },
+  owner: 'analyst',
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z'
+};
+
+const response = {
+  queryId: 'r1',
+  sql: savedQuery.sql,
+  result: { data: [{ Region: 'EMEA', Revenue: 10 }], metadata: { rowCount: 1 } },
+  success: true,
+  cached: false
+};
+
+describe('savedQueryService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.removeItem('cache-enabled');
+  });
+
+  it('keys the cache on the query and its parameter values', () => {
+    const request = savedQueryService.toCacheRequest(savedQuery);
+    expect(request.sessionId).toBe('saved-query:q1');
+    expect(request.naturalLanguageQuery).toBe(savedQuery.sql);
+    expect(request.parameters).toEqual({ Year: 2024 });
+  });
+
+  it('serves a fresh cached result without executing', async () => {
+    (queryCacheService.getCachedResult as jest.Mock).mockResolvedValue(response);
+
+    const result = await savedQueryService.execute(savedQuery);
+
+    expect(result.cached).toBe(true);
+    expect(ApiService.executeRawSQL).not.toHaveBeenCalled();
+  });
+
+  it('re-runs the saved SQL with its parameters when bypassing the cache', async () => {
+    (ApiService.executeRawSQL as jest.Mock).mockResolvedValue(response);
+
+    const result = await savedQueryService.execute(savedQuery, { bypassCache: true, ttl: 30000 });
+
+    expect(queryCacheService.getCachedResult).not.toHaveBeenCalled();
+    expect(ApiService.executeRawSQL).toHaveBeenCalledWith(expect.objectContaining({
+      sql: savedQuery.sql,
+      parameters: { Year: 2024 }
+    }));
+    expect(queryCacheService.cacheResult).toHaveBeenCalledWith(
+      expect.objectContaining({ sessionId: 'saved-query:q1' }),
+      response,
+      30000
+    );
+    expect(result.cached).toBe(false);
+  });
+
+  it('executes once for widgets requesting the same query together', async () => {
+    (ApiService.executeRawSQL as jest.Mock).mockResolvedValue(response);
+
+    await Promise.all([
+      savedQueryService.execute(savedQuery, { bypassCache: true }),
+      savedQueryService.execute(savedQuery, { bypassCache: true })
+    ]);
+
+    expect(ApiService.executeRawSQL).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,5 +1,11 @@
 import axios from 'axios';
-import type { QueryRequest as TypedQueryRequest, QueryResponse as FrontendQueryResponse } from '../types/query';
+import type {
+  QueryRequest as TypedQueryRequest,
+  QueryResponse as FrontendQueryResponse,
+  PiiRevealRequest,
+  PiiRevealResponse
+} from '../types/query';
+import type { DashboardDefinition, DashboardSummary, SavedQuery, SavedQueryInput } from '../types/visualization';
 
 // API Configuration
 const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:55244';
@@ -205,6 +211,7 @@ export interface BackendQueryRequest {
 export interface SqlExecutionRequest {
   sql: string;
   sessionId?: string;
+  parameters?: Record<string, string | number>;
   options?: {
     maxRows?: number;
     timeoutSeconds?: number;
@@ -676,13 +683,65 @@ export class ApiService {
       error: backendResponse.Error || backendResponse.error,
       timestamp: backendResponse.Timestamp || backendResponse.timestamp || new Date().toISOString(),
       executionTimeMs: backendResponse.ExecutionTimeMs || backendResponse.executionTimeMs || 0,
-      promptDetails: undefined // No prompt details for raw SQL
+      promptDetails: undefined, // No prompt details for raw SQL
+      // Kept so paged exports re-run the SQL with the same values
+      ...(request.parameters && { parameters: request.parameters })
     };
 
     console.log('API Service - Raw SQL transformed result:', transformedResult);
     return transformedResult;
   }
 
+  // Stream every row of a SELECT from one server-side execution, in batches of `batchSize`, for exports that outgrow the loaded rows
+  static async *streamResultRows(
+    request: SqlExecutionRequest,
+    batchSize: number,
+    signal?: AbortSignal
+  ): AsyncGenerator<any[]> {
+    const token = await getAuthToken();
+    const response = await fetch(`${API_BASE_URL}/api/query/execute-sql/stream`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token && { Authorization: `Bearer ${token}` })
+      },
+      body: JSON.stringify(request),
+      ...(signal && { signal })
+    });
+
+    if (!response.ok || !response.body) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.error || `Failed to stream result rows (${response.status})`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+    let batch: any[] = [];
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        buffered += decoder.decode(value, { stream: !done });
+
+        const lines = buffered.split('\n');
+        buffered = done ? '' : lines.pop() ?? '';
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          batch.push(JSON.parse(line));
+          if (batch.length >= batchSize) {
+            yield batch;
+            batch = [];
+          }
+        }
+        if (done) break;
+      }
+      if (batch.length > 0) yield batch;
+    } finally {
+      // Stops the server-side read when the export ends early
+      await reader.cancel().catch(() => undefined);
+    }
+  }
+
   static async getQueryHistory(page: number = 1, pageSize: number = 20): Promise<any> {
     const response = await api.get(`/api/query/history?page=${page}&pageSize=${pageSize}`);
     return response.data;
@@ -747,6 +806,46 @@ export class ApiService {
     return response.data;
   }
 
+  static async getDashboards(): Promise<DashboardSummary[]> {
+    const response = await api.get('/api/dashboards');
+    return response.data;
+  }
+
+  static async getDashboard(id: string): Promise<DashboardDefinition> {
+    const response = await api.get(`/api/dashboards/${encodeURIComponent(id)}`);
+    return response.data;
+  }
+
+  static async saveDashboard(definition: DashboardDefinition): Promise<DashboardDefinition> {
+    const response = await api.put(`/api/dashboards/${encodeURIComponent(definition.id)}`, definition);
+    return response.data;
+  }
+
+  static async deleteDashboard(id: string): Promise<void> {
+    await api.delete(`/api/dashboards/${encodeURIComponent(id)}`);
+  }
+
+  // Saved Queries
+  static async getSavedQueries(): Promise<SavedQuery[]> {
+    const response = await api.get('/api/saved-queries');
+    return response.data;
+  }
+
+  static async createSavedQuery(query: SavedQueryInput): Promise<SavedQuery> {
+    const response = await api.post('/api/saved-queries', query);
+    return response.data;
+  }
+
+  static async deleteSavedQuery(id: string): Promise<void> {
+    await api.delete(`/api/saved-queries/${encodeURIComponent(id)}`);
+  }
+
+  // PII reveal audit trail
+  static async recordPiiReveal(request: PiiRevealRequest): Promise<PiiRevealResponse> {
+    const response = await api.post('/api/business-metadata/pii/reveal-audit', request);
+    return response.data;
+  }
+
   // Schema
   static async getSchema(connectionName?: string): Promise<any> {
     const response = await api.get('/api/schema', { params: { connectionName } });
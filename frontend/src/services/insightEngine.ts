@@ -0,0 +1,909 @@
+/**
+ * Insight Engine
+ *
+ * Statistical analysis behind InsightsService: significance-tested trends,
+ * STL-style seasonal decomposition, change-point detection, robust (MAD/IQR)
+ * outliers, Pareto/concentration findings for categorical breakdowns and
+ * correlations. Results use the DataInsight/InsightAction shapes consumed by
+ * DataInsightsPanel.
+ *
+ * runInsightEngine is shipped to a Web Worker via Function.toString(), so it
+ * must stay self-contained: every helper is declared inside it, nothing is
+ * imported at runtime, and the body avoids syntax that compiles to shared
+ * runtime helpers (spread, destructuring, for...of, classes).
+ */
+
+import type { DataInsight, InsightAction, InsightRequest } from './insightsService';
+
+interface SeriesPoint {
+  time: number;
+  value: number;
+}
+
+interface Decomposition {
+  period: number;
+  trend: number[];
+  seasonal: number[];
+  residual: number[];
+  seasonalStrength: number;
+}
+
+interface ChangePoint {
+  index: number;
+  before: number;
+  after: number;
+  pValue: number;
+  effectSize: number;
+}
+
+interface OutlierResult {
+  indices: number[];
+  method: 'mad' | 'iqr';
+  lower: number;
+  upper: number;
+}
+
+export function runInsightEngine(request: InsightRequest): DataInsight[] {
+  const data = request.data || [];
+  const columns = request.columns || [];
+  const depth = request.analysisDepth;
+  const alpha = request.significanceLevel || 0.05;
+  const generatedAt = new Date().toISOString();
+  const insights: DataInsight[] = [];
+
+  const DAY = 86400000;
+  const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+  const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+  if (data.length === 0) return insights;
+
+  // ---------------------------------------------------------------------------
+  // Value helpers (query results often carry numbers as strings)
+  // ---------------------------------------------------------------------------
+
+  function toNumber(value: unknown): number | null {
+    if (typeof value === 'number') return isFinite(value) ? value : null;
+    if (typeof value === 'string' && value.trim() !== '') {
+      const parsed = Number(value);
+      return isFinite(parsed) ? parsed : null;
+    }
+    return null;
+  }
+
+  function toTime(value: unknown): number | null {
+    if (value instanceof Date) return isNaN(value.getTime()) ? null : value.getTime();
+    if (typeof value === 'number') return isFinite(value) ? value : null;
+    if (typeof value === 'string' && value.trim() !== '') {
+      const parsed = Date.parse(value);
+      return isNaN(parsed) ? null : parsed;
+    }
+    return null;
+  }
+
+  // Epoch milliseconds render as ISO dates; ordinals such as years stay as-is
+  function formatTime(time: number): string {
+    return time > 1e11 ? new Date(time).toISOString() : String(time);
+  }
+
+  function formatNumber(value: number): string {
+    return Math.abs(value) >= 100 ? Math.round(value).toLocaleString() : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  }
+
+  function formatPercent(value: number): string {
+    return (value * 100).toFixed(1) + '%';
+  }
+
+  function numericValues(column: string): number[] {
+    const values: number[] = [];
+    for (let i = 0; i < data.length; i++) {
+      const value = toNumber(data[i][column]);
+      if (value !== null) values.push(value);
+    }
+    return values;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Descriptive statistics
+  // ---------------------------------------------------------------------------
+
+  function sum(values: number[]): number {
+    let total = 0;
+    for (let i = 0; i < values.length; i++) total += values[i] ?? 0;
+    return total;
+  }
+
+  function mean(values: number[]): number {
+    return values.length === 0 ? 0 : sum(values) / values.length;
+  }
+
+  // Sample variance
+  function variance(values: number[]): number {
+    if (values.length < 2) return 0;
+    const m = mean(values);
+    let total = 0;
+    for (let i = 0; i < values.length; i++) total += ((values[i] ?? 0) - m) * ((values[i] ?? 0) - m);
+    return total / (values.length - 1);
+  }
+
+  function sorted(values: number[]): number[] {
+    return values.slice().sort((a, b) => a - b);
+  }
+
+  // Linear interpolation between closest ranks (type 7)
+  function quantile(sortedValues: number[], q: number): number {
+    if (sortedValues.length === 0) return 0;
+    const position = (sortedValues.length - 1) * q;
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    const low = sortedValues[lower] ?? 0;
+    return low + ((sortedValues[upper] ?? low) - low) * (position - lower);
+  }
+
+  function median(values: number[]): number {
+    return quantile(sorted(values), 0.5);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Distributions: two-sided p-values from Student's t
+  // ---------------------------------------------------------------------------
+
+  function logGamma(x: number): number {
+    const coefficients = [76.18009172947146, -86.50532032941677, 24.01409824083091, -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5];
+    let y = x;
+    const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+    let series = 1.000000000190015;
+    for (let i = 0; i < coefficients.length; i++) series += (coefficients[i] ?? 0) / ++y;
+    return -tmp + Math.log((2.5066282746310005 * series) / x);
+  }
+
+  // Continued fraction for the incomplete beta function (Numerical Recipes betacf)
+  function betaContinuedFraction(x: number, a: number, b: number): number {
+    const tiny = 1e-30;
+    let c = 1;
+    let d = 1 - ((a + b) * x) / (a + 1);
+    if (Math.abs(d) < tiny) d = tiny;
+    d = 1 / d;
+    let h = d;
+    for (let m = 1; m <= 200; m++) {
+      const m2 = 2 * m;
+      let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+      d = 1 + aa * d;
+      if (Math.abs(d) < tiny) d = tiny;
+      c = 1 + aa / c;
+      if (Math.abs(c) < tiny) c = tiny;
+      d = 1 / d;
+      h *= d * c;
+      aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+      d = 1 + aa * d;
+      if (Math.abs(d) < tiny) d = tiny;
+      c = 1 + aa / c;
+      if (Math.abs(c) < tiny) c = tiny;
+      d = 1 / d;
+      const delta = d * c;
+      h *= delta;
+      if (Math.abs(delta - 1) < 3e-12) break;
+    }
+    return h;
+  }
+
+  function regularizedBeta(x: number, a: number, b: number): number {
+    if (x <= 0) return 0;
+    if (x >= 1) return 1;
+    const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+    return x < (a + 1) / (a + b + 2)
+      ? (front * betaContinuedFraction(x, a, b)) / a
+      : 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+  }
+
+  function tTestPValue(t: number, degreesOfFreedom: number): number {
+    if (!isFinite(t)) return 0;
+    if (degreesOfFreedom <= 0) return 1;
+    return regularizedBeta(degreesOfFreedom / (degreesOfFreedom + t * t), degreesOfFreedom / 2, 0.5);
+  }
+
+  function confidenceFromPValue(pValue: number): number {
+    return Math.max(0.5, Math.min(0.99, 1 - pValue));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Models
+  // ---------------------------------------------------------------------------
+
+  function pearson(xs: number[], ys: number[]): { r: number; pValue: number } {
+    const n = xs.length;
+    if (n < 3) return { r: 0, pValue: 1 };
+    const mx = mean(xs);
+    const my = mean(ys);
+    let sxy = 0;
+    let sxx = 0;
+    let syy = 0;
+    for (let i = 0; i < n; i++) {
+      const dx = (xs[i] ?? 0) - mx;
+      const dy = (ys[i] ?? 0) - my;
+      sxy += dx * dy;
+      sxx += dx * dx;
+      syy += dy * dy;
+    }
+    if (sxx === 0 || syy === 0) return { r: 0, pValue: 1 };
+    const r = Math.max(-1, Math.min(1, sxy / Math.sqrt(sxx * syy)));
+    const t = Math.abs(r) === 1 ? Infinity : r * Math.sqrt((n - 2) / (1 - r * r));
+    return { r, pValue: tTestPValue(t, n - 2) };
+  }
+
+  // Least-squares line over the point index
+  function linearTrend(values: number[]): { slope: number; intercept: number; r: number; pValue: number } {
+    const xs: number[] = [];
+    for (let i = 0; i < values.length; i++) xs.push(i);
+    const mx = mean(xs);
+    const my = mean(values);
+    let sxy = 0;
+    let sxx = 0;
+    for (let i = 0; i < values.length; i++) {
+      sxy += (i - mx) * ((values[i] ?? 0) - my);
+      sxx += (i - mx) * (i - mx);
+    }
+    const slope = sxx === 0 ? 0 : sxy / sxx;
+    const fit = pearson(xs, values);
+    return { slope, intercept: my - slope * mx, r: fit.r, pValue: fit.pValue };
+  }
+
+  function welchTest(a: number[], b: number[]): { pValue: number; effectSize: number } {
+    const va = variance(a);
+    const vb = variance(b);
+    const se = Math.sqrt(va / a.length + vb / b.length);
+    const diff = mean(b) - mean(a);
+    const pooled = Math.sqrt((va + vb) / 2);
+    const effectSize = pooled === 0 ? (diff === 0 ? 0 : Infinity) : Math.abs(diff) / pooled;
+    if (se === 0) return { pValue: diff === 0 ? 1 : 0, effectSize };
+    const df = Math.pow(va / a.length + vb / b.length, 2) /
+      (Math.pow(va / a.length, 2) / (a.length - 1) + Math.pow(vb / b.length, 2) / (b.length - 1));
+    return { pValue: tTestPValue(diff / se, df), effectSize };
+  }
+
+  // Centered moving average; the window shrinks at the edges
+  function movingAverage(values: number[], window: number): number[] {
+    const half = Math.floor(window / 2);
+    const result: number[] = [];
+    for (let i = 0; i < values.length; i++) {
+      const start = Math.max(0, i - half);
+      const end = Math.min(values.length, i + half + 1);
+      result.push(mean(values.slice(start, end)));
+    }
+    return result;
+  }
+
+  function autocorrelation(values: number[], lag: number): number {
+    const m = mean(values);
+    let numerator = 0;
+    let denominator = 0;
+    for (let i = 0; i < values.length; i++) {
+      const d = (values[i] ?? 0) - m;
+      denominator += d * d;
+      if (i + lag < values.length) numerator += d * ((values[i + lag] ?? 0) - m);
+    }
+    return denominator === 0 ? 0 : numerator / denominator;
+  }
+
+  // Calendar period implied by the sampling interval, else the strongest autocorrelation peak
+  function detectPeriod(series: SeriesPoint[]): number {
+    const n = series.length;
+    const gaps: number[] = [];
+    for (let i = 1; i < n; i++) gaps.push((series[i]?.time ?? 0) - (series[i - 1]?.time ?? 0));
+    const step = median(gaps);
+
+    const candidates: number[] = [];
+    if (step >= 3000000 && step <= 4200000) candidates.push(24); // hourly
+    if (step >= 0.9 * DAY && step <= 1.1 * DAY) candidates.push(7); // daily
+    if (step >= 6.5 * DAY && step <= 7.5 * DAY) candidates.push(52); // weekly
+    if (step >= 27 * DAY && step <= 32 * DAY) candidates.push(12); // monthly
+    if (step >= 88 * DAY && step <= 93 * DAY) candidates.push(4); // quarterly
+
+    const values: number[] = [];
+    for (let i = 0; i < n; i++) values.push(series[i]?.value ?? 0);
+    const smoothed = movingAverage(values, Math.max(3, Math.floor(n / 4)));
+    const detrended = values.map((value, i) => value - (smoothed[i] ?? 0));
+
+    for (let i = 0; i < candidates.length; i++) {
+      const period = candidates[i] ?? 0;
+      if (n >= 2 * period + 1 && autocorrelation(detrended, period) >= 0.3) return period;
+    }
+
+    let best = 0;
+    let bestCorrelation = 0.4;
+    const maxLag = Math.min(Math.floor(n / 2), 60);
+    for (let lag = 2; lag <= maxLag; lag++) {
+      const correlation = autocorrelation(detrended, lag);
+      // Local peak, so harmonics of a shorter period do not win
+      if (correlation > bestCorrelation &&
+          correlation >= autocorrelation(detrended, lag - 1) &&
+          correlation >= autocorrelation(detrended, lag + 1)) {
+        best = lag;
+        bestCorrelation = correlation;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * STL-style decomposition: alternate cycle-subseries smoothing and a
+   * moving-average trend, with bisquare robustness weights so outliers do
+   * not leak into the seasonal component.
+   */
+  function decompose(values: number[], period: number): Decomposition {
+    const n = values.length;
+    const trendWindow = period % 2 === 0 ? period + 1 : period;
+    let trend = movingAverage(values, trendWindow);
+    let seasonal: number[] = [];
+    let weights: number[] = values.map(() => 1);
+
+    for (let outer = 0; outer < 2; outer++) {
+      for (let inner = 0; inner < 2; inner++) {
+        const cycle: number[] = [];
+        for (let k = 0; k < period; k++) {
+          let weighted = 0;
+          let totalWeight = 0;
+          for (let i = k; i < n; i += period) {
+            weighted += (weights[i] ?? 0) * ((values[i] ?? 0) - (trend[i] ?? 0));
+            totalWeight += weights[i] ?? 0;
+          }
+          cycle.push(totalWeight === 0 ? 0 : weighted / totalWeight);
+        }
+        const level = mean(cycle);
+        const deseasonalized: number[] = [];
+        seasonal = [];
+        for (let i = 0; i < n; i++) {
+          seasonal.push((cycle[i % period] ?? 0) - level);
+          deseasonalized.push((values[i] ?? 0) - (seasonal[i] ?? 0));
+        }
+        trend = movingAverage(deseasonalized, trendWindow);
+      }
+
+      const residualMagnitude: number[] = [];
+      for (let i = 0; i < n; i++) {
+        residualMagnitude.push(Math.abs((values[i] ?? 0) - (trend[i] ?? 0) - (seasonal[i] ?? 0)));
+      }
+      const h = 6 * median(residualMagnitude);
+      weights = residualMagnitude.map(r => {
+        if (h === 0) return 1;
+        const u = r / h;
+        return u < 1 ? (1 - u * u) * (1 - u * u) : 0;
+      });
+    }
+
+    const residual = values.map((value, i) => value - (trend[i] ?? 0) - (seasonal[i] ?? 0));
+    const seasonalPlusResidual = residual.map((r, i) => r + (seasonal[i] ?? 0));
+    const totalVariance = variance(seasonalPlusResidual);
+    const seasonalStrength = totalVariance === 0 ? 0 : Math.max(0, 1 - variance(residual) / totalVariance);
+
+    return { period, trend, seasonal, residual, seasonalStrength };
+  }
+
+  function squaredError(values: number[], fitted: (i: number) => number): number {
+    let total = 0;
+    for (let i = 0; i < values.length; i++) total += Math.pow((values[i] ?? 0) - fitted(i), 2);
+    return total;
+  }
+
+  /**
+   * Binary segmentation on shifts in the mean. A split is kept only when the
+   * two sides differ significantly (Welch t-test, Bonferroni-corrected for
+   * the candidate splits tried) with at least a medium effect size, and when
+   * a step fits the segment better than a straight line — a steady trend is
+   * reported as a trend, not as a series of level shifts.
+   */
+  function detectChangePoints(values: number[], minSegment: number, maxChangePoints: number): ChangePoint[] {
+    const found: ChangePoint[] = [];
+
+    function split(start: number, end: number): void {
+      if (found.length >= maxChangePoints || end - start < 2 * minSegment) return;
+
+      let bestIndex = -1;
+      let bestScore = 0;
+      const segmentMean = mean(values.slice(start, end));
+      let cumulative = 0;
+      for (let k = start; k < end - 1; k++) {
+        cumulative += (values[k] ?? 0) - segmentMean;
+        const left = k - start + 1;
+        if (left < minSegment || end - k - 1 < minSegment) continue;
+        // CUSUM statistic scaled for the split position
+        const score = (cumulative * cumulative * (end - start)) / (left * (end - start - left));
+        if (score > bestScore) {
+          bestScore = score;
+          bestIndex = k + 1;
+        }
+      }
+      if (bestIndex < 0) return;
+
+      const before = values.slice(start, bestIndex);
+      const after = values.slice(bestIndex, end);
+      const test = welchTest(before, after);
+      const candidates = end - start - 2 * minSegment + 1;
+      if (test.pValue * candidates >= alpha || test.effectSize < 0.5) return;
+
+      const segment = values.slice(start, end);
+      const line = linearTrend(segment);
+      const beforeMean = mean(before);
+      const afterMean = mean(after);
+      const stepError = squaredError(segment, i => (i < before.length ? beforeMean : afterMean));
+      const lineError = squaredError(segment, i => line.intercept + line.slope * i);
+      if (stepError >= lineError) return;
+
+      found.push({
+        index: bestIndex,
+        before: beforeMean,
+        after: afterMean,
+        pValue: Math.min(1, test.pValue * candidates),
+        effectSize: test.effectSize
+      });
+      split(start, bestIndex);
+      split(bestIndex, end);
+    }
+
+    split(0, values.length);
+    return found.sort((a, b) => a.index - b.index);
+  }
+
+  /**
+   * Modified z-scores from the median absolute deviation (Iglewicz & Hoaglin,
+   * |z| > 3.5); when more than half the values are identical the MAD is zero
+   * and Tukey's IQR fences are used instead.
+   */
+  function robustOutliers(values: number[]): OutlierResult {
+    const ordered = sorted(values);
+    const med = quantile(ordered, 0.5);
+    const mad = median(values.map(value => Math.abs(value - med)));
+    const indices: number[] = [];
+
+    if (mad > 0) {
+      const spread = (3.5 * mad) / 0.6745;
+      values.forEach((value, i) => {
+        if (Math.abs(value - med) > spread) indices.push(i);
+      });
+      return { indices, method: 'mad', lower: med - spread, upper: med + spread };
+    }
+
+    const q1 = quantile(ordered, 0.25);
+    const q3 = quantile(ordered, 0.75);
+    const iqr = q3 - q1;
+    if (iqr === 0) return { indices, method: 'iqr', lower: q1, upper: q3 };
+    const lower = q1 - 1.5 * iqr;
+    const upper = q3 + 1.5 * iqr;
+    values.forEach((value, i) => {
+      if (value < lower || value > upper) indices.push(i);
+    });
+    return { indices, method: 'iqr', lower, upper };
+  }
+
+  function seasonLabel(series: SeriesPoint[], period: number, position: number): string {
+    const point = series[position];
+    if (point && point.time > 1e11) {
+      const date = new Date(point.time);
+      if (period === 7) return WEEKDAYS[date.getUTCDay()] || 'day ' + (position + 1);
+      if (period === 12) return MONTHS[date.getUTCMonth()] || 'month ' + (position + 1);
+      if (period === 24) return date.getUTCHours() + ':00';
+      if (period === 4) return 'Q' + (Math.floor(date.getUTCMonth() / 3) + 1);
+    }
+    return 'position ' + (position + 1) + ' of ' + period;
+  }
+
+  function periodUnit(period: number): string {
+    if (period === 7) return 'week';
+    if (period === 12 || period === 52) return 'year';
+    if (period === 24) return 'day';
+    if (period === 4) return 'year';
+    return period + ' observations';
+  }
+
+  function action(id: string, label: string, type: InsightAction['type'], payload: Record<string, any>): InsightAction {
+    return { id, label, type, payload };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Insight generators
+  // ---------------------------------------------------------------------------
+
+  const numericColumns = columns.filter(col => col.type === 'numeric');
+  const analyzedAsSeries: Record<string, boolean> = {};
+
+  function summaryInsights(): void {
+    numericColumns.forEach(column => {
+      const values = numericValues(column.name);
+      if (values.length === 0) return;
+
+      const ordered = sorted(values);
+      const total = sum(values);
+      const avg = total / values.length;
+      const min = ordered[0] ?? 0;
+      const max = ordered[ordered.length - 1] ?? 0;
+      const med = quantile(ordered, 0.5);
+      const iqr = quantile(ordered, 0.75) - quantile(ordered, 0.25);
+
+      insights.push({
+        id: 'summary_' + column.name,
+        type: 'summary',
+        title: column.name + ' Summary Statistics',
+        description: 'Average: ' + formatNumber(avg) + ', Range: ' + formatNumber(min) + ' - ' + formatNumber(max) +
+          ', Median: ' + formatNumber(med) + ', IQR: ' + formatNumber(iqr),
+        confidence: 0.95,
+        severity: 'low',
+        visualization: {
+          type: 'metric',
+          config: {
+            metrics: [
+              { label: 'Average', value: avg, format: 'number' },
+              { label: 'Total', value: total, format: 'number' },
+              { label: 'Min', value: min, format: 'number' },
+              { label: 'Max', value: max, format: 'number' }
+            ]
+          }
+        },
+        actions: [action('drill_down_summary', 'View Detailed Distribution', 'query', { column: column.name, type: 'distribution' })],
+        metadata: { generatedAt, dataPoints: values.length, columns: [column.name] }
+      });
+    });
+  }
+
+  // One point per timestamp; rows sharing a timestamp (e.g. one per category) are summed
+  function buildSeries(timeColumn: string, valueColumn: string): SeriesPoint[] {
+    const totals = new Map<number, number>();
+    for (let i = 0; i < data.length; i++) {
+      const time = toTime(data[i][timeColumn]);
+      const value = toNumber(data[i][valueColumn]);
+      if (time === null || value === null) continue;
+      totals.set(time, (totals.get(time) || 0) + value);
+    }
+    const series: SeriesPoint[] = [];
+    totals.forEach((value, time) => series.push({ time, value }));
+    return series.sort((a, b) => a.time - b.time);
+  }
+
+  function timeSeriesInsights(timeColumn: string): void {
+    numericColumns.forEach(column => {
+      if (column.name === timeColumn) return;
+      const series = buildSeries(timeColumn, column.name);
+      if (series.length < 3) return;
+      analyzedAsSeries[column.name] = true;
+
+      const values = series.map(point => point.value);
+      const points = series.map(point => ({ date: formatTime(point.time), value: point.value }));
+      const first = series[0] as SeriesPoint;
+      const last = series[series.length - 1] as SeriesPoint;
+      const timeRange = formatTime(first.time) + ' to ' + formatTime(last.time);
+      const seriesColumns = [timeColumn, column.name];
+
+      // Seasonality first, so trend and change points are judged on the deseasonalized series
+      let decomposition: Decomposition | null = null;
+      if (depth !== 'quick' && series.length >= 8) {
+        const period = detectPeriod(series);
+        if (period >= 2 && series.length >= 2 * period + 1) {
+          const candidate = decompose(values, period);
+          if (candidate.seasonalStrength >= 0.4) decomposition = candidate;
+        }
+      }
+      const adjusted = decomposition
+        ? values.map((value, i) => value - ((decomposition as Decomposition).seasonal[i] ?? 0))
+        : values;
+
+      // Trend
+      const trend = linearTrend(adjusted);
+      if (trend.pValue < alpha && trend.slope !== 0) {
+        const start = trend.intercept;
+        const end = trend.intercept + trend.slope * (adjusted.length - 1);
+        const change = start !== 0 ? (end - start) / Math.abs(start) : 0;
+        const direction = trend.slope > 0 ? 'increasing' : 'decreasing';
+        const strength = Math.abs(trend.r) > 0.8 ? 'strongly' : 'gradually';
+
+        insights.push({
+          id: 'trend_' + column.name,
+          type: 'trend',
+          title: column.name + ' is ' + strength + ' ' + direction,
+          description: column.name + ' shows a ' + direction + ' trend' + (decomposition ? ' after removing seasonality' : '') +
+            (change !== 0 ? ' (' + (change > 0 ? '+' : '') + formatPercent(change) + ' over the period)' : '') +
+            '; R² = ' + (trend.r * trend.r).toFixed(2) + ', p = ' + trend.pValue.toPrecision(2),
+          confidence: confidenceFromPValue(trend.pValue) * Math.min(1, Math.abs(trend.r) + 0.2),
+          severity: Math.abs(change) > 0.5 ? 'high' : Math.abs(change) > 0.1 ? 'medium' : 'low',
+          visualization: {
+            type: 'line',
+            config: { xAxis: timeColumn, yAxis: column.name, showTrendLine: true, slope: trend.slope, intercept: trend.intercept },
+            data: points
+          },
+          actions: [action('forecast_trend', 'Generate Forecast', 'query', { column: column.name, type: 'forecast' })],
+          metadata: { generatedAt, dataPoints: series.length, columns: seriesColumns, timeRange }
+        });
+      }
+
+      if (depth === 'quick') return;
+
+      // Seasonality
+      if (decomposition) {
+        const period = decomposition.period;
+        let peak = 0;
+        let trough = 0;
+        for (let k = 1; k < period; k++) {
+          if ((decomposition.seasonal[k] ?? 0) > (decomposition.seasonal[peak] ?? 0)) peak = k;
+          if ((decomposition.seasonal[k] ?? 0) < (decomposition.seasonal[trough] ?? 0)) trough = k;
+        }
+        const amplitude = (decomposition.seasonal[peak] ?? 0) - (decomposition.seasonal[trough] ?? 0);
+        const cycles = Math.floor(series.length / period);
+
+        insights.push({
+          id: 'seasonality_' + column.name,
+          type: 'pattern',
+          title: column.name + ' follows a ' + period + '-period seasonal cycle',
+          description: 'Seasonality explains ' + formatPercent(decomposition.seasonalStrength) + ' of the detrended variation over ' +
+            cycles + ' cycles (one cycle per ' + periodUnit(period) + '). Peaks at ' + seasonLabel(series, period, peak) +
+            ', lowest at ' + seasonLabel(series, period, trough) + '; swing of ' + formatNumber(amplitude) + '.',
+          confidence: Math.min(0.95, 0.5 + decomposition.seasonalStrength / 2) * Math.min(1, cycles / 3),
+          severity: decomposition.seasonalStrength > 0.7 ? 'high' : 'medium',
+          visualization: {
+            type: 'line',
+            config: { xAxis: timeColumn, yAxis: column.name, components: ['trend', 'seasonal', 'residual'], period },
+            data: points.map((point, i) => ({
+              date: point.date,
+              value: point.value,
+              trend: decomposition ? decomposition.trend[i] : undefined,
+              seasonal: decomposition ? decomposition.seasonal[i] : undefined,
+              residual: decomposition ? decomposition.residual[i] : undefined
+            }))
+          },
+          actions: [
+            action('compare_seasons', 'Compare Seasonal Periods', 'drill_down', { column: column.name, timeColumn, period }),
+            action('deseasonalize', 'View Seasonally Adjusted Series', 'query', { column: column.name, type: 'seasonally_adjusted', period })
+          ],
+          metadata: { generatedAt, dataPoints: series.length, columns: seriesColumns, timeRange }
+        });
+      }
+
+      // Change points
+      if (series.length >= 8) {
+        const minSegment = Math.max(3, Math.floor(series.length / 10));
+        detectChangePoints(adjusted, minSegment, 3).forEach(changePoint => {
+          const at = formatTime((series[changePoint.index] as SeriesPoint).time);
+          const shift = changePoint.before !== 0 ? (changePoint.after - changePoint.before) / Math.abs(changePoint.before) : 0;
+          const direction = changePoint.after > changePoint.before ? 'up' : 'down';
+
+          insights.push({
+            id: 'changepoint_' + column.name + '_' + changePoint.index,
+            type: 'trend',
+            title: column.name + ' shifted ' + direction + ' at ' + at,
+            description: 'Average level moved from ' + formatNumber(changePoint.before) + ' to ' + formatNumber(changePoint.after) +
+              (shift !== 0 ? ' (' + (shift > 0 ? '+' : '') + formatPercent(shift) + ')' : '') +
+              '; p = ' + changePoint.pValue.toPrecision(2) + ', effect size ' + changePoint.effectSize.toFixed(2),
+            confidence: confidenceFromPValue(changePoint.pValue),
+            severity: changePoint.effectSize > 1.2 || Math.abs(shift) > 0.3 ? 'high' : 'medium',
+            visualization: {
+              type: 'line',
+              config: { xAxis: timeColumn, yAxis: column.name, changePoints: [at] },
+              data: points
+            },
+            actions: [
+              action('compare_change_' + changePoint.index, 'Compare Before and After', 'filter', { column: timeColumn, splitAt: at }),
+              action('alert_change_' + changePoint.index, 'Alert on Further Shifts', 'alert', { column: column.name, baseline: changePoint.after })
+            ],
+            metadata: { generatedAt, dataPoints: series.length, columns: seriesColumns, timeRange }
+          });
+        });
+      }
+
+      // Outliers against the decomposition residual (or the raw series)
+      if (series.length >= 10) {
+        const outliers = robustOutliers(decomposition ? decomposition.residual : values);
+        if (outliers.indices.length > 0) {
+          const dates = outliers.indices.map(index => formatTime((series[index] as SeriesPoint).time));
+          const share = outliers.indices.length / series.length;
+
+          insights.push({
+            id: 'anomaly_' + column.name,
+            type: 'anomaly',
+            title: outliers.indices.length + ' unusual ' + (outliers.indices.length === 1 ? 'value' : 'values') + ' in ' + column.name,
+            description: formatPercent(share) + ' of points fall outside the expected range' +
+              (decomposition ? ' after accounting for trend and seasonality' : '') +
+              ' (' + (outliers.method === 'mad' ? 'median absolute deviation' : 'interquartile range') + '), e.g. ' +
+              dates.slice(0, 3).join(', '),
+            confidence: outliers.method === 'mad' ? 0.85 : 0.75,
+            severity: share > 0.05 ? 'high' : 'medium',
+            visualization: {
+              type: 'scatter',
+              config: { xAxis: timeColumn, yAxis: column.name, highlightAnomalies: true, anomalyIndices: outliers.indices },
+              data: points
+            },
+            actions: [
+              action('filter_anomalies', 'Filter Out Anomalies', 'filter', { column: column.name, excludeAnomalies: true, dates }),
+              action('inspect_anomalies', 'Inspect Anomalous Periods', 'drill_down', { column: timeColumn, values: dates })
+            ],
+            metadata: { generatedAt, dataPoints: series.length, columns: seriesColumns, timeRange }
+          });
+        }
+      }
+    });
+  }
+
+  function outlierInsights(): void {
+    numericColumns.forEach(column => {
+      if (analyzedAsSeries[column.name]) return;
+
+      const rowIndices: number[] = [];
+      const values: number[] = [];
+      for (let i = 0; i < data.length; i++) {
+        const value = toNumber(data[i][column.name]);
+        if (value === null) continue;
+        rowIndices.push(i);
+        values.push(value);
+      }
+      if (values.length < 10) return;
+
+      const outliers = robustOutliers(values);
+      if (outliers.indices.length === 0) return;
+
+      const share = outliers.indices.length / values.length;
+      insights.push({
+        id: 'anomaly_' + column.name,
+        type: 'anomaly',
+        title: outliers.indices.length + ' anomalies detected in ' + column.name,
+        description: formatPercent(share) + ' of values lie outside ' + formatNumber(outliers.lower) + ' – ' + formatNumber(outliers.upper) +
+          ' (' + (outliers.method === 'mad' ? 'modified z-score > 3.5' : '1.5 × IQR fences') + ')',
+        confidence: outliers.method === 'mad' ? 0.85 : 0.75,
+        severity: share > 0.05 ? 'high' : 'medium',
+        visualization: {
+          type: 'scatter',
+          config: {
+            highlightAnomalies: true,
+            anomalyIndices: outliers.indices.map(index => rowIndices[index] ?? index)
+          }
+        },
+        actions: [
+          action('filter_anomalies', 'Filter Out Anomalies', 'filter', {
+            column: column.name,
+            excludeAnomalies: true,
+            min: outliers.lower,
+            max: outliers.upper
+          })
+        ],
+        metadata: { generatedAt, dataPoints: values.length, columns: [column.name] }
+      });
+    });
+  }
+
+  /**
+   * Concentration of a measure (or row count) across the categories of a
+   * text column: Pareto (top 20% of categories ≥ 80% of the total) or a
+   * single dominant category, with the Herfindahl index for context.
+   */
+  function concentrationInsights(): void {
+    const measure = (request.valueColumns && request.valueColumns[0]) || (numericColumns[0] && numericColumns[0].name);
+    const categorical = columns.filter(col => col.type === 'text' || col.type === 'boolean').slice(0, 3);
+
+    categorical.forEach(column => {
+      const totals = new Map<string, number>();
+      let negative = false;
+      for (let i = 0; i < data.length; i++) {
+        const raw = data[i][column.name];
+        if (raw === null || raw === undefined || raw === '') continue;
+        const value = measure ? toNumber(data[i][measure]) : 1;
+        if (value === null) continue;
+        if (value < 0) negative = true;
+        const key = String(raw);
+        totals.set(key, (totals.get(key) || 0) + value);
+      }
+      // Shares are meaningless for signed measures or near-unique keys
+      if (negative || totals.size < 5 || totals.size > Math.max(50, data.length / 2)) return;
+
+      const ranked: Array<{ category: string; value: number }> = [];
+      totals.forEach((value, category) => ranked.push({ category, value }));
+      ranked.sort((a, b) => b.value - a.value);
+      const total = sum(ranked.map(entry => entry.value));
+      if (total <= 0) return;
+
+      const topCount = Math.max(1, Math.ceil(ranked.length * 0.2));
+      const topShare = sum(ranked.slice(0, topCount).map(entry => entry.value)) / total;
+      const leader = ranked[0] as { category: string; value: number };
+      const leaderShare = leader.value / total;
+      let hhi = 0;
+      ranked.forEach(entry => {
+        hhi += (entry.value / total) * (entry.value / total);
+      });
+
+      const pareto = topShare >= 0.8;
+      const dominant = leaderShare >= 0.5;
+      if (!pareto && !dominant) return;
+
+      const measureLabel = measure || 'rows';
+      const topCategories = ranked.slice(0, topCount).map(entry => entry.category);
+      let cumulative = 0;
+      const chartData = ranked.slice(0, 20).map(entry => {
+        cumulative += entry.value;
+        return { category: entry.category, value: entry.value, share: entry.value / total, cumulativeShare: cumulative / total };
+      });
+
+      insights.push({
+        id: 'pareto_' + column.name + '_' + measureLabel,
+        type: 'pattern',
+        title: dominant
+          ? leader.category + ' accounts for ' + formatPercent(leaderShare) + ' of ' + measureLabel
+          : 'Top ' + topCount + ' of ' + ranked.length + ' ' + column.name + ' values drive ' + formatPercent(topShare) + ' of ' + measureLabel,
+        description: 'The top 20% of ' + column.name + ' values (' + topCategories.slice(0, 5).join(', ') +
+          (topCategories.length > 5 ? ', …' : '') + ') hold ' + formatPercent(topShare) + ' of ' + measureLabel +
+          '. Herfindahl index ' + hhi.toFixed(2) + ' (' + (hhi > 0.25 ? 'highly concentrated' : hhi > 0.15 ? 'moderately concentrated' : 'diversified') + ').',
+        confidence: Math.min(0.95, 0.6 + topShare * 0.3 + Math.min(0.1, ranked.length / 200)),
+        severity: dominant || hhi > 0.25 ? 'high' : 'medium',
+        visualization: {
+          type: 'bar',
+          config: { xAxis: column.name, yAxis: measureLabel, showCumulativeLine: true },
+          data: chartData
+        },
+        actions: [
+          action('focus_top_' + column.name, 'Focus on Top Contributors', 'filter', { column: column.name, values: topCategories }),
+          action('drill_top_' + column.name, 'Break Down Top Contributors', 'drill_down', { column: column.name, values: topCategories, measure: measureLabel })
+        ],
+        metadata: { generatedAt, dataPoints: data.length, columns: measure ? [column.name, measure] : [column.name] }
+      });
+    });
+  }
+
+  function correlationInsights(): void {
+    for (let i = 0; i < numericColumns.length; i++) {
+      for (let j = i + 1; j < numericColumns.length; j++) {
+        const first = (numericColumns[i] as { name: string }).name;
+        const second = (numericColumns[j] as { name: string }).name;
+        const xs: number[] = [];
+        const ys: number[] = [];
+        for (let k = 0; k < data.length; k++) {
+          const x = toNumber(data[k][first]);
+          const y = toNumber(data[k][second]);
+          if (x === null || y === null) continue;
+          xs.push(x);
+          ys.push(y);
+        }
+
+        const fit = pearson(xs, ys);
+        if (Math.abs(fit.r) < 0.5 || fit.pValue >= alpha) continue;
+
+        const strength = Math.abs(fit.r) > 0.8 ? 'strong' : 'moderate';
+        const direction = fit.r > 0 ? 'positive' : 'negative';
+        insights.push({
+          id: 'correlation_' + first + '_' + second,
+          type: 'correlation',
+          title: strength + ' ' + direction + ' correlation between ' + first + ' and ' + second,
+          description: 'Correlation coefficient: ' + fit.r.toFixed(3) + ' (p = ' + fit.pValue.toPrecision(2) + ', n = ' + xs.length + ')',
+          confidence: Math.abs(fit.r) * confidenceFromPValue(fit.pValue),
+          severity: Math.abs(fit.r) > 0.8 ? 'high' : 'medium',
+          visualization: {
+            type: 'scatter',
+            config: { xAxis: first, yAxis: second, showTrendLine: true }
+          },
+          actions: [action('explore_correlation', 'Explore Relationship', 'drill_down', { columns: [first, second] })],
+          metadata: { generatedAt, dataPoints: xs.length, columns: [first, second] }
+        });
+      }
+    }
+  }
+
+  function recommendations(): void {
+    if (data.length > 1000) {
+      insights.push({
+        id: 'recommendation_sampling',
+        type: 'recommendation',
+        title: 'Consider data sampling for better performance',
+        description: 'Your dataset is large. Consider using sampling or pagination for faster analysis.',
+        confidence: 0.9,
+        severity: 'medium',
+        actions: [action('apply_sampling', 'Apply Random Sampling', 'filter', { type: 'sample', size: 1000 })],
+        metadata: { generatedAt, dataPoints: data.length, columns: columns.map(col => col.name) }
+      });
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+
+  const dateColumn = columns.filter(col => col.type === 'date')[0];
+  const timeColumn = request.timeColumn || (dateColumn && dateColumn.name);
+
+  summaryInsights();
+  if (timeColumn) timeSeriesInsights(timeColumn);
+  if (depth !== 'quick') outlierInsights();
+  concentrationInsights();
+  if (depth === 'comprehensive') correlationInsights();
+  recommendations();
+
+  return insights.sort((a, b) => b.confidence - a.confidence);
+}
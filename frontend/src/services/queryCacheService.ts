@@ -53,14 +53,17 @@ class QueryCacheService {
 
   private generateQueryHash(request: QueryRequest): string {
     const hashData = {
+      question: request.question,
       naturalLanguageQuery: request.naturalLanguageQuery,
       sessionId: request.sessionId,
       // Include relevant parameters that affect the result
       includeExplanation: request.includeExplanation,
-      maxRows: request.maxRows
+      maxRows: request.maxRows,
+      parameters: request.parameters
     };
 
-    return btoa(JSON.stringify(hashData)).replace(/[+/=]/g, '');
+    // btoa only accepts Latin-1, so encode the JSON as UTF-8 first
+    return btoa(unescape(encodeURIComponent(JSON.stringify(hashData)))).replace(/[+/=]/g, '');
   }
 
   private calculateSize(data: any): number {
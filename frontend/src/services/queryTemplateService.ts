@@ -4,6 +4,16 @@
  */
 
 import { z } from 'zod';
+import { ApiService } from './api';
+import {
+  bindTemplateSql,
+  BoundSqlQuery,
+  quoteSqlIdentifier,
+  renderTemplate,
+  resolveTemplateValues,
+  TemplateValues,
+  validateTemplateValues,
+} from '../utils/queryTemplateEngine';
 
 // Template schemas
 export const QueryTemplateSchema = z.object({
@@ -12,13 +22,22 @@ export const QueryTemplateSchema = z.object({
   description: z.string(),
   category: z.enum(['financial', 'operational', 'marketing', 'custom', 'favorites']),
   template: z.string(),
+  sql: z.string().optional(), // Parameterized SQL using the same variables
+  defaults: z.record(z.string()).optional(), // Template-level defaults
   variables: z.array(z.object({
     name: z.string(),
-    type: z.enum(['string', 'number', 'date', 'select']),
+    type: z.enum(['string', 'number', 'date', 'select', 'multiselect']),
     description: z.string(),
     required: z.boolean(),
     defaultValue: z.string().optional(),
     options: z.array(z.string()).optional(), // For select type
+    validation: z.object({
+      min: z.union([z.number(), z.string()]).optional(),
+      max: z.union([z.number(), z.string()]).optional(),
+      pattern: z.string().optional(),
+    }).optional(),
+    optionsSource: z.object({ table: z.string(), column: z.string() }).optional(),
+    bindAs: z.enum(['parameter', 'identifier']).optional(),
   })),
   tags: z.array(z.string()),
   difficulty: z.enum(['beginner', 'intermediate', 'advanced']),
@@ -47,14 +66,7 @@ export const QueryShortcutSchema = z.object({
 export type QueryTemplate = z.infer<typeof QueryTemplateSchema>;
 export type QueryShortcut = z.infer<typeof QueryShortcutSchema>;
 
-export interface TemplateVariable {
-  name: string;
-  type: 'string' | 'number' | 'date' | 'select';
-  description: string;
-  required: boolean;
-  defaultValue?: string;
-  options?: string[];
-}
+export type TemplateVariable = QueryTemplate['variables'][number];
 
 export interface QuerySuggestion {
   id: string;
@@ -72,6 +84,7 @@ export class QueryTemplateService {
   private shortcuts: QueryShortcut[] = [];
   private recentQueries: string[] = [];
   private favorites: Set<string> = new Set();
+  private optionCache: Map<string, Promise<string[]>> = new Map();
 
   private constructor() {
     this.initializeDefaultTemplates();
@@ -196,6 +209,61 @@ export class QueryTemplateService {
         isFavorite: false,
         isPublic: true,
       },
+      {
+        id: 'deposits-by-country',
+        name: 'Deposits by Country',
+        description: 'Total deposits and active players per country, optionally limited to selected countries',
+        category: 'financial',
+        template: 'Show me the top {{limit}} countries by deposits from {{startDate}} to {{endDate}}{{#if countries}} for {{countries}}{{/if}}',
+        sql: [
+          'SELECT TOP ({{limit}}) c.country_name, COUNT(DISTINCT da.player_id) AS active_players, SUM(da.deposit_amount) AS total_deposits',
+          'FROM tbl_Daily_actions da JOIN tbl_Countries c ON da.country_id = c.country_id',
+          'WHERE da.action_date BETWEEN {{startDate}} AND {{endDate}}',
+          '{{#if countries}}AND c.country_name IN ({{countries}}){{/if}}',
+          'GROUP BY c.country_name ORDER BY total_deposits DESC',
+        ].join('\n'),
+        defaults: {
+          limit: '20',
+        },
+        variables: [
+          {
+            name: 'startDate',
+            type: 'date',
+            description: 'Start date for analysis',
+            required: true,
+            defaultValue: '2024-01-01',
+          },
+          {
+            name: 'endDate',
+            type: 'date',
+            description: 'End date for analysis',
+            required: true,
+            defaultValue: '2024-12-31',
+          },
+          {
+            name: 'countries',
+            type: 'multiselect',
+            description: 'Countries to include (all when empty)',
+            required: false,
+            optionsSource: { table: 'tbl_Countries', column: 'country_name' },
+          },
+          {
+            name: 'limit',
+            type: 'number',
+            description: 'Number of countries to show',
+            required: true,
+            validation: { min: 1, max: 200 },
+          },
+        ],
+        tags: ['deposits', 'countries', 'financial', 'geography'],
+        difficulty: 'intermediate',
+        executionTime: '< 2s',
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+        usageCount: 0,
+        isFavorite: false,
+        isPublic: true,
+      },
       {
         id: 'daily-kpis',
         name: 'Daily KPI Dashboard',
@@ -439,19 +507,65 @@ export class QueryTemplateService {
     }));
   }
 
+  /**
+   * Resolve submitted values, falling back to variable then template defaults
+   */
+  public resolveValues(template: QueryTemplate, variables: Record<string, unknown>): TemplateValues {
+    return resolveTemplateValues(template.variables, variables, template.defaults);
+  }
+
+  /**
+   * Validate submitted values; returns an error message per invalid variable
+   */
+  public validateValues(template: QueryTemplate, variables: Record<string, unknown>): Record<string, string> {
+    return validateTemplateValues(template.variables, this.resolveValues(template, variables));
+  }
+
   /**
    * Process template with variables
    */
-  public processTemplate(template: QueryTemplate, variables: Record<string, string>): string {
-    let processed = template.template;
+  public processTemplate(template: QueryTemplate, variables: Record<string, unknown>): string {
+    return renderTemplate(template.template, this.resolveValues(template, variables));
+  }
 
-    template.variables.forEach(variable => {
-      const value = variables[variable.name] || variable.defaultValue || '';
-      const placeholder = `{{${variable.name}}}`;
-      processed = processed.replace(new RegExp(placeholder, 'g'), value);
-    });
+  /**
+   * Bind the template's SQL, passing every value as a parameter
+   */
+  public bindTemplate(template: QueryTemplate, variables: Record<string, unknown>): BoundSqlQuery {
+    if (!template.sql) {
+      throw new Error(`Template "${template.name}" has no SQL to bind`);
+    }
+    return bindTemplateSql(template.sql, template.variables, this.resolveValues(template, variables));
+  }
+
+  /**
+   * Get select options, loading distinct column values when the variable has a source
+   */
+  public getVariableOptions(variable: TemplateVariable, limit: number = 200): Promise<string[]> {
+    if (!variable.optionsSource) {
+      return Promise.resolve(variable.options ?? []);
+    }
+
+    const { table, column } = variable.optionsSource;
+    const key = `${table}.${column}`;
+    const cached = this.optionCache.get(key);
+    if (cached) return cached;
+
+    const quotedColumn = quoteSqlIdentifier(column);
+    const request = ApiService.executeRawSQL({
+      sql: `SELECT DISTINCT TOP ${Math.floor(limit)} ${quotedColumn} AS [value] FROM ${quoteSqlIdentifier(table)} WITH (NOLOCK) WHERE ${quotedColumn} IS NOT NULL ORDER BY [value]`,
+      sessionId: `template-options-${Date.now()}`,
+      options: { maxRows: limit, timeoutSeconds: 15 },
+    })
+      .then(response => (response.result?.data ?? []).map((row: Record<string, unknown>) => String(row['value'])))
+      .catch(error => {
+        console.warn(`Failed to load options for ${key}:`, error);
+        this.optionCache.delete(key);
+        return variable.options ?? [];
+      });
 
-    return processed;
+    this.optionCache.set(key, request);
+    return request;
   }
 
   /**
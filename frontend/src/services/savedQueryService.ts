@@ -0,0 +1,109 @@
+/**
+ * Saved Query Service
+ * Runs saved queries for dashboard widgets, caching results by query and
+ * parameter values so widgets sharing a query execute it once.
+ */
+
+import { ApiService } from './api';
+import { queryCacheService } from './queryCacheService';
+import { QueryRequest, QueryResponse } from '../types/query';
+import { SavedQuery } from '../types/visualization';
+
+export interface SavedQueryExecutionOptions {
+  /** Skip the cache lookup, e.g. for a scheduled or manual refresh */
+  bypassCache?: boolean;
+  /** How long the result stays fresh, in milliseconds */
+  ttl?: number;
+  maxRows?: number;
+}
+
+const DEFAULT_MAX_ROWS = 5000;
+
+class SavedQueryService {
+  private cacheReady: Promise<void> | null = null;
+  private inFlight: Map<string, Promise<QueryResponse>> = new Map();
+
+  private ensureCache(): Promise<void> {
+    if (!this.cacheReady) {
+      this.cacheReady = queryCacheService.init();
+    }
+    return this.cacheReady;
+  }
+
+  private isCacheEnabled(): boolean {
+    return localStorage.getItem('cache-enabled') !== 'false';
+  }
+
+  /**
+   * The request the cache is keyed on. The session id is fixed per saved
+   * query so every dashboard viewer shares the entry.
+   */
+  toCacheRequest(query: SavedQuery, maxRows: number = DEFAULT_MAX_ROWS): QueryRequest {
+    return {
+      question: query.question,
+      sessionId: `saved-query:${query.id}`,
+      options: { maxRows },
+      naturalLanguageQuery: query.sql || query.question,
+      maxRows,
+      parameters: query.parameters
+    };
+  }
+
+  async execute(query: SavedQuery, options: SavedQueryExecutionOptions = {}): Promise<QueryResponse> {
+    const maxRows = options.maxRows ?? DEFAULT_MAX_ROWS;
+    const request = this.toCacheRequest(query, maxRows);
+    const cacheEnabled = this.isCacheEnabled();
+
+    if (cacheEnabled) {
+      await this.ensureCache();
+      if (!options.bypassCache) {
+        const cached = await queryCacheService.getCachedResult(request);
+        if (cached) return { ...cached, cached: true };
+      }
+    }
+
+    // Widgets sharing a query wait on the same execution
+    const key = JSON.stringify([request.sessionId, request.parameters, maxRows]);
+    const pending = this.inFlight.get(key);
+    if (pending) return pending;
+
+    const execution = this.run(query, maxRows)
+      .then(async response => {
+        if (cacheEnabled && response.success) {
+          await queryCacheService.cacheResult(request, response, options.ttl);
+        }
+        return { ...response, cached: false };
+      })
+      .finally(() => this.inFlight.delete(key));
+
+    this.inFlight.set(key, execution);
+    return execution;
+  }
+
+  async invalidate(query: SavedQuery): Promise<void> {
+    await this.ensureCache();
+    await queryCacheService.invalidateCache(query.sql || query.question);
+  }
+
+  private run(query: SavedQuery, maxRows: number): Promise<QueryResponse> {
+    const sessionId = `saved-query:${query.id}`;
+
+    // Saved SQL is re-run as is; a question without SQL goes through generation again
+    if (query.sql) {
+      return ApiService.executeRawSQL({
+        sql: query.sql,
+        sessionId,
+        parameters: query.parameters,
+        options: { maxRows }
+      });
+    }
+
+    return ApiService.executeQuery({
+      question: query.question,
+      sessionId,
+      options: { maxRows, enableCache: false }
+    });
+  }
+}
+
+export const savedQueryService = new SavedQueryService();
@@ -1,6 +1,7 @@
 import { SecurityUtils } from '../utils/security';
 import { ApiService } from './api';
 import { API_CONFIG } from '../config/api';
+import { persistenceCrypto } from '../lib/persistence-crypto';
 
 interface TokenPair {
   accessToken: string;
@@ -308,6 +309,9 @@ class TokenManager {
     }
     this.tokenMetadata.clear();
     this.refreshPromise = null;
+
+    // New session, new key: encrypted state from this session becomes unreadable
+    persistenceCrypto.rotateKey();
   }
 }
 
@@ -52,6 +52,8 @@ export interface BusinessColumnInfo {
   dataExamples: string[];
   validationRules: string;
   isKeyColumn: boolean;
+  // PII or confidential data; masked in query results
+  isSensitiveData?: boolean;
   isActive: boolean;
 }
 
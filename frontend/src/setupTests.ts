@@ -5,6 +5,7 @@
 
 import '@testing-library/jest-dom';
 import { TextEncoder, TextDecoder } from 'util';
+import { serialize, deserialize } from 'v8';
 import { setupTestEnvironment } from './test-utils/testing-providers';
 import { ApiTestUtils } from './test-utils/api-test-utils';
 
@@ -18,6 +19,11 @@ ApiTestUtils.setupApiMocking();
 global.TextEncoder = TextEncoder;
 global.TextDecoder = TextDecoder as any;
 
+// jsdom lacks structuredClone, which fake-indexeddb uses to store records
+if (typeof global.structuredClone === 'undefined') {
+  global.structuredClone = ((value: any) => deserialize(serialize(value))) as typeof structuredClone;
+}
+
 
 
 // ===== GLOBAL MOCKS =====
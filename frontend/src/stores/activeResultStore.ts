@@ -4,8 +4,9 @@
  */
 
 import { create } from 'zustand';
-import { persist, subscribeWithSelector } from 'zustand/middleware';
+import { persist, subscribeWithSelector, PersistStorage } from 'zustand/middleware';
 import { immer } from 'zustand/middleware/immer';
+import { persistenceManager, persistenceConfigs } from '../lib/enhanced-persistence';
 import type { QueryResponse } from '../types/query';
 
 interface ActiveResultState {
@@ -25,8 +26,40 @@ interface ActiveResultState {
   refreshActiveResult: () => void;
 }
 
+type PersistedActiveResult = Pick<ActiveResultState, 'activeResult' | 'activeQuery' | 'lastUpdated' | 'sessionId'>;
+
 const DEFAULT_MAX_AGE_MS = 24 * 60 * 60 * 1000; // 24 hours
 
+// Results can run to many MB, so they live in IndexedDB rather than the ~5MB localStorage
+const resultStorage: PersistStorage<PersistedActiveResult> = {
+  getItem: async (name) => {
+    const stored = await persistenceManager.loadState(persistenceConfigs.queryResults);
+    if (stored) {
+      return stored;
+    }
+
+    // Move the copy written by the localStorage-backed store before this one
+    try {
+      const legacy = localStorage.getItem(name);
+      if (!legacy) {
+        return null;
+      }
+      const parsed = JSON.parse(legacy);
+      await persistenceManager.saveState(parsed, persistenceConfigs.queryResults);
+      localStorage.removeItem(name);
+      return parsed;
+    } catch (error) {
+      console.warn('Failed to migrate active result from localStorage:', error);
+      return null;
+    }
+  },
+  setItem: (_name, value) =>
+    persistenceManager.saveState(value, persistenceConfigs.queryResults).catch(error => {
+      console.warn('Failed to persist active result:', error);
+    }),
+  removeItem: () => persistenceManager.removeState(persistenceConfigs.queryResults)
+};
+
 export const useActiveResultStore = create<ActiveResultState>()(
   subscribeWithSelector(
     persist(
@@ -113,6 +146,7 @@ export const useActiveResultStore = create<ActiveResultState>()(
       {
         name: 'active-result-store',
         version: 1,
+        storage: resultStorage,
         // Only persist essential data
         partialize: (state) => ({
           activeResult: state.activeResult,
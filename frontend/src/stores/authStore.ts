@@ -20,6 +20,8 @@ interface AuthState {
   token: string | null;
   refreshToken: string | null;
   isAdmin: boolean;
+  // Random id for this login, shared by every tab through the persisted state
+  sessionId: string | null;
   login: (username: string, password: string) => Promise<boolean>;
   logout: () => void;
   refreshAuth: () => Promise<boolean>;
@@ -34,6 +36,7 @@ export const useAuthStore = create<AuthState>()(
       token: null,
       refreshToken: null,
       isAdmin: false,
+      sessionId: null,
 
       login: async (username: string, password: string) => {
         try {
@@ -97,19 +100,21 @@ export const useAuthStore = create<AuthState>()(
             console.log('🔐 Transformed user:', transformedUser);
             console.log('🔐 Is admin check:', transformedUser?.roles?.includes('Admin'));
 
+            // Create a secure session ID
+            const secureSessionId = SecurityUtils.generateSecureSessionId();
+
             set({
               isAuthenticated: true,
               user: transformedUser,
               token: encryptedToken,
               refreshToken: encryptedRefreshToken,
               isAdmin: transformedUser?.roles?.includes('Admin') || transformedUser?.roles?.includes('admin') || false,
+              sessionId: secureSessionId,
             });
 
             console.log('✅ Auth state updated successfully');
             console.log('✅ Current state after update:', get());
 
-            // Create a secure session ID
-            const secureSessionId = SecurityUtils.generateSecureSessionId();
             setSessionId(secureSessionId);
 
             // Store session data securely
@@ -153,6 +158,7 @@ export const useAuthStore = create<AuthState>()(
           token: null,
           refreshToken: null,
           isAdmin: false,
+          sessionId: null,
         });
 
         // Clear the session ID when logging out
@@ -227,6 +233,7 @@ export const useAuthStore = create<AuthState>()(
         token: state.token,
         refreshToken: state.refreshToken,
         isAdmin: state.isAdmin,
+        sessionId: state.sessionId,
       }),
     }
   )
@@ -31,7 +31,10 @@ export type {
   StreamingQueryChunkEvent,
   StreamingQueryCompletedEvent,
   StreamingQueryErrorEvent,
-  VisualizationRequest
+  VisualizationRequest,
+  MaskingStrategy,
+  PiiRevealRequest,
+  PiiRevealResponse
 } from './query';
 
 // Visualization types
@@ -57,6 +60,11 @@ export type {
   AdvancedDashboardConfig,
   DashboardLayout,
   GlobalFilter,
+  SavedQuery,
+  SavedQueryInput,
+  DashboardWidgetDefinition,
+  DashboardDefinition,
+  DashboardSummary,
   DashboardTheme,
   ResponsiveConfig,
   BreakpointConfig,
@@ -6,6 +6,7 @@ export interface QueryRequest {
   naturalLanguageQuery?: string;
   includeExplanation?: boolean;
   maxRows?: number;
+  parameters?: Record<string, string | number>; // Saved-query parameter values
 }
 
 export interface QueryOptions {
@@ -38,6 +39,7 @@ export interface QueryResponse {
   promptDetails?: PromptDetails;
   sessionId?: string;
   source?: string; // Added missing source property
+  parameters?: Record<string, string | number>; // Values bound to the SQL's @name placeholders
 }
 
 export interface QueryResult {
@@ -187,7 +189,7 @@ export interface WebSocketMessage {
 
 // Export options
 export interface ExportOptions {
-  format: 'csv' | 'excel' | 'pdf' | 'json';
+  format: 'csv' | 'ndjson' | 'excel' | 'pdf' | 'json' | 'parquet' | 'arrow';
   includeMetadata: boolean;
   filename?: string;
 }
@@ -384,3 +386,25 @@ export interface VisualizationRequest {
   columns: ColumnInfo[];
   data: any[];
 }
+
+// PII masking
+export type MaskingStrategy = 'none' | 'partial' | 'hash' | 'full' | 'redact';
+
+export interface PiiRevealRequest {
+  columns: Array<{
+    column: string;
+    // Business columns the result column was derived from, as schema.table.column
+    sources: string[];
+  }>;
+  reason: string;
+  maskingStrategy: MaskingStrategy;
+  sql?: string;
+  // Where the values were revealed, e.g. 'query-results'
+  context?: string;
+}
+
+export interface PiiRevealResponse {
+  success: boolean;
+  auditId: string;
+  revealedAt: string;
+}
@@ -200,6 +200,59 @@ export interface GlobalFilter {
   options?: any[];
 }
 
+// Saved queries and server-persisted dashboards
+export interface SavedQuery {
+  id: string;
+  name: string;
+  question: string;
+  sql: string;
+  parameters: Record<string, string | number>;
+  owner: string;
+  description?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SavedQueryInput = Pick<SavedQuery, 'name' | 'question' | 'sql' | 'parameters'> & {
+  description?: string;
+};
+
+export interface DashboardWidgetDefinition {
+  id: string;
+  type: 'bar' | 'line' | 'pie' | 'table' | 'scatter' | 'area';
+  title: string;
+  savedQueryId: string;
+  xAxis?: string;
+  yAxis?: string;
+  size: 'small' | 'medium' | 'large' | 'full';
+  position: { x: number; y: number };
+  config: Record<string, any>;
+  interaction?: Pick<InteractionConfig, 'enableBrush' | 'enableDataPointSelection'>;
+}
+
+export interface DashboardDefinition {
+  id: string;
+  title: string;
+  description: string;
+  widgets: DashboardWidgetDefinition[];
+  layout: 'grid' | 'freeform';
+  theme: 'light' | 'dark';
+  autoRefresh: boolean;
+  refreshInterval: number; // seconds
+  globalFilters: GlobalFilter[];
+  owner?: string;
+  updatedAt?: string;
+}
+
+export interface DashboardSummary {
+  id: string;
+  title: string;
+  description: string;
+  widgetCount: number;
+  owner: string;
+  updatedAt: string;
+}
+
 export interface DashboardTheme {
   name: string;
   backgroundColor: string;
@@ -0,0 +1,88 @@
+/**
+ * Query Template Engine Tests
+ * Mirrors frontend-v2/src/shared/utils/__tests__/queryTemplateEngine.test.ts
+ */
+
+import {
+  TemplateBindingError,
+  TemplateSyntaxError,
+  TemplateVariableSpec,
+  bindTemplateSql,
+  getTemplateVariableNames,
+  renderTemplate,
+  resolveTemplateValues,
+  validateTemplateValues
+} from '../queryTemplateEngine';
+
+const variables: TemplateVariableSpec[] = [
+  { name: 'country', type: 'string', required: true },
+  { name: 'since', type: 'date', required: false, validation: { min: '2020-01-01' } },
+  { name: 'limit', type: 'number', required: false, defaultValue: 10, validation: { min: 1, max: 100 } },
+  { name: 'statuses', type: 'multiselect', required: false, options: ['Open', 'Closed'] },
+  { name: 'sortBy', type: 'select', required: true, bindAs: 'identifier', options: ['Total', 'o.OrderDate'] }
+];
+
+const sql = `SELECT TOP (@limit) * FROM dbo.Orders o
+WHERE o.Country = '{{country}}'
+{{#if since}}AND o.OrderDate >= {{since}}{{/if}}
+{{#if statuses}}AND o.Status IN ({{statuses}}){{/if}}
+ORDER BY {{sortBy}}`;
+
+describe('parseTemplate', () => {
+  it('lists variables and condition flags in first-use order', () => {
+    expect(getTemplateVariableNames(sql)).toEqual(['country', 'since', 'statuses', 'sortBy']);
+  });
+
+  it('reports unbalanced blocks', () => {
+    expect(() => getTemplateVariableNames('{{#if a}}x')).toThrow(TemplateSyntaxError);
+    expect(() => getTemplateVariableNames('x{{/if}}')).toThrow(TemplateSyntaxError);
+    expect(() => getTemplateVariableNames('{{else}}')).toThrow(TemplateSyntaxError);
+  });
+});
+
+describe('renderTemplate', () => {
+  it('renders conditionals and joins lists for display', () => {
+    const question = 'Orders from {{country}}{{#if statuses}} in {{statuses}}{{else}} of any status{{/if}}';
+    expect(renderTemplate(question, { country: 'France', statuses: ['Open', 'Closed'] })).toBe('Orders from France in Open, Closed');
+    expect(renderTemplate(question, { country: 'France' })).toBe('Orders from France of any status');
+    expect(renderTemplate('{{#unless country}}Everywhere{{/unless}}', {})).toBe('Everywhere');
+  });
+});
+
+describe('resolveTemplateValues', () => {
+  it('prefers given values, then variable defaults, then template defaults', () => {
+    const resolved = resolveTemplateValues(variables, { country: ' France ', since: new Date('2024-05-01T00:00:00Z'), limit: '' }, { sortBy: 'Total' });
+    expect(resolved).toEqual({ country: 'France', since: '2024-05-01', limit: 10, statuses: undefined, sortBy: 'Total' });
+  });
+});
+
+describe('validateTemplateValues', () => {
+  it('checks required values, ranges and whitelists', () => {
+    const errors = validateTemplateValues(variables, { since: '2019-12-31', limit: 500, statuses: ['Open', 'Lost'], sortBy: 'Name' });
+    expect(errors).toEqual({
+      country: 'country is required',
+      since: 'since must be on or after 2020-01-01',
+      limit: 'limit must be at most 100',
+      statuses: 'statuses must be one of the listed values',
+      sortBy: 'sortBy must be one of the listed values'
+    });
+  });
+});
+
+describe('bindTemplateSql', () => {
+  it('binds values as parameters, drops quotes around them and inlines only whitelisted identifiers', () => {
+    const bound = bindTemplateSql(sql, variables, { country: "O'Brien", statuses: ['Open', 'Closed'], sortBy: 'o.OrderDate' });
+    expect(bound.sql).toBe(`SELECT TOP (@limit) * FROM dbo.Orders o
+WHERE o.Country = @country
+
+AND o.Status IN (@statuses_0, @statuses_1)
+ORDER BY [o].[OrderDate]`);
+    expect(bound.parameters).toEqual({ country: "O'Brien", statuses_0: 'Open', statuses_1: 'Closed' });
+  });
+
+  it('refuses identifiers outside the whitelist and missing values', () => {
+    expect(() => bindTemplateSql('ORDER BY {{sortBy}}', variables, { sortBy: 'Total; DROP TABLE x' })).toThrow(TemplateBindingError);
+    expect(() => bindTemplateSql('WHERE Country = {{country}}', variables, {})).toThrow('No value for "country"');
+    expect(() => bindTemplateSql('{{region}}', variables, { region: 'EU' })).toThrow('Unknown template variable "region"');
+  });
+});
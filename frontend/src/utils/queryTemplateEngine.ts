@@ -0,0 +1,355 @@
+/**
+ * Query Template Engine
+ *
+ * Parses `{{variable}}` placeholders and `{{#if variable}}…{{else}}…{{/if}}`
+ * (or `{{#unless}}`) blocks, validates values against typed variable
+ * definitions and produces either display text or SQL with `@name`
+ * parameters. Values never reach SQL text; only identifiers chosen from a
+ * whitelist are inlined, bracket-quoted.
+ *
+ * frontend-v2 has the same engine in src/shared/utils/queryTemplateEngine.ts.
+ * Create React App only compiles files under src/, so the apps cannot import
+ * one copy; change both together and keep their test suites in step.
+ */
+
+export type TemplateVariableType = 'string' | 'text' | 'number' | 'date' | 'select' | 'multiselect';
+
+export type TemplateOption = string | { label: string; value: string | number };
+
+export interface TemplateVariableSpec {
+  name: string;
+  type: TemplateVariableType;
+  required: boolean;
+  label?: string | undefined;
+  description?: string | undefined;
+  defaultValue?: unknown;
+  options?: TemplateOption[] | undefined;
+  validation?: {
+    min?: number | string | undefined;
+    max?: number | string | undefined;
+    pattern?: string | undefined;
+  } | undefined;
+  /** Load select options from the distinct values of a column */
+  optionsSource?: {
+    table: string;
+    column: string;
+  } | undefined;
+  /** Identifiers (tables, columns) are inlined from the option whitelist instead of bound */
+  bindAs?: 'parameter' | 'identifier' | undefined;
+}
+
+export type TemplateValue = string | number | Array<string | number>;
+export type TemplateValues = Record<string, TemplateValue | undefined>;
+
+export type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'variable'; name: string }
+  | { kind: 'conditional'; name: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+export interface BoundSqlQuery {
+  sql: string;
+  parameters: Record<string, string | number>;
+}
+
+export class TemplateSyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+export class TemplateBindingError extends Error {
+  constructor(message: string, public variable: string) {
+    super(message);
+    this.name = 'TemplateBindingError';
+  }
+}
+
+const TAG_PATTERN = /\{\{\s*([#/]?)\s*([A-Za-z_][\w.]*)?\s*([A-Za-z_][\w]*)?\s*\}\}/g;
+
+interface OpenBlock {
+  node: Extract<TemplateNode, { kind: 'conditional' }>;
+  inElse: boolean;
+  position: number;
+}
+
+/**
+ * Parses a template into text, variable and conditional nodes.
+ */
+export function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: OpenBlock[] = [];
+  const target = (): TemplateNode[] => {
+    const open = stack[stack.length - 1];
+    if (!open) return root;
+    return open.inElse ? open.node.otherwise : open.node.then;
+  };
+
+  let last = 0;
+  TAG_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TAG_PATTERN.exec(source)) !== null) {
+    if (match.index > last) {
+      target().push({ kind: 'text', text: source.slice(last, match.index) });
+    }
+    last = match.index + match[0].length;
+
+    const [, sigil, word, argument] = match;
+    if (sigil === '#') {
+      if ((word !== 'if' && word !== 'unless') || !argument) {
+        throw new TemplateSyntaxError(`Expected {{#if name}} or {{#unless name}} at ${match.index}`, match.index);
+      }
+      const node: OpenBlock['node'] = { kind: 'conditional', name: argument, negate: word === 'unless', then: [], otherwise: [] };
+      target().push(node);
+      stack.push({ node, inElse: false, position: match.index });
+    } else if (sigil === '/') {
+      if (stack.length === 0 || (word !== 'if' && word !== 'unless')) {
+        throw new TemplateSyntaxError(`Unexpected ${match[0]} at ${match.index}`, match.index);
+      }
+      stack.pop();
+    } else if (word === 'else' && !argument) {
+      const open = stack[stack.length - 1];
+      if (!open || open.inElse) {
+        throw new TemplateSyntaxError(`Unexpected {{else}} at ${match.index}`, match.index);
+      }
+      open.inElse = true;
+    } else if (word && !argument) {
+      target().push({ kind: 'variable', name: word });
+    } else {
+      throw new TemplateSyntaxError(`Invalid tag ${match[0]} at ${match.index}`, match.index);
+    }
+  }
+
+  const unclosed = stack[stack.length - 1];
+  if (unclosed) {
+    throw new TemplateSyntaxError(`Unclosed {{#${unclosed.node.negate ? 'unless' : 'if'} ${unclosed.node.name}}}`, unclosed.position);
+  }
+  if (last < source.length) {
+    root.push({ kind: 'text', text: source.slice(last) });
+  }
+  return root;
+}
+
+/**
+ * Names of all variables and condition flags, in first-use order.
+ */
+export function getTemplateVariableNames(source: string): string[] {
+  const names: string[] = [];
+  const visit = (nodes: TemplateNode[]) => nodes.forEach(node => {
+    if (node.kind === 'text') return;
+    if (!names.includes(node.name)) names.push(node.name);
+    if (node.kind === 'conditional') {
+      visit(node.then);
+      visit(node.otherwise);
+    }
+  });
+  visit(parseTemplate(source));
+  return names;
+}
+
+export const getOptionValue = (option: TemplateOption): string | number =>
+  typeof option === 'object' ? option.value : option;
+
+export const getOptionLabel = (option: TemplateOption): string =>
+  typeof option === 'object' ? option.label : option;
+
+const formatDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Coerces form output (strings, numbers, Date, dayjs) to the variable's type.
+ * Empty input becomes undefined so defaults can apply.
+ */
+export function normalizeTemplateValue(variable: Pick<TemplateVariableSpec, 'type'>, raw: unknown): TemplateValue | undefined {
+  if (raw === undefined || raw === null || raw === '') return undefined;
+
+  if (variable.type === 'multiselect') {
+    const items = Array.isArray(raw) ? raw : String(raw).split(',');
+    const values = items
+      .map(item => (typeof item === 'number' ? item : String(item).trim()))
+      .filter(item => item !== '');
+    return values.length > 0 ? values : undefined;
+  }
+
+  if (variable.type === 'number') {
+    return typeof raw === 'number' ? raw : Number(String(raw).trim());
+  }
+
+  if (variable.type === 'date') {
+    if (raw instanceof Date) return formatDate(raw);
+    const formattable = raw as { format?: (pattern: string) => string };
+    if (typeof formattable.format === 'function') return formattable.format('YYYY-MM-DD');
+  }
+
+  return typeof raw === 'number' ? raw : String(raw).trim() || undefined;
+}
+
+/**
+ * Applies precedence: provided value, then the variable's default, then the
+ * template-level default.
+ */
+export function resolveTemplateValues(
+  variables: TemplateVariableSpec[],
+  values: Record<string, unknown>,
+  templateDefaults: Record<string, unknown> = {}
+): TemplateValues {
+  const resolved: TemplateValues = {};
+  variables.forEach(variable => {
+    resolved[variable.name] =
+      normalizeTemplateValue(variable, values[variable.name]) ??
+      normalizeTemplateValue(variable, variable.defaultValue) ??
+      normalizeTemplateValue(variable, templateDefaults[variable.name]);
+  });
+  return resolved;
+}
+
+const isDateString = (value: string): boolean =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(new Date(`${value}T00:00:00Z`).getTime());
+
+/**
+ * Validates resolved values; returns an error message per invalid variable.
+ */
+export function validateTemplateValues(variables: TemplateVariableSpec[], values: TemplateValues): Record<string, string> {
+  const errors: Record<string, string> = {};
+
+  variables.forEach(variable => {
+    const label = variable.label || variable.description || variable.name;
+    const value = values[variable.name];
+    const { min, max, pattern } = variable.validation ?? {};
+
+    if (value === undefined) {
+      if (variable.required) errors[variable.name] = `${label} is required`;
+      return;
+    }
+
+    if (variable.type === 'number') {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        errors[variable.name] = `${label} must be a number`;
+      } else if (typeof min === 'number' && value < min) {
+        errors[variable.name] = `${label} must be at least ${min}`;
+      } else if (typeof max === 'number' && value > max) {
+        errors[variable.name] = `${label} must be at most ${max}`;
+      }
+      return;
+    }
+
+    if (variable.type === 'date') {
+      if (typeof value !== 'string' || !isDateString(value)) {
+        errors[variable.name] = `${label} must be a date (YYYY-MM-DD)`;
+      } else if (typeof min === 'string' && value < min) {
+        errors[variable.name] = `${label} must be on or after ${min}`;
+      } else if (typeof max === 'string' && value > max) {
+        errors[variable.name] = `${label} must be on or before ${max}`;
+      }
+      return;
+    }
+
+    const allowed = variable.options?.map(option => String(getOptionValue(option)));
+    const chosen = Array.isArray(value) ? value.map(String) : [String(value)];
+    const needsWhitelist = variable.type === 'select' || variable.type === 'multiselect' || variable.bindAs === 'identifier';
+    if (needsWhitelist && allowed && allowed.length > 0 && chosen.some(item => !allowed.includes(item))) {
+      errors[variable.name] = `${label} must be one of the listed values`;
+      return;
+    }
+
+    if (pattern && chosen.some(item => !new RegExp(pattern).test(item))) {
+      errors[variable.name] = `${label} has an invalid format`;
+    }
+  });
+
+  return errors;
+}
+
+const isPresent = (value: TemplateValue | undefined): boolean =>
+  value !== undefined && (!Array.isArray(value) || value.length > 0);
+
+type RenderPiece = { text: string } | { name: string; value: TemplateValue | undefined };
+
+const flatten = (nodes: TemplateNode[], values: TemplateValues, pieces: RenderPiece[] = []): RenderPiece[] => {
+  nodes.forEach(node => {
+    if (node.kind === 'text') {
+      pieces.push({ text: node.text });
+    } else if (node.kind === 'variable') {
+      pieces.push({ name: node.name, value: values[node.name] });
+    } else {
+      const active = isPresent(values[node.name]) !== node.negate;
+      flatten(active ? node.then : node.otherwise, values, pieces);
+    }
+  });
+  return pieces;
+};
+
+/**
+ * Renders display text, e.g. a natural-language question.
+ */
+export function renderTemplate(source: string, values: TemplateValues): string {
+  return flatten(parseTemplate(source), values)
+    .map(piece => {
+      if ('text' in piece) return piece.text;
+      if (piece.value === undefined) return '';
+      return Array.isArray(piece.value) ? piece.value.join(', ') : String(piece.value);
+    })
+    .join('')
+    .replace(/[ \t]{2,}/g, ' ')
+    .trim();
+}
+
+export const quoteSqlIdentifier = (value: string): string =>
+  value.split('.').map(part => `[${part.replace(/^\[|\]$/g, '').replace(/]/g, ']]')}]`).join('.');
+
+const toParameterName = (name: string): string => name.replace(/\W/g, '_');
+
+/**
+ * Renders SQL with every value bound as an `@name` parameter. A placeholder
+ * written inside quotes ('{{name}}') has its quotes dropped, and list values
+ * expand to `@name_0, @name_1`.
+ */
+export function bindTemplateSql(source: string, variables: TemplateVariableSpec[], values: TemplateValues): BoundSqlQuery {
+  const byName = new Map(variables.map(variable => [variable.name, variable]));
+  const pieces = flatten(parseTemplate(source), values);
+  const parameters: Record<string, string | number> = {};
+  let sql = '';
+
+  pieces.forEach((piece, index) => {
+    if ('text' in piece) {
+      sql += piece.text;
+      return;
+    }
+
+    const variable = byName.get(piece.name);
+    if (!variable) {
+      throw new TemplateBindingError(`Unknown template variable "${piece.name}"`, piece.name);
+    }
+    if (piece.value === undefined) {
+      throw new TemplateBindingError(`No value for "${piece.name}"`, piece.name);
+    }
+
+    if (variable.bindAs === 'identifier') {
+      const allowed = (variable.options ?? []).map(option => String(getOptionValue(option)));
+      const identifier = String(piece.value);
+      if (!allowed.includes(identifier)) {
+        throw new TemplateBindingError(`"${identifier}" is not an allowed value for ${piece.name}`, piece.name);
+      }
+      sql += quoteSqlIdentifier(identifier);
+      return;
+    }
+
+    const next = pieces[index + 1];
+    if (sql.endsWith("'") && next && 'text' in next && next.text.startsWith("'")) {
+      sql = sql.slice(0, -1);
+      pieces[index + 1] = { text: next.text.slice(1) };
+    }
+
+    const name = toParameterName(piece.name);
+    if (Array.isArray(piece.value)) {
+      sql += piece.value.map((item, position) => {
+        parameters[`${name}_${position}`] = item;
+        return `@${name}_${position}`;
+      }).join(', ');
+    } else {
+      parameters[name] = piece.value;
+      sql += `@${name}`;
+    }
+  });
+
+  return { sql: sql.trim(), parameters };
+}
@@ -1,9 +1,12 @@
 import DOMPurify from 'dompurify';
+import { SqlParser, SqlDiagnostic, SqlSafetyOptions, SqlSafetyReport, analyzeSqlSafety, isKnownStatementKeyword } from './sql';
 
 interface ValidationResult {
   isValid: boolean;
   errors: string[];
   warnings: string[];
+  // Positioned findings from the SQL safety policy (Monaco marker compatible)
+  diagnostics: SqlDiagnostic[];
   sanitizedQuery?: string;
   riskLevel: 'low' | 'medium' | 'high';
 }
@@ -18,75 +21,12 @@ interface QueryPattern {
 export class QueryValidator {
   private static readonly MAX_QUERY_LENGTH = 5000;
   private static readonly MAX_NESTED_DEPTH = 5;
-  
-  // Dangerous SQL patterns that should be blocked
-  private static readonly DANGEROUS_PATTERNS: QueryPattern[] = [
-    {
-      pattern: /\b(DROP|DELETE|TRUNCATE|ALTER|CREATE|INSERT|UPDATE)\s+/i,
-      severity: 'error',
-      message: 'Data modification operations are not allowed',
-      riskLevel: 'high'
-    },
-    {
-      pattern: /\b(EXEC|EXECUTE|SP_|XP_)\s*\(/i,
-      severity: 'error',
-      message: 'Stored procedure execution is not allowed',
-      riskLevel: 'high'
-    },
-    {
-      pattern: /\b(UNION\s+ALL\s+SELECT|UNION\s+SELECT)\b/i,
-      severity: 'warning',
-      message: 'UNION operations should be used carefully',
-      riskLevel: 'medium'
-    },
-    {
-      pattern: /\b(INFORMATION_SCHEMA|SYS\.|SYSOBJECTS|SYSCOLUMNS)\b/i,
-      severity: 'error',
-      message: 'System schema access is not allowed',
-      riskLevel: 'high'
-    },
-    {
-      pattern: /\b(WAITFOR|DELAY)\s+/i,
-      severity: 'error',
-      message: 'Time delay operations are not allowed',
-      riskLevel: 'high'
-    },
-    {
-      pattern: /\b(OPENROWSET|OPENDATASOURCE|OPENQUERY)\s*\(/i,
-      severity: 'error',
-      message: 'External data source access is not allowed',
-      riskLevel: 'high'
-    },
-    {
-      pattern: /\b(BULK\s+INSERT|BCP)\b/i,
-      severity: 'error',
-      message: 'Bulk operations are not allowed',
-      riskLevel: 'high'
-    },
-    {
-      pattern: /\b(SHUTDOWN|KILL)\s+/i,
-      severity: 'error',
-      message: 'System control operations are not allowed',
-      riskLevel: 'high'
-    },
-    {
-      pattern: /\b(CAST|CONVERT)\s*\(\s*.*\s+AS\s+(XML|VARBINARY)\s*\)/i,
-      severity: 'warning',
-      message: 'XML and binary conversions should be used carefully',
-      riskLevel: 'medium'
-    },
-    {
-      pattern: /\b(CURSOR|FETCH|DEALLOCATE)\b/i,
-      severity: 'warning',
-      message: 'Cursor operations may impact performance',
-      riskLevel: 'medium'
-    }
-  ];
 
-  // Suspicious patterns that indicate potential injection attempts
-  private static readonly INJECTION_PATTERNS: QueryPattern[] = [
+  // Injection attempts embedded in free-text questions. SQL text itself is
+  // checked structurally by SqlSafetyPolicy instead of by pattern matching.
+  private static readonly NATURAL_LANGUAGE_PATTERNS: QueryPattern[] = [
     {
-      pattern: /['"];\s*(DROP|DELETE|INSERT|UPDATE|CREATE|ALTER)/i,
+      pattern: /['"]?;\s*(DROP|DELETE|INSERT|UPDATE|CREATE|ALTER|TRUNCATE|EXEC|EXECUTE)\b/i,
       severity: 'error',
       message: 'Potential SQL injection detected',
       riskLevel: 'high'
@@ -97,12 +37,6 @@ export class QueryValidator {
       message: 'Potential tautology-based injection detected',
       riskLevel: 'high'
     },
-    {
-      pattern: /\b(OR|AND)\s+['"].*['"]?\s*=\s*['"].*['"]?/i,
-      severity: 'warning',
-      message: 'Suspicious comparison pattern detected',
-      riskLevel: 'medium'
-    },
     {
       pattern: /\b(UNION\s+SELECT\s+NULL|UNION\s+ALL\s+SELECT\s+NULL)/i,
       severity: 'error',
@@ -110,13 +44,13 @@ export class QueryValidator {
       riskLevel: 'high'
     },
     {
-      pattern: /\b(CONCAT|CHAR|ASCII|SUBSTRING)\s*\(/i,
+      pattern: /\b(UNION\s+ALL\s+SELECT|UNION\s+SELECT)\b/i,
       severity: 'warning',
-      message: 'String manipulation functions should be used carefully',
+      message: 'UNION operations should be used carefully',
       riskLevel: 'medium'
     },
     {
-      pattern: /\b(BENCHMARK|SLEEP|PG_SLEEP)\s*\(/i,
+      pattern: /\b(WAITFOR\s+DELAY|BENCHMARK\s*\(|SLEEP\s*\(|PG_SLEEP\s*\()/i,
       severity: 'error',
       message: 'Time-based attack patterns detected',
       riskLevel: 'high'
@@ -126,40 +60,61 @@ export class QueryValidator {
       severity: 'error',
       message: 'File system access attempts detected',
       riskLevel: 'high'
-    }
-  ];
-
-  // Comment patterns that might hide malicious code
-  private static readonly COMMENT_PATTERNS: QueryPattern[] = [
-    {
-      pattern: /\/\*.*?\*\//gs,
-      severity: 'warning',
-      message: 'Block comments detected - review for hidden content',
-      riskLevel: 'low'
-    },
-    {
-      pattern: /--.*$/gm,
-      severity: 'warning',
-      message: 'Line comments detected - review for hidden content',
-      riskLevel: 'low'
     },
     {
-      pattern: /#.*$/gm,
+      pattern: /(--|\/\*)/,
       severity: 'warning',
-      message: 'Hash comments detected - review for hidden content',
+      message: 'SQL comment sequence detected - review for hidden content',
       riskLevel: 'low'
     }
   ];
 
-  static validateQuery(query: string): ValidationResult {
+  /**
+   * Validate SQL text against the read-only policy: the query is parsed into
+   * an AST, so keywords inside string literals, comments or bracketed
+   * identifiers can neither trigger nor evade the checks.
+   */
+  static validateQuery(query: string, options: SqlSafetyOptions = {}): ValidationResult {
+    const result = this.validateBasics(query);
+    if (!result.isValid) {
+      return result;
+    }
+
+    result.sanitizedQuery = this.sanitizeQuery(query);
+    this.applySqlPolicy(query, options, result);
+
+    result.riskLevel = this.calculateRiskLevel(result);
+    result.isValid = result.errors.length === 0;
+
+    return result;
+  }
+
+  /**
+   * Whether the text is a T-SQL statement rather than a natural-language
+   * question: it must parse, hold one statement, and start with a statement keyword.
+   */
+  static isSqlQuery(query: string): boolean {
+    try {
+      const script = SqlParser.parse(query);
+      const [statement] = script.statements;
+      if (!statement || script.statements.length !== 1) {
+        return false;
+      }
+      return statement.type === 'selectStatement' || isKnownStatementKeyword(statement.keyword);
+    } catch {
+      return false;
+    }
+  }
+
+  private static validateBasics(query: string): ValidationResult {
     const result: ValidationResult = {
       isValid: true,
       errors: [],
       warnings: [],
+      diagnostics: [],
       riskLevel: 'low'
     };
 
-    // Basic validation
     if (!query || typeof query !== 'string') {
       result.isValid = false;
       result.errors.push('Query must be a non-empty string');
@@ -167,40 +122,34 @@ export class QueryValidator {
       return result;
     }
 
-    // Length validation
     if (query.length > this.MAX_QUERY_LENGTH) {
       result.isValid = false;
       result.errors.push(`Query exceeds maximum length of ${this.MAX_QUERY_LENGTH} characters`);
       result.riskLevel = 'high';
-      return result;
     }
 
-    // Sanitize the query
-    const sanitizedQuery = this.sanitizeQuery(query);
-    result.sanitizedQuery = sanitizedQuery;
-
-    // Check for dangerous patterns
-    this.checkPatterns(sanitizedQuery, this.DANGEROUS_PATTERNS, result);
-    
-    // Check for injection patterns
-    this.checkPatterns(sanitizedQuery, this.INJECTION_PATTERNS, result);
-    
-    // Check for suspicious comments
-    this.checkPatterns(sanitizedQuery, this.COMMENT_PATTERNS, result);
-
-    // Check nesting depth
-    this.validateNestingDepth(sanitizedQuery, result);
+    return result;
+  }
 
-    // Check for balanced parentheses
-    this.validateParentheses(sanitizedQuery, result);
+  // Run SqlSafetyPolicy and fold its diagnostics into the result
+  private static applySqlPolicy(query: string, options: SqlSafetyOptions, result: ValidationResult): SqlSafetyReport {
+    const report = analyzeSqlSafety(query, { maxNestingDepth: this.MAX_NESTED_DEPTH, ...options });
 
-    // Determine overall risk level
-    result.riskLevel = this.calculateRiskLevel(result);
+    for (const diagnostic of report.diagnostics) {
+      const message = `${diagnostic.message} (line ${diagnostic.startLineNumber}, column ${diagnostic.startColumn})`;
+      if (diagnostic.severity === 'error') {
+        result.errors.push(message);
+      } else if (diagnostic.severity === 'warning') {
+        result.warnings.push(message);
+      }
+      result.diagnostics.push(diagnostic);
 
-    // Set validity based on errors
-    result.isValid = result.errors.length === 0;
+      if (this.getRiskLevelValue(diagnostic.riskLevel) > this.getRiskLevelValue(result.riskLevel)) {
+        result.riskLevel = diagnostic.riskLevel;
+      }
+    }
 
-    return result;
+    return report;
   }
 
   private static sanitizeQuery(query: string): string {
@@ -243,47 +192,6 @@ export class QueryValidator {
     }
   }
 
-  private static validateNestingDepth(query: string, result: ValidationResult): void {
-    let depth = 0;
-    let maxDepth = 0;
-
-    for (const char of query) {
-      if (char === '(') {
-        depth++;
-        maxDepth = Math.max(maxDepth, depth);
-      } else if (char === ')') {
-        depth--;
-      }
-    }
-
-    if (maxDepth > this.MAX_NESTED_DEPTH) {
-      result.warnings.push(`Query nesting depth (${maxDepth}) exceeds recommended maximum (${this.MAX_NESTED_DEPTH})`);
-      if (result.riskLevel === 'low') {
-        result.riskLevel = 'medium';
-      }
-    }
-  }
-
-  private static validateParentheses(query: string, result: ValidationResult): void {
-    let balance = 0;
-    
-    for (const char of query) {
-      if (char === '(') {
-        balance++;
-      } else if (char === ')') {
-        balance--;
-        if (balance < 0) {
-          result.errors.push('Unbalanced parentheses detected');
-          return;
-        }
-      }
-    }
-
-    if (balance !== 0) {
-      result.errors.push('Unbalanced parentheses detected');
-    }
-  }
-
   private static calculateRiskLevel(result: ValidationResult): 'low' | 'medium' | 'high' {
     if (result.errors.length > 0) {
       return 'high';
@@ -293,11 +201,7 @@ export class QueryValidator {
       return 'medium';
     }
     
-    if (result.warnings.length > 0) {
-      return 'low';
-    }
-    
-    return 'low';
+    return result.riskLevel;
   }
 
   private static getRiskLevelValue(level: 'low' | 'medium' | 'high'): number {
@@ -309,10 +213,20 @@ export class QueryValidator {
     }
   }
 
-  // Additional validation for natural language queries
+  // Validation for natural language questions; pasted SQL gets the full SQL policy
   static validateNaturalLanguageQuery(query: string): ValidationResult {
-    const result = this.validateQuery(query);
-    
+    if (this.isSqlQuery(query)) {
+      return this.validateQuery(query);
+    }
+
+    const result = this.validateBasics(query);
+    if (!result.isValid) {
+      return result;
+    }
+
+    result.sanitizedQuery = this.sanitizeQuery(query);
+    this.checkPatterns(result.sanitizedQuery, this.NATURAL_LANGUAGE_PATTERNS, result);
+
     // Additional checks for natural language
     const suspiciousKeywords = [
       'javascript:', 'data:', 'vbscript:', 'onload', 'onerror', 'onclick',
@@ -322,49 +236,44 @@ export class QueryValidator {
     for (const keyword of suspiciousKeywords) {
       if (query.toLowerCase().includes(keyword.toLowerCase())) {
         result.errors.push(`Suspicious keyword detected: ${keyword}`);
-        result.riskLevel = 'high';
-        result.isValid = false;
       }
     }
 
+    result.riskLevel = this.calculateRiskLevel(result);
+    result.isValid = result.errors.length === 0;
+
     return result;
   }
 
   // Validate query context and permissions
   static validateQueryContext(query: string, userRoles: string[], allowedTables: string[]): ValidationResult {
-    const result = this.validateQuery(query);
-    
+    // Table access can only be checked on SQL; questions are resolved to tables server-side
+    if (!this.isSqlQuery(query)) {
+      return this.validateNaturalLanguageQuery(query);
+    }
+
+    const result = this.validateBasics(query);
+    if (!result.isValid) {
+      return result;
+    }
+
+    result.sanitizedQuery = this.sanitizeQuery(query);
+    const report = this.applySqlPolicy(query, { allowedTables }, result);
+
     // Check if user has permission for advanced queries
     const hasAdvancedPermissions = userRoles.includes('admin') || userRoles.includes('analyst');
-    
-    if (!hasAdvancedPermissions) {
+    const advancedFeatures = report.features;
+
+    if (!hasAdvancedPermissions && advancedFeatures.length > 0) {
       // More restrictive validation for regular users
-      const advancedPatterns = [
-        /\b(JOIN|UNION|SUBQUERY|CTE|WITH)\b/i,
-        /\b(CASE\s+WHEN|IF\s*\(|COALESCE|ISNULL)\b/i
-      ];
-
-      for (const pattern of advancedPatterns) {
-        if (pattern.test(query)) {
-          result.warnings.push('Advanced SQL features require elevated permissions');
-          if (result.riskLevel === 'low') {
-            result.riskLevel = 'medium';
-          }
-        }
-      }
+      result.warnings.push(`Advanced SQL features require elevated permissions (found: ${advancedFeatures.join(', ')})`);
     }
 
-    // Validate table access
-    const tablePattern = /\bFROM\s+(\w+)/gi;
-    let match;
-    while ((match = tablePattern.exec(query)) !== null) {
-      const tableName = match[1];
-      if (!allowedTables.includes(tableName.toLowerCase())) {
-        result.errors.push(`Access to table '${tableName}' is not permitted`);
-        result.riskLevel = 'high';
-        result.isValid = false;
-      }
+    result.riskLevel = this.calculateRiskLevel(result);
+    if (!hasAdvancedPermissions && advancedFeatures.length > 0 && result.riskLevel === 'low') {
+      result.riskLevel = 'medium';
     }
+    result.isValid = result.errors.length === 0;
 
     return result;
   }
@@ -0,0 +1,416 @@
+/**
+ * PII masking for query results
+ *
+ * Result columns are traced back through the SQL (aliases, expressions, `*`,
+ * CTEs, derived tables, subqueries and UNION branches) to the business
+ * columns they were selected from. Values of columns flagged as sensitive are
+ * then masked with the strategy of the viewer's role. A column that can't be
+ * traced is masked too; when the query can't be parsed at all, columns are
+ * matched on name alone.
+ *
+ * frontend-v2 keeps the same rules in src/shared/utils/piiMasking.ts, over
+ * its own SQL parser and business metadata API (which adds isPII). Create
+ * React App only compiles files under src/, so the apps cannot share one
+ * copy; change both together and keep their test suites in step.
+ */
+
+import { SecurityUtils } from '../../config/security';
+import { SqlParser } from '../sql/SqlParser';
+import { walkSqlAst } from '../sql/SqlAst';
+import type { Expression, ObjectName, QueryBody, QuerySpecification, SelectQuery, TableSource } from '../sql/SqlAst';
+import type { BusinessColumnInfo, BusinessTableInfo } from '../../services/tuningApi';
+import type { MaskingStrategy } from '../../types/query';
+
+export interface MaskingPolicy {
+  // '*' applies to users none of the other policies match
+  role: string;
+  strategy: MaskingStrategy;
+  canReveal: boolean;
+}
+
+export interface PiiColumn {
+  column: string;
+  // Business columns the result column was derived from, as schema.table.column
+  sources: string[];
+}
+
+// Least to most restrictive
+const STRATEGY_ORDER: MaskingStrategy[] = ['none', 'partial', 'hash', 'full', 'redact'];
+
+export const DEFAULT_MASKING_POLICIES: MaskingPolicy[] = [
+  { role: 'Admin', strategy: 'partial', canReveal: true },
+  // Hashes keep equal values equal, so analysts can still group and join on them
+  { role: 'Analyst', strategy: 'hash', canReveal: false },
+  { role: 'Viewer', strategy: 'full', canReveal: false },
+  { role: '*', strategy: 'redact', canReveal: false }
+];
+
+export const REDACTED = '[REDACTED]';
+
+// Aggregates over a PII column that don't reveal its values
+const COUNTING_FUNCTIONS = new Set(['COUNT', 'COUNT_BIG', 'APPROX_COUNT_DISTINCT']);
+
+const lower = (value?: string) => (value ?? '').toLowerCase();
+
+const lastPart = (name: ObjectName): string => name.parts[name.parts.length - 1]?.name ?? '';
+
+const sourceName = (table: BusinessTableInfo, column: BusinessColumnInfo) =>
+  `${table.schemaName}.${table.tableName}.${column.columnName}`;
+
+export const isPiiColumn = (column: Pick<BusinessColumnInfo, 'isSensitiveData'>): boolean =>
+  column.isSensitiveData === true;
+
+/**
+ * Policy for a user's roles. Someone with several roles gets the least
+ * restrictive strategy among them, and may reveal if any of them may.
+ */
+export function resolveMaskingPolicy(
+  roles: string[],
+  policies: MaskingPolicy[] = DEFAULT_MASKING_POLICIES
+): Omit<MaskingPolicy, 'role'> {
+  const userRoles = roles.map(lower);
+  const matching = policies.filter(policy => policy.role !== '*' && userRoles.includes(lower(policy.role)));
+  const applicable = matching.length > 0 ? matching : policies.filter(policy => policy.role === '*');
+  if (applicable.length === 0) return { strategy: 'redact', canReveal: false };
+
+  const strategy = applicable
+    .map(policy => policy.strategy)
+    .reduce((least, candidate) => (STRATEGY_ORDER.indexOf(candidate) < STRATEGY_ORDER.indexOf(least) ? candidate : least));
+  return { strategy, canReveal: applicable.some(policy => policy.canReveal) };
+}
+
+/** An output column of a query and the PII it can carry */
+interface TracedColumn {
+  // Lower-cased; absent for unaliased expressions
+  name?: string;
+  sources: string[];
+  // False when part of it couldn't be traced to a known column
+  resolved: boolean;
+}
+
+interface TableBinding {
+  name: string;
+  alias?: string;
+  // Undefined for tables without metadata and table functions
+  columns?: TracedColumn[];
+}
+
+interface Scope {
+  bindings: TableBinding[];
+  // The enclosing query of a subquery, for correlated references
+  outer?: Scope;
+}
+
+type CteColumns = Map<string, TracedColumn[]>;
+
+const untraced = (sources: string[] = []): TracedColumn => ({ sources, resolved: false });
+
+const mergeTraced = (into: TracedColumn, other: TracedColumn): TracedColumn => ({
+  ...(into.name !== undefined && { name: into.name }),
+  sources: Array.from(new Set([...into.sources, ...other.sources])),
+  resolved: into.resolved && other.resolved
+});
+
+/** Column lists like `cte (a, b)` and `AS t (a, b)` rename the outputs by position */
+const renameColumns = (columns: TracedColumn[], names: { name: string }[]): TracedColumn[] =>
+  names.length === 0 ? columns : columns.map((column, index) => {
+    const name = names[index]?.name;
+    return name ? { ...column, name: lower(name) } : column;
+  });
+
+const tableColumns = (table: BusinessTableInfo): TracedColumn[] =>
+  (table.columns ?? []).map(column => ({
+    name: lower(column.columnName),
+    sources: isPiiColumn(column) ? [sourceName(table, column)] : [],
+    resolved: true
+  }));
+
+const bindTables = (
+  sources: TableSource[],
+  tables: BusinessTableInfo[],
+  ctes: CteColumns,
+  outer: Scope | undefined,
+  bindings: TableBinding[] = []
+): TableBinding[] => {
+  sources.forEach(source => {
+    if (source.type === 'join') {
+      bindTables([source.left, source.right], tables, ctes, outer, bindings);
+      return;
+    }
+    const alias = source.alias?.name;
+    const named = { name: alias ?? '', ...(alias && { alias }) };
+
+    if (source.type === 'derivedTable') {
+      // APPLY can refer to the tables before it
+      const scope = { bindings: [...bindings], ...(outer && { outer }) };
+      bindings.push({ ...named, columns: renameColumns(traceQuery(source.query, tables, ctes, scope), source.columns) });
+      return;
+    }
+    if (source.type === 'valuesTable') {
+      // Literals typed into the query
+      bindings.push({ ...named, columns: source.columns.map(column => ({ name: lower(column.name), sources: [], resolved: true })) });
+      return;
+    }
+    if (source.type !== 'tableReference') {
+      bindings.push(named);
+      return;
+    }
+
+    const parts = source.name.parts.map(part => part.name);
+    const name = parts[parts.length - 1] ?? '';
+    const schema = parts.length > 1 ? parts[parts.length - 2] : undefined;
+    const cte = parts.length === 1 ? ctes.get(lower(name)) : undefined;
+    const table = cte ? undefined : tables.find(candidate =>
+      lower(candidate.tableName) === lower(name) && (!schema || lower(candidate.schemaName) === lower(schema))
+    );
+    const columns = cte ?? (table && tableColumns(table));
+    bindings.push({ name, ...(alias && { alias }), ...(columns && { columns }) });
+  });
+  return bindings;
+};
+
+const isBoundTo = (binding: TableBinding, qualifier: string) =>
+  lower(binding.alias) === qualifier || lower(binding.name) === qualifier;
+
+/** PII columns with this name in any of the tables */
+const piiSourcesByName = (columnName: string, tables: BusinessTableInfo[]): string[] =>
+  tables.flatMap(table =>
+    (table.columns ?? [])
+      .filter(column => lower(column.columnName) === lower(columnName) && isPiiColumn(column))
+      .map(column => sourceName(table, column))
+  );
+
+/**
+ * The column a reference reads, looked up in its own query and then in the
+ * ones enclosing it. A column no known source has, or that may come from a
+ * table without metadata, is untraced.
+ */
+const traceReference = (reference: ObjectName, scope: Scope, tables: BusinessTableInfo[]): TracedColumn => {
+  const columnName = lower(lastPart(reference));
+  const qualifier = reference.parts.length > 1 ? lower(reference.parts[reference.parts.length - 2]?.name) : undefined;
+
+  for (let current: Scope | undefined = scope; current; current = current.outer) {
+    const candidates = current.bindings.filter(binding => !qualifier || isBoundTo(binding, qualifier));
+    if (candidates.length === 0) continue;
+
+    const matches = candidates.flatMap(binding => (binding.columns ?? []).filter(column => column.name === columnName));
+    if (matches.length > 0) {
+      return matches.reduce(mergeTraced, { sources: [], resolved: true });
+    }
+    if (qualifier || candidates.some(binding => !binding.columns)) break;
+  }
+  return untraced(piiSourcesByName(columnName, tables));
+};
+
+/** PII an expression reads, scalar subqueries included */
+const traceExpression = (
+  expression: Expression,
+  scope: Scope,
+  tables: BusinessTableInfo[],
+  ctes: CteColumns
+): TracedColumn => {
+  let traced: TracedColumn = { sources: [], resolved: true };
+  walkSqlAst(expression, (node, ancestors) => {
+    // Subqueries are traced as a whole; counting doesn't reveal values
+    const skipped = ancestors.some(ancestor =>
+      ancestor.type === 'selectQuery' ||
+      (ancestor.type === 'functionCall' && COUNTING_FUNCTIONS.has(lastPart(ancestor.name).toUpperCase()))
+    );
+    if (skipped) return;
+
+    if (node.type === 'columnReference') {
+      traced = mergeTraced(traced, traceReference(node.name, scope, tables));
+    } else if (node.type === 'subquery' && !node.quantifier) {
+      traced = mergeTraced(traced, traceQuery(node.query, tables, ctes, scope)[0] ?? untraced());
+    }
+  });
+  return traced;
+};
+
+const traceSpecification = (
+  specification: QuerySpecification,
+  tables: BusinessTableInfo[],
+  ctes: CteColumns,
+  outer: Scope | undefined
+): TracedColumn[] => {
+  const scope: Scope = { bindings: bindTables(specification.from, tables, ctes, outer), ...(outer && { outer }) };
+
+  return specification.columns.flatMap(item => {
+    if (item.type === 'star') {
+      const qualifier = item.qualifier ? lower(lastPart(item.qualifier)) : undefined;
+      // A source with unknown columns stands in as one untraced column
+      return scope.bindings
+        .filter(binding => !qualifier || isBoundTo(binding, qualifier))
+        .flatMap(binding => binding.columns ?? [untraced()]);
+    }
+
+    const name = item.alias?.name ?? (item.expression.type === 'columnReference' ? lastPart(item.expression.name) : undefined);
+    return [{ ...traceExpression(item.expression, scope, tables, ctes), ...(name && { name: lower(name) }) }];
+  });
+};
+
+const traceBody = (body: QueryBody, tables: BusinessTableInfo[], ctes: CteColumns, outer: Scope | undefined): TracedColumn[] => {
+  if (body.type === 'querySpecification') return traceSpecification(body, tables, ctes, outer);
+  if (body.type === 'selectQuery') return traceQuery(body, tables, ctes, outer);
+
+  const left = traceBody(body.left, tables, ctes, outer);
+  // EXCEPT and INTERSECT return rows of the left query
+  if (body.operator !== 'UNION' && body.operator !== 'UNION ALL') return left;
+
+  // UNION takes its names from the first query and matches the rest by position
+  const right = traceBody(body.right, tables, ctes, outer);
+  const aligned = left.length === right.length;
+  return left.map((column, index) => mergeTraced(column, (aligned && right[index]) || untraced()));
+};
+
+/** Output columns of a query, in order */
+function traceQuery(query: SelectQuery, tables: BusinessTableInfo[], ctes: CteColumns, outer?: Scope): TracedColumn[] {
+  // Each CTE can read the ones defined before it
+  const scoped = new Map(ctes);
+  query.ctes.forEach(cte => {
+    scoped.set(lower(cte.name.name), renameColumns(traceQuery(cte.query, tables, scoped, outer), cte.columns));
+  });
+  return traceBody(query.body, tables, scoped, outer);
+}
+
+/**
+ * Output columns of the script's SELECT statements by lower-cased name, with
+ * unaliased expressions merged under ''. Undefined when the SQL can't be parsed.
+ */
+const tracePiiSources = (sql: string, tables: BusinessTableInfo[]): Map<string, TracedColumn> | undefined => {
+  let script;
+  try {
+    script = SqlParser.parse(sql);
+  } catch {
+    return undefined;
+  }
+
+  const traced = new Map<string, TracedColumn>();
+  script.statements.forEach(statement => {
+    if (statement.type !== 'selectStatement') return;
+
+    traceQuery(statement.query, tables, new Map()).forEach(column => {
+      const key = column.name ?? '';
+      const existing = traced.get(key);
+      traced.set(key, existing ? mergeTraced(existing, column) : column);
+    });
+  });
+  return traced;
+};
+
+/**
+ * Result columns that hold PII, with the business columns they came from.
+ * A column the SQL can't trace may hold anything and counts as PII; without
+ * parseable SQL, columns are matched on name.
+ */
+export function resolvePiiColumns(resultColumns: string[], tables: BusinessTableInfo[], sql?: string): PiiColumn[] {
+  const traced = sql ? tracePiiSources(sql, tables) : undefined;
+
+  return resultColumns.flatMap(column => {
+    if (!traced) {
+      const sources = piiSourcesByName(column, tables);
+      return sources.length > 0 ? [{ column, sources }] : [];
+    }
+
+    // Names the SQL doesn't give belong to its unaliased expressions
+    const match = traced.get(lower(column)) ?? traced.get('');
+    if (match?.resolved) {
+      return match.sources.length > 0 ? [{ column, sources: match.sources }] : [];
+    }
+    return [{ column, sources: match && match.sources.length > 0 ? match.sources : piiSourcesByName(column, tables) }];
+  });
+}
+
+// The 'hash' strategy uses HMAC-SHA-256 under a key generated per page load
+// that can't be exported, so hashes can't be recomputed (or a list of likely
+// values tried against them) anywhere else. Equal values hash alike within
+// the session, so analysts can still group and join on them.
+let hashKey: Promise<CryptoKey> | undefined;
+
+const getHashKey = (): Promise<CryptoKey> => {
+  if (!hashKey) {
+    hashKey = crypto.subtle.generateKey({ name: 'HMAC', hash: 'SHA-256' }, false, ['sign']) as Promise<CryptoKey>;
+  }
+  return hashKey;
+};
+
+/** Looks up a value's hash; undefined while it hasn't been computed */
+export type HashLookup = (text: string) => string | undefined;
+
+/** Hex HMAC of the text, truncated to 64 bits */
+export async function hashText(text: string): Promise<string> {
+  const signature = await crypto.subtle.sign('HMAC', await getHashKey(), new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(signature).slice(0, 8), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/** Hashes of the texts, keyed by text */
+export async function hashValues(texts: Iterable<string>): Promise<Map<string, string>> {
+  const unique = Array.from(new Set(texts));
+  const hashes = await Promise.all(unique.map(hashText));
+  return new Map(unique.map((text, index) => [text, hashes[index] ?? '']));
+}
+
+const maskPartially = (text: string): string => {
+  const at = text.indexOf('@');
+  if (at > 0) {
+    // Emails keep their first letter and domain
+    return `${text[0]}${'*'.repeat(Math.max(at - 1, 1))}${text.slice(at)}`;
+  }
+  // Up to the last four characters, never more than a third of the value
+  return SecurityUtils.maskSensitiveData(text, Math.min(4, Math.floor(text.length / 3)));
+};
+
+/**
+ * Masks a value. Hashes come from `hashOf` since HMACs are computed
+ * asynchronously (see hashValues); until a value's hash is known it is
+ * masked in full.
+ */
+export function maskValue(value: unknown, strategy: MaskingStrategy, hashOf?: HashLookup): unknown {
+  if (value === null || value === undefined || strategy === 'none') return value;
+  const text = value instanceof Date ? value.toISOString() : String(value);
+
+  switch (strategy) {
+    case 'partial':
+      return maskPartially(text);
+    case 'hash': {
+      const hash = hashOf?.(text);
+      return hash ? `#${hash}` : '*'.repeat(Math.max(text.length, 1));
+    }
+    case 'full':
+      return '*'.repeat(Math.max(text.length, 1));
+    case 'redact':
+      return REDACTED;
+  }
+}
+
+/** Masks the listed columns of row objects */
+export function maskRecords<T extends Record<string, any>>(
+  rows: T[],
+  strategies: Record<string, MaskingStrategy>,
+  hashOf?: HashLookup
+): T[] {
+  const columns = Object.entries(strategies).filter(([, strategy]) => strategy !== 'none');
+  if (columns.length === 0) return rows;
+
+  return rows.map(row => {
+    const masked: Record<string, any> = { ...row };
+    columns.forEach(([column, strategy]) => {
+      if (column in masked) masked[column] = maskValue(masked[column], strategy, hashOf);
+    });
+    return masked as T;
+  });
+}
+
+/** maskRecords with every hash computed, for exports and fetched pages */
+export async function maskRecordsHashed<T extends Record<string, any>>(
+  rows: T[],
+  strategies: Record<string, MaskingStrategy>
+): Promise<T[]> {
+  const texts: string[] = [];
+  maskRecords(rows, strategies, text => {
+    texts.push(text);
+    return undefined;
+  });
+  const hashes = texts.length > 0 ? await hashValues(texts) : new Map<string, string>();
+  return maskRecords(rows, strategies, text => hashes.get(text));
+}
@@ -0,0 +1,110 @@
+/**
+ * PiiMasking Tests
+ * Covers tracing result columns to sensitive business columns and masking them by role.
+ * Mirrors frontend-v2/src/shared/utils/__tests__/piiMasking.test.ts
+ */
+
+import { TextEncoder } from 'util';
+import { webcrypto } from 'crypto';
+import type { BusinessColumnInfo, BusinessTableInfo } from '../../../services/tuningApi';
+import {
+  REDACTED,
+  hashText,
+  hashValues,
+  maskRecords,
+  maskRecordsHashed,
+  maskValue,
+  resolveMaskingPolicy,
+  resolvePiiColumns
+} from '../PiiMasking';
+
+// jsdom has no WebCrypto; Node's implementation stands in for the browser's
+Object.assign(globalThis, { TextEncoder });
+Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+
+const column = (columnName: string, isSensitiveData = false) =>
+  ({ id: 0, columnName, isSensitiveData }) as unknown as BusinessColumnInfo;
+
+const table = (tableName: string, columns: BusinessColumnInfo[]) =>
+  ({ id: 0, schemaName: 'dbo', tableName, columns }) as unknown as BusinessTableInfo;
+
+const tables = [
+  table('Customers', [column('CustomerId'), column('Email', true), column('FullName', true), column('Country'), column('Ssn', true)]),
+  table('Orders', [column('OrderId'), column('CustomerId'), column('Email'), column('Total')]),
+  table('Products', [column('ProductId'), column('Name')])
+];
+
+describe('resolvePiiColumns', () => {
+  it('follows aliases and expressions back to the business columns', () => {
+    const sql = `
+      SELECT c.Email AS Contact, UPPER(c.FullName) AS Name, o.Email AS OrderEmail, COUNT(c.Email) AS Customers
+      FROM dbo.Customers c JOIN Orders o ON o.CustomerId = c.CustomerId
+      GROUP BY c.Email, c.FullName, o.Email`;
+    expect(resolvePiiColumns(['Contact', 'Name', 'OrderEmail', 'Customers'], tables, sql)).toEqual([
+      { column: 'Contact', sources: ['dbo.Customers.Email'] },
+      { column: 'Name', sources: ['dbo.Customers.FullName'] }
+    ]);
+  });
+
+  it('expands stars and falls back to names when the SQL is unparseable', () => {
+    const sql = 'SELECT o.*, c.* FROM Orders o JOIN Customers c ON c.CustomerId = o.CustomerId';
+    expect(resolvePiiColumns(['OrderId', 'Email', 'FullName'], tables, sql).map(pii => pii.column))
+      .toEqual(['Email', 'FullName']);
+    expect(resolvePiiColumns(['FullName'], tables, 'SELECT FullName FROM (')).toHaveLength(1);
+  });
+
+  it('follows columns through CTEs and derived tables', () => {
+    expect(resolvePiiColumns(['s'], tables, 'WITH c AS (SELECT Ssn AS s FROM dbo.Customers) SELECT s FROM c'))
+      .toEqual([{ column: 's', sources: ['dbo.Customers.Ssn'] }]);
+    expect(resolvePiiColumns(['a'], tables, 'SELECT t.a FROM (SELECT Ssn AS a FROM dbo.Customers) t'))
+      .toEqual([{ column: 'a', sources: ['dbo.Customers.Ssn'] }]);
+  });
+
+  it('follows scalar subqueries', () => {
+    expect(resolvePiiColumns(['e'], tables, 'SELECT (SELECT TOP 1 Email FROM dbo.Customers) AS e'))
+      .toEqual([{ column: 'e', sources: ['dbo.Customers.Email'] }]);
+  });
+
+  it('maps UNION branches onto the first branch by position', () => {
+    const sql = 'SELECT Name, ProductId FROM dbo.Products UNION SELECT Email, CustomerId FROM dbo.Customers';
+    expect(resolvePiiColumns(['Name', 'ProductId'], tables, sql)).toEqual([{ column: 'Name', sources: ['dbo.Customers.Email'] }]);
+  });
+
+  it('treats columns it cannot trace as sensitive', () => {
+    expect(resolvePiiColumns(['Code', 'Total'], tables, 'SELECT x.Code, o.Total FROM dbo.Unknown x JOIN Orders o ON o.OrderId = x.Id'))
+      .toEqual([{ column: 'Code', sources: [] }]);
+    expect(resolvePiiColumns(['', 'Orders'], tables, 'SELECT UPPER(Country), COUNT(*) AS Orders FROM Customers')).toEqual([]);
+  });
+});
+
+describe('resolveMaskingPolicy', () => {
+  it('gives users the least restrictive policy among their roles', () => {
+    expect(resolveMaskingPolicy(['Viewer', 'analyst'])).toEqual({ strategy: 'hash', canReveal: false });
+    expect(resolveMaskingPolicy(['Admin'])).toEqual({ strategy: 'partial', canReveal: true });
+    expect(resolveMaskingPolicy(['User'])).toEqual({ strategy: 'redact', canReveal: false });
+  });
+});
+
+describe('masking values', () => {
+  it('applies each strategy to the listed columns only', () => {
+    expect(maskValue('jane.doe@example.com', 'partial')).toBe('j*******@example.com');
+    expect(maskValue('555-123-4567', 'partial')).toBe('********4567');
+    expect(maskValue(null, 'full')).toBeNull();
+    expect(maskRecords([{ Email: 'a@b.io', Total: 5 }], { Email: 'redact' })).toEqual([{ Email: REDACTED, Total: 5 }]);
+  });
+
+  it('hashes with an HMAC and masks in full until the hash is known', async () => {
+    const hashes = await hashValues(['Smith', 'Smyth', 'Smith']);
+    const hashOf = (text: string) => hashes.get(text);
+    expect(hashes.size).toBe(2);
+    expect(maskValue('Smith', 'hash', hashOf)).toBe(`#${await hashText('Smith')}`);
+    expect(maskValue('Smith', 'hash', hashOf)).toMatch(/^#[0-9a-f]{16}$/);
+    expect(maskValue('Smith', 'hash', hashOf)).not.toBe(maskValue('Smyth', 'hash', hashOf));
+    expect(maskValue('Smith', 'hash')).toBe('*****');
+  });
+
+  it('computes the hashes before masking records for export', async () => {
+    expect(await maskRecordsHashed([{ Email: 'a@b.io', Total: 5 }], { Email: 'hash' }))
+      .toEqual([{ Email: `#${await hashText('a@b.io')}`, Total: 5 }]);
+  });
+});
@@ -43,6 +43,19 @@ export { SecurityUtils } from '../security';
 // export { NetworkSecurityManager } from './NetworkSecurityManager';
 
 // Privacy & Compliance
+export {
+  DEFAULT_MASKING_POLICIES,
+  REDACTED,
+  hashText,
+  hashValues,
+  isPiiColumn,
+  maskRecords,
+  maskRecordsHashed,
+  maskValue,
+  resolveMaskingPolicy,
+  resolvePiiColumns
+} from './PiiMasking';
+export type { HashLookup, MaskingPolicy, PiiColumn } from './PiiMasking';
 // export { PrivacyManager } from './PrivacyManager';
 // export { GDPRCompliance } from './GDPRCompliance';
 // export { DataProtection } from './DataProtection';
@@ -0,0 +1,386 @@
+/**
+ * T-SQL AST
+ *
+ * Node types produced by SqlParser. Only the read-only subset of T-SQL
+ * (SELECT queries and CTEs) is modelled in detail; every other statement is
+ * kept as an UnsupportedStatement so policies can report it precisely.
+ */
+
+import { SourceRange, SqlComment } from './SqlTokenizer';
+
+interface BaseNode {
+  range: SourceRange;
+}
+
+export interface Identifier extends BaseNode {
+  type: 'identifier';
+  name: string;
+  quoted: boolean;
+}
+
+// Multi-part name: [server.][database.][schema.]object. Omitted parts in
+// `db..table` are kept as empty identifiers so positions stay meaningful.
+export interface ObjectName extends BaseNode {
+  type: 'objectName';
+  parts: Identifier[];
+}
+
+export interface SqlScript extends BaseNode {
+  type: 'script';
+  statements: SqlStatement[];
+  comments: SqlComment[];
+}
+
+export type SqlStatement = SelectStatement | UnsupportedStatement;
+
+export interface SelectStatement extends BaseNode {
+  type: 'selectStatement';
+  query: SelectQuery;
+  options: string[];
+}
+
+// Any statement that is not a query: INSERT, EXEC, DROP, DECLARE, ...
+export interface UnsupportedStatement extends BaseNode {
+  type: 'unsupportedStatement';
+  keyword: string;
+  keywordRange: SourceRange;
+}
+
+export interface CommonTableExpression extends BaseNode {
+  type: 'cte';
+  name: Identifier;
+  columns: Identifier[];
+  query: SelectQuery;
+}
+
+// A complete query: WITH ... <body> ORDER BY ... OFFSET ... FETCH ...
+export interface SelectQuery extends BaseNode {
+  type: 'selectQuery';
+  ctes: CommonTableExpression[];
+  body: QueryBody;
+  orderBy: OrderByItem[];
+  offset?: OffsetFetch;
+  forClause?: string;
+}
+
+export type QueryBody = QuerySpecification | SetOperation | SelectQuery;
+
+export interface QuerySpecification extends BaseNode {
+  type: 'querySpecification';
+  distinct: boolean;
+  top?: TopClause;
+  columns: SelectItem[];
+  into?: ObjectName;
+  from: TableSource[];
+  where?: Expression;
+  groupBy: Expression[];
+  having?: Expression;
+}
+
+export interface SetOperation extends BaseNode {
+  type: 'setOperation';
+  operator: 'UNION' | 'UNION ALL' | 'EXCEPT' | 'INTERSECT';
+  left: QueryBody;
+  right: QueryBody;
+}
+
+export interface TopClause extends BaseNode {
+  type: 'top';
+  value: Expression;
+  percent: boolean;
+  withTies: boolean;
+}
+
+export interface OffsetFetch extends BaseNode {
+  type: 'offsetFetch';
+  offset: Expression;
+  fetch?: Expression;
+}
+
+export interface OrderByItem extends BaseNode {
+  type: 'orderByItem';
+  expression: Expression;
+  direction: 'ASC' | 'DESC';
+}
+
+export type SelectItem = StarExpression | SelectExpression;
+
+export interface SelectExpression extends BaseNode {
+  type: 'selectExpression';
+  expression: Expression;
+  alias?: Identifier;
+}
+
+export type TableSource = TableReference | DerivedTable | TableFunction | ChangeTable | ValuesTable | JoinedTable;
+
+export interface TableReference extends BaseNode {
+  type: 'tableReference';
+  name: ObjectName;
+  systemTime?: SystemTimeClause;
+  alias?: Identifier;
+  sample?: TableSample;
+  hints: string[];
+}
+
+// Temporal table query: FOR SYSTEM_TIME AS OF / FROM ... TO / BETWEEN ... AND / CONTAINED IN / ALL
+export interface SystemTimeClause extends BaseNode {
+  type: 'systemTime';
+  kind: 'AS OF' | 'FROM' | 'BETWEEN' | 'CONTAINED IN' | 'ALL';
+  values: Expression[];
+}
+
+// TABLESAMPLE [SYSTEM] (size PERCENT | ROWS) [REPEATABLE (seed)]
+export interface TableSample extends BaseNode {
+  type: 'tableSample';
+  size: Expression;
+  unit: 'PERCENT' | 'ROWS';
+  repeatable?: Expression;
+}
+
+export interface DerivedTable extends BaseNode {
+  type: 'derivedTable';
+  query: SelectQuery;
+  alias?: Identifier;
+  columns: Identifier[];
+}
+
+// Table-valued function or rowset provider: OPENJSON(...), OPENROWSET(...), dbo.fn(...)
+export interface TableFunction extends BaseNode {
+  type: 'tableFunction';
+  call: FunctionCall;
+  // Legacy `::fn_name()` call, which always resolves to a system function
+  systemCall?: boolean;
+  alias?: Identifier;
+  columns: Identifier[];
+}
+
+// Change tracking rows: CHANGETABLE(CHANGES table, version) or CHANGETABLE(VERSION table, (keys), (values))
+export interface ChangeTable extends BaseNode {
+  type: 'changeTable';
+  kind: 'CHANGES' | 'VERSION';
+  table: ObjectName;
+  // CHANGES: the last synchronized version; VERSION: the primary key values
+  args: Expression[];
+  // VERSION only: the primary key columns the values belong to
+  keyColumns: Identifier[];
+  alias?: Identifier;
+  columns: Identifier[];
+}
+
+export interface ValuesTable extends BaseNode {
+  type: 'valuesTable';
+  rows: Expression[][];
+  alias?: Identifier;
+  columns: Identifier[];
+}
+
+export interface JoinedTable extends BaseNode {
+  type: 'join';
+  joinType: 'INNER' | 'LEFT' | 'RIGHT' | 'FULL' | 'CROSS' | 'CROSS APPLY' | 'OUTER APPLY';
+  left: TableSource;
+  right: TableSource;
+  on?: Expression;
+}
+
+export type Expression =
+  | Literal
+  | ColumnReference
+  | Variable
+  | StarExpression
+  | FunctionCall
+  | CastExpression
+  | UnaryExpression
+  | BinaryExpression
+  | IsNullExpression
+  | InExpression
+  | BetweenExpression
+  | LikeExpression
+  | ExistsExpression
+  | SubqueryExpression
+  | CaseExpression
+  | CollateExpression
+  | NextValueForExpression;
+
+export interface Literal extends BaseNode {
+  type: 'literal';
+  // `default` is the DEFAULT keyword passed for an optional function argument
+  kind: 'string' | 'number' | 'binary' | 'null' | 'default';
+  value: string;
+}
+
+export interface ColumnReference extends BaseNode {
+  type: 'columnReference';
+  name: ObjectName;
+}
+
+export interface Variable extends BaseNode {
+  type: 'variable';
+  name: string;
+  system: boolean;
+}
+
+// `*` or `alias.*` in a select list, or `*` in COUNT(*)
+export interface StarExpression extends BaseNode {
+  type: 'star';
+  qualifier?: ObjectName;
+}
+
+export interface DataType extends BaseNode {
+  type: 'dataType';
+  name: string;
+  args: string[];
+}
+
+export interface WindowSpecification extends BaseNode {
+  type: 'window';
+  partitionBy: Expression[];
+  orderBy: OrderByItem[];
+  frame?: string;
+}
+
+export interface FunctionCall extends BaseNode {
+  type: 'functionCall';
+  name: ObjectName;
+  args: Expression[];
+  distinct: boolean;
+  // First argument of CONVERT / TRY_CONVERT
+  dataType?: DataType;
+  withinGroup?: OrderByItem[];
+  over?: WindowSpecification;
+}
+
+export interface CastExpression extends BaseNode {
+  type: 'cast';
+  function: 'CAST' | 'TRY_CAST';
+  expression: Expression;
+  dataType: DataType;
+}
+
+export interface UnaryExpression extends BaseNode {
+  type: 'unary';
+  operator: string;
+  operand: Expression;
+}
+
+export interface BinaryExpression extends BaseNode {
+  type: 'binary';
+  operator: string;
+  left: Expression;
+  right: Expression;
+}
+
+export interface IsNullExpression extends BaseNode {
+  type: 'isNull';
+  expression: Expression;
+  not: boolean;
+}
+
+export interface InExpression extends BaseNode {
+  type: 'in';
+  expression: Expression;
+  not: boolean;
+  values: Expression[];
+  query?: SelectQuery;
+}
+
+export interface BetweenExpression extends BaseNode {
+  type: 'between';
+  expression: Expression;
+  not: boolean;
+  low: Expression;
+  high: Expression;
+}
+
+export interface LikeExpression extends BaseNode {
+  type: 'like';
+  expression: Expression;
+  not: boolean;
+  pattern: Expression;
+  escape?: Expression;
+}
+
+export interface ExistsExpression extends BaseNode {
+  type: 'exists';
+  query: SelectQuery;
+}
+
+// Scalar subquery, or the right side of `x > ALL (SELECT ...)`
+export interface SubqueryExpression extends BaseNode {
+  type: 'subquery';
+  query: SelectQuery;
+  quantifier?: 'ALL' | 'ANY' | 'SOME';
+}
+
+export interface CaseExpression extends BaseNode {
+  type: 'case';
+  operand?: Expression;
+  whens: { when: Expression; then: Expression }[];
+  else?: Expression;
+}
+
+export interface CollateExpression extends BaseNode {
+  type: 'collate';
+  expression: Expression;
+  collation: string;
+}
+
+// NEXT VALUE FOR sequence [OVER (ORDER BY ...)]: advances the sequence as a side effect
+export interface NextValueForExpression extends BaseNode {
+  type: 'nextValueFor';
+  sequence: ObjectName;
+  over?: WindowSpecification;
+}
+
+export type SqlNode =
+  | SqlScript
+  | SqlStatement
+  | CommonTableExpression
+  | SelectQuery
+  | QueryBody
+  | TopClause
+  | OffsetFetch
+  | OrderByItem
+  | SelectItem
+  | TableSource
+  | Expression
+  | ObjectName
+  | Identifier
+  | DataType
+  | WindowSpecification
+  | SystemTimeClause
+  | TableSample;
+
+const isNode = (value: unknown): value is SqlNode =>
+  typeof value === 'object' && value !== null && typeof (value as { type?: unknown }).type === 'string';
+
+/**
+ * Depth-first walk over every node. `ancestors` lists the parents of the
+ * visited node, outermost first.
+ */
+export const walkSqlAst = (
+  node: SqlNode,
+  visit: (node: SqlNode, ancestors: SqlNode[]) => void,
+  ancestors: SqlNode[] = []
+): void => {
+  visit(node, ancestors);
+  const path = [...ancestors, node];
+
+  Object.entries(node).forEach(([key, value]) => {
+    if (key === 'range' || key === 'comments') return;
+
+    if (Array.isArray(value)) {
+      value.forEach(item => {
+        if (Array.isArray(item)) {
+          item.forEach(inner => isNode(inner) && walkSqlAst(inner, visit, path));
+        } else if (isNode(item)) {
+          walkSqlAst(item, visit, path);
+        } else if (item && typeof item === 'object') {
+          // CASE branches: { when, then }
+          Object.values(item).forEach(inner => isNode(inner) && walkSqlAst(inner, visit, path));
+        }
+      });
+    } else if (isNode(value)) {
+      walkSqlAst(value, visit, path);
+    }
+  });
+};
@@ -0,0 +1,1241 @@
+/**
+ * T-SQL Parser
+ *
+ * Recursive-descent parser for the read-only subset of T-SQL (SELECT, CTEs,
+ * joins, APPLY, set operations, window functions). Any other statement is
+ * recognised by its leading keyword and returned as an UnsupportedStatement
+ * instead of failing, so safety policies can point at it precisely.
+ */
+
+import {
+  CaseExpression,
+  CastExpression,
+  ChangeTable,
+  CommonTableExpression,
+  DataType,
+  Expression,
+  FunctionCall,
+  Identifier,
+  NextValueForExpression,
+  ObjectName,
+  OffsetFetch,
+  OrderByItem,
+  QueryBody,
+  QuerySpecification,
+  SelectItem,
+  SelectQuery,
+  SelectStatement,
+  SqlScript,
+  SqlStatement,
+  SystemTimeClause,
+  TableSample,
+  TableSource,
+  TopClause,
+  UnsupportedStatement,
+  WindowSpecification
+} from './SqlAst';
+import { SourcePosition, SourceRange, SqlComment, SqlSyntaxError, SqlToken, SqlTokenizer } from './SqlTokenizer';
+
+// T-SQL reserved words: never accepted as unquoted identifiers or aliases
+const RESERVED_WORDS = new Set([
+  'ADD', 'ALL', 'ALTER', 'AND', 'ANY', 'AS', 'ASC', 'BACKUP', 'BEGIN', 'BETWEEN', 'BREAK', 'BROWSE', 'BULK', 'BY',
+  'CASCADE', 'CASE', 'CHECK', 'CHECKPOINT', 'CLOSE', 'CLUSTERED', 'COLLATE', 'COLUMN', 'COMMIT', 'COMPUTE',
+  'CONSTRAINT', 'CONTAINS', 'CONTINUE', 'CREATE', 'CROSS', 'CURSOR', 'DBCC', 'DEALLOCATE', 'DECLARE', 'DEFAULT',
+  'DELETE', 'DENY', 'DESC', 'DISTINCT', 'DISTRIBUTED', 'DROP', 'DUMP', 'ELSE', 'END', 'ERRLVL', 'ESCAPE', 'EXCEPT',
+  'EXEC', 'EXECUTE', 'EXISTS', 'EXIT', 'EXTERNAL', 'FETCH', 'FILE', 'FOR', 'FOREIGN', 'FROM', 'FULL', 'FUNCTION',
+  'GOTO', 'GRANT', 'GROUP', 'HAVING', 'HOLDLOCK', 'IDENTITY', 'IF', 'IN', 'INDEX', 'INNER', 'INSERT', 'INTERSECT',
+  'INTO', 'IS', 'JOIN', 'KEY', 'KILL', 'LEFT', 'LIKE', 'LINENO', 'MERGE', 'NOT', 'NULL', 'OF', 'OFF', 'OFFSETS',
+  'ON', 'OPEN', 'OPENDATASOURCE', 'OPENQUERY', 'OPENROWSET', 'OPENXML', 'OPTION', 'OR', 'ORDER', 'OUTER', 'OVER',
+  'PERCENT', 'PIVOT', 'PLAN', 'PRIMARY', 'PRINT', 'PROC', 'PROCEDURE', 'PUBLIC', 'RAISERROR', 'READ', 'READTEXT',
+  'RECONFIGURE', 'REFERENCES', 'REPLICATION', 'RESTORE', 'RESTRICT', 'RETURN', 'REVERT', 'REVOKE', 'RIGHT',
+  'ROLLBACK', 'ROWCOUNT', 'RULE', 'SAVE', 'SCHEMA', 'SELECT', 'SET', 'SETUSER', 'SHUTDOWN', 'SOME', 'STATISTICS',
+  'TABLE', 'TABLESAMPLE', 'THEN', 'TO', 'TOP', 'TRAN', 'TRANSACTION', 'TRIGGER', 'TRUNCATE', 'UNION', 'UNIQUE',
+  'UNPIVOT', 'UPDATE', 'USE', 'VALUES', 'VIEW', 'WAITFOR', 'WHEN', 'WHERE', 'WHILE', 'WITH'
+]);
+
+// Reserved words that are also scalar functions
+const RESERVED_FUNCTIONS = new Set(['LEFT', 'RIGHT']);
+
+// Words that start a statement: without a `;`, the only words that may follow a query
+const STATEMENT_KEYWORDS = new Set([
+  'SELECT', 'WITH', 'INSERT', 'UPDATE', 'DELETE', 'MERGE', 'TRUNCATE', 'UPDATETEXT', 'WRITETEXT', 'READTEXT',
+  'CREATE', 'ALTER', 'DROP', 'EXEC', 'EXECUTE', 'GRANT', 'REVOKE', 'DENY', 'SETUSER', 'REVERT', 'WAITFOR', 'BULK',
+  'SHUTDOWN', 'KILL', 'DBCC', 'BACKUP', 'RESTORE', 'RECONFIGURE', 'CHECKPOINT', 'USE', 'DECLARE', 'SET', 'OPEN',
+  'FETCH', 'CLOSE', 'DEALLOCATE', 'BEGIN', 'COMMIT', 'ROLLBACK', 'SAVE', 'IF', 'WHILE', 'GOTO', 'RETURN', 'PRINT',
+  'RAISERROR', 'THROW'
+]);
+
+// Rowset providers whose arguments are not ordinary expressions
+const ROWSET_FUNCTIONS = new Set(['OPENROWSET', 'OPENDATASOURCE', 'OPENQUERY', 'OPENXML']);
+
+const TABLE_HINTS = new Set([
+  'NOLOCK', 'READUNCOMMITTED', 'READCOMMITTED', 'REPEATABLEREAD', 'SERIALIZABLE', 'HOLDLOCK', 'NOWAIT',
+  'ROWLOCK', 'PAGLOCK', 'TABLOCK', 'TABLOCKX', 'UPDLOCK', 'XLOCK', 'READPAST', 'INDEX', 'FORCESEEK', 'FORCESCAN'
+]);
+
+const COMPARISON_OPERATORS = new Set(['=', '<>', '!=', '<', '>', '<=', '>=', '!<', '!>']);
+const ADDITIVE_OPERATORS = new Set(['+', '-', '&', '|', '^', '||']);
+const MULTIPLICATIVE_OPERATORS = new Set(['*', '/', '%']);
+
+export const isReservedWord = (word: string): boolean => RESERVED_WORDS.has(word.toUpperCase());
+
+export class SqlParser {
+  private pos = 0;
+  private readonly tokens: SqlToken[];
+  private readonly comments: SqlComment[];
+  private readonly eof: SqlToken;
+
+  constructor(source: string) {
+    const { tokens, comments } = SqlTokenizer.tokenize(source);
+    this.tokens = tokens;
+    this.comments = comments;
+    this.eof = tokens[tokens.length - 1] as SqlToken;
+  }
+
+  /**
+   * Parse a T-SQL batch. Throws SqlSyntaxError with the offending range.
+   */
+  static parse(source: string): SqlScript {
+    return new SqlParser(source).parseScript();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Token helpers
+  // ---------------------------------------------------------------------------
+
+  private peek(ahead = 0): SqlToken {
+    return this.tokens[this.pos + ahead] ?? this.eof;
+  }
+
+  private next(): SqlToken {
+    const token = this.peek();
+    if (token.type !== 'eof') this.pos++;
+    return token;
+  }
+
+  private previous(): SqlToken {
+    return this.tokens[this.pos - 1] ?? this.eof;
+  }
+
+  private isWord(value: string, ahead = 0): boolean {
+    const token = this.peek(ahead);
+    return token.type === 'word' && token.value === value;
+  }
+
+  private isPunct(value: string, ahead = 0): boolean {
+    const token = this.peek(ahead);
+    return token.type === 'punctuation' && token.value === value;
+  }
+
+  private isOperator(value: string, ahead = 0): boolean {
+    const token = this.peek(ahead);
+    return token.type === 'operator' && token.value === value;
+  }
+
+  private acceptWord(...values: string[]): SqlToken | null {
+    const token = this.peek();
+    return token.type === 'word' && values.includes(token.value) ? this.next() : null;
+  }
+
+  private acceptPunct(value: string): SqlToken | null {
+    return this.isPunct(value) ? this.next() : null;
+  }
+
+  private expectWord(...values: string[]): SqlToken {
+    return this.acceptWord(...values) ?? this.fail(`Expected ${values.join(' or ')}`);
+  }
+
+  private expectPunct(value: string): SqlToken {
+    return this.acceptPunct(value) ?? this.fail(`Expected '${value}'`);
+  }
+
+  private fail(message: string, token: SqlToken = this.peek()): never {
+    const found = token.type === 'eof' ? 'end of input' : `'${token.text}'`;
+    throw new SqlSyntaxError(`${message}, found ${found}`, token.range);
+  }
+
+  private rangeFrom(start: SourcePosition): SourceRange {
+    return { start, end: this.previous().range.end };
+  }
+
+  // Whether a token can be an unquoted identifier (column, table or alias)
+  private isNameToken(token: SqlToken): boolean {
+    return token.type === 'quotedIdentifier' || (token.type === 'word' && !RESERVED_WORDS.has(token.value));
+  }
+
+  private startsQuery(ahead = 0): boolean {
+    return this.isWord('SELECT', ahead) || this.isWord('WITH', ahead);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Statements
+  // ---------------------------------------------------------------------------
+
+  private parseScript(): SqlScript {
+    const start = this.peek().range.start;
+    const statements: SqlStatement[] = [];
+
+    for (;;) {
+      while (this.acceptPunct(';')) {
+        // empty statement
+      }
+      if (this.peek().type === 'eof') break;
+
+      statements.push(this.parseStatement());
+
+      const token = this.peek();
+      if (token.type !== 'eof' && !this.isPunct(';') && token.type !== 'word') {
+        this.fail('Expected end of statement');
+      }
+    }
+
+    return { type: 'script', statements, comments: this.comments, range: { start, end: this.eof.range.end } };
+  }
+
+  private parseStatement(): SqlStatement {
+    const start = this.peek().range.start;
+
+    if (this.isWord('SELECT') || this.isPunct('(')) {
+      return this.finishSelectStatement(start, []);
+    }
+
+    if (this.isWord('WITH')) {
+      const ctes = this.parseCommonTableExpressions();
+      // WITH can also prefix INSERT / UPDATE / DELETE / MERGE
+      if (this.isWord('SELECT') || this.isPunct('(')) {
+        return this.finishSelectStatement(start, ctes);
+      }
+      return this.parseUnsupportedStatement(start);
+    }
+
+    if (this.peek().type === 'word') {
+      return this.parseUnsupportedStatement(start);
+    }
+
+    return this.fail('Expected a statement');
+  }
+
+  private finishSelectStatement(start: SourcePosition, ctes: CommonTableExpression[]): SelectStatement {
+    const query = this.parseSelectQuery(start, ctes);
+    const options: string[] = [];
+
+    if (this.acceptWord('OPTION')) {
+      options.push(...this.skipParenthesized().split(',').map(option => option.trim()).filter(Boolean));
+    }
+
+    // A following word must start the next statement; anything else is a misplaced clause
+    const token = this.peek();
+    if (token.type === 'word' && !STATEMENT_KEYWORDS.has(token.value)) {
+      this.fail(token.value === 'INTO' ? 'INTO must directly follow the select list' : 'Unexpected token after query');
+    }
+
+    return { type: 'selectStatement', query, options, range: this.rangeFrom(start) };
+  }
+
+  // Skip to the end of a statement we do not model
+  private parseUnsupportedStatement(start: SourcePosition): UnsupportedStatement {
+    const keywordToken = this.next();
+    let depth = 0;
+
+    while (this.peek().type !== 'eof') {
+      if (depth === 0 && this.isPunct(';')) break;
+      const token = this.next();
+      if (token.type === 'punctuation' && token.value === '(') depth++;
+      if (token.type === 'punctuation' && token.value === ')') depth = Math.max(0, depth - 1);
+    }
+
+    return {
+      type: 'unsupportedStatement',
+      keyword: keywordToken.value,
+      keywordRange: keywordToken.range,
+      range: this.rangeFrom(start)
+    };
+  }
+
+  // Consume `( ... )` and return the raw text between the parentheses
+  private skipParenthesized(): string {
+    const open = this.expectPunct('(');
+    const openIndex = this.pos;
+    let depth = 1;
+
+    while (depth > 0) {
+      const token = this.next();
+      if (token.type === 'eof') this.fail(`Expected ')' to close '(' at line ${open.range.start.line}`, token);
+      if (token.type === 'punctuation' && token.value === '(') depth++;
+      if (token.type === 'punctuation' && token.value === ')') depth--;
+    }
+
+    return this.tokens
+      .slice(openIndex, this.pos - 1)
+      .map(token => token.text)
+      .join(' ');
+  }
+
+  // ---------------------------------------------------------------------------
+  // Queries
+  // ---------------------------------------------------------------------------
+
+  private parseCommonTableExpressions(): CommonTableExpression[] {
+    this.expectWord('WITH');
+    const ctes: CommonTableExpression[] = [];
+
+    do {
+      const start = this.peek().range.start;
+      const name = this.parseIdentifier();
+      const columns = this.isPunct('(') ? this.parseIdentifierList() : [];
+      this.expectWord('AS');
+      this.expectPunct('(');
+      const query = this.parseSelectQuery(this.peek().range.start, []);
+      this.expectPunct(')');
+      ctes.push({ type: 'cte', name, columns, query, range: this.rangeFrom(start) });
+    } while (this.acceptPunct(','));
+
+    return ctes;
+  }
+
+  private parseSelectQuery(start: SourcePosition, ctes: CommonTableExpression[]): SelectQuery {
+    if (ctes.length === 0 && this.isWord('WITH')) {
+      ctes = this.parseCommonTableExpressions();
+    }
+
+    const body = this.parseQueryBody();
+    const orderBy = this.isWord('ORDER') && this.isWord('BY', 1) ? this.parseOrderByClause() : [];
+    const offset = this.parseOffsetFetch();
+
+    let forClause: string | undefined;
+    if (this.isWord('FOR') && (this.isWord('XML', 1) || this.isWord('JSON', 1) || this.isWord('BROWSE', 1))) {
+      const forIndex = this.pos;
+      this.next();
+      while (this.peek().type !== 'eof' && !this.isPunct(';') && !this.isPunct(')') && !this.isWord('OPTION')) {
+        if (this.isPunct('(')) {
+          this.skipParenthesized();
+        } else {
+          this.next();
+        }
+      }
+      forClause = this.tokens.slice(forIndex, this.pos).map(token => token.text).join(' ');
+    }
+
+    return {
+      type: 'selectQuery',
+      ctes,
+      body,
+      orderBy,
+      ...(offset ? { offset } : {}),
+      ...(forClause ? { forClause } : {}),
+      range: this.rangeFrom(start)
+    };
+  }
+
+  private parseOffsetFetch(): OffsetFetch | undefined {
+    const offsetToken = this.acceptWord('OFFSET');
+    if (!offsetToken) return undefined;
+
+    const offset = this.parseExpression();
+    this.expectWord('ROW', 'ROWS');
+
+    let fetch: Expression | undefined;
+    if (this.acceptWord('FETCH')) {
+      this.expectWord('FIRST', 'NEXT');
+      fetch = this.parseExpression();
+      this.expectWord('ROW', 'ROWS');
+      this.expectWord('ONLY');
+    }
+
+    return { type: 'offsetFetch', offset, ...(fetch ? { fetch } : {}), range: this.rangeFrom(offsetToken.range.start) };
+  }
+
+  // UNION / EXCEPT (left-associative) over INTERSECT, which binds tighter
+  private parseQueryBody(): QueryBody {
+    const start = this.peek().range.start;
+    let left = this.parseQueryTerm();
+
+    for (;;) {
+      let operator: 'UNION' | 'UNION ALL' | 'EXCEPT';
+      if (this.acceptWord('UNION')) {
+        operator = this.acceptWord('ALL') ? 'UNION ALL' : 'UNION';
+      } else if (this.acceptWord('EXCEPT')) {
+        operator = 'EXCEPT';
+      } else {
+        return left;
+      }
+      const right = this.parseQueryTerm();
+      left = { type: 'setOperation', operator, left, right, range: this.rangeFrom(start) };
+    }
+  }
+
+  private parseQueryTerm(): QueryBody {
+    const start = this.peek().range.start;
+    let left = this.parseQueryPrimary();
+
+    while (this.acceptWord('INTERSECT')) {
+      const right = this.parseQueryPrimary();
+      left = { type: 'setOperation', operator: 'INTERSECT', left, right, range: this.rangeFrom(start) };
+    }
+
+    return left;
+  }
+
+  private parseQueryPrimary(): QueryBody {
+    if (this.acceptPunct('(')) {
+      const query = this.parseSelectQuery(this.peek().range.start, []);
+      this.expectPunct(')');
+      return query;
+    }
+    return this.parseQuerySpecification();
+  }
+
+  private parseQuerySpecification(): QuerySpecification {
+    const start = this.expectWord('SELECT').range.start;
+    const distinct = !!this.acceptWord('DISTINCT');
+    if (!distinct) this.acceptWord('ALL');
+
+    const top = this.parseTopClause();
+    const columns = this.parseSelectList();
+    const into = this.acceptWord('INTO') ? this.parseObjectName() : undefined;
+    const from = this.acceptWord('FROM') ? this.parseTableSources() : [];
+    const where = this.acceptWord('WHERE') ? this.parseExpression() : undefined;
+
+    const groupBy: Expression[] = [];
+    if (this.isWord('GROUP') && this.isWord('BY', 1)) {
+      this.next();
+      this.next();
+      this.acceptWord('ALL');
+      groupBy.push(...this.parseExpressionList());
+      if (this.isWord('WITH') && (this.isWord('ROLLUP', 1) || this.isWord('CUBE', 1))) {
+        this.next();
+        this.next();
+      }
+    }
+
+    const having = this.acceptWord('HAVING') ? this.parseExpression() : undefined;
+
+    return {
+      type: 'querySpecification',
+      distinct,
+      ...(top ? { top } : {}),
+      columns,
+      ...(into ? { into } : {}),
+      from,
+      ...(where ? { where } : {}),
+      groupBy,
+      ...(having ? { having } : {}),
+      range: this.rangeFrom(start)
+    };
+  }
+
+  private parseTopClause(): TopClause | undefined {
+    const topToken = this.acceptWord('TOP');
+    if (!topToken) return undefined;
+
+    let value: Expression;
+    if (this.acceptPunct('(')) {
+      value = this.parseExpression();
+      this.expectPunct(')');
+    } else if (this.peek().type === 'number' || this.peek().type === 'variable') {
+      value = this.parsePrimary();
+    } else {
+      return this.fail('Expected row count after TOP');
+    }
+
+    const percent = !!this.acceptWord('PERCENT');
+    let withTies = false;
+    if (this.isWord('WITH') && this.isWord('TIES', 1)) {
+      this.next();
+      this.next();
+      withTies = true;
+    }
+
+    return { type: 'top', value, percent, withTies, range: this.rangeFrom(topToken.range.start) };
+  }
+
+  private parseSelectList(): SelectItem[] {
+    const items: SelectItem[] = [];
+    do {
+      items.push(this.parseSelectItem());
+    } while (this.acceptPunct(','));
+    return items;
+  }
+
+  private parseSelectItem(): SelectItem {
+    const start = this.peek().range.start;
+
+    // * or qualifier.*
+    if (this.isOperator('*')) {
+      this.next();
+      return { type: 'star', range: this.rangeFrom(start) };
+    }
+    let ahead = 0;
+    while (this.isNameToken(this.peek(ahead)) && this.isPunct('.', ahead + 1)) {
+      ahead += 2;
+    }
+    if (ahead > 0 && this.isOperator('*', ahead)) {
+      const qualifier = this.parseObjectName(ahead / 2);
+      this.expectPunct('.');
+      this.next();
+      return { type: 'star', qualifier, range: this.rangeFrom(start) };
+    }
+
+    // alias = expression
+    const first = this.peek();
+    if ((this.isNameToken(first) || first.type === 'string') && this.isOperator('=', 1)) {
+      const alias = this.parseAlias();
+      this.next();
+      const expression = this.parseExpression();
+      return { type: 'selectExpression', expression, alias, range: this.rangeFrom(start) };
+    }
+
+    const expression = this.parseExpression();
+    const alias = this.parseOptionalAlias(true);
+    return { type: 'selectExpression', expression, ...(alias ? { alias } : {}), range: this.rangeFrom(start) };
+  }
+
+  private parseOrderByClause(): OrderByItem[] {
+    this.expectWord('ORDER');
+    this.expectWord('BY');
+
+    const items: OrderByItem[] = [];
+    do {
+      const start = this.peek().range.start;
+      const expression = this.parseExpression();
+      const direction = this.acceptWord('ASC', 'DESC');
+      items.push({
+        type: 'orderByItem',
+        expression,
+        direction: direction?.value === 'DESC' ? 'DESC' : 'ASC',
+        range: this.rangeFrom(start)
+      });
+    } while (this.acceptPunct(','));
+
+    return items;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Table sources
+  // ---------------------------------------------------------------------------
+
+  private parseTableSources(): TableSource[] {
+    const sources: TableSource[] = [];
+    do {
+      sources.push(this.parseJoinedTable());
+    } while (this.acceptPunct(','));
+    return sources;
+  }
+
+  private parseJoinedTable(): TableSource {
+    const start = this.peek().range.start;
+    let left = this.parseTablePrimary();
+
+    for (;;) {
+      let joinType: 'INNER' | 'LEFT' | 'RIGHT' | 'FULL' | 'CROSS' | 'CROSS APPLY' | 'OUTER APPLY';
+
+      if (this.isWord('CROSS') && this.isWord('APPLY', 1)) {
+        joinType = 'CROSS APPLY';
+        this.next();
+        this.next();
+      } else if (this.isWord('OUTER') && this.isWord('APPLY', 1)) {
+        joinType = 'OUTER APPLY';
+        this.next();
+        this.next();
+      } else if (this.acceptWord('CROSS')) {
+        joinType = 'CROSS';
+        this.expectWord('JOIN');
+      } else if (this.isWord('JOIN') || this.isWord('INNER') || this.isWord('LEFT') || this.isWord('RIGHT') || this.isWord('FULL')) {
+        const typeToken = this.next();
+        joinType = typeToken.value === 'JOIN' ? 'INNER' : (typeToken.value as 'INNER' | 'LEFT' | 'RIGHT' | 'FULL');
+        if (typeToken.value !== 'JOIN') {
+          if (joinType !== 'INNER') this.acceptWord('OUTER');
+          this.acceptWord('LOOP', 'HASH', 'MERGE', 'REMOTE');
+          this.expectWord('JOIN');
+        }
+      } else {
+        return left;
+      }
+
+      const right = this.parseTablePrimary();
+      const needsCondition = joinType !== 'CROSS' && joinType !== 'CROSS APPLY' && joinType !== 'OUTER APPLY';
+      let on: Expression | undefined;
+      if (needsCondition) {
+        this.expectWord('ON');
+        on = this.parseExpression();
+      }
+
+      left = { type: 'join', joinType, left, right, ...(on ? { on } : {}), range: this.rangeFrom(start) };
+    }
+  }
+
+  private parseTablePrimary(): TableSource {
+    const start = this.peek().range.start;
+    let source: TableSource;
+
+    if (this.isPunct('(')) {
+      // Look through nested parentheses to tell a derived table from a parenthesized join
+      let ahead = 1;
+      while (this.isPunct('(', ahead)) ahead++;
+
+      if (this.startsQuery(ahead)) {
+        this.next();
+        const query = this.parseSelectQuery(this.peek().range.start, []);
+        this.expectPunct(')');
+        const alias = this.parseOptionalAlias(false);
+        const columns = alias && this.isPunct('(') ? this.parseIdentifierList() : [];
+        source = { type: 'derivedTable', query, ...(alias ? { alias } : {}), columns, range: this.rangeFrom(start) };
+      } else if (this.isWord('VALUES', 1)) {
+        this.next();
+        this.next();
+        const rows: Expression[][] = [];
+        do {
+          this.expectPunct('(');
+          rows.push(this.parseExpressionList());
+          this.expectPunct(')');
+        } while (this.acceptPunct(','));
+        this.expectPunct(')');
+        const alias = this.parseOptionalAlias(false);
+        const columns = alias && this.isPunct('(') ? this.parseIdentifierList() : [];
+        source = { type: 'valuesTable', rows, ...(alias ? { alias } : {}), columns, range: this.rangeFrom(start) };
+      } else {
+        this.next();
+        source = this.parseJoinedTable();
+        this.expectPunct(')');
+      }
+    } else if (this.isWord('CHANGETABLE') && this.isPunct('(', 1)) {
+      source = this.parseChangeTable(start);
+    } else if (this.isOperator('::')) {
+      // Legacy system function syntax: FROM ::fn_helpcollations()
+      this.next();
+      source = this.finishTableFunction(start, this.parseFunctionCall(this.parseObjectName(1)), true);
+    } else if (this.peek().type === 'word' && ROWSET_FUNCTIONS.has(this.peek().value) && this.isPunct('(', 1)) {
+      const nameToken = this.next();
+      const name: ObjectName = { type: 'objectName', parts: [this.toIdentifier(nameToken)], range: nameToken.range };
+      const call = this.parseFunctionCall(name);
+      // OPENDATASOURCE(...) stands in for a server: OPENDATASOURCE(...).db.schema.table
+      if (this.acceptPunct('.')) {
+        this.parseObjectName(3);
+      }
+      source = this.finishTableFunction(start, call);
+    } else if (this.peek().type === 'variable') {
+      // Table variable
+      const token = this.next();
+      const name: ObjectName = { type: 'objectName', parts: [this.toIdentifier(token)], range: token.range };
+      const alias = this.parseOptionalAlias(false);
+      source = { type: 'tableReference', name, ...(alias ? { alias } : {}), hints: [], range: this.rangeFrom(start) };
+    } else {
+      const name = this.parseObjectName();
+
+      // Legacy hint syntax: FROM t (NOLOCK)
+      const legacyHint = this.isPunct('(') && this.peek(1).type === 'word' && TABLE_HINTS.has(this.peek(1).value);
+      if (this.isPunct('(') && !legacyHint) {
+        source = this.finishTableFunction(start, this.parseFunctionCall(name));
+      } else {
+        const hints = legacyHint ? this.parseTableHints() : [];
+        const systemTime = this.isWord('FOR') && this.isWord('SYSTEM_TIME', 1) ? this.parseSystemTime() : undefined;
+        const alias = this.parseOptionalAlias(false);
+        const sample = this.isWord('TABLESAMPLE') ? this.parseTableSample() : undefined;
+        if (this.isWord('WITH') && this.isPunct('(', 1)) {
+          this.next();
+          hints.push(...this.parseTableHints());
+        }
+        source = {
+          type: 'tableReference',
+          name,
+          ...(systemTime ? { systemTime } : {}),
+          ...(alias ? { alias } : {}),
+          ...(sample ? { sample } : {}),
+          hints,
+          range: this.rangeFrom(start)
+        };
+      }
+    }
+
+    // PIVOT / UNPIVOT reshape the source without introducing new table references
+    while (this.acceptWord('PIVOT', 'UNPIVOT')) {
+      this.skipParenthesized();
+      this.parseOptionalAlias(false);
+    }
+
+    return source;
+  }
+
+  private finishTableFunction(start: SourcePosition, call: FunctionCall, systemCall = false): TableSource {
+    // OPENJSON / OPENXML explicit schema: WITH (column type [path], ...)
+    if (this.isWord('WITH') && this.isPunct('(', 1)) {
+      this.next();
+      this.skipParenthesized();
+    }
+    const alias = this.parseOptionalAlias(false);
+    const columns = alias && this.isPunct('(') ? this.parseIdentifierList() : [];
+    return {
+      type: 'tableFunction',
+      call,
+      ...(systemCall ? { systemCall } : {}),
+      ...(alias ? { alias } : {}),
+      columns,
+      range: this.rangeFrom(start)
+    };
+  }
+
+  private parseChangeTable(start: SourcePosition): ChangeTable {
+    this.expectWord('CHANGETABLE');
+    this.expectPunct('(');
+    const kind = this.expectWord('CHANGES', 'VERSION').value as 'CHANGES' | 'VERSION';
+    const table = this.parseObjectName();
+    this.expectPunct(',');
+
+    const args: Expression[] = [];
+    const keyColumns: Identifier[] = [];
+    if (kind === 'CHANGES') {
+      args.push(this.parseExpression());
+      if (this.acceptPunct(',')) this.expectWord('FORCESEEK');
+    } else {
+      keyColumns.push(...this.parseIdentifierList());
+      this.expectPunct(',');
+      this.expectPunct('(');
+      args.push(...this.parseExpressionList());
+      this.expectPunct(')');
+    }
+    this.expectPunct(')');
+
+    const alias = this.parseOptionalAlias(false);
+    const columns = alias && this.isPunct('(') ? this.parseIdentifierList() : [];
+    return {
+      type: 'changeTable',
+      kind,
+      table,
+      args,
+      keyColumns,
+      ...(alias ? { alias } : {}),
+      columns,
+      range: this.rangeFrom(start)
+    };
+  }
+
+  private parseSystemTime(): SystemTimeClause {
+    const start = this.expectWord('FOR').range.start;
+    this.expectWord('SYSTEM_TIME');
+    const values: Expression[] = [];
+    let kind: SystemTimeClause['kind'];
+
+    if (this.acceptWord('ALL')) {
+      kind = 'ALL';
+    } else if (this.acceptWord('AS')) {
+      this.expectWord('OF');
+      kind = 'AS OF';
+      values.push(this.parseAdditive());
+    } else if (this.acceptWord('FROM')) {
+      kind = 'FROM';
+      values.push(this.parseAdditive());
+      this.expectWord('TO');
+      values.push(this.parseAdditive());
+    } else if (this.acceptWord('BETWEEN')) {
+      kind = 'BETWEEN';
+      values.push(this.parseAdditive());
+      this.expectWord('AND');
+      values.push(this.parseAdditive());
+    } else {
+      this.expectWord('CONTAINED');
+      this.expectWord('IN');
+      kind = 'CONTAINED IN';
+      this.expectPunct('(');
+      values.push(this.parseAdditive());
+      this.expectPunct(',');
+      values.push(this.parseAdditive());
+      this.expectPunct(')');
+    }
+
+    return { type: 'systemTime', kind, values, range: this.rangeFrom(start) };
+  }
+
+  private parseTableSample(): TableSample {
+    const start = this.expectWord('TABLESAMPLE').range.start;
+    this.acceptWord('SYSTEM');
+    this.expectPunct('(');
+    const size = this.parseAdditive();
+    const unit = this.acceptWord('PERCENT', 'ROWS')?.value === 'ROWS' ? 'ROWS' : 'PERCENT';
+    this.expectPunct(')');
+
+    let repeatable: Expression | undefined;
+    if (this.acceptWord('REPEATABLE')) {
+      this.expectPunct('(');
+      repeatable = this.parseExpression();
+      this.expectPunct(')');
+    }
+
+    return { type: 'tableSample', size, unit, ...(repeatable ? { repeatable } : {}), range: this.rangeFrom(start) };
+  }
+
+  private parseTableHints(): string[] {
+    return this.skipParenthesized()
+      .split(',')
+      .map(hint => hint.trim().toUpperCase())
+      .filter(Boolean);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Names
+  // ---------------------------------------------------------------------------
+
+  private toIdentifier(token: SqlToken): Identifier {
+    return {
+      type: 'identifier',
+      name: token.type === 'quotedIdentifier' ? token.value : token.text,
+      quoted: token.type === 'quotedIdentifier',
+      range: token.range
+    };
+  }
+
+  private parseIdentifier(): Identifier {
+    const token = this.peek();
+    if (!this.isNameToken(token)) {
+      return this.fail('Expected identifier');
+    }
+    return this.toIdentifier(this.next());
+  }
+
+  private parseIdentifierList(): Identifier[] {
+    this.expectPunct('(');
+    const identifiers: Identifier[] = [];
+    do {
+      identifiers.push(this.parseIdentifier());
+    } while (this.acceptPunct(','));
+    this.expectPunct(')');
+    return identifiers;
+  }
+
+  // Parse `a.b.c`; `maxParts` stops early (used for `qualifier.*`)
+  private parseObjectName(maxParts = 4): ObjectName {
+    const start = this.peek().range.start;
+    const parts = [this.parseIdentifier()];
+
+    while (parts.length < maxParts && this.isPunct('.') && !this.isOperator('*', 1)) {
+      const dot = this.next();
+      if (this.isPunct('.')) {
+        // db..table: the schema part is omitted
+        parts.push({ type: 'identifier', name: '', quoted: false, range: dot.range });
+        continue;
+      }
+      // Any word may follow a dot (e.g. t.[order] or sys.objects)
+      const token = this.peek();
+      if (token.type !== 'word' && token.type !== 'quotedIdentifier') {
+        this.fail('Expected identifier');
+      }
+      parts.push(this.toIdentifier(this.next()));
+    }
+
+    return { type: 'objectName', parts, range: this.rangeFrom(start) };
+  }
+
+  private parseAlias(): Identifier {
+    const token = this.peek();
+    if (token.type === 'string') {
+      return { type: 'identifier', name: token.value, quoted: true, range: this.next().range };
+    }
+    return this.parseIdentifier();
+  }
+
+  // [AS] alias; string aliases are only valid in select lists
+  private parseOptionalAlias(allowString: boolean): Identifier | undefined {
+    if (this.acceptWord('AS')) {
+      return allowString ? this.parseAlias() : this.parseIdentifier();
+    }
+    const token = this.peek();
+    if (this.isNameToken(token) || (allowString && token.type === 'string')) {
+      return this.parseAlias();
+    }
+    return undefined;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Expressions
+  // ---------------------------------------------------------------------------
+
+  private parseExpressionList(): Expression[] {
+    const expressions: Expression[] = [];
+    do {
+      expressions.push(this.parseExpression());
+    } while (this.acceptPunct(','));
+    return expressions;
+  }
+
+  private parseExpression(): Expression {
+    return this.parseOr();
+  }
+
+  private parseOr(): Expression {
+    const start = this.peek().range.start;
+    let left = this.parseAnd();
+    while (this.acceptWord('OR')) {
+      const right = this.parseAnd();
+      left = { type: 'binary', operator: 'OR', left, right, range: this.rangeFrom(start) };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expression {
+    const start = this.peek().range.start;
+    let left = this.parseNot();
+    while (this.acceptWord('AND')) {
+      const right = this.parseNot();
+      left = { type: 'binary', operator: 'AND', left, right, range: this.rangeFrom(start) };
+    }
+    return left;
+  }
+
+  private parseNot(): Expression {
+    const start = this.peek().range.start;
+    if (this.acceptWord('NOT')) {
+      const operand = this.parseNot();
+      return { type: 'unary', operator: 'NOT', operand, range: this.rangeFrom(start) };
+    }
+    return this.parsePredicate();
+  }
+
+  private parsePredicate(): Expression {
+    const start = this.peek().range.start;
+
+    if (this.acceptWord('EXISTS')) {
+      this.expectPunct('(');
+      const query = this.parseSelectQuery(this.peek().range.start, []);
+      this.expectPunct(')');
+      return { type: 'exists', query, range: this.rangeFrom(start) };
+    }
+
+    const left = this.parseAdditive();
+    const token = this.peek();
+
+    if (token.type === 'operator' && COMPARISON_OPERATORS.has(token.value)) {
+      this.next();
+      const quantifier = this.peek();
+      if (quantifier.type === 'word' && ['ALL', 'ANY', 'SOME'].includes(quantifier.value) && this.isPunct('(', 1)) {
+        this.next();
+        this.next();
+        const query = this.parseSelectQuery(this.peek().range.start, []);
+        this.expectPunct(')');
+        const right: Expression = {
+          type: 'subquery',
+          query,
+          quantifier: quantifier.value as 'ALL' | 'ANY' | 'SOME',
+          range: this.rangeFrom(quantifier.range.start)
+        };
+        return { type: 'binary', operator: token.value, left, right, range: this.rangeFrom(start) };
+      }
+      const right = this.parseAdditive();
+      return { type: 'binary', operator: token.value, left, right, range: this.rangeFrom(start) };
+    }
+
+    if (this.acceptWord('IS')) {
+      const not = !!this.acceptWord('NOT');
+      this.expectWord('NULL');
+      return { type: 'isNull', expression: left, not, range: this.rangeFrom(start) };
+    }
+
+    const not = this.isWord('NOT') && (this.isWord('IN', 1) || this.isWord('BETWEEN', 1) || this.isWord('LIKE', 1));
+    if (not) this.next();
+
+    if (this.acceptWord('IN')) {
+      this.expectPunct('(');
+      if (this.startsQuery()) {
+        const query = this.parseSelectQuery(this.peek().range.start, []);
+        this.expectPunct(')');
+        return { type: 'in', expression: left, not, values: [], query, range: this.rangeFrom(start) };
+      }
+      const values = this.parseExpressionList();
+      this.expectPunct(')');
+      return { type: 'in', expression: left, not, values, range: this.rangeFrom(start) };
+    }
+
+    if (this.acceptWord('BETWEEN')) {
+      const low = this.parseAdditive();
+      this.expectWord('AND');
+      const high = this.parseAdditive();
+      return { type: 'between', expression: left, not, low, high, range: this.rangeFrom(start) };
+    }
+
+    if (this.acceptWord('LIKE')) {
+      const pattern = this.parseAdditive();
+      const escape = this.acceptWord('ESCAPE') ? this.parseAdditive() : undefined;
+      return { type: 'like', expression: left, not, pattern, ...(escape ? { escape } : {}), range: this.rangeFrom(start) };
+    }
+
+    return left;
+  }
+
+  private parseAdditive(): Expression {
+    const start = this.peek().range.start;
+    let left = this.parseMultiplicative();
+    while (this.peek().type === 'operator' && ADDITIVE_OPERATORS.has(this.peek().value)) {
+      const operator = this.next().value;
+      const right = this.parseMultiplicative();
+      left = { type: 'binary', operator, left, right, range: this.rangeFrom(start) };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): Expression {
+    const start = this.peek().range.start;
+    let left = this.parseUnary();
+    while (this.peek().type === 'operator' && MULTIPLICATIVE_OPERATORS.has(this.peek().value)) {
+      const operator = this.next().value;
+      const right = this.parseUnary();
+      left = { type: 'binary', operator, left, right, range: this.rangeFrom(start) };
+    }
+    return left;
+  }
+
+  private parseUnary(): Expression {
+    const start = this.peek().range.start;
+    const token = this.peek();
+    if (token.type === 'operator' && (token.value === '-' || token.value === '+' || token.value === '~')) {
+      this.next();
+      const operand = this.parseUnary();
+      return { type: 'unary', operator: token.value, operand, range: this.rangeFrom(start) };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): Expression {
+    const start = this.peek().range.start;
+    let expression = this.parsePrimary();
+
+    for (;;) {
+      if (this.acceptWord('COLLATE')) {
+        const collation = this.parseIdentifier().name;
+        expression = { type: 'collate', expression, collation, range: this.rangeFrom(start) };
+      } else if (this.isWord('AT') && this.isWord('TIME', 1) && this.isWord('ZONE', 2)) {
+        this.next();
+        this.next();
+        this.next();
+        const right = this.parsePrimary();
+        expression = { type: 'binary', operator: 'AT TIME ZONE', left: expression, right, range: this.rangeFrom(start) };
+      } else {
+        return expression;
+      }
+    }
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.peek();
+    const start = token.range.start;
+
+    switch (token.type) {
+      case 'string':
+      case 'number':
+      case 'binary':
+        this.next();
+        return { type: 'literal', kind: token.type, value: token.value, range: token.range };
+
+      case 'variable':
+        this.next();
+        return { type: 'variable', name: token.value, system: token.value.startsWith('@@'), range: token.range };
+
+      case 'punctuation':
+        if (token.value === '(') {
+          this.next();
+          if (this.startsQuery()) {
+            const query = this.parseSelectQuery(this.peek().range.start, []);
+            this.expectPunct(')');
+            return { type: 'subquery', query, range: this.rangeFrom(start) };
+          }
+          const expression = this.parseExpression();
+          this.expectPunct(')');
+          return expression;
+        }
+        break;
+
+      case 'word':
+        if (token.value === 'NULL') {
+          this.next();
+          return { type: 'literal', kind: 'null', value: 'NULL', range: token.range };
+        }
+        if (token.value === 'CASE') {
+          return this.parseCase();
+        }
+        if ((token.value === 'CAST' || token.value === 'TRY_CAST') && this.isPunct('(', 1)) {
+          return this.parseCast();
+        }
+        if (token.value === 'NEXT' && this.isWord('VALUE', 1) && this.isWord('FOR', 2)) {
+          return this.parseNextValueFor();
+        }
+        if (RESERVED_FUNCTIONS.has(token.value) && this.isPunct('(', 1)) {
+          this.next();
+          const name: ObjectName = { type: 'objectName', parts: [this.toIdentifier(token)], range: token.range };
+          return this.parseFunctionCall(name);
+        }
+        break;
+
+      default:
+        break;
+    }
+
+    if (this.isNameToken(token)) {
+      const name = this.parseObjectName();
+      if (this.isPunct('(')) {
+        return this.parseFunctionCall(name);
+      }
+      return { type: 'columnReference', name, range: name.range };
+    }
+
+    return this.fail(token.type === 'eof' ? 'Unexpected end of input' : 'Expected expression');
+  }
+
+  private parseFunctionCall(name: ObjectName): FunctionCall {
+    const start = name.range.start;
+    const functionName = (name.parts[name.parts.length - 1]?.name ?? '').toUpperCase();
+
+    // Rowset providers take provider strings and BULK options rather than expressions
+    if (ROWSET_FUNCTIONS.has(functionName)) {
+      this.skipParenthesized();
+      return { type: 'functionCall', name, args: [], distinct: false, range: this.rangeFrom(start) };
+    }
+
+    this.expectPunct('(');
+    const args: Expression[] = [];
+    let dataType: DataType | undefined;
+    let distinct = false;
+
+    if (functionName === 'CONVERT' || functionName === 'TRY_CONVERT') {
+      dataType = this.parseDataType();
+      this.expectPunct(',');
+      args.push(...this.parseExpressionList());
+    } else {
+      distinct = !!this.acceptWord('DISTINCT');
+      if (!distinct) this.acceptWord('ALL');
+
+      if (this.isOperator('*')) {
+        const star = this.next();
+        args.push({ type: 'star', range: star.range });
+      } else if (!this.isPunct(')')) {
+        do {
+          // DEFAULT stands in for an optional argument of a user-defined or system function
+          const defaultToken = this.acceptWord('DEFAULT');
+          args.push(defaultToken
+            ? { type: 'literal', kind: 'default', value: 'DEFAULT', range: defaultToken.range }
+            : this.parseExpression());
+        } while (this.acceptPunct(','));
+      }
+    }
+    this.expectPunct(')');
+
+    let withinGroup: OrderByItem[] | undefined;
+    if (this.isWord('WITHIN') && this.isWord('GROUP', 1)) {
+      this.next();
+      this.next();
+      this.expectPunct('(');
+      withinGroup = this.parseOrderByClause();
+      this.expectPunct(')');
+    }
+
+    const over = this.acceptWord('OVER') ? this.parseWindow() : undefined;
+
+    return {
+      type: 'functionCall',
+      name,
+      args,
+      distinct,
+      ...(dataType ? { dataType } : {}),
+      ...(withinGroup ? { withinGroup } : {}),
+      ...(over ? { over } : {}),
+      range: this.rangeFrom(start)
+    };
+  }
+
+  private parseWindow(): WindowSpecification {
+    const start = this.expectPunct('(').range.start;
+    const partitionBy: Expression[] = [];
+    let orderBy: OrderByItem[] = [];
+    let frame: string | undefined;
+
+    if (this.acceptWord('PARTITION')) {
+      this.expectWord('BY');
+      partitionBy.push(...this.parseExpressionList());
+    }
+    if (this.isWord('ORDER')) {
+      orderBy = this.parseOrderByClause();
+    }
+    if (this.isWord('ROWS') || this.isWord('RANGE')) {
+      const frameTokens: string[] = [];
+      while (!this.isPunct(')') && this.peek().type !== 'eof') {
+        frameTokens.push(this.next().text);
+      }
+      frame = frameTokens.join(' ');
+    }
+    this.expectPunct(')');
+
+    return { type: 'window', partitionBy, orderBy, ...(frame ? { frame } : {}), range: this.rangeFrom(start) };
+  }
+
+  private parseNextValueFor(): NextValueForExpression {
+    const start = this.expectWord('NEXT').range.start;
+    this.expectWord('VALUE');
+    this.expectWord('FOR');
+    const sequence = this.parseObjectName();
+    const over = this.acceptWord('OVER') ? this.parseWindow() : undefined;
+
+    return { type: 'nextValueFor', sequence, ...(over ? { over } : {}), range: this.rangeFrom(start) };
+  }
+
+  private parseCast(): CastExpression {
+    const fnToken = this.next();
+    this.expectPunct('(');
+    const expression = this.parseExpression();
+    this.expectWord('AS');
+    const dataType = this.parseDataType();
+    this.expectPunct(')');
+
+    return {
+      type: 'cast',
+      function: fnToken.value === 'TRY_CAST' ? 'TRY_CAST' : 'CAST',
+      expression,
+      dataType,
+      range: this.rangeFrom(fnToken.range.start)
+    };
+  }
+
+  private parseDataType(): DataType {
+    const name = this.parseObjectName();
+    const args: string[] = [];
+
+    if (this.acceptPunct('(')) {
+      do {
+        const token = this.next();
+        if (token.type !== 'number' && !(token.type === 'word' && token.value === 'MAX')) {
+          this.fail('Expected type length', token);
+        }
+        args.push(token.value);
+      } while (this.acceptPunct(','));
+      this.expectPunct(')');
+    }
+
+    return {
+      type: 'dataType',
+      name: name.parts.map(part => part.name).join('.').toUpperCase(),
+      args,
+      range: this.rangeFrom(name.range.start)
+    };
+  }
+
+  private parseCase(): CaseExpression {
+    const start = this.expectWord('CASE').range.start;
+    const operand = this.isWord('WHEN') ? undefined : this.parseExpression();
+    const whens: { when: Expression; then: Expression }[] = [];
+
+    while (this.acceptWord('WHEN')) {
+      const when = this.parseExpression();
+      this.expectWord('THEN');
+      whens.push({ when, then: this.parseExpression() });
+    }
+    if (whens.length === 0) {
+      this.fail('Expected WHEN');
+    }
+
+    const elseExpression = this.acceptWord('ELSE') ? this.parseExpression() : undefined;
+    this.expectWord('END');
+
+    return {
+      type: 'case',
+      ...(operand ? { operand } : {}),
+      whens,
+      ...(elseExpression ? { else: elseExpression } : {}),
+      range: this.rangeFrom(start)
+    };
+  }
+}
@@ -0,0 +1,424 @@
+/**
+ * SQL Safety Policy
+ *
+ * Enforces the read-only query policy on a parsed T-SQL AST: a single SELECT
+ * (optionally with CTEs), no system schemas or linked servers, no rowset
+ * providers such as OPENROWSET, and bounded result sizes. Diagnostics carry
+ * Monaco-compatible ranges so editors can render them as markers directly.
+ */
+
+import {
+  ObjectName,
+  QueryBody,
+  QuerySpecification,
+  SelectQuery,
+  SqlScript,
+  walkSqlAst
+} from './SqlAst';
+import { SqlParser } from './SqlParser';
+import { SourceRange, SqlSyntaxError } from './SqlTokenizer';
+
+export type SqlDiagnosticSeverity = 'error' | 'warning' | 'info';
+export type SqlRiskLevel = 'low' | 'medium' | 'high';
+
+// Field names follow monaco.editor.IMarkerData
+export interface SqlDiagnostic {
+  code: string;
+  message: string;
+  severity: SqlDiagnosticSeverity;
+  riskLevel: SqlRiskLevel;
+  startLineNumber: number;
+  startColumn: number;
+  endLineNumber: number;
+  endColumn: number;
+}
+
+export type SqlFeature = 'join' | 'setOperation' | 'cte' | 'subquery' | 'case' | 'window';
+
+export interface SqlSafetyOptions {
+  // Largest TOP / FETCH value allowed, and the cap applied to unbounded queries
+  maxRows?: number;
+  // Report queries without TOP or OFFSET/FETCH as errors instead of info
+  requireRowLimit?: boolean;
+  maxNestingDepth?: number;
+  // Lower-case table names (`table` or `schema.table`) the user may query
+  allowedTables?: string[];
+}
+
+export interface SqlSafetyReport {
+  ast: SqlScript | null;
+  diagnostics: SqlDiagnostic[];
+  riskLevel: SqlRiskLevel;
+  // Referenced tables as written, excluding CTEs and table variables
+  tables: string[];
+  features: SqlFeature[];
+}
+
+const DEFAULT_MAX_ROWS = 10000;
+const DEFAULT_MAX_NESTING_DEPTH = 5;
+
+const SYSTEM_SCHEMAS = new Set(['SYS', 'INFORMATION_SCHEMA']);
+const SYSTEM_DATABASES = new Set(['MASTER', 'MSDB', 'MODEL', 'TEMPDB']);
+const LEGACY_SYSTEM_VIEWS = new Set([
+  'SYSOBJECTS', 'SYSCOLUMNS', 'SYSCOMMENTS', 'SYSINDEXES', 'SYSTYPES', 'SYSUSERS', 'SYSLOGINS',
+  'SYSDATABASES', 'SYSPROCESSES', 'SYSSERVERS', 'SYSCONFIGURES', 'SYSCACHEOBJECTS', 'SYSPERMISSIONS'
+]);
+const EXTERNAL_DATA_FUNCTIONS = new Set(['OPENROWSET', 'OPENDATASOURCE', 'OPENQUERY', 'OPENXML']);
+// Functions that reveal object definitions, server configuration or security principals
+const SYSTEM_METADATA_FUNCTIONS = new Set([
+  'OBJECT_DEFINITION', 'OBJECT_NAME', 'OBJECT_SCHEMA_NAME', 'OBJECTPROPERTY', 'OBJECTPROPERTYEX', 'COLUMNPROPERTY',
+  'INDEXPROPERTY', 'TYPEPROPERTY', 'DATABASEPROPERTYEX', 'SERVERPROPERTY', 'FILE_NAME', 'FILEPROPERTY',
+  'FILEGROUP_NAME', 'HAS_PERMS_BY_NAME', 'IS_MEMBER', 'IS_ROLEMEMBER', 'IS_SRVROLEMEMBER', 'SUSER_ID', 'SUSER_NAME',
+  'SUSER_SID', 'SUSER_SNAME', 'LOGINPROPERTY', 'PWDCOMPARE', 'PWDENCRYPT', 'CERTENCODED', 'CERTPRIVATEKEY'
+]);
+// Hints that take update/exclusive or table-wide locks, or hold shared locks, blocking other sessions
+const LOCKING_HINTS = new Set(['TABLOCK', 'TABLOCKX', 'XLOCK', 'UPDLOCK', 'HOLDLOCK', 'SERIALIZABLE', 'REPEATABLEREAD']);
+const RISKY_CONVERSION_TYPES = new Set(['XML', 'VARBINARY', 'BINARY', 'IMAGE']);
+
+interface StatementRule {
+  code: string;
+  message: string;
+}
+
+const STATEMENT_RULES: [string[], StatementRule][] = [
+  [['INSERT', 'UPDATE', 'DELETE', 'MERGE', 'TRUNCATE', 'UPDATETEXT', 'WRITETEXT'],
+    { code: 'data-modification', message: 'Data modification operations are not allowed' }],
+  [['CREATE', 'ALTER', 'DROP'],
+    { code: 'schema-change', message: 'Schema changes are not allowed' }],
+  [['EXEC', 'EXECUTE'],
+    { code: 'procedure-execution', message: 'Stored procedure execution is not allowed' }],
+  [['GRANT', 'REVOKE', 'DENY', 'SETUSER', 'REVERT'],
+    { code: 'permission-change', message: 'Permission changes are not allowed' }],
+  [['WAITFOR'],
+    { code: 'time-delay', message: 'Time delay operations are not allowed' }],
+  [['BULK'],
+    { code: 'bulk-operation', message: 'Bulk operations are not allowed' }],
+  [['SHUTDOWN', 'KILL', 'DBCC', 'BACKUP', 'RESTORE', 'RECONFIGURE', 'CHECKPOINT', 'USE'],
+    { code: 'system-control', message: 'System control operations are not allowed' }],
+  [['DECLARE', 'SET', 'OPEN', 'FETCH', 'CLOSE', 'DEALLOCATE', 'BEGIN', 'COMMIT', 'ROLLBACK', 'SAVE',
+    'IF', 'WHILE', 'GOTO', 'RETURN', 'PRINT', 'RAISERROR', 'THROW', 'READTEXT'],
+    { code: 'procedural-statement', message: 'Only SELECT queries are allowed' }]
+];
+
+const STATEMENT_RULE_BY_KEYWORD = new Map<string, StatementRule>(
+  STATEMENT_RULES.flatMap(([keywords, rule]) => keywords.map(keyword => [keyword, rule] as [string, StatementRule]))
+);
+
+type ReportFn = (
+  code: string,
+  message: string,
+  severity: SqlDiagnosticSeverity,
+  riskLevel: SqlRiskLevel,
+  range: SourceRange
+) => void;
+
+const RISK_ORDER: Record<SqlRiskLevel, number> = { low: 1, medium: 2, high: 3 };
+
+/**
+ * Whether a leading keyword is a recognised T-SQL statement (as opposed to,
+ * say, the first word of a natural-language question).
+ */
+export const isKnownStatementKeyword = (keyword: string): boolean =>
+  keyword === 'SELECT' || keyword === 'WITH' || STATEMENT_RULE_BY_KEYWORD.has(keyword);
+
+const toDiagnostic = (
+  code: string,
+  message: string,
+  severity: SqlDiagnosticSeverity,
+  riskLevel: SqlRiskLevel,
+  range: SourceRange
+): SqlDiagnostic => ({
+  code,
+  message,
+  severity,
+  riskLevel,
+  startLineNumber: range.start.line,
+  startColumn: range.start.column,
+  endLineNumber: range.end.line,
+  // Zero-width ranges (e.g. end of input) still need a visible marker
+  endColumn: range.end.line === range.start.line && range.end.column <= range.start.column
+    ? range.start.column + 1
+    : range.end.column
+});
+
+const formatName = (name: ObjectName): string => name.parts.map(part => part.name).join('.');
+
+const firstSpecification = (body: QueryBody): QuerySpecification => {
+  switch (body.type) {
+    case 'querySpecification':
+      return body;
+    case 'setOperation':
+      return firstSpecification(body.left);
+    default:
+      return firstSpecification(body.body);
+  }
+};
+
+export class SqlSafetyPolicy {
+  private readonly maxRows: number;
+  private readonly requireRowLimit: boolean;
+  private readonly maxNestingDepth: number;
+  private readonly allowedTables: Set<string> | null;
+
+  constructor(options: SqlSafetyOptions = {}) {
+    this.maxRows = options.maxRows ?? DEFAULT_MAX_ROWS;
+    this.requireRowLimit = options.requireRowLimit ?? false;
+    this.maxNestingDepth = options.maxNestingDepth ?? DEFAULT_MAX_NESTING_DEPTH;
+    this.allowedTables = options.allowedTables
+      ? new Set(options.allowedTables.map(table => table.toLowerCase()))
+      : null;
+  }
+
+  analyze(sql: string): SqlSafetyReport {
+    let ast: SqlScript;
+    try {
+      ast = SqlParser.parse(sql);
+    } catch (error) {
+      if (error instanceof SqlSyntaxError) {
+        const diagnostic = toDiagnostic('syntax-error', error.message, 'error', 'high', error.range);
+        return { ast: null, diagnostics: [diagnostic], riskLevel: 'high', tables: [], features: [] };
+      }
+      throw error;
+    }
+
+    const diagnostics: SqlDiagnostic[] = [];
+    const report: ReportFn = (code, message, severity, riskLevel, range) => {
+      diagnostics.push(toDiagnostic(code, message, severity, riskLevel, range));
+    };
+
+    this.checkStatements(ast, report);
+
+    const tables = new Set<string>();
+    const features = new Set<SqlFeature>();
+    const cteNames = new Set<string>();
+    let nestingReported = false;
+
+    walkSqlAst(ast, node => {
+      if (node.type === 'cte') cteNames.add(node.name.name.toUpperCase());
+    });
+
+    walkSqlAst(ast, (node, ancestors) => {
+      switch (node.type) {
+        case 'querySpecification':
+          if (node.into) {
+            report('select-into', 'SELECT INTO creates a table and is not allowed', 'error', 'high', node.into.range);
+          }
+          break;
+
+        case 'tableReference': {
+          const isVariable = node.name.parts[0]?.name.startsWith('@') ?? false;
+          const isCte = node.name.parts.length === 1 && cteNames.has(formatName(node.name).toUpperCase());
+          if (isVariable || isCte) break;
+
+          tables.add(formatName(node.name));
+          this.checkObjectName(node.name, report);
+          this.checkTableAccess(node.name, report);
+
+          const lockingHint = node.hints.find(hint => LOCKING_HINTS.has(hint));
+          if (lockingHint) {
+            report('locking-hint', `Table hint ${lockingHint} takes locks that block other sessions`, 'error', 'high', node.range);
+          }
+          break;
+        }
+
+        case 'changeTable':
+          tables.add(formatName(node.table));
+          this.checkObjectName(node.table, report);
+          this.checkTableAccess(node.table, report);
+          break;
+
+        case 'tableFunction':
+          if (node.systemCall) {
+            report('system-schema', `System function access is not allowed (found: ::${formatName(node.call.name)})`, 'error', 'high', node.range);
+          }
+          break;
+
+        case 'nextValueFor':
+          report('sequence-increment', `NEXT VALUE FOR advances sequence ${formatName(node.sequence)} and is not allowed`, 'error', 'high', node.range);
+          break;
+
+        case 'functionCall':
+          this.checkFunction(node.name, report);
+          if (node.dataType && RISKY_CONVERSION_TYPES.has(node.dataType.name)) {
+            report('risky-conversion', `Conversion to ${node.dataType.name} should be used carefully`, 'warning', 'medium', node.range);
+          }
+          if (node.over) features.add('window');
+          break;
+
+        case 'cast':
+          if (RISKY_CONVERSION_TYPES.has(node.dataType.name)) {
+            report('risky-conversion', `Conversion to ${node.dataType.name} should be used carefully`, 'warning', 'medium', node.range);
+          }
+          break;
+
+        case 'variable':
+          if (node.system) {
+            report('system-variable', `System variable ${node.name} exposes server information`, 'warning', 'medium', node.range);
+          }
+          break;
+
+        case 'setOperation': {
+          features.add('setOperation');
+          const right = node.right.type === 'querySpecification' ? node.right : null;
+          const nullProbe = right?.columns.every(item =>
+            item.type === 'selectExpression' && item.expression.type === 'literal' && item.expression.kind === 'null'
+          );
+          if (node.operator.startsWith('UNION') && nullProbe) {
+            report('union-injection', 'UNION of NULL-only columns looks like an injection probe', 'error', 'high', node.right.range);
+          }
+          break;
+        }
+
+        case 'binary': {
+          const { left, right } = node;
+          const isTautology = node.operator === '=' &&
+            left.type === 'literal' && right.type === 'literal' &&
+            left.kind === right.kind && left.value === right.value;
+          if (isTautology) {
+            const parent = ancestors[ancestors.length - 1];
+            const inDisjunction = parent?.type === 'binary' && parent.operator === 'OR';
+            report(
+              'tautology',
+              inDisjunction ? 'Always-true OR condition (potential injection)' : 'Condition is always true',
+              inDisjunction ? 'error' : 'warning',
+              inDisjunction ? 'high' : 'medium',
+              node.range
+            );
+          }
+          break;
+        }
+
+        case 'selectQuery': {
+          const depth = ancestors.filter(ancestor => ancestor.type === 'selectQuery').length;
+          if (depth > 0) features.add('subquery');
+          if (depth > this.maxNestingDepth && !nestingReported) {
+            nestingReported = true;
+            report('nesting-depth', `Query nesting depth (${depth}) exceeds recommended maximum (${this.maxNestingDepth})`, 'warning', 'medium', node.range);
+          }
+          break;
+        }
+
+        case 'join':
+          features.add('join');
+          break;
+
+        case 'cte':
+          features.add('cte');
+          break;
+
+        case 'case':
+          features.add('case');
+          break;
+
+        default:
+          break;
+      }
+    });
+
+    const riskLevel = diagnostics.reduce<SqlRiskLevel>(
+      (level, diagnostic) => (RISK_ORDER[diagnostic.riskLevel] > RISK_ORDER[level] ? diagnostic.riskLevel : level),
+      'low'
+    );
+
+    return { ast, diagnostics, riskLevel, tables: Array.from(tables), features: Array.from(features) };
+  }
+
+  private checkStatements(ast: SqlScript, report: ReportFn): void {
+    if (ast.statements.length === 0) {
+      report('empty-query', 'Query contains no statements', 'error', 'high', ast.range);
+      return;
+    }
+
+    ast.statements.forEach((statement, index) => {
+      if (index > 0) {
+        report('multiple-statements', 'Only a single statement is allowed per query', 'error', 'high', statement.range);
+      }
+
+      if (statement.type === 'unsupportedStatement') {
+        const rule = STATEMENT_RULE_BY_KEYWORD.get(statement.keyword) ??
+          { code: 'procedure-execution', message: 'Only SELECT queries are allowed' };
+        report(rule.code, `${rule.message} (found: ${statement.keyword})`, 'error', 'high', statement.keywordRange);
+      } else if (index === 0) {
+        this.checkRowLimit(statement.query, report);
+      }
+    });
+  }
+
+  private checkRowLimit(query: SelectQuery, report: ReportFn): void {
+    const spec = query.body.type === 'querySpecification' ? query.body : null;
+    const top = spec?.top && !spec.top.percent ? spec.top.value : undefined;
+    const limit = query.offset?.fetch ?? top;
+
+    if (limit) {
+      if (limit.type === 'literal' && limit.kind === 'number' && Number(limit.value) > this.maxRows) {
+        report('row-limit', `Row limit of ${limit.value} exceeds the maximum of ${this.maxRows} rows`, 'error', 'high', limit.range);
+      }
+      return;
+    }
+
+    const first = firstSpecification(query.body);
+    // Constant selects (SELECT 1, SELECT GETDATE()) return a single row
+    if (first.from.length === 0) return;
+
+    const { start } = first.range;
+    const selectKeyword: SourceRange = {
+      start,
+      end: { offset: start.offset + 6, line: start.line, column: start.column + 6 }
+    };
+    report(
+      'missing-row-limit',
+      `Query has no TOP or OFFSET/FETCH clause; results are limited to ${this.maxRows} rows`,
+      this.requireRowLimit ? 'error' : 'info',
+      this.requireRowLimit ? 'medium' : 'low',
+      selectKeyword
+    );
+  }
+
+  private checkObjectName(name: ObjectName, report: ReportFn): void {
+    const parts = name.parts.map(part => part.name.toUpperCase());
+    const count = parts.length;
+    const object = parts[count - 1] ?? '';
+    const schema = count >= 2 ? parts[count - 2] ?? '' : '';
+    const database = count >= 3 ? parts[count - 3] ?? '' : '';
+
+    if (count >= 4) {
+      report('linked-server', 'Linked server access is not allowed', 'error', 'high', name.range);
+    } else if (SYSTEM_DATABASES.has(database)) {
+      report('system-database', `System database access is not allowed (found: ${formatName(name)})`, 'error', 'high', name.range);
+    } else if (SYSTEM_SCHEMAS.has(schema) || ((!schema || schema === 'DBO') && LEGACY_SYSTEM_VIEWS.has(object))) {
+      report('system-schema', `System schema access is not allowed (found: ${formatName(name)})`, 'error', 'high', name.range);
+    }
+  }
+
+  private checkFunction(name: ObjectName, report: ReportFn): void {
+    const functionName = (name.parts[name.parts.length - 1]?.name ?? '').toUpperCase();
+
+    if (EXTERNAL_DATA_FUNCTIONS.has(functionName)) {
+      report('external-data', `External data source access is not allowed (found: ${functionName})`, 'error', 'high', name.range);
+    } else if (functionName.startsWith('XP_') || functionName.startsWith('SP_')) {
+      report('procedure-execution', `Stored procedure execution is not allowed (found: ${formatName(name)})`, 'error', 'high', name.range);
+    } else if (name.parts.length === 1 && SYSTEM_METADATA_FUNCTIONS.has(functionName)) {
+      report('system-metadata', `System metadata function ${functionName} is not allowed`, 'error', 'high', name.range);
+    } else if (name.parts.length > 1) {
+      this.checkObjectName(name, report);
+    }
+  }
+
+  private checkTableAccess(name: ObjectName, report: ReportFn): void {
+    if (!this.allowedTables) return;
+
+    const parts = name.parts.map(part => part.name.toLowerCase());
+    const table = parts[parts.length - 1] ?? '';
+    const qualified = parts.slice(-2).join('.');
+
+    if (!this.allowedTables.has(table) && !this.allowedTables.has(qualified)) {
+      report('table-not-allowed', `Access to table '${formatName(name)}' is not permitted`, 'error', 'high', name.range);
+    }
+  }
+}
+
+/**
+ * Parse and check a query against the read-only policy.
+ */
+export const analyzeSqlSafety = (sql: string, options?: SqlSafetyOptions): SqlSafetyReport =>
+  new SqlSafetyPolicy(options).analyze(sql);
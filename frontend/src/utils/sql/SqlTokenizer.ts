@@ -0,0 +1,291 @@
+/**
+ * T-SQL Tokenizer
+ *
+ * Splits T-SQL source into tokens with exact source positions. Comments are
+ * collected separately so they can never hide keywords from the parser, and
+ * string literals / quoted identifiers are decoded so their contents are
+ * never mistaken for keywords.
+ */
+
+export interface SourcePosition {
+  offset: number;
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+// End position is exclusive, matching Monaco's marker ranges
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+export type SqlTokenType =
+  | 'word'
+  | 'quotedIdentifier'
+  | 'string'
+  | 'number'
+  | 'binary'
+  | 'variable'
+  | 'operator'
+  | 'punctuation'
+  | 'eof';
+
+export interface SqlToken {
+  type: SqlTokenType;
+  // Decoded value: upper-cased for words, unquoted for identifiers and strings
+  value: string;
+  // Raw source text
+  text: string;
+  range: SourceRange;
+}
+
+export interface SqlComment {
+  text: string;
+  block: boolean;
+  range: SourceRange;
+}
+
+export interface TokenizeResult {
+  tokens: SqlToken[];
+  comments: SqlComment[];
+}
+
+export class SqlSyntaxError extends Error {
+  constructor(message: string, public range: SourceRange) {
+    super(message);
+    this.name = 'SqlSyntaxError';
+  }
+}
+
+const MULTI_CHAR_OPERATORS = ['<=', '>=', '<>', '!=', '!<', '!>', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '::', '||'];
+const SINGLE_CHAR_OPERATORS = '=<>+-*/%&|^~!';
+const PUNCTUATION = '(),.;:';
+
+const isWhitespace = (char: string): boolean => /\s/.test(char);
+const isDigit = (char: string): boolean => char >= '0' && char <= '9';
+const isWordStart = (char: string): boolean => /[A-Za-z_#\u00C0-\uFFFF]/.test(char);
+const isWordPart = (char: string): boolean => /[A-Za-z0-9_@#$\u00C0-\uFFFF]/.test(char);
+
+export class SqlTokenizer {
+  private pos = 0;
+  private line = 1;
+  private column = 1;
+  private tokens: SqlToken[] = [];
+  private comments: SqlComment[] = [];
+
+  constructor(private readonly source: string) {}
+
+  static tokenize(source: string): TokenizeResult {
+    return new SqlTokenizer(source).run();
+  }
+
+  private run(): TokenizeResult {
+    while (this.pos < this.source.length) {
+      const char = this.peek();
+
+      if (isWhitespace(char)) {
+        this.advance();
+      } else if (char === '-' && this.peek(1) === '-') {
+        this.readLineComment();
+      } else if (char === '/' && this.peek(1) === '*') {
+        this.readBlockComment();
+      } else if ((char === 'N' || char === 'n') && this.peek(1) === "'") {
+        this.readString(true);
+      } else if (char === "'") {
+        this.readString(false);
+      } else if (char === '[') {
+        this.readDelimitedIdentifier('[', ']');
+      } else if (char === '"') {
+        this.readDelimitedIdentifier('"', '"');
+      } else if (char === '0' && (this.peek(1) === 'x' || this.peek(1) === 'X')) {
+        this.readBinary();
+      } else if (isDigit(char) || (char === '.' && isDigit(this.peek(1)))) {
+        this.readNumber();
+      } else if (char === '@') {
+        this.readVariable();
+      } else if (isWordStart(char)) {
+        this.readWord();
+      } else if (char === ':' && this.peek(1) === ':') {
+        // Scope operator: ::fn_helpcollations(), geography::Point(...)
+        this.readOperator();
+      } else if (PUNCTUATION.includes(char)) {
+        const start = this.position();
+        this.advance();
+        this.push('punctuation', char, start);
+      } else if (SINGLE_CHAR_OPERATORS.includes(char)) {
+        this.readOperator();
+      } else {
+        const start = this.position();
+        this.advance();
+        throw new SqlSyntaxError(`Unexpected character '${char}'`, { start, end: this.position() });
+      }
+    }
+
+    const end = this.position();
+    this.tokens.push({ type: 'eof', value: '', text: '', range: { start: end, end } });
+    return { tokens: this.tokens, comments: this.comments };
+  }
+
+  private peek(ahead = 0): string {
+    return this.source.charAt(this.pos + ahead);
+  }
+
+  private advance(): string {
+    const char = this.source.charAt(this.pos++);
+    if (char === '\n') {
+      this.line++;
+      this.column = 1;
+    } else {
+      this.column++;
+    }
+    return char;
+  }
+
+  private position(): SourcePosition {
+    return { offset: this.pos, line: this.line, column: this.column };
+  }
+
+  private push(type: SqlTokenType, value: string, start: SourcePosition): void {
+    this.tokens.push({
+      type,
+      value,
+      text: this.source.slice(start.offset, this.pos),
+      range: { start, end: this.position() }
+    });
+  }
+
+  private unterminated(what: string, start: SourcePosition): never {
+    throw new SqlSyntaxError(`Unterminated ${what}`, { start, end: this.position() });
+  }
+
+  private readLineComment(): void {
+    const start = this.position();
+    while (this.pos < this.source.length && this.peek() !== '\n') {
+      this.advance();
+    }
+    this.comments.push({ text: this.source.slice(start.offset, this.pos), block: false, range: { start, end: this.position() } });
+  }
+
+  // T-SQL block comments nest
+  private readBlockComment(): void {
+    const start = this.position();
+    let depth = 0;
+
+    do {
+      if (this.pos >= this.source.length) {
+        this.unterminated('block comment', start);
+      }
+      if (this.peek() === '/' && this.peek(1) === '*') {
+        depth++;
+        this.advance();
+        this.advance();
+      } else if (this.peek() === '*' && this.peek(1) === '/') {
+        depth--;
+        this.advance();
+        this.advance();
+      } else {
+        this.advance();
+      }
+    } while (depth > 0);
+
+    this.comments.push({ text: this.source.slice(start.offset, this.pos), block: true, range: { start, end: this.position() } });
+  }
+
+  private readString(unicode: boolean): void {
+    const start = this.position();
+    if (unicode) this.advance();
+    this.advance(); // opening quote
+
+    let value = '';
+    for (;;) {
+      if (this.pos >= this.source.length) {
+        this.unterminated('string literal', start);
+      }
+      const char = this.advance();
+      if (char === "'") {
+        if (this.peek() !== "'") break;
+        this.advance(); // '' escape
+      }
+      value += char;
+    }
+
+    this.push('string', value, start);
+  }
+
+  private readDelimitedIdentifier(open: string, close: string): void {
+    const start = this.position();
+    this.advance();
+
+    let value = '';
+    for (;;) {
+      if (this.pos >= this.source.length) {
+        this.unterminated(`identifier (missing ${close})`, start);
+      }
+      const char = this.advance();
+      if (char === close) {
+        if (this.peek() !== close) break;
+        this.advance(); // ]] or "" escape
+      }
+      value += char;
+    }
+
+    if (open === '[' && value.length === 0) {
+      throw new SqlSyntaxError('Empty delimited identifier', { start, end: this.position() });
+    }
+    this.push('quotedIdentifier', value, start);
+  }
+
+  private readBinary(): void {
+    const start = this.position();
+    this.advance();
+    this.advance();
+    while (/[0-9A-Fa-f]/.test(this.peek())) {
+      this.advance();
+    }
+    this.push('binary', this.source.slice(start.offset, this.pos), start);
+  }
+
+  private readNumber(): void {
+    const start = this.position();
+    while (isDigit(this.peek())) this.advance();
+    if (this.peek() === '.') {
+      this.advance();
+      while (isDigit(this.peek())) this.advance();
+    }
+    if ((this.peek() === 'e' || this.peek() === 'E') &&
+        (isDigit(this.peek(1)) || ((this.peek(1) === '+' || this.peek(1) === '-') && isDigit(this.peek(2))))) {
+      this.advance();
+      if (!isDigit(this.peek())) this.advance();
+      while (isDigit(this.peek())) this.advance();
+    }
+    this.push('number', this.source.slice(start.offset, this.pos), start);
+  }
+
+  // @local and @@SYSTEM variables
+  private readVariable(): void {
+    const start = this.position();
+    this.advance();
+    if (this.peek() === '@') this.advance();
+    while (isWordPart(this.peek())) this.advance();
+
+    const text = this.source.slice(start.offset, this.pos);
+    if (text === '@' || text === '@@') {
+      throw new SqlSyntaxError('Expected variable name', { start, end: this.position() });
+    }
+    this.push('variable', text.toUpperCase(), start);
+  }
+
+  private readWord(): void {
+    const start = this.position();
+    while (isWordPart(this.peek())) this.advance();
+    this.push('word', this.source.slice(start.offset, this.pos).toUpperCase(), start);
+  }
+
+  private readOperator(): void {
+    const start = this.position();
+    const pair = this.peek() + this.peek(1);
+    const operator = MULTI_CHAR_OPERATORS.includes(pair) ? pair : this.peek();
+    for (let i = 0; i < operator.length; i++) this.advance();
+    this.push('operator', operator, start);
+  }
+}
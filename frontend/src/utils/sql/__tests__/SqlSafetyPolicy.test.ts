@@ -0,0 +1,174 @@
+import { SqlParser } from '../SqlParser';
+import { analyzeSqlSafety } from '../SqlSafetyPolicy';
+import { SqlTokenizer } from '../SqlTokenizer';
+
+const codes = (sql: string, options = {}) => analyzeSqlSafety(sql, options).diagnostics.map(d => d.code);
+
+const firstQuerySpecification = (sql: string) => {
+  const [statement] = SqlParser.parse(sql).statements;
+  if (statement?.type !== 'selectStatement' || statement.query.body.type !== 'querySpecification') {
+    throw new Error('Expected a query specification');
+  }
+  return statement.query.body;
+};
+
+describe('SqlTokenizer', () => {
+  it('keeps keywords inside strings, comments and brackets out of the word stream', () => {
+    const words = SqlTokenizer.tokenize("SELECT [drop], 'DELETE' /* UPDATE */ FROM t -- EXEC")
+      .tokens.filter(token => token.type === 'word')
+      .map(token => token.value);
+    expect(words).toEqual(['SELECT', 'FROM', 'T']);
+  });
+});
+
+describe('SqlParser', () => {
+  it('parses a CTE query with joins, APPLY, window functions and OFFSET/FETCH', () => {
+    const script = SqlParser.parse(`
+      WITH recent AS (
+        SELECT player_id, SUM(amount) AS total
+        FROM dbo.tbl_daily_actions WITH (NOLOCK)
+        WHERE action_date >= DATEADD(day, -7, GETDATE())
+        GROUP BY player_id
+      )
+      SELECT p.name, r.total,
+             ROW_NUMBER() OVER (PARTITION BY p.country ORDER BY r.total DESC) AS rn,
+             CASE WHEN r.total > 100 THEN 'high' ELSE 'low' END AS band
+      FROM recent r
+      INNER JOIN [dbo].[tbl_daily_actions_players] p ON p.id = r.player_id
+      CROSS APPLY OPENJSON(p.tags) WITH (tag nvarchar(50) '$.name') AS t
+      ORDER BY r.total DESC
+      OFFSET 0 ROWS FETCH NEXT 50 ROWS ONLY;
+    `);
+
+    expect(script.statements).toHaveLength(1);
+    expect(script.statements[0]?.type).toBe('selectStatement');
+  });
+
+  it('keeps table hints and derived tables on the AST', () => {
+    const [join] = firstQuerySpecification('SELECT t.a FROM (SELECT a FROM x) t JOIN y WITH (NOLOCK, INDEX(ix_y)) ON y.a = t.a').from;
+    if (join?.type !== 'join') throw new Error('Expected a join');
+    expect(join.left.type).toBe('derivedTable');
+    expect(join.right).toMatchObject({ type: 'tableReference', hints: ['NOLOCK', 'INDEX ( IX_Y )'] });
+  });
+
+  it('parses TABLESAMPLE and FOR SYSTEM_TIME on table references', () => {
+    const [table] = firstQuerySpecification(
+      "SELECT TOP 5 * FROM dbo.Orders FOR SYSTEM_TIME AS OF '2024-01-01' o TABLESAMPLE SYSTEM (10 PERCENT) REPEATABLE (7)"
+    ).from;
+    expect(table).toMatchObject({
+      type: 'tableReference',
+      systemTime: { kind: 'AS OF' },
+      alias: { name: 'o' },
+      sample: { unit: 'PERCENT', size: { value: '10' }, repeatable: { value: '7' } }
+    });
+  });
+
+  it('parses CHANGETABLE, ::function() sources and DEFAULT arguments', () => {
+    const [changes] = firstQuerySpecification('SELECT TOP 5 * FROM CHANGETABLE(CHANGES dbo.Orders, @since) AS ct').from;
+    expect(changes).toMatchObject({ type: 'changeTable', kind: 'CHANGES', table: { parts: [{ name: 'dbo' }, { name: 'Orders' }] } });
+
+    const [version] = firstQuerySpecification('SELECT * FROM CHANGETABLE(VERSION dbo.Orders, (Id), (42)) AS v').from;
+    expect(version).toMatchObject({ type: 'changeTable', kind: 'VERSION', keyColumns: [{ name: 'Id' }] });
+
+    const [legacy] = firstQuerySpecification('SELECT * FROM ::fn_helpcollations()').from;
+    expect(legacy).toMatchObject({ type: 'tableFunction', systemCall: true });
+
+    const [tvf] = firstQuerySpecification("SELECT * FROM dbo.fn_orders('2024', DEFAULT)").from;
+    expect(tvf).toMatchObject({ type: 'tableFunction', call: { args: [{ kind: 'string' }, { kind: 'default' }] } });
+  });
+
+  it('parses NEXT VALUE FOR as a single expression', () => {
+    const sql = 'SELECT NEXT VALUE FOR dbo.order_seq AS next_id';
+    expect(SqlParser.parse(sql).statements).toHaveLength(1);
+    expect(firstQuerySpecification(sql).columns[0]).toMatchObject({
+      expression: { type: 'nextValueFor', sequence: { parts: [{ name: 'dbo' }, { name: 'order_seq' }] } },
+      alias: { name: 'next_id' }
+    });
+  });
+
+  it('rejects clauses after a query instead of starting a new statement', () => {
+    expect(() => SqlParser.parse('SELECT a FROM t INTO x')).toThrow('INTO must directly follow the select list');
+    expect(() => SqlParser.parse('SELECT a FROM t FOR')).toThrow('Unexpected token after query');
+    expect(SqlParser.parse('SELECT a FROM t SELECT b FROM u').statements).toHaveLength(2);
+  });
+
+  it('reports syntax errors with line and column', () => {
+    const report = analyzeSqlSafety('SELECT name\nFROM players\nWHERE (id = 1');
+    expect(report.ast).toBeNull();
+    expect(report.diagnostics[0]).toMatchObject({ code: 'syntax-error', startLineNumber: 3, startColumn: 14 });
+  });
+});
+
+describe('SqlSafetyPolicy', () => {
+  it('does not flag keywords inside string literals or identifiers', () => {
+    const sql = "SELECT TOP 10 created_date, [update], 'DROP TABLE x; UPDATE' AS note FROM orders WHERE status = 'DELETE'";
+    expect(analyzeSqlSafety(sql).diagnostics.filter(d => d.severity === 'error')).toEqual([]);
+  });
+
+  it('blocks statements hidden behind comments', () => {
+    expect(codes('SELECT TOP 1 * FROM orders /* harmless */; DROP/**/TABLE orders')).toEqual(
+      expect.arrayContaining(['multiple-statements', 'schema-change'])
+    );
+  });
+
+  it('blocks system schemas even when bracketed', () => {
+    const report = analyzeSqlSafety('SELECT TOP 5 name FROM [sys].[objects]');
+    expect(report.diagnostics[0]).toMatchObject({
+      code: 'system-schema',
+      startLineNumber: 1,
+      startColumn: 24,
+      endColumn: 39
+    });
+  });
+
+  it('blocks legacy system views under dbo and metadata functions', () => {
+    expect(codes('SELECT TOP 5 name FROM dbo.sysobjects')).toContain('system-schema');
+    expect(codes('SELECT TOP 5 name FROM reports.dbo.syscomments')).toContain('system-schema');
+    expect(codes("SELECT OBJECT_DEFINITION(OBJECT_ID('dbo.usp_payroll')) AS body")).toContain('system-metadata');
+    expect(codes("SELECT SERVERPROPERTY('ProductVersion') AS version")).toContain('system-metadata');
+    expect(codes('SELECT TOP 5 name FROM sales.sysobjects')).toEqual([]);
+  });
+
+  it('blocks locking table hints but allows NOLOCK', () => {
+    expect(codes('SELECT TOP 5 * FROM orders WITH (TABLOCKX)')).toContain('locking-hint');
+    expect(codes('SELECT TOP 5 * FROM orders o WITH (NOLOCK, UPDLOCK)')).toContain('locking-hint');
+    expect(codes('SELECT TOP 5 * FROM orders (HOLDLOCK)')).toContain('locking-hint');
+    expect(codes('SELECT TOP 5 * FROM orders WITH (NOLOCK)')).toEqual([]);
+  });
+
+  it('reports OPENDATASOURCE four-part names as external data', () => {
+    const report = analyzeSqlSafety("SELECT TOP 5 * FROM OPENDATASOURCE('SQLNCLI', 'Data Source=x;').db.dbo.t");
+    expect(report.ast).not.toBeNull();
+    expect(report.diagnostics.map(d => d.code)).toEqual(['external-data']);
+  });
+
+  it('blocks rowset providers, SELECT INTO and stored procedures', () => {
+    expect(codes("SELECT TOP 1 * FROM OPENROWSET('SQLNCLI', 'Server=x;', 'SELECT 1')")).toContain('external-data');
+    expect(codes('SELECT TOP 1 * INTO #copy FROM orders')).toContain('select-into');
+    expect(codes('EXEC xp_cmdshell \'dir\'')).toContain('procedure-execution');
+  });
+
+  it('reports sequences, system functions and change tables by what they are', () => {
+    expect(codes('SELECT NEXT VALUE FOR dbo.order_seq')).toEqual(['sequence-increment']);
+    expect(codes("SELECT TOP 5 * FROM sys.fn_trace_gettable('c:\\audit.trc', DEFAULT)")).toEqual(['system-schema']);
+    expect(codes('SELECT TOP 5 * FROM ::fn_helpcollations()')).toEqual(['system-schema']);
+    expect(codes('SELECT TOP 5 * FROM orders TABLESAMPLE (10 PERCENT)')).toEqual([]);
+    expect(codes('SELECT TOP 5 a FROM orders INTO x')).toEqual(['syntax-error']);
+
+    const report = analyzeSqlSafety('SELECT TOP 5 * FROM CHANGETABLE(CHANGES dbo.orders, 0) AS ct', { allowedTables: ['customers'] });
+    expect(report.tables).toEqual(['dbo.orders']);
+    expect(report.diagnostics.map(d => d.code)).toEqual(['table-not-allowed']);
+  });
+
+  it('enforces row limits', () => {
+    expect(codes('SELECT * FROM orders', { requireRowLimit: true })).toContain('missing-row-limit');
+    expect(codes('SELECT TOP 50000 * FROM orders', { maxRows: 10000 })).toContain('row-limit');
+    expect(codes('SELECT TOP 100 * FROM orders')).toEqual([]);
+  });
+
+  it('restricts table access while ignoring CTE names', () => {
+    const options = { allowedTables: ['orders'] };
+    expect(codes('WITH o AS (SELECT TOP 10 * FROM orders) SELECT TOP 10 * FROM o', options)).toEqual([]);
+    expect(codes('SELECT TOP 10 * FROM customers', options)).toContain('table-not-allowed');
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * T-SQL parsing and safety analysis
+ *
+ * frontend-v2 imports this directory through its `@sql` alias rather than
+ * keeping a copy: Create React App only compiles files under src/, so the one
+ * implementation lives here. Run both apps' type-checks when changing it.
+ */
+
+export { SqlTokenizer, SqlSyntaxError } from './SqlTokenizer';
+export type { SourcePosition, SourceRange, SqlToken, SqlTokenType, SqlComment } from './SqlTokenizer';
+export { SqlParser, isReservedWord } from './SqlParser';
+export { walkSqlAst } from './SqlAst';
+export type {
+  SqlScript,
+  SqlStatement,
+  SqlNode,
+  SelectStatement,
+  UnsupportedStatement,
+  SelectQuery,
+  QueryBody,
+  QuerySpecification,
+  TableSource,
+  TableReference,
+  TableFunction,
+  ChangeTable,
+  SystemTimeClause,
+  TableSample,
+  Expression,
+  NextValueForExpression,
+  ObjectName,
+  Identifier
+} from './SqlAst';
+export { SqlSafetyPolicy, analyzeSqlSafety, isKnownStatementKeyword } from './SqlSafetyPolicy';
+export type {
+  SqlDiagnostic,
+  SqlDiagnosticSeverity,
+  SqlRiskLevel,
+  SqlFeature,
+  SqlSafetyOptions,
+  SqlSafetyReport
+} from './SqlSafetyPolicy';